@@ -0,0 +1,37 @@
+-- Create append-only application audit log
+-- Each event stores the hash of its predecessor; hash = sha256(previous_hash || canonical content)
+CREATE TABLE audit_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sequence BIGINT UNIQUE NOT NULL CHECK (sequence > 0),
+    type VARCHAR(64) NOT NULL,
+    actor_id UUID,
+    subject_type VARCHAR(32) NOT NULL CHECK (subject_type IN ('user', 'session', 'conversation', 'audit')),
+    subject_id TEXT NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ip_address TEXT,
+    user_agent TEXT,
+    previous_hash CHAR(64) NOT NULL,
+    hash CHAR(64) UNIQUE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for administrative queries
+CREATE INDEX idx_audit_events_created_at ON audit_events(created_at DESC, id DESC);
+CREATE INDEX idx_audit_events_type ON audit_events(type, created_at DESC);
+CREATE INDEX idx_audit_events_actor_id ON audit_events(actor_id, created_at DESC);
+CREATE INDEX idx_audit_events_subject_id ON audit_events(subject_id, created_at DESC);
+
+-- Reject changes to recorded events
+CREATE OR REPLACE FUNCTION reject_audit_event_change() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_events_append_only
+    BEFORE UPDATE OR DELETE ON audit_events
+    FOR EACH ROW EXECUTE FUNCTION reject_audit_event_change();
+
+-- Application roles may append and read, never modify
+GRANT SELECT, INSERT ON audit_events TO authenticated;
+REVOKE UPDATE, DELETE, TRUNCATE ON audit_events FROM authenticated;
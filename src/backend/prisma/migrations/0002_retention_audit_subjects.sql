@@ -0,0 +1,4 @@
+-- Allow retention policy subjects in the audit log
+ALTER TABLE audit_events DROP CONSTRAINT audit_events_subject_type_check;
+ALTER TABLE audit_events ADD CONSTRAINT audit_events_subject_type_check
+    CHECK (subject_type IN ('user', 'session', 'conversation', 'audit', 'retention_policy'));
@@ -0,0 +1,43 @@
+-- Create organizations; every tenant-specific setting lives in one JSONB document
+CREATE TABLE organizations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    slug VARCHAR(63) UNIQUE NOT NULL CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+    settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- A user is a member of at most one organization
+ALTER TABLE users
+    ADD COLUMN organization_id UUID REFERENCES organizations(id) ON DELETE RESTRICT,
+    ADD COLUMN organization_role VARCHAR(20) CHECK (organization_role IN ('owner', 'admin', 'member')),
+    ADD CONSTRAINT organization_membership CHECK ((organization_id IS NULL) = (organization_role IS NULL));
+
+CREATE INDEX idx_users_organization_id ON users(organization_id);
+
+-- Members may read their own organization
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY organizations_access ON organizations
+    FOR SELECT
+    TO authenticated
+    USING (id IN (
+        SELECT organization_id FROM users WHERE id = current_user_id()
+    ));
+
+CREATE TRIGGER audit_organizations
+    AFTER INSERT OR UPDATE OR DELETE ON organizations
+    FOR EACH ROW EXECUTE FUNCTION audit_log();
+
+CREATE TRIGGER update_organizations_updated_at
+    BEFORE UPDATE ON organizations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Allow organization subjects in the audit log
+ALTER TABLE audit_events DROP CONSTRAINT audit_events_subject_type_check;
+ALTER TABLE audit_events ADD CONSTRAINT audit_events_subject_type_check
+    CHECK (subject_type IN ('user', 'session', 'conversation', 'audit', 'organization', 'retention_policy'));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON organizations TO authenticated;
@@ -0,0 +1,35 @@
+-- Create API keys for server-to-server access; only a SHA-256 hash of each key is stored
+CREATE TABLE api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    prefix VARCHAR(16) NOT NULL,
+    key_hash CHAR(64) UNIQUE NOT NULL,
+    scopes TEXT[] NOT NULL CHECK (cardinality(scopes) > 0),
+    rate_limit INTEGER CHECK (rate_limit IS NULL OR rate_limit > 0),
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_api_keys_user_id ON api_keys(user_id, created_at DESC);
+
+-- Owners may manage their own keys
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY api_keys_access ON api_keys
+    FOR ALL
+    TO authenticated
+    USING (user_id = current_user_id());
+
+CREATE TRIGGER audit_api_keys
+    AFTER INSERT OR UPDATE OR DELETE ON api_keys
+    FOR EACH ROW EXECUTE FUNCTION audit_log();
+
+-- Allow API key subjects in the audit log
+ALTER TABLE audit_events DROP CONSTRAINT audit_events_subject_type_check;
+ALTER TABLE audit_events ADD CONSTRAINT audit_events_subject_type_check
+    CHECK (subject_type IN ('user', 'session', 'conversation', 'audit', 'organization', 'retention_policy', 'api_key'));
+
+GRANT SELECT, INSERT, UPDATE ON api_keys TO authenticated;
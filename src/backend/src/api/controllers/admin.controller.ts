@@ -0,0 +1,269 @@
+import { Request, Response, NextFunction } from 'express'; // v4.18.2
+
+import { AdminService } from '../../services/admin/admin.service';
+import {
+  validateAuditEventQuery,
+  validateAuditSequence,
+  validateUserSearchQuery,
+  validateUserStatusUpdate
+} from '../validators/admin.validator';
+import { validateUUID } from '../../utils/validation.utils';
+import { HTTP_STATUS, ERROR_CODES } from '../../constants/error.constants';
+import { Result, UUID } from '../../types/common.types';
+import { IAuthRequest } from '../../interfaces/auth.interface';
+
+/**
+ * Controller handling the administration endpoints used by support staff
+ * Routes are restricted to administrators; the acting administrator is taken
+ * from the access token and recorded with every action
+ */
+export class AdminController {
+  constructor(private readonly adminService: AdminService) {}
+
+  /**
+   * Searches users by email fragment and status
+   */
+  public searchUsers = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const queryResult = validateUserSearchQuery(req.query);
+      if (!queryResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(queryResult);
+        return;
+      }
+
+      const result = await this.adminService.searchUsers(this.adminId(req), queryResult.data);
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Changes the status of a user account
+   */
+  public updateUserStatus = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+
+      const idResult = validateUUID(userId);
+      if (!idResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+        return;
+      }
+
+      const bodyResult = validateUserStatusUpdate(req.body);
+      if (!bodyResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(bodyResult);
+        return;
+      }
+
+      const { status, reason } = bodyResult.data;
+      const result = await this.adminService.setUserStatus(
+        this.adminId(req),
+        userId as UUID,
+        status,
+        reason
+      );
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists the active sessions of a user
+   */
+  public listUserSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+
+      const idResult = validateUUID(userId);
+      if (!idResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+        return;
+      }
+
+      const result = await this.adminService.listUserSessions(this.adminId(req), userId as UUID);
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Ends one active session of a user
+   */
+  public terminateSession = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { userId, sessionId } = req.params;
+
+      for (const id of [userId, sessionId]) {
+        const idResult = validateUUID(id);
+        if (!idResult.success) {
+          res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+          return;
+        }
+      }
+
+      const result = await this.adminService.terminateSession(
+        this.adminId(req),
+        userId as UUID,
+        sessionId as UUID
+      );
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Ends every session of a user and revokes their refresh tokens
+   */
+  public terminateUserSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { userId } = req.params;
+
+      const idResult = validateUUID(userId);
+      if (!idResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+        return;
+      }
+
+      const result = await this.adminService.terminateUserSessions(
+        this.adminId(req),
+        userId as UUID
+      );
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves the transcript of a conversation
+   * `reveal=true` restores retained personal data; the route checks the permission
+   */
+  public getConversationTranscript = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { conversationId } = req.params;
+
+      const idResult = validateUUID(conversationId);
+      if (!idResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+        return;
+      }
+
+      const result = await this.adminService.getConversationTranscript(
+        this.adminId(req),
+        conversationId as UUID,
+        req.query.reveal === 'true'
+      );
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Queries the audit log
+   */
+  public queryAuditEvents = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const queryResult = validateAuditEventQuery(req.query);
+      if (!queryResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(queryResult);
+        return;
+      }
+
+      const result = await this.adminService.queryAuditEvents(
+        this.adminId(req),
+        queryResult.data
+      );
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Verifies the audit log hash chain
+   */
+  public verifyAuditChain = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const sequenceResult = validateAuditSequence(req.query.from);
+      if (!sequenceResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(sequenceResult);
+        return;
+      }
+
+      const result = await this.adminService.verifyAuditChain(
+        this.adminId(req),
+        sequenceResult.data
+      );
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private adminId(req: Request): UUID {
+    return (req as IAuthRequest).user.id;
+  }
+
+  /**
+   * Maps a service result to its HTTP status
+   */
+  private statusFor(result: Result<unknown>): HTTP_STATUS {
+    if (result.success) {
+      return HTTP_STATUS.OK;
+    }
+    switch (result.error?.code) {
+      case ERROR_CODES.NOT_FOUND:
+        return HTTP_STATUS.NOT_FOUND;
+      case ERROR_CODES.VALIDATION_ERROR:
+        return HTTP_STATUS.BAD_REQUEST;
+      default:
+        return HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    }
+  }
+}
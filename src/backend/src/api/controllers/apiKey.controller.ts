@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express'; // v4.18.2
+
+import { ApiKeyService } from '../../services/auth/apiKey.service';
+import { validateApiKeyCreate } from '../validators/apiKey.validator';
+import { validateUUID } from '../../utils/validation.utils';
+import { HTTP_STATUS, ERROR_CODES } from '../../constants/error.constants';
+import { Result, UUID } from '../../types/common.types';
+import { IAuthRequest } from '../../interfaces/auth.interface';
+
+/**
+ * Controller handling the endpoints through which users manage their API keys
+ * The owner is always taken from the access token, never from the request
+ */
+export class ApiKeyController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  /**
+   * Creates an API key; the response is the only time the key is shown
+   */
+  public createKey = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const bodyResult = validateApiKeyCreate(req.body);
+      if (!bodyResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(bodyResult);
+        return;
+      }
+
+      const result = await this.apiKeyService.createKey(this.userId(req), bodyResult.data);
+
+      res.setHeader('Cache-Control', 'no-store');
+      res.status(result.success ? HTTP_STATUS.CREATED : this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists the user's API keys that have not been revoked
+   */
+  public listKeys = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const result = await this.apiKeyService.listKeys(this.userId(req));
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Revokes one of the user's API keys
+   */
+  public revokeKey = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { keyId } = req.params;
+
+      const idResult = validateUUID(keyId);
+      if (!idResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+        return;
+      }
+
+      const result = await this.apiKeyService.revokeKey(this.userId(req), keyId as UUID);
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private userId(req: Request): UUID {
+    return (req as IAuthRequest).user.id;
+  }
+
+  /**
+   * Maps a service result to its HTTP status
+   */
+  private statusFor(result: Result<unknown>): HTTP_STATUS {
+    if (result.success) {
+      return HTTP_STATUS.OK;
+    }
+    switch (result.error?.code) {
+      case ERROR_CODES.NOT_FOUND:
+        return HTTP_STATUS.NOT_FOUND;
+      case ERROR_CODES.VALIDATION_ERROR:
+        return HTTP_STATUS.BAD_REQUEST;
+      default:
+        return HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    }
+  }
+}
@@ -14,9 +14,10 @@ import {
   validateRegistrationRequest,
   validateRefreshTokenRequest
 } from '../validators/auth.validator';
-import { IAuthCredentials } from '../../interfaces/auth.interface';
+import { IAuthCredentials, IAuthRequest } from '../../interfaces/auth.interface';
+import { jwtService } from '../../services/auth/jwt.service';
 import { logger } from '../../utils/logger.utils';
-import { createError } from '../../utils/error.utils';
+import { createError, describeError } from '../../utils/error.utils';
 import { ERROR_CODES } from '../../constants/error.constants';
 
 export class AuthController {
@@ -238,4 +239,107 @@ export class AuthController {
       });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Handles logout requests, ending the login of the current device
+   * The access token and the refresh token in the body are both revoked when present
+   * @param req Express request object
+   * @param res Express response object
+   */
+  public async logout(req: Request, res: Response): Promise<Response> {
+    try {
+      const context = {
+        ip: req.ip ?? 'unknown',
+        userAgent: req.headers['user-agent'] || 'unknown'
+      };
+      const accessToken = req.headers.authorization?.replace(/^Bearer\s+/, '') || null;
+      const refreshToken = typeof req.body?.refreshToken === 'string'
+        ? req.body.refreshToken
+        : null;
+
+      const logoutResult = await this.authService.logout(accessToken, refreshToken, context);
+      if (!logoutResult.success) {
+        return res.status(400).json(logoutResult);
+      }
+
+      res.clearCookie('access_token');
+      return res.status(200).json(logoutResult);
+    } catch (error) {
+      logger.error('Logout error', { error });
+      return res.status(500).json({
+        success: false,
+        error: createError(ERROR_CODES.SYSTEM_ERROR, {
+          message: 'Logout failed'
+        }),
+        data: null,
+        metadata: {}
+      });
+    }
+  }
+
+  /**
+   * Handles requests to log out every device of the authenticated user
+   * @param req Authenticated Express request object
+   * @param res Express response object
+   */
+  public async logoutAllDevices(req: Request, res: Response): Promise<Response> {
+    try {
+      const context = {
+        ip: req.ip ?? 'unknown',
+        userAgent: req.headers['user-agent'] || 'unknown'
+      };
+
+      const logoutResult = await this.authService.logoutAllDevices(
+        (req as IAuthRequest).user.id,
+        context
+      );
+      if (!logoutResult.success) {
+        return res.status(500).json(logoutResult);
+      }
+
+      res.clearCookie('access_token');
+      return res.status(200).json(logoutResult);
+    } catch (error) {
+      logger.error('Logout of all devices error', { error });
+      return res.status(500).json({
+        success: false,
+        error: createError(ERROR_CODES.SYSTEM_ERROR, {
+          message: 'Logout of all devices failed'
+        }),
+        data: null,
+        metadata: {}
+      });
+    }
+  }
+
+  /**
+   * Issues a one-time ticket for authenticating a voice WebSocket connection
+   * Browsers cannot set headers on WebSocket upgrades, so the ticket is passed
+   * as a query parameter instead of the access token
+   * @param req Authenticated Express request object
+   * @param res Express response object
+   */
+  public async issueConnectionTicket(req: Request, res: Response): Promise<Response> {
+    try {
+      const token = req.headers.authorization?.replace(/^Bearer\s+/, '') ?? '';
+      const { ticket, expiresIn } = await jwtService.issueConnectionTicket(token);
+
+      return res.status(200).json({
+        success: true,
+        data: { ticket, expiresIn },
+        error: null,
+        metadata: {}
+      });
+    } catch (error) {
+      logger.warn('Connection ticket rejected', { error: describeError(error) });
+      return res.status(401).json({
+        success: false,
+        error: createError(ERROR_CODES.AUTH_ERROR, {
+          message: 'Connection ticket could not be issued'
+        }),
+        data: null,
+        metadata: {}
+      });
+    }
+  }
+}
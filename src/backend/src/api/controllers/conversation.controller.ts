@@ -7,11 +7,14 @@ import { ConversationService } from '../../services/conversation/conversation.se
 import { 
   validateCreateConversation, 
   validateUpdateConversation, 
-  validateConversationId 
+  validateConversationId,
+  validateListConversationsQuery,
+  validateHistoryPage
 } from '../validators/conversation.validator';
 import { HTTP_STATUS, ERROR_CODES, createErrorInfo } from '../../constants/error.constants';
 import { ConversationStatus } from '../../interfaces/conversation.interface';
 import { Result } from '../../types/common.types';
+import { IAuthRequest } from '../../interfaces/auth.interface';
 
 /**
  * Enhanced controller handling HTTP endpoints for conversation management
@@ -72,8 +75,9 @@ export class ConversationController {
       }
 
       // Execute service call with circuit breaker
-      const result = await this.circuitBreaker.fire(async () => 
-        await this.conversationService.createConversation(req.body)
+      const { id: userId, organizationId = null } = (req as IAuthRequest).user;
+      const result = await this.circuitBreaker.fire(async () =>
+        await this.conversationService.createConversation(req.body, userId, organizationId)
       );
 
       // Track performance metrics
@@ -85,6 +89,105 @@ export class ConversationController {
     }
   };
 
+  /**
+   * Lists the authenticated user's conversations with filters and cursor pagination
+   */
+  public listConversations = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const startTime = Date.now();
+
+    try {
+      const queryResult = validateListConversationsQuery(req.query);
+      if (!queryResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(queryResult);
+        return;
+      }
+
+      const { id: userId, organizationId = null } = (req as IAuthRequest).user;
+      const result = await this.circuitBreaker.fire(async () =>
+        await this.conversationService.listConversations(userId, organizationId, queryResult.data)
+      );
+
+      this.performanceMonitor.recordMetric('list_conversations', Date.now() - startTime);
+
+      res.status(result.success ? HTTP_STATUS.OK : HTTP_STATUS.INTERNAL_SERVER_ERROR).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves one page of a conversation's message history
+   */
+  public getConversationMessages = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id: conversationId } = req.params;
+
+      const validationResult = validateConversationId(conversationId);
+      if (!validationResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(validationResult);
+        return;
+      }
+
+      const pageResult = validateHistoryPage(req.query);
+      if (!pageResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(pageResult);
+        return;
+      }
+
+      const { id: userId, organizationId = null } = (req as IAuthRequest).user;
+      const { page, limit } = pageResult.data;
+      const result = await this.circuitBreaker.fire(async () =>
+        await this.conversationService.getConversationMessages(
+          conversationId,
+          userId,
+          organizationId,
+          page,
+          limit
+        )
+      );
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Issues signed URLs for the recorded audio of a conversation
+   */
+  public getConversationAudio = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { id: conversationId } = req.params;
+
+      const validationResult = validateConversationId(conversationId);
+      if (!validationResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(validationResult);
+        return;
+      }
+
+      const { id: userId, organizationId = null } = (req as IAuthRequest).user;
+      const result = await this.circuitBreaker.fire(async () =>
+        await this.conversationService.getConversationAudio(conversationId, userId, organizationId)
+      );
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
   /**
    * Retrieves conversation details with security validation
    */
@@ -103,8 +206,13 @@ export class ConversationController {
         return;
       }
 
+      const { id: userId, organizationId = null } = (req as IAuthRequest).user;
       const result = await this.circuitBreaker.fire(async () =>
-        await this.conversationService.getConversationMetrics(conversationId)
+        await this.conversationService.getConversationMetrics(
+          conversationId,
+          userId,
+          organizationId
+        )
       );
 
       if (!result.success) {
@@ -179,6 +287,18 @@ export class ConversationController {
     }
   };
 
+  /**
+   * Maps a service result to its HTTP status
+   */
+  private statusFor(result: Result<unknown>): HTTP_STATUS {
+    if (result.success) {
+      return HTTP_STATUS.OK;
+    }
+    return result.error?.code === ERROR_CODES.NOT_FOUND
+      ? HTTP_STATUS.NOT_FOUND
+      : HTTP_STATUS.INTERNAL_SERVER_ERROR;
+  }
+
   /**
    * Sets up error handlers for circuit breaker and performance monitoring
    */
@@ -0,0 +1,220 @@
+import { Request, Response, NextFunction } from 'express'; // v4.18.2
+
+import { OrganizationService } from '../../services/organization/organization.service';
+import {
+  validateMemberAddition,
+  validateOrganizationCreate,
+  validateOrganizationSettings
+} from '../validators/organization.validator';
+import { validateUUID } from '../../utils/validation.utils';
+import { HTTP_STATUS, ERROR_CODES } from '../../constants/error.constants';
+import { Result, UUID } from '../../types/common.types';
+import { IAuthRequest } from '../../interfaces/auth.interface';
+
+/**
+ * Controller handling organization management
+ * Access to an organization is checked by the routes; the acting user is
+ * taken from the access token and recorded with every change
+ */
+export class OrganizationController {
+  constructor(private readonly organizationService: OrganizationService) {}
+
+  /**
+   * Creates an organization
+   */
+  public createOrganization = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const bodyResult = validateOrganizationCreate(req.body);
+      if (!bodyResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(bodyResult);
+        return;
+      }
+
+      const result = await this.organizationService.createOrganization(
+        this.actorId(req),
+        bodyResult.data
+      );
+
+      res.status(result.success ? HTTP_STATUS.CREATED : this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves an organization with its settings
+   */
+  public getOrganization = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { organizationId } = req.params;
+
+      const idResult = validateUUID(organizationId);
+      if (!idResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+        return;
+      }
+
+      const result = await this.organizationService.getOrganization(organizationId as UUID);
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replaces some of an organization's settings
+   */
+  public updateSettings = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { organizationId } = req.params;
+
+      const idResult = validateUUID(organizationId);
+      if (!idResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+        return;
+      }
+
+      const bodyResult = validateOrganizationSettings(req.body);
+      if (!bodyResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(bodyResult);
+        return;
+      }
+
+      const result = await this.organizationService.updateSettings(
+        this.actorId(req),
+        organizationId as UUID,
+        bodyResult.data
+      );
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists the members of an organization
+   */
+  public listMembers = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { organizationId } = req.params;
+
+      const idResult = validateUUID(organizationId);
+      if (!idResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+        return;
+      }
+
+      const result = await this.organizationService.listMembers(organizationId as UUID);
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Adds a user without an organization as a member
+   */
+  public addMember = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { organizationId } = req.params;
+
+      const idResult = validateUUID(organizationId);
+      if (!idResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+        return;
+      }
+
+      const bodyResult = validateMemberAddition(req.body);
+      if (!bodyResult.success) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(bodyResult);
+        return;
+      }
+
+      const result = await this.organizationService.addMember(
+        this.actorId(req),
+        organizationId as UUID,
+        bodyResult.data.userId,
+        bodyResult.data.role
+      );
+
+      res.status(result.success ? HTTP_STATUS.CREATED : this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Removes a member from an organization
+   */
+  public removeMember = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const { organizationId, userId } = req.params;
+
+      for (const id of [organizationId, userId]) {
+        const idResult = validateUUID(id);
+        if (!idResult.success) {
+          res.status(HTTP_STATUS.BAD_REQUEST).json(idResult);
+          return;
+        }
+      }
+
+      const result = await this.organizationService.removeMember(
+        this.actorId(req),
+        organizationId as UUID,
+        userId as UUID
+      );
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private actorId(req: Request): UUID {
+    return (req as IAuthRequest).user.id;
+  }
+
+  /**
+   * Maps a service result to its HTTP status
+   */
+  private statusFor(result: Result<unknown>): HTTP_STATUS {
+    if (result.success) {
+      return HTTP_STATUS.OK;
+    }
+    switch (result.error?.code) {
+      case ERROR_CODES.NOT_FOUND:
+        return HTTP_STATUS.NOT_FOUND;
+      case ERROR_CODES.VALIDATION_ERROR:
+        return HTTP_STATUS.BAD_REQUEST;
+      default:
+        return HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from 'express'; // v4.18.2
+import { once } from 'events';
+
+import { PrivacyService } from '../../services/privacy/privacy.service';
+import { PrivacyRequestContext } from '../../interfaces/privacy.interface';
+import { HTTP_STATUS, ERROR_CODES } from '../../constants/error.constants';
+import { Result, UUID } from '../../types/common.types';
+import { IAuthRequest } from '../../interfaces/auth.interface';
+import { logger } from '../../utils/logger.utils';
+
+/**
+ * Controller handling the endpoints through which users manage their own account
+ * The user is always taken from the access token, never from the request
+ */
+export class UserController {
+  constructor(private readonly privacyService: PrivacyService) {}
+
+  /**
+   * Streams everything held about the user as an NDJSON bundle
+   */
+  public exportData = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const result = await this.privacyService.exportUserData(this.userId(req), this.context(req));
+      if (!result.success) {
+        res.status(this.statusFor(result)).json(result);
+        return;
+      }
+
+      res.status(HTTP_STATUS.OK);
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="voice-agent-export.ndjson"');
+      res.setHeader('Cache-Control', 'no-store');
+
+      for await (const record of result.data) {
+        if (!res.write(`${JSON.stringify(record)}\n`)) {
+          await once(res, 'drain');
+        }
+      }
+      res.end();
+    } catch (error) {
+      if (!res.headersSent) {
+        next(error);
+        return;
+      }
+      // The bundle lacks its summary line, so the client can tell it is incomplete
+      logger.error('Data export interrupted', { error, userId: this.userId(req) });
+      res.destroy(error as Error);
+    }
+  };
+
+  /**
+   * Erases the user's account and returns the deletion receipt
+   */
+  public deleteAccount = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const result = await this.privacyService.eraseUser(this.userId(req), this.context(req));
+
+      res.status(this.statusFor(result)).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private userId(req: Request): UUID {
+    return (req as IAuthRequest).user.id;
+  }
+
+  private context(req: Request): PrivacyRequestContext {
+    return {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'] || 'unknown'
+    };
+  }
+
+  /**
+   * Maps a service result to its HTTP status
+   */
+  private statusFor(result: Result<unknown>): HTTP_STATUS {
+    if (result.success) {
+      return HTTP_STATUS.OK;
+    }
+    switch (result.error?.code) {
+      case ERROR_CODES.NOT_FOUND:
+        return HTTP_STATUS.NOT_FOUND;
+      case ERROR_CODES.VALIDATION_ERROR:
+        return HTTP_STATUS.BAD_REQUEST;
+      default:
+        return HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    }
+  }
+}
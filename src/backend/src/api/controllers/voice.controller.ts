@@ -7,11 +7,16 @@
 
 import { Request, Response } from 'express';
 import { SpeechSynthesisService } from '../../services/audio/speechSynthesis.service';
-import { VoiceConfig, VoiceSynthesisOptions, VoiceMetadata } from '../../interfaces/voice.interface';
+import { VoiceSynthesisOptions, VoiceMetadata } from '../../interfaces/voice.interface';
 import { AudioFormat } from '../../types/audio.types';
 import { HttpStatusCode } from '../../types/common.types';
-import { VOICE_IDS, VOICE_NAMES, VOICE_LANGUAGES, SYNTHESIS_FORMATS } from '../../constants/voice.constants';
 import { speechConfig } from '../../config/speech.config';
+import {
+  OrganizationService,
+  organizationService
+} from '../../services/organization/organization.service';
+import { IAuthRequest } from '../../interfaces/auth.interface';
+import { ERROR_CODES } from '../../constants/error.constants';
 
 /**
  * Controller for handling voice-related endpoints
@@ -19,48 +24,34 @@ import { speechConfig } from '../../config/speech.config';
  */
 export class VoiceController {
   private readonly speechSynthesisService: SpeechSynthesisService;
-  private readonly voiceCache: Map<string, VoiceMetadata>;
+  private voiceCache: { voices: VoiceMetadata[]; timestamp: number } | null = null;
   private readonly cacheDuration: number = 3600000; // 1 hour in milliseconds
 
-  constructor(speechSynthesisService: SpeechSynthesisService) {
+  constructor(
+    speechSynthesisService: SpeechSynthesisService,
+    private readonly organizations: OrganizationService = organizationService
+  ) {
     this.speechSynthesisService = speechSynthesisService;
-    this.voiceCache = new Map();
   }
 
   /**
-   * Retrieves available voices with metadata
+   * Retrieves available voices of all enabled synthesis providers
    * @param req Express request
    * @param res Express response
    */
   public async getAvailableVoices(req: Request, res: Response): Promise<void> {
     try {
-      const voices: VoiceMetadata[] = [];
-      
       // Check cache first
-      if (this.voiceCache.size > 0 && 
-          Date.now() - this.voiceCache.values().next().value.timestamp < this.cacheDuration) {
+      if (this.voiceCache && Date.now() - this.voiceCache.timestamp < this.cacheDuration) {
         res.status(HttpStatusCode.OK).json({
           success: true,
-          data: Array.from(this.voiceCache.values())
+          data: this.voiceCache.voices
         });
         return;
       }
 
-      // Build voice metadata
-      for (const [id, serviceId] of Object.entries(VOICE_IDS)) {
-        const language = VOICE_LANGUAGES[id.split('_')[0] + '_' + id.split('_')[1]];
-        const metadata: VoiceMetadata = {
-          voiceId: serviceId,
-          name: VOICE_NAMES[id],
-          language: language.code,
-          gender: id.includes('MALE') ? 'male' : 'female',
-          supportedEffects: ['telephony', 'studio'],
-          sampleRate: SYNTHESIS_FORMATS.PCM.sampleRate,
-          codecSupport: [AudioFormat.OPUS, AudioFormat.PCM, AudioFormat.AAC]
-        };
-        voices.push(metadata);
-        this.voiceCache.set(serviceId, { ...metadata, timestamp: Date.now() });
-      }
+      const voices = await this.speechSynthesisService.getAvailableVoices();
+      this.voiceCache = { voices, timestamp: Date.now() };
 
       res.status(HttpStatusCode.OK).json({
         success: true,
@@ -85,13 +76,14 @@ export class VoiceController {
    */
   public async synthesizeText(req: Request, res: Response): Promise<void> {
     try {
-      const { text, options } = req.body as { 
-        text: string; 
-        options: VoiceSynthesisOptions 
-      };
+      const { text } = req.body as { text: string };
+      const options = await this.applyOrganizationDefaults(req, res);
+      if (!options) {
+        return;
+      }
 
       // Validate input
-      if (!text || !options?.voiceId) {
+      if (!text || !options.voiceId) {
         res.status(HttpStatusCode.BAD_REQUEST).json({
           success: false,
           error: {
@@ -160,13 +152,14 @@ export class VoiceController {
    */
   public async synthesizeSSML(req: Request, res: Response): Promise<void> {
     try {
-      const { ssml, options } = req.body as {
-        ssml: string;
-        options: VoiceSynthesisOptions
-      };
+      const { ssml } = req.body as { ssml: string };
+      const options = await this.applyOrganizationDefaults(req, res);
+      if (!options) {
+        return;
+      }
 
       // Validate input
-      if (!ssml || !options?.voiceId) {
+      if (!ssml || !options.voiceId) {
         res.status(HttpStatusCode.BAD_REQUEST).json({
           success: false,
           error: {
@@ -179,10 +172,10 @@ export class VoiceController {
       }
 
       // Normalize options
-      const normalizedOptions: VoiceSynthesisOptions = {
+      const normalizedOptions = {
         ...options,
         ssmlEnabled: true
-      };
+      } as VoiceSynthesisOptions;
 
       // Synthesize SSML
       const audioBuffer = await this.speechSynthesisService.synthesizeSSML(
@@ -222,4 +215,35 @@ export class VoiceController {
       });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Fills the request's synthesis options from the organization's voice defaults
+   * Responds with 400 when the requested language is not allowed for the organization
+   * @returns Resolved options, or null when a response has been sent
+   */
+  private async applyOrganizationDefaults(
+    req: Request,
+    res: Response
+  ): Promise<Partial<VoiceSynthesisOptions> | null> {
+    const { options = {} } = req.body as { options?: Partial<VoiceSynthesisOptions> };
+    const organizationId = (req as IAuthRequest).user?.organizationId ?? null;
+
+    const resolved = await this.organizations.resolveVoiceOptions(organizationId, options);
+    if (resolved.success) {
+      return resolved.data;
+    }
+    if (resolved.error?.code !== ERROR_CODES.VALIDATION_ERROR) {
+      throw resolved.error;
+    }
+
+    res.status(HttpStatusCode.BAD_REQUEST).json({
+      success: false,
+      error: {
+        code: 'LANGUAGE_NOT_ALLOWED',
+        message: 'Language is not allowed for this organization',
+        details: resolved.error.details
+      }
+    });
+    return null;
+  }
+}
@@ -1,13 +1,22 @@
 /**
  * Authentication Middleware for AI Voice Agent
- * Implements JWT token validation with enhanced security features
+ * Implements JWT token validation with enhanced security features, and API key
+ * authentication on the routes that accept server-to-server calls
  * @version 1.0.0
  */
 
 import { Request, Response, NextFunction } from 'express'; // v4.18.2
 import { jwtService } from '../../services/auth/jwt.service';
+import { apiKeyService } from '../../services/auth/apiKey.service';
 import { IAuthRequest } from '../../interfaces/auth.interface';
 import { HTTP_STATUS } from '../../constants/error.constants';
+import {
+  API_KEYS,
+  Permission,
+  UserRole,
+  hasPermission
+} from '../../constants/auth.constants';
+import { OrganizationRole } from '../../interfaces/organization.interface';
 import { logger } from '../../utils/logger.utils';
 import { createError } from '../../utils/error.utils';
 import { UUID } from '../../types/common.types';
@@ -19,6 +28,8 @@ const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
 
 // Token extraction regex
 const TOKEN_REGEX = /^Bearer\s+([A-Za-z0-9-_]+\.[A-Za-z0-9-_]+\.[A-Za-z0-9-_]*)$/;
+const API_KEY_SCHEME_REGEX = /^ApiKey\s+(\S+)$/;
+const MAX_API_KEY_LENGTH = 128;
 
 /**
  * Extracts JWT token from Authorization header
@@ -37,6 +48,23 @@ const extractTokenFromHeader = (authHeader?: string): string | null => {
   return token;
 };
 
+/**
+ * Extracts an API key from the X-API-Key header or an ApiKey Authorization header
+ * @param req - Express request object
+ * @returns Presented key or null if the request does not use an API key
+ */
+const extractApiKey = (req: Request): string | null => {
+  const header = req.headers['x-api-key'];
+  const key = typeof header === 'string'
+    ? header.trim()
+    : req.headers.authorization?.match(API_KEY_SCHEME_REGEX)?.[1];
+
+  if (!key || key.length > MAX_API_KEY_LENGTH) {
+    return null;
+  }
+  return key;
+};
+
 /**
  * Checks rate limiting for client IP
  * @param clientIp - Client IP address
@@ -118,6 +146,8 @@ const authMiddleware = async (
       id: decodedToken.userId as UUID,
       email: decodedToken.email,
       role: decodedToken.role,
+      organizationId: decodedToken.organizationId ?? null,
+      organizationRole: decodedToken.organizationRole ?? null,
       securityMetadata: {
         ...securityMetadata,
         lastActivity: new Date().toISOString(),
@@ -167,4 +197,146 @@ const authMiddleware = async (
   }
 };
 
+/**
+ * Authentication middleware for routes that also serve backend systems
+ * Requests presenting an API key act as the key's owner, limited to the key's
+ * scopes; every other request is authenticated by authMiddleware
+ */
+export const apiKeyOrTokenAuth = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = extractApiKey(req);
+  if (!key) {
+    await authMiddleware(req, res, next);
+    return;
+  }
+
+  const securityMetadata = generateSecurityMetadata(req);
+  const result = await apiKeyService.authenticate(key);
+  if (!result.success) {
+    logger.warn('API key authentication failed', {
+      keyPrefix: key.slice(0, API_KEYS.DISPLAY_LENGTH),
+      reason: result.error?.details?.message,
+      ...securityMetadata
+    });
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({
+      error: createError('AUTH_ERROR', { message: 'Invalid API key' })
+    });
+    return;
+  }
+
+  const { apiKey, owner } = result.data;
+  (req as IAuthRequest).user = {
+    id: owner.id,
+    email: owner.email,
+    role: owner.role,
+    organizationId: owner.organizationId,
+    organizationRole: owner.organizationRole,
+    apiKey: { id: apiKey.id, scopes: apiKey.scopes, rateLimit: apiKey.rateLimit },
+    securityMetadata: {
+      ...securityMetadata,
+      lastActivity: new Date().toISOString()
+    }
+  };
+
+  logger.info('API key authentication successful', {
+    userId: owner.id,
+    keyId: apiKey.id,
+    ...securityMetadata
+  });
+
+  next();
+};
+
+/**
+ * Rejects an authenticated request that lacks the required authorization
+ */
+const forbid = (req: Request, res: Response, required: Record<string, unknown>): void => {
+  const user = (req as IAuthRequest).user;
+  logger.warn('Authorization denied', {
+    userId: user?.id,
+    role: user?.role,
+    path: req.path,
+    method: req.method,
+    ...required
+  });
+
+  res.status(HTTP_STATUS.FORBIDDEN).json({
+    error: createError('AUTH_ERROR', { message: 'Insufficient permissions', ...required })
+  });
+};
+
+/**
+ * Authorization middleware factory restricting a route to the given roles
+ * Must run after authMiddleware; requests made with an API key are refused
+ * @param roles - Roles allowed to access the route
+ * @returns Express middleware function
+ */
+export const requireRole = (...roles: UserRole[]) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as IAuthRequest).user;
+    if (!user?.role || user.apiKey || !roles.includes(user.role as UserRole)) {
+      forbid(req, res, { requiredRoles: roles });
+      return;
+    }
+    next();
+  };
+
+/**
+ * Authorization middleware factory requiring a permission from the role matrix
+ * Requests made with an API key also need the permission among the key's scopes
+ * Must run after authMiddleware
+ * @param permission - Permission required to access the route
+ * @param appliesTo - Restricts the check to matching requests, e.g. premium voices
+ * @returns Express middleware function
+ */
+export const requirePermission = (
+  permission: Permission,
+  appliesTo?: (req: Request) => boolean
+) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (appliesTo && !appliesTo(req)) {
+      next();
+      return;
+    }
+
+    const user = (req as IAuthRequest).user;
+    const inScope = !user?.apiKey || user.apiKey.scopes.includes(permission);
+    if (!user?.role || !hasPermission(user.role, permission) || !inScope) {
+      forbid(req, res, { requiredPermission: permission });
+      return;
+    }
+    next();
+  };
+
+/**
+ * Authorization middleware factory restricting a route to members of the
+ * organization in the organizationId route parameter who hold one of the given
+ * roles. Platform administrators may access every organization.
+ * Must run after authMiddleware; requests made with an API key are refused
+ * @param roles - Organization roles allowed to access the route
+ * @returns Express middleware function
+ */
+export const requireOrganizationRole = (...roles: OrganizationRole[]) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as IAuthRequest).user;
+    if (user?.apiKey) {
+      forbid(req, res, { requiredOrganizationRoles: roles });
+      return;
+    }
+    if (user?.role === 'admin') {
+      next();
+      return;
+    }
+
+    const isMember = !!user?.organizationId && user.organizationId === req.params.organizationId;
+    if (!isMember || !user.organizationRole || !roles.includes(user.organizationRole)) {
+      forbid(req, res, { requiredOrganizationRoles: roles });
+      return;
+    }
+    next();
+  };
+
 export default authMiddleware;
\ No newline at end of file
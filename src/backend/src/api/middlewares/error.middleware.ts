@@ -1,4 +1,4 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { ErrorInfo } from '../../types/common.types';
 import { HTTP_STATUS, ERROR_CODES } from '../../constants/error.constants';
@@ -29,6 +29,18 @@ const getHttpStatus = (errorCode: string): number => {
   }
 };
 
+/**
+ * Adapts an async handler to Express, which ignores returned promises
+ * Rejections are passed to next so the router's error handler responds
+ * @param handler - Async route handler or middleware
+ * @returns Handler that can be registered on a router
+ */
+export const asyncHandler = (
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => (req, res, next): void => {
+  handler(req, res, next).catch(next);
+};
+
 /**
  * Centralized error handling middleware
  * Implements comprehensive error recovery, sanitization, and security controls
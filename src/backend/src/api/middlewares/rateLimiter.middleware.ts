@@ -3,6 +3,10 @@ import { Request, Response, NextFunction } from 'express'; // v4.18.2
 import { redisConfig } from '../../config/redis.config';
 import { createError } from '../../utils/error.utils';
 import { ERROR_CODES } from '../../constants/error.constants';
+import { ROLE_QUOTA_MULTIPLIERS, UserRole } from '../../constants/auth.constants';
+import { IAuthRequest } from '../../interfaces/auth.interface';
+import { organizationService } from '../../services/organization/organization.service';
+import { UUID } from '../../types/common.types';
 import { logger } from '../../utils/logger.utils';
 
 // Redis key prefix for rate limiting
@@ -24,15 +28,51 @@ redisConfig.connectionListener(redisClient);
 
 /**
  * Generates a unique Redis key for rate limiting
- * @param ip - Client IP address
+ * @param subject - Client IP address, or user key for authenticated requests
  * @param category - Rate limit category
  * @returns Formatted Redis key
  */
-const getRateLimitKey = (ip: string, category: string): string => {
-  const sanitizedIp = ip.replace(/[^0-9a-zA-Z:.]/g, '');
-  return `${sanitizedIp}:${category}`;
+const getRateLimitKey = (subject: string, category: string): string => {
+  const sanitizedSubject = subject.replace(/[^0-9a-zA-Z:.-]/g, '');
+  return `${sanitizedSubject}:${category}`;
 };
 
+/**
+ * Scales a quota by the multiplier of the requester's role and organization
+ * Anonymous requests and unknown roles get the base quota
+ * @param quota - Base quota
+ * @param role - Role from the access token, if authenticated
+ * @param organizationMultiplier - Multiplier from the organization's quotas
+ * @returns Quota for the role
+ */
+const getRoleQuota = (quota: number, role?: string, organizationMultiplier = 1): number =>
+  Math.floor(quota * (ROLE_QUOTA_MULTIPLIERS[role as UserRole] ?? 1) * organizationMultiplier);
+
+/**
+ * Reads the rate limit multiplier of the requester's organization
+ * Users without an organization, and unreadable settings, get no adjustment
+ * @param organizationId - Organization from the access token
+ * @returns Multiplier for the organization
+ */
+const getOrganizationMultiplier = async (organizationId?: UUID | null): Promise<number> => {
+  if (!organizationId) {
+    return 1;
+  }
+  const settings = await organizationService.getSettings(organizationId);
+  return settings.success ? settings.data.quotas.rateLimitMultiplier ?? 1 : 1;
+};
+
+/**
+ * Scales the per-minute limit of an API key to a rate limit window
+ * The key's limit never exceeds its owner's quota and has no burst allowance
+ * @param rateLimit - Requests per minute allowed for the key
+ * @param windowMs - Rate limit window in milliseconds
+ * @param ownerLimit - Quota of the key's owner in the window
+ * @returns Quota for the key
+ */
+const getApiKeyQuota = (rateLimit: number, windowMs: number, ownerLimit: number): number =>
+  Math.min(Math.max(1, Math.floor(rateLimit * windowMs / 60000)), ownerLimit);
+
 /**
  * Factory function to create rate limiter middleware with configurable limits
  * @param options Rate limiter configuration options
@@ -44,14 +84,31 @@ const createRateLimiter = (options: {
   burstAllowance: number;
   category: string;
 }) => {
-  return async (req: Request, res: Response, next: NextFunction) => {
+  const checkLimit = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<Response | void> => {
     try {
       // Get client IP with proxy support
       const clientIp = req.ip || 
                       (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 
                       '0.0.0.0';
 
-      const key = getRateLimitKey(clientIp, options.category);
+      // Authenticated requests are counted per user with the quota of their role and tenant;
+      // API keys with their own limit are counted separately against that limit
+      const user = (req as Partial<IAuthRequest>).user;
+      const multiplier = await getOrganizationMultiplier(user?.organizationId);
+      const ownLimit = user?.apiKey?.rateLimit;
+      let limit = getRoleQuota(options.limit, user?.role, multiplier);
+      let burstAllowance = getRoleQuota(options.burstAllowance, user?.role, multiplier);
+      let subject = user ? `user:${user.id}` : clientIp;
+      if (user?.apiKey && ownLimit) {
+        limit = getApiKeyQuota(ownLimit, options.windowMs, limit);
+        burstAllowance = 0;
+        subject = `apikey:${user.apiKey.id}`;
+      }
+      const key = getRateLimitKey(subject, options.category);
       const now = Date.now();
       const windowStart = now - options.windowMs;
 
@@ -71,22 +128,25 @@ const createRateLimiter = (options: {
       const currentCount = requestCount[1];
 
       // Calculate remaining requests including burst allowance
-      const remaining = options.limit + options.burstAllowance - currentCount;
+      const remaining = limit + burstAllowance - currentCount;
       const resetTime = now + options.windowMs;
 
       // Set rate limit headers
-      res.setHeader('X-RateLimit-Limit', options.limit + options.burstAllowance);
+      res.setHeader('X-RateLimit-Limit', limit + burstAllowance);
       res.setHeader('X-RateLimit-Remaining', Math.max(0, remaining));
       res.setHeader('X-RateLimit-Reset', Math.ceil(resetTime / 1000));
 
-      if (currentCount > options.limit + options.burstAllowance) {
+      if (currentCount > limit + burstAllowance) {
         // Log rate limit violation
         logger.warn('Rate limit exceeded', {
           ip: clientIp,
+          userId: user?.id,
+          role: user?.role,
+          apiKeyId: user?.apiKey?.id,
           category: options.category,
           count: currentCount,
-          limit: options.limit,
-          burst: options.burstAllowance
+          limit,
+          burst: burstAllowance
         });
 
         // Return rate limit error
@@ -95,7 +155,7 @@ const createRateLimiter = (options: {
         
         const error = createError(ERROR_CODES.RATE_LIMIT_ERROR, {
           retryAfter,
-          limit: options.limit,
+          limit,
           remaining: 0,
           reset: resetTime
         });
@@ -110,6 +170,11 @@ const createRateLimiter = (options: {
       next();
     }
   };
+
+  // Express ignores returned promises; failures are handled inside checkLimit
+  return (req: Request, res: Response, next: NextFunction): void => {
+    void checkLimit(req, res, next);
+  };
 };
 
 // Export configured rate limiters for different endpoints
@@ -127,6 +192,14 @@ export const voiceRateLimiter = createRateLimiter({
   category: 'voice'
 });
 
+// Speech synthesis keeps the quota of 100 requests per 15 minutes, scaled by role
+export const synthesisRateLimiter = createRateLimiter({
+  limit: 100,
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  burstAllowance: 0,
+  category: 'synthesis'
+});
+
 export const textRateLimiter = createRateLimiter({
   limit: 1000,
   windowMs: 60 * 1000, // 1 minute
@@ -0,0 +1,97 @@
+/**
+ * Administration Routes
+ * Support endpoints for looking up users, ending their sessions, changing
+ * account status, inspecting conversations and querying the audit log.
+ * Restricted to administrators; every action is written to the audit log.
+ * @version 1.0.0
+ */
+
+import { NextFunction, Request, Response, Router } from 'express'; // ^4.18.2
+import helmet from 'helmet'; // ^7.0.0
+import winston from 'winston'; // v3.10.0
+import { AdminController } from '../controllers/admin.controller';
+import authMiddleware, { requirePermission, requireRole } from '../middlewares/auth.middleware';
+import { textRateLimiter } from '../middlewares/rateLimiter.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { sanitizeRequest } from '../middlewares/validation.middleware';
+import { AdminService } from '../../services/admin/admin.service';
+import { SessionService } from '../../services/session/session.service';
+import { jwtService } from '../../services/auth/jwt.service';
+import { UserRepository } from '../../db/repositories/user.repository';
+import { SessionRepository } from '../../db/repositories/session.repository';
+import { ConversationRepository } from '../../db/repositories/conversation.repository';
+import { loggerConfig } from '../../config/logger.config';
+import { Permission } from '../../constants/auth.constants';
+import { logger } from '../../utils/logger.utils';
+import { createError } from '../../utils/error.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+
+/**
+ * Initializes administration routes behind the admin role check
+ * @param adminController Initialized admin controller instance
+ * @returns Configured Express router
+ */
+const initializeRoutes = (adminController: AdminController): Router => {
+  const router = Router({ strict: true });
+
+  // Apply security headers
+  router.use(helmet({
+    hsts: { maxAge: 31536000, includeSubDomains: true, preload: true },
+    noSniff: true,
+    frameguard: { action: 'deny' },
+    hidePoweredBy: true
+  }));
+
+  // Every route requires an authenticated administrator
+  router.use(asyncHandler(authMiddleware), requireRole('admin'), textRateLimiter);
+
+  // Search users by email fragment and status
+  router.get('/users', asyncHandler(adminController.searchUsers));
+
+  // Suspend, deactivate or reactivate an account
+  router.patch('/users/:userId/status', sanitizeRequest,
+    asyncHandler(adminController.updateUserStatus));
+
+  // List a user's active sessions
+  router.get('/users/:userId/sessions', asyncHandler(adminController.listUserSessions));
+
+  // End every session of a user
+  router.delete('/users/:userId/sessions', asyncHandler(adminController.terminateUserSessions));
+
+  // End one session of a user
+  router.delete('/users/:userId/sessions/:sessionId',
+    asyncHandler(adminController.terminateSession));
+
+  // Inspect a conversation transcript, revealing redacted personal data on request
+  router.get('/conversations/:conversationId/transcript',
+    requirePermission(Permission.PII_REVEAL, (req) => req.query.reveal === 'true'),
+    asyncHandler(adminController.getConversationTranscript)
+  );
+
+  // Query the audit log
+  router.get('/audit-events', asyncHandler(adminController.queryAuditEvents));
+
+  // Verify the audit log hash chain
+  router.get('/audit-events/verify', asyncHandler(adminController.verifyAuditChain));
+
+  // Error handling middleware
+  router.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
+    logger.error('Admin route error', { error: err, path: req.path, method: req.method });
+    res.status(500).json({
+      success: false,
+      error: createError(ERROR_CODES.SYSTEM_ERROR, {
+        message: 'An unexpected error occurred'
+      })
+    });
+  });
+
+  return router;
+};
+
+// Create and export configured router
+const adminRouter = initializeRoutes(new AdminController(new AdminService(
+  new UserRepository(),
+  new SessionService(new SessionRepository(), winston.createLogger(loggerConfig), jwtService),
+  new ConversationRepository()
+)));
+export default adminRouter;
@@ -9,8 +9,12 @@ import helmet from 'helmet'; // v7.0.0
 import cors from 'cors'; // v2.8.5
 import { v4 as uuidv4 } from 'uuid';
 import { AuthController } from '../controllers/auth.controller';
+import { AuthService } from '../../services/auth/auth.service';
+import { UserRepository } from '../../db/repositories/user.repository';
 import { validateRequest, sanitizeRequest } from '../middlewares/validation.middleware';
 import { authRateLimiter } from '../middlewares/rateLimiter.middleware';
+import authMiddleware from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
 import { logger } from '../../utils/logger.utils';
 import { 
   loginSchema, 
@@ -20,6 +24,7 @@ import {
 
 // Initialize router with strict routing
 const router = Router({ strict: true, caseSensitive: true });
+const authController = new AuthController(new AuthService(new UserRepository()));
 
 // Security middleware chain
 router.use(helmet({
@@ -193,6 +198,102 @@ router.post('/refresh-token',
   }
 );
 
+/**
+ * POST /logout
+ * Revokes the tokens of the current device
+ */
+router.post('/logout',
+  authRateLimiter,
+  sanitizeRequest,
+  async (req, res) => {
+    try {
+      const result = await authController.logout(req, res);
+      logger.info('Logout processed', {
+        ip: req.ip,
+        correlationId: req.get('x-correlation-id')
+      });
+      return result;
+    } catch (error) {
+      logger.error('Logout error', {
+        error,
+        ip: req.ip,
+        correlationId: req.get('x-correlation-id')
+      });
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Logout failed'
+        }
+      });
+    }
+  }
+);
+
+/**
+ * POST /logout-all
+ * Revokes the tokens of every device of the authenticated user
+ */
+router.post('/logout-all',
+  authRateLimiter,
+  asyncHandler(authMiddleware),
+  asyncHandler(async (req, res) => {
+    try {
+      const result = await authController.logoutAllDevices(req, res);
+      logger.info('Logout of all devices processed', {
+        ip: req.ip,
+        correlationId: req.get('x-correlation-id')
+      });
+      return result;
+    } catch (error) {
+      logger.error('Logout of all devices error', {
+        error,
+        ip: req.ip,
+        correlationId: req.get('x-correlation-id')
+      });
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Logout of all devices failed'
+        }
+      });
+    }
+  })
+);
+
+/**
+ * POST /ws-ticket
+ * Issues a short-lived ticket for authenticating a voice WebSocket connection
+ */
+router.post('/ws-ticket',
+  authRateLimiter,
+  asyncHandler(authMiddleware),
+  asyncHandler(async (req, res) => {
+    try {
+      const result = await authController.issueConnectionTicket(req, res);
+      logger.info('Connection ticket request processed', {
+        ip: req.ip,
+        correlationId: req.get('x-correlation-id')
+      });
+      return result;
+    } catch (error) {
+      logger.error('Connection ticket error', {
+        error,
+        ip: req.ip,
+        correlationId: req.get('x-correlation-id')
+      });
+      return res.status(500).json({
+        success: false,
+        error: {
+          code: 'AUTH_ERROR',
+          message: 'Connection ticket request failed'
+        }
+      });
+    }
+  })
+);
+
 // Error handling middleware
 router.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   logger.error('Route error', {
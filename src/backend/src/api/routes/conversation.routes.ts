@@ -8,16 +8,39 @@
 import express from 'express'; // v4.18.2
 import helmet from 'helmet'; // v7.0.0
 import cors from 'cors'; // v2.8.5
+import winston from 'winston'; // v3.10.0
 import { ConversationController } from '../controllers/conversation.controller';
-import authMiddleware from '../middlewares/auth.middleware';
+import { apiKeyOrTokenAuth, requirePermission } from '../middlewares/auth.middleware';
 import { textRateLimiter } from '../middlewares/rateLimiter.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
 import { validateConversation } from '../validators/conversation.validator';
 import { logger } from '../../utils/logger.utils';
 import { HTTP_STATUS } from '../../constants/error.constants';
+import { Permission } from '../../constants/auth.constants';
+import { IAuthRequest } from '../../interfaces/auth.interface';
+import { ConversationService } from '../../services/conversation/conversation.service';
+import { MessageService } from '../../services/conversation/message.service';
+import { SessionService } from '../../services/session/session.service';
+import { AudioStorageService } from '../../services/storage/audioStorage.service';
+import { jwtService } from '../../services/auth/jwt.service';
+import { ConversationRepository } from '../../db/repositories/conversation.repository';
+import { MessageRepository } from '../../db/repositories/message.repository';
+import { SessionRepository } from '../../db/repositories/session.repository';
+import { loggerConfig } from '../../config/logger.config';
+import { redisConfig } from '../../config/redis.config';
+import { storageConfig } from '../../config/storage.config';
 
 // Initialize router with strict routing
 const router = express.Router({ strict: true });
 
+// Controller shared by every conversation route
+const conversationController = new ConversationController(new ConversationService(
+  new ConversationRepository(),
+  new MessageService(new MessageRepository(), new AudioStorageService(storageConfig)),
+  new SessionService(new SessionRepository(), winston.createLogger(loggerConfig), jwtService),
+  { redis: redisConfig }
+));
+
 // Apply security headers
 router.use(helmet({
   contentSecurityPolicy: true,
@@ -49,13 +72,14 @@ router.use(cors({
 /**
  * Create a new conversation
  * POST /conversations
- * @security JWT
+ * @security JWT, ApiKey
  * @rateLimit 100 requests per minute
  */
 router.post('/',
-  authMiddleware,
+  asyncHandler(apiKeyOrTokenAuth),
+  requirePermission(Permission.CONVERSATION_WRITE),
   textRateLimiter,
-  async (req, res, next) => {
+  asyncHandler(async (req, res, next) => {
     const startTime = Date.now();
     try {
       // Validate request payload
@@ -64,12 +88,11 @@ router.post('/',
         return res.status(HTTP_STATUS.BAD_REQUEST).json(validationResult);
       }
 
-      const controller = new ConversationController();
-      const result = await controller.createConversation(req, res, next);
+      const result = await conversationController.createConversation(req, res, next);
 
       // Log successful creation
       logger.info('Conversation created', {
-        userId: req.user?.id,
+        userId: (req as IAuthRequest).user.id,
         duration: Date.now() - startTime,
         conversationId: result?.data?.id
       });
@@ -78,32 +101,65 @@ router.post('/',
     } catch (error) {
       logger.error('Failed to create conversation', {
         error,
-        userId: req.user?.id,
+        userId: (req as IAuthRequest).user.id,
         duration: Date.now() - startTime
       });
       next(error);
     }
-  }
+  })
+);
+
+/**
+ * List the user's conversations, filtered by status and creation date
+ * Query: status, from, to (ISO 8601), cursor, limit
+ * GET /conversations
+ * @security JWT, ApiKey
+ * @rateLimit 100 requests per minute
+ */
+router.get('/',
+  asyncHandler(apiKeyOrTokenAuth),
+  requirePermission(Permission.CONVERSATION_READ),
+  textRateLimiter,
+  asyncHandler(async (req, res, next) => {
+    const startTime = Date.now();
+    try {
+      const result = await conversationController.listConversations(req, res, next);
+
+      logger.info('Conversations listed', {
+        userId: (req as IAuthRequest).user.id,
+        duration: Date.now() - startTime
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to list conversations', {
+        error,
+        userId: (req as IAuthRequest).user.id,
+        duration: Date.now() - startTime
+      });
+      next(error);
+    }
+  })
 );
 
 /**
  * Get conversation by ID
  * GET /conversations/:id
- * @security JWT
+ * @security JWT, ApiKey
  * @rateLimit 100 requests per minute
  */
 router.get('/:id',
-  authMiddleware,
+  asyncHandler(apiKeyOrTokenAuth),
+  requirePermission(Permission.CONVERSATION_READ),
   textRateLimiter,
-  async (req, res, next) => {
+  asyncHandler(async (req, res, next) => {
     const startTime = Date.now();
     try {
-      const controller = new ConversationController();
-      const result = await controller.getConversation(req, res, next);
+      const result = await conversationController.getConversation(req, res, next);
 
       // Log successful retrieval
       logger.info('Conversation retrieved', {
-        userId: req.user?.id,
+        userId: (req as IAuthRequest).user.id,
         conversationId: req.params.id,
         duration: Date.now() - startTime
       });
@@ -112,25 +168,95 @@ router.get('/:id',
     } catch (error) {
       logger.error('Failed to retrieve conversation', {
         error,
-        userId: req.user?.id,
+        userId: (req as IAuthRequest).user.id,
+        conversationId: req.params.id,
+        duration: Date.now() - startTime
+      });
+      next(error);
+    }
+  })
+);
+
+/**
+ * Get a page of the conversation's messages
+ * Query: page, limit
+ * GET /conversations/:id/messages
+ * @security JWT, ApiKey
+ * @rateLimit 100 requests per minute
+ */
+router.get('/:id/messages',
+  asyncHandler(apiKeyOrTokenAuth),
+  requirePermission(Permission.CONVERSATION_READ),
+  textRateLimiter,
+  asyncHandler(async (req, res, next) => {
+    const startTime = Date.now();
+    try {
+      const result = await conversationController.getConversationMessages(req, res, next);
+
+      logger.info('Conversation messages retrieved', {
+        userId: (req as IAuthRequest).user.id,
+        conversationId: req.params.id,
+        duration: Date.now() - startTime
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to retrieve conversation messages', {
+        error,
+        userId: (req as IAuthRequest).user.id,
+        conversationId: req.params.id,
+        duration: Date.now() - startTime
+      });
+      next(error);
+    }
+  })
+);
+
+/**
+ * Get signed URLs for the conversation's recorded audio
+ * GET /conversations/:id/audio
+ * @security JWT, ApiKey
+ * @rateLimit 100 requests per minute
+ */
+router.get('/:id/audio',
+  asyncHandler(apiKeyOrTokenAuth),
+  requirePermission(Permission.CONVERSATION_READ),
+  textRateLimiter,
+  asyncHandler(async (req, res, next) => {
+    const startTime = Date.now();
+    try {
+      const result = await conversationController.getConversationAudio(req, res, next);
+
+      logger.info('Conversation audio retrieved', {
+        userId: (req as IAuthRequest).user.id,
+        conversationId: req.params.id,
+        duration: Date.now() - startTime
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to retrieve conversation audio', {
+        error,
+        userId: (req as IAuthRequest).user.id,
         conversationId: req.params.id,
         duration: Date.now() - startTime
       });
       next(error);
     }
-  }
+  })
 );
 
 /**
  * Update conversation
  * PUT /conversations/:id
- * @security JWT
+ * @security JWT, ApiKey
  * @rateLimit 100 requests per minute
  */
 router.put('/:id',
-  authMiddleware,
+  asyncHandler(apiKeyOrTokenAuth),
+  requirePermission(Permission.CONVERSATION_WRITE),
   textRateLimiter,
-  async (req, res, next) => {
+  asyncHandler(async (req, res, next) => {
     const startTime = Date.now();
     try {
       // Validate request payload
@@ -139,12 +265,11 @@ router.put('/:id',
         return res.status(HTTP_STATUS.BAD_REQUEST).json(validationResult);
       }
 
-      const controller = new ConversationController();
-      const result = await controller.updateConversation(req, res, next);
+      const result = await conversationController.updateConversation(req, res, next);
 
       // Log successful update
       logger.info('Conversation updated', {
-        userId: req.user?.id,
+        userId: (req as IAuthRequest).user.id,
         conversationId: req.params.id,
         duration: Date.now() - startTime
       });
@@ -153,33 +278,33 @@ router.put('/:id',
     } catch (error) {
       logger.error('Failed to update conversation', {
         error,
-        userId: req.user?.id,
+        userId: (req as IAuthRequest).user.id,
         conversationId: req.params.id,
         duration: Date.now() - startTime
       });
       next(error);
     }
-  }
+  })
 );
 
 /**
  * End conversation
  * DELETE /conversations/:id
- * @security JWT
+ * @security JWT, ApiKey
  * @rateLimit 100 requests per minute
  */
 router.delete('/:id',
-  authMiddleware,
+  asyncHandler(apiKeyOrTokenAuth),
+  requirePermission(Permission.CONVERSATION_DELETE),
   textRateLimiter,
-  async (req, res, next) => {
+  asyncHandler(async (req, res, next) => {
     const startTime = Date.now();
     try {
-      const controller = new ConversationController();
-      const result = await controller.endConversation(req, res, next);
+      const result = await conversationController.endConversation(req, res, next);
 
       // Log successful deletion
       logger.info('Conversation ended', {
-        userId: req.user?.id,
+        userId: (req as IAuthRequest).user.id,
         conversationId: req.params.id,
         duration: Date.now() - startTime
       });
@@ -188,13 +313,13 @@ router.delete('/:id',
     } catch (error) {
       logger.error('Failed to end conversation', {
         error,
-        userId: req.user?.id,
+        userId: (req as IAuthRequest).user.id,
         conversationId: req.params.id,
         duration: Date.now() - startTime
       });
       next(error);
     }
-  }
+  })
 );
 
 // Error handling middleware
@@ -203,7 +328,7 @@ router.use((err: Error, req: express.Request, res: express.Response, next: expre
     error: err,
     path: req.path,
     method: req.method,
-    userId: req.user?.id
+    userId: (req as Partial<IAuthRequest>).user?.id
   });
 
   res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
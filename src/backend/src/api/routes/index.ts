@@ -10,15 +10,22 @@ import rateLimit from 'express-rate-limit'; // ^6.7.0
 import compression from 'compression'; // ^1.7.4
 import helmet from 'helmet'; // ^7.0.0
 import morgan from 'morgan'; // ^1.10.0
+import { register } from 'prom-client'; // ^14.0.0
 import { v4 as uuidv4 } from 'uuid';
 
+import adminRouter from './admin.routes';
 import authRouter from './auth.routes';
 import conversationRouter from './conversation.routes';
+import organizationRouter from './organization.routes';
 import sessionRouter from './session.routes';
+import userRouter from './user.routes';
 import voiceRouter from './voice.routes';
+import authMiddleware, { requirePermission } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
 import { logger } from '../../utils/logger.utils';
 import { createError } from '../../utils/error.utils';
 import { ERROR_CODES } from '../../constants/error.constants';
+import { Permission } from '../../constants/auth.constants';
 
 /**
  * Initializes and configures the main application router with security
@@ -112,23 +119,49 @@ const initializeRoutes = (): Router => {
     }
   });
 
+  // Prometheus metrics, restricted to administrators
+  router.get('/metrics',
+    asyncHandler(authMiddleware),
+    requirePermission(Permission.METRICS_READ),
+    asyncHandler(async (_req, res) => {
+      try {
+        res.set('Content-Type', register.contentType);
+        res.end(await register.metrics());
+      } catch (error) {
+        logger.error('Metrics collection failed', { error });
+        res.status(500).json({
+          success: false,
+          error: createError(ERROR_CODES.SYSTEM_ERROR, {
+            message: 'Failed to collect metrics'
+          })
+        });
+      }
+    })
+  );
+
   // API Documentation endpoint
   router.get('/docs', (req, res) => {
     res.status(200).json({
       version: process.env.APP_VERSION,
       endpoints: {
+        '/api/admin': 'User, session and conversation administration',
         '/api/auth': 'Authentication endpoints',
         '/api/conversations': 'Conversation management',
+        '/api/organizations': 'Organization settings and membership',
         '/api/sessions': 'Session handling',
+        '/api/users': 'Personal data export, account erasure and API keys',
         '/api/voice': 'Voice processing and synthesis'
       }
     });
   });
 
   // Mount route modules
+  router.use('/admin', adminRouter);
   router.use('/auth', authRouter);
   router.use('/conversations', conversationRouter);
+  router.use('/organizations', organizationRouter);
   router.use('/sessions', sessionRouter);
+  router.use('/users', userRouter);
   router.use('/voice', voiceRouter);
 
   // Global error handling
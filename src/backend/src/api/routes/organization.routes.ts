@@ -0,0 +1,84 @@
+/**
+ * Organization Routes
+ * Tenant management: creating organizations, changing the settings that apply
+ * to every member and managing membership. Organizations are created by
+ * platform administrators and managed by their owners and admins.
+ * @version 1.0.0
+ */
+
+import { NextFunction, Request, Response, Router } from 'express'; // ^4.18.2
+import helmet from 'helmet'; // ^7.0.0
+import { OrganizationController } from '../controllers/organization.controller';
+import authMiddleware, {
+  requireOrganizationRole,
+  requireRole
+} from '../middlewares/auth.middleware';
+import { textRateLimiter } from '../middlewares/rateLimiter.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { sanitizeRequest } from '../middlewares/validation.middleware';
+import { organizationService } from '../../services/organization/organization.service';
+import { OrganizationRole } from '../../interfaces/organization.interface';
+import { logger } from '../../utils/logger.utils';
+import { createError } from '../../utils/error.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+
+/**
+ * Initializes organization routes behind authentication
+ * @param organizationController Initialized organization controller instance
+ * @returns Configured Express router
+ */
+const initializeRoutes = (organizationController: OrganizationController): Router => {
+  const router = Router({ strict: true });
+  const managers = requireOrganizationRole(OrganizationRole.OWNER, OrganizationRole.ADMIN);
+  const members = requireOrganizationRole(...Object.values(OrganizationRole));
+
+  // Apply security headers
+  router.use(helmet({
+    hsts: { maxAge: 31536000, includeSubDomains: true, preload: true },
+    noSniff: true,
+    frameguard: { action: 'deny' },
+    hidePoweredBy: true
+  }));
+
+  // Every route requires an authenticated user
+  router.use(asyncHandler(authMiddleware), textRateLimiter);
+
+  // Create an organization
+  router.post('/', requireRole('admin'), sanitizeRequest,
+    asyncHandler(organizationController.createOrganization));
+
+  // Retrieve an organization and its settings
+  router.get('/:organizationId', members, asyncHandler(organizationController.getOrganization));
+
+  // Change voice defaults, allowed languages, retention or quotas
+  router.patch('/:organizationId/settings', managers, sanitizeRequest,
+    asyncHandler(organizationController.updateSettings));
+
+  // List members
+  router.get('/:organizationId/members', members, asyncHandler(organizationController.listMembers));
+
+  // Add a user as a member
+  router.post('/:organizationId/members', managers, sanitizeRequest,
+    asyncHandler(organizationController.addMember));
+
+  // Remove a member
+  router.delete('/:organizationId/members/:userId', managers,
+    asyncHandler(organizationController.removeMember));
+
+  // Error handling middleware
+  router.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
+    logger.error('Organization route error', { error: err, path: req.path, method: req.method });
+    res.status(500).json({
+      success: false,
+      error: createError(ERROR_CODES.SYSTEM_ERROR, {
+        message: 'An unexpected error occurred'
+      })
+    });
+  });
+
+  return router;
+};
+
+// Create and export configured router
+const organizationRouter = initializeRoutes(new OrganizationController(organizationService));
+export default organizationRouter;
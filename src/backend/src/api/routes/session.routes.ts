@@ -8,9 +8,10 @@
 import { Router } from 'express'; // ^4.18.2
 import helmet from 'helmet'; // ^7.0.0
 import { SessionController } from '../controllers/session.controller';
-import authMiddleware from '../middlewares/auth.middleware';
+import authMiddleware, { requirePermission } from '../middlewares/auth.middleware';
 import { authRateLimiter } from '../middlewares/rateLimiter.middleware';
 import { validateRequest, sanitizeRequest } from '../middlewares/validation.middleware';
+import { Permission } from '../../constants/auth.constants';
 
 // Session validation schemas
 const createSessionSchema = {
@@ -96,6 +97,7 @@ const initializeRoutes = (sessionController: SessionController): Router => {
   // Validate existing session
   router.post('/validate',
     authMiddleware,
+    requirePermission(Permission.SESSION_MANAGE),
     sanitizeRequest,
     validateRequest(validateSessionSchema),
     async (req, res, next) => {
@@ -115,6 +117,7 @@ const initializeRoutes = (sessionController: SessionController): Router => {
   // End session
   router.post('/end',
     authMiddleware,
+    requirePermission(Permission.SESSION_MANAGE),
     sanitizeRequest,
     validateRequest(endSessionSchema),
     async (req, res, next) => {
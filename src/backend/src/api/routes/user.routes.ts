@@ -0,0 +1,92 @@
+/**
+ * User Routes
+ * Endpoints through which users export their personal data, erase their
+ * account and manage their API keys. All act on the authenticated user only
+ * and require an interactive login; API keys are not accepted here.
+ * @version 1.0.0
+ */
+
+import { NextFunction, Request, Response, Router } from 'express'; // ^4.18.2
+import helmet from 'helmet'; // ^7.0.0
+import { UserController } from '../controllers/user.controller';
+import { ApiKeyController } from '../controllers/apiKey.controller';
+import authMiddleware from '../middlewares/auth.middleware';
+import { textRateLimiter } from '../middlewares/rateLimiter.middleware';
+import { asyncHandler } from '../middlewares/error.middleware';
+import { sanitizeRequest } from '../middlewares/validation.middleware';
+import { PrivacyService } from '../../services/privacy/privacy.service';
+import { apiKeyService } from '../../services/auth/apiKey.service';
+import { AudioStorageService } from '../../services/storage/audioStorage.service';
+import { UserRepository } from '../../db/repositories/user.repository';
+import { SessionRepository } from '../../db/repositories/session.repository';
+import { ConversationRepository } from '../../db/repositories/conversation.repository';
+import { MessageRepository } from '../../db/repositories/message.repository';
+import { storageConfig } from '../../config/storage.config';
+import { logger } from '../../utils/logger.utils';
+import { createError } from '../../utils/error.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+
+/**
+ * Initializes the account routes of the authenticated user
+ * @param userController Initialized user controller instance
+ * @param apiKeyController Initialized API key controller instance
+ * @returns Configured Express router
+ */
+const initializeRoutes = (
+  userController: UserController,
+  apiKeyController: ApiKeyController
+): Router => {
+  const router = Router({ strict: true });
+
+  // Apply security headers
+  router.use(helmet({
+    hsts: { maxAge: 31536000, includeSubDomains: true, preload: true },
+    noSniff: true,
+    frameguard: { action: 'deny' },
+    hidePoweredBy: true
+  }));
+
+  // Every route acts on the authenticated user
+  router.use(asyncHandler(authMiddleware), textRateLimiter);
+
+  // Download everything held about the user as NDJSON
+  router.get('/me/export', asyncHandler(userController.exportData));
+
+  // Erase the account, its conversations and recordings
+  router.delete('/me', asyncHandler(userController.deleteAccount));
+
+  // Create an API key; the key is returned only in this response
+  router.post('/me/api-keys', sanitizeRequest, asyncHandler(apiKeyController.createKey));
+
+  // List API keys that have not been revoked
+  router.get('/me/api-keys', asyncHandler(apiKeyController.listKeys));
+
+  // Revoke an API key
+  router.delete('/me/api-keys/:keyId', asyncHandler(apiKeyController.revokeKey));
+
+  // Error handling middleware
+  router.use((err: unknown, req: Request, res: Response, _next: NextFunction) => {
+    logger.error('User route error', { error: err, path: req.path, method: req.method });
+    res.status(500).json({
+      success: false,
+      error: createError(ERROR_CODES.SYSTEM_ERROR, {
+        message: 'An unexpected error occurred'
+      })
+    });
+  });
+
+  return router;
+};
+
+// Create and export configured router
+const userRouter = initializeRoutes(
+  new UserController(new PrivacyService(
+    new UserRepository(),
+    new SessionRepository(),
+    new ConversationRepository(),
+    new MessageRepository(),
+    new AudioStorageService(storageConfig)
+  )),
+  new ApiKeyController(apiKeyService)
+);
+export default userRouter;
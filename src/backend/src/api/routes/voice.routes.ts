@@ -5,12 +5,13 @@
  * @version 1.0.0
  */
 
-import { Router } from 'express'; // v4.18.2
+import { Router, Request } from 'express'; // v4.18.2
 import compression from 'compression'; // v1.7.4
-import rateLimit from 'express-rate-limit'; // v6.7.0
 import { VoiceController } from '../controllers/voice.controller';
-import authMiddleware from '../middlewares/auth.middleware';
+import { apiKeyOrTokenAuth, requirePermission } from '../middlewares/auth.middleware';
+import { synthesisRateLimiter } from '../middlewares/rateLimiter.middleware';
 import { validateRequest, sanitizeRequest } from '../middlewares/validation.middleware';
+import { Permission, PREMIUM_VOICE_IDS } from '../../constants/auth.constants';
 import { VoiceSynthesisOptions } from '../../interfaces/voice.interface';
 import { AudioFormat } from '../../types/audio.types';
 import { HttpStatusCode } from '../../types/common.types';
@@ -18,14 +19,9 @@ import { HttpStatusCode } from '../../types/common.types';
 // Maximum payload size for synthesis requests (5MB)
 const MAX_PAYLOAD_SIZE = 5 * 1024 * 1024;
 
-// Rate limiting configuration for voice endpoints
-const voiceRateLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // 100 requests per window
-  message: 'Too many voice requests. Please try again later.',
-  standardHeaders: true,
-  legacyHeaders: false
-});
+// Whether a synthesis request selects a voice reserved for premium roles
+const usesPremiumVoice = (req: Request): boolean =>
+  PREMIUM_VOICE_IDS.includes(req.body?.options?.voiceId);
 
 // Synthesis request validation schema
 const synthesisSchema = {
@@ -87,7 +83,7 @@ export const initializeVoiceRoutes = (voiceController: VoiceController): Router
 
   // Apply global middleware
   router.use(compression());
-  router.use(authMiddleware);
+  router.use(apiKeyOrTokenAuth);
   router.use(sanitizeRequest);
 
   // GET /voices - Retrieve available voices with caching
@@ -114,7 +110,9 @@ export const initializeVoiceRoutes = (voiceController: VoiceController): Router
 
   // POST /synthesize - Text-to-speech synthesis
   router.post('/synthesize',
-    voiceRateLimiter,
+    requirePermission(Permission.VOICE_SYNTHESIZE),
+    requirePermission(Permission.VOICE_PREMIUM, usesPremiumVoice),
+    synthesisRateLimiter,
     validateRequest(synthesisSchema),
     async (req, res) => {
       try {
@@ -148,7 +146,9 @@ export const initializeVoiceRoutes = (voiceController: VoiceController): Router
 
   // POST /synthesize/ssml - SSML-based synthesis
   router.post('/synthesize/ssml',
-    voiceRateLimiter,
+    requirePermission(Permission.VOICE_SSML),
+    requirePermission(Permission.VOICE_PREMIUM, usesPremiumVoice),
+    synthesisRateLimiter,
     validateRequest(ssmlSchema),
     async (req, res) => {
       try {
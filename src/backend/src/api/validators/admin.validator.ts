@@ -0,0 +1,171 @@
+/**
+ * Admin validator implementation for the AI Voice Agent
+ * Validates queries and payloads of the administration endpoints
+ * @version 1.0.0
+ */
+
+import {
+  validateSchema,
+  validateUUID,
+  sanitizeInput,
+  invalidQuery,
+  parsePositiveInteger,
+  parseDate
+} from '../../utils/validation.utils';
+import { UserSearchQuery, UserStatus } from '../../interfaces/user.interface';
+import { AuditEventQuery, AuditEventType } from '../../interfaces/audit.interface';
+import { Result, UUID } from '../../types/common.types';
+import { HISTORY_DEFAULTS } from '../../constants/message.constants';
+import { decodeCursor } from '../../utils/pagination.utils';
+
+/**
+ * Status change requested by an administrator
+ */
+export interface UserStatusUpdate {
+  status: UserStatus;
+  reason: string;
+}
+
+// JSON Schema for user status changes
+const userStatusUpdateSchema = {
+  type: 'object',
+  properties: {
+    status: {
+      type: 'string',
+      enum: Object.values(UserStatus),
+      description: 'New account status'
+    },
+    reason: {
+      type: 'string',
+      minLength: 3,
+      maxLength: 500,
+      description: 'Justification recorded in the audit log'
+    }
+  },
+  required: ['status', 'reason'],
+  additionalProperties: false
+};
+
+/**
+ * Validates the query of a user search request
+ * @param query Request query with optional email, status, cursor and limit
+ * @returns Parsed search query or validation error details
+ */
+export const validateUserSearchQuery = (
+  query: Record<string, unknown>
+): Result<UserSearchQuery> => {
+  const limit = parsePositiveInteger(query.limit, HISTORY_DEFAULTS.DEFAULT_PAGE_SIZE);
+  if (limit === null || limit > HISTORY_DEFAULTS.MAX_PAGE_SIZE) {
+    return invalidQuery('Invalid page size', {
+      value: query.limit,
+      max: HISTORY_DEFAULTS.MAX_PAGE_SIZE
+    });
+  }
+
+  const email = query.email === undefined ? undefined : sanitizeInput(String(query.email));
+  if (email !== undefined && (email.length < 3 || email.length > 254)) {
+    return invalidQuery('Email filter must be between 3 and 254 characters', { value: email });
+  }
+
+  const status = query.status as UserStatus | undefined;
+  if (status !== undefined && !Object.values(UserStatus).includes(status)) {
+    return invalidQuery('Invalid user status', { value: status });
+  }
+
+  const cursor = query.cursor === undefined ? undefined : sanitizeInput(String(query.cursor));
+  if (cursor !== undefined && !decodeCursor(cursor)) {
+    return invalidQuery('Invalid pagination cursor', { value: query.cursor });
+  }
+
+  return {
+    success: true,
+    data: { email, status, cursor, limit },
+    error: null,
+    metadata: {}
+  };
+};
+
+/**
+ * Validates the payload of a user status change
+ * @param payload Request body with the new status and a reason
+ * @returns Parsed status change or validation error details
+ */
+export const validateUserStatusUpdate = (payload: unknown): Result<UserStatusUpdate> => {
+  const schemaResult = validateSchema<UserStatusUpdate>(payload, userStatusUpdateSchema);
+  if (!schemaResult.success) {
+    return schemaResult;
+  }
+
+  return {
+    success: true,
+    data: {
+      status: schemaResult.data.status,
+      reason: sanitizeInput(schemaResult.data.reason)
+    },
+    error: null,
+    metadata: {}
+  };
+};
+
+/**
+ * Validates the query of an audit event search
+ * @param query Request query with optional type, actorId, subjectId, from, to, cursor and limit
+ * @returns Parsed audit query or validation error details
+ */
+export const validateAuditEventQuery = (
+  query: Record<string, unknown>
+): Result<AuditEventQuery> => {
+  const limit = parsePositiveInteger(query.limit, HISTORY_DEFAULTS.DEFAULT_PAGE_SIZE);
+  if (limit === null || limit > HISTORY_DEFAULTS.MAX_PAGE_SIZE) {
+    return invalidQuery('Invalid page size', {
+      value: query.limit,
+      max: HISTORY_DEFAULTS.MAX_PAGE_SIZE
+    });
+  }
+
+  const type = query.type as AuditEventType | undefined;
+  if (type !== undefined && !Object.values(AuditEventType).includes(type)) {
+    return invalidQuery('Invalid audit event type', { value: type });
+  }
+
+  const actorId = query.actorId as UUID | undefined;
+  if (actorId !== undefined && !validateUUID(actorId).success) {
+    return invalidQuery('Invalid actor ID', { value: actorId });
+  }
+
+  const subjectId = query.subjectId === undefined
+    ? undefined
+    : sanitizeInput(String(query.subjectId));
+
+  const from = parseDate(query.from);
+  const to = parseDate(query.to);
+  if (from === null || to === null || (from && to && from > to)) {
+    return invalidQuery('Invalid date range', { from: query.from, to: query.to });
+  }
+
+  const cursor = query.cursor === undefined ? undefined : sanitizeInput(String(query.cursor));
+  if (cursor !== undefined && !decodeCursor(cursor)) {
+    return invalidQuery('Invalid pagination cursor', { value: query.cursor });
+  }
+
+  return {
+    success: true,
+    data: { type, actorId, subjectId, from, to, cursor, limit },
+    error: null,
+    metadata: {}
+  };
+};
+
+/**
+ * Validates the first sequence of an audit chain verification
+ * @param value Query parameter, defaults to the start of the chain
+ * @returns Parsed sequence or validation error details
+ */
+export const validateAuditSequence = (value: unknown): Result<number> => {
+  const sequence = parsePositiveInteger(value, 1);
+  if (sequence === null) {
+    return invalidQuery('Invalid audit sequence', { value });
+  }
+
+  return { success: true, data: sequence, error: null, metadata: {} };
+};
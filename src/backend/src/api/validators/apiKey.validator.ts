@@ -0,0 +1,88 @@
+/**
+ * API key validator implementation for the AI Voice Agent
+ * Validates payloads of the API key management endpoints
+ * @version 1.0.0
+ */
+
+import { validateSchema, sanitizeInput } from '../../utils/validation.utils';
+import { ApiKeyCreateParams } from '../../interfaces/apiKey.interface';
+import { Result } from '../../types/common.types';
+import { API_KEY_SCOPES, Permission } from '../../constants/auth.constants';
+import { ERROR_CODES } from '../../constants/error.constants';
+import { createError } from '../../utils/error.utils';
+
+/**
+ * API key creation as submitted by its owner
+ */
+interface ApiKeyCreatePayload {
+  name: string;
+  scopes: Permission[];
+  rateLimit?: number | null;
+  expiresAt?: string | null;
+}
+
+// JSON Schema for API key creation
+const apiKeyCreateSchema = {
+  type: 'object',
+  properties: {
+    name: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 100,
+      description: 'Label that tells the key apart from the owner\'s other keys'
+    },
+    scopes: {
+      type: 'array',
+      items: { type: 'string', enum: [...API_KEY_SCOPES] },
+      minItems: 1,
+      uniqueItems: true,
+      description: 'Permissions the key may use'
+    },
+    rateLimit: {
+      type: ['integer', 'null'],
+      minimum: 1,
+      description: 'Requests per minute in each rate limit category, null for the owner\'s quota'
+    },
+    expiresAt: {
+      type: ['string', 'null'],
+      format: 'date-time',
+      description: 'Expiry, null for a key that stays valid until revoked'
+    }
+  },
+  required: ['name', 'scopes'],
+  additionalProperties: false
+};
+
+/**
+ * Validates the payload of an API key creation
+ * @param payload Request body with name, scopes, rate limit and expiry
+ * @returns Parsed creation parameters or validation error details
+ */
+export const validateApiKeyCreate = (payload: unknown): Result<ApiKeyCreateParams> => {
+  const schemaResult = validateSchema<ApiKeyCreatePayload>(payload, apiKeyCreateSchema);
+  if (!schemaResult.success) {
+    return { ...schemaResult, data: null as unknown as ApiKeyCreateParams };
+  }
+
+  const { name, scopes, rateLimit, expiresAt } = schemaResult.data;
+  const expiry = expiresAt ? new Date(expiresAt) : null;
+  if (expiry && expiry.getTime() <= Date.now()) {
+    return {
+      success: false,
+      data: null as unknown as ApiKeyCreateParams,
+      error: createError(ERROR_CODES.VALIDATION_ERROR, {
+        field: 'expiresAt',
+        message: 'Expiry must be in the future',
+        value: expiresAt
+      }),
+      metadata: {}
+    };
+  }
+
+  return {
+    success: true,
+    data: { name: sanitizeInput(name), scopes, rateLimit: rateLimit ?? null, expiresAt: expiry },
+    error: null,
+    metadata: {}
+  };
+};
@@ -5,10 +5,23 @@
  * @version 1.0.0
  */
 
-import { validateSchema, validateUUID, sanitizeInput } from '../../utils/validation.utils';
-import { ConversationStatus, ConversationCreateParams } from '../../interfaces/conversation.interface';
+import {
+  validateSchema,
+  validateUUID,
+  sanitizeInput,
+  invalidQuery,
+  parsePositiveInteger,
+  parseDate
+} from '../../utils/validation.utils';
+import {
+  ConversationStatus,
+  ConversationCreateParams,
+  ConversationListQuery
+} from '../../interfaces/conversation.interface';
 import { Result } from '../../types/common.types';
 import { ERROR_CODES } from '../../constants/error.constants';
+import { HISTORY_DEFAULTS } from '../../constants/message.constants';
+import { decodeCursor } from '../../utils/pagination.utils';
 
 // JSON Schema for conversation creation validation
 const createConversationSchema = {
@@ -244,4 +257,65 @@ export const validateConversationId = (conversationId: string): Result<boolean>
       metadata: {}
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Validates the query of a conversation list request
+ * @param query Request query with optional status, from, to, cursor and limit
+ * @returns Parsed list query or validation error details
+ */
+export const validateListConversationsQuery = (
+  query: Record<string, unknown>
+): Result<ConversationListQuery> => {
+  const limit = parsePositiveInteger(query.limit, HISTORY_DEFAULTS.DEFAULT_PAGE_SIZE);
+  if (limit === null || limit > HISTORY_DEFAULTS.MAX_PAGE_SIZE) {
+    return invalidQuery('Invalid page size', {
+      value: query.limit,
+      max: HISTORY_DEFAULTS.MAX_PAGE_SIZE
+    });
+  }
+
+  const status = query.status as ConversationStatus | undefined;
+  if (status !== undefined && !Object.values(ConversationStatus).includes(status)) {
+    return invalidQuery('Invalid conversation status', { value: status });
+  }
+
+  const from = parseDate(query.from);
+  const to = parseDate(query.to);
+  if (from === null || to === null || (from && to && from > to)) {
+    return invalidQuery('Invalid date range', { from: query.from, to: query.to });
+  }
+
+  const cursor = query.cursor === undefined ? undefined : sanitizeInput(String(query.cursor));
+  if (cursor !== undefined && !decodeCursor(cursor)) {
+    return invalidQuery('Invalid pagination cursor', { value: query.cursor });
+  }
+
+  return {
+    success: true,
+    data: { status, from, to, cursor, limit },
+    error: null,
+    metadata: {}
+  };
+};
+
+/**
+ * Validates the page and page size of a message history request
+ * @param query Request query with optional page and limit
+ * @returns Parsed page and page size or validation error details
+ */
+export const validateHistoryPage = (
+  query: Record<string, unknown>
+): Result<{ page: number; limit: number }> => {
+  const page = parsePositiveInteger(query.page, 1);
+  const limit = parsePositiveInteger(query.limit, HISTORY_DEFAULTS.DEFAULT_PAGE_SIZE);
+  if (page === null || limit === null || limit > HISTORY_DEFAULTS.MAX_PAGE_SIZE) {
+    return invalidQuery('Invalid page', {
+      page: query.page,
+      limit: query.limit,
+      max: HISTORY_DEFAULTS.MAX_PAGE_SIZE
+    });
+  }
+
+  return { success: true, data: { page, limit }, error: null, metadata: {} };
+};
@@ -0,0 +1,184 @@
+/**
+ * Organization validator implementation for the AI Voice Agent
+ * Validates payloads of the organization management endpoints
+ * @version 1.0.0
+ */
+
+import { validateSchema, validateUUID, sanitizeInput } from '../../utils/validation.utils';
+import {
+  OrganizationCreateParams,
+  OrganizationRole,
+  OrganizationSettings
+} from '../../interfaces/organization.interface';
+import { Result, UUID } from '../../types/common.types';
+import { VOICE_IDS } from '../../constants/voice.constants';
+import { ERROR_CODES } from '../../constants/error.constants';
+import { createError } from '../../utils/error.utils';
+
+/**
+ * Member addition requested by an organization administrator
+ */
+export interface OrganizationMemberAddition {
+  userId: UUID;
+  role: OrganizationRole;
+}
+
+const LANGUAGE_CODE_PATTERN = '^[a-z]{2}-[A-Z]{2}$';
+
+// JSON Schema for organization settings; every field is optional so that updates can be partial
+const settingsSchema = {
+  type: 'object',
+  properties: {
+    voiceDefaults: {
+      type: 'object',
+      properties: {
+        voiceId: { type: 'string', enum: Object.values(VOICE_IDS) },
+        rate: { type: 'number', minimum: 0.5, maximum: 2.0 },
+        pitch: { type: 'number', minimum: -20, maximum: 20 },
+        volume: { type: 'number', minimum: 0, maximum: 100 },
+        languageCode: { type: 'string', pattern: LANGUAGE_CODE_PATTERN },
+        ssmlEnabled: { type: 'boolean' },
+        effectsProfile: {
+          type: 'array',
+          items: { type: 'string', enum: ['telephony', 'studio', 'default'] }
+        }
+      },
+      additionalProperties: false,
+      description: 'Synthesis options used where a request does not set them'
+    },
+    allowedLanguages: {
+      type: 'array',
+      items: { type: 'string', pattern: LANGUAGE_CODE_PATTERN },
+      maxItems: 50,
+      uniqueItems: true,
+      description: 'Language codes members may use; empty allows every language'
+    },
+    retention: {
+      type: ['object', 'null'],
+      properties: {
+        audioDays: { type: 'integer', minimum: 1 },
+        transcriptDays: { type: 'integer', minimum: 1 },
+        redactAfterDays: { type: ['integer', 'null'], minimum: 1 }
+      },
+      required: ['audioDays', 'transcriptDays', 'redactAfterDays'],
+      additionalProperties: false,
+      description: 'Retention of members\' data, null to use the deployment policies'
+    },
+    quotas: {
+      type: 'object',
+      properties: {
+        rateLimitMultiplier: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+        maxMembers: { type: 'integer', minimum: 1 }
+      },
+      additionalProperties: false
+    }
+  },
+  additionalProperties: false
+};
+
+// JSON Schema for organization creation
+const organizationCreateSchema = {
+  type: 'object',
+  properties: {
+    name: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 255,
+      description: 'Display name'
+    },
+    slug: {
+      type: 'string',
+      pattern: '^[a-z0-9]+(-[a-z0-9]+)*$',
+      maxLength: 63,
+      description: 'Unique URL-safe identifier'
+    },
+    settings: settingsSchema
+  },
+  required: ['name', 'slug'],
+  additionalProperties: false
+};
+
+// JSON Schema for member additions
+const memberAdditionSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string', description: 'User to add' },
+    role: {
+      type: 'string',
+      enum: Object.values(OrganizationRole),
+      description: 'Role within the organization'
+    }
+  },
+  required: ['userId', 'role'],
+  additionalProperties: false
+};
+
+/**
+ * Validates the payload of an organization creation
+ * @param payload Request body with name, slug and optional settings
+ * @returns Parsed creation parameters or validation error details
+ */
+export const validateOrganizationCreate = (
+  payload: unknown
+): Result<OrganizationCreateParams> => {
+  const schemaResult = validateSchema<OrganizationCreateParams>(payload, organizationCreateSchema);
+  if (!schemaResult.success) {
+    return schemaResult;
+  }
+
+  return {
+    success: true,
+    data: { ...schemaResult.data, name: sanitizeInput(schemaResult.data.name) },
+    error: null,
+    metadata: {}
+  };
+};
+
+/**
+ * Validates the payload of an organization settings update
+ * @param payload Request body with the settings to replace
+ * @returns Parsed settings or validation error details
+ */
+export const validateOrganizationSettings = (
+  payload: unknown
+): Result<Partial<OrganizationSettings>> => {
+  const schemaResult = validateSchema<Partial<OrganizationSettings>>(payload, settingsSchema);
+  if (!schemaResult.success) {
+    return schemaResult;
+  }
+
+  if (Object.keys(schemaResult.data).length === 0) {
+    return {
+      success: false,
+      data: null as unknown as Partial<OrganizationSettings>,
+      error: createError(ERROR_CODES.VALIDATION_ERROR, { message: 'No settings to update' }),
+      metadata: {}
+    };
+  }
+
+  return schemaResult;
+};
+
+/**
+ * Validates the payload of a member addition
+ * @param payload Request body with the user and their role
+ * @returns Parsed member addition or validation error details
+ */
+export const validateMemberAddition = (payload: unknown): Result<OrganizationMemberAddition> => {
+  const schemaResult = validateSchema<OrganizationMemberAddition>(payload, memberAdditionSchema);
+  if (!schemaResult.success) {
+    return schemaResult;
+  }
+
+  const uuidResult = validateUUID(schemaResult.data.userId);
+  if (!uuidResult.success) {
+    return {
+      success: false,
+      data: null as unknown as OrganizationMemberAddition,
+      error: uuidResult.error,
+      metadata: {}
+    };
+  }
+
+  return schemaResult;
+};
@@ -11,11 +11,37 @@ import cors from 'cors'; // ^2.8.5
 import compression from 'compression'; // ^1.7.4
 import morgan from 'morgan'; // ^1.10.0
 import { RateLimiterRedis } from 'rate-limiter-flexible'; // ^3.0.0
+import { RateLimit } from 'ws-rate-limit'; // ^2.0.0
+import winston from 'winston'; // v3.10.0
 import { v4 as uuidv4 } from 'uuid';
 
 import router from './api/routes';
 import { config } from './config';
 import { WebSocketService } from './services/websocket/websocket.service';
+import { ConnectionHandler } from './services/websocket/connection.handler';
+import { AudioStreamHandler } from './services/websocket/audioStream.handler';
+import { ConnectionAuthService } from './services/websocket/connectionAuth.service';
+import { createVoiceTurnOrchestratorFactory } from './services/websocket/voiceTurn.orchestrator';
+import { AudioProcessor } from './services/audio/audioProcessor.service';
+import { VoiceActivityDetector } from './services/audio/voiceActivity.service';
+import { SpeechRecognitionService } from './services/audio/speechRecognition.service';
+import { SpeechSynthesisService } from './services/audio/speechSynthesis.service';
+import { DialogService, createDialogEngine } from './services/dialog/dialog.service';
+import { MessageService } from './services/conversation/message.service';
+import { SessionService } from './services/session/session.service';
+import { jwtService } from './services/auth/jwt.service';
+import { JobRunner } from './services/jobs/jobRunner.service';
+import { RetentionService } from './services/retention/retention.service';
+import { AudioStorageService } from './services/storage/audioStorage.service';
+import { RetentionRepository } from './db/repositories/retention.repository';
+import { SessionRepository } from './db/repositories/session.repository';
+import { ConversationRepository } from './db/repositories/conversation.repository';
+import { MessageRepository } from './db/repositories/message.repository';
+import { storageConfig } from './config/storage.config';
+import { dialogConfig } from './config/dialog.config';
+import { speechConfig } from './config/speech.config';
+import { loggerConfig } from './config/logger.config';
+import { DEFAULT_VAD_CONFIG, VoiceActivityConfig } from './types/audio.types';
 import { logger } from './utils/logger.utils';
 import { createError } from './utils/error.utils';
 import { ERROR_CODES } from './constants/error.constants';
@@ -23,13 +49,16 @@ import { ERROR_CODES } from './constants/error.constants';
 export class App {
   private readonly express: Application;
   private readonly websocketService: WebSocketService;
+  private readonly jobRunner: JobRunner;
 
   constructor() {
     this.express = express();
-    this.websocketService = new WebSocketService();
+    this.websocketService = this.createWebSocketService();
+    this.jobRunner = new JobRunner();
     this.initializeMiddleware();
     this.initializeRoutes();
     this.initializeErrorHandling();
+    this.initializeJobs();
   }
 
   /**
@@ -181,6 +210,76 @@ export class App {
     });
   }
 
+  /**
+   * Builds the voice WebSocket service: each authenticated connection gets a
+   * turn orchestrator driving recognition, dialog and synthesis
+   */
+  private createWebSocketService(): WebSocketService {
+    const voiceActivity: VoiceActivityConfig = {
+      ...DEFAULT_VAD_CONFIG,
+      vadThreshold: speechConfig.vadThreshold,
+      noiseFloor: speechConfig.noiseFloor
+    };
+    const audioProcessor = new AudioProcessor({}, new VoiceActivityDetector(voiceActivity));
+    const messageRepository = new MessageRepository();
+    const dialogService = new DialogService(
+      createDialogEngine(dialogConfig),
+      new MessageService(messageRepository, new AudioStorageService(storageConfig)),
+      messageRepository,
+      new ConversationRepository(),
+      dialogConfig.historyLimit
+    );
+
+    const audioStreamHandler = new AudioStreamHandler(
+      audioProcessor,
+      new SpeechRecognitionService(audioProcessor),
+      createVoiceTurnOrchestratorFactory({
+        audioProcessor,
+        voiceActivity,
+        dialogService,
+        speechSynthesis: new SpeechSynthesisService()
+      })
+    );
+    const connectionAuth = new ConnectionAuthService();
+    const sessionService = new SessionService(
+      new SessionRepository(),
+      winston.createLogger(loggerConfig),
+      jwtService
+    );
+
+    return new WebSocketService(
+      new ConnectionHandler(audioStreamHandler, new RateLimit(), connectionAuth, sessionService),
+      audioStreamHandler,
+      connectionAuth
+    );
+  }
+
+  /**
+   * Registers scheduled maintenance jobs
+   */
+  private initializeJobs(): void {
+    const sessionRepository = new SessionRepository();
+    this.jobRunner.register({
+      name: 'session-cleanup',
+      interval: 900000, // 15 minutes
+      lockTtl: 600000, // 10 minutes
+      run: () => sessionRepository.cleanExpiredSessions()
+    });
+
+    if (config.retention.enabled) {
+      const retentionService = new RetentionService(
+        new RetentionRepository(),
+        new AudioStorageService(storageConfig)
+      );
+      this.jobRunner.register({
+        name: 'retention',
+        interval: config.retention.interval,
+        lockTtl: config.retention.lockTtl,
+        run: () => retentionService.run()
+      });
+    }
+  }
+
   /**
    * Starts the HTTP and WebSocket servers
    * @param port Port number to listen on
@@ -198,9 +297,12 @@ export class App {
         logger.info('Server started', { port });
       });
 
+      // Start scheduled jobs
+      this.jobRunner.start();
+
       // Graceful shutdown handler
       process.on('SIGTERM', async () => {
-        await this.websocketService.shutdown();
+        await this.shutdown();
         process.exit(0);
       });
     } catch (error) {
@@ -208,6 +310,14 @@ export class App {
       throw error;
     }
   }
+
+  /**
+   * Stops scheduled jobs and closes WebSocket connections
+   */
+  public async shutdown(): Promise<void> {
+    await this.jobRunner.stop();
+    await this.websocketService.shutdown();
+  }
 }
 
 export default App;
\ No newline at end of file
@@ -0,0 +1,67 @@
+/**
+ * Dialog Configuration Module
+ * Defines the dialog engine used to generate AI replies and the settings
+ * for the OpenAI-compatible chat completions provider.
+ * @version 1.0.0
+ */
+
+import { config } from 'dotenv'; // ^16.3.1
+import { DialogConfig } from '../types/config.types';
+import { DialogEngineType } from '../interfaces/dialog.interface';
+
+// Initialize environment variables
+config();
+
+/**
+ * Default system prompt keeping replies short enough to be spoken
+ */
+const DEFAULT_SYSTEM_PROMPT =
+  'You are a helpful voice assistant. Reply conversationally in one to three short ' +
+  'sentences without markdown, lists or emojis, because your reply will be spoken aloud.';
+
+/**
+ * Validates dialog configuration parameters
+ * @param config Dialog configuration to validate
+ * @throws Error if configuration is invalid
+ */
+export const validateDialogConfig = (config: DialogConfig): boolean => {
+  if (!Object.values(DialogEngineType).includes(config.engine as DialogEngineType)) {
+    throw new Error(`Unsupported dialog engine: ${config.engine}`);
+  }
+
+  if (config.engine === DialogEngineType.OPENAI && !config.apiKey) {
+    throw new Error('DIALOG_API_KEY is required for the openai dialog engine');
+  }
+
+  if (config.temperature < 0 || config.temperature > 2) {
+    throw new Error('Dialog temperature must be between 0 and 2');
+  }
+
+  if (config.historyLimit < 1 || config.historyLimit > 200) {
+    throw new Error('Dialog history limit must be between 1 and 200 messages');
+  }
+
+  return true;
+};
+
+/**
+ * Dialog configuration object
+ * Falls back to the deterministic rule engine in the test environment
+ */
+export const dialogConfig: DialogConfig = {
+  engine: process.env.DIALOG_ENGINE ||
+    (process.env.NODE_ENV === 'test' ? DialogEngineType.RULE : DialogEngineType.OPENAI),
+  apiBaseUrl: process.env.DIALOG_API_BASE_URL || 'https://api.openai.com/v1',
+  apiKey: process.env.DIALOG_API_KEY || '',
+  model: process.env.DIALOG_MODEL || 'gpt-4o-mini',
+  temperature: parseFloat(process.env.DIALOG_TEMPERATURE || '0.7'),
+  maxTokens: parseInt(process.env.DIALOG_MAX_TOKENS || '256', 10),
+  systemPrompt: process.env.DIALOG_SYSTEM_PROMPT || DEFAULT_SYSTEM_PROMPT,
+  requestTimeout: parseInt(process.env.DIALOG_REQUEST_TIMEOUT || '10000', 10), // 10 seconds
+  historyLimit: parseInt(process.env.DIALOG_HISTORY_LIMIT || '20', 10)
+};
+
+// Validate configuration on module load
+validateDialogConfig(dialogConfig);
+
+export default dialogConfig;
@@ -15,6 +15,9 @@ import { databaseConfig } from './database.config';
 import { redisConfig } from './redis.config';
 import { speechConfig } from './speech.config';
 import { websocketConfig } from './websocket.config';
+import { dialogConfig } from './dialog.config';
+import { retentionConfig } from './retention.config';
+import { redactionConfig } from './redaction.config';
 
 // Initialize environment variables
 dotenv();
@@ -94,7 +97,10 @@ export const monitorConfigChanges = (): void => {
       database: { ...databaseConfig, password: '[REDACTED]' },
       redis: { ...redisConfig, password: '[REDACTED]' },
       speech: speechConfig,
-      websocket: websocketConfig
+      websocket: websocketConfig,
+      dialog: { ...dialogConfig, apiKey: '[REDACTED]' },
+      retention: retentionConfig,
+      redaction: { ...redactionConfig, key: '[REDACTED]' }
     }
   });
 };
@@ -134,6 +140,25 @@ export const config = {
   websocket: {
     ...websocketConfig,
     // WebSocket config doesn't contain sensitive data
+  },
+
+  dialog: {
+    ...dialogConfig,
+    apiKey: process.env.NODE_ENV === 'production'
+      ? encryptValue(dialogConfig.apiKey)
+      : dialogConfig.apiKey
+  },
+
+  retention: {
+    ...retentionConfig,
+    // Retention config doesn't contain sensitive data
+  },
+
+  redaction: {
+    ...redactionConfig,
+    key: process.env.NODE_ENV === 'production'
+      ? encryptValue(redactionConfig.key)
+      : redactionConfig.key
   }
 };
 
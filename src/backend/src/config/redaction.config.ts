@@ -0,0 +1,70 @@
+/**
+ * Redaction Configuration Module
+ * Defines which personal data is removed from transcripts before they are
+ * stored and from log messages before they are written.
+ * @version 1.0.0
+ */
+
+import { config } from 'dotenv'; // ^16.3.1
+import { RedactionConfig } from '../types/config.types';
+import { PiiEntity, RedactionMode } from '../interfaces/redaction.interface';
+
+// Initialize environment variables
+config();
+
+/**
+ * Validates redaction configuration parameters
+ * @param config Redaction configuration to validate
+ * @throws Error if configuration is invalid
+ */
+export const validateRedactionConfig = (config: RedactionConfig): boolean => {
+  if (!Object.values(RedactionMode).includes(config.mode as RedactionMode)) {
+    throw new Error(`Unsupported redaction mode: ${config.mode}`);
+  }
+
+  const builtIn = Object.values(PiiEntity) as string[];
+  for (const entity of config.entities) {
+    if (!builtIn.includes(entity)) {
+      throw new Error(`Unknown PII entity: ${entity}`);
+    }
+  }
+
+  for (const custom of config.customPatterns) {
+    if (!/^[a-z][a-z0-9_]*$/.test(custom.name || '') || builtIn.includes(custom.name)) {
+      throw new Error(`Custom PII pattern name must be a new snake_case name: ${custom.name}`);
+    }
+    try {
+      new RegExp(custom.pattern, custom.flags);
+    } catch (error) {
+      throw new Error(`Custom PII pattern ${custom.name} is not a valid regular expression`);
+    }
+  }
+
+  const needsKey = config.mode === RedactionMode.HASH || config.retainOriginals;
+  if (needsKey && !/^[0-9a-f]{64}$/i.test(config.key)) {
+    throw new Error('PII_REDACTION_KEY must be 64 hex characters for hash mode or originals');
+  }
+
+  return true;
+};
+
+/**
+ * Redaction configuration object
+ * Custom entities are given as a JSON array in PII_CUSTOM_PATTERNS
+ */
+export const redactionConfig: RedactionConfig = {
+  enabled: process.env.PII_REDACTION_ENABLED !== 'false',
+  mode: process.env.PII_REDACTION_MODE || RedactionMode.TOKENIZE,
+  entities: (process.env.PII_REDACTION_ENTITIES || Object.values(PiiEntity).join(','))
+    .split(',')
+    .map((entity) => entity.trim())
+    .filter(Boolean),
+  customPatterns: JSON.parse(process.env.PII_CUSTOM_PATTERNS || '[]'),
+  retainOriginals: process.env.PII_RETAIN_ORIGINALS === 'true',
+  key: process.env.PII_REDACTION_KEY || ''
+};
+
+// Validate configuration on module load
+validateRedactionConfig(redactionConfig);
+
+export default redactionConfig;
@@ -0,0 +1,110 @@
+/**
+ * Retention Configuration Module
+ * Defines how long recordings and transcripts are kept for each role or
+ * organization and how often the cleanup job enforces it.
+ * @version 1.0.0
+ */
+
+import { config } from 'dotenv'; // ^16.3.1
+import { RetentionConfig } from '../types/config.types';
+import { RetentionPolicy } from '../interfaces/retention.interface';
+import { ROLE_PERMISSIONS } from '../constants/auth.constants';
+
+// Initialize environment variables
+config();
+
+/**
+ * Identifier of the policy applied to users no other policy matches
+ */
+export const DEFAULT_RETENTION_POLICY_ID = 'default';
+
+/**
+ * Parses an optional number of days, empty meaning never
+ */
+const parseOptionalDays = (value: string | undefined): number | null =>
+  value ? parseInt(value, 10) : null;
+
+/**
+ * Parses role and organization policies, filling in omitted optional fields
+ */
+const parsePolicies = (value: string | undefined): RetentionPolicy[] =>
+  (JSON.parse(value || '[]') as Partial<RetentionPolicy>[]).map((policy) => ({
+    ...(policy as RetentionPolicy),
+    scope: policy.scope ?? {},
+    redactAfterDays: policy.redactAfterDays ?? null
+  }));
+
+/**
+ * Validates retention configuration parameters
+ * @param config Retention configuration to validate
+ * @throws Error if configuration is invalid
+ */
+export const validateRetentionConfig = (config: RetentionConfig): boolean => {
+  if (config.interval < 60000) {
+    throw new Error('Retention job interval must be at least one minute');
+  }
+
+  if (config.lockTtl < config.interval / 2) {
+    throw new Error('Retention lock TTL must cover at least half the job interval');
+  }
+
+  if (config.batchSize < 1 || config.batchSize > 10000) {
+    throw new Error('Retention batch size must be between 1 and 10000');
+  }
+
+  const ids = new Set<string>();
+  const scopes = new Set<string>();
+  for (const policy of config.policies) {
+    const days = [policy.audioDays, policy.transcriptDays, policy.redactAfterDays ?? 1];
+    if (days.some((value) => !Number.isInteger(value) || value < 1)) {
+      throw new Error(`Retention policy ${policy.id} must keep data for whole days`);
+    }
+
+    if (policy.scope.role && !(policy.scope.role in ROLE_PERMISSIONS)) {
+      throw new Error(`Retention policy ${policy.id} has unknown role: ${policy.scope.role}`);
+    }
+
+    const scope = `${policy.scope.role ?? '*'}/${policy.scope.organizationId ?? '*'}`;
+    if (ids.has(policy.id) || scopes.has(scope)) {
+      throw new Error(`Retention policy ${policy.id} duplicates another policy`);
+    }
+    ids.add(policy.id);
+    scopes.add(scope);
+  }
+
+  if (!scopes.has('*/*')) {
+    throw new Error('A default retention policy with an empty scope is required');
+  }
+
+  return true;
+};
+
+/**
+ * Policy for users no role or organization policy matches
+ */
+const defaultPolicy: RetentionPolicy = {
+  id: DEFAULT_RETENTION_POLICY_ID,
+  scope: {},
+  audioDays: parseInt(process.env.RETENTION_AUDIO_DAYS || '30', 10),
+  transcriptDays: parseInt(process.env.RETENTION_TRANSCRIPT_DAYS || '365', 10),
+  redactAfterDays: parseOptionalDays(process.env.RETENTION_REDACT_AFTER_DAYS)
+};
+
+/**
+ * Retention configuration object
+ * Role and organization policies are given as a JSON array in RETENTION_POLICIES
+ * The job deletes data only once operators both enable it and turn off the dry run
+ */
+export const retentionConfig: RetentionConfig = {
+  enabled: process.env.RETENTION_JOB_ENABLED === 'true',
+  dryRun: process.env.RETENTION_DRY_RUN !== 'false',
+  interval: parseInt(process.env.RETENTION_JOB_INTERVAL || '3600000', 10), // 1 hour
+  lockTtl: parseInt(process.env.RETENTION_LOCK_TTL || '1800000', 10), // 30 minutes
+  batchSize: parseInt(process.env.RETENTION_BATCH_SIZE || '500', 10),
+  policies: [defaultPolicy, ...parsePolicies(process.env.RETENTION_POLICIES)]
+};
+
+// Validate configuration on module load
+validateRetentionConfig(retentionConfig);
+
+export default retentionConfig;
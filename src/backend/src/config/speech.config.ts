@@ -8,6 +8,8 @@
 import { config } from 'dotenv'; // ^16.3.1
 import { SpeechConfig } from '../types/config.types';
 import { AUDIO_PROCESSING, VOICE_ACTIVITY } from '../constants/voice.constants';
+import { SpeechRecognitionProviderType } from '../interfaces/speechRecognition.interface';
+import { SpeechSynthesisProviderType } from '../interfaces/speechSynthesis.interface';
 
 // Initialize environment variables
 config();
@@ -26,6 +28,12 @@ const CREDENTIALS = {
   }
 };
 
+/**
+ * Parses a comma separated environment list
+ */
+const parseList = (value: string | undefined): string[] =>
+  (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+
 /**
  * Default speech configuration based on technical specifications
  */
@@ -37,7 +45,22 @@ const DEFAULT_CONFIG: SpeechConfig = {
   noiseFloor: VOICE_ACTIVITY.NOISE_FLOOR, // -45dB as per specs
   frameSize: AUDIO_PROCESSING.FRAME_SIZE, // 20ms as per specs
   bitDepth: AUDIO_PROCESSING.BIT_DEPTH, // 16-bit as per specs
-  latencyBudget: 500 // 500ms maximum acceptable processing delay
+  latencyBudget: 500, // 500ms maximum acceptable processing delay
+  // Offline fixtures by default in tests so no cloud credentials are needed
+  recognitionProvider: process.env.SPEECH_RECOGNITION_PROVIDER ||
+    (process.env.NODE_ENV === 'test'
+      ? SpeechRecognitionProviderType.FIXTURE
+      : SpeechRecognitionProviderType.GOOGLE),
+  localRecognizerCommand: process.env.LOCAL_RECOGNIZER_COMMAND || '',
+  recognitionFixturePath: process.env.SPEECH_RECOGNITION_FIXTURES || '',
+  synthesisProviders: parseList(process.env.SPEECH_SYNTHESIS_PROVIDERS).length > 0
+    ? parseList(process.env.SPEECH_SYNTHESIS_PROVIDERS)
+    : [process.env.NODE_ENV === 'test'
+      ? SpeechSynthesisProviderType.TONE
+      : SpeechSynthesisProviderType.POLLY],
+  localSynthesizerCommand: process.env.LOCAL_SYNTHESIZER_COMMAND || '',
+  localSynthesizerSampleRate: parseInt(process.env.LOCAL_SYNTHESIZER_SAMPLE_RATE || '22050', 10),
+  localSynthesizerVoices: parseList(process.env.LOCAL_SYNTHESIZER_VOICES)
 };
 
 /**
@@ -71,7 +94,9 @@ export const validateSpeechConfig = (config: Partial<SpeechConfig>): boolean =>
     'vadThreshold',
     'noiseFloor',
     'frameSize',
-    'bitDepth'
+    'bitDepth',
+    'recognitionProvider',
+    'synthesisProviders'
   ];
 
   for (const param of requiredParams) {
@@ -105,6 +130,38 @@ export const validateSpeechConfig = (config: Partial<SpeechConfig>): boolean =>
     throw new Error('Latency budget must be between 100ms and 1000ms');
   }
 
+  const providers = Object.values(SpeechRecognitionProviderType) as string[];
+  if (!providers.includes(String(config.recognitionProvider))) {
+    throw new Error(`Unsupported speech recognition provider: ${config.recognitionProvider}`);
+  }
+
+  if (
+    config.recognitionProvider === SpeechRecognitionProviderType.LOCAL &&
+    !config.localRecognizerCommand
+  ) {
+    throw new Error('LOCAL_RECOGNIZER_COMMAND is required for the local recognition provider');
+  }
+
+  const synthesisProviders = config.synthesisProviders ?? [];
+  const supportedSynthesis = Object.values(SpeechSynthesisProviderType) as string[];
+  if (synthesisProviders.length === 0) {
+    throw new Error('At least one speech synthesis provider must be enabled');
+  }
+  for (const provider of synthesisProviders) {
+    if (!supportedSynthesis.includes(provider)) {
+      throw new Error(`Unsupported speech synthesis provider: ${provider}`);
+    }
+  }
+
+  if (synthesisProviders.includes(SpeechSynthesisProviderType.LOCAL)) {
+    if (!config.localSynthesizerCommand || !config.localSynthesizerVoices?.length) {
+      throw new Error(
+        'LOCAL_SYNTHESIZER_COMMAND and LOCAL_SYNTHESIZER_VOICES are required ' +
+        'for the local synthesis provider'
+      );
+    }
+  }
+
   return true;
 };
 
@@ -118,14 +175,6 @@ export const getSpeechConfig = (): SpeechConfig => {
     return cachedConfig;
   }
 
-  // Validate credentials
-  if (!CREDENTIALS.googleSpeech) {
-    throw new Error('Missing Google Speech API credentials');
-  }
-  if (!CREDENTIALS.awsPolly.accessKey || !CREDENTIALS.awsPolly.secretKey) {
-    throw new Error('Missing AWS Polly credentials');
-  }
-
   // Get current environment
   const environment = process.env.NODE_ENV || 'development';
 
@@ -138,6 +187,20 @@ export const getSpeechConfig = (): SpeechConfig => {
   // Validate merged configuration
   validateSpeechConfig(config);
 
+  // Validate credentials of the selected providers
+  if (
+    config.recognitionProvider === SpeechRecognitionProviderType.GOOGLE &&
+    !CREDENTIALS.googleSpeech
+  ) {
+    throw new Error('Missing Google Speech API credentials');
+  }
+  if (
+    config.synthesisProviders.includes(SpeechSynthesisProviderType.POLLY) &&
+    (!CREDENTIALS.awsPolly.accessKey || !CREDENTIALS.awsPolly.secretKey)
+  ) {
+    throw new Error('Missing AWS Polly credentials');
+  }
+
   // Cache the validated configuration
   cachedConfig = config;
 
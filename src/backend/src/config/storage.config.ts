@@ -0,0 +1,26 @@
+/**
+ * Storage Configuration Module
+ * Object storage settings for encrypted audio recordings
+ * @version 1.0.0
+ */
+
+import { config } from 'dotenv'; // ^16.3.1
+import { S3ClientConfig } from '../services/storage/audioStorage.service';
+
+// Initialize environment variables
+config();
+
+/**
+ * S3 bucket holding audio recordings
+ */
+export const storageConfig: S3ClientConfig = {
+  region: process.env.AWS_REGION || 'us-east-1',
+  bucketName: process.env.S3_BUCKET_NAME || 'voice-agent-storage',
+  endpoint: process.env.S3_ENDPOINT || undefined,
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || ''
+  }
+};
+
+export default storageConfig;
@@ -0,0 +1,116 @@
+/**
+ * Authorization constants
+ * Permission matrix and role-based limits for the roles carried in access tokens
+ * @version 1.0.0
+ */
+
+import { ITokenPayload } from '../interfaces/auth.interface';
+import { VOICE_IDS } from './voice.constants';
+
+/**
+ * Roles carried in access tokens
+ */
+export type UserRole = ITokenPayload['role'];
+
+/**
+ * Actions that routes can require
+ */
+export enum Permission {
+  CONVERSATION_READ = 'conversation:read',
+  CONVERSATION_WRITE = 'conversation:write',
+  CONVERSATION_DELETE = 'conversation:delete',
+  VOICE_SYNTHESIZE = 'voice:synthesize',
+  VOICE_SSML = 'voice:ssml',
+  VOICE_PREMIUM = 'voice:premium',
+  SESSION_MANAGE = 'session:manage',
+  SESSION_EXTENDED = 'session:extended',
+  METRICS_READ = 'metrics:read',
+  PII_REVEAL = 'pii:reveal'
+}
+
+const USER_PERMISSIONS: readonly Permission[] = [
+  Permission.CONVERSATION_READ,
+  Permission.CONVERSATION_WRITE,
+  Permission.CONVERSATION_DELETE,
+  Permission.VOICE_SYNTHESIZE,
+  Permission.SESSION_MANAGE
+];
+
+const PREMIUM_PERMISSIONS: readonly Permission[] = [
+  ...USER_PERMISSIONS,
+  Permission.VOICE_SSML,
+  Permission.VOICE_PREMIUM,
+  Permission.SESSION_EXTENDED
+];
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Readonly<Record<UserRole, readonly Permission[]>> = {
+  user: USER_PERMISSIONS,
+  premium: PREMIUM_PERMISSIONS,
+  admin: Object.values(Permission)
+};
+
+/**
+ * Checks whether a role grants a permission
+ * @param role - Role from the access token
+ * @param permission - Permission to check
+ * @returns Boolean indicating if the role grants the permission
+ */
+export const hasPermission = (role: string, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role as UserRole]?.includes(permission) ?? false;
+
+/**
+ * Permissions that may be granted to API keys; every other route needs an interactive login
+ * A key is also limited to the permissions of its owner's role
+ */
+export const API_KEY_SCOPES: readonly Permission[] = [
+  Permission.CONVERSATION_READ,
+  Permission.CONVERSATION_WRITE,
+  Permission.CONVERSATION_DELETE,
+  Permission.VOICE_SYNTHESIZE,
+  Permission.VOICE_SSML,
+  Permission.VOICE_PREMIUM
+];
+
+/**
+ * API key format and bookkeeping
+ */
+export const API_KEYS = {
+  /** Marks a credential as an API key, e.g. in secret scanners */
+  PREFIX: 'vak_',
+  /** Random bytes in each key */
+  SECRET_BYTES: 32,
+  /** Characters of the key stored in clear so owners can tell keys apart */
+  DISPLAY_LENGTH: 12,
+  /** Active keys a user may hold */
+  MAX_PER_USER: 20,
+  /** Minimum time between last-used updates of a key, in milliseconds */
+  USAGE_UPDATE_INTERVAL: 60 * 1000
+} as const;
+
+/**
+ * Voices reserved for roles with the VOICE_PREMIUM permission
+ */
+export const PREMIUM_VOICE_IDS: readonly string[] = [
+  VOICE_IDS.MALE_GB_1,
+  VOICE_IDS.FEMALE_GB_1
+];
+
+/**
+ * Session lifetime in seconds for roles without and with SESSION_EXTENDED
+ */
+export const SESSION_LIFETIMES = {
+  STANDARD: 15 * 60, // 15 minutes
+  EXTENDED: 60 * 60 // 1 hour
+} as const;
+
+/**
+ * Multipliers applied to the request quotas of each rate limiter
+ */
+export const ROLE_QUOTA_MULTIPLIERS: Readonly<Record<UserRole, number>> = {
+  user: 1,
+  premium: 3,
+  admin: 10
+};
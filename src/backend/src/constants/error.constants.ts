@@ -36,7 +36,8 @@ export enum ERROR_CODES {
   WEBSOCKET_ERROR = 'WS_001',
   RATE_LIMIT_ERROR = 'RATE_001',
   NETWORK_ERROR = 'NET_001',
-  SERVICE_UNAVAILABLE = 'SVC_001'
+  SERVICE_UNAVAILABLE = 'SVC_001',
+  DIALOG_ERROR = 'DIALOG_001'
 }
 
 /**
@@ -59,7 +60,10 @@ export const ERROR_MESSAGES: Record<ERROR_CODES, string> = {
   [ERROR_CODES.WEBSOCKET_ERROR]: `${ERROR_MESSAGE_PREFIX} Real-time communication error. Please check your connection and try again.`,
   [ERROR_CODES.RATE_LIMIT_ERROR]: `${ERROR_MESSAGE_PREFIX} Too many requests. Please wait a moment before trying again.`,
   [ERROR_CODES.NETWORK_ERROR]: `${ERROR_MESSAGE_PREFIX} Network connection error. Please check your internet connection and try again.`,
-  [ERROR_CODES.SERVICE_UNAVAILABLE]: `${ERROR_MESSAGE_PREFIX} Service is temporarily unavailable. Please try again later.`
+  [ERROR_CODES.SERVICE_UNAVAILABLE]:
+    `${ERROR_MESSAGE_PREFIX} Service is temporarily unavailable. Please try again later.`,
+  [ERROR_CODES.DIALOG_ERROR]:
+    `${ERROR_MESSAGE_PREFIX} Unable to generate a response. Please try again.`
 };
 
 /**
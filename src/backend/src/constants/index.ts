@@ -13,6 +13,12 @@ export * as MessageConstants from './message.constants';
 // Voice Constants
 export * as VoiceConstants from './voice.constants';
 
+// WebSocket Constants
+export * as WebSocketConstants from './websocket.constants';
+
+// Authorization Constants
+export * as AuthConstants from './auth.constants';
+
 /**
  * Re-export specific constants for direct access when needed
  * while maintaining namespace organization through the above exports
@@ -31,7 +37,8 @@ export {
   MESSAGE_VALIDATION,
   MESSAGE_ERROR_MESSAGES,
   SYSTEM_MESSAGES,
-  MESSAGE_DEFAULTS
+  MESSAGE_DEFAULTS,
+  HISTORY_DEFAULTS
 } from './message.constants';
 
 // Voice processing re-exports
@@ -45,6 +52,19 @@ export {
   SSML_TAGS
 } from './voice.constants';
 
+// WebSocket re-exports
+export { AUDIO_FRAME, WEBSOCKET_AUTH, WEBSOCKET_PROTOCOLS } from './websocket.constants';
+
+// Authorization re-exports
+export {
+  Permission,
+  ROLE_PERMISSIONS,
+  PREMIUM_VOICE_IDS,
+  SESSION_LIFETIMES,
+  ROLE_QUOTA_MULTIPLIERS,
+  hasPermission
+} from './auth.constants';
+
 /**
  * Version information for the constants module
  * Used for tracking compatibility and updates
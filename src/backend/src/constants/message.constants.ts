@@ -85,4 +85,16 @@ export const MESSAGE_DEFAULTS = {
     bitDepth: 16,
     encoding: 'LINEAR16'
   }
-} as const;
\ No newline at end of file
+} as const;
+
+/**
+ * Defaults for the conversation and message history endpoints
+ */
+export const HISTORY_DEFAULTS = {
+  /** Page size when none is requested */
+  DEFAULT_PAGE_SIZE: 20,
+  /** Largest page size a client may request */
+  MAX_PAGE_SIZE: 100,
+  /** Lifetime of signed audio URLs in seconds */
+  AUDIO_URL_EXPIRY: 300
+} as const;
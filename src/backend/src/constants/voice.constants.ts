@@ -53,6 +53,26 @@ export const VOICE_ACTIVITY = {
   SPEECH_PADDING: 200 // ms of padding around speech segments
 } as const;
 
+/**
+ * Voice turn orchestration parameters
+ * Timing for end-of-turn detection and outbound audio framing
+ */
+export const VOICE_TURN = {
+  FINAL_RESULT_TIMEOUT: 1000, // ms to wait for a final transcript after speech ends
+  OUTPUT_FRAME_DURATION: 100, // ms of synthesized audio per outbound frame
+  PLAYBACK_LEAD: 300 // ms of audio sent ahead of real-time playback
+} as const;
+
+/**
+ * Sentence chunking for streaming synthesis
+ * Short sentences are merged and long ones split at word boundaries so each
+ * chunk is synthesized quickly without sounding clipped
+ */
+export const SYNTHESIS_CHUNKING = {
+  MIN_CHUNK_LENGTH: 20, // characters
+  MAX_CHUNK_LENGTH: 300 // characters
+} as const;
+
 /**
  * Supported audio formats for speech synthesis
  * Includes codec-specific configuration parameters
@@ -77,6 +97,16 @@ export const SYNTHESIS_FORMATS = {
     codec: 'aac',
     bitrate: 64000, // bps
     sampleRate: 44100 // Hz
+  },
+  G711: {
+    codec: 'g711',
+    bitDepth: 8, // Companded
+    sampleRate: 8000 // Hz
+  },
+  WAV: {
+    codec: 'pcm',
+    bitDepth: 16,
+    sampleRate: 16000 // Hz
   }
 } as const;
 
@@ -0,0 +1,35 @@
+/**
+ * WebSocket connection constants
+ * @version 1.0.0
+ */
+
+/**
+ * Voice stream authentication
+ * Browsers cannot set headers on WebSocket upgrades, so the access token may
+ * also travel as a prefixed subprotocol or be exchanged for a one-time ticket
+ */
+export const WEBSOCKET_AUTH = {
+  PROTOCOL_PREFIX: 'bearer.', // subprotocol carrying the access token
+  TICKET_PARAM: 'ticket', // query parameter carrying a connection ticket
+  TICKET_TTL: 30, // seconds a connection ticket can be redeemed
+  EXPIRY_WARNING: 60000, // ms before token expiry the client is asked to refresh
+  CLOSE_CODE_TOKEN_EXPIRED: 4001 // private-use close code for expired or rejected tokens
+} as const;
+
+/**
+ * Application subprotocols offered by clients
+ * Over AUDIO_BINARY, audio travels in binary frames and control messages as
+ * JSON; over AUDIO_STREAM every message is JSON
+ */
+export const WEBSOCKET_PROTOCOLS = {
+  AUDIO_BINARY: 'v1.audio-binary', // preferred when offered
+  AUDIO_STREAM: 'v1.audio-stream'
+} as const;
+
+/**
+ * Binary audio frame format, see audioFrame.utils
+ */
+export const AUDIO_FRAME = {
+  VERSION: 1, // bumped on any incompatible change to the header
+  HEADER_BYTES: 24
+} as const;
@@ -0,0 +1,137 @@
+import { PrismaClient, Prisma } from '@prisma/client'; // v5.0.0
+import { prisma } from '../../config/database.config';
+import { ApiKey, ApiKeyCreateParams, ApiKeyPrincipal } from '../../interfaces/apiKey.interface';
+import { Permission, UserRole } from '../../constants/auth.constants';
+import { UserStatus } from '../../interfaces/user.interface';
+import { OrganizationRole } from '../../interfaces/organization.interface';
+import { UUID } from '../../types/common.types';
+
+type ApiKeyRow = Prisma.ApiKeyGetPayload<Record<string, never>>;
+
+const ownerSelect = {
+  id: true,
+  email: true,
+  role: true,
+  status: true,
+  organizationId: true,
+  organizationRole: true
+} as const;
+
+const toApiKey = (row: ApiKeyRow): ApiKey => ({
+  id: row.id as UUID,
+  userId: row.userId as UUID,
+  name: row.name,
+  prefix: row.prefix,
+  scopes: row.scopes as Permission[],
+  rateLimit: row.rateLimit,
+  lastUsedAt: row.lastUsedAt,
+  expiresAt: row.expiresAt,
+  revokedAt: row.revokedAt,
+  createdAt: row.createdAt
+});
+
+/**
+ * Repository for API keys
+ * Keys are looked up by the SHA-256 hash of the key; the key itself is never stored
+ */
+export class ApiKeyRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Stores a new key
+   * @param userId Owner of the key
+   * @param prefix Leading characters of the key kept for display
+   * @param keyHash SHA-256 hash of the key
+   */
+  async create(
+    userId: string,
+    prefix: string,
+    keyHash: string,
+    params: ApiKeyCreateParams
+  ): Promise<ApiKey> {
+    const row = await this.prisma.apiKey.create({
+      data: {
+        userId,
+        name: params.name,
+        prefix,
+        keyHash,
+        scopes: params.scopes,
+        rateLimit: params.rateLimit ?? null,
+        expiresAt: params.expiresAt ?? null
+      }
+    });
+    return toApiKey(row);
+  }
+
+  /**
+   * Retrieves a key and its owner by the hash of the key, or null when there is none
+   */
+  async findByHash(keyHash: string): Promise<ApiKeyPrincipal | null> {
+    const row = await this.prisma.apiKey.findUnique({
+      where: { keyHash },
+      include: { user: { select: ownerSelect } }
+    });
+    if (!row) {
+      return null;
+    }
+
+    return {
+      apiKey: toApiKey(row),
+      owner: {
+        id: row.user.id as UUID,
+        email: row.user.email,
+        role: row.user.role as UserRole,
+        status: row.user.status as UserStatus,
+        organizationId: row.user.organizationId as UUID | null,
+        organizationRole: row.user.organizationRole as OrganizationRole | null
+      }
+    };
+  }
+
+  /**
+   * Lists a user's keys that have not been revoked, newest first
+   */
+  async findByUser(userId: string): Promise<ApiKey[]> {
+    const rows = await this.prisma.apiKey.findMany({
+      where: { userId, revokedAt: null },
+      orderBy: { createdAt: 'desc' }
+    });
+    return rows.map(toApiKey);
+  }
+
+  /**
+   * Counts a user's keys that are neither revoked nor expired
+   */
+  async countActive(userId: string, now: Date = new Date()): Promise<number> {
+    return this.prisma.apiKey.count({
+      where: {
+        userId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+      }
+    });
+  }
+
+  /**
+   * Revokes one of a user's keys
+   * @returns Whether a key that was not yet revoked was found
+   */
+  async revoke(id: string, userId: string): Promise<boolean> {
+    const result = await this.prisma.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Records when a key was last used
+   */
+  async recordUse(id: string, usedAt: Date): Promise<void> {
+    await this.prisma.apiKey.update({ where: { id }, data: { lastUsedAt: usedAt } });
+  }
+}
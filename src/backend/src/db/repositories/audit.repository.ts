@@ -0,0 +1,189 @@
+import { PrismaClient, Prisma } from '@prisma/client'; // v5.0.0
+import { prisma } from '../../config/database.config';
+import {
+  AuditEvent,
+  AuditEventInput,
+  AuditEventQuery
+} from '../../interfaces/audit.interface';
+import { PaginatedResult, UUID } from '../../types/common.types';
+import { chainHash } from '../../utils/crypto.utils';
+import {
+  CursorPosition,
+  buildPagination,
+  decodeCursor,
+  encodeCursor
+} from '../../utils/pagination.utils';
+
+/**
+ * Previous hash of the first event in the chain
+ */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+// Advisory lock serializing appends so every event links to the latest one
+const AUDIT_CHAIN_LOCK = 7_402_113;
+
+type AuditEventRow = Prisma.AuditEventGetPayload<Record<string, never>>;
+
+/**
+ * Content covered by an event's hash
+ */
+export const hashedContent = (
+  event: Omit<AuditEvent, 'id' | 'previousHash' | 'hash'>
+): Record<string, unknown> => ({
+  sequence: event.sequence,
+  type: event.type,
+  actorId: event.actorId,
+  subjectType: event.subjectType,
+  subjectId: event.subjectId,
+  details: event.details,
+  ipAddress: event.ipAddress,
+  userAgent: event.userAgent,
+  createdAt: event.createdAt
+});
+
+/**
+ * Events recorded after a cursor position, newest first
+ */
+const after = (position: CursorPosition): Prisma.AuditEventWhereInput => ({
+  OR: [
+    { createdAt: { lt: position.createdAt } },
+    { createdAt: position.createdAt, id: { lt: position.id } }
+  ]
+});
+
+const toAuditEvent = (row: AuditEventRow): AuditEvent => ({
+  id: row.id as UUID,
+  sequence: Number(row.sequence),
+  type: row.type as AuditEvent['type'],
+  actorId: row.actorId as UUID | null,
+  subjectType: row.subjectType as AuditEvent['subjectType'],
+  subjectId: row.subjectId,
+  details: row.details as AuditEvent['details'],
+  ipAddress: row.ipAddress ?? undefined,
+  userAgent: row.userAgent ?? undefined,
+  previousHash: row.previousHash,
+  hash: row.hash,
+  createdAt: row.createdAt.getTime()
+});
+
+/**
+ * Repository for the append-only, hash-chained audit event log
+ */
+export class AuditRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Appends an event to the chain
+   * @param input Event to record
+   * @param tx Transaction of the change being audited; the event is rolled back with it
+   * @returns Stored event with its chain position and hash
+   */
+  async append(input: AuditEventInput, tx?: Prisma.TransactionClient): Promise<AuditEvent> {
+    if (tx) {
+      return this.appendWithin(tx, input);
+    }
+    return this.prisma.$transaction((client) => this.appendWithin(client, input));
+  }
+
+  /**
+   * Retrieves one page of events matching the query, newest first
+   * @param query Filters, page size and the cursor of the previous page
+   */
+  async findEvents(query: AuditEventQuery): Promise<PaginatedResult<AuditEvent>> {
+    const where: Prisma.AuditEventWhereInput = {
+      ...(query.type && { type: query.type }),
+      ...(query.actorId && { actorId: query.actorId }),
+      ...(query.subjectId && { subjectId: query.subjectId }),
+      ...((query.from || query.to) && { createdAt: { gte: query.from, lte: query.to } })
+    };
+
+    const position = query.cursor ? decodeCursor(query.cursor) : null;
+    if (query.cursor && !position) {
+      throw new Error('Invalid pagination cursor');
+    }
+
+    // One extra row tells whether another page follows
+    const [rows, totalItems] = await this.prisma.$transaction([
+      this.prisma.auditEvent.findMany({
+        where: position ? { AND: [where, after(position)] } : where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: query.limit + 1
+      }),
+      this.prisma.auditEvent.count({ where })
+    ]);
+
+    const offset = position
+      ? await this.prisma.auditEvent.count({
+        where: { AND: [where, { NOT: after(position) }] }
+      })
+      : 0;
+
+    const items = rows.slice(0, query.limit);
+    const last = items[items.length - 1];
+    const nextCursor = rows.length > query.limit && last
+      ? encodeCursor({ createdAt: last.createdAt, id: last.id })
+      : null;
+
+    return {
+      items: items.map(toAuditEvent),
+      pagination: buildPagination(offset, query.limit, totalItems, nextCursor)
+    };
+  }
+
+  /**
+   * Retrieves consecutive events in chain order
+   * @param fromSequence First sequence to return
+   * @param limit Maximum number of events
+   */
+  async findChain(fromSequence: number, limit: number): Promise<AuditEvent[]> {
+    const rows = await this.prisma.auditEvent.findMany({
+      where: { sequence: { gte: fromSequence } },
+      orderBy: { sequence: 'asc' },
+      take: limit
+    });
+
+    return rows.map(toAuditEvent);
+  }
+
+  private async appendWithin(
+    tx: Prisma.TransactionClient,
+    input: AuditEventInput
+  ): Promise<AuditEvent> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`;
+
+    const latest = await tx.auditEvent.findFirst({
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true }
+    });
+
+    const previousHash = latest?.hash ?? AUDIT_GENESIS_HASH;
+    const event = {
+      ...input,
+      sequence: Number(latest?.sequence ?? 0) + 1,
+      createdAt: Date.now()
+    };
+    const hash = chainHash(previousHash, hashedContent(event));
+
+    const row = await tx.auditEvent.create({
+      data: {
+        sequence: event.sequence,
+        type: event.type,
+        actorId: event.actorId,
+        subjectType: event.subjectType,
+        subjectId: event.subjectId,
+        details: event.details as Prisma.InputJsonValue,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        previousHash,
+        hash,
+        createdAt: new Date(event.createdAt)
+      }
+    });
+
+    return toAuditEvent(row);
+  }
+}
@@ -1,5 +1,20 @@
 import { PrismaClient, Conversation, Message, Prisma } from '@prisma/client'; // v5.0.0
 import { prisma } from '../../config/database.config';
+import {
+  ConversationContext,
+  ConversationListFilters,
+  ConversationListQuery
+} from '../../interfaces/conversation.interface';
+import { AuditEventType } from '../../interfaces/audit.interface';
+import { AuditRepository } from './audit.repository';
+import { PaginatedResult, UUID } from '../../types/common.types';
+import {
+  CursorPosition,
+  buildPagination,
+  decodeCursor,
+  encodeCursor
+} from '../../utils/pagination.utils';
+import { logger } from '../../utils/logger.utils';
 
 /**
  * Result type for repository operations
@@ -10,6 +25,40 @@ type Result<T> = {
   error?: Error;
 };
 
+/**
+ * Conversations ordered after a cursor position, newest first
+ */
+const after = (position: CursorPosition): Prisma.ConversationWhereInput => ({
+  OR: [
+    { createdAt: { lt: position.createdAt } },
+    { createdAt: position.createdAt, id: { lt: position.id } }
+  ]
+});
+
+/**
+ * Conversations matching the status and creation date filters of a listing
+ */
+const matching = (filters: ConversationListFilters): Prisma.ConversationWhereInput => ({
+  ...(filters.status && { status: filters.status }),
+  ...((filters.from || filters.to) && { createdAt: { gte: filters.from, lte: filters.to } })
+});
+
+/**
+ * Conversations of a user within their tenant
+ * The tenant is checked against the session owner's current organization, so a
+ * token issued before the user left an organization no longer reaches its data
+ */
+const ownedBy = (
+  userId: string,
+  organizationId: string | null
+): Prisma.ConversationWhereInput => ({
+  context: {
+    path: ['userId'],
+    equals: userId
+  },
+  session: { user: { organizationId } }
+});
+
 /**
  * Repository class for managing conversation data persistence with support for 
  * transactions, audit logging, and row-level security
@@ -17,7 +66,7 @@ type Result<T> = {
 export class ConversationRepository {
   private prisma: PrismaClient;
 
-  constructor() {
+  constructor(private readonly auditRepository: AuditRepository = new AuditRepository()) {
     this.prisma = prisma;
   }
 
@@ -25,11 +74,13 @@ export class ConversationRepository {
    * Creates a new conversation with audit logging and security checks
    * @param data Conversation creation data
    * @param userId User ID for security context
+   * @param organizationId Tenant of the user, null for users without one
    * @returns Promise resolving to Result containing created conversation
    */
   async create(
     data: Omit<Conversation, 'id' | 'createdAt' | 'updatedAt'>,
-    userId: string
+    userId: string,
+    organizationId: string | null
   ): Promise<Result<Conversation>> {
     try {
       const conversation = await this.prisma.$transaction(async (tx) => {
@@ -39,7 +90,8 @@ export class ConversationRepository {
             ...data,
             context: {
               ...data.context,
-              userId // Embed user context for row-level security
+              userId, // Embed user context for row-level security
+              organizationId
             }
           }
         });
@@ -69,17 +121,19 @@ export class ConversationRepository {
    * Retrieves a conversation by ID with security checks
    * @param id Conversation ID
    * @param userId User ID for security context
+   * @param organizationId Tenant of the user, null for users without one
    * @returns Promise resolving to Result containing found conversation
    */
-  async findById(id: string, userId: string): Promise<Result<Conversation & { messages: Message[] }>> {
+  async findById(
+    id: string,
+    userId: string,
+    organizationId: string | null
+  ): Promise<Result<Conversation & { messages: Message[] }>> {
     try {
       const conversation = await this.prisma.conversation.findFirst({
         where: {
           id,
-          context: {
-            path: ['userId'],
-            equals: userId
-          }
+          ...ownedBy(userId, organizationId)
         },
         include: {
           messages: {
@@ -104,24 +158,89 @@ export class ConversationRepository {
     }
   }
 
+  /**
+   * Retrieves the dialog context of a conversation with security checks
+   * Conversations that have not completed a turn yet hold a partial context
+   * @param id Conversation ID
+   * @param userId User ID for security context
+   * @param organizationId Tenant of the user, null for users without one
+   * @returns Promise resolving to Result containing the conversation context
+   */
+  async findContext(
+    id: string,
+    userId: string,
+    organizationId: string | null
+  ): Promise<Result<Partial<ConversationContext>>> {
+    try {
+      const conversation = await this.prisma.conversation.findFirst({
+        where: {
+          id,
+          ...ownedBy(userId, organizationId)
+        },
+        select: { context: true }
+      });
+
+      if (!conversation) {
+        return {
+          success: false,
+          error: new Error('Conversation not found or access denied')
+        };
+      }
+
+      return { success: true, data: conversation.context as Partial<ConversationContext> };
+    } catch (error) {
+      logger.error('Conversation context retrieval failed', { error, conversationId: id });
+      return { success: false, error: error as Error };
+    }
+  }
+
+  /**
+   * Retrieves a conversation and its messages regardless of owner
+   * Bypasses row-level security; callers must restrict it to administrators
+   * @param id Conversation ID
+   * @returns Promise resolving to Result containing the conversation transcript
+   */
+  async findTranscript(id: string): Promise<Result<Conversation & { messages: Message[] }>> {
+    try {
+      const conversation = await this.prisma.conversation.findUnique({
+        where: { id },
+        include: {
+          messages: {
+            orderBy: {
+              createdAt: 'asc'
+            }
+          }
+        }
+      });
+
+      if (!conversation) {
+        return { success: false, error: new Error('Conversation not found') };
+      }
+
+      return { success: true, data: conversation };
+    } catch (error) {
+      logger.error('Conversation transcript retrieval failed', { error, conversationId: id });
+      return { success: false, error: error as Error };
+    }
+  }
+
   /**
    * Finds conversations by session ID with security checks
    * @param sessionId Session ID to search for
    * @param userId User ID for security context
+   * @param organizationId Tenant of the user, null for users without one
    * @returns Promise resolving to Result containing found conversations
    */
   async findBySessionId(
     sessionId: string,
-    userId: string
+    userId: string,
+    organizationId: string | null
   ): Promise<Result<Conversation[]>> {
     try {
       const conversations = await this.prisma.conversation.findMany({
         where: {
           sessionId,
-          context: {
-            path: ['userId'],
-            equals: userId
-          }
+          ...ownedBy(userId, organizationId)
         },
         orderBy: {
           createdAt: 'desc'
@@ -135,17 +254,80 @@ export class ConversationRepository {
     }
   }
 
+  /**
+   * Lists a user's conversations newest first with keyset pagination
+   * @param userId User ID for security context
+   * @param organizationId Tenant of the user, null for users without one
+   * @param query Filters, page size and the cursor of the previous page
+   * @returns Promise resolving to Result containing one page of conversations
+   */
+  async findByUser(
+    userId: string,
+    organizationId: string | null,
+    query: ConversationListQuery
+  ): Promise<Result<PaginatedResult<Conversation>>> {
+    try {
+      const where: Prisma.ConversationWhereInput = {
+        ...ownedBy(userId, organizationId),
+        ...matching(query)
+      };
+
+      const position = query.cursor ? decodeCursor(query.cursor) : null;
+      if (query.cursor && !position) {
+        throw new Error('Invalid pagination cursor');
+      }
+
+      // One extra row tells whether another page follows
+      const [rows, totalItems] = await this.prisma.$transaction([
+        this.prisma.conversation.findMany({
+          where: position ? { AND: [where, after(position)] } : where,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: query.limit + 1
+        }),
+        this.prisma.conversation.count({ where })
+      ]);
+
+      // Conversations at or before the cursor make up the previous pages
+      const offset = position
+        ? await this.prisma.conversation.count({
+          where: { AND: [where, { NOT: after(position) }] }
+        })
+        : 0;
+
+      const items = rows.slice(0, query.limit);
+      const last = items[items.length - 1];
+      const nextCursor = rows.length > query.limit && last
+        ? encodeCursor({ createdAt: last.createdAt, id: last.id })
+        : null;
+
+      return {
+        success: true,
+        data: {
+          items,
+          pagination: buildPagination(offset, query.limit, totalItems, nextCursor)
+        }
+      };
+    } catch (error) {
+      logger.error('User conversations retrieval failed', { error, userId });
+      return { success: false, error: error as Error };
+    }
+  }
+
   /**
    * Updates a conversation with audit logging and security checks
    * @param id Conversation ID
    * @param data Update data
    * @param userId User ID for security context
+   * @param organizationId Tenant of the user, null for users without one
    * @returns Promise resolving to Result containing updated conversation
    */
   async update(
     id: string,
-    data: Partial<Omit<Conversation, 'id' | 'createdAt' | 'updatedAt'>>,
-    userId: string
+    data: Partial<Omit<Conversation, 'id' | 'createdAt' | 'updatedAt' | 'context'>> & {
+      context?: ConversationContext;
+    },
+    userId: string,
+    organizationId: string | null
   ): Promise<Result<Conversation>> {
     try {
       const conversation = await this.prisma.$transaction(async (tx) => {
@@ -153,10 +335,7 @@ export class ConversationRepository {
         const existing = await tx.conversation.findFirst({
           where: {
             id,
-            context: {
-              path: ['userId'],
-              equals: userId
-            }
+            ...ownedBy(userId, organizationId)
           }
         });
 
@@ -169,6 +348,8 @@ export class ConversationRepository {
           where: { id },
           data: {
             ...data,
+            // Keep the user context used for row-level security
+            ...(data.context && { context: { ...data.context, userId, organizationId } }),
             updatedAt: new Date()
           }
         });
@@ -199,19 +380,21 @@ export class ConversationRepository {
    * Deletes a conversation with audit logging and security checks
    * @param id Conversation ID
    * @param userId User ID for security context
+   * @param organizationId Tenant of the user, null for users without one
    * @returns Promise resolving to Result indicating deletion success
    */
-  async delete(id: string, userId: string): Promise<Result<void>> {
+  async delete(
+    id: string,
+    userId: string,
+    organizationId: string | null
+  ): Promise<Result<void>> {
     try {
       await this.prisma.$transaction(async (tx) => {
         // Verify access rights
         const existing = await tx.conversation.findFirst({
           where: {
             id,
-            context: {
-              path: ['userId'],
-              equals: userId
-            }
+            ...ownedBy(userId, organizationId)
           }
         });
 
@@ -220,7 +403,7 @@ export class ConversationRepository {
         }
 
         // Delete conversation and related messages
-        await tx.message.deleteMany({
+        const deletedMessages = await tx.message.deleteMany({
           where: { conversationId: id }
         });
 
@@ -228,16 +411,14 @@ export class ConversationRepository {
           where: { id }
         });
 
-        // Create audit log entry
-        await tx.auditLog.create({
-          data: {
-            entityType: 'conversation',
-            entityId: id,
-            action: 'DELETE',
-            userId,
-            timestamp: new Date()
-          }
-        });
+        // Append to the audit chain; the event is rolled back with the deletion
+        await this.auditRepository.append({
+          type: AuditEventType.CONVERSATION_DELETED,
+          actorId: userId as UUID,
+          subjectType: 'conversation',
+          subjectId: id,
+          details: { deletedMessages: deletedMessages.count }
+        }, tx);
       });
 
       return { success: true };
@@ -2,7 +2,16 @@ import { PrismaClient } from '@prisma/client'; // v5.0.0
 import winston from 'winston'; // v3.10.0
 import { prisma } from '../../config/database.config';
 import { Message, MessageCreateParams, MessageRole } from '../../interfaces/message.interface';
-import { Result, UUID } from '../../types/common.types';
+import { Result, Timestamp, UUID } from '../../types/common.types';
+
+/**
+ * Storage location of the audio recorded for a message
+ */
+export interface MessageRecording {
+  messageId: UUID;
+  audioRecordingId: UUID;
+  storagePath: string;
+}
 
 /**
  * Repository class for managing message data persistence with comprehensive security and error handling
@@ -181,6 +190,61 @@ export class MessageRepository {
     }
   }
 
+  /**
+   * Retrieves the audio recordings attached to a conversation's messages
+   * @param conversationId Conversation identifier
+   * @returns Promise resolving to Result containing recording storage locations in message order
+   */
+  async findAudioRecordings(
+    conversationId: UUID
+  ): Promise<Result<MessageRecording[]>> {
+    try {
+      const messages = await prisma.message.findMany({
+        where: {
+          conversationId,
+          audioRecordingId: { not: null }
+        },
+        select: {
+          id: true,
+          audioRecording: {
+            select: { id: true, storagePath: true }
+          }
+        },
+        orderBy: {
+          createdAt: 'asc'
+        }
+      });
+
+      const recordings = messages
+        .filter((message) => message.audioRecording)
+        .map((message) => ({
+          messageId: message.id as UUID,
+          audioRecordingId: message.audioRecording!.id as UUID,
+          storagePath: message.audioRecording!.storagePath
+        }));
+
+      return {
+        success: true,
+        data: recordings,
+        error: null,
+        metadata: {}
+      };
+    } catch (error) {
+      this.logger.error('Error retrieving audio recordings', { error, conversationId });
+      return {
+        success: false,
+        data: null as unknown as MessageRecording[],
+        error: {
+          code: 'AUDIO_RECORDINGS_RETRIEVE_ERROR',
+          message: error instanceof Error ? error.message : String(error),
+          details: {},
+          timestamp: Date.now() as Timestamp
+        },
+        metadata: {}
+      };
+    }
+  }
+
   /**
    * Updates an existing message with transaction support
    * @param id Message identifier
@@ -0,0 +1,152 @@
+import { PrismaClient, Prisma } from '@prisma/client'; // v5.0.0
+import { prisma } from '../../config/database.config';
+import {
+  Organization,
+  OrganizationCreateParams,
+  OrganizationMember,
+  OrganizationRole,
+  OrganizationSettings
+} from '../../interfaces/organization.interface';
+import { UUID } from '../../types/common.types';
+
+/**
+ * Settings of an organization created without any
+ */
+export const DEFAULT_ORGANIZATION_SETTINGS: OrganizationSettings = {
+  voiceDefaults: {},
+  allowedLanguages: [],
+  retention: null,
+  quotas: {}
+};
+
+type OrganizationRow = Prisma.OrganizationGetPayload<Record<string, never>>;
+
+const toOrganization = (row: OrganizationRow): Organization => ({
+  id: row.id as UUID,
+  name: row.name,
+  slug: row.slug,
+  settings: {
+    ...DEFAULT_ORGANIZATION_SETTINGS,
+    ...(row.settings as Partial<OrganizationSettings>)
+  },
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt
+});
+
+const memberSelect = { id: true, email: true, organizationRole: true } as const;
+
+const toMember = (row: { id: string; email: string; organizationRole: string | null }) => ({
+  userId: row.id as UUID,
+  email: row.email,
+  role: row.organizationRole as OrganizationRole
+});
+
+/**
+ * Repository for organizations and their membership
+ * Membership is stored on the user, so a user belongs to at most one organization
+ */
+export class OrganizationRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Creates an organization
+   * @throws Prisma P2002 when the slug is taken
+   */
+  async create(params: OrganizationCreateParams): Promise<Organization> {
+    const row = await this.prisma.organization.create({
+      data: {
+        name: params.name,
+        slug: params.slug,
+        settings: { ...DEFAULT_ORGANIZATION_SETTINGS, ...params.settings } as Prisma.InputJsonObject
+      }
+    });
+    return toOrganization(row);
+  }
+
+  /**
+   * Retrieves an organization, or null when it does not exist
+   */
+  async findById(id: string): Promise<Organization | null> {
+    const row = await this.prisma.organization.findUnique({ where: { id } });
+    return row ? toOrganization(row) : null;
+  }
+
+  /**
+   * Retrieves every organization that overrides the retention policies
+   */
+  async findWithRetention(): Promise<Organization[]> {
+    const rows = await this.prisma.organization.findMany({
+      where: { settings: { path: ['retention'], not: Prisma.AnyNull } },
+      orderBy: { createdAt: 'asc' }
+    });
+    return rows.map(toOrganization).filter((organization) => organization.settings.retention);
+  }
+
+  /**
+   * Replaces the settings of an organization
+   * @returns Updated organization, or null when it does not exist
+   */
+  async updateSettings(id: string, settings: OrganizationSettings): Promise<Organization | null> {
+    const result = await this.prisma.organization.updateMany({
+      where: { id },
+      data: { settings: settings as unknown as Prisma.InputJsonObject }
+    });
+    return result.count === 0 ? null : this.findById(id);
+  }
+
+  /**
+   * Lists the members of an organization by role, then email
+   */
+  async findMembers(id: string): Promise<OrganizationMember[]> {
+    const rows = await this.prisma.user.findMany({
+      where: { organizationId: id },
+      select: memberSelect,
+      orderBy: [{ organizationRole: 'asc' }, { email: 'asc' }]
+    });
+    return rows.map(toMember);
+  }
+
+  /**
+   * Counts the members of an organization
+   */
+  async countMembers(id: string): Promise<number> {
+    return this.prisma.user.count({ where: { organizationId: id } });
+  }
+
+  /**
+   * Makes a user without an organization a member
+   * @returns New member, or null when the user does not exist or already has an organization
+   */
+  async addMember(
+    id: string,
+    userId: string,
+    role: OrganizationRole
+  ): Promise<OrganizationMember | null> {
+    const result = await this.prisma.user.updateMany({
+      where: { id: userId, organizationId: null },
+      data: { organizationId: id, organizationRole: role }
+    });
+    if (result.count === 0) {
+      return null;
+    }
+
+    const row = await this.prisma.user.findUnique({ where: { id: userId }, select: memberSelect });
+    return row ? toMember(row) : null;
+  }
+
+  /**
+   * Removes a member from an organization
+   * @returns Whether the user was a member
+   */
+  async removeMember(id: string, userId: string): Promise<boolean> {
+    const result = await this.prisma.user.updateMany({
+      where: { id: userId, organizationId: id },
+      data: { organizationId: null, organizationRole: null }
+    });
+    return result.count > 0;
+  }
+}
@@ -0,0 +1,192 @@
+import { PrismaClient, Prisma } from '@prisma/client'; // v5.0.0
+import { prisma } from '../../config/database.config';
+import { RetentionScope, RetentionTarget } from '../../interfaces/retention.interface';
+
+/**
+ * Content stored in place of a redacted message
+ */
+export const REDACTED_CONTENT = '[REDACTED]';
+
+/**
+ * Users matching a policy scope
+ */
+const scopeWhere = (scope: RetentionScope): Prisma.UserWhereInput => ({
+  ...(scope.role && { role: scope.role }),
+  ...(scope.organizationId && { organizationId: scope.organizationId })
+});
+
+/**
+ * Users a policy run acts on
+ */
+const targetWhere = (target: RetentionTarget): Prisma.UserWhereInput => ({
+  AND: [
+    scopeWhere(target.include),
+    ...target.exclude.map((scope) => ({ NOT: scopeWhere(scope) }))
+  ]
+});
+
+/**
+ * Recordings created before the cutoff
+ */
+const expiredRecordings = (
+  target: RetentionTarget,
+  cutoff: Date
+): Prisma.AudioRecordingWhereInput => ({
+  createdAt: { lt: cutoff },
+  session: { user: targetWhere(target) }
+});
+
+/**
+ * Conversations last active before the cutoff
+ */
+const expiredConversations = (
+  target: RetentionTarget,
+  cutoff: Date
+): Prisma.ConversationWhereInput => ({
+  updatedAt: { lt: cutoff },
+  session: { user: targetWhere(target) }
+});
+
+/**
+ * Unredacted messages created before the redaction cutoff in conversations
+ * that are kept past the transcript cutoff
+ */
+const unredactedMessages = (
+  target: RetentionTarget,
+  redactCutoff: Date,
+  transcriptCutoff: Date
+): Prisma.MessageWhereInput => ({
+  createdAt: { lt: redactCutoff },
+  content: { not: REDACTED_CONTENT },
+  conversation: {
+    updatedAt: { gte: transcriptCutoff },
+    session: { user: targetWhere(target) }
+  }
+});
+
+/**
+ * Repository selecting and removing personal data past its retention period
+ * Every mutation handles at most one batch so locks stay short
+ */
+export class RetentionRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Retrieves the oldest recordings created before the cutoff
+   * @param target Users whose recordings are selected
+   * @param cutoff Creation time recordings must precede
+   * @param limit Maximum number of recordings
+   */
+  async findExpiredRecordings(
+    target: RetentionTarget,
+    cutoff: Date,
+    limit: number
+  ): Promise<Array<{ id: string; storagePath: string }>> {
+    return this.prisma.audioRecording.findMany({
+      where: expiredRecordings(target, cutoff),
+      select: { id: true, storagePath: true },
+      orderBy: { createdAt: 'asc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Counts recordings created before the cutoff
+   */
+  async countExpiredRecordings(target: RetentionTarget, cutoff: Date): Promise<number> {
+    return this.prisma.audioRecording.count({ where: expiredRecordings(target, cutoff) });
+  }
+
+  /**
+   * Detaches recordings from their messages so the recordings can be removed
+   * @param ids Recording identifiers
+   * @returns Number of messages updated
+   */
+  async detachRecordings(ids: string[]): Promise<number> {
+    const result = await this.prisma.message.updateMany({
+      where: { audioRecordingId: { in: ids } },
+      data: { audioRecordingId: null }
+    });
+    return result.count;
+  }
+
+  /**
+   * Deletes one batch of conversations last active before the cutoff with their messages
+   * @returns Number of conversations and messages deleted
+   */
+  async deleteExpiredTranscripts(
+    target: RetentionTarget,
+    cutoff: Date,
+    limit: number
+  ): Promise<{ conversations: number; messages: number }> {
+    return this.prisma.$transaction(async (tx) => {
+      const conversations = await tx.conversation.findMany({
+        where: expiredConversations(target, cutoff),
+        select: { id: true },
+        orderBy: { updatedAt: 'asc' },
+        take: limit
+      });
+      const ids = conversations.map((conversation) => conversation.id);
+
+      const messages = await tx.message.deleteMany({ where: { conversationId: { in: ids } } });
+      const deleted = await tx.conversation.deleteMany({ where: { id: { in: ids } } });
+
+      return { conversations: deleted.count, messages: messages.count };
+    });
+  }
+
+  /**
+   * Counts conversations last active before the cutoff and their messages
+   */
+  async countExpiredTranscripts(
+    target: RetentionTarget,
+    cutoff: Date
+  ): Promise<{ conversations: number; messages: number }> {
+    const where = expiredConversations(target, cutoff);
+    const [conversations, messages] = await this.prisma.$transaction([
+      this.prisma.conversation.count({ where }),
+      this.prisma.message.count({ where: { conversation: where } })
+    ]);
+    return { conversations, messages };
+  }
+
+  /**
+   * Replaces the content of one batch of messages created before the redaction cutoff
+   * @returns Number of messages redacted
+   */
+  async redactMessages(
+    target: RetentionTarget,
+    redactCutoff: Date,
+    transcriptCutoff: Date,
+    limit: number
+  ): Promise<number> {
+    const messages = await this.prisma.message.findMany({
+      where: unredactedMessages(target, redactCutoff, transcriptCutoff),
+      select: { id: true },
+      take: limit
+    });
+
+    const result = await this.prisma.message.updateMany({
+      where: { id: { in: messages.map((message) => message.id) } },
+      data: { content: REDACTED_CONTENT }
+    });
+    return result.count;
+  }
+
+  /**
+   * Counts messages that are due for redaction
+   */
+  async countUnredactedMessages(
+    target: RetentionTarget,
+    redactCutoff: Date,
+    transcriptCutoff: Date
+  ): Promise<number> {
+    return this.prisma.message.count({
+      where: unredactedMessages(target, redactCutoff, transcriptCutoff)
+    });
+  }
+}
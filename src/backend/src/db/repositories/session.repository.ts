@@ -73,7 +73,8 @@ export class SessionRepository {
 
       const sessionId = uuidv4() as UUID;
       const now = Date.now();
-      const expiryTime = now + (this.sessionExpiry * 1000);
+      const lifetime = metadata.lifetime ?? this.sessionExpiry;
+      const expiryTime = now + (lifetime * 1000);
 
       const sessionState: ISessionState = {
         id: sessionId,
@@ -104,7 +105,7 @@ export class SessionRepository {
         // Cache in Redis
         await this.redisClient.setex(
           `session:${sessionId}`,
-          this.sessionExpiry,
+          lifetime,
           JSON.stringify(sessionState)
         );
       });
@@ -157,7 +158,7 @@ export class SessionRepository {
       // Update cache
       await this.redisClient.setex(
         `session:${sessionId}`,
-        this.sessionExpiry,
+        sessionState.metadata?.lifetime ?? this.sessionExpiry,
         JSON.stringify(sessionState)
       );
 
@@ -184,10 +185,17 @@ export class SessionRepository {
 
       const now = Date.now();
       updates.lastActiveTime = now;
-      updates.expiryTime = now + (this.sessionExpiry * 1000);
 
       // Update in transaction
       const updatedSession = await prisma.$transaction(async (tx) => {
+        // Extend by the lifetime the session was created with
+        const existing = await tx.session.findUnique({
+          where: { id: sessionId },
+          select: { metadata: true }
+        });
+        const metadata = existing?.metadata as ISessionMetadata | undefined;
+        updates.expiryTime = now + ((metadata?.lifetime ?? this.sessionExpiry) * 1000);
+
         const session = await tx.session.update({
           where: { id: sessionId },
           data: {
@@ -214,7 +222,7 @@ export class SessionRepository {
       // Update cache
       await this.redisClient.setex(
         `session:${sessionId}`,
-        this.sessionExpiry,
+        sessionState.metadata?.lifetime ?? this.sessionExpiry,
         JSON.stringify(sessionState)
       );
 
@@ -226,6 +234,68 @@ export class SessionRepository {
     }
   }
 
+  /**
+   * Lists a user's sessions that have neither ended nor expired, most recent first
+   * @param userId - Owner of the sessions
+   * @returns Promise resolving to the active session states
+   */
+  async findActiveSessions(userId: UUID): Promise<ISessionState[]> {
+    try {
+      const sessions = await prisma.session.findMany({
+        where: {
+          userId,
+          status: { not: SessionStatus.EXPIRED },
+          expiryTime: { gt: new Date() }
+        },
+        orderBy: { lastActiveTime: 'desc' }
+      });
+
+      return sessions.map((session) => ({
+        id: session.id as UUID,
+        userId: session.userId as UUID,
+        status: session.status as SessionStatus,
+        startTime: session.startTime.getTime(),
+        lastActiveTime: session.lastActiveTime.getTime(),
+        expiryTime: session.expiryTime.getTime(),
+        metadata: session.metadata as ISessionMetadata,
+        wsConnectionId: session.wsConnectionId
+      }));
+
+    } catch (error) {
+      this.logger.error('Active session lookup failed', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists every session of a user regardless of status, oldest first
+   * @param userId - Owner of the sessions
+   * @returns Promise resolving to the session states
+   */
+  async findSessionsByUser(userId: UUID): Promise<ISessionState[]> {
+    try {
+      const sessions = await prisma.session.findMany({
+        where: { userId },
+        orderBy: { startTime: 'asc' }
+      });
+
+      return sessions.map((session) => ({
+        id: session.id as UUID,
+        userId: session.userId as UUID,
+        status: session.status as SessionStatus,
+        startTime: session.startTime.getTime(),
+        lastActiveTime: session.lastActiveTime.getTime(),
+        expiryTime: session.expiryTime.getTime(),
+        metadata: session.metadata as ISessionMetadata,
+        wsConnectionId: session.wsConnectionId
+      }));
+
+    } catch (error) {
+      this.logger.error('User session lookup failed', { error, userId });
+      throw error;
+    }
+  }
+
   /**
    * Deletes session and cleans up cache
    * @param sessionId - Session ID to delete
@@ -0,0 +1,163 @@
+import Redis from 'ioredis'; // v5.3.2
+import { redisConfig } from '../../config/redis.config';
+import { UUID } from '../../types/common.types';
+
+// Redis key prefix for token revocation state
+const TOKEN_KEY_PREFIX = 'auth:';
+
+/**
+ * Outcome of presenting a refresh token for rotation
+ */
+export enum RefreshRotation {
+  /** Token was the family's current token and has been replaced */
+  ROTATED = 'ROTATED',
+  /** Token was already rotated; it is being replayed */
+  REUSED = 'REUSED',
+  /** Family was revoked or has expired */
+  REVOKED = 'REVOKED'
+}
+
+/**
+ * Swaps the family's current refresh token only if the presented token is current
+ * The owner's family set is renewed with it, so it outlives every family it lists
+ * Returns 1 when rotated, 0 when the presented token is stale, -1 when the family is gone
+ */
+const ROTATE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then return -1 end
+if current ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+redis.call('SADD', KEYS[2], ARGV[4])
+redis.call('EXPIRE', KEYS[2], ARGV[3])
+return 1
+`;
+
+const revokedKey = (tokenId: string): string => `revoked:${tokenId}`;
+const familyKey = (familyId: string): string => `family:${familyId}`;
+const userFamiliesKey = (userId: string): string => `user:${userId}:families`;
+
+/**
+ * Repository for token revocation and refresh-token families shared by all instances
+ * Entries expire together with the tokens they describe
+ */
+export class TokenRepository {
+  private readonly redisClient: Redis;
+
+  constructor() {
+    this.redisClient = new Redis({
+      host: redisConfig.host,
+      port: redisConfig.port,
+      password: redisConfig.password,
+      keyPrefix: TOKEN_KEY_PREFIX,
+      retryStrategy: redisConfig.retryStrategy,
+      tls: redisConfig.tls,
+      lazyConnect: true
+    });
+
+    redisConfig.connectionListener(this.redisClient);
+  }
+
+  /**
+   * Revokes a single token until it would have expired anyway
+   * @param tokenId Token identifier (jti)
+   * @param expiresAt Token expiry as a Unix timestamp in seconds
+   */
+  async revokeToken(tokenId: string, expiresAt: number): Promise<void> {
+    const ttl = expiresAt - Math.floor(Date.now() / 1000);
+    if (ttl > 0) {
+      await this.redisClient.set(revokedKey(tokenId), '1', 'EX', ttl);
+    }
+  }
+
+  /**
+   * Checks whether a token has been revoked
+   * @param tokenId Token identifier (jti)
+   */
+  async isTokenRevoked(tokenId: string): Promise<boolean> {
+    return (await this.redisClient.exists(revokedKey(tokenId))) === 1;
+  }
+
+  /**
+   * Starts a refresh-token family issued at login
+   * @param familyId Family identifier shared by every token rotated from the login
+   * @param userId Owner of the family
+   * @param tokenId Identifier of the family's first refresh token
+   * @param ttl Refresh token lifetime in seconds
+   */
+  async createFamily(familyId: UUID, userId: UUID, tokenId: string, ttl: number): Promise<void> {
+    await this.redisClient
+      .multi()
+      .set(familyKey(familyId), tokenId, 'EX', ttl)
+      .sadd(userFamiliesKey(userId), familyId)
+      .expire(userFamiliesKey(userId), ttl)
+      .exec();
+  }
+
+  /**
+   * Replaces the family's current refresh token
+   * @param familyId Family of the presented token
+   * @param userId Owner of the family
+   * @param tokenId Identifier of the presented refresh token
+   * @param nextTokenId Identifier of the refresh token replacing it
+   * @param ttl Lifetime of the replacement token in seconds
+   */
+  async rotateFamily(
+    familyId: UUID,
+    userId: UUID,
+    tokenId: string,
+    nextTokenId: string,
+    ttl: number
+  ): Promise<RefreshRotation> {
+    const result = await this.redisClient.eval(
+      ROTATE_SCRIPT,
+      2,
+      familyKey(familyId),
+      userFamiliesKey(userId),
+      tokenId,
+      nextTokenId,
+      ttl,
+      familyId
+    );
+
+    if (result === 1) {
+      return RefreshRotation.ROTATED;
+    }
+    return result === 0 ? RefreshRotation.REUSED : RefreshRotation.REVOKED;
+  }
+
+  /**
+   * Checks whether a refresh-token family is still valid
+   * @param familyId Family identifier
+   */
+  async isFamilyActive(familyId: UUID): Promise<boolean> {
+    return (await this.redisClient.exists(familyKey(familyId))) === 1;
+  }
+
+  /**
+   * Revokes a refresh-token family, ending the login it was issued for
+   * @param familyId Family identifier
+   */
+  async revokeFamily(familyId: UUID): Promise<void> {
+    await this.redisClient.del(familyKey(familyId));
+  }
+
+  /**
+   * Revokes every refresh-token family of a user
+   * @param userId User identifier
+   * @returns Number of families revoked
+   */
+  async revokeUserFamilies(userId: UUID): Promise<number> {
+    const familyIds = await this.redisClient.smembers(userFamiliesKey(userId));
+    if (familyIds.length === 0) {
+      return 0;
+    }
+
+    const results = await this.redisClient
+      .multi()
+      .del(...familyIds.map(familyKey))
+      .del(userFamiliesKey(userId))
+      .exec();
+
+    return Number(results?.[0]?.[1] ?? 0);
+  }
+}
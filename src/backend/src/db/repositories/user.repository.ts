@@ -4,14 +4,26 @@
  * @version 1.0.0
  */
 
-import { PrismaClientKnownRequestError } from '@prisma/client';
-import { IUser, IUserCreateParams, IUserUpdateParams } from '../../interfaces/user.interface';
-import { Result } from '../../types/common.types';
+import { Prisma, PrismaClientKnownRequestError } from '@prisma/client';
+import {
+  IUser,
+  IUserCreateParams,
+  IUserUpdateParams,
+  UserDeletion,
+  UserSearchQuery
+} from '../../interfaces/user.interface';
+import { PaginatedResult, Result, UUID } from '../../types/common.types';
 import { createError } from '../../utils/error.utils';
 import { prisma } from '../../config/database.config';
 import { validateEmail, validateUUID } from '../../utils/validation.utils';
 import { logger } from '../../utils/logger.utils';
 import { ERROR_CODES } from '../../constants/error.constants';
+import {
+  CursorPosition,
+  buildPagination,
+  decodeCursor,
+  encodeCursor
+} from '../../utils/pagination.utils';
 
 export class UserRepository {
   private readonly prismaClient: typeof prisma;
@@ -232,6 +244,82 @@ export class UserRepository {
     }
   }
 
+  /**
+   * Searches users by email fragment and status, newest first
+   * @param query Filters, page size and the cursor of the previous page
+   * @returns Result containing one page of users or error details
+   */
+  async searchUsers(query: UserSearchQuery): Promise<Result<PaginatedResult<IUser>>> {
+    try {
+      const position = query.cursor ? decodeCursor(query.cursor) : null;
+      if (query.cursor && !position) {
+        return {
+          success: false,
+          error: createError(ERROR_CODES.VALIDATION_ERROR, {
+            field: 'cursor',
+            message: 'Invalid pagination cursor',
+            value: query.cursor
+          }),
+          data: null as unknown as PaginatedResult<IUser>,
+          metadata: {}
+        };
+      }
+
+      const where: Prisma.UserWhereInput = {
+        ...(query.email && { email: { contains: query.email, mode: 'insensitive' } }),
+        ...(query.status && { status: query.status })
+      };
+      const after = (cursor: CursorPosition): Prisma.UserWhereInput => ({
+        OR: [
+          { createdAt: { lt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, id: { lt: cursor.id } }
+        ]
+      });
+
+      // One extra row tells whether another page follows
+      const [rows, totalItems] = await this.prismaClient.$transaction([
+        this.prismaClient.user.findMany({
+          where: position ? { AND: [where, after(position)] } : where,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: query.limit + 1
+        }),
+        this.prismaClient.user.count({ where })
+      ]);
+
+      const offset = position
+        ? await this.prismaClient.user.count({
+          where: { AND: [where, { NOT: after(position) }] }
+        })
+        : 0;
+
+      const items = rows.slice(0, query.limit);
+      const last = items[items.length - 1];
+      const nextCursor = rows.length > query.limit && last
+        ? encodeCursor({ createdAt: last.createdAt, id: last.id })
+        : null;
+
+      return {
+        success: true,
+        data: {
+          items: items as IUser[],
+          pagination: buildPagination(offset, query.limit, totalItems, nextCursor)
+        },
+        error: null,
+        metadata: {}
+      };
+    } catch (error) {
+      logger.error('Error searching users', { error, query });
+      return {
+        success: false,
+        error: createError(ERROR_CODES.SYSTEM_ERROR, {
+          originalError: error instanceof Error ? error.message : 'Unknown error'
+        }),
+        data: null as unknown as PaginatedResult<IUser>,
+        metadata: {}
+      };
+    }
+  }
+
   /**
    * Updates user information with validation
    * @param id User UUID
@@ -358,11 +446,13 @@ export class UserRepository {
   }
 
   /**
-   * Deletes a user with validation
+   * Deletes a user together with their sessions, conversations, messages and
+   * audio recording records in one transaction
+   * Stored audio files and cached entries are left to the caller
    * @param id User UUID
-   * @returns Result indicating success or error details
+   * @returns Result describing the removed records or error details
    */
-  async deleteUser(id: string): Promise<Result<void>> {
+  async deleteUser(id: string): Promise<Result<UserDeletion>> {
     try {
       // Validate UUID format
       const uuidValidation = validateUUID(id);
@@ -374,7 +464,7 @@ export class UserRepository {
             message: 'Invalid UUID format',
             value: id
           }),
-          data: null as unknown as void,
+          data: null as unknown as UserDeletion,
           metadata: {}
         };
       }
@@ -392,11 +482,48 @@ export class UserRepository {
               message: 'User not found',
               id
             }),
-            data: null as unknown as void,
+            data: null as unknown as UserDeletion,
             metadata: {}
           };
         }
 
+        // Collect the records owned by the user
+        const sessions = await tx.session.findMany({
+          where: { userId: id },
+          select: { id: true }
+        });
+        const sessionIds = sessions.map((session) => session.id);
+
+        const conversations = await tx.conversation.findMany({
+          where: {
+            OR: [
+              { sessionId: { in: sessionIds } },
+              { context: { path: ['userId'], equals: id } }
+            ]
+          },
+          select: { id: true }
+        });
+        const conversationIds = conversations.map((conversation) => conversation.id);
+
+        const recordings = await tx.audioRecording.findMany({
+          where: { sessionId: { in: sessionIds } },
+          select: { storagePath: true }
+        });
+
+        // Remove dependent records before the user
+        const messages = await tx.message.deleteMany({
+          where: { conversationId: { in: conversationIds } }
+        });
+        await tx.conversation.deleteMany({
+          where: { id: { in: conversationIds } }
+        });
+        await tx.audioRecording.deleteMany({
+          where: { sessionId: { in: sessionIds } }
+        });
+        await tx.session.deleteMany({
+          where: { userId: id }
+        });
+
         // Delete user with retry logic
         let retryCount = 0;
         while (retryCount < this.maxRetries) {
@@ -408,12 +535,18 @@ export class UserRepository {
 
             logger.info('User deleted successfully', {
               userId: id,
-              email: existingUser.email
+              sessions: sessionIds.length,
+              conversations: conversationIds.length
             });
 
             return {
               success: true,
-              data: undefined,
+              data: {
+                sessionIds: sessionIds as UUID[],
+                conversationIds: conversationIds as UUID[],
+                messages: messages.count,
+                recordingPaths: recordings.map((recording) => recording.storagePath)
+              },
               error: null,
               metadata: {}
             };
@@ -433,7 +566,7 @@ export class UserRepository {
         error: createError(ERROR_CODES.SYSTEM_ERROR, {
           originalError: error instanceof Error ? error.message : 'Unknown error'
         }),
-        data: null as unknown as void,
+        data: null as unknown as UserDeletion,
         metadata: {}
       };
     }
@@ -0,0 +1,101 @@
+/**
+ * API key interfaces for the AI Voice Agent
+ * Describes long-lived credentials that let backend jobs call the API on behalf of their owner
+ * @version 1.0.0
+ */
+
+import { Result, UUID } from '../types/common.types';
+import { Permission, UserRole } from '../constants/auth.constants';
+import { UserStatus } from './user.interface';
+import { OrganizationRole } from './organization.interface';
+
+/**
+ * Stored API key; the key itself is never stored
+ */
+export interface ApiKey {
+  readonly id: UUID;
+  /** User the key acts on behalf of */
+  readonly userId: UUID;
+  /** Owner-chosen label */
+  readonly name: string;
+  /** First characters of the key, shown so owners can tell keys apart */
+  readonly prefix: string;
+  /** Permissions the key may use, within those of the owner's role */
+  readonly scopes: Permission[];
+  /** Requests per minute in each rate limit category, null for the owner's quota */
+  readonly rateLimit: number | null;
+  readonly lastUsedAt: Date | null;
+  /** Expiry, null for keys that stay valid until revoked */
+  readonly expiresAt: Date | null;
+  readonly revokedAt: Date | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * Parameters for creating an API key
+ */
+export interface ApiKeyCreateParams {
+  name: string;
+  scopes: Permission[];
+  rateLimit?: number | null;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Newly created API key together with the key, which is only ever returned here
+ */
+export interface CreatedApiKey {
+  readonly apiKey: ApiKey;
+  readonly key: string;
+}
+
+/**
+ * Owner of an API key as needed to authorize its requests
+ */
+export interface ApiKeyOwner {
+  readonly id: UUID;
+  readonly email: string;
+  readonly role: UserRole;
+  readonly status: UserStatus;
+  readonly organizationId: UUID | null;
+  readonly organizationRole: OrganizationRole | null;
+}
+
+/**
+ * Identity behind a request authenticated with an API key
+ */
+export interface ApiKeyPrincipal {
+  readonly apiKey: ApiKey;
+  readonly owner: ApiKeyOwner;
+}
+
+/**
+ * Service interface for API key management and authentication
+ */
+export interface IApiKeyService {
+  /**
+   * Creates an API key for a user
+   * @param userId Owner of the key
+   * @param params Name, scopes, rate limit and expiry
+   */
+  createKey(userId: UUID, params: ApiKeyCreateParams): Promise<Result<CreatedApiKey>>;
+
+  /**
+   * Lists a user's keys that have not been revoked
+   * @param userId Owner of the keys
+   */
+  listKeys(userId: UUID): Promise<Result<ApiKey[]>>;
+
+  /**
+   * Revokes one of a user's keys
+   * @param userId Owner of the key
+   * @param keyId Key to revoke
+   */
+  revokeKey(userId: UUID, keyId: UUID): Promise<Result<void>>;
+
+  /**
+   * Resolves the identity behind a presented key
+   * @param key Key from the request
+   */
+  authenticate(key: string): Promise<Result<ApiKeyPrincipal>>;
+}
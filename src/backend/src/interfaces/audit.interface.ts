@@ -0,0 +1,166 @@
+/**
+ * Audit log interfaces for the AI Voice Agent
+ * Describes the security-relevant events recorded in the hash-chained audit log
+ * @version 1.0.0
+ */
+
+import { UUID } from '../types/common.types';
+import { UserStatus } from './user.interface';
+
+/**
+ * Kinds of events recorded in the audit log
+ */
+export enum AuditEventType {
+  LOGIN_SUCCEEDED = 'auth.login.succeeded',
+  LOGIN_FAILED = 'auth.login.failed',
+  TOKEN_REFRESHED = 'auth.token.refreshed',
+  LOGOUT_ALL_DEVICES = 'auth.logout.all_devices',
+  SESSION_CREATED = 'session.created',
+  SESSION_ENDED = 'session.ended',
+  CONVERSATION_DELETED = 'conversation.deleted',
+  DATA_EXPORTED = 'user.data.exported',
+  ACCOUNT_DELETED = 'user.account.deleted',
+  RETENTION_APPLIED = 'system.retention.applied',
+  ORGANIZATION_CREATED = 'organization.created',
+  ORGANIZATION_SETTINGS_UPDATED = 'organization.settings.updated',
+  ORGANIZATION_MEMBER_ADDED = 'organization.member.added',
+  ORGANIZATION_MEMBER_REMOVED = 'organization.member.removed',
+  API_KEY_CREATED = 'auth.api_key.created',
+  API_KEY_REVOKED = 'auth.api_key.revoked',
+  ADMIN_USER_SEARCH = 'admin.user.search',
+  ADMIN_USER_STATUS_CHANGED = 'admin.user.status_changed',
+  ADMIN_SESSIONS_VIEWED = 'admin.sessions.viewed',
+  ADMIN_SESSIONS_TERMINATED = 'admin.sessions.terminated',
+  ADMIN_TRANSCRIPT_VIEWED = 'admin.transcript.viewed',
+  ADMIN_AUDIT_QUERIED = 'admin.audit.queried'
+}
+
+/**
+ * Kinds of entities an audit event applies to
+ */
+export type AuditSubjectType =
+  | 'user'
+  | 'session'
+  | 'conversation'
+  | 'audit'
+  | 'organization'
+  | 'retention_policy'
+  | 'api_key';
+
+/**
+ * Details recorded with each kind of event
+ */
+export interface AuditEventDetails {
+  [AuditEventType.LOGIN_SUCCEEDED]: { role: string };
+  [AuditEventType.LOGIN_FAILED]: { reason: 'INVALID_PASSWORD' | 'ACCOUNT_INACTIVE' };
+  [AuditEventType.TOKEN_REFRESHED]: Record<string, never>;
+  [AuditEventType.LOGOUT_ALL_DEVICES]: { revokedLogins: number };
+  [AuditEventType.SESSION_CREATED]: { lifetime: number };
+  [AuditEventType.SESSION_ENDED]: { durationMs: number };
+  [AuditEventType.CONVERSATION_DELETED]: { deletedMessages: number };
+  [AuditEventType.DATA_EXPORTED]: { format: 'ndjson'; version: number };
+  [AuditEventType.ACCOUNT_DELETED]: {
+    sessions: number;
+    conversations: number;
+    messages: number;
+    recordings: number;
+    recordingsPendingRemoval: number;
+    cacheKeys: number;
+  };
+  [AuditEventType.RETENTION_APPLIED]: {
+    recordings: number;
+    recordingFailures: number;
+    conversations: number;
+    messages: number;
+    redactedMessages: number;
+  };
+  [AuditEventType.ORGANIZATION_CREATED]: { slug: string };
+  [AuditEventType.ORGANIZATION_SETTINGS_UPDATED]: { fields: string[] };
+  [AuditEventType.ORGANIZATION_MEMBER_ADDED]: { userId: UUID; role: string };
+  [AuditEventType.ORGANIZATION_MEMBER_REMOVED]: { userId: UUID };
+  [AuditEventType.API_KEY_CREATED]: { name: string; scopes: string[] };
+  [AuditEventType.API_KEY_REVOKED]: Record<string, never>;
+  [AuditEventType.ADMIN_USER_SEARCH]: { email?: string; status?: UserStatus; results: number };
+  [AuditEventType.ADMIN_USER_STATUS_CHANGED]: {
+    from: UserStatus;
+    to: UserStatus;
+    reason: string;
+    terminatedSessions?: number;
+    revokedLogins?: number;
+  };
+  [AuditEventType.ADMIN_SESSIONS_VIEWED]: { results: number };
+  [AuditEventType.ADMIN_SESSIONS_TERMINATED]: {
+    terminatedSessions: number;
+    revokedLogins?: number;
+  };
+  [AuditEventType.ADMIN_TRANSCRIPT_VIEWED]: { messages: number; revealed?: number };
+  [AuditEventType.ADMIN_AUDIT_QUERIED]: { filters: Record<string, unknown> };
+}
+
+/**
+ * Event to append to the audit log
+ */
+export interface AuditEventInput<T extends AuditEventType = AuditEventType> {
+  /** Kind of event */
+  type: T;
+  /** User who performed the action, null for anonymous or system actions */
+  actorId: UUID | null;
+  /** Kind of entity the action applied to */
+  subjectType: AuditSubjectType;
+  /** Identifier of the entity, or '*' for queries across entities */
+  subjectId: string;
+  /** Details of the action */
+  details: AuditEventDetails[T];
+  /** Client IP address of the request that caused the event */
+  ipAddress?: string;
+  /** Client user agent of the request that caused the event */
+  userAgent?: string;
+}
+
+/**
+ * Event stored in the audit log, linked to its predecessor by hash
+ */
+export interface AuditEvent extends AuditEventInput {
+  /** Unique event identifier */
+  readonly id: UUID;
+  /** Position in the chain, starting at 1 */
+  readonly sequence: number;
+  /** Hash of the preceding event */
+  readonly previousHash: string;
+  /** SHA-256 over the previous hash and this event's content */
+  readonly hash: string;
+  /** Recording timestamp (Unix ms) */
+  readonly createdAt: number;
+}
+
+/**
+ * Query for one page of audit events, newest first
+ */
+export interface AuditEventQuery {
+  /** Kind of event to match */
+  type?: AuditEventType;
+  /** Acting user to match */
+  actorId?: UUID;
+  /** Entity identifier to match */
+  subjectId?: string;
+  /** Earliest recording time */
+  from?: Date;
+  /** Latest recording time */
+  to?: Date;
+  /** Cursor returned with the previous page */
+  cursor?: string;
+  /** Page size */
+  limit: number;
+}
+
+/**
+ * Outcome of re-computing the audit log hash chain
+ */
+export interface AuditChainVerification {
+  /** Whether every checked event matches its hash and links to its predecessor */
+  readonly valid: boolean;
+  /** Number of events checked */
+  readonly checked: number;
+  /** Sequence of the first event that failed verification */
+  readonly brokenAt: number | null;
+}
@@ -5,7 +5,10 @@
  * @version 1.0.0
  */
 
+import { Request } from 'express'; // v4.18.2
 import { Result, UUID } from '../types/common.types';
+import { OrganizationRole } from './organization.interface';
+import { Permission } from '../constants/auth.constants';
 
 /**
  * User authentication credentials with strict validation requirements
@@ -36,6 +39,18 @@ export interface ITokenPayload {
   readonly version: string;
   /** User's role for authorization */
   readonly role: 'user' | 'premium' | 'admin';
+  /** Organization the user belonged to when the token was issued */
+  readonly organizationId?: UUID;
+  /** Role within that organization */
+  readonly organizationRole?: OrganizationRole;
+  /** Session the token was issued for */
+  readonly sessionId?: UUID;
+  /** Unique token identifier */
+  readonly jti?: string;
+  /** Refresh-token family, shared by the tokens of one login */
+  readonly familyId?: UUID;
+  /** Distinguishes refresh tokens from access tokens */
+  readonly tokenType?: 'refresh';
 }
 
 /**
@@ -89,7 +104,7 @@ export interface IAuthResult {
  * Extends the base Request type with authentication information
  * @interface IAuthRequest
  */
-export interface IAuthRequest {
+export interface IAuthRequest extends Request {
   /** Authenticated user information */
   readonly user: {
     /** User's unique identifier */
@@ -98,6 +113,18 @@ export interface IAuthRequest {
     readonly email: string;
     /** User's role */
     readonly role: string;
+    /** User's organization, null for users without one */
+    readonly organizationId?: UUID | null;
+    /** Role within the organization */
+    readonly organizationRole?: OrganizationRole | null;
+    /** API key the request was made with, absent for interactive logins */
+    readonly apiKey?: {
+      readonly id: UUID;
+      /** Permissions the key may use */
+      readonly scopes: Permission[];
+      /** Requests per minute in each rate limit category, null for the owner's quota */
+      readonly rateLimit: number | null;
+    };
   };
   /** Active session information */
   readonly session: {
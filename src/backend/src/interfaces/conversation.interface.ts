@@ -83,6 +83,28 @@ export interface ConversationCreateParams {
   preferredLanguage: string;
 }
 
+/**
+ * Filters for listing a user's conversations
+ */
+export interface ConversationListFilters {
+  /** Only conversations in this status */
+  status?: ConversationStatus;
+  /** Only conversations created at or after this time */
+  from?: Date;
+  /** Only conversations created at or before this time */
+  to?: Date;
+}
+
+/**
+ * Query for one page of a user's conversations, newest first
+ */
+export interface ConversationListQuery extends ConversationListFilters {
+  /** Cursor returned with the previous page */
+  cursor?: string;
+  /** Page size */
+  limit: number;
+}
+
 /**
  * Comprehensive service interface for conversation management
  */
@@ -0,0 +1,95 @@
+/**
+ * Dialog engine interfaces for AI reply generation
+ * Defines the provider contract used to turn a finalized user turn into an
+ * AI message, along with the parameters and results of a dialog turn
+ * @version 1.0.0
+ */
+
+import { Result, UUID } from '../types/common.types';
+import { ConversationContext } from './conversation.interface';
+import { Message } from './message.interface';
+
+/**
+ * Supported dialog engine implementations
+ */
+export enum DialogEngineType {
+  /** OpenAI-compatible chat completions HTTP API */
+  OPENAI = 'openai',
+  /** Deterministic local rule/echo engine for tests and offline use */
+  RULE = 'rule'
+}
+
+/**
+ * Request passed to a dialog engine for a single reply
+ */
+export interface DialogRequest {
+  /** Conversation the reply belongs to */
+  readonly conversationId: UUID;
+  /** Conversation history in chronological order, ending with the user turn */
+  readonly history: readonly Message[];
+  /** Language the reply should be produced in (e.g., 'en-US') */
+  readonly languageCode: string;
+}
+
+/**
+ * Reply produced by a dialog engine
+ */
+export interface DialogReply {
+  /** Generated reply text */
+  readonly content: string;
+  /** Engine that produced the reply */
+  readonly engine: DialogEngineType;
+  /** Time spent generating the reply in milliseconds */
+  readonly latency: number;
+  /** Provider-specific completion reason (e.g., 'stop', 'length') */
+  readonly finishReason: string | null;
+}
+
+/**
+ * Provider interface implemented by every dialog engine
+ */
+export interface DialogEngine {
+  /** Engine identifier */
+  readonly type: DialogEngineType;
+
+  /**
+   * Generates the AI reply for the latest user turn in the history
+   * @param request Dialog request with conversation history
+   * @returns Promise resolving to the generated reply
+   */
+  generateReply(request: DialogRequest): Promise<Result<DialogReply>>;
+}
+
+/**
+ * Parameters describing a finalized user turn
+ */
+export interface UserTurnParams {
+  /** Conversation identifier */
+  readonly conversationId: UUID;
+  /** Owner of the conversation, used for access checks */
+  readonly userId: string;
+  /** Tenant of the owner, null for users without one */
+  readonly organizationId: string | null;
+  /** Final transcript of the user turn */
+  readonly transcript: string;
+  /** Speech recognition confidence score (0-1) */
+  readonly confidence: number | null;
+  /** Duration of the user speech in milliseconds */
+  readonly speechDuration: number;
+  /** Optional recording of the user turn */
+  readonly audioRecordingId?: UUID | null;
+  /** Optional language override for the reply */
+  readonly languageCode?: string;
+}
+
+/**
+ * Outcome of a completed dialog turn
+ */
+export interface UserTurnResult {
+  /** Persisted user message */
+  readonly userMessage: Message;
+  /** Persisted AI reply */
+  readonly aiMessage: Message;
+  /** Conversation context after the turn */
+  readonly context: ConversationContext;
+}
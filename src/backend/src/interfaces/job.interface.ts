@@ -0,0 +1,31 @@
+/**
+ * Scheduled job interfaces for the AI Voice Agent
+ * Describes background work that runs periodically on one instance at a time
+ * @version 1.0.0
+ */
+
+/**
+ * Background work run periodically by the job runner
+ */
+export interface ScheduledJob {
+  /** Unique job name, also the name of its distributed lock */
+  readonly name: string;
+  /** Interval between runs in milliseconds */
+  readonly interval: number;
+  /** Lifetime of the lock in milliseconds; renewed while a run lasts longer */
+  readonly lockTtl: number;
+  /** Performs one run; a rejection marks the run as failed */
+  run(): Promise<unknown>;
+}
+
+/**
+ * Outcome of one scheduled run
+ */
+export enum JobOutcome {
+  /** The run completed */
+  SUCCEEDED = 'succeeded',
+  /** The run threw */
+  FAILED = 'failed',
+  /** Another instance or a previous run still holds the lock */
+  SKIPPED = 'skipped'
+}
@@ -6,6 +6,8 @@
  */
 
 import { UUID, Timestamp, Result } from '../types/common.types';
+import { SpeechMark } from './voice.interface';
+import { RedactionSpan } from './redaction.interface';
 
 /**
  * Enumeration of possible message sender roles
@@ -35,6 +37,27 @@ export interface MessageMetadata {
   audioFormat: string | null;
   /** Speech recognition confidence score (null for text-only messages) */
   transcriptionConfidence: number | null;
+  /** Barge-in record when AI speech was cut short by the user */
+  interruption?: MessageInterruption;
+  /** Word, sentence and viseme timing of the synthesized reply */
+  speechMarks?: SpeechMark[];
+  /** Personal data replaced in the content before it was stored */
+  redactions?: RedactionSpan[];
+}
+
+/**
+ * Record of AI speech interrupted by the user
+ * Distinguishes what the user actually heard from what was generated
+ */
+export interface MessageInterruption {
+  /** Portion of the generated content played before the interruption */
+  heardContent: string;
+  /** Milliseconds of synthesized audio played before the interruption */
+  playedDuration: number;
+  /** Total duration of the synthesized audio in milliseconds */
+  totalDuration: number;
+  /** Unix timestamp of the interruption in milliseconds */
+  interruptedAt: number;
 }
 
 /**
@@ -75,6 +98,20 @@ export interface MessageCreateParams {
   metadata: Partial<MessageMetadata>;
 }
 
+/**
+ * Temporary access to the recorded audio of a message
+ */
+export interface MessageAudio {
+  /** Message the recording belongs to */
+  readonly messageId: UUID;
+  /** Audio recording identifier */
+  readonly audioRecordingId: UUID;
+  /** Signed download URL */
+  readonly url: string;
+  /** Expiry of the signed URL */
+  readonly expiresAt: Timestamp;
+}
+
 /**
  * Comprehensive service interface for message management operations
  * Provides type-safe methods for CRUD operations on messages
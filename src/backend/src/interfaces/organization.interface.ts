@@ -0,0 +1,151 @@
+/**
+ * Organization interfaces for the AI Voice Agent
+ * Describes tenants, their members and the settings that apply to every member
+ * @version 1.0.0
+ */
+
+import { Result, UUID } from '../types/common.types';
+import { VoiceSynthesisOptions } from './voice.interface';
+
+/**
+ * Role of a user within their organization
+ */
+export enum OrganizationRole {
+  /** Accountable for the organization; manages settings and members */
+  OWNER = 'owner',
+  /** Manages settings and members */
+  ADMIN = 'admin',
+  /** Uses the service under the organization's settings */
+  MEMBER = 'member'
+}
+
+/**
+ * How long the organization keeps its members' data
+ * Overrides the retention policies configured for the deployment
+ */
+export interface OrganizationRetention {
+  /** Days audio recordings are kept */
+  readonly audioDays: number;
+  /** Days transcripts are kept after the conversation was last active */
+  readonly transcriptDays: number;
+  /** Days after which message content is redacted, null to keep it until deletion */
+  readonly redactAfterDays: number | null;
+}
+
+/**
+ * Usage limits of an organization
+ */
+export interface OrganizationQuotas {
+  /** Multiplies the request rate limits of every member, on top of their role */
+  readonly rateLimitMultiplier?: number;
+  /** Maximum number of members */
+  readonly maxMembers?: number;
+}
+
+/**
+ * Settings applied to every member of an organization
+ */
+export interface OrganizationSettings {
+  /** Synthesis options used where a request does not set them */
+  readonly voiceDefaults: Partial<VoiceSynthesisOptions>;
+  /** Language codes members may use; empty allows every supported language */
+  readonly allowedLanguages: string[];
+  /** Retention of members' data, null to use the deployment policies */
+  readonly retention: OrganizationRetention | null;
+  /** Usage limits */
+  readonly quotas: OrganizationQuotas;
+}
+
+/**
+ * Tenant grouping users under shared settings
+ */
+export interface Organization {
+  readonly id: UUID;
+  /** Display name */
+  readonly name: string;
+  /** Unique URL-safe identifier */
+  readonly slug: string;
+  readonly settings: OrganizationSettings;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * User belonging to an organization
+ */
+export interface OrganizationMember {
+  readonly userId: UUID;
+  readonly email: string;
+  readonly role: OrganizationRole;
+}
+
+/**
+ * Parameters for creating an organization
+ */
+export interface OrganizationCreateParams {
+  name: string;
+  slug: string;
+  /** Initial settings; omitted fields use the defaults */
+  settings?: Partial<OrganizationSettings>;
+}
+
+/**
+ * Service interface for organization management
+ */
+export interface IOrganizationService {
+  /**
+   * Creates an organization
+   * @param actorId User performing the action
+   * @param params Name, slug and initial settings
+   */
+  createOrganization(
+    actorId: UUID,
+    params: OrganizationCreateParams
+  ): Promise<Result<Organization>>;
+
+  /**
+   * Retrieves an organization
+   * @param id Organization identifier
+   */
+  getOrganization(id: UUID): Promise<Result<Organization>>;
+
+  /**
+   * Replaces some of an organization's settings
+   * @param actorId User performing the action
+   * @param id Organization identifier
+   * @param settings Settings to replace
+   */
+  updateSettings(
+    actorId: UUID,
+    id: UUID,
+    settings: Partial<OrganizationSettings>
+  ): Promise<Result<Organization>>;
+
+  /**
+   * Lists the members of an organization
+   * @param id Organization identifier
+   */
+  listMembers(id: UUID): Promise<Result<OrganizationMember[]>>;
+
+  /**
+   * Adds a user without an organization as a member
+   * @param actorId User performing the action
+   * @param id Organization identifier
+   * @param userId User to add
+   * @param role Role within the organization
+   */
+  addMember(
+    actorId: UUID,
+    id: UUID,
+    userId: UUID,
+    role: OrganizationRole
+  ): Promise<Result<OrganizationMember>>;
+
+  /**
+   * Removes a member from an organization
+   * @param actorId User performing the action
+   * @param id Organization identifier
+   * @param userId Member to remove
+   */
+  removeMember(actorId: UUID, id: UUID, userId: UUID): Promise<Result<void>>;
+}
@@ -0,0 +1,81 @@
+/**
+ * Personal data interfaces for the AI Voice Agent
+ * Describes the data export bundle and the receipt issued when an account is erased
+ * @version 1.0.0
+ */
+
+import { UUID, Timestamp } from '../types/common.types';
+import { IUser } from './user.interface';
+import { ISessionState } from './session.interface';
+import { Conversation } from './conversation.interface';
+import { Message } from './message.interface';
+
+/**
+ * Version of the export bundle layout, raised when record shapes change
+ */
+export const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Decrypted audio recording attached to a message
+ */
+export interface ExportedAudio {
+  readonly audioRecordingId: UUID;
+  readonly messageId: UUID;
+  readonly conversationId: UUID;
+  /** Audio container format */
+  readonly format: string;
+  /** Recording bytes, base64 encoded */
+  readonly data: string;
+}
+
+/**
+ * Number of records of each kind in an export bundle
+ */
+export interface ExportCounts {
+  sessions: number;
+  conversations: number;
+  messages: number;
+  recordings: number;
+}
+
+/**
+ * One line of the NDJSON export bundle
+ * The bundle opens with a manifest and closes with a summary; a bundle without
+ * a summary was interrupted and is incomplete
+ */
+export type ExportRecord =
+  | { type: 'manifest'; version: number; userId: UUID; exportedAt: Timestamp }
+  | { type: 'profile'; data: IUser }
+  | { type: 'session'; data: ISessionState }
+  | { type: 'conversation'; data: Omit<Conversation, 'messages'> }
+  | { type: 'message'; data: Message }
+  | { type: 'audio'; data: ExportedAudio }
+  | { type: 'summary'; counts: ExportCounts };
+
+/**
+ * Client that requested an export or erasure, recorded in the audit log
+ */
+export interface PrivacyRequestContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Proof of an account erasure, backed by an event in the hash-chained audit log
+ */
+export interface ErasureReceipt {
+  /** Audit event holding the receipt, null if it could not be recorded */
+  readonly receiptId: UUID | null;
+  /** Hash of the audit event, null if it could not be recorded */
+  readonly hash: string | null;
+  readonly userId: UUID;
+  readonly deletedAt: Timestamp;
+  readonly sessions: number;
+  readonly conversations: number;
+  readonly messages: number;
+  readonly recordings: number;
+  /** Stored recordings that could not be removed and await cleanup */
+  readonly recordingsPendingRemoval: number;
+  /** Cache entries removed */
+  readonly cacheKeys: number;
+}
@@ -0,0 +1,77 @@
+/**
+ * PII redaction interfaces for the AI Voice Agent
+ * Describes the personal data detected in transcripts and how it was replaced
+ * @version 1.0.0
+ */
+
+/**
+ * Built-in kinds of personal data; custom patterns add their own names
+ */
+export enum PiiEntity {
+  EMAIL = 'email',
+  PHONE = 'phone',
+  CREDIT_CARD = 'credit_card',
+  SSN = 'ssn'
+}
+
+/**
+ * How detected values are replaced
+ */
+export enum RedactionMode {
+  /** Letters and digits replaced by asterisks, card numbers keep their last four digits */
+  MASK = 'mask',
+  /** Keyed hash of the value, equal values produce equal replacements */
+  HASH = 'hash',
+  /** Numbered placeholder per entity, e.g. [EMAIL_1] */
+  TOKENIZE = 'tokenize'
+}
+
+/**
+ * Operator-defined entity detected by a regular expression
+ */
+export interface CustomPiiPattern {
+  /** Entity name used in replacements and spans */
+  readonly name: string;
+  /** Regular expression source */
+  readonly pattern: string;
+  /** Regular expression flags; the global flag is always added */
+  readonly flags?: string;
+}
+
+/**
+ * Personal data found in a text
+ */
+export interface PiiMatch {
+  /** Built-in or custom entity name */
+  readonly entity: string;
+  /** Offset of the first character in the original text */
+  readonly start: number;
+  /** Offset after the last character in the original text */
+  readonly end: number;
+  /** Matched text */
+  readonly value: string;
+}
+
+/**
+ * Location of a replacement in redacted content
+ */
+export interface RedactionSpan {
+  /** Built-in or custom entity name */
+  readonly entity: string;
+  /** Offset of the replacement in the redacted content */
+  readonly start: number;
+  /** Offset after the replacement in the redacted content */
+  readonly end: number;
+  /** Mode that produced the replacement */
+  readonly mode: RedactionMode;
+  /** Encrypted original value, present only when originals are retained */
+  readonly original?: string;
+}
+
+/**
+ * Redacted text with the spans needed to locate, and possibly restore, the originals
+ */
+export interface RedactionResult {
+  readonly content: string;
+  readonly spans: RedactionSpan[];
+}
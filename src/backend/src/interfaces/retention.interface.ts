@@ -0,0 +1,57 @@
+/**
+ * Data retention interfaces for the AI Voice Agent
+ * Describes how long recordings and transcripts are kept and what a cleanup run removed
+ * @version 1.0.0
+ */
+
+import { UserRole } from '../constants/auth.constants';
+
+/**
+ * Users a retention policy applies to
+ * Unset fields match every user; the most specific matching policy wins
+ */
+export interface RetentionScope {
+  /** Role of the users */
+  readonly role?: UserRole;
+  /** Organization the users belong to */
+  readonly organizationId?: string;
+}
+
+/**
+ * How long each kind of personal data is kept
+ */
+export interface RetentionPolicy {
+  /** Stable policy name used in logs and metrics */
+  readonly id: string;
+  /** Users the policy applies to */
+  readonly scope: RetentionScope;
+  /** Days audio recordings are kept */
+  readonly audioDays: number;
+  /** Days transcripts are kept after the conversation was last active */
+  readonly transcriptDays: number;
+  /** Days after which message content is redacted, null to keep it until deletion */
+  readonly redactAfterDays: number | null;
+}
+
+/**
+ * Users a policy run acts on: those in the policy scope that no more specific
+ * policy claims
+ */
+export interface RetentionTarget {
+  readonly include: RetentionScope;
+  readonly exclude: readonly RetentionScope[];
+}
+
+/**
+ * Records removed or redacted by one policy run, or that would be in a dry run
+ */
+export interface RetentionReport {
+  readonly policyId: string;
+  readonly dryRun: boolean;
+  readonly recordings: number;
+  /** Recordings whose stored files could not be removed and are retried next run */
+  readonly recordingFailures: number;
+  readonly conversations: number;
+  readonly messages: number;
+  readonly redactedMessages: number;
+}
@@ -35,6 +35,8 @@ export interface ISessionMetadata {
   lastLocation: string;
   /** Security-related flags for session monitoring */
   securityFlags: Record<string, boolean>;
+  /** Inactivity lifetime in seconds, set from the user's role at creation */
+  lifetime?: number;
 }
 
 /**
@@ -52,7 +54,7 @@ export interface ISessionState {
   startTime: number;
   /** Last activity timestamp (Unix ms) */
   lastActiveTime: number;
-  /** Session expiry timestamp (Unix ms) - 15 minutes from last activity */
+  /** Session expiry timestamp (Unix ms) - session lifetime from last activity */
   expiryTime: number;
   /** Enhanced session metadata */
   metadata: ISessionMetadata;
@@ -0,0 +1,80 @@
+/**
+ * Speech Recognition Interfaces
+ * Defines the provider abstraction used by the speech recognition service so that
+ * cloud, local and fixture-driven recognizers can be swapped through configuration
+ * @version 1.0.0
+ */
+
+/**
+ * Supported speech recognition providers
+ */
+export enum SpeechRecognitionProviderType {
+  GOOGLE = 'google',
+  LOCAL = 'local',
+  FIXTURE = 'fixture'
+}
+
+/**
+ * Interim or final recognition result
+ */
+export interface RecognitionResult {
+  transcript: string;
+  confidence: number;
+  isFinal: boolean;
+  stability?: number;
+  timestamp: number;
+}
+
+/**
+ * Options for opening a streaming recognition session
+ */
+export interface RecognitionStreamOptions {
+  /** BCP-47 language code */
+  languageCode: string;
+  /** Sample rate of the 16-bit mono PCM audio in Hz */
+  sampleRate: number;
+}
+
+/**
+ * Callbacks receiving the output of a recognition stream
+ */
+export interface RecognitionStreamHandlers {
+  onResult: (result: RecognitionResult) => void;
+  onError: (error: Error) => void;
+  onEnd: () => void;
+}
+
+/**
+ * Open streaming recognition session
+ */
+export interface RecognitionStream {
+  /**
+   * Writes 16-bit mono PCM audio to the recognizer
+   * @returns Promise resolving once the stream accepts more audio
+   */
+  write(audio: Uint8Array): Promise<void>;
+
+  /**
+   * Flushes pending audio and closes the session
+   */
+  end(): void;
+}
+
+/**
+ * Speech recognition provider contract
+ */
+export interface SpeechRecognitionProvider {
+  /** Provider identifier */
+  readonly type: SpeechRecognitionProviderType;
+
+  /**
+   * Opens a streaming recognition session
+   * @param options Stream options
+   * @param handlers Result, error and end callbacks
+   * @returns Open recognition stream
+   */
+  createStream(
+    options: RecognitionStreamOptions,
+    handlers: RecognitionStreamHandlers
+  ): RecognitionStream;
+}
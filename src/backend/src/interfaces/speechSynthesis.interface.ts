@@ -0,0 +1,83 @@
+/**
+ * Speech Synthesis Interfaces
+ * Defines the provider abstraction used by the speech synthesis service so that
+ * cloud, local and test synthesizers can be enabled per deployment
+ * @version 1.0.0
+ */
+
+import { SpeechMark, VoiceMetadata, VoiceSynthesisOptions } from './voice.interface';
+
+/**
+ * Supported speech synthesis providers
+ */
+export enum SpeechSynthesisProviderType {
+  POLLY = 'polly',
+  LOCAL = 'local',
+  TONE = 'tone'
+}
+
+/**
+ * Single synthesis request handed to a provider
+ */
+export interface SynthesisRequest {
+  /** Plain text or SSML document */
+  text: string;
+  /** Whether `text` is SSML */
+  textType: 'text' | 'ssml';
+  /** Voice options selected by the caller */
+  options: VoiceSynthesisOptions;
+  /** Sample rate of the returned PCM in Hz */
+  sampleRate: number;
+  /** Optional signal cancelling the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Portion of a synthesized reply
+ */
+export interface SynthesisChunk {
+  /** 16-bit mono PCM */
+  audio: Buffer;
+  /**
+   * Marks for this portion, timed from the start of the reply audio and with
+   * character offsets into the reply text
+   */
+  marks: SpeechMark[];
+}
+
+/**
+ * Speech synthesis provider contract
+ */
+export interface SpeechSynthesisProvider {
+  /** Provider identifier */
+  readonly type: SpeechSynthesisProviderType;
+
+  /**
+   * Synthesizes speech
+   * @param request Synthesis request
+   * @returns Promise resolving to 16-bit mono PCM at the requested sample rate
+   */
+  synthesize(request: SynthesisRequest): Promise<Buffer>;
+
+  /**
+   * Streams synthesized speech as it is produced
+   * Providers without native streaming omit this and are served by `synthesize`
+   * @param request Synthesis request
+   * @returns Async iterable of 16-bit mono PCM chunks at the requested sample rate
+   */
+  synthesizeStream?(request: SynthesisRequest): AsyncIterable<Buffer>;
+
+  /**
+   * Computes word and viseme marks for a request
+   * Providers without native marks omit this; word timing is then estimated
+   * @param request Synthesis request
+   * @returns Promise resolving to marks timed from the start of the request audio
+   */
+  synthesizeMarks?(request: SynthesisRequest): Promise<SpeechMark[]>;
+
+  /**
+   * Lists the voices offered by the provider
+   * @returns Promise resolving to voice metadata
+   */
+  listVoices(): Promise<VoiceMetadata[]>;
+}
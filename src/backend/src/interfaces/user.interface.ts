@@ -5,6 +5,7 @@
  */
 
 import { UUID, Result } from '../types/common.types';
+import { OrganizationRole } from './organization.interface';
 
 /**
  * Supported voice IDs for text-to-speech synthesis
@@ -56,6 +57,10 @@ export interface IUser {
   readonly status: UserStatus;
   /** User preferences with immutability */
   readonly preferences: Readonly<IUserPreferences>;
+  /** Organization the user belongs to, null for users without one */
+  readonly organizationId: UUID | null;
+  /** Role within the organization, null for users without one */
+  readonly organizationRole: OrganizationRole | null;
   /** Account creation timestamp */
   readonly createdAt: number;
   /** Last update timestamp */
@@ -86,6 +91,34 @@ export interface IUserUpdateParams {
   status?: UserStatus;
 }
 
+/**
+ * Query for one page of users matching administrative search filters, newest first
+ */
+export interface UserSearchQuery {
+  /** Case-insensitive fragment of the email address */
+  email?: string;
+  /** Account status to match */
+  status?: UserStatus;
+  /** Cursor returned with the previous page */
+  cursor?: string;
+  /** Page size */
+  limit: number;
+}
+
+/**
+ * Records removed together with a user account
+ */
+export interface UserDeletion {
+  /** Sessions of the user that were removed */
+  readonly sessionIds: UUID[];
+  /** Conversations of the user that were removed */
+  readonly conversationIds: UUID[];
+  /** Number of messages removed */
+  readonly messages: number;
+  /** Storage paths of removed audio recordings, whose files still have to be deleted */
+  readonly recordingPaths: string[];
+}
+
 /**
  * Database transaction type for atomic operations
  */
@@ -123,7 +156,7 @@ export interface IUserService {
    * Deletes a user account
    * @param id User's UUID
    * @param transaction Optional transaction for atomic operations
-   * @returns Promise resolving to Result indicating deletion success
+   * @returns Promise resolving to Result describing the removed records
    */
-  deleteUser(id: UUID, transaction?: Transaction): Promise<Result<void>>;
+  deleteUser(id: UUID, transaction?: Transaction): Promise<Result<UserDeletion>>;
 }
\ No newline at end of file
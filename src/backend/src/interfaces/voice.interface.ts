@@ -49,6 +49,34 @@ export interface VoiceSynthesisOptions {
   readonly effectsProfile: string[];
 }
 
+/**
+ * Kinds of timing marks produced alongside synthesized speech
+ */
+export enum SpeechMarkType {
+  /** Start of a sentence */
+  SENTENCE = 'sentence',
+  /** Start of a word */
+  WORD = 'word',
+  /** Mouth shape for lip-sync */
+  VISEME = 'viseme'
+}
+
+/**
+ * Timing mark aligning synthesized audio with the spoken text
+ */
+export interface SpeechMark {
+  /** Kind of mark */
+  readonly type: SpeechMarkType;
+  /** Milliseconds from the start of the synthesized audio */
+  readonly time: number;
+  /** Offset of the first character of the marked text (word and sentence marks) */
+  readonly start?: number;
+  /** Offset after the last character of the marked text (word and sentence marks) */
+  readonly end?: number;
+  /** Marked word or sentence, or the viseme symbol */
+  readonly value: string;
+}
+
 /**
  * Metadata interface for available voice options
  * Provides detailed information about each available voice
@@ -68,6 +96,8 @@ export interface VoiceMetadata {
   readonly sampleRate: number;
   /** Supported audio codecs */
   readonly codecSupport: AudioFormat[];
+  /** Synthesis provider serving the voice */
+  readonly provider: string;
 }
 
 /**
@@ -0,0 +1,349 @@
+/**
+ * Administration Service
+ * Support operations on user accounts, sessions and conversations. Every
+ * operation is recorded in the audit log under the acting administrator.
+ * @version 1.0.0
+ */
+
+import { UserRepository } from '../../db/repositories/user.repository';
+import { ConversationRepository } from '../../db/repositories/conversation.repository';
+import { SessionService } from '../session/session.service';
+import { AuditService, auditService } from '../audit/audit.service';
+import { JWTService, jwtService } from '../auth/jwt.service';
+import { RedactionService, redactionService } from '../privacy/redaction.service';
+import { IUser, UserSearchQuery, UserStatus } from '../../interfaces/user.interface';
+import { ISessionState } from '../../interfaces/session.interface';
+import { Conversation } from '../../interfaces/conversation.interface';
+import { Message } from '../../interfaces/message.interface';
+import {
+  AuditChainVerification,
+  AuditEvent,
+  AuditEventInput,
+  AuditEventQuery,
+  AuditEventType
+} from '../../interfaces/audit.interface';
+import { PaginatedResult, Result, UUID } from '../../types/common.types';
+import { createError } from '../../utils/error.utils';
+import { logger } from '../../utils/logger.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+
+/**
+ * Outcome of ending every login of a user
+ */
+export interface SessionTermination {
+  /** Sessions marked as expired */
+  readonly terminatedSessions: number;
+  /** Refresh-token families revoked */
+  readonly revokedLogins: number;
+}
+
+/**
+ * Conversation with its messages in chronological order
+ */
+export type ConversationTranscript = Conversation & { messages: Message[] };
+
+export class AdminService {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly sessionService: SessionService,
+    private readonly conversationRepository: ConversationRepository,
+    private readonly audit: AuditService = auditService,
+    private readonly tokens: JWTService = jwtService,
+    private readonly redaction: RedactionService = redactionService
+  ) {}
+
+  /**
+   * Searches users by email fragment and status
+   * @param adminId - Acting administrator
+   * @param query - Search filters and page
+   * @returns One page of matching users
+   */
+  public async searchUsers(
+    adminId: UUID,
+    query: UserSearchQuery
+  ): Promise<Result<PaginatedResult<IUser>>> {
+    const result = await this.userRepository.searchUsers(query);
+    if (!result.success) {
+      return result;
+    }
+
+    return this.disclose(result, {
+      type: AuditEventType.ADMIN_USER_SEARCH,
+      actorId: adminId,
+      subjectType: 'user',
+      subjectId: '*',
+      details: { email: query.email, status: query.status, results: result.data.items.length }
+    });
+  }
+
+  /**
+   * Lists the active sessions of a user
+   * @param adminId - Acting administrator
+   * @param userId - Owner of the sessions
+   * @returns Sessions that have neither ended nor expired
+   */
+  public async listUserSessions(
+    adminId: UUID,
+    userId: UUID
+  ): Promise<Result<ISessionState[]>> {
+    try {
+      const sessions = await this.sessionService.listActiveSessions(userId);
+
+      return this.disclose(this.success(sessions), {
+        type: AuditEventType.ADMIN_SESSIONS_VIEWED,
+        actorId: adminId,
+        subjectType: 'user',
+        subjectId: userId,
+        details: { results: sessions.length }
+      });
+    } catch (error) {
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to list sessions' });
+    }
+  }
+
+  /**
+   * Ends one active session of a user
+   * @param adminId - Acting administrator
+   * @param userId - Owner of the session
+   * @param sessionId - Session to end
+   * @returns NOT_FOUND when the user has no such active session
+   */
+  public async terminateSession(
+    adminId: UUID,
+    userId: UUID,
+    sessionId: UUID
+  ): Promise<Result<void>> {
+    try {
+      const sessions = await this.sessionService.listActiveSessions(userId);
+      if (!sessions.some((session) => session.id === sessionId)) {
+        return this.failure(ERROR_CODES.NOT_FOUND, { message: 'Active session not found' });
+      }
+
+      await this.sessionService.endSession(sessionId, adminId);
+      await this.audit.tryRecord({
+        type: AuditEventType.ADMIN_SESSIONS_TERMINATED,
+        actorId: adminId,
+        subjectType: 'session',
+        subjectId: sessionId,
+        details: { terminatedSessions: 1 }
+      });
+
+      return this.success(undefined);
+    } catch (error) {
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to terminate session' });
+    }
+  }
+
+  /**
+   * Ends every session of a user and revokes their refresh tokens
+   * @param adminId - Acting administrator
+   * @param userId - User to sign out everywhere
+   * @returns Number of sessions and logins ended
+   */
+  public async terminateUserSessions(
+    adminId: UUID,
+    userId: UUID
+  ): Promise<Result<SessionTermination>> {
+    try {
+      const termination = await this.signOut(adminId, userId);
+      await this.audit.tryRecord({
+        type: AuditEventType.ADMIN_SESSIONS_TERMINATED,
+        actorId: adminId,
+        subjectType: 'user',
+        subjectId: userId,
+        details: { ...termination }
+      });
+
+      return this.success(termination);
+    } catch (error) {
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to terminate sessions' });
+    }
+  }
+
+  /**
+   * Changes the status of a user account
+   * Suspending or deactivating an account also signs the user out everywhere
+   * @param adminId - Acting administrator
+   * @param userId - Account to update
+   * @param status - New account status
+   * @param reason - Justification recorded in the audit log
+   * @returns Updated user
+   */
+  public async setUserStatus(
+    adminId: UUID,
+    userId: UUID,
+    status: UserStatus,
+    reason: string
+  ): Promise<Result<IUser>> {
+    if (userId === adminId) {
+      return this.failure(ERROR_CODES.VALIDATION_ERROR, {
+        message: 'Administrators cannot change the status of their own account'
+      });
+    }
+
+    const existing = await this.userRepository.getUserById(userId);
+    if (!existing.success) {
+      return existing;
+    }
+
+    const updated = await this.userRepository.updateUser(userId, { status });
+    if (!updated.success) {
+      return updated;
+    }
+
+    let termination: SessionTermination | undefined;
+    if (status !== UserStatus.ACTIVE) {
+      try {
+        termination = await this.signOut(adminId, userId);
+      } catch (error) {
+        logger.error('Failed to sign out user after status change', { error, userId, status });
+      }
+    }
+
+    await this.audit.tryRecord({
+      type: AuditEventType.ADMIN_USER_STATUS_CHANGED,
+      actorId: adminId,
+      subjectType: 'user',
+      subjectId: userId,
+      details: { from: existing.data.status, to: status, reason, ...termination }
+    });
+
+    return updated;
+  }
+
+  /**
+   * Retrieves the transcript of any user's conversation
+   * @param adminId - Acting administrator
+   * @param conversationId - Conversation to inspect
+   * @param reveal - Restore personal data retained when messages were redacted
+   * @returns Conversation with its messages in chronological order
+   */
+  public async getConversationTranscript(
+    adminId: UUID,
+    conversationId: UUID,
+    reveal = false
+  ): Promise<Result<ConversationTranscript>> {
+    const result = await this.conversationRepository.findTranscript(conversationId);
+    if (!result.success) {
+      return result.error?.message === 'Conversation not found'
+        ? this.failure(ERROR_CODES.NOT_FOUND, { message: 'Conversation not found' })
+        : this.failure(ERROR_CODES.SYSTEM_ERROR, { originalError: result.error?.message });
+    }
+
+    let transcript = result.data as ConversationTranscript;
+    let revealed = 0;
+    if (reveal) {
+      const messages = await Promise.all(transcript.messages.map(async (message) => {
+        const spans = message.metadata?.redactions ?? [];
+        if (!spans.some((span) => span.original)) {
+          return message;
+        }
+        revealed++;
+        return { ...message, content: await this.redaction.reveal(message.content, spans) };
+      }));
+      transcript = { ...transcript, messages };
+    }
+
+    return this.disclose(this.success(transcript), {
+      type: AuditEventType.ADMIN_TRANSCRIPT_VIEWED,
+      actorId: adminId,
+      subjectType: 'conversation',
+      subjectId: conversationId,
+      details: { messages: transcript.messages.length, ...(reveal && { revealed }) }
+    });
+  }
+
+  /**
+   * Queries the audit log
+   * @param adminId - Acting administrator
+   * @param query - Filters, page size and the cursor of the previous page
+   * @returns One page of audit events, newest first
+   */
+  public async queryAuditEvents(
+    adminId: UUID,
+    query: AuditEventQuery
+  ): Promise<Result<PaginatedResult<AuditEvent>>> {
+    const result = await this.audit.queryEvents(query);
+    if (!result.success) {
+      return result;
+    }
+
+    return this.disclose(result, {
+      type: AuditEventType.ADMIN_AUDIT_QUERIED,
+      actorId: adminId,
+      subjectType: 'audit',
+      subjectId: '*',
+      details: {
+        filters: {
+          type: query.type,
+          actorId: query.actorId,
+          subjectId: query.subjectId,
+          from: query.from?.toISOString(),
+          to: query.to?.toISOString()
+        }
+      }
+    });
+  }
+
+  /**
+   * Verifies the audit log hash chain
+   * @param adminId - Acting administrator
+   * @param fromSequence - First event to verify
+   * @returns Whether the checked events are intact
+   */
+  public async verifyAuditChain(
+    adminId: UUID,
+    fromSequence: number
+  ): Promise<Result<AuditChainVerification>> {
+    const result = await this.audit.verifyChain(fromSequence);
+    if (!result.success) {
+      return result;
+    }
+
+    return this.disclose(result, {
+      type: AuditEventType.ADMIN_AUDIT_QUERIED,
+      actorId: adminId,
+      subjectType: 'audit',
+      subjectId: '*',
+      details: { filters: { verifyFrom: fromSequence } }
+    });
+  }
+
+  /**
+   * Ends a user's active sessions and revokes their refresh-token families
+   */
+  private async signOut(adminId: UUID, userId: UUID): Promise<SessionTermination> {
+    const sessions = await this.sessionService.listActiveSessions(userId);
+    for (const session of sessions) {
+      await this.sessionService.endSession(session.id, adminId);
+    }
+    const revokedLogins = await this.tokens.invalidateUserTokens(userId);
+
+    return { terminatedSessions: sessions.length, revokedLogins };
+  }
+
+  /**
+   * Returns data read on behalf of an administrator only once the read is audited
+   */
+  private async disclose<T>(result: Result<T>, event: AuditEventInput): Promise<Result<T>> {
+    try {
+      await this.audit.record(event);
+      return result;
+    } catch (error) {
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Audit log unavailable' });
+    }
+  }
+
+  private success<T>(data: T): Result<T> {
+    return { success: true, data, error: null, metadata: {} };
+  }
+
+  private failure<T>(code: ERROR_CODES, details: Record<string, unknown>): Result<T> {
+    return {
+      success: false,
+      data: null as unknown as T,
+      error: createError(code, details),
+      metadata: {}
+    };
+  }
+}
@@ -4,7 +4,6 @@
  * @version 1.0.0
  */
 
-import { WebAssembly } from '@types/webassembly-js-api'; // v0.0.18
 import { 
   AudioConfig, 
   AudioChunk, 
@@ -17,7 +16,14 @@ import {
   convertAudioFormat, 
   normalizeAudio 
 } from '../../utils/audio.utils';
-import { Result } from '../../types/common.types';
+import { Result, Timestamp } from '../../types/common.types';
+import { AudioMetadata } from '../../types/websocket.types';
+import { describeError } from '../../utils/error.utils';
+import {
+  createOpusDecoder,
+  decodeToPcm16,
+  OpusStreamDecoder
+} from '../../utils/codec.utils';
 
 /**
  * Interface for tracking audio processing performance metrics
@@ -76,6 +82,7 @@ export class AudioProcessor {
   private wasmInstance: WebAssembly.Instance | null = null;
   private readonly vadDetector: VoiceActivityDetector;
   private readonly streamBuffer: CircularBuffer<AudioChunk>;
+  private readonly opusDecoders: Map<string, OpusStreamDecoder> = new Map();
   private processingMetrics: ProcessingMetrics;
   private readonly BUFFER_SIZE = 1024;
   private readonly MAX_RECOVERY_ATTEMPTS = 3;
@@ -141,6 +148,13 @@ export class AudioProcessor {
         throw new Error('Invalid audio chunk');
       }
 
+      // Level and voice activity are measured on PCM
+      const decodeResult = this.decodeChunk(chunk);
+      if (!decodeResult.success) {
+        return decodeResult;
+      }
+      chunk = decodeResult.data;
+
       // Add to streaming buffer
       this.streamBuffer.push(chunk);
 
@@ -215,20 +229,82 @@ export class AudioProcessor {
     }
   }
 
+  /**
+   * Decodes an inbound chunk to PCM16 at the configured sample rate, ready for
+   * voice activity detection and recognition
+   * Opus chunks hold length-prefixed packets; other formats pass through
+   * @param chunk Audio chunk received from a client
+   * @param metadata Frame metadata sent with the chunk, if any
+   * @param streamId Stream the chunk belongs to, keeping decoder state between chunks
+   * @returns Result containing the PCM chunk
+   */
+  public decodeChunk(
+    chunk: AudioChunk,
+    metadata?: AudioMetadata,
+    streamId?: string
+  ): Result<AudioChunk> {
+    if (chunk.format !== AudioFormat.OPUS) {
+      return { success: true, data: chunk, error: null, metadata: {} };
+    }
+
+    try {
+      if (metadata && metadata.channels !== 1) {
+        throw new Error(`Unsupported channel count: ${metadata.channels}`);
+      }
+
+      const pcm = decodeToPcm16(Buffer.from(chunk.data), AudioFormat.OPUS, {
+        sampleRate: this.config.sampleRate,
+        opusDecoder: streamId ? this.getOpusDecoder(streamId) : undefined
+      });
+
+      return {
+        success: true,
+        data: {
+          data: new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength),
+          format: AudioFormat.PCM,
+          timestamp: chunk.timestamp,
+          sequence: chunk.sequence
+        },
+        error: null,
+        metadata: { encodedSize: chunk.data.length }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        data: chunk,
+        error: {
+          code: 'AUDIO_DECODING_ERROR',
+          message: 'Failed to decode audio chunk',
+          details: { error: describeError(error), format: chunk.format },
+          timestamp: Date.now() as Timestamp
+        },
+        metadata: {}
+      };
+    }
+  }
+
+  /**
+   * Releases the decoder state of a stream once it has ended
+   * @param streamId Stream passed to decodeChunk
+   */
+  public releaseStream(streamId: string): void {
+    this.opusDecoders.delete(streamId);
+  }
+
   /**
    * Converts audio format with codec-specific optimizations
    * @param chunk Audio chunk to convert
    * @param targetFormat Desired output format
-   * @returns Promise resolving to converted audio chunk
+   * @returns Result containing the converted audio chunk
    */
-  public async convertFormat(
+  public convertFormat(
     chunk: AudioChunk,
     targetFormat: AudioFormat
-  ): Promise<Result<AudioChunk>> {
+  ): Result<AudioChunk> {
     const startTime = performance.now();
 
     try {
-      const result = await convertAudioFormat(chunk, targetFormat);
+      const result = convertAudioFormat(chunk, targetFormat);
       if (!result.success) {
         throw new Error('Format conversion failed');
       }
@@ -255,6 +331,15 @@ export class AudioProcessor {
     }
   }
 
+  private getOpusDecoder(streamId: string): OpusStreamDecoder {
+    let decoder = this.opusDecoders.get(streamId);
+    if (!decoder) {
+      decoder = createOpusDecoder();
+      this.opusDecoders.set(streamId, decoder);
+    }
+    return decoder;
+  }
+
   /**
    * Updates processing metrics
    * @param startTime Processing start time
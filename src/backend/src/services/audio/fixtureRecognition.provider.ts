@@ -0,0 +1,99 @@
+/**
+ * Fixture Speech Recognition Provider
+ * Deterministic recognizer for tests and offline development. Transcripts are
+ * looked up by the SHA-256 hash of the audio, matching either a single chunk or
+ * all audio received since the previous match, so recorded utterances replayed
+ * by a client or test produce known transcripts without any speech engine.
+ * @version 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import {
+  RecognitionStream,
+  RecognitionStreamHandlers,
+  RecognitionStreamOptions,
+  SpeechRecognitionProvider,
+  SpeechRecognitionProviderType
+} from '../../interfaces/speechRecognition.interface';
+
+/**
+ * Upper bound of buffered audio awaiting a match (30 seconds of 16kHz PCM16)
+ */
+const MAX_PENDING_BYTES = 16000 * 2 * 30;
+
+/**
+ * Computes the fixture key of an audio buffer
+ * @param audio Raw PCM audio
+ * @returns Hex encoded SHA-256 hash
+ */
+export const hashAudio = (audio: Uint8Array): string =>
+  createHash('sha256').update(audio).digest('hex');
+
+/**
+ * Recognition provider resolving transcripts from audio hash fixtures
+ */
+export class FixtureRecognitionProvider implements SpeechRecognitionProvider {
+  public readonly type = SpeechRecognitionProviderType.FIXTURE;
+
+  /**
+   * @param fixtures Map of audio hashes to transcripts
+   */
+  constructor(private readonly fixtures: Readonly<Record<string, string>>) {}
+
+  /**
+   * Loads fixtures from a JSON file mapping audio hashes to transcripts
+   * @param path Path to the fixture file
+   * @returns Fixture provider
+   */
+  public static fromFile(path: string): FixtureRecognitionProvider {
+    return new FixtureRecognitionProvider(
+      JSON.parse(readFileSync(path, 'utf8')) as Record<string, string>
+    );
+  }
+
+  /**
+   * Opens a fixture-backed recognition session
+   * @param _options Stream options
+   * @param handlers Result, error and end callbacks
+   * @returns Open recognition stream
+   */
+  public createStream(
+    _options: RecognitionStreamOptions,
+    handlers: RecognitionStreamHandlers
+  ): RecognitionStream {
+    let pending = Buffer.alloc(0);
+    let ended = false;
+
+    return {
+      write: (audio: Uint8Array): Promise<void> => {
+        if (ended) {
+          return Promise.reject(new Error('Fixture recognition stream has ended'));
+        }
+
+        pending = pending.length + audio.length > MAX_PENDING_BYTES
+          ? Buffer.from(audio)
+          : Buffer.concat([pending, audio]);
+
+        const transcript = this.fixtures[hashAudio(audio)] ?? this.fixtures[hashAudio(pending)];
+        if (transcript !== undefined) {
+          pending = Buffer.alloc(0);
+          handlers.onResult({
+            transcript,
+            confidence: 1,
+            isFinal: true,
+            stability: 1,
+            timestamp: Date.now()
+          });
+        }
+        return Promise.resolve();
+      },
+      end: (): void => {
+        if (!ended) {
+          ended = true;
+          handlers.onEnd();
+        }
+      }
+    };
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Google Cloud Speech Recognition Provider
+ * Streams audio to the Google Cloud Speech-to-Text API
+ * @version 1.0.0
+ */
+
+import * as speech from '@google-cloud/speech'; // ^5.5.0
+import {
+  RecognitionStream,
+  RecognitionStreamHandlers,
+  RecognitionStreamOptions,
+  SpeechRecognitionProvider,
+  SpeechRecognitionProviderType
+} from '../../interfaces/speechRecognition.interface';
+
+type StreamingRecognitionConfig = speech.protos.google.cloud.speech.v1.IStreamingRecognitionConfig;
+type StreamingRecognizeResponse = speech.protos.google.cloud.speech.v1.IStreamingRecognizeResponse;
+
+/**
+ * Recognition provider backed by Google Cloud streaming recognition
+ */
+export class GoogleRecognitionProvider implements SpeechRecognitionProvider {
+  public readonly type = SpeechRecognitionProviderType.GOOGLE;
+  private readonly speechClient: speech.SpeechClient;
+
+  constructor(credentials: Record<string, unknown>) {
+    this.speechClient = new speech.SpeechClient({ credentials });
+  }
+
+  /**
+   * Opens a Google streaming recognition session with interim results
+   * @param options Stream options
+   * @param handlers Result, error and end callbacks
+   * @returns Open recognition stream
+   */
+  public createStream(
+    options: RecognitionStreamOptions,
+    handlers: RecognitionStreamHandlers
+  ): RecognitionStream {
+    const streamingConfig: StreamingRecognitionConfig = {
+      config: {
+        encoding: 'LINEAR16',
+        sampleRateHertz: options.sampleRate,
+        languageCode: options.languageCode,
+        enableAutomaticPunctuation: true,
+        model: 'latest_long',
+        useEnhanced: true,
+        metadata: {
+          interactionType: 'VOICE_COMMAND',
+          microphoneDistance: 'NEARFIELD',
+          originalMediaType: 'AUDIO',
+        }
+      },
+      interimResults: true
+    };
+
+    const stream = this.speechClient
+      .streamingRecognize(streamingConfig)
+      .on('error', handlers.onError)
+      .on('data', (data: StreamingRecognizeResponse) => {
+        const result = data.results?.[0];
+        const alternative = result?.alternatives?.[0];
+
+        if (alternative) {
+          handlers.onResult({
+            transcript: alternative.transcript || '',
+            confidence: alternative.confidence || 0,
+            isFinal: result.isFinal || false,
+            stability: result.stability ?? undefined,
+            timestamp: Date.now()
+          });
+        }
+      })
+      .on('end', handlers.onEnd);
+
+    return {
+      write: async (audio: Uint8Array): Promise<void> => {
+        if (!stream.write(audio)) {
+          // Handle backpressure
+          await new Promise(resolve => stream.once('drain', resolve));
+        }
+      },
+      end: (): void => {
+        stream.end();
+      }
+    };
+  }
+}
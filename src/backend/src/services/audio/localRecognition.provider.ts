@@ -0,0 +1,153 @@
+/**
+ * Local Speech Recognition Provider
+ * Runs an offline recognizer (Vosk, whisper.cpp stream wrapper, etc.) as a child
+ * process. Raw 16-bit mono PCM is written to its stdin and one JSON result is read
+ * per stdout line, using the Vosk result format:
+ *   {"partial": "hello wor"}                      interim hypothesis
+ *   {"text": "hello world", "confidence": 0.92}   final result
+ * Final results may carry word-level `result: [{conf}]` instead of `confidence`.
+ * @version 1.0.0
+ */
+
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import {
+  RecognitionResult,
+  RecognitionStream,
+  RecognitionStreamHandlers,
+  RecognitionStreamOptions,
+  SpeechRecognitionProvider,
+  SpeechRecognitionProviderType
+} from '../../interfaces/speechRecognition.interface';
+import { logger } from '../../utils/logger.utils';
+
+/**
+ * Line emitted by the recognizer process
+ */
+interface RecognizerOutput {
+  partial?: string;
+  text?: string;
+  confidence?: number;
+  result?: Array<{ conf?: number }>;
+}
+
+/**
+ * Recognition provider backed by a local recognizer process
+ */
+export class LocalRecognitionProvider implements SpeechRecognitionProvider {
+  public readonly type = SpeechRecognitionProviderType.LOCAL;
+
+  /**
+   * @param command Recognizer command line; `{language}` and `{sampleRate}`
+   * placeholders are substituted per stream
+   */
+  constructor(private readonly command: string) {}
+
+  /**
+   * Spawns a recognizer process for the session
+   * @param options Stream options
+   * @param handlers Result, error and end callbacks
+   * @returns Open recognition stream
+   */
+  public createStream(
+    options: RecognitionStreamOptions,
+    handlers: RecognitionStreamHandlers
+  ): RecognitionStream {
+    const [executable, ...args] = this.command
+      .replace(/\{language\}/g, options.languageCode)
+      .replace(/\{sampleRate\}/g, String(options.sampleRate))
+      .split(/\s+/)
+      .filter(Boolean);
+
+    const child = spawn(executable, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    let failed = false;
+
+    const fail = (error: Error): void => {
+      if (!failed) {
+        failed = true;
+        handlers.onError(error);
+      }
+    };
+
+    child.on('error', fail);
+    child.stdin.on('error', fail);
+    child.on('close', (code) => {
+      if (code !== 0 && code !== null) {
+        fail(new Error(`Local recognizer exited with code ${code}`));
+        return;
+      }
+      handlers.onEnd();
+    });
+
+    child.stderr.on('data', (data: Buffer) => {
+      logger.debug('Local recognizer output', {
+        component: 'LocalRecognitionProvider',
+        output: data.toString().trim()
+      });
+    });
+
+    createInterface({ input: child.stdout }).on('line', (line) => {
+      const result = this.parseLine(line);
+      if (result) {
+        handlers.onResult(result);
+      }
+    });
+
+    return {
+      write: async (audio: Uint8Array): Promise<void> => {
+        if (failed || !child.stdin.writable) {
+          throw new Error('Local recognizer is not accepting audio');
+        }
+        if (!child.stdin.write(audio)) {
+          await new Promise(resolve => child.stdin.once('drain', resolve));
+        }
+      },
+      end: (): void => {
+        child.stdin.end();
+      }
+    };
+  }
+
+  /**
+   * Converts a recognizer output line to a recognition result
+   */
+  private parseLine(line: string): RecognitionResult | null {
+    let output: RecognizerOutput;
+    try {
+      output = JSON.parse(line) as RecognizerOutput;
+    } catch {
+      logger.warn('Ignoring malformed local recognizer output', {
+        component: 'LocalRecognitionProvider'
+      });
+      return null;
+    }
+
+    if (output.text !== undefined) {
+      return {
+        transcript: output.text,
+        confidence: output.confidence ?? this.averageConfidence(output.result),
+        isFinal: true,
+        timestamp: Date.now()
+      };
+    }
+
+    if (output.partial) {
+      return {
+        transcript: output.partial,
+        confidence: 0,
+        isFinal: false,
+        timestamp: Date.now()
+      };
+    }
+
+    return null;
+  }
+
+  private averageConfidence(words: RecognizerOutput['result']): number {
+    const scores = (words ?? [])
+      .map((word) => word.conf)
+      .filter((conf): conf is number => typeof conf === 'number');
+
+    return scores.length > 0 ? scores.reduce((sum, conf) => sum + conf, 0) / scores.length : 0;
+  }
+}
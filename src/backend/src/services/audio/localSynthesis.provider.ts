@@ -0,0 +1,148 @@
+/**
+ * Local Speech Synthesis Provider
+ * Runs an offline TTS engine such as espeak-ng or piper as a child process.
+ * The text is written to stdin; stdout must carry either a WAV file
+ * (`espeak-ng --stdin --stdout`) or raw 16-bit mono PCM at the configured
+ * sample rate (`piper --output_raw`). Supported command placeholders:
+ *   {voice}        voice name
+ *   {rate}         speaking rate multiplier
+ *   {wpm}          words per minute (espeak-ng `-s`)
+ *   {lengthScale}  phoneme length scale (piper `--length_scale`)
+ * @version 1.0.0
+ */
+
+import { spawn } from 'child_process';
+import { VoiceMetadata } from '../../interfaces/voice.interface';
+import {
+  SpeechSynthesisProvider,
+  SpeechSynthesisProviderType,
+  SynthesisRequest
+} from '../../interfaces/speechSynthesis.interface';
+import { AudioFormat } from '../../types/audio.types';
+import { isWav, parseWav, resamplePcm16 } from '../../utils/pcm.utils';
+
+/**
+ * espeak-ng default speaking rate in words per minute
+ */
+const BASE_WORDS_PER_MINUTE = 175;
+
+/**
+ * Local engine settings
+ */
+export interface LocalSynthesisConfig {
+  /** Command line with placeholders */
+  command: string;
+  /** Sample rate of raw PCM output in Hz */
+  sampleRate: number;
+  /** Voice names accepted by the engine; the first one is the default */
+  voices: string[];
+}
+
+/**
+ * Derives a BCP-47 language code from voice names such as `en-us` or `en_US-lessac-medium`
+ */
+const languageOf = (voice: string): string => {
+  const match = /^([a-z]{2,3})[-_]([a-z]{2})(?![a-z])/i.exec(voice);
+  return match ? `${match[1].toLowerCase()}-${match[2].toUpperCase()}` : voice;
+};
+
+/**
+ * Synthesis provider backed by a local TTS process
+ */
+export class LocalSynthesisProvider implements SpeechSynthesisProvider {
+  public readonly type = SpeechSynthesisProviderType.LOCAL;
+
+  constructor(private readonly config: LocalSynthesisConfig) {}
+
+  /**
+   * Runs the engine once for the request
+   * @param request Synthesis request
+   * @returns Promise resolving to 16-bit mono PCM at the requested sample rate
+   */
+  public async synthesize(request: SynthesisRequest): Promise<Buffer> {
+    const { options } = request;
+    const voice = this.config.voices.includes(options.voiceId)
+      ? options.voiceId
+      : this.config.voices[0] ?? '';
+    const rate = options.rate || 1;
+    const text = request.textType === 'ssml'
+      ? request.text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()
+      : request.text;
+
+    const [executable, ...args] = this.config.command
+      .replace(/\{voice\}/g, voice)
+      .replace(/\{rate\}/g, String(rate))
+      .replace(/\{wpm\}/g, String(Math.round(BASE_WORDS_PER_MINUTE * rate)))
+      .replace(/\{lengthScale\}/g, (1 / rate).toFixed(2))
+      .split(/\s+/)
+      .filter(Boolean);
+
+    const output = await this.run(executable, args, text, request.signal);
+
+    if (isWav(output)) {
+      const wav = parseWav(output);
+      return resamplePcm16(wav.pcm, wav.sampleRate, request.sampleRate);
+    }
+    return resamplePcm16(output, this.config.sampleRate, request.sampleRate);
+  }
+
+  /**
+   * Lists the configured engine voices
+   * @returns Promise resolving to voice metadata
+   */
+  public async listVoices(): Promise<VoiceMetadata[]> {
+    return this.config.voices.map((voice) => ({
+      voiceId: voice,
+      name: voice,
+      language: languageOf(voice),
+      gender: 'neutral',
+      supportedEffects: [],
+      sampleRate: this.config.sampleRate,
+      codecSupport: [AudioFormat.PCM],
+      provider: this.type
+    }));
+  }
+
+  /**
+   * Spawns the engine and collects its stdout
+   */
+  private run(
+    executable: string,
+    args: string[],
+    text: string,
+    signal?: AbortSignal
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Speech synthesis cancelled'));
+        return;
+      }
+
+      const child = spawn(executable, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+      const chunks: Buffer[] = [];
+      const errors: Buffer[] = [];
+
+      const abort = (): void => {
+        child.kill();
+        reject(new Error('Speech synthesis cancelled'));
+      };
+      signal?.addEventListener('abort', abort, { once: true });
+
+      child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => errors.push(chunk));
+      child.stdin.on('error', reject);
+      child.on('error', reject);
+      child.on('close', (code) => {
+        signal?.removeEventListener('abort', abort);
+        if (code !== 0) {
+          const details = Buffer.concat(errors).toString().trim();
+          reject(new Error(`Local synthesizer exited with code ${code}: ${details}`));
+          return;
+        }
+        resolve(Buffer.concat(chunks));
+      });
+
+      child.stdin.end(text);
+    });
+  }
+}
@@ -1,17 +1,27 @@
 /**
  * Speech Recognition Service
- * Handles real-time speech recognition using Google Cloud Speech-to-Text API
- * with comprehensive error handling and performance monitoring
+ * Handles real-time speech recognition through the provider selected in the
+ * speech configuration with comprehensive error handling and performance monitoring
  * @version 1.0.0
  */
 
 import { injectable } from 'inversify';
-import * as speech from '@google-cloud/speech'; // ^5.5.0
 import { Observable, Subject } from 'rxjs'; // ^7.8.1
 import { AudioConfig, AudioChunk } from '../../types/audio.types';
+import { SpeechConfig } from '../../types/config.types';
 import { speechConfig } from '../../config/speech.config';
+import {
+  RecognitionResult,
+  RecognitionStream,
+  SpeechRecognitionProvider,
+  SpeechRecognitionProviderType
+} from '../../interfaces/speechRecognition.interface';
 import { AudioProcessorService } from './audioProcessor.service';
+import { GoogleRecognitionProvider } from './googleRecognition.provider';
+import { LocalRecognitionProvider } from './localRecognition.provider';
+import { FixtureRecognitionProvider } from './fixtureRecognition.provider';
 import { Result } from '../../types/common.types';
+import { logger } from '../../utils/logger.utils';
 
 /**
  * Interface for recognition performance metrics
@@ -26,33 +36,44 @@ interface RecognitionMetrics {
 }
 
 /**
- * Interface for recognition results
+ * Creates the recognition provider selected in the speech configuration
+ * @param config Speech configuration with provider credentials
+ * @returns Speech recognition provider
  */
-interface RecognitionResult {
-  transcript: string;
-  confidence: number;
-  isFinal: boolean;
-  stability?: number;
-  timestamp: number;
-}
+export const createSpeechRecognitionProvider = (
+  config: SpeechConfig & { googleSpeechConfig: Record<string, unknown> }
+): SpeechRecognitionProvider => {
+  switch (config.recognitionProvider) {
+    case SpeechRecognitionProviderType.GOOGLE:
+      return new GoogleRecognitionProvider(config.googleSpeechConfig);
+    case SpeechRecognitionProviderType.LOCAL:
+      return new LocalRecognitionProvider(config.localRecognizerCommand);
+    case SpeechRecognitionProviderType.FIXTURE:
+      return config.recognitionFixturePath
+        ? FixtureRecognitionProvider.fromFile(config.recognitionFixturePath)
+        : new FixtureRecognitionProvider({});
+    default:
+      throw new Error(`Unsupported speech recognition provider: ${config.recognitionProvider}`);
+  }
+};
 
 @injectable()
 export class SpeechRecognitionService {
-  private readonly speechClient: speech.SpeechClient;
-  private recognitionStream: speech.SpeechStream | null = null;
+  private recognitionStream: RecognitionStream | null = null;
+  private streamGeneration: number = 0;
+  private languageCode: string = speechConfig.languageCode;
   private readonly audioConfig: AudioConfig;
-  private readonly resultSubject: Subject<RecognitionResult>;
+  private resultSubject: Subject<RecognitionResult>;
   private retryCount: number = 0;
   private readonly MAX_RETRIES: number = 3;
   private readonly BACKOFF_MULTIPLIER: number = 1.5;
   private readonly performanceMetrics: RecognitionMetrics;
 
-  constructor(private readonly audioProcessor: AudioProcessorService) {
-    // Initialize Google Cloud Speech client
-    this.speechClient = new speech.SpeechClient({
-      credentials: speechConfig.googleSpeechConfig
-    });
-
+  constructor(
+    private readonly audioProcessor: AudioProcessorService,
+    private readonly provider: SpeechRecognitionProvider =
+      createSpeechRecognitionProvider(speechConfig)
+  ) {
     // Initialize configuration
     this.audioConfig = {
       sampleRate: speechConfig.sampleRate,
@@ -84,38 +105,19 @@ export class SpeechRecognitionService {
   public startRecognition(languageCode: string = 'en-US'): Observable<RecognitionResult> {
     try {
       // Close existing stream if any
-      this.stopRecognition();
-
-      // Configure recognition stream
-      const streamingConfig: speech.StreamingRecognizeRequest = {
-        config: {
-          encoding: 'LINEAR16',
-          sampleRateHertz: this.audioConfig.sampleRate,
-          languageCode,
-          enableAutomaticPunctuation: true,
-          model: 'latest_long',
-          useEnhanced: true,
-          metadata: {
-            interactionType: 'VOICE_COMMAND',
-            microphoneDistance: 'NEARFIELD',
-            originalMediaType: 'AUDIO',
-          }
-        },
-        interimResults: true
-      };
+      void this.stopRecognition();
 
-      // Create new recognition stream
-      this.recognitionStream = this.speechClient
-        .streamingRecognize(streamingConfig)
-        .on('error', this.handleRecognitionError.bind(this))
-        .on('data', this.handleRecognitionData.bind(this))
-        .on('end', () => {
-          console.log('Recognition stream ended');
-        });
+      this.resultSubject = new Subject<RecognitionResult>();
+      this.languageCode = languageCode;
+      this.openStream();
 
       return this.resultSubject.asObservable();
     } catch (error) {
-      console.error('Failed to start recognition:', error);
+      logger.error('Failed to start recognition', {
+        component: 'SpeechRecognitionService',
+        provider: this.provider.type,
+        error: error instanceof Error ? error.message : String(error)
+      });
       throw new Error('Recognition initialization failed');
     }
   }
@@ -138,13 +140,8 @@ export class SpeechRecognitionService {
         throw new Error('Audio processing failed');
       }
 
-      // Send processed audio to recognition stream
-      const success = this.recognitionStream.write(processedResult.data.data);
-      
-      if (!success) {
-        // Handle backpressure
-        await new Promise(resolve => this.recognitionStream!.once('drain', resolve));
-      }
+      // Send processed audio to the recognition provider, waiting out backpressure
+      await this.recognitionStream.write(processedResult.data.data);
 
       // Update metrics
       this.updateMetrics(startTime, true);
@@ -155,7 +152,7 @@ export class SpeechRecognitionService {
         error: null,
         metadata: {
           processingTime: performance.now() - startTime,
-          streamBufferFull: !success
+          provider: this.provider.type
         }
       };
     } catch (error) {
@@ -171,29 +168,39 @@ export class SpeechRecognitionService {
       this.recognitionStream.end();
       this.recognitionStream = null;
     }
+    this.streamGeneration++;
     this.retryCount = 0;
     this.resultSubject.complete();
   }
 
   /**
-   * Handles recognition data events
-   * @param data Recognition response data
+   * Opens a provider stream feeding the current result subject
    */
-  private handleRecognitionData(data: speech.v1.StreamingRecognizeResponse): void {
-    if (data.results && data.results.length > 0) {
-      const result = data.results[0];
-      const alternative = result.alternatives && result.alternatives[0];
+  private openStream(): void {
+    const generation = ++this.streamGeneration;
+    const isCurrent = (): boolean => generation === this.streamGeneration;
 
-      if (alternative) {
-        this.resultSubject.next({
-          transcript: alternative.transcript || '',
-          confidence: alternative.confidence || 0,
-          isFinal: result.isFinal || false,
-          stability: result.stability,
-          timestamp: Date.now()
-        });
+    this.recognitionStream = this.provider.createStream(
+      { languageCode: this.languageCode, sampleRate: this.audioConfig.sampleRate },
+      {
+        onResult: (result) => {
+          if (isCurrent()) {
+            this.resultSubject.next(result);
+          }
+        },
+        onError: (error) => {
+          if (isCurrent()) {
+            void this.handleRecognitionError(error);
+          }
+        },
+        onEnd: () => {
+          logger.debug('Recognition stream ended', {
+            component: 'SpeechRecognitionService',
+            provider: this.provider.type
+          });
+        }
       }
-    }
+    );
   }
 
   /**
@@ -201,14 +208,21 @@ export class SpeechRecognitionService {
    * @param error Recognition error
    */
   private async handleRecognitionError(error: Error): Promise<void> {
-    console.error('Recognition error:', error);
+    logger.error('Recognition error', {
+      component: 'SpeechRecognitionService',
+      provider: this.provider.type,
+      error: error.message
+    });
 
     if (this.retryCount < this.MAX_RETRIES) {
       this.retryCount++;
       const backoffTime = Math.pow(this.BACKOFF_MULTIPLIER, this.retryCount) * 1000;
-      
+
+      // Replace the failed stream, keeping existing subscribers
+      this.recognitionStream = null;
+      this.streamGeneration++;
       await new Promise(resolve => setTimeout(resolve, backoffTime));
-      this.startRecognition();
+      this.openStream();
     } else {
       this.resultSubject.error({
         code: 'RECOGNITION_ERROR',
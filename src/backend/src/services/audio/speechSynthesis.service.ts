@@ -1,16 +1,34 @@
 /**
  * Speech Synthesis Service
- * Provides high-quality text-to-speech synthesis using AWS Polly with support for
+ * Provides text-to-speech synthesis through the providers enabled in the speech
+ * configuration (AWS Polly, a local engine or a test tone) with support for
  * multiple voice options, SSML, and audio format conversion.
  * @version 1.0.0
  */
 
-import { Polly, SynthesizeSpeechCommand, SynthesizeSpeechCommandInput } from '@aws-sdk/client-polly'; // ^3.400.0
 import { Buffer } from 'buffer'; // ^6.0.3
 import { AudioConfig, AudioFormat } from '../../types/audio.types';
-import { VoiceSynthesisOptions } from '../../interfaces/voice.interface';
+import { SpeechConfig } from '../../types/config.types';
+import {
+  SpeechMark,
+  SpeechMarkType,
+  VoiceMetadata,
+  VoiceSynthesisOptions
+} from '../../interfaces/voice.interface';
+import {
+  SpeechSynthesisProvider,
+  SpeechSynthesisProviderType,
+  SynthesisChunk,
+  SynthesisRequest
+} from '../../interfaces/speechSynthesis.interface';
 import { speechConfig } from '../../config/speech.config';
-import { SYNTHESIS_FORMATS, SSML_TAGS } from '../../constants/voice.constants';
+import { SSML_TAGS } from '../../constants/voice.constants';
+import { PollyProviderConfig, PollySynthesisProvider } from './pollySynthesis.provider';
+import { LocalSynthesisProvider } from './localSynthesis.provider';
+import { ToneSynthesisProvider } from './toneSynthesis.provider';
+import { encodeFromPcm16, TranscodeOptions } from '../../utils/codec.utils';
+import { locateText, splitSentences } from '../../utils/text.utils';
+import { logger } from '../../utils/logger.utils';
 
 /**
  * Interface for retry configuration
@@ -22,24 +40,58 @@ interface RetryConfig {
 }
 
 /**
- * Service class for handling text-to-speech synthesis using AWS Polly
+ * Position of synthesized speech within a reply
+ */
+interface MarkTimeline {
+  /** Full reply text */
+  readonly text: string;
+  /** Milliseconds of reply audio synthesized so far */
+  time: number;
+  /** Reply text offset after the last synthesized sentence */
+  cursor: number;
+}
+
+/**
+ * Creates the synthesis providers enabled in the speech configuration
+ * @param config Speech configuration with provider credentials
+ * @returns Enabled providers in configuration order
+ */
+export const createSpeechSynthesisProviders = (
+  config: SpeechConfig & { awsPollyConfig: PollyProviderConfig }
+): SpeechSynthesisProvider[] => config.synthesisProviders.map((type) => {
+  switch (type) {
+    case SpeechSynthesisProviderType.POLLY:
+      return new PollySynthesisProvider(config.awsPollyConfig);
+    case SpeechSynthesisProviderType.LOCAL:
+      return new LocalSynthesisProvider({
+        command: config.localSynthesizerCommand,
+        sampleRate: config.localSynthesizerSampleRate,
+        voices: config.localSynthesizerVoices
+      });
+    case SpeechSynthesisProviderType.TONE:
+      return new ToneSynthesisProvider();
+    default:
+      throw new Error(`Unsupported speech synthesis provider: ${type}`);
+  }
+});
+
+/**
+ * Service class for handling text-to-speech synthesis
  */
 export class SpeechSynthesisService {
-  private readonly pollyClient: Polly;
   private readonly audioConfig: AudioConfig;
   private readonly cache: Map<string, { buffer: Buffer; timestamp: number }>;
   private readonly retryConfig: RetryConfig;
   private readonly cacheTTL: number = 3600000; // 1 hour in milliseconds
-
-  constructor() {
-    // Initialize AWS Polly client
-    this.pollyClient = new Polly({
-      credentials: {
-        accessKeyId: speechConfig.awsPollyConfig.accessKeyId,
-        secretAccessKey: speechConfig.awsPollyConfig.secretAccessKey
-      },
-      region: speechConfig.awsPollyConfig.region
-    });
+  private voiceProviders: Map<string, SpeechSynthesisProvider> | null = null;
+
+  constructor(
+    private readonly providers: SpeechSynthesisProvider[] =
+      createSpeechSynthesisProviders(speechConfig)
+  ) {
+    if (providers.length === 0) {
+      throw new Error('At least one speech synthesis provider is required');
+    }
 
     // Set audio configuration
     this.audioConfig = {
@@ -62,62 +114,92 @@ export class SpeechSynthesisService {
   }
 
   /**
-   * Synthesizes text to speech using AWS Polly
+   * Synthesizes text to speech with the provider serving the voice
    * @param text Text to synthesize
    * @param options Voice synthesis options
+   * @param signal Optional signal cancelling an in-flight synthesis request
    * @returns Promise resolving to audio buffer
    */
   public async synthesizeSpeech(
     text: string,
-    options: VoiceSynthesisOptions
+    options: VoiceSynthesisOptions,
+    signal?: AbortSignal
   ): Promise<Buffer> {
     // Validate input
     if (!text || !options.voiceId) {
       throw new Error('Invalid input parameters');
     }
 
-    // Generate cache key
-    const cacheKey = this.generateCacheKey(text, options);
-
-    // Check cache
-    const cachedResult = this.getCachedResult(cacheKey);
-    if (cachedResult) {
-      return cachedResult;
+    try {
+      return await this.synthesize({
+        text,
+        textType: 'text',
+        options,
+        sampleRate: this.audioConfig.sampleRate,
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new Error('Speech synthesis cancelled');
+      }
+      throw new Error(`Speech synthesis failed: ${error.message}`);
     }
+  }
 
-    // Prepare Polly parameters
-    const params: SynthesizeSpeechCommandInput = {
-      Engine: speechConfig.awsPollyConfig.engine,
-      OutputFormat: speechConfig.awsPollyConfig.outputFormat,
-      SampleRate: this.audioConfig.sampleRate.toString(),
-      Text: text,
-      VoiceId: options.voiceId,
-      LanguageCode: options.languageCode
-    };
+  /**
+   * Synthesizes text sentence by sentence so playback can start before the whole
+   * reply is synthesized. The first sentence is streamed from the provider when
+   * it supports streaming; each following sentence is synthesized while the
+   * previous one is being consumed. Every chunk carries the speech marks of its
+   * audio, with a sentence mark per synthesized sentence.
+   * @param text Text to synthesize
+   * @param options Voice synthesis options
+   * @param signal Optional signal cancelling in-flight synthesis requests
+   * @returns Async generator of PCM chunks aligned to whole samples with their marks
+   */
+  public async *synthesizeSpeechStream(
+    text: string,
+    options: VoiceSynthesisOptions,
+    signal?: AbortSignal
+  ): AsyncGenerator<SynthesisChunk> {
+    // Validate input
+    if (!text || !options.voiceId) {
+      throw new Error('Invalid input parameters');
+    }
 
-    // Add optional parameters
-    if (options.rate) {
-      params.SpeechMarkTypes = [`rate:${options.rate}`];
+    const requests: SynthesisRequest[] = splitSentences(text).map((sentence) => ({
+      text: sentence,
+      textType: 'text',
+      options,
+      sampleRate: this.audioConfig.sampleRate,
+      signal
+    }));
+    if (requests.length === 0) {
+      return;
     }
 
     try {
-      // Execute with retry logic
-      const result = await this.executeWithRetry(async () => {
-        const command = new SynthesizeSpeechCommand(params);
-        const response = await this.pollyClient.send(command);
-        
-        if (!response.AudioStream) {
-          throw new Error('No audio stream in response');
-        }
-
-        return Buffer.from(await response.AudioStream.transformToByteArray());
-      });
-
-      // Cache successful result
-      this.cacheResult(cacheKey, result);
+      const provider = await this.resolveProvider(options.voiceId);
+      const timeline: MarkTimeline = { text, time: 0, cursor: 0 };
+      let next = requests.length > 1 ? this.prefetch(provider, requests[1]) : null;
+
+      if (provider.synthesizeStream) {
+        const audio = provider.synthesizeStream(requests[0]);
+        yield* this.streamFirstSentence(provider, requests[0], audio, timeline);
+      } else {
+        const chunk = await this.synthesizeChunk(provider, requests[0]);
+        yield this.placeOnTimeline(chunk, requests[0].text, timeline);
+      }
 
-      return result;
+      for (let index = 1; next && !signal?.aborted; index++) {
+        const chunk = await next;
+        next = index + 1 < requests.length ? this.prefetch(provider, requests[index + 1]) : null;
+        yield this.placeOnTimeline(chunk, requests[index].text, timeline);
+      }
     } catch (error) {
+      if (signal?.aborted) {
+        throw new Error('Speech synthesis cancelled');
+      }
       throw new Error(`Speech synthesis failed: ${error.message}`);
     }
   }
@@ -135,75 +217,296 @@ export class SpeechSynthesisService {
     // Validate SSML
     this.validateSSML(ssml);
 
-    // Generate cache key
-    const cacheKey = this.generateCacheKey(ssml, options, true);
+    try {
+      return await this.synthesize({
+        text: ssml,
+        textType: 'ssml',
+        options,
+        sampleRate: this.audioConfig.sampleRate
+      });
+    } catch (error) {
+      throw new Error(`SSML synthesis failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Aggregates the voices of all enabled providers
+   * Providers that cannot list their voices are skipped
+   * @returns Promise resolving to voice metadata
+   */
+  public async getAvailableVoices(): Promise<VoiceMetadata[]> {
+    const results = await Promise.allSettled(
+      this.providers.map((provider) => provider.listVoices())
+    );
+
+    const voiceProviders = new Map<string, SpeechSynthesisProvider>();
+    const voices: VoiceMetadata[] = [];
+
+    results.forEach((result, index) => {
+      const provider = this.providers[index];
+      if (result.status === 'rejected') {
+        logger.warn('Failed to list synthesis voices', {
+          component: 'SpeechSynthesisService',
+          provider: provider.type,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+        });
+        return;
+      }
+
+      for (const voice of result.value) {
+        if (!voiceProviders.has(voice.voiceId)) {
+          voiceProviders.set(voice.voiceId, provider);
+          voices.push(voice);
+        }
+      }
+    });
+
+    this.voiceProviders = voiceProviders;
+    return voices;
+  }
+
+  /**
+   * Runs a synthesis request with caching and retries
+   */
+  private async synthesize(request: SynthesisRequest): Promise<Buffer> {
+    const provider = await this.resolveProvider(request.options.voiceId);
 
     // Check cache
+    const cacheKey = this.generateCacheKey(provider.type, request);
     const cachedResult = this.getCachedResult(cacheKey);
     if (cachedResult) {
       return cachedResult;
     }
 
-    const params: SynthesizeSpeechCommandInput = {
-      Engine: speechConfig.awsPollyConfig.engine,
-      OutputFormat: speechConfig.awsPollyConfig.outputFormat,
-      SampleRate: this.audioConfig.sampleRate.toString(),
-      Text: ssml,
-      TextType: 'ssml',
-      VoiceId: options.voiceId
+    const result = await this.executeWithRetry(
+      () => provider.synthesize(request),
+      request.signal
+    );
+
+    // Cache successful result
+    this.cacheResult(cacheKey, result);
+
+    return result;
+  }
+
+  /**
+   * Streams the first sentence from the provider, attaching its marks to the
+   * first audio chunk. Marks of providers without native marks can only be
+   * estimated once the audio is complete and follow in a trailing chunk.
+   */
+  private async *streamFirstSentence(
+    provider: SpeechSynthesisProvider,
+    request: SynthesisRequest,
+    stream: AsyncIterable<Buffer>,
+    timeline: MarkTimeline
+  ): AsyncGenerator<SynthesisChunk> {
+    const pendingMarks = this.requestMarks(provider, request);
+    pendingMarks.catch(() => undefined);
+
+    // Marks are placed on copies; the timeline advances once the duration is known
+    let marks: SpeechMark[] | null | undefined;
+    let duration = 0;
+
+    for await (const audio of this.alignSamples(stream)) {
+      duration += this.durationOf(audio);
+      if (marks === undefined) {
+        marks = await pendingMarks;
+        yield this.placeOnTimeline({ audio, marks: marks ?? [] }, request.text, { ...timeline });
+      } else {
+        yield { audio, marks: [] };
+      }
+    }
+
+    if (!marks) {
+      const estimated = this.estimateWordMarks(request.text, duration);
+      yield this.placeOnTimeline(
+        { audio: Buffer.alloc(0), marks: estimated },
+        request.text,
+        { ...timeline }
+      );
+    }
+
+    timeline.time += duration;
+    timeline.cursor = locateText(timeline.text, request.text, timeline.cursor).end;
+  }
+
+  /**
+   * Starts synthesizing a request ahead of time
+   * Rejections are observed when the result is awaited; a consumer that stops
+   * early never awaits it, so the rejection is marked as handled here
+   */
+  private prefetch(
+    provider: SpeechSynthesisProvider,
+    request: SynthesisRequest
+  ): Promise<SynthesisChunk> {
+    const pending = this.synthesizeChunk(provider, request);
+    pending.catch(() => undefined);
+    return pending;
+  }
+
+  /**
+   * Synthesizes one sentence with its marks relative to the sentence
+   */
+  private async synthesizeChunk(
+    provider: SpeechSynthesisProvider,
+    request: SynthesisRequest
+  ): Promise<SynthesisChunk> {
+    const [audio, marks] = await Promise.all([
+      this.synthesize(request),
+      this.requestMarks(provider, request)
+    ]);
+
+    return {
+      audio,
+      marks: marks ?? this.estimateWordMarks(request.text, this.durationOf(audio))
     };
+  }
 
-    try {
-      const result = await this.executeWithRetry(async () => {
-        const command = new SynthesizeSpeechCommand(params);
-        const response = await this.pollyClient.send(command);
-        
-        if (!response.AudioStream) {
-          throw new Error('No audio stream in response');
-        }
+  /**
+   * Requests native speech marks, returning null when the provider has none
+   * or the request fails
+   */
+  private async requestMarks(
+    provider: SpeechSynthesisProvider,
+    request: SynthesisRequest
+  ): Promise<SpeechMark[] | null> {
+    if (!provider.synthesizeMarks) {
+      return null;
+    }
 
-        return Buffer.from(await response.AudioStream.transformToByteArray());
+    try {
+      return await provider.synthesizeMarks(request);
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw error;
+      }
+      logger.warn('Failed to synthesize speech marks, estimating word timing', {
+        component: 'SpeechSynthesisService',
+        provider: provider.type,
+        error: error instanceof Error ? error.message : String(error)
       });
+      return null;
+    }
+  }
 
-      // Cache successful result
-      this.cacheResult(cacheKey, result);
+  /**
+   * Spreads word marks over the audio in proportion to word length
+   */
+  private estimateWordMarks(text: string, duration: number): SpeechMark[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    const weight = words.reduce((total, word) => total + word.length + 1, 0);
+
+    let elapsed = 0;
+    return words.map((value) => {
+      const mark = { type: SpeechMarkType.WORD, time: Math.round(elapsed), value };
+      elapsed += (duration * (value.length + 1)) / weight;
+      return mark;
+    });
+  }
 
-      return result;
-    } catch (error) {
-      throw new Error(`SSML synthesis failed: ${error.message}`);
+  /**
+   * Moves sentence-relative marks onto the reply timeline: times are offset by
+   * the audio synthesized before the sentence and words are located in the
+   * reply text. A sentence mark leads the marks of each sentence.
+   * @param chunk Audio and sentence-relative marks
+   * @param sentence Synthesized sentence
+   * @param timeline Reply text and current position, advanced past the sentence
+   */
+  private placeOnTimeline(
+    chunk: SynthesisChunk,
+    sentence: string,
+    timeline: MarkTimeline
+  ): SynthesisChunk {
+    const location = locateText(timeline.text, sentence, timeline.cursor);
+    let position = location.start;
+
+    const marks = chunk.marks.map((mark): SpeechMark => {
+      const time = mark.time + timeline.time;
+      const start = mark.type === SpeechMarkType.WORD
+        ? timeline.text.indexOf(mark.value, position)
+        : -1;
+      if (start < 0 || start >= location.end) {
+        return { type: mark.type, time, value: mark.value };
+      }
+
+      position = start + mark.value.length;
+      return { type: mark.type, time, start, end: position, value: mark.value };
+    });
+
+    const sentenceMark: SpeechMark = {
+      type: SpeechMarkType.SENTENCE,
+      time: timeline.time,
+      start: location.start,
+      end: location.end,
+      value: timeline.text.slice(location.start, location.end)
+    };
+
+    timeline.time += this.durationOf(chunk.audio);
+    timeline.cursor = location.end;
+
+    return {
+      audio: chunk.audio,
+      marks: chunk.marks.length > 0 ? [sentenceMark, ...marks] : []
+    };
+  }
+
+  /**
+   * Milliseconds of audio in a PCM buffer
+   */
+  private durationOf(audio: Buffer): number {
+    return audio.length / ((this.audioConfig.sampleRate * (this.audioConfig.bitDepth / 8)) / 1000);
+  }
+
+  /**
+   * Regroups streamed PCM so no chunk ends in the middle of a 16-bit sample
+   */
+  private async *alignSamples(chunks: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+    let carry: Buffer | null = null;
+    for await (const chunk of chunks) {
+      const data: Buffer = carry ? Buffer.concat([carry, chunk]) : chunk;
+      const aligned = data.length - (data.length % 2);
+      carry = aligned < data.length ? data.subarray(aligned) : null;
+      if (aligned > 0) {
+        yield data.subarray(0, aligned);
+      }
     }
   }
 
   /**
-   * Converts audio buffer to target format
-   * @param audioBuffer Input audio buffer
+   * Finds the provider offering a voice, defaulting to the first enabled provider
+   */
+  private async resolveProvider(voiceId: string): Promise<SpeechSynthesisProvider> {
+    if (this.providers.length === 1) {
+      return this.providers[0];
+    }
+
+    if (!this.voiceProviders) {
+      await this.getAvailableVoices();
+    }
+
+    return this.voiceProviders?.get(voiceId) ?? this.providers[0];
+  }
+
+  /**
+   * Converts synthesized PCM to the target format
+   * @param audioBuffer 16-bit mono PCM produced by the synthesis providers
    * @param targetFormat Target audio format
+   * @param options Transcoding options such as the G.711 companding law
    * @returns Promise resolving to converted audio buffer
    */
   public async convertFormat(
     audioBuffer: Buffer,
-    targetFormat: AudioFormat
+    targetFormat: AudioFormat,
+    options: TranscodeOptions = {}
   ): Promise<Buffer> {
     if (!audioBuffer || !targetFormat) {
       throw new Error('Invalid conversion parameters');
     }
 
-    const formatConfig = SYNTHESIS_FORMATS[targetFormat];
-    if (!formatConfig) {
-      throw new Error(`Unsupported target format: ${targetFormat}`);
-    }
-
-    // Implement format conversion logic based on target format
-    switch (targetFormat) {
-      case AudioFormat.OPUS:
-        return this.convertToOpus(audioBuffer, formatConfig);
-      case AudioFormat.PCM:
-        return this.convertToPCM(audioBuffer, formatConfig);
-      case AudioFormat.AAC:
-        return this.convertToAAC(audioBuffer, formatConfig);
-      default:
-        throw new Error(`Conversion to ${targetFormat} not implemented`);
-    }
+    return encodeFromPcm16(audioBuffer, targetFormat, {
+      ...options,
+      sampleRate: this.audioConfig.sampleRate
+    });
   }
 
   /**
@@ -236,12 +539,10 @@ export class SpeechSynthesisService {
   /**
    * Generates cache key for synthesis results
    */
-  private generateCacheKey(
-    text: string,
-    options: VoiceSynthesisOptions,
-    isSSML: boolean = false
-  ): string {
-    return `${isSSML ? 'ssml' : 'text'}-${text}-${options.voiceId}-${options.rate}-${options.pitch}`;
+  private generateCacheKey(provider: string, request: SynthesisRequest): string {
+    const { options } = request;
+    return `${provider}-${request.textType}-${request.text}-${options.voiceId}-` +
+      `${options.rate}-${options.pitch}`;
   }
 
   /**
@@ -265,14 +566,16 @@ export class SpeechSynthesisService {
   /**
    * Executes function with retry logic
    */
-  private async executeWithRetry<T>(fn: () => Promise<T>): Promise<T> {
+  private async executeWithRetry<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     let lastError: Error;
     for (let attempt = 1; attempt <= this.retryConfig.maxAttempts; attempt++) {
       try {
         return await fn();
       } catch (error) {
         lastError = error;
-        if (attempt === this.retryConfig.maxAttempts) break;
+        if (attempt === this.retryConfig.maxAttempts || signal?.aborted) {
+          break;
+        }
         
         const delay = Math.min(
           this.retryConfig.baseDelay * Math.pow(2, attempt - 1),
@@ -283,20 +586,4 @@ export class SpeechSynthesisService {
     }
     throw lastError;
   }
-
-  // Format conversion helper methods
-  private async convertToOpus(buffer: Buffer, config: typeof SYNTHESIS_FORMATS.OPUS): Promise<Buffer> {
-    // Implement Opus conversion
-    throw new Error('Opus conversion not implemented');
-  }
-
-  private async convertToPCM(buffer: Buffer, config: typeof SYNTHESIS_FORMATS.PCM): Promise<Buffer> {
-    // Implement PCM conversion
-    throw new Error('PCM conversion not implemented');
-  }
-
-  private async convertToAAC(buffer: Buffer, config: typeof SYNTHESIS_FORMATS.AAC): Promise<Buffer> {
-    // Implement AAC conversion
-    throw new Error('AAC conversion not implemented');
-  }
 }
\ No newline at end of file
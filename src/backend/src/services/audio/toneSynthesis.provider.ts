@@ -0,0 +1,115 @@
+/**
+ * Tone Speech Synthesis Provider
+ * Deterministic test synthesizer producing a sine tone whose duration follows
+ * the word count, so the voice loop can be exercised without a speech engine
+ * @version 1.0.0
+ */
+
+import {
+  SpeechMark,
+  SpeechMarkType,
+  VoiceMetadata
+} from '../../interfaces/voice.interface';
+import {
+  SpeechSynthesisProvider,
+  SpeechSynthesisProviderType,
+  SynthesisRequest
+} from '../../interfaces/speechSynthesis.interface';
+import { AudioFormat } from '../../types/audio.types';
+
+/**
+ * Tone voices and their base frequencies in Hz
+ */
+export const TONE_VOICES: Readonly<Record<string, number>> = {
+  'tone-low': 220,
+  'tone-high': 440
+};
+
+/**
+ * Duration of a single word at rate 1.0 in milliseconds
+ */
+const WORD_DURATION_MS = 300;
+
+/**
+ * Fade applied to both ends of the tone to avoid clicks, in milliseconds
+ */
+const FADE_MS = 5;
+
+/**
+ * Words of the request text, ignoring SSML tags
+ */
+const wordsOf = (request: SynthesisRequest): string[] => {
+  const text = request.textType === 'ssml' ? request.text.replace(/<[^>]+>/g, ' ') : request.text;
+  return text.split(/\s+/).filter(Boolean);
+};
+
+/**
+ * Synthesis provider generating sine tones
+ */
+export class ToneSynthesisProvider implements SpeechSynthesisProvider {
+  public readonly type = SpeechSynthesisProviderType.TONE;
+
+  /**
+   * Generates a tone lasting WORD_DURATION_MS per word, scaled by the speaking rate
+   * @param request Synthesis request
+   * @returns Promise resolving to 16-bit mono PCM at the requested sample rate
+   */
+  public async synthesize(request: SynthesisRequest): Promise<Buffer> {
+    if (request.signal?.aborted) {
+      throw new Error('Speech synthesis cancelled');
+    }
+
+    const { options, sampleRate } = request;
+    const words = Math.max(wordsOf(request).length, 1);
+    const durationMs = (words * WORD_DURATION_MS) / (options.rate || 1);
+    const sampleCount = Math.round((durationMs * sampleRate) / 1000);
+    const fadeSamples = Math.max(
+      Math.min(Math.round((FADE_MS * sampleRate) / 1000), sampleCount / 2),
+      1
+    );
+
+    const baseFrequency = TONE_VOICES[options.voiceId] ?? TONE_VOICES['tone-low'];
+    const frequency = baseFrequency * Math.pow(2, (options.pitch || 0) / 12);
+    const amplitude = 0.3 * 32767 * ((options.volume ?? 100) / 100);
+
+    const pcm = Buffer.alloc(sampleCount * 2);
+    for (let i = 0; i < sampleCount; i++) {
+      const envelope = Math.min(1, i / fadeSamples, (sampleCount - 1 - i) / fadeSamples);
+      const sample = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * amplitude * envelope;
+      pcm.writeInt16LE(Math.round(sample), i * 2);
+    }
+
+    return pcm;
+  }
+
+  /**
+   * Marks each word at the start of its WORD_DURATION_MS slot
+   * @param request Synthesis request
+   * @returns Promise resolving to word marks
+   */
+  public async synthesizeMarks(request: SynthesisRequest): Promise<SpeechMark[]> {
+    const wordDuration = WORD_DURATION_MS / (request.options.rate || 1);
+    return wordsOf(request).map((value, index) => ({
+      type: SpeechMarkType.WORD,
+      time: Math.round(index * wordDuration),
+      value
+    }));
+  }
+
+  /**
+   * Lists the tone voices
+   * @returns Promise resolving to voice metadata
+   */
+  public async listVoices(): Promise<VoiceMetadata[]> {
+    return Object.keys(TONE_VOICES).map((voiceId) => ({
+      voiceId,
+      name: voiceId === 'tone-low' ? 'Low Test Tone' : 'High Test Tone',
+      language: 'en-US',
+      gender: 'neutral',
+      supportedEffects: [],
+      sampleRate: 16000,
+      codecSupport: [AudioFormat.PCM],
+      provider: this.type
+    }));
+  }
+}
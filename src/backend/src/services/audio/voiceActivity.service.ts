@@ -5,7 +5,6 @@
  * @version 1.0.0
  */
 
-import { WebAssembly } from '@types/webassembly-js-api'; // v0.0.18
 import { VoiceActivityConfig, AudioChunk } from '../../types/audio.types';
 import { calculateAudioLevel, detectSilence } from '../../utils/audio.utils';
 import { Result } from '../../types/common.types';
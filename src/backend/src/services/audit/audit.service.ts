@@ -0,0 +1,143 @@
+/**
+ * Audit Service
+ * Records security-relevant events in the hash-chained audit log and lets
+ * administrators query the log and verify that it has not been altered
+ * @version 1.0.0
+ */
+
+import {
+  AUDIT_GENESIS_HASH,
+  AuditRepository,
+  hashedContent
+} from '../../db/repositories/audit.repository';
+import {
+  AuditChainVerification,
+  AuditEvent,
+  AuditEventInput,
+  AuditEventQuery,
+  AuditEventType
+} from '../../interfaces/audit.interface';
+import { PaginatedResult, Result } from '../../types/common.types';
+import { chainHash } from '../../utils/crypto.utils';
+import { createError } from '../../utils/error.utils';
+import { logger } from '../../utils/logger.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+
+// Number of events loaded per step while verifying the chain
+const VERIFY_BATCH_SIZE = 500;
+
+export class AuditService {
+  constructor(private readonly auditRepository: AuditRepository = new AuditRepository()) {}
+
+  /**
+   * Appends an event to the audit log
+   * Use for actions that must not proceed unaudited
+   * @param event - Event to record
+   * @returns Stored event
+   * @throws ErrorInfo with SYSTEM_ERROR when the event could not be written
+   */
+  public async record<T extends AuditEventType>(event: AuditEventInput<T>): Promise<AuditEvent> {
+    try {
+      return await this.auditRepository.append(event);
+    } catch (error) {
+      logger.error('Failed to write audit event', { error, type: event.type });
+      throw createError(ERROR_CODES.SYSTEM_ERROR, { message: 'Audit log unavailable' });
+    }
+  }
+
+  /**
+   * Appends an event to the audit log for an action that has already taken effect
+   * Failures are logged with the event so it can be reconciled from the logs
+   * @param event - Event to record
+   */
+  public async tryRecord<T extends AuditEventType>(event: AuditEventInput<T>): Promise<void> {
+    try {
+      await this.auditRepository.append(event);
+    } catch (error) {
+      logger.error('Failed to write audit event', { error, event });
+    }
+  }
+
+  /**
+   * Retrieves one page of audit events, newest first
+   * @param query - Filters, page size and the cursor of the previous page
+   */
+  public async queryEvents(query: AuditEventQuery): Promise<Result<PaginatedResult<AuditEvent>>> {
+    try {
+      const page = await this.auditRepository.findEvents(query);
+      return { success: true, data: page, error: null, metadata: {} };
+    } catch (error) {
+      logger.error('Failed to query audit events', { error, query });
+      return {
+        success: false,
+        data: null as unknown as PaginatedResult<AuditEvent>,
+        error: createError(ERROR_CODES.SYSTEM_ERROR, {
+          originalError: error instanceof Error ? error.message : 'Unknown error'
+        }),
+        metadata: {}
+      };
+    }
+  }
+
+  /**
+   * Recomputes the hash chain to detect altered, removed or reordered events
+   * @param fromSequence - First event to verify; its predecessor is trusted
+   */
+  public async verifyChain(fromSequence: number = 1): Promise<Result<AuditChainVerification>> {
+    try {
+      let previous: AuditEvent | null = null;
+      let next = fromSequence;
+      let checked = 0;
+
+      if (fromSequence > 1) {
+        [previous] = await this.auditRepository.findChain(fromSequence - 1, 1);
+        if (previous?.sequence !== fromSequence - 1) {
+          return this.verification(false, checked, fromSequence - 1);
+        }
+      }
+
+      for (;;) {
+        const batch = await this.auditRepository.findChain(next, VERIFY_BATCH_SIZE);
+        for (const event of batch) {
+          const expectedPrevious = previous?.hash ?? AUDIT_GENESIS_HASH;
+          const intact = event.sequence === next &&
+            event.previousHash === expectedPrevious &&
+            event.hash === chainHash(expectedPrevious, hashedContent(event));
+
+          if (!intact) {
+            logger.warn('Audit chain verification failed', { sequence: next });
+            return this.verification(false, checked, next);
+          }
+
+          previous = event;
+          next++;
+          checked++;
+        }
+
+        if (batch.length < VERIFY_BATCH_SIZE) {
+          return this.verification(true, checked, null);
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to verify audit chain', { error, fromSequence });
+      return {
+        success: false,
+        data: null as unknown as AuditChainVerification,
+        error: createError(ERROR_CODES.SYSTEM_ERROR, {
+          originalError: error instanceof Error ? error.message : 'Unknown error'
+        }),
+        metadata: {}
+      };
+    }
+  }
+
+  private verification(
+    valid: boolean,
+    checked: number,
+    brokenAt: number | null
+  ): Result<AuditChainVerification> {
+    return { success: true, data: { valid, checked, brokenAt }, error: null, metadata: {} };
+  }
+}
+
+export const auditService = new AuditService();
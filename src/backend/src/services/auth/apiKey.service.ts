@@ -0,0 +1,168 @@
+/**
+ * API Key Service
+ * Issues and authenticates long-lived keys used by backend systems in place of
+ * an interactive login. Keys are random, shown once at creation and stored only
+ * as a SHA-256 hash; a key acts as its owner, limited to its scopes.
+ * @version 1.0.0
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { ApiKeyRepository } from '../../db/repositories/apiKey.repository';
+import { AuditService, auditService } from '../audit/audit.service';
+import {
+  ApiKey,
+  ApiKeyCreateParams,
+  ApiKeyPrincipal,
+  CreatedApiKey,
+  IApiKeyService
+} from '../../interfaces/apiKey.interface';
+import { UserStatus } from '../../interfaces/user.interface';
+import { AuditEventType } from '../../interfaces/audit.interface';
+import { Result, UUID } from '../../types/common.types';
+import { createError } from '../../utils/error.utils';
+import { logger } from '../../utils/logger.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+import { API_KEYS } from '../../constants/auth.constants';
+
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+export class ApiKeyService implements IApiKeyService {
+  constructor(
+    private readonly apiKeyRepository: ApiKeyRepository = new ApiKeyRepository(),
+    private readonly audit: AuditService = auditService
+  ) {}
+
+  /**
+   * Creates an API key
+   * @param userId - Owner of the key
+   * @param params - Name, scopes, rate limit and expiry
+   * @returns Stored key and the key itself, VALIDATION_ERROR when the owner has too many keys
+   */
+  public async createKey(
+    userId: UUID,
+    params: ApiKeyCreateParams
+  ): Promise<Result<CreatedApiKey>> {
+    try {
+      const active = await this.apiKeyRepository.countActive(userId);
+      if (active >= API_KEYS.MAX_PER_USER) {
+        return this.failure(ERROR_CODES.VALIDATION_ERROR, {
+          message: 'API key limit reached',
+          limit: API_KEYS.MAX_PER_USER
+        });
+      }
+
+      const key = `${API_KEYS.PREFIX}${randomBytes(API_KEYS.SECRET_BYTES).toString('base64url')}`;
+      const apiKey = await this.apiKeyRepository.create(
+        userId,
+        key.slice(0, API_KEYS.DISPLAY_LENGTH),
+        hashKey(key),
+        params
+      );
+      await this.audit.tryRecord({
+        type: AuditEventType.API_KEY_CREATED,
+        actorId: userId,
+        subjectType: 'api_key',
+        subjectId: apiKey.id,
+        details: { name: apiKey.name, scopes: apiKey.scopes }
+      });
+
+      return this.success({ apiKey, key });
+    } catch (error) {
+      logger.error('Failed to create API key', { error, userId });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to create API key' });
+    }
+  }
+
+  /**
+   * Lists a user's keys that have not been revoked
+   * @param userId - Owner of the keys
+   */
+  public async listKeys(userId: UUID): Promise<Result<ApiKey[]>> {
+    try {
+      return this.success(await this.apiKeyRepository.findByUser(userId));
+    } catch (error) {
+      logger.error('Failed to list API keys', { error, userId });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to list API keys' });
+    }
+  }
+
+  /**
+   * Revokes one of a user's keys; requests with the key fail from then on
+   * @param userId - Owner of the key
+   * @param keyId - Key to revoke
+   * @returns NOT_FOUND when the user has no such key or it was already revoked
+   */
+  public async revokeKey(userId: UUID, keyId: UUID): Promise<Result<void>> {
+    try {
+      if (!(await this.apiKeyRepository.revoke(keyId, userId))) {
+        return this.failure(ERROR_CODES.NOT_FOUND, { message: 'API key not found', keyId });
+      }
+      await this.audit.tryRecord({
+        type: AuditEventType.API_KEY_REVOKED,
+        actorId: userId,
+        subjectType: 'api_key',
+        subjectId: keyId,
+        details: {}
+      });
+
+      return this.success(undefined);
+    } catch (error) {
+      logger.error('Failed to revoke API key', { error, userId, keyId });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to revoke API key' });
+    }
+  }
+
+  /**
+   * Resolves the identity behind a presented key
+   * Records the time of use, at most once per USAGE_UPDATE_INTERVAL, without delaying the request
+   * @param key - Key from the request
+   * @returns Key and owner, AUTH_ERROR when the key is unknown, revoked or expired
+   * or its owner is no longer active
+   */
+  public async authenticate(key: string): Promise<Result<ApiKeyPrincipal>> {
+    if (!key.startsWith(API_KEYS.PREFIX)) {
+      return this.failure(ERROR_CODES.AUTH_ERROR, { message: 'Invalid API key' });
+    }
+
+    try {
+      const principal = await this.apiKeyRepository.findByHash(hashKey(key));
+      const now = new Date();
+      if (!principal || principal.apiKey.revokedAt) {
+        return this.failure(ERROR_CODES.AUTH_ERROR, { message: 'Invalid API key' });
+      }
+      if (principal.apiKey.expiresAt && principal.apiKey.expiresAt <= now) {
+        return this.failure(ERROR_CODES.AUTH_ERROR, { message: 'API key expired' });
+      }
+      if (principal.owner.status !== UserStatus.ACTIVE) {
+        return this.failure(ERROR_CODES.AUTH_ERROR, { message: 'Account is not active' });
+      }
+
+      const { lastUsedAt } = principal.apiKey;
+      if (!lastUsedAt || now.getTime() - lastUsedAt.getTime() >= API_KEYS.USAGE_UPDATE_INTERVAL) {
+        this.apiKeyRepository.recordUse(principal.apiKey.id, now).catch((error) => {
+          logger.warn('Failed to record API key use', { error, keyId: principal.apiKey.id });
+        });
+      }
+
+      return this.success(principal);
+    } catch (error) {
+      logger.error('Failed to authenticate API key', { error });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to authenticate API key' });
+    }
+  }
+
+  private success<T>(data: T): Result<T> {
+    return { success: true, data, error: null, metadata: {} };
+  }
+
+  private failure<T>(code: ERROR_CODES, details: Record<string, unknown>): Result<T> {
+    return {
+      success: false,
+      data: null as unknown as T,
+      error: createError(code, details),
+      metadata: {}
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
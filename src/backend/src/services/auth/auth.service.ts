@@ -12,6 +12,7 @@ import { v4 as uuidv4 } from 'uuid';
 
 import { UserRepository } from '../../db/repositories/user.repository';
 import { jwtService } from './jwt.service';
+import { AuditService, auditService } from '../audit/audit.service';
 import { logger } from '../../utils/logger.utils';
 import { createError } from '../../utils/error.utils';
 import { validateEmail } from '../../utils/validation.utils';
@@ -22,7 +23,8 @@ import {
   IAuthToken,
   ITokenPayload
 } from '../../interfaces/auth.interface';
-import { Result } from '../../types/common.types';
+import { AuditEventType } from '../../interfaces/audit.interface';
+import { Result, UUID } from '../../types/common.types';
 
 // Rate limiter configuration for login attempts
 const loginRateLimiter = new RateLimiterMemory({
@@ -33,11 +35,11 @@ const loginRateLimiter = new RateLimiterMemory({
 
 export class AuthService {
   private readonly userRepository: UserRepository;
-  private readonly tokenBlacklist: Set<string>;
+  private readonly audit: AuditService;
 
-  constructor(userRepository: UserRepository) {
+  constructor(userRepository: UserRepository, audit: AuditService = auditService) {
     this.userRepository = userRepository;
-    this.tokenBlacklist = new Set<string>();
+    this.audit = audit;
   }
 
   /**
@@ -112,6 +114,15 @@ export class AuthService {
           userId: user.id,
           ip: context.ip
         });
+        await this.audit.tryRecord({
+          type: AuditEventType.LOGIN_FAILED,
+          actorId: null,
+          subjectType: 'user',
+          subjectId: user.id,
+          details: { reason: 'INVALID_PASSWORD' },
+          ipAddress: context.ip,
+          userAgent: context.userAgent
+        });
         return {
           success: false,
           error: createError(ERROR_CODES.AUTH_ERROR, {
@@ -128,6 +139,15 @@ export class AuthService {
           userId: user.id,
           status: user.status
         });
+        await this.audit.tryRecord({
+          type: AuditEventType.LOGIN_FAILED,
+          actorId: null,
+          subjectType: 'user',
+          subjectId: user.id,
+          details: { reason: 'ACCOUNT_INACTIVE' },
+          ipAddress: context.ip,
+          userAgent: context.userAgent
+        });
         return {
           success: false,
           error: createError(ERROR_CODES.AUTH_ERROR, {
@@ -144,6 +164,10 @@ export class AuthService {
         email: user.email,
         role: user.role,
         version: user.tokenVersion,
+        ...(user.organizationId && {
+          organizationId: user.organizationId,
+          organizationRole: user.organizationRole
+        }),
         iat: Math.floor(Date.now() / 1000),
         exp: Math.floor(Date.now() / 1000) + 900 // 15 minutes
       };
@@ -159,6 +183,15 @@ export class AuthService {
         ip: context.ip,
         userAgent: context.userAgent
       });
+      await this.audit.tryRecord({
+        type: AuditEventType.LOGIN_SUCCEEDED,
+        actorId: user.id,
+        subjectType: 'user',
+        subjectId: user.id,
+        details: { role: user.role },
+        ipAddress: context.ip,
+        userAgent: context.userAgent
+      });
 
       // Return auth result
       return {
@@ -199,6 +232,7 @@ export class AuthService {
 
   /**
    * Refreshes authentication tokens with security checks
+   * The refresh token is rotated; replaying an already rotated token ends the login
    * @param refreshToken Current refresh token
    * @param context Request context for logging
    * @returns New authentication tokens
@@ -208,21 +242,8 @@ export class AuthService {
     context: { ip: string; userAgent: string }
   ): Promise<Result<IAuthToken>> {
     try {
-      // Verify refresh token is not blacklisted
-      if (this.tokenBlacklist.has(refreshToken)) {
-        logger.warn('Attempt to use blacklisted refresh token', { context });
-        return {
-          success: false,
-          error: createError(ERROR_CODES.AUTH_ERROR, {
-            message: 'Invalid refresh token'
-          }),
-          data: null as unknown as IAuthToken,
-          metadata: {}
-        };
-      }
-
       // Verify and decode refresh token
-      const decoded = await jwtService.verifyToken(refreshToken);
+      const decoded = await jwtService.verifyRefreshToken(refreshToken);
       
       // Get user and verify status
       const userResult = await this.userRepository.getUserById(decoded.userId);
@@ -262,20 +283,31 @@ export class AuthService {
         email: user.email,
         role: user.role,
         version: user.tokenVersion,
+        ...(user.organizationId && {
+          organizationId: user.organizationId,
+          organizationRole: user.organizationRole
+        }),
         iat: Math.floor(Date.now() / 1000),
         exp: Math.floor(Date.now() / 1000) + 900
       };
 
-      const tokens = await jwtService.generateAuthTokens(tokenPayload);
-
-      // Blacklist old refresh token
-      this.tokenBlacklist.add(refreshToken);
+      // Rotate within the refresh token's family
+      const tokens = await jwtService.refreshTokens(refreshToken, tokenPayload);
 
       // Log token refresh
       logger.info('Tokens refreshed successfully', {
         userId: user.id,
         ip: context.ip
       });
+      await this.audit.tryRecord({
+        type: AuditEventType.TOKEN_REFRESHED,
+        actorId: user.id,
+        subjectType: 'user',
+        subjectId: user.id,
+        details: {},
+        ipAddress: context.ip,
+        userAgent: context.userAgent
+      });
 
       return {
         success: true,
@@ -296,6 +328,105 @@ export class AuthService {
     }
   }
 
+  /**
+   * Logs out the current device by revoking its tokens
+   * @param accessToken Access token of the request, if any
+   * @param refreshToken Refresh token of the login, if any
+   * @param context Request context for logging
+   * @returns Result of the logout
+   */
+  public async logout(
+    accessToken: string | null,
+    refreshToken: string | null,
+    context: { ip: string; userAgent: string }
+  ): Promise<Result<void>> {
+    try {
+      if (!accessToken && !refreshToken) {
+        return {
+          success: false,
+          error: createError(ERROR_CODES.VALIDATION_ERROR, {
+            message: 'No token to revoke'
+          }),
+          data: undefined,
+          metadata: {}
+        };
+      }
+
+      // Either token ends the whole login through its family
+      for (const token of [accessToken, refreshToken]) {
+        if (token) {
+          await jwtService.invalidateToken(token);
+        }
+      }
+
+      logger.info('User logged out', { ip: context.ip, userAgent: context.userAgent });
+
+      return {
+        success: true,
+        data: undefined,
+        error: null,
+        metadata: {}
+      };
+    } catch (error) {
+      logger.error('Logout error', { error, context });
+      return {
+        success: false,
+        error: createError(ERROR_CODES.AUTH_ERROR, {
+          message: 'Logout failed'
+        }),
+        data: undefined,
+        metadata: {}
+      };
+    }
+  }
+
+  /**
+   * Logs out every device of a user by revoking all of their logins
+   * @param userId Authenticated user
+   * @param context Request context for logging
+   * @returns Number of logins ended
+   */
+  public async logoutAllDevices(
+    userId: UUID,
+    context: { ip: string; userAgent: string }
+  ): Promise<Result<{ revokedSessions: number }>> {
+    try {
+      const revokedSessions = await jwtService.invalidateUserTokens(userId);
+
+      logger.info('User logged out of all devices', {
+        userId,
+        revokedSessions,
+        ip: context.ip
+      });
+      await this.audit.tryRecord({
+        type: AuditEventType.LOGOUT_ALL_DEVICES,
+        actorId: userId,
+        subjectType: 'user',
+        subjectId: userId,
+        details: { revokedLogins: revokedSessions },
+        ipAddress: context.ip,
+        userAgent: context.userAgent
+      });
+
+      return {
+        success: true,
+        data: { revokedSessions },
+        error: null,
+        metadata: {}
+      };
+    } catch (error) {
+      logger.error('Logout of all devices error', { error, userId, context });
+      return {
+        success: false,
+        error: createError(ERROR_CODES.AUTH_ERROR, {
+          message: 'Logout of all devices failed'
+        }),
+        data: null as unknown as { revokedSessions: number },
+        metadata: {}
+      };
+    }
+  }
+
   /**
    * Validates an access token
    * @param token Access token to validate
@@ -4,32 +4,40 @@
  * @version 1.0.0
  */
 
-import { sign, verify } from 'jsonwebtoken'; // v9.0.0
+import { sign, verify, decode } from 'jsonwebtoken'; // v9.0.0
 import NodeCache from 'node-cache'; // v5.1.2
+import { randomBytes, randomUUID } from 'crypto';
 import { ITokenPayload, IAuthToken } from '../../interfaces/auth.interface';
+import { TokenRepository, RefreshRotation } from '../../db/repositories/token.repository';
+import { UUID } from '../../types/common.types';
 import { authConfig } from '../../config/auth.config';
 import { createError } from '../../utils/error.utils';
 import { logger } from '../../utils/logger.utils';
 import { ERROR_CODES } from '../../constants/error.constants';
-
-// Token cache for performance optimization
-const tokenCache = new NodeCache({
-  stdTTL: 900, // 15 minutes
-  checkperiod: 120, // Check for expired tokens every 2 minutes
-  maxKeys: 10000 // Maximum number of cached tokens
+import { WEBSOCKET_AUTH } from '../../constants/websocket.constants';
+
+// Claims set when a token is signed, never copied from the payload of another token
+const SIGNING_CLAIMS = new Set([
+  'iat', 'exp', 'nbf', 'iss', 'aud', 'jti', 'fingerprint', 'familyId', 'tokenType'
+]);
+
+// One-time WebSocket connection tickets mapped to the access token they stand for
+const connectionTickets = new NodeCache({
+  stdTTL: WEBSOCKET_AUTH.TICKET_TTL,
+  checkperiod: WEBSOCKET_AUTH.TICKET_TTL,
+  useClones: false
 });
 
-// Token blacklist for revoked tokens
-const tokenBlacklist = new Set<string>();
-
 /**
  * JWT Service with enhanced security features
  */
-class JWTService {
+export class JWTService {
   private static instance: JWTService;
   private readonly jwtOptions: any;
+  private readonly tokenRepository: TokenRepository;
 
   private constructor() {
+    this.tokenRepository = new TokenRepository();
     this.jwtOptions = {
       issuer: authConfig.tokenIssuer,
       audience: authConfig.tokenAudience,
@@ -53,10 +61,10 @@ class JWTService {
    * @param payload Token payload with user information
    * @returns Promise resolving to signed JWT token
    */
-  public async generateToken(payload: ITokenPayload): Promise<string> {
+  public async generateToken(payload: ITokenPayload, familyId?: UUID): Promise<string> {
     try {
       // Validate required payload fields
-      if (!payload.userId || !payload.email || !payload.roles) {
+      if (!payload.userId || !payload.email || !payload.role) {
         throw createError(ERROR_CODES.VALIDATION_ERROR, {
           message: 'Invalid token payload'
         });
@@ -64,18 +72,15 @@ class JWTService {
 
       // Add security enhancements to payload
       const enhancedPayload = {
-        ...payload,
-        iat: Math.floor(Date.now() / 1000),
-        jti: crypto.randomUUID(), // Unique token identifier
+        ...this.toClaims(payload),
+        ...(familyId && { familyId }),
+        jti: randomUUID(), // Unique token identifier
         fingerprint: this.generateTokenFingerprint(payload)
       };
 
       // Sign token with enhanced options
       const token = sign(enhancedPayload, authConfig.jwtSecret, this.jwtOptions);
 
-      // Cache token for performance
-      tokenCache.set(enhancedPayload.jti, token);
-
       // Log token generation
       logger.info('JWT token generated', {
         userId: payload.userId,
@@ -98,13 +103,6 @@ class JWTService {
    */
   public async verifyToken(token: string): Promise<ITokenPayload> {
     try {
-      // Check token blacklist
-      if (this.isTokenBlacklisted(token)) {
-        throw createError(ERROR_CODES.AUTH_ERROR, {
-          message: 'Token has been revoked'
-        });
-      }
-
       // Verify token signature and expiration
       const decoded = verify(token, authConfig.jwtSecret, this.jwtOptions) as ITokenPayload;
 
@@ -115,10 +113,10 @@ class JWTService {
         });
       }
 
-      // Check token cache
-      if (!tokenCache.has(decoded.jti)) {
+      // Check revocation of the token and of the login it belongs to
+      if (await this.isRevoked(decoded)) {
         throw createError(ERROR_CODES.AUTH_ERROR, {
-          message: 'Token not found in cache'
+          message: 'Token has been revoked'
         });
       }
 
@@ -133,13 +131,23 @@ class JWTService {
 
   /**
    * Generates complete authentication tokens including access and refresh tokens
+   * Each call starts a new refresh-token family, i.e. a new login
    * @param payload User information for token generation
    * @returns Promise resolving to authentication tokens
    */
   public async generateAuthTokens(payload: ITokenPayload): Promise<IAuthToken> {
     try {
-      const accessToken = await this.generateToken(payload);
-      const refreshToken = await this.generateRefreshToken(payload);
+      const familyId = randomUUID() as UUID;
+      const refreshTokenId = randomUUID();
+      const accessToken = await this.generateToken(payload, familyId);
+      const refreshToken = await this.generateRefreshToken(payload, familyId, refreshTokenId);
+
+      await this.tokenRepository.createFamily(
+        familyId,
+        payload.userId,
+        refreshTokenId,
+        this.remainingLifetime(refreshToken)
+      );
 
       return {
         accessToken,
@@ -156,17 +164,23 @@ class JWTService {
   }
 
   /**
-   * Invalidates a token by adding it to the blacklist
-   * @param token Token to invalidate
+   * Invalidates a token and the refresh-token family it was issued with
+   * Revocations are stored in Redis until the token would have expired
+   * @param token Access or refresh token to invalidate
    */
   public async invalidateToken(token: string): Promise<void> {
     try {
-      const decoded = await this.verifyToken(token);
-      tokenBlacklist.add(decoded.jti);
-      tokenCache.del(decoded.jti);
+      const decoded = verify(token, authConfig.jwtSecret, this.jwtOptions) as ITokenPayload;
+      if (decoded.jti) {
+        await this.tokenRepository.revokeToken(decoded.jti, decoded.exp);
+      }
+      if (decoded.familyId) {
+        await this.tokenRepository.revokeFamily(decoded.familyId);
+      }
 
       logger.info('Token invalidated', {
         tokenId: decoded.jti,
+        familyId: decoded.familyId,
         userId: decoded.userId
       });
     } catch (error) {
@@ -178,16 +192,78 @@ class JWTService {
   }
 
   /**
-   * Refreshes authentication tokens using a valid refresh token
+   * Invalidates every token issued to a user, logging out all of their devices
+   * @param userId User identifier
+   * @returns Number of logins ended
+   */
+  public async invalidateUserTokens(userId: UUID): Promise<number> {
+    try {
+      const revoked = await this.tokenRepository.revokeUserFamilies(userId);
+      logger.info('User tokens invalidated', { userId, families: revoked });
+      return revoked;
+    } catch (error) {
+      logger.error('User token invalidation failed', { error, userId });
+      throw createError(ERROR_CODES.AUTH_ERROR, {
+        message: 'Failed to invalidate user tokens'
+      });
+    }
+  }
+
+  /**
+   * Rotates a refresh token, issuing new tokens in the same family
+   * Presenting a refresh token that was already rotated revokes the whole family
    * @param refreshToken Current refresh token
+   * @param payload Up-to-date user information, defaults to the refresh token's claims
    * @returns Promise resolving to new authentication tokens
    */
-  public async refreshTokens(refreshToken: string): Promise<IAuthToken> {
+  public async refreshTokens(
+    refreshToken: string,
+    payload?: ITokenPayload
+  ): Promise<IAuthToken> {
     try {
       const decoded = await this.verifyRefreshToken(refreshToken);
-      await this.invalidateToken(refreshToken);
+      if (!decoded.familyId || !decoded.jti) {
+        throw createError(ERROR_CODES.AUTH_ERROR, {
+          message: 'Refresh token has no family'
+        });
+      }
+
+      const claims = payload ?? decoded;
+      const nextTokenId = randomUUID();
+      const nextRefreshToken = await this.generateRefreshToken(
+        claims,
+        decoded.familyId,
+        nextTokenId
+      );
+      const rotation = await this.tokenRepository.rotateFamily(
+        decoded.familyId,
+        decoded.userId,
+        decoded.jti,
+        nextTokenId,
+        this.remainingLifetime(nextRefreshToken)
+      );
+
+      if (rotation === RefreshRotation.REUSED) {
+        await this.tokenRepository.revokeFamily(decoded.familyId);
+        logger.warn('Refresh token reuse detected, family revoked', {
+          userId: decoded.userId,
+          familyId: decoded.familyId,
+          tokenId: decoded.jti
+        });
+      }
+
+      if (rotation !== RefreshRotation.ROTATED) {
+        throw createError(ERROR_CODES.AUTH_ERROR, {
+          message: 'Refresh token has been revoked'
+        });
+      }
 
-      return this.generateAuthTokens(decoded);
+      return {
+        accessToken: await this.generateToken(claims, decoded.familyId),
+        refreshToken: nextRefreshToken,
+        expiresIn: 900, // 15 minutes in seconds
+        tokenType: 'Bearer'
+      };
     } catch (error) {
       logger.error('Token refresh failed', { error });
       throw createError(ERROR_CODES.AUTH_ERROR, {
@@ -196,6 +272,37 @@ class JWTService {
     }
   }
 
+  /**
+   * Issues a short-lived, single-use ticket for opening a WebSocket connection
+   * Lets browsers authenticate the upgrade without putting the access token in the URL
+   * @param token Valid access token the ticket stands for
+   * @returns Promise resolving to the ticket and its lifetime in seconds
+   */
+  public async issueConnectionTicket(
+    token: string
+  ): Promise<{ ticket: string; expiresIn: number }> {
+    const decoded = await this.verifyToken(token);
+    const ticket = randomBytes(32).toString('base64url');
+    connectionTickets.set(ticket, token);
+
+    logger.info('Connection ticket issued', {
+      userId: decoded.userId,
+      tokenId: decoded.jti
+    });
+
+    return { ticket, expiresIn: WEBSOCKET_AUTH.TICKET_TTL };
+  }
+
+  /**
+   * Redeems a connection ticket; each ticket can be redeemed once
+   * @param ticket Ticket from the connection request
+   * @returns Access token the ticket was issued for, or null when unknown or expired
+   */
+  public redeemConnectionTicket(ticket: string): string | null {
+    const token = connectionTickets.take<string>(ticket);
+    return token ?? null;
+  }
+
   /**
    * Generates a unique token fingerprint for additional security
    * @param payload Token payload
@@ -217,27 +324,64 @@ class JWTService {
   }
 
   /**
-   * Checks if a token has been blacklisted
+   * Checks if a token has been revoked
    * @param token Token to check
-   * @returns Boolean indicating if token is blacklisted
+   * @returns Boolean indicating if token is revoked
    */
-  private isTokenBlacklisted(token: string): boolean {
+  public async isTokenBlacklisted(token: string): Promise<boolean> {
     try {
       const decoded = verify(token, authConfig.jwtSecret, this.jwtOptions) as ITokenPayload;
-      return tokenBlacklist.has(decoded.jti);
+      return await this.isRevoked(decoded);
     } catch {
       return false;
     }
   }
 
+  /**
+   * Checks revocation of a decoded token and of its refresh-token family
+   */
+  private async isRevoked(decoded: ITokenPayload): Promise<boolean> {
+    if (decoded.jti && await this.tokenRepository.isTokenRevoked(decoded.jti)) {
+      return true;
+    }
+    return decoded.familyId !== undefined &&
+      !(await this.tokenRepository.isFamilyActive(decoded.familyId));
+  }
+
+  /**
+   * User claims of a payload, without the claims set when a token is signed
+   */
+  private toClaims(payload: ITokenPayload): Partial<ITokenPayload> {
+    return Object.fromEntries(
+      Object.entries(payload).filter(([claim]) => !SIGNING_CLAIMS.has(claim))
+    );
+  }
+
+  /**
+   * Seconds until a freshly signed token expires
+   */
+  private remainingLifetime(token: string): number {
+    const { exp } = decode(token) as ITokenPayload;
+    return Math.max(exp - Math.floor(Date.now() / 1000), 1);
+  }
+
   /**
    * Generates a refresh token with extended expiration
    * @param payload User information for token generation
+   * @param familyId Family the refresh token belongs to
+   * @param tokenId Identifier of the refresh token
    * @returns Promise resolving to refresh token
    */
-  private async generateRefreshToken(payload: ITokenPayload): Promise<string> {
+  private async generateRefreshToken(
+    payload: ITokenPayload,
+    familyId: UUID,
+    tokenId: string
+  ): Promise<string> {
     const refreshPayload = {
-      ...payload,
+      ...this.toClaims(payload),
+      familyId,
+      jti: tokenId,
+      fingerprint: this.generateTokenFingerprint(payload),
       tokenType: 'refresh'
     };
 
@@ -252,7 +396,7 @@ class JWTService {
    * @param token Refresh token to verify
    * @returns Promise resolving to decoded token payload
    */
-  private async verifyRefreshToken(token: string): Promise<ITokenPayload> {
+  public async verifyRefreshToken(token: string): Promise<ITokenPayload> {
     try {
       const decoded = verify(token, authConfig.jwtSecret, {
         ...this.jwtOptions,
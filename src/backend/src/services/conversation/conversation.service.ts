@@ -3,11 +3,29 @@ import { Counter, Histogram, Registry } from 'prom-client'; // v14.0.0
 import CircuitBreaker from 'opossum'; // v6.0.0
 import { createLogger, format, transports } from 'winston'; // v3.8.0
 
-import { Conversation, ConversationStatus, ConversationCreateParams } from '../../interfaces/conversation.interface';
+import {
+  Conversation,
+  ConversationContext,
+  ConversationStatus,
+  ConversationCreateParams,
+  ConversationListQuery,
+  ConversationMetadata
+} from '../../interfaces/conversation.interface';
 import { ConversationRepository } from '../../db/repositories/conversation.repository';
-import { Result } from '../../types/common.types';
-import { Message, MessageRole } from '../../interfaces/message.interface';
+import { PaginatedResult, Result } from '../../types/common.types';
+import { Message, MessageAudio } from '../../interfaces/message.interface';
 import { SessionStatus } from '../../interfaces/session.interface';
+import { createError } from '../../utils/error.utils';
+import { buildPagination } from '../../utils/pagination.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+
+/**
+ * Live timing and volume metrics of a conversation
+ */
+type ConversationMetrics = Pick<
+  ConversationMetadata,
+  'duration' | 'messageCount' | 'averageResponseTime'
+> & Pick<ConversationContext, 'turnCount'>;
 
 /**
  * Enhanced service class for managing AI voice conversations with comprehensive
@@ -77,8 +95,15 @@ export class ConversationService {
 
   /**
    * Creates a new conversation with enhanced monitoring and performance tracking
+   * @param params Session, initial context and language
+   * @param userId Owner of the conversation
+   * @param organizationId Tenant of the owner, null for users without one
    */
-  async createConversation(params: ConversationCreateParams): Promise<Result<Conversation>> {
+  async createConversation(
+    params: ConversationCreateParams,
+    userId: string,
+    organizationId: string | null
+  ): Promise<Result<Conversation>> {
     const startTime = Date.now();
     
     try {
@@ -100,7 +125,7 @@ export class ConversationService {
             messageCount: 0,
             turnCount: 0
           }
-        });
+        }, userId, organizationId);
       });
 
       if (!conversationResult.success) {
@@ -149,10 +174,21 @@ export class ConversationService {
 
   /**
    * Retrieves conversation metrics and performance data
+   * @param conversationId Conversation identifier
+   * @param userId Owner of the conversation
+   * @param organizationId Tenant of the owner, null for users without one
    */
-  async getConversationMetrics(conversationId: string): Promise<Result<any>> {
+  async getConversationMetrics(
+    conversationId: string,
+    userId: string,
+    organizationId: string | null
+  ): Promise<Result<ConversationMetrics>> {
     try {
-      const conversation = await this.conversationRepository.findById(conversationId);
+      const conversation = await this.conversationRepository.findById(
+        conversationId,
+        userId,
+        organizationId
+      );
       if (!conversation.success) {
         throw new Error('Conversation not found');
       }
@@ -160,7 +196,7 @@ export class ConversationService {
       const cachedMetrics = await this.redisClient.get(`conversation:${conversationId}:metrics`);
       const metrics = cachedMetrics ? JSON.parse(cachedMetrics) : {};
 
-      const currentMetrics = {
+      const currentMetrics: ConversationMetrics = {
         duration: Date.now() - conversation.data.context.startTime,
         messageCount: conversation.data.context.messageCount,
         turnCount: conversation.data.context.turnCount,
@@ -169,22 +205,120 @@ export class ConversationService {
 
       return {
         success: true,
-        data: currentMetrics
+        data: currentMetrics,
+        error: null,
+        metadata: {}
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
       this.logger.error('Failed to retrieve conversation metrics', {
         conversationId,
-        error: error.message
+        error: message
       });
 
       return {
         success: false,
-        error: {
-          message: 'Failed to retrieve metrics',
-          details: error.message
-        }
+        data: null as unknown as ConversationMetrics,
+        error: createError(ERROR_CODES.SYSTEM_ERROR, { originalError: message }),
+        metadata: {}
+      };
+    }
+  }
+
+  /**
+   * Lists a user's conversations, newest first
+   * @param userId Owner of the conversations
+   * @param organizationId Tenant of the owner, null for users without one
+   * @param query Filters, page size and the cursor of the previous page
+   */
+  async listConversations(
+    userId: string,
+    organizationId: string | null,
+    query: ConversationListQuery
+  ): Promise<Result<PaginatedResult<Conversation>>> {
+    const result = await this.conversationRepository.findByUser(userId, organizationId, query);
+    if (!result.success || !result.data) {
+      this.logger.error('Failed to list conversations', {
+        userId,
+        error: result.error?.message
+      });
+
+      return {
+        success: false,
+        data: null as unknown as PaginatedResult<Conversation>,
+        error: createError(ERROR_CODES.SYSTEM_ERROR, { originalError: result.error?.message }),
+        metadata: {}
       };
     }
+
+    return { success: true, data: result.data, error: null, metadata: {} };
+  }
+
+  /**
+   * Retrieves one page of a conversation's messages, oldest first
+   * @param conversationId Conversation identifier
+   * @param userId Owner of the conversation
+   * @param organizationId Tenant of the owner, null for users without one
+   * @param page Page number (1-based)
+   * @param limit Page size
+   */
+  async getConversationMessages(
+    conversationId: string,
+    userId: string,
+    organizationId: string | null,
+    page: number,
+    limit: number
+  ): Promise<Result<PaginatedResult<Message>>> {
+    const conversation = await this.conversationRepository.findById(
+      conversationId,
+      userId,
+      organizationId
+    );
+    if (!conversation.success) {
+      return this.conversationNotFound(conversationId);
+    }
+
+    const offset = (page - 1) * limit;
+    const messages = await this.messageService.getMessagesByConversation(conversationId, {
+      limit,
+      offset
+    });
+    if (!messages.success) {
+      return messages;
+    }
+
+    return {
+      success: true,
+      data: {
+        items: messages.data,
+        pagination: buildPagination(offset, limit, conversation.data.messages.length)
+      },
+      error: null,
+      metadata: {}
+    };
+  }
+
+  /**
+   * Issues signed URLs for the recorded audio of a conversation
+   * @param conversationId Conversation identifier
+   * @param userId Owner of the conversation
+   * @param organizationId Tenant of the owner, null for users without one
+   */
+  async getConversationAudio(
+    conversationId: string,
+    userId: string,
+    organizationId: string | null
+  ): Promise<Result<MessageAudio[]>> {
+    const conversation = await this.conversationRepository.findById(
+      conversationId,
+      userId,
+      organizationId
+    );
+    if (!conversation.success) {
+      return this.conversationNotFound(conversationId);
+    }
+
+    return this.messageService.getConversationAudio(conversationId);
   }
 
   /**
@@ -194,7 +328,7 @@ export class ConversationService {
     try {
       const checks = await Promise.all([
         this.redisClient.ping(),
-        this.conversationRepository.findById('test-id'),
+        this.conversationRepository.findById('test-id', 'health-check', null),
         this.messageService.healthCheck()
       ]);
 
@@ -223,6 +357,18 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Failure result for conversations that do not exist or belong to another user
+   */
+  private conversationNotFound<T>(conversationId: string): Result<T> {
+    return {
+      success: false,
+      data: null as unknown as T,
+      error: createError(ERROR_CODES.NOT_FOUND, { conversationId }),
+      metadata: {}
+    };
+  }
+
   private setupErrorHandlers(): void {
     this.redisClient.on('error', (error) => {
       this.logger.error('Redis client error', { error: error.message });
@@ -1,10 +1,17 @@
-import { Message, MessageCreateParams, MessageRole } from '../../interfaces/message.interface';
+import {
+  Message,
+  MessageAudio,
+  MessageCreateParams,
+  MessageRole
+} from '../../interfaces/message.interface';
 import { MessageRepository } from '../../db/repositories/message.repository';
 import { AudioStorageService } from '../storage/audioStorage.service';
+import { RedactionService, redactionService } from '../privacy/redaction.service';
 import { createError } from '../../utils/error.utils';
-import { Result, UUID } from '../../types/common.types';
+import { Result, Timestamp, UUID } from '../../types/common.types';
 import { logger } from '../../utils/logger.utils';
 import { ERROR_CODES } from '../../constants/error.constants';
+import { HISTORY_DEFAULTS } from '../../constants/message.constants';
 
 /**
  * Service class implementing message management functionality for the AI Voice Agent system
@@ -21,7 +28,8 @@ export class MessageService {
 
   constructor(
     private readonly messageRepository: MessageRepository,
-    private readonly audioStorage: AudioStorageService
+    private readonly audioStorage: AudioStorageService,
+    private readonly redaction: RedactionService = redactionService
   ) {
     this.urlCache = new Map();
     this.initializeService();
@@ -36,7 +44,8 @@ export class MessageService {
 
   /**
    * Creates a new message with optional audio recording
-   * Implements security checks and retry logic
+   * Implements security checks and retry logic; personal data is redacted
+   * from the content before it is stored
    */
   public async createMessage(params: MessageCreateParams): Promise<Result<Message>> {
     try {
@@ -66,14 +75,25 @@ export class MessageService {
         }
       }
 
+      // Redact personal data before it reaches the database
+      const redacted = await this.redaction.redact(params.content);
+      const record: MessageCreateParams = redacted.spans.length === 0
+        ? params
+        : {
+          ...params,
+          content: redacted.content,
+          metadata: { ...params.metadata, redactions: redacted.spans }
+        };
+
       // Create message with retry logic
       let attempts = 0;
       while (attempts < this.RETRY_CONFIG.maxAttempts) {
-        const result = await this.messageRepository.create(params);
+        const result = await this.messageRepository.create(record);
         if (result.success) {
           logger.info('Message created successfully', {
             messageId: result.data.id,
             conversationId: params.conversationId,
+            redactions: redacted.spans.length,
           });
           return result;
         }
@@ -87,7 +107,7 @@ export class MessageService {
     } catch (error) {
       logger.error('Error creating message', {
         error,
-        params: { ...params, audioRecordingId: '[REDACTED]' },
+        params: { ...params, content: '[REDACTED]', audioRecordingId: '[REDACTED]' },
       });
       return {
         success: false,
@@ -195,6 +215,67 @@ export class MessageService {
     }
   }
 
+  /**
+   * Issues signed download URLs for the recorded audio of a conversation
+   * @param conversationId Conversation identifier
+   * @param expiresIn URL lifetime in seconds
+   */
+  public async getConversationAudio(
+    conversationId: UUID,
+    expiresIn: number = HISTORY_DEFAULTS.AUDIO_URL_EXPIRY
+  ): Promise<Result<MessageAudio[]>> {
+    try {
+      const recordings = await this.messageRepository.findAudioRecordings(conversationId);
+      if (!recordings.success) {
+        return {
+          success: false,
+          data: null as unknown as MessageAudio[],
+          error: recordings.error,
+          metadata: {}
+        };
+      }
+
+      const expiresAt = (Date.now() + expiresIn * 1000) as Timestamp;
+      const audio = await Promise.all(
+        recordings.data.map(async (recording) => {
+          const signedUrl = await this.audioStorage.getAudioFile(
+            recording.storagePath,
+            expiresIn
+          );
+          if (!signedUrl.success) {
+            throw new Error(signedUrl.error?.message ?? 'Failed to sign audio URL');
+          }
+          return {
+            messageId: recording.messageId,
+            audioRecordingId: recording.audioRecordingId,
+            url: signedUrl.data,
+            expiresAt,
+          };
+        })
+      );
+
+      return {
+        success: true,
+        data: audio,
+        error: null,
+        metadata: { expiresIn },
+      };
+    } catch (error) {
+      logger.error('Error signing conversation audio', {
+        error,
+        conversationId,
+      });
+      return {
+        success: false,
+        data: null as unknown as MessageAudio[],
+        error: createError(ERROR_CODES.SYSTEM_ERROR, {
+          originalError: error instanceof Error ? error.message : String(error),
+        }),
+        metadata: {},
+      };
+    }
+  }
+
   /**
    * Updates an existing message with audit logging and validation
    */
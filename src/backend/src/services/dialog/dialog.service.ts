@@ -0,0 +1,359 @@
+/**
+ * Dialog Service
+ * Turns a finalized user transcript into an AI reply by persisting the user
+ * message, invoking the configured dialog engine with the conversation
+ * history and recording the AI message and updated conversation context.
+ * @version 1.0.0
+ */
+
+import { Histogram } from 'prom-client'; // v14.0.0
+import {
+  DialogEngine,
+  DialogEngineType,
+  DialogReply,
+  UserTurnParams,
+  UserTurnResult
+} from '../../interfaces/dialog.interface';
+import { ConversationContext } from '../../interfaces/conversation.interface';
+import {
+  Message,
+  MessageInterruption,
+  MessageRole
+} from '../../interfaces/message.interface';
+import { SpeechMark, SpeechMarkType } from '../../interfaces/voice.interface';
+import { MessageService } from '../conversation/message.service';
+import { MessageRepository } from '../../db/repositories/message.repository';
+import { ConversationRepository } from '../../db/repositories/conversation.repository';
+import { OpenAIDialogEngine } from './openAIDialog.engine';
+import { RuleDialogEngine } from './ruleDialog.engine';
+import { DialogConfig } from '../../types/config.types';
+import { Result } from '../../types/common.types';
+import { createError } from '../../utils/error.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+import { logger } from '../../utils/logger.utils';
+
+/**
+ * Reply generation latency, registered once and shared by every service instance
+ */
+const replyLatency = new Histogram({
+  name: 'dialog_reply_latency_ms',
+  help: 'Dialog engine reply generation latency in milliseconds',
+  labelNames: ['engine'],
+  buckets: [100, 250, 500, 1000, 2000, 5000]
+});
+
+/**
+ * Creates the dialog engine selected in the dialog configuration
+ * @param config Dialog configuration
+ * @returns Dialog engine instance
+ */
+export const createDialogEngine = (config: DialogConfig): DialogEngine => {
+  switch (config.engine) {
+    case DialogEngineType.OPENAI:
+      return new OpenAIDialogEngine(config);
+    case DialogEngineType.RULE:
+      return new RuleDialogEngine();
+    default:
+      throw new Error(`Unsupported dialog engine: ${config.engine}`);
+  }
+};
+
+/**
+ * Service orchestrating a single user → AI dialog turn
+ */
+export class DialogService {
+  constructor(
+    private readonly engine: DialogEngine,
+    private readonly messageService: MessageService,
+    private readonly messageRepository: MessageRepository,
+    private readonly conversationRepository: ConversationRepository,
+    private readonly historyLimit: number = 20,
+    private readonly defaultLanguage: string = 'en-US'
+  ) {}
+
+  /**
+   * Handles the end of a user turn and produces the AI reply
+   * @param params Finalized user turn
+   * @returns Promise resolving to the persisted messages and updated context
+   */
+  public async handleUserTurn(params: UserTurnParams): Promise<Result<UserTurnResult>> {
+    const transcript = params.transcript.trim();
+    if (!transcript) {
+      return this.failure(ERROR_CODES.VALIDATION_ERROR, { details: 'Empty user transcript' });
+    }
+
+    try {
+      const previous = await this.conversationRepository.findContext(
+        params.conversationId,
+        params.userId,
+        params.organizationId
+      );
+      if (!previous.success || !previous.data) {
+        return this.failure(ERROR_CODES.NOT_FOUND, { conversationId: params.conversationId });
+      }
+
+      const userMessage = await this.storeUserMessage(params, transcript);
+      if (!userMessage.success) {
+        return userMessage as unknown as Result<UserTurnResult>;
+      }
+
+      const history = await this.loadHistory(params);
+      if (!history.success) {
+        return history as unknown as Result<UserTurnResult>;
+      }
+
+      const reply = await this.generateReply(params, history.data);
+      if (!reply.success) {
+        return reply as unknown as Result<UserTurnResult>;
+      }
+
+      const aiMessage = await this.messageService.createMessage({
+        conversationId: params.conversationId,
+        role: MessageRole.AI,
+        content: reply.data.content,
+        audioRecordingId: null,
+        metadata: {
+          wordCount: this.countWords(reply.data.content),
+          processingTime: reply.data.latency,
+          audioFormat: null,
+          transcriptionConfidence: null
+        }
+      });
+      if (!aiMessage.success) {
+        return aiMessage as unknown as Result<UserTurnResult>;
+      }
+
+      const context = this.advanceContext(previous.data, aiMessage.data.id, params.speechDuration,
+        reply.data.latency);
+      await this.saveContext(params, context);
+
+      logger.info('Dialog turn completed', {
+        component: 'DialogService',
+        conversationId: params.conversationId,
+        engine: this.engine.type,
+        turnCount: context.turnCount,
+        latency: reply.data.latency
+      });
+
+      return {
+        success: true,
+        data: {
+          userMessage: userMessage.data,
+          aiMessage: aiMessage.data,
+          context
+        },
+        error: null,
+        metadata: { engine: this.engine.type }
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Dialog turn failed', {
+        component: 'DialogService',
+        conversationId: params.conversationId,
+        error: message
+      });
+      return this.failure(ERROR_CODES.DIALOG_ERROR, { originalError: message });
+    }
+  }
+
+  /**
+   * Stores the speech marks of a fully played AI message
+   * @param aiMessage AI message that was spoken
+   * @param speechMarks Word, sentence and viseme marks of the synthesized reply
+   * @returns Promise resolving to the updated message
+   */
+  public async recordSpeechMarks(
+    aiMessage: Message,
+    speechMarks: SpeechMark[]
+  ): Promise<Result<Message>> {
+    const result = await this.messageService.updateMessage(aiMessage.id, {
+      metadata: { ...aiMessage.metadata, speechMarks }
+    });
+
+    if (!result.success) {
+      logger.warn('Failed to record speech marks', {
+        component: 'DialogService',
+        messageId: aiMessage.id,
+        conversationId: aiMessage.conversationId
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Records that the user interrupted playback of an AI message
+   * @param aiMessage AI message whose speech was cut short
+   * @param playedDuration Milliseconds of audio played before the interruption
+   * @param totalDuration Total duration of the synthesized audio in milliseconds
+   * @param speechMarks Marks of the audio synthesized before the interruption
+   * @returns Promise resolving to the updated message
+   */
+  public async recordInterruption(
+    aiMessage: Message,
+    playedDuration: number,
+    totalDuration: number,
+    speechMarks: SpeechMark[] = []
+  ): Promise<Result<Message>> {
+    const interruption: MessageInterruption = {
+      heardContent: this.findHeardContent(aiMessage.content, playedDuration, speechMarks) ??
+        this.estimateHeardContent(aiMessage.content, playedDuration, totalDuration),
+      playedDuration,
+      totalDuration,
+      interruptedAt: Date.now()
+    };
+
+    const metadata = speechMarks.length > 0
+      ? { ...aiMessage.metadata, interruption, speechMarks }
+      : { ...aiMessage.metadata, interruption };
+    const result = await this.messageService.updateMessage(aiMessage.id, { metadata });
+
+    if (!result.success) {
+      logger.warn('Failed to record AI speech interruption', {
+        component: 'DialogService',
+        messageId: aiMessage.id,
+        conversationId: aiMessage.conversationId
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Persists the finalized transcript as the user's message
+   */
+  private storeUserMessage(params: UserTurnParams, transcript: string): Promise<Result<Message>> {
+    return this.messageService.createMessage({
+      conversationId: params.conversationId,
+      role: MessageRole.USER,
+      content: transcript,
+      audioRecordingId: params.audioRecordingId ?? null,
+      metadata: {
+        duration: params.speechDuration,
+        wordCount: this.countWords(transcript),
+        transcriptionConfidence: params.confidence
+      }
+    });
+  }
+
+  /**
+   * Asks the engine for a reply to the history and records its latency
+   */
+  private async generateReply(
+    params: UserTurnParams,
+    history: Message[]
+  ): Promise<Result<DialogReply>> {
+    const reply = await this.engine.generateReply({
+      conversationId: params.conversationId,
+      history,
+      languageCode: params.languageCode || this.defaultLanguage
+    });
+    if (reply.success) {
+      replyLatency.observe({ engine: this.engine.type }, reply.data.latency);
+    }
+    return reply;
+  }
+
+  /**
+   * Stores the advanced context; the turn still succeeds when this fails
+   */
+  private async saveContext(params: UserTurnParams, context: ConversationContext): Promise<void> {
+    const updated = await this.conversationRepository.update(
+      params.conversationId,
+      { context },
+      params.userId,
+      params.organizationId
+    );
+    if (!updated.success) {
+      logger.warn('Failed to update conversation context after dialog turn', {
+        component: 'DialogService',
+        conversationId: params.conversationId
+      });
+    }
+  }
+
+  /**
+   * Builds the conversation context after a completed turn
+   * Conversations without a completed turn start from an empty state
+   */
+  private advanceContext(
+    previous: Partial<ConversationContext>,
+    lastMessageId: string,
+    speechDuration: number,
+    latency: number
+  ): ConversationContext {
+    return {
+      ...previous,
+      state: previous.state ?? {},
+      lastMessageId,
+      turnCount: (previous.turnCount ?? 0) + 1,
+      lastUserSpeechDuration: speechDuration,
+      lastAIResponseDuration: latency
+    };
+  }
+
+  /**
+   * Cuts a reply after the last word mark reached by playback
+   * Returns null when no word marks are available
+   */
+  private findHeardContent(
+    content: string,
+    playedDuration: number,
+    speechMarks: SpeechMark[]
+  ): string | null {
+    const words = speechMarks.filter(
+      (mark) => mark.type === SpeechMarkType.WORD && mark.end !== undefined
+    );
+    if (words.length === 0) {
+      return null;
+    }
+
+    const heard = words.filter((mark) => mark.time <= playedDuration);
+    return heard.length > 0 ? content.slice(0, heard[heard.length - 1].end).trim() : '';
+  }
+
+  /**
+   * Approximates the heard portion of a reply from the played audio ratio
+   */
+  private estimateHeardContent(
+    content: string,
+    playedDuration: number,
+    totalDuration: number
+  ): string {
+    const ratio = totalDuration > 0 ? Math.min(Math.max(playedDuration / totalDuration, 0), 1) : 0;
+    const words = content.split(/\s+/).filter(Boolean);
+    return words.slice(0, Math.floor(words.length * ratio)).join(' ');
+  }
+
+  /**
+   * Loads the most recent messages in chronological order
+   */
+  private async loadHistory(params: UserTurnParams): Promise<Result<Message[]>> {
+    const result = await this.messageRepository.findByConversationId(params.conversationId, {
+      limit: this.historyLimit,
+      sortDesc: true
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    return { ...result, data: [...result.data].reverse() };
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  private failure(
+    code: ERROR_CODES,
+    details: Record<string, unknown>
+  ): Result<UserTurnResult> {
+    return {
+      success: false,
+      data: null as unknown as UserTurnResult,
+      error: createError(code, details),
+      metadata: {}
+    };
+  }
+}
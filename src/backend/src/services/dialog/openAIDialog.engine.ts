@@ -0,0 +1,152 @@
+/**
+ * OpenAI-compatible Dialog Engine
+ * Generates AI replies through any chat completions endpoint that follows
+ * the OpenAI wire format (OpenAI, Azure OpenAI proxies, vLLM, Ollama, etc.)
+ * @version 1.0.0
+ */
+
+import {
+  DialogEngine,
+  DialogEngineType,
+  DialogReply,
+  DialogRequest
+} from '../../interfaces/dialog.interface';
+import { MessageRole } from '../../interfaces/message.interface';
+import { DialogConfig } from '../../types/config.types';
+import { Result } from '../../types/common.types';
+import { createError } from '../../utils/error.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+import { logger } from '../../utils/logger.utils';
+
+/**
+ * Chat message in the OpenAI wire format
+ */
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Subset of the chat completions response used by the engine
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+}
+
+/**
+ * Mapping of message roles to chat completion roles
+ */
+const ROLE_MAP: Record<MessageRole, ChatMessage['role']> = {
+  [MessageRole.USER]: 'user',
+  [MessageRole.AI]: 'assistant',
+  [MessageRole.SYSTEM]: 'system'
+};
+
+/**
+ * Dialog engine backed by an OpenAI-compatible HTTP API
+ */
+export class OpenAIDialogEngine implements DialogEngine {
+  public readonly type = DialogEngineType.OPENAI;
+
+  constructor(
+    private readonly config: Pick<
+      DialogConfig,
+      'apiBaseUrl' | 'apiKey' | 'model' | 'temperature' | 'maxTokens' |
+      'systemPrompt' | 'requestTimeout'
+    >
+  ) {}
+
+  /**
+   * Requests a chat completion for the conversation history
+   * @param request Dialog request with conversation history
+   * @returns Promise resolving to the generated reply
+   */
+  public async generateReply(request: DialogRequest): Promise<Result<DialogReply>> {
+    const startTime = Date.now();
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.requestTimeout);
+
+    const endpoint = `${this.config.apiBaseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.config.apiKey}`
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: this.buildMessages(request),
+          temperature: this.config.temperature,
+          max_tokens: this.config.maxTokens
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Dialog provider responded with status ${response.status}`);
+      }
+
+      const body = (await response.json()) as ChatCompletionResponse;
+      const choice = body.choices?.[0];
+      const content = choice?.message?.content?.trim();
+
+      if (!content) {
+        throw new Error('Dialog provider returned an empty reply');
+      }
+
+      return {
+        success: true,
+        data: {
+          content,
+          engine: this.type,
+          latency: Date.now() - startTime,
+          finishReason: choice?.finish_reason ?? null
+        },
+        error: null,
+        metadata: { model: this.config.model }
+      };
+    } catch (error) {
+      const aborted = error instanceof Error && error.name === 'AbortError';
+      const message = error instanceof Error ? error.message : String(error);
+
+      logger.error('Dialog completion failed', {
+        component: 'OpenAIDialogEngine',
+        conversationId: request.conversationId,
+        aborted,
+        error: message
+      });
+
+      return {
+        success: false,
+        data: null as unknown as DialogReply,
+        error: createError(ERROR_CODES.DIALOG_ERROR, {
+          originalError: aborted ? 'Request timed out' : message
+        }),
+        metadata: { latency: Date.now() - startTime }
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Builds the chat message list with the system prompt and language hint
+   */
+  private buildMessages(request: DialogRequest): ChatMessage[] {
+    const systemPrompt =
+      `${this.config.systemPrompt} Respond in the language identified by ${request.languageCode}.`;
+
+    return [
+      { role: 'system', content: systemPrompt },
+      ...request.history.map((message) => ({
+        role: ROLE_MAP[message.role],
+        content: message.content
+      }))
+    ];
+  }
+}
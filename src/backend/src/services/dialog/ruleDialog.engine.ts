@@ -0,0 +1,105 @@
+/**
+ * Rule-based Dialog Engine
+ * Deterministic local dialog engine matching the latest user turn against
+ * ordered rules and echoing the transcript when nothing matches.
+ * Intended for tests, local development and offline deployments.
+ * @version 1.0.0
+ */
+
+import {
+  DialogEngine,
+  DialogEngineType,
+  DialogReply,
+  DialogRequest
+} from '../../interfaces/dialog.interface';
+import { MessageRole } from '../../interfaces/message.interface';
+import { Result } from '../../types/common.types';
+import { createError } from '../../utils/error.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+
+/**
+ * Reply rule matched against the user transcript
+ */
+export interface DialogRule {
+  /** Pattern tested against the user transcript */
+  readonly pattern: RegExp;
+  /** Static reply or builder receiving the regex match */
+  readonly reply: string | ((match: RegExpMatchArray) => string);
+}
+
+/**
+ * Default rules covering greetings, thanks and farewells
+ */
+export const DEFAULT_DIALOG_RULES: readonly DialogRule[] = [
+  {
+    pattern: /^\s*(hi|hello|hey)\b/i,
+    reply: 'Hello! How can I help you today?'
+  },
+  {
+    pattern: /\b(thanks|thank you)\b/i,
+    reply: "You're welcome."
+  },
+  {
+    pattern: /\b(bye|goodbye|see you)\b/i,
+    reply: 'Goodbye! Talk to you soon.'
+  }
+];
+
+/**
+ * Deterministic dialog engine for tests and offline use
+ */
+export class RuleDialogEngine implements DialogEngine {
+  public readonly type = DialogEngineType.RULE;
+
+  constructor(private readonly rules: readonly DialogRule[] = DEFAULT_DIALOG_RULES) {}
+
+  /**
+   * Produces a reply for the latest user message in the history
+   * @param request Dialog request with conversation history
+   * @returns Promise resolving to the rule reply or an echo of the transcript
+   */
+  public async generateReply(request: DialogRequest): Promise<Result<DialogReply>> {
+    const startTime = Date.now();
+    const lastUserMessage = [...request.history]
+      .reverse()
+      .find((message) => message.role === MessageRole.USER);
+
+    if (!lastUserMessage) {
+      return {
+        success: false,
+        data: null as unknown as DialogReply,
+        error: createError(ERROR_CODES.DIALOG_ERROR, {
+          details: 'No user message in conversation history'
+        }),
+        metadata: {}
+      };
+    }
+
+    const transcript = lastUserMessage.content.trim();
+
+    return {
+      success: true,
+      data: {
+        content: this.matchRule(transcript) ?? `You said: ${transcript}`,
+        engine: this.type,
+        latency: Date.now() - startTime,
+        finishReason: 'stop'
+      },
+      error: null,
+      metadata: {}
+    };
+  }
+
+  /**
+   * Returns the reply of the first rule matching the transcript
+   */
+  private matchRule(transcript: string): string | null {
+    for (const rule of this.rules) {
+      const match = transcript.match(rule.pattern);
+      if (match) {
+        return typeof rule.reply === 'function' ? rule.reply(match) : rule.reply;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Job Runner Service
+ * Runs scheduled jobs on an interval. Each run holds a Redis lock so that
+ * only one instance of a horizontally scaled deployment runs a job at a time.
+ * @version 1.0.0
+ */
+
+import Redis from 'ioredis'; // v5.3.2
+import { Counter, Histogram } from 'prom-client'; // v14.0.0
+import { v4 as uuidv4 } from 'uuid';
+
+import { redisConfig } from '../../config/redis.config';
+import { JobOutcome, ScheduledJob } from '../../interfaces/job.interface';
+import { logger } from '../../utils/logger.utils';
+
+/**
+ * Deletes the lock only while it is still held by the given token, so a run
+ * that outlived its lock cannot release one taken by another instance
+ */
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Resets the lock TTL only while the lock is still held by the given token
+ */
+const EXTEND_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Number of lock renewals per lock TTL, so a slow renewal still lands in time
+ */
+const LOCK_RENEWALS_PER_TTL = 3;
+
+const jobRuns = new Counter({
+  name: 'scheduled_job_runs_total',
+  help: 'Scheduled job runs by outcome',
+  labelNames: ['job', 'outcome']
+});
+
+const jobDuration = new Histogram({
+  name: 'scheduled_job_duration_seconds',
+  help: 'Duration of scheduled job runs that acquired their lock',
+  labelNames: ['job'],
+  buckets: [0.1, 1, 10, 60, 300, 900, 1800]
+});
+
+export class JobRunner {
+  private readonly jobs = new Map<string, ScheduledJob>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly running = new Map<string, Promise<JobOutcome>>();
+
+  constructor(
+    private readonly redisClient: Redis = new Redis({
+      host: redisConfig.host,
+      port: redisConfig.port,
+      password: redisConfig.password,
+      retryStrategy: redisConfig.retryStrategy,
+      tls: redisConfig.tls,
+      keyPrefix: 'jobs:',
+      lazyConnect: true
+    })
+  ) {}
+
+  /**
+   * Adds a job; it is scheduled on the next start
+   * @param job - Job to run
+   */
+  public register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Scheduled job ${job.name} is already registered`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  /**
+   * Schedules every registered job; the first run happens after one interval
+   */
+  public start(): void {
+    for (const job of this.jobs.values()) {
+      if (this.timers.has(job.name)) {
+        continue;
+      }
+
+      const timer = setInterval(() => {
+        void this.runOnce(job.name);
+      }, job.interval);
+      // Scheduled jobs must not keep the process alive on shutdown
+      timer.unref();
+      this.timers.set(job.name, timer);
+
+      logger.info('Scheduled job started', { job: job.name, interval: job.interval });
+    }
+  }
+
+  /**
+   * Stops scheduling and waits for runs in progress to finish
+   */
+  public async stop(): Promise<void> {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+
+    await Promise.all(this.running.values());
+  }
+
+  /**
+   * Runs a job now unless another run holds its lock
+   * @param name - Registered job name
+   * @returns Outcome of the run
+   */
+  public async runOnce(name: string): Promise<JobOutcome> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Scheduled job ${name} is not registered`);
+    }
+
+    if (this.running.has(name)) {
+      jobRuns.inc({ job: name, outcome: JobOutcome.SKIPPED });
+      return JobOutcome.SKIPPED;
+    }
+
+    const run = this.execute(job).finally(() => this.running.delete(name));
+    this.running.set(name, run);
+    return run;
+  }
+
+  /**
+   * Takes the lock, runs the job while renewing the lock and releases the lock
+   */
+  private async execute(job: ScheduledJob): Promise<JobOutcome> {
+    const lockKey = `lock:${job.name}`;
+    const token = uuidv4();
+
+    let acquired: string | null;
+    try {
+      acquired = await this.redisClient.set(lockKey, token, 'PX', job.lockTtl, 'NX');
+    } catch (error) {
+      logger.error('Failed to acquire scheduled job lock', { job: job.name, error });
+      jobRuns.inc({ job: job.name, outcome: JobOutcome.FAILED });
+      return JobOutcome.FAILED;
+    }
+
+    if (!acquired) {
+      logger.debug('Scheduled job locked by another instance', { job: job.name });
+      jobRuns.inc({ job: job.name, outcome: JobOutcome.SKIPPED });
+      return JobOutcome.SKIPPED;
+    }
+
+    const endTimer = jobDuration.startTimer({ job: job.name });
+    const renewal = this.renewLock(job, lockKey, token);
+    let outcome = JobOutcome.SUCCEEDED;
+    try {
+      await job.run();
+    } catch (error) {
+      outcome = JobOutcome.FAILED;
+      logger.error('Scheduled job failed', { job: job.name, error });
+    } finally {
+      clearInterval(renewal);
+      endTimer();
+      await this.redisClient.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token).catch((error) => {
+        // The lock expires on its own after its TTL
+        logger.warn('Failed to release scheduled job lock', { job: job.name, error });
+      });
+    }
+
+    jobRuns.inc({ job: job.name, outcome });
+    return outcome;
+  }
+
+  /**
+   * Keeps extending the lock while a run lasts longer than its TTL
+   * @returns Timer to clear once the run ends
+   */
+  private renewLock(job: ScheduledJob, lockKey: string, token: string): NodeJS.Timeout {
+    const timer = setInterval(() => {
+      this.redisClient.eval(EXTEND_LOCK_SCRIPT, 1, lockKey, token, job.lockTtl)
+        .then((extended) => {
+          if (!extended) {
+            logger.warn('Scheduled job lost its lock while running', { job: job.name });
+          }
+        })
+        .catch((error) => {
+          logger.warn('Failed to extend scheduled job lock', { job: job.name, error });
+        });
+    }, Math.floor(job.lockTtl / LOCK_RENEWALS_PER_TTL));
+    timer.unref();
+    return timer;
+  }
+}
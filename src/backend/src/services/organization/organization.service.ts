@@ -0,0 +1,336 @@
+/**
+ * Organization Service
+ * Manages tenants, their members and the settings applied to every member.
+ * Settings are read on hot paths (rate limiting, synthesis), so they are
+ * cached briefly per organization and invalidated on update.
+ * @version 1.0.0
+ */
+
+import {
+  DEFAULT_ORGANIZATION_SETTINGS,
+  OrganizationRepository
+} from '../../db/repositories/organization.repository';
+import { AuditService, auditService } from '../audit/audit.service';
+import {
+  IOrganizationService,
+  Organization,
+  OrganizationCreateParams,
+  OrganizationMember,
+  OrganizationRole,
+  OrganizationSettings
+} from '../../interfaces/organization.interface';
+import { VoiceSynthesisOptions } from '../../interfaces/voice.interface';
+import { AuditEventType } from '../../interfaces/audit.interface';
+import { Result, UUID } from '../../types/common.types';
+import { createError } from '../../utils/error.utils';
+import { logger } from '../../utils/logger.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
+
+// How long settings are served from memory before they are read again
+const SETTINGS_CACHE_TTL = 60000;
+
+/**
+ * Whether a database error is a unique constraint violation (Prisma P2002)
+ */
+const isUniqueViolation = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2002';
+
+export class OrganizationService implements IOrganizationService {
+  private readonly settingsCache = new Map<string, {
+    settings: OrganizationSettings;
+    expiresAt: number;
+  }>();
+
+  constructor(
+    private readonly organizationRepository: OrganizationRepository = new OrganizationRepository(),
+    private readonly audit: AuditService = auditService
+  ) {}
+
+  /**
+   * Creates an organization
+   * @param actorId - User performing the action
+   * @param params - Name, slug and initial settings
+   * @returns Created organization, VALIDATION_ERROR when the slug is taken
+   */
+  public async createOrganization(
+    actorId: UUID,
+    params: OrganizationCreateParams
+  ): Promise<Result<Organization>> {
+    try {
+      const organization = await this.organizationRepository.create(params);
+      await this.audit.tryRecord({
+        type: AuditEventType.ORGANIZATION_CREATED,
+        actorId,
+        subjectType: 'organization',
+        subjectId: organization.id,
+        details: { slug: organization.slug }
+      });
+
+      return this.success(organization);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return this.failure(ERROR_CODES.VALIDATION_ERROR, {
+          field: 'slug',
+          message: 'Slug already exists',
+          value: params.slug
+        });
+      }
+      logger.error('Failed to create organization', { error, slug: params.slug });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to create organization' });
+    }
+  }
+
+  /**
+   * Retrieves an organization
+   * @param id - Organization identifier
+   * @returns NOT_FOUND when the organization does not exist
+   */
+  public async getOrganization(id: UUID): Promise<Result<Organization>> {
+    try {
+      const organization = await this.organizationRepository.findById(id);
+      return organization
+        ? this.success(organization)
+        : this.failure(ERROR_CODES.NOT_FOUND, { message: 'Organization not found' });
+    } catch (error) {
+      logger.error('Failed to retrieve organization', { error, organizationId: id });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to retrieve organization' });
+    }
+  }
+
+  /**
+   * Replaces some of an organization's settings
+   * Each given field replaces the stored field as a whole
+   * @param actorId - User performing the action
+   * @param id - Organization identifier
+   * @param settings - Settings to replace
+   * @returns Updated organization, NOT_FOUND when it does not exist
+   */
+  public async updateSettings(
+    actorId: UUID,
+    id: UUID,
+    settings: Partial<OrganizationSettings>
+  ): Promise<Result<Organization>> {
+    try {
+      const current = await this.organizationRepository.findById(id);
+      if (!current) {
+        return this.failure(ERROR_CODES.NOT_FOUND, { message: 'Organization not found' });
+      }
+
+      const updated = await this.organizationRepository.updateSettings(id, {
+        ...current.settings,
+        ...settings
+      });
+      if (!updated) {
+        return this.failure(ERROR_CODES.NOT_FOUND, { message: 'Organization not found' });
+      }
+
+      this.settingsCache.delete(id);
+      await this.audit.tryRecord({
+        type: AuditEventType.ORGANIZATION_SETTINGS_UPDATED,
+        actorId,
+        subjectType: 'organization',
+        subjectId: id,
+        details: { fields: Object.keys(settings) }
+      });
+
+      return this.success(updated);
+    } catch (error) {
+      logger.error('Failed to update organization settings', { error, organizationId: id });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to update settings' });
+    }
+  }
+
+  /**
+   * Lists the members of an organization
+   * @param id - Organization identifier
+   * @returns Members by role, NOT_FOUND when the organization does not exist
+   */
+  public async listMembers(id: UUID): Promise<Result<OrganizationMember[]>> {
+    try {
+      const organization = await this.organizationRepository.findById(id);
+      if (!organization) {
+        return this.failure(ERROR_CODES.NOT_FOUND, { message: 'Organization not found' });
+      }
+
+      return this.success(await this.organizationRepository.findMembers(id));
+    } catch (error) {
+      logger.error('Failed to list organization members', { error, organizationId: id });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to list members' });
+    }
+  }
+
+  /**
+   * Adds a user without an organization as a member
+   * @param actorId - User performing the action
+   * @param id - Organization identifier
+   * @param userId - User to add
+   * @param role - Role within the organization
+   * @returns New member; VALIDATION_ERROR when the member quota is reached or the
+   * user already belongs to an organization
+   */
+  public async addMember(
+    actorId: UUID,
+    id: UUID,
+    userId: UUID,
+    role: OrganizationRole
+  ): Promise<Result<OrganizationMember>> {
+    try {
+      const organization = await this.organizationRepository.findById(id);
+      if (!organization) {
+        return this.failure(ERROR_CODES.NOT_FOUND, { message: 'Organization not found' });
+      }
+
+      const { maxMembers } = organization.settings.quotas;
+      if (maxMembers !== undefined) {
+        const members = await this.organizationRepository.countMembers(id);
+        if (members >= maxMembers) {
+          return this.failure(ERROR_CODES.VALIDATION_ERROR, {
+            message: 'Organization member limit reached',
+            maxMembers
+          });
+        }
+      }
+
+      const member = await this.organizationRepository.addMember(id, userId, role);
+      if (!member) {
+        return this.failure(ERROR_CODES.VALIDATION_ERROR, {
+          field: 'userId',
+          message: 'User does not exist or already belongs to an organization',
+          value: userId
+        });
+      }
+
+      await this.audit.tryRecord({
+        type: AuditEventType.ORGANIZATION_MEMBER_ADDED,
+        actorId,
+        subjectType: 'organization',
+        subjectId: id,
+        details: { userId, role }
+      });
+
+      return this.success(member);
+    } catch (error) {
+      logger.error('Failed to add organization member', { error, organizationId: id, userId });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to add member' });
+    }
+  }
+
+  /**
+   * Removes a member from an organization
+   * The member's existing tokens keep the organization claim until they expire
+   * @param actorId - User performing the action
+   * @param id - Organization identifier
+   * @param userId - Member to remove
+   * @returns NOT_FOUND when the user is not a member
+   */
+  public async removeMember(actorId: UUID, id: UUID, userId: UUID): Promise<Result<void>> {
+    try {
+      const removed = await this.organizationRepository.removeMember(id, userId);
+      if (!removed) {
+        return this.failure(ERROR_CODES.NOT_FOUND, { message: 'Member not found' });
+      }
+
+      await this.audit.tryRecord({
+        type: AuditEventType.ORGANIZATION_MEMBER_REMOVED,
+        actorId,
+        subjectType: 'organization',
+        subjectId: id,
+        details: { userId }
+      });
+
+      return this.success(undefined);
+    } catch (error) {
+      logger.error('Failed to remove organization member', { error, organizationId: id, userId });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to remove member' });
+    }
+  }
+
+  /**
+   * Retrieves the settings that apply to a user
+   * @param organizationId - User's organization, null for users without one
+   * @returns Organization settings, the defaults for users without an organization
+   */
+  public async getSettings(organizationId: UUID | null): Promise<Result<OrganizationSettings>> {
+    if (!organizationId) {
+      return this.success(DEFAULT_ORGANIZATION_SETTINGS);
+    }
+
+    const cached = this.settingsCache.get(organizationId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return this.success(cached.settings);
+    }
+
+    const result = await this.getOrganization(organizationId);
+    if (!result.success) {
+      return this.propagate(result);
+    }
+
+    this.settingsCache.set(organizationId, {
+      settings: result.data.settings,
+      expiresAt: Date.now() + SETTINGS_CACHE_TTL
+    });
+    return this.success(result.data.settings);
+  }
+
+  /**
+   * Applies an organization's voice defaults and language restriction to synthesis options
+   * Without a requested language, the first allowed language is used
+   * @param organizationId - User's organization, null for users without one
+   * @param requested - Options set by the request; undefined fields are not set
+   * @returns Requested options over the organization defaults, VALIDATION_ERROR when
+   * the language is not allowed
+   */
+  public async resolveVoiceOptions(
+    organizationId: UUID | null,
+    requested: Partial<VoiceSynthesisOptions>
+  ): Promise<Result<Partial<VoiceSynthesisOptions>>> {
+    const settingsResult = await this.getSettings(organizationId);
+    if (!settingsResult.success) {
+      return this.propagate(settingsResult);
+    }
+
+    const { voiceDefaults, allowedLanguages } = settingsResult.data;
+    const defined = Object.fromEntries(
+      Object.entries(requested).filter(([, value]) => value !== undefined)
+    ) as Partial<VoiceSynthesisOptions>;
+    const options = { ...voiceDefaults, ...defined };
+
+    if (allowedLanguages.length === 0) {
+      return this.success(options);
+    }
+    if (!options.languageCode) {
+      return this.success({ ...options, languageCode: allowedLanguages[0] });
+    }
+    if (!allowedLanguages.includes(options.languageCode)) {
+      return this.failure(ERROR_CODES.VALIDATION_ERROR, {
+        field: 'languageCode',
+        message: 'Language is not allowed for this organization',
+        value: options.languageCode,
+        allowed: allowedLanguages
+      });
+    }
+    return this.success(options);
+  }
+
+  private success<T>(data: T): Result<T> {
+    return { success: true, data, error: null, metadata: {} };
+  }
+
+  /**
+   * Failure result carrying the error of a failed nested call
+   */
+  private propagate<T>(result: Result<unknown>): Result<T> {
+    return { success: false, data: null as unknown as T, error: result.error, metadata: {} };
+  }
+
+  private failure<T>(code: ERROR_CODES, details: Record<string, unknown>): Result<T> {
+    return {
+      success: false,
+      data: null as unknown as T,
+      error: createError(code, details),
+      metadata: {}
+    };
+  }
+}
+
+export const organizationService = new OrganizationService();
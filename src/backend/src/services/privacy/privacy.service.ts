@@ -0,0 +1,324 @@
+/**
+ * Privacy Service
+ * Hands users a copy of everything held about them and erases their account
+ * on request. Both operations are recorded in the audit log; the audit event
+ * of an erasure is the deletion receipt.
+ * @version 1.0.0
+ */
+
+import Redis from 'ioredis'; // v5.3.2
+
+import { UserRepository } from '../../db/repositories/user.repository';
+import { SessionRepository } from '../../db/repositories/session.repository';
+import { ConversationRepository } from '../../db/repositories/conversation.repository';
+import { MessageRepository } from '../../db/repositories/message.repository';
+import { AudioStorageService } from '../storage/audioStorage.service';
+import { AuditService, auditService } from '../audit/audit.service';
+import { JWTService, jwtService } from '../auth/jwt.service';
+import { IUser } from '../../interfaces/user.interface';
+import { Conversation } from '../../interfaces/conversation.interface';
+import { Message } from '../../interfaces/message.interface';
+import { AuditEvent, AuditEventType } from '../../interfaces/audit.interface';
+import {
+  EXPORT_FORMAT_VERSION,
+  ErasureReceipt,
+  ExportCounts,
+  ExportRecord,
+  PrivacyRequestContext
+} from '../../interfaces/privacy.interface';
+import { Result, Timestamp, UUID } from '../../types/common.types';
+import { createError } from '../../utils/error.utils';
+import { logger } from '../../utils/logger.utils';
+import { redisConfig } from '../../config/redis.config';
+import { ERROR_CODES } from '../../constants/error.constants';
+
+// Conversations loaded per step while building an export
+const EXPORT_PAGE_SIZE = 50;
+
+/**
+ * Cache entries derived from a user's conversations and sessions
+ */
+const cacheKeysOf = (sessionIds: UUID[], conversationIds: UUID[]): string[] => [
+  ...conversationIds.flatMap((id) => [
+    `conversation:${id}:context`,
+    `conversation:${id}:metrics`
+  ]),
+  ...sessionIds.map((id) => `session:${id}`)
+];
+
+export class PrivacyService {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly sessionRepository: SessionRepository,
+    private readonly conversationRepository: ConversationRepository,
+    private readonly messageRepository: MessageRepository,
+    private readonly audioStorage: AudioStorageService,
+    private readonly audit: AuditService = auditService,
+    private readonly tokens: JWTService = jwtService,
+    private readonly redisClient: Redis = new Redis({
+      host: redisConfig.host,
+      port: redisConfig.port,
+      password: redisConfig.password,
+      retryStrategy: redisConfig.retryStrategy,
+      tls: redisConfig.tls,
+      lazyConnect: true
+    })
+  ) {}
+
+  /**
+   * Prepares an export of everything held about a user
+   * The export is audited before any data is produced; records are read lazily
+   * so recordings are streamed one at a time
+   * @param userId - User requesting the export
+   * @param context - Client that made the request
+   * @returns NDJSON records in bundle order
+   */
+  public async exportUserData(
+    userId: UUID,
+    context: PrivacyRequestContext
+  ): Promise<Result<AsyncIterable<ExportRecord>>> {
+    const user = await this.userRepository.getUserById(userId);
+    if (!user.success) {
+      return {
+        success: false,
+        data: null as unknown as AsyncIterable<ExportRecord>,
+        error: user.error,
+        metadata: {}
+      };
+    }
+
+    try {
+      await this.audit.record({
+        type: AuditEventType.DATA_EXPORTED,
+        actorId: userId,
+        subjectType: 'user',
+        subjectId: userId,
+        details: { format: 'ndjson', version: EXPORT_FORMAT_VERSION },
+        ipAddress: context.ip,
+        userAgent: context.userAgent
+      });
+    } catch (error) {
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Audit log unavailable' });
+    }
+
+    return {
+      success: true,
+      data: this.exportRecords(this.toProfile(user.data)),
+      error: null,
+      metadata: { version: EXPORT_FORMAT_VERSION }
+    };
+  }
+
+  /**
+   * Erases a user account and everything derived from it
+   * Tokens are revoked first so the user cannot create data while it is removed.
+   * Recordings that cannot be removed from storage are logged for cleanup and
+   * counted in the receipt rather than failing an erasure that has already happened.
+   * @param userId - User whose account is erased
+   * @param context - Client that made the request
+   * @returns Deletion receipt
+   */
+  public async eraseUser(
+    userId: UUID,
+    context: PrivacyRequestContext
+  ): Promise<Result<ErasureReceipt>> {
+    try {
+      await this.tokens.invalidateUserTokens(userId);
+    } catch (error) {
+      logger.error('Failed to revoke tokens before erasure', { error, userId });
+      return this.failure(ERROR_CODES.SYSTEM_ERROR, { message: 'Failed to revoke user tokens' });
+    }
+
+    const deletion = await this.userRepository.deleteUser(userId);
+    if (!deletion.success) {
+      return {
+        success: false,
+        data: null as unknown as ErasureReceipt,
+        error: deletion.error,
+        metadata: {}
+      };
+    }
+
+    const { sessionIds, conversationIds, messages, recordingPaths } = deletion.data;
+
+    let recordingsPendingRemoval = 0;
+    for (const filePath of recordingPaths) {
+      const removed = await this.audioStorage.deleteAudioFile(filePath);
+      if (!removed.success) {
+        recordingsPendingRemoval++;
+        logger.error('Failed to remove recording of erased user', {
+          userId,
+          filePath,
+          error: removed.error
+        });
+      }
+    }
+
+    const cacheKeys = await this.purgeCaches(userId, sessionIds, conversationIds);
+
+    const details = {
+      sessions: sessionIds.length,
+      conversations: conversationIds.length,
+      messages,
+      recordings: recordingPaths.length,
+      recordingsPendingRemoval,
+      cacheKeys
+    };
+
+    let event: AuditEvent | null = null;
+    try {
+      event = await this.audit.record({
+        type: AuditEventType.ACCOUNT_DELETED,
+        actorId: userId,
+        subjectType: 'user',
+        subjectId: userId,
+        details,
+        ipAddress: context.ip,
+        userAgent: context.userAgent
+      });
+    } catch (error) {
+      logger.error('Failed to record deletion receipt', { error, userId, ...details });
+    }
+
+    return {
+      success: true,
+      data: {
+        receiptId: event?.id ?? null,
+        hash: event?.hash ?? null,
+        userId,
+        deletedAt: (event?.createdAt ?? Date.now()) as Timestamp,
+        ...details
+      },
+      error: null,
+      metadata: {}
+    };
+  }
+
+  /**
+   * Reads the export bundle: manifest, profile, sessions, then each conversation
+   * followed by its messages and recordings, closed by a summary
+   */
+  private async *exportRecords(profile: IUser): AsyncGenerator<ExportRecord> {
+    const counts: ExportCounts = { sessions: 0, conversations: 0, messages: 0, recordings: 0 };
+
+    yield {
+      type: 'manifest',
+      version: EXPORT_FORMAT_VERSION,
+      userId: profile.id,
+      exportedAt: Date.now() as Timestamp
+    };
+    yield { type: 'profile', data: profile };
+
+    const organizationId = profile.organizationId ?? null;
+
+    for (const session of await this.sessionRepository.findSessionsByUser(profile.id)) {
+      counts.sessions++;
+      yield { type: 'session', data: session };
+    }
+
+    let cursor: string | undefined;
+    do {
+      const page = await this.conversationRepository.findByUser(profile.id, organizationId, {
+        cursor,
+        limit: EXPORT_PAGE_SIZE
+      });
+      if (!page.success || !page.data) {
+        throw page.error ?? new Error('Failed to list conversations');
+      }
+
+      for (const item of page.data.items) {
+        const conversation = await this.conversationRepository.findById(
+          item.id,
+          profile.id,
+          organizationId
+        );
+        if (!conversation.success || !conversation.data) {
+          throw conversation.error ?? new Error('Failed to read conversation');
+        }
+
+        const { messages, ...rest } = conversation.data;
+        counts.conversations++;
+        yield { type: 'conversation', data: rest as unknown as Omit<Conversation, 'messages'> };
+
+        for (const message of messages) {
+          counts.messages++;
+          yield { type: 'message', data: message as unknown as Message };
+        }
+
+        const recordings = await this.messageRepository.findAudioRecordings(item.id as UUID);
+        if (!recordings.success) {
+          throw new Error(recordings.error?.message ?? 'Failed to list recordings');
+        }
+
+        for (const recording of recordings.data) {
+          const audio = await this.audioStorage.readAudioFile(recording.storagePath);
+          if (!audio.success) {
+            throw new Error(audio.error?.message ?? 'Failed to read recording');
+          }
+
+          counts.recordings++;
+          yield {
+            type: 'audio',
+            data: {
+              audioRecordingId: recording.audioRecordingId,
+              messageId: recording.messageId,
+              conversationId: item.id as UUID,
+              format: audio.data.format,
+              data: audio.data.data.toString('base64')
+            }
+          };
+        }
+      }
+
+      cursor = page.data.pagination.nextCursor ?? undefined;
+    } while (cursor);
+
+    yield { type: 'summary', counts };
+  }
+
+  /**
+   * Removes cached conversation context and session state
+   * Keys are deleted one at a time as they may live on different cluster nodes
+   * @returns Number of entries removed
+   */
+  private async purgeCaches(
+    userId: UUID,
+    sessionIds: UUID[],
+    conversationIds: UUID[]
+  ): Promise<number> {
+    try {
+      const removed = await Promise.all(
+        cacheKeysOf(sessionIds, conversationIds).map((key) => this.redisClient.del(key))
+      );
+      return removed.reduce((total, count) => total + count, 0);
+    } catch (error) {
+      logger.error('Failed to purge cached data of erased user', { error, userId });
+      return 0;
+    }
+  }
+
+  /**
+   * Profile fields of a user, leaving out credentials
+   */
+  private toProfile(user: IUser): IUser {
+    return {
+      id: user.id,
+      email: user.email,
+      status: user.status,
+      organizationId: user.organizationId,
+      organizationRole: user.organizationRole,
+      preferences: user.preferences,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt
+    };
+  }
+
+  private failure<T>(code: ERROR_CODES, details: Record<string, unknown>): Result<T> {
+    return {
+      success: false,
+      data: null as unknown as T,
+      error: createError(code, details),
+      metadata: {}
+    };
+  }
+}
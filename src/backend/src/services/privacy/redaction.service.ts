@@ -0,0 +1,154 @@
+/**
+ * Redaction Service
+ * Removes personal data from message content before it is stored. Each
+ * replacement is recorded as a span; when policy retains originals the span
+ * carries the encrypted value so authorized administrators can reveal it.
+ * @version 1.0.0
+ */
+
+import { createHmac } from 'node:crypto';
+
+import {
+  PiiMatch,
+  RedactionMode,
+  RedactionResult,
+  RedactionSpan
+} from '../../interfaces/redaction.interface';
+import { RedactionConfig } from '../../types/config.types';
+import { redactionConfig } from '../../config/redaction.config';
+import { decryptAES, encryptAES } from '../../utils/crypto.utils';
+import {
+  PiiDetector,
+  createDetectors,
+  detectPii,
+  maskValue,
+  replacePii
+} from '../../utils/redaction.utils';
+import { logger } from '../../utils/logger.utils';
+
+/**
+ * Hex characters of the keyed hash kept in hash mode replacements
+ */
+const HASH_LENGTH = 12;
+
+export class RedactionService {
+  private readonly detectors: PiiDetector[];
+  private readonly key: Buffer;
+
+  constructor(private readonly config: RedactionConfig = redactionConfig) {
+    this.detectors = createDetectors(config.entities, config.customPatterns);
+    this.key = Buffer.from(config.key, 'hex');
+  }
+
+  /**
+   * Replaces the personal data in a text according to the configured mode
+   * @param text - Text to redact
+   * @returns Redacted text and one span per replacement
+   */
+  public async redact(text: string): Promise<RedactionResult> {
+    if (!this.config.enabled || !text) {
+      return { content: text, spans: [] };
+    }
+
+    const matches = detectPii(text, this.detectors);
+    if (matches.length === 0) {
+      return { content: text, spans: [] };
+    }
+
+    const mode = this.config.mode as RedactionMode;
+    const tokens = new Map<string, string>();
+    const { content, ranges } = replacePii(text, matches, (match) =>
+      this.replacement(mode, match, tokens)
+    );
+
+    const spans = await Promise.all(matches.map(async (match, index): Promise<RedactionSpan> => ({
+      entity: match.entity,
+      ...ranges[index],
+      mode,
+      ...(this.config.retainOriginals && { original: await this.seal(match.value) })
+    })));
+
+    return { content, spans };
+  }
+
+  /**
+   * Restores the originals retained in redaction spans
+   * Spans without a retained original keep their replacement
+   * @param content - Redacted text
+   * @param spans - Spans recorded when the text was redacted
+   * @returns Text with every retained original restored
+   */
+  public async reveal(content: string, spans: readonly RedactionSpan[]): Promise<string> {
+    const ordered = [...spans].sort((a, b) => b.start - a.start);
+
+    let revealed = content;
+    for (const span of ordered) {
+      if (!span.original) {
+        continue;
+      }
+      const original = await this.unseal(span.original);
+      if (original !== null) {
+        revealed = revealed.slice(0, span.start) + original + revealed.slice(span.end);
+      }
+    }
+    return revealed;
+  }
+
+  /**
+   * Produces the replacement for one match
+   * Tokenize mode numbers values per entity and reuses the token for repeated values
+   */
+  private replacement(mode: RedactionMode, match: PiiMatch, tokens: Map<string, string>): string {
+    const label = match.entity.toUpperCase();
+    switch (mode) {
+      case RedactionMode.MASK:
+        return maskValue(match.entity, match.value);
+      case RedactionMode.HASH: {
+        const digest = createHmac('sha256', this.key)
+          .update(`${match.entity}:${match.value}`)
+          .digest('hex');
+        return `[${label}:${digest.slice(0, HASH_LENGTH)}]`;
+      }
+      default: {
+        const key = `${match.entity}:${match.value}`;
+        if (!tokens.has(key)) {
+          const count = [...tokens.keys()].filter((k) => k.startsWith(`${match.entity}:`)).length;
+          tokens.set(key, `[${label}_${count + 1}]`);
+        }
+        return tokens.get(key) as string;
+      }
+    }
+  }
+
+  /**
+   * Encrypts an original value as iv.tag.ciphertext in base64
+   * A value that cannot be encrypted is dropped rather than stored in clear
+   */
+  private async seal(value: string): Promise<string | undefined> {
+    const result = await encryptAES(Buffer.from(value, 'utf8'), this.key);
+    if (!result.success) {
+      logger.warn('Failed to retain redacted value', { error: result.error });
+      return undefined;
+    }
+    const { iv, tag, ciphertext } = result.data;
+    return [iv, tag, ciphertext].map((part) => part.toString('base64')).join('.');
+  }
+
+  /**
+   * Decrypts a value sealed by seal
+   */
+  private async unseal(sealed: string): Promise<string | null> {
+    const [iv, tag, ciphertext] = sealed.split('.').map((part) => Buffer.from(part, 'base64'));
+    if (!iv || !tag || !ciphertext) {
+      return null;
+    }
+    const result = await decryptAES(ciphertext, this.key, iv, tag);
+    if (!result.success) {
+      logger.warn('Failed to reveal redacted value', { error: result.error });
+      return null;
+    }
+    return result.data.toString('utf8');
+  }
+}
+
+export const redactionService = new RedactionService();
@@ -0,0 +1,282 @@
+/**
+ * Retention Service
+ * Enforces retention policies: removes recordings and transcripts past their
+ * retention period and redacts message content that is kept longer than its
+ * text may be. Runs as a scheduled job; a dry run only reports what would go.
+ * @version 1.0.0
+ */
+
+import { Counter } from 'prom-client'; // v14.0.0
+
+import { RetentionRepository } from '../../db/repositories/retention.repository';
+import { OrganizationRepository } from '../../db/repositories/organization.repository';
+import { AudioStorageService } from '../storage/audioStorage.service';
+import { AuditService, auditService } from '../audit/audit.service';
+import {
+  RetentionPolicy,
+  RetentionReport,
+  RetentionScope,
+  RetentionTarget
+} from '../../interfaces/retention.interface';
+import { AuditEventType } from '../../interfaces/audit.interface';
+import { RetentionConfig } from '../../types/config.types';
+import { retentionConfig } from '../../config/retention.config';
+import { logger } from '../../utils/logger.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Records removed by retention runs, registered once and shared by every service instance
+ */
+const retainedRecords = new Counter({
+  name: 'retention_records_total',
+  help: 'Records removed or redacted by retention policies; dry runs count what would be',
+  labelNames: ['policy', 'kind', 'dry_run']
+});
+
+/**
+ * Precedence of a scope; an organization policy overrides a role policy
+ */
+const precedence = (scope: RetentionScope): number =>
+  (scope.organizationId ? 2 : 0) + (scope.role ? 1 : 0);
+
+/**
+ * Whether some user can match both scopes
+ */
+const overlaps = (a: RetentionScope, b: RetentionScope): boolean =>
+  !(a.role && b.role && a.role !== b.role) &&
+  !(a.organizationId && b.organizationId && a.organizationId !== b.organizationId);
+
+/**
+ * Users a policy acts on: its scope minus the scopes of overlapping policies that take precedence
+ * @param policy Policy to run
+ * @param policies Every configured policy
+ */
+export const retentionTarget = (
+  policy: RetentionPolicy,
+  policies: readonly RetentionPolicy[]
+): RetentionTarget => ({
+  include: policy.scope,
+  exclude: policies
+    .filter((other) => precedence(other.scope) > precedence(policy.scope))
+    .filter((other) => overlaps(other.scope, policy.scope))
+    .map((other) => other.scope)
+});
+
+export class RetentionService {
+  constructor(
+    private readonly retentionRepository: RetentionRepository,
+    private readonly audioStorage: AudioStorageService,
+    private readonly audit: AuditService = auditService,
+    private readonly config: RetentionConfig = retentionConfig,
+    private readonly organizationRepository: OrganizationRepository = new OrganizationRepository()
+  ) {}
+
+  /**
+   * Applies every configured policy and the retention settings of each organization
+   * @param dryRun - Report without removing anything, defaults to the configured mode
+   * @returns One report per policy
+   */
+  public async run(dryRun: boolean = this.config.dryRun): Promise<RetentionReport[]> {
+    const policies = await this.policies();
+    const reports: RetentionReport[] = [];
+    for (const policy of policies) {
+      reports.push(await this.applyPolicy(policy, dryRun, Date.now(), policies));
+    }
+    return reports;
+  }
+
+  /**
+   * Configured policies combined with the organizations' retention settings
+   * An organization's settings replace a configured policy for that organization alone
+   * @returns Policies in effect
+   */
+  public async policies(): Promise<RetentionPolicy[]> {
+    const organizations = await this.organizationRepository.findWithRetention();
+    const tenantPolicies: RetentionPolicy[] = organizations.map((organization) => ({
+      id: `org:${organization.slug}`,
+      scope: { organizationId: organization.id },
+      ...(organization.settings.retention as NonNullable<typeof organization.settings.retention>)
+    }));
+
+    // Configured scopes carry plain ids read from the environment
+    const replaced = new Set<string>(organizations.map((organization) => organization.id));
+    const configured = this.config.policies.filter((policy) =>
+      !(policy.scope.organizationId && !policy.scope.role &&
+        replaced.has(policy.scope.organizationId))
+    );
+    return [...configured, ...tenantPolicies];
+  }
+
+  /**
+   * Applies one policy to the users it governs
+   * @param policy - Policy to apply
+   * @param dryRun - Report without removing anything
+   * @param now - Reference time for the retention periods
+   * @param policies - Every policy in effect, used to leave out users of more specific ones
+   * @returns Records removed, or that would be removed in a dry run
+   */
+  public async applyPolicy(
+    policy: RetentionPolicy,
+    dryRun: boolean,
+    now: number = Date.now(),
+    policies: readonly RetentionPolicy[] = this.config.policies
+  ): Promise<RetentionReport> {
+    const target = retentionTarget(policy, policies);
+    const audioCutoff = new Date(now - policy.audioDays * DAY_MS);
+    const transcriptCutoff = new Date(now - policy.transcriptDays * DAY_MS);
+    const redactCutoff = policy.redactAfterDays === null
+      ? null
+      : new Date(now - policy.redactAfterDays * DAY_MS);
+
+    const report = dryRun
+      ? await this.measure(policy, target, audioCutoff, transcriptCutoff, redactCutoff)
+      : await this.enforce(policy, target, audioCutoff, transcriptCutoff, redactCutoff);
+
+    const counts = {
+      recording: report.recordings,
+      conversation: report.conversations,
+      message: report.messages,
+      redacted_message: report.redactedMessages
+    };
+    for (const [kind, count] of Object.entries(counts)) {
+      retainedRecords.inc({ policy: policy.id, kind, dry_run: String(dryRun) }, count);
+    }
+
+    logger.info('Retention policy applied', { ...report });
+    return report;
+  }
+
+  /**
+   * Counts what a run would remove
+   */
+  private async measure(
+    policy: RetentionPolicy,
+    target: RetentionTarget,
+    audioCutoff: Date,
+    transcriptCutoff: Date,
+    redactCutoff: Date | null
+  ): Promise<RetentionReport> {
+    const recordings = await this.retentionRepository.countExpiredRecordings(target, audioCutoff);
+    const transcripts = await this.retentionRepository.countExpiredTranscripts(
+      target,
+      transcriptCutoff
+    );
+    const redactedMessages = redactCutoff
+      ? await this.retentionRepository.countUnredactedMessages(
+        target,
+        redactCutoff,
+        transcriptCutoff
+      )
+      : 0;
+
+    return {
+      policyId: policy.id,
+      dryRun: true,
+      recordings,
+      recordingFailures: 0,
+      ...transcripts,
+      redactedMessages
+    };
+  }
+
+  /**
+   * Removes recordings, then transcripts, then redacts what is kept, batch by batch
+   */
+  private async enforce(
+    policy: RetentionPolicy,
+    target: RetentionTarget,
+    audioCutoff: Date,
+    transcriptCutoff: Date,
+    redactCutoff: Date | null
+  ): Promise<RetentionReport> {
+    const { batchSize } = this.config;
+    const failed = new Set<string>();
+    let recordings = 0;
+
+    // Files that cannot be removed stay selected; stop once a batch makes no progress
+    for (;;) {
+      const batch = await this.retentionRepository.findExpiredRecordings(
+        target,
+        audioCutoff,
+        batchSize
+      );
+      if (batch.length === 0) {
+        break;
+      }
+
+      await this.retentionRepository.detachRecordings(batch.map((recording) => recording.id));
+
+      let removed = 0;
+      for (const recording of batch) {
+        const result = await this.audioStorage.deleteAudioFile(recording.storagePath);
+        if (result.success) {
+          removed++;
+        } else {
+          failed.add(recording.id);
+          logger.error('Failed to remove expired recording', {
+            policyId: policy.id,
+            filePath: recording.storagePath,
+            error: result.error
+          });
+        }
+      }
+
+      recordings += removed;
+      if (removed === 0 || batch.length < batchSize) {
+        break;
+      }
+    }
+
+    let conversations = 0;
+    let messages = 0;
+    for (;;) {
+      const deleted = await this.retentionRepository.deleteExpiredTranscripts(
+        target,
+        transcriptCutoff,
+        batchSize
+      );
+      conversations += deleted.conversations;
+      messages += deleted.messages;
+      if (deleted.conversations < batchSize) {
+        break;
+      }
+    }
+
+    let redactedMessages = 0;
+    if (redactCutoff) {
+      for (;;) {
+        const redacted = await this.retentionRepository.redactMessages(
+          target,
+          redactCutoff,
+          transcriptCutoff,
+          batchSize
+        );
+        redactedMessages += redacted;
+        if (redacted < batchSize) {
+          break;
+        }
+      }
+    }
+
+    const details = {
+      recordings,
+      recordingFailures: failed.size,
+      conversations,
+      messages,
+      redactedMessages
+    };
+
+    if (Object.values(details).some((count) => count > 0)) {
+      await this.audit.tryRecord({
+        type: AuditEventType.RETENTION_APPLIED,
+        actorId: null,
+        subjectType: 'retention_policy',
+        subjectId: policy.id,
+        details
+      });
+    }
+
+    return { policyId: policy.id, dryRun: false, ...details };
+  }
+}
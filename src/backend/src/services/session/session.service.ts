@@ -4,8 +4,15 @@ import { RateLimiter } from 'rate-limiter-flexible'; // v2.4.1
 import { ISessionState, SessionStatus } from '../../interfaces/session.interface';
 import { SessionRepository } from '../../db/repositories/session.repository';
 import { JWTService } from '../auth/jwt.service';
+import { AuditService, auditService } from '../audit/audit.service';
+import { AuditEventType } from '../../interfaces/audit.interface';
 import { createError } from '../../utils/error.utils';
 import { ERROR_CODES } from '../../constants/error.constants';
+import {
+  Permission,
+  SESSION_LIFETIMES,
+  hasPermission
+} from '../../constants/auth.constants';
 import { UUID } from '../../types/common.types';
 
 /**
@@ -35,7 +42,8 @@ export class SessionService {
   constructor(
     private readonly sessionRepository: SessionRepository,
     private readonly logger: Logger,
-    private readonly jwtService: JWTService
+    private readonly jwtService: JWTService,
+    private readonly audit: AuditService = auditService
   ) {
     // Initialize circuit breaker for Redis operations
     this.circuitBreaker = new CircuitBreaker(
@@ -82,7 +90,10 @@ export class SessionService {
           securityFlags: {
             isSecureContext: metadata.isSecure,
             isTrustedDevice: metadata.isTrusted
-          }
+          },
+          lifetime: hasPermission(metadata.role, Permission.SESSION_EXTENDED)
+            ? SESSION_LIFETIMES.EXTENDED
+            : SESSION_LIFETIMES.STANDARD
         })
       );
 
@@ -99,6 +110,16 @@ export class SessionService {
       this.metrics.activeCount++;
       this.metrics.totalCreated++;
 
+      await this.audit.tryRecord({
+        type: AuditEventType.SESSION_CREATED,
+        actorId: userId,
+        subjectType: 'session',
+        subjectId: session.id,
+        details: { lifetime: session.metadata?.lifetime ?? SESSION_LIFETIMES.STANDARD },
+        ipAddress: metadata.ipAddress,
+        userAgent: metadata.userAgent
+      });
+
       this.logger.info('Session created successfully', {
         userId,
         sessionId: session.id,
@@ -179,11 +200,104 @@ export class SessionService {
     }
   }
 
+  /**
+   * Binds a voice stream connection to the user's session
+   * A newer connection replaces any connection already bound to the session
+   * @param sessionId - Session the connection belongs to
+   * @param userId - Authenticated user of the connection
+   * @param connectionId - WebSocket connection identifier
+   * @returns Updated session state
+   */
+  public async bindConnection(
+    sessionId: UUID,
+    userId: UUID,
+    connectionId: string
+  ): Promise<ISessionState> {
+    const session = await this.circuitBreaker.fire(
+      () => this.sessionRepository.getSession(sessionId)
+    );
+
+    if (!session) {
+      throw createError(ERROR_CODES.NOT_FOUND, {
+        message: 'Session not found'
+      });
+    }
+
+    if (session.userId !== userId || session.status === SessionStatus.EXPIRED) {
+      throw createError(ERROR_CODES.AUTH_ERROR, {
+        message: 'Session is not available for this connection'
+      });
+    }
+
+    if (session.wsConnectionId && session.wsConnectionId !== connectionId) {
+      this.logger.info('Replacing session connection', {
+        sessionId,
+        previousConnectionId: session.wsConnectionId,
+        connectionId
+      });
+    }
+
+    return this.circuitBreaker.fire(
+      () => this.sessionRepository.updateSession(sessionId, {
+        wsConnectionId: connectionId,
+        status: SessionStatus.ACTIVE
+      })
+    );
+  }
+
+  /**
+   * Clears the session's connection binding if it still points at the connection
+   * @param sessionId - Session the connection belonged to
+   * @param connectionId - Closed WebSocket connection identifier
+   */
+  public async releaseConnection(sessionId: UUID, connectionId: string): Promise<void> {
+    try {
+      const session = await this.circuitBreaker.fire(
+        () => this.sessionRepository.getSession(sessionId)
+      );
+
+      if (session?.wsConnectionId === connectionId) {
+        await this.circuitBreaker.fire(
+          () => this.sessionRepository.updateSession(sessionId, { wsConnectionId: null })
+        );
+      }
+    } catch (error) {
+      this.logger.warn('Failed to release session connection', {
+        sessionId,
+        connectionId,
+        error: error.message
+      });
+    }
+  }
+
+  /**
+   * Lists a user's active sessions
+   * @param userId - Owner of the sessions
+   * @returns Sessions that have neither ended nor expired
+   */
+  public async listActiveSessions(userId: UUID): Promise<ISessionState[]> {
+    try {
+      return await this.circuitBreaker.fire(
+        () => this.sessionRepository.findActiveSessions(userId)
+      );
+    } catch (error) {
+      this.logger.error('Failed to list active sessions', {
+        userId,
+        error: error.message
+      });
+      throw createError(ERROR_CODES.SYSTEM_ERROR, {
+        message: 'Failed to list active sessions',
+        originalError: error
+      });
+    }
+  }
+
   /**
    * Ends user session with cleanup
    * @param sessionId - Session ID to end
+   * @param actorId - User ending the session, defaults to its owner
    */
-  public async endSession(sessionId: UUID): Promise<void> {
+  public async endSession(sessionId: UUID, actorId?: UUID): Promise<void> {
     try {
       const session = await this.circuitBreaker.fire(
         () => this.sessionRepository.getSession(sessionId)
@@ -202,6 +316,14 @@ export class SessionService {
         this.metrics.totalExpired++;
         this.updateAverageSessionDuration(session);
 
+        await this.audit.tryRecord({
+          type: AuditEventType.SESSION_ENDED,
+          actorId: actorId ?? session.userId,
+          subjectType: 'session',
+          subjectId: sessionId,
+          details: { durationMs: Date.now() - session.startTime }
+        });
+
         this.logger.info('Session ended successfully', { sessionId });
       }
     } catch (error) {
@@ -1,8 +1,8 @@
 import { S3, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { createCipheriv, createDecipheriv, randomBytes, DecipherGCM } from 'crypto';
 import { AudioChunk, AudioFormat } from '../../types/audio.types';
-import { Result, UUID } from '../../types/common.types';
+import { Result, Timestamp, UUID } from '../../types/common.types';
 import { prisma } from '../../config/database.config';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -10,7 +10,7 @@ import { v4 as uuidv4 } from 'uuid';
  * Interface for S3 client configuration
  * @version 1.0.0
  */
-interface S3ClientConfig {
+export interface S3ClientConfig {
   region: string;
   bucketName: string;
   endpoint?: string;
@@ -208,6 +208,55 @@ export class AudioStorageService {
     }
   }
 
+  /**
+   * Downloads and decrypts an audio file
+   * @param filePath - Path to the audio file
+   * @returns Promise with the decrypted audio and its format
+   */
+  async readAudioFile(filePath: string): Promise<Result<{ data: Buffer; format: AudioFormat }>> {
+    try {
+      const object = await this.s3Client.send(new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: filePath
+      }));
+
+      const metadata = object.Metadata ?? {};
+      if (!object.Body || !metadata.encryptionkey || !metadata.iv || !metadata.authtag) {
+        throw new Error('Audio file is missing its encryption metadata');
+      }
+
+      // S3 returns user metadata keys in lower case
+      const decipher = createDecipheriv(
+        this.algorithm,
+        Buffer.from(metadata.encryptionkey, 'hex'),
+        Buffer.from(metadata.iv, 'hex')
+      ) as DecipherGCM;
+      decipher.setAuthTag(Buffer.from(metadata.authtag, 'hex'));
+
+      const encryptedData = Buffer.from(await object.Body.transformToByteArray());
+      const data = Buffer.concat([decipher.update(encryptedData), decipher.final()]);
+
+      return {
+        success: true,
+        data: { data, format: metadata.format as AudioFormat },
+        error: null,
+        metadata: { filePath }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        data: null as unknown as { data: Buffer; format: AudioFormat },
+        error: {
+          code: 'RETRIEVAL_ERROR',
+          message: 'Failed to read audio file',
+          details: { error: error instanceof Error ? error.message : String(error) },
+          timestamp: Date.now() as Timestamp
+        },
+        metadata: {}
+      };
+    }
+  }
+
   /**
    * Deletes an audio file with audit logging
    * @param filePath - Path to the audio file
@@ -5,6 +5,7 @@
  */
 
 import { injectable } from 'inversify';
+import { WebSocket } from 'ws'; // ^8.13.0
 import { Subject, BehaviorSubject } from 'rxjs';
 import { retry } from 'rxjs/operators';
 import { 
@@ -12,12 +13,22 @@ import {
   WebSocketMessage, 
   WebSocketMessageType,
   WebSocketAudioMessage,
+  WebSocketInterruptMessage,
+  WebSocketTurnModeMessage,
+  TurnTakingMode,
   ErrorCategory,
   ConnectionQualityMetrics
 } from '../../types/websocket.types';
+import { WEBSOCKET_PROTOCOLS } from '../../constants/websocket.constants';
+import { encodeAudioFrame } from '../../utils/audioFrame.utils';
 import { AudioProcessor } from '../audio/audioProcessor.service';
 import { SpeechRecognitionService } from '../audio/speechRecognition.service';
 import { AudioChunk, AudioLevel } from '../../types/audio.types';
+import {
+  VoiceTurnOrchestrator,
+  VoiceTurnOrchestratorFactory,
+  VoiceTurnSession
+} from './voiceTurn.orchestrator';
 
 /**
  * Interface for stream health monitoring
@@ -37,6 +48,7 @@ interface StreamHealth {
 export class AudioStreamHandler implements WebSocketHandler {
   private readonly audioStream: Subject<AudioChunk>;
   private readonly streamHealth: BehaviorSubject<StreamHealth>;
+  private readonly turnOrchestrators: Map<string, VoiceTurnOrchestrator> = new Map();
   private isProcessing: boolean = false;
   private messageCounter: number = 0;
   private lastMessageTimestamp: number = 0;
@@ -48,7 +60,8 @@ export class AudioStreamHandler implements WebSocketHandler {
 
   constructor(
     private readonly audioProcessor: AudioProcessor,
-    private readonly speechRecognition: SpeechRecognitionService
+    private readonly speechRecognition: SpeechRecognitionService,
+    private readonly createTurnOrchestrator: VoiceTurnOrchestratorFactory
   ) {
     // Initialize audio stream with backpressure handling
     this.audioStream = new Subject<AudioChunk>();
@@ -116,6 +129,110 @@ export class AudioStreamHandler implements WebSocketHandler {
     }
   }
 
+  /**
+   * Binds a voice turn orchestrator to a newly authenticated connection
+   */
+  public async handleConnection(ws: WebSocket, session: VoiceTurnSession): Promise<void> {
+    const binaryAudio = ws.protocol === WEBSOCKET_PROTOCOLS.AUDIO_BINARY;
+    const orchestrator = this.createTurnOrchestrator(session, (message) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(this.serializeMessage(message, binaryAudio));
+      }
+    });
+
+    this.turnOrchestrators.set(session.connectionId, orchestrator);
+    orchestrator.start();
+  }
+
+  /**
+   * Routes an inbound audio message to the orchestrator of its connection
+   */
+  public async handleAudioMessage(connectionId: string, message: WebSocketMessage): Promise<void> {
+    const orchestrator = this.turnOrchestrators.get(connectionId);
+    if (!orchestrator) {
+      throw new Error('No active voice session for connection');
+    }
+
+    const audioMessage = message as WebSocketAudioMessage;
+    if (!this.validateMessageSequence(audioMessage)) {
+      throw new Error('Invalid message sequence');
+    }
+
+    // Opus from the client is decoded here so the turn only ever sees PCM
+    const decoded = this.audioProcessor.decodeChunk(
+      audioMessage.payload,
+      audioMessage.audioMetadata,
+      connectionId
+    );
+    if (!decoded.success) {
+      throw new Error(decoded.error?.message ?? 'Audio decoding failed');
+    }
+
+    await orchestrator.handleAudio(decoded.data);
+  }
+
+  /**
+   * Cancels AI speech for a connection after the client detected a barge-in
+   */
+  public async handleInterruptMessage(
+    connectionId: string,
+    message: WebSocketMessage
+  ): Promise<void> {
+    const orchestrator = this.turnOrchestrators.get(connectionId);
+    if (!orchestrator) {
+      throw new Error('No active voice session for connection');
+    }
+
+    const { payload } = message as WebSocketInterruptMessage;
+    await orchestrator.interrupt(payload.playedDuration, payload.turnId);
+  }
+
+  /**
+   * Applies the turn-taking mode selected by the client
+   */
+  public async handleTurnModeMessage(
+    connectionId: string,
+    message: WebSocketMessage
+  ): Promise<void> {
+    const orchestrator = this.turnOrchestrators.get(connectionId);
+    if (!orchestrator) {
+      throw new Error('No active voice session for connection');
+    }
+
+    const { payload } = message as WebSocketTurnModeMessage;
+    if (!Object.values(TurnTakingMode).includes(payload?.mode)) {
+      throw new Error('Invalid turn-taking mode');
+    }
+
+    orchestrator.setTurnMode(payload.mode);
+  }
+
+  /**
+   * Ends the user's turn after the client signalled it, e.g. on release of the talk button
+   */
+  public async handleTurnEndMessage(connectionId: string): Promise<void> {
+    const orchestrator = this.turnOrchestrators.get(connectionId);
+    if (!orchestrator) {
+      throw new Error('No active voice session for connection');
+    }
+
+    orchestrator.endTurn();
+  }
+
+  /**
+   * Stops the orchestrator bound to a closed connection
+   */
+  public async releaseConnection(connectionId: string): Promise<void> {
+    this.audioProcessor.releaseStream(connectionId);
+    const orchestrator = this.turnOrchestrators.get(connectionId);
+    if (!orchestrator) {
+      return;
+    }
+
+    this.turnOrchestrators.delete(connectionId);
+    await orchestrator.stop();
+  }
+
   /**
    * Processes audio chunks with error recovery and performance optimization
    */
@@ -280,6 +397,19 @@ export class AudioStreamHandler implements WebSocketHandler {
     });
   }
 
+  /**
+   * Serializes outbound messages: audio as binary frames when the client
+   * negotiated them, everything else as JSON with buffers as byte arrays
+   */
+  private serializeMessage(message: WebSocketMessage, binaryAudio: boolean): string | Buffer {
+    if (binaryAudio && message.type === WebSocketMessageType.AUDIO) {
+      return encodeAudioFrame(message as WebSocketAudioMessage);
+    }
+    return JSON.stringify(message, (_key, value) =>
+      value instanceof Uint8Array ? Array.from(value) : value
+    );
+  }
+
   /**
    * Gets current stream health metrics
    */
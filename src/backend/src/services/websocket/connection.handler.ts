@@ -6,19 +6,36 @@
  */
 
 import { injectable } from 'inversify';
-import { WebSocket } from 'ws';  // ^8.13.0
+import { RawData, WebSocket } from 'ws';  // ^8.13.0
 import { Logger } from 'winston';  // ^3.8.0
 import { RateLimit } from 'ws-rate-limit';  // ^2.0.0
 import { 
   WebSocketState, 
   WebSocketMessage,
   WebSocketMessageType,
+  WebSocketAudioMessage,
   ConnectionQualityMetrics,
-  ErrorCategory
+  AuthenticatedUpgradeRequest,
+  WebSocketAuthContext
 } from '../../types/websocket.types';
-import { JWTService } from '../auth/jwt.service';
 import { AudioStreamHandler } from './audioStream.handler';
-import { createError } from '../../utils/error.utils';
+import { ConnectionAuthService } from './connectionAuth.service';
+import { VoiceTurnSession } from './voiceTurn.orchestrator';
+import { SessionService } from '../session/session.service';
+import {
+  OrganizationService,
+  organizationService
+} from '../organization/organization.service';
+import { UUID } from '../../types/common.types';
+import { VOICE_IDS, VOICE_LANGUAGES } from '../../constants/voice.constants';
+import {
+  AUDIO_FRAME,
+  WEBSOCKET_AUTH,
+  WEBSOCKET_PROTOCOLS
+} from '../../constants/websocket.constants';
+import { decodeAudioFrame } from '../../utils/audioFrame.utils';
+import { createError, describeError } from '../../utils/error.utils';
+import { ERROR_CODES } from '../../constants/error.constants';
 import { logger } from '../../utils/logger.utils';
 
 /**
@@ -33,9 +50,21 @@ interface ConnectionMetrics {
   lastHeartbeat: number;
 }
 
+/**
+ * Authenticated identity and token expiry timers of a connection
+ */
+interface ConnectionAuthState {
+  context: WebSocketAuthContext;
+  sessionId: UUID | null;
+  metadata: WebSocketMessage['metadata'];
+  warningTimer?: NodeJS.Timeout;
+  expiryTimer?: NodeJS.Timeout;
+}
+
 @injectable()
 export class ConnectionHandler {
   private connections: Map<string, WebSocket>;
+  private authStates: Map<string, ConnectionAuthState>;
   private state: WebSocketState;
   private metrics: ConnectionMetrics;
   private readonly HEARTBEAT_INTERVAL = 30000; // 30 seconds
@@ -45,9 +74,13 @@ export class ConnectionHandler {
 
   constructor(
     private readonly audioStreamHandler: AudioStreamHandler,
-    private readonly rateLimit: RateLimit
+    private readonly rateLimit: RateLimit,
+    private readonly connectionAuth: ConnectionAuthService,
+    private readonly sessionService: SessionService,
+    private readonly organizations: OrganizationService = organizationService
   ) {
     this.connections = new Map();
+    this.authStates = new Map();
     this.state = WebSocketState.CONNECTING;
     this.metrics = {
       activeConnections: 0,
@@ -71,36 +104,62 @@ export class ConnectionHandler {
   /**
    * Handles new WebSocket connection with security validation
    */
-  public async handleConnection(ws: WebSocket, request: any): Promise<void> {
+  public async handleConnection(
+    ws: WebSocket,
+    request: AuthenticatedUpgradeRequest
+  ): Promise<void> {
     const startTime = performance.now();
     const connectionId = crypto.randomUUID();
 
     try {
-      // Validate JWT token
-      const token = this.extractToken(request);
-      const tokenValidation = await JWTService.verifyToken(token);
-      if (!tokenValidation.success) {
-        throw createError('AUTH_ERROR', { message: 'Invalid token' });
+      // Identity verified during the upgrade handshake
+      const auth = request.auth;
+      if (!auth) {
+        throw createError(ERROR_CODES.AUTH_ERROR, { message: 'Unauthenticated connection' });
       }
 
       // Apply rate limiting
       if (this.rateLimit.isRateLimited(request)) {
-        throw createError('RATE_LIMIT_ERROR', { message: 'Rate limit exceeded' });
+        throw createError(ERROR_CODES.RATE_LIMIT_ERROR, { message: 'Rate limit exceeded' });
       }
 
+      // Bind the connection to the user's session
+      const sessionId = await this.bindSession(connectionId, request, auth);
+
       // Set up connection
       ws.binaryType = 'arraybuffer';
       ws.connectionId = connectionId;
       this.connections.set(connectionId, ws);
 
-      // Configure WebSocket
-      ws.on('message', (data: WebSocket.Data) => this.handleMessage(connectionId, data));
+      // Configure WebSocket; frames sent right after the upgrade wait for the voice session
+      const pending: Array<[RawData, boolean]> = [];
+      let ready = false;
+      ws.on('message', (data: RawData, isBinary: boolean) => {
+        if (ready) {
+          void this.handleMessage(connectionId, data, isBinary);
+        } else {
+          pending.push([data, isBinary]);
+        }
+      });
       ws.on('close', (code: number, reason: string) => this.handleClose(connectionId, code, reason));
       ws.on('error', (error: Error) => this.handleError(connectionId, error));
       ws.on('pong', () => this.updateHeartbeat(connectionId));
 
-      // Initialize audio stream handler
-      await this.audioStreamHandler.handleConnection(ws);
+      // Initialize audio stream handler with the call bound to this connection
+      const turnSession = await this.createTurnSession(connectionId, request, auth, sessionId);
+      this.authStates.set(connectionId, {
+        context: auth,
+        sessionId,
+        metadata: turnSession.metadata
+      });
+      this.scheduleAuthExpiry(connectionId);
+      await this.audioStreamHandler.handleConnection(ws, turnSession);
+
+      // Replay buffered frames in arrival order before live frames are handled
+      ready = true;
+      for (const [data, isBinary] of pending.splice(0)) {
+        void this.handleMessage(connectionId, data, isBinary);
+      }
 
       // Update metrics
       this.updateConnectionMetrics(true);
@@ -115,8 +174,9 @@ export class ConnectionHandler {
       });
 
     } catch (error) {
+      // Close reasons are capped at 123 bytes, so the cause is only logged
       logger.error('Connection setup failed', { error, connectionId });
-      ws.close(1008, error.message);
+      ws.close(1008, 'Connection setup failed');
       this.updateConnectionMetrics(false);
     }
   }
@@ -124,37 +184,36 @@ export class ConnectionHandler {
   /**
    * Handles incoming WebSocket messages with validation and routing
    */
-  private async handleMessage(connectionId: string, data: WebSocket.Data): Promise<void> {
+  private async handleMessage(
+    connectionId: string,
+    data: WebSocket.Data,
+    isBinary: boolean = false
+  ): Promise<void> {
     const startTime = performance.now();
 
     try {
       const ws = this.connections.get(connectionId);
       if (!ws) {
-        throw createError('WEBSOCKET_ERROR', { message: 'Connection not found' });
+        throw createError(ERROR_CODES.WEBSOCKET_ERROR, { message: 'Connection not found' });
       }
 
+      // Text and binary frames alike arrive as ArrayBuffers on this socket
+      const buffer = this.toBuffer(data);
+
       // Validate message size
-      if (data.length > this.MAX_MESSAGE_SIZE) {
-        throw createError('VALIDATION_ERROR', { message: 'Message too large' });
+      if (buffer.length > this.MAX_MESSAGE_SIZE) {
+        throw createError(ERROR_CODES.VALIDATION_ERROR, { message: 'Message too large' });
       }
 
       // Parse and validate message
-      const message = this.parseMessage(data);
+      const message = isBinary
+        ? this.parseAudioFrame(connectionId, ws, buffer)
+        : this.parseMessage(buffer);
       if (!message) {
-        throw createError('VALIDATION_ERROR', { message: 'Invalid message format' });
+        throw createError(ERROR_CODES.VALIDATION_ERROR, { message: 'Invalid message format' });
       }
 
-      // Route message based on type
-      switch (message.type) {
-        case WebSocketMessageType.AUDIO:
-          await this.audioStreamHandler.handleAudioMessage(connectionId, message);
-          break;
-        case WebSocketMessageType.HEARTBEAT:
-          this.handleHeartbeat(connectionId, message);
-          break;
-        default:
-          throw createError('VALIDATION_ERROR', { message: 'Unsupported message type' });
-      }
+      await this.routeMessage(connectionId, message);
 
       // Update metrics
       this.updateMessageMetrics(performance.now() - startTime);
@@ -164,6 +223,34 @@ export class ConnectionHandler {
     }
   }
 
+  /**
+   * Routes a validated message to its handler based on type
+   */
+  private async routeMessage(connectionId: string, message: WebSocketMessage): Promise<void> {
+    switch (message.type) {
+      case WebSocketMessageType.AUDIO:
+        await this.audioStreamHandler.handleAudioMessage(connectionId, message);
+        break;
+      case WebSocketMessageType.INTERRUPT:
+        await this.audioStreamHandler.handleInterruptMessage(connectionId, message);
+        break;
+      case WebSocketMessageType.TURN_MODE:
+        await this.audioStreamHandler.handleTurnModeMessage(connectionId, message);
+        break;
+      case WebSocketMessageType.TURN_END:
+        await this.audioStreamHandler.handleTurnEndMessage(connectionId);
+        break;
+      case WebSocketMessageType.HEARTBEAT:
+        this.handleHeartbeat(connectionId, message);
+        break;
+      case WebSocketMessageType.AUTH_REFRESH:
+        await this.handleAuthRefresh(connectionId, message.payload?.token);
+        break;
+      default:
+        throw createError(ERROR_CODES.VALIDATION_ERROR, { message: 'Unsupported message type' });
+    }
+  }
+
   /**
    * Handles WebSocket connection closure
    */
@@ -176,6 +263,19 @@ export class ConnectionHandler {
         this.connections.delete(connectionId);
       }
 
+      // Release voice turn resources
+      void this.audioStreamHandler.releaseConnection(connectionId);
+
+      // Stop token expiry timers and release the session binding
+      const authState = this.authStates.get(connectionId);
+      if (authState) {
+        this.clearAuthTimers(authState);
+        this.authStates.delete(connectionId);
+        if (authState.sessionId) {
+          void this.sessionService.releaseConnection(authState.sessionId, connectionId);
+        }
+      }
+
       // Update metrics
       this.updateConnectionMetrics(false);
       this.state = WebSocketState.DISCONNECTED;
@@ -284,20 +384,146 @@ export class ConnectionHandler {
   }
 
   /**
-   * Extracts JWT token from request
+   * Binds the connection to the session named by the token or the request query
+   * Connections without a session keep their connection ID as session identifier
    */
-  private extractToken(request: any): string {
-    const authHeader = request.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      throw createError('AUTH_ERROR', { message: 'Missing or invalid authorization header' });
+  private async bindSession(
+    connectionId: string,
+    request: AuthenticatedUpgradeRequest,
+    auth: WebSocketAuthContext
+  ): Promise<UUID | null> {
+    const query = new URL(request.url ?? '/', 'http://localhost').searchParams;
+    const sessionId = auth.sessionId ?? (query.get('sessionId') as UUID | null);
+    if (!sessionId) {
+      return null;
     }
-    return authHeader.substring(7);
+
+    await this.sessionService.bindConnection(sessionId, auth.userId, connectionId);
+    return sessionId;
+  }
+
+  /**
+   * Warns the client before its token expires and closes the connection at expiry
+   */
+  private scheduleAuthExpiry(connectionId: string): void {
+    const authState = this.authStates.get(connectionId);
+    if (!authState) {
+      return;
+    }
+
+    this.clearAuthTimers(authState);
+    const remaining = authState.context.expiresAt - Date.now();
+
+    authState.warningTimer = setTimeout(() => {
+      this.connections.get(connectionId)?.send(JSON.stringify({
+        type: WebSocketMessageType.AUTH_EXPIRING,
+        payload: { expiresAt: authState.context.expiresAt },
+        timestamp: Date.now(),
+        messageId: crypto.randomUUID(),
+        version: '1.0',
+        metadata: authState.metadata
+      }));
+    }, Math.max(remaining - WEBSOCKET_AUTH.EXPIRY_WARNING, 0));
+
+    authState.expiryTimer = setTimeout(() => {
+      logger.info('Closing connection with expired token', { connectionId });
+      this.connections.get(connectionId)?.close(
+        WEBSOCKET_AUTH.CLOSE_CODE_TOKEN_EXPIRED,
+        'Token expired'
+      );
+    }, Math.max(remaining, 0));
+  }
+
+  /**
+   * Extends the connection with a refreshed token sent in-band
+   */
+  private async handleAuthRefresh(connectionId: string, token: unknown): Promise<void> {
+    const authState = this.authStates.get(connectionId);
+    if (!authState) {
+      throw createError(ERROR_CODES.WEBSOCKET_ERROR, { message: 'Connection not found' });
+    }
+
+    try {
+      if (typeof token !== 'string' || !token) {
+        throw createError(ERROR_CODES.VALIDATION_ERROR, { message: 'Missing token' });
+      }
+      authState.context = await this.connectionAuth.refresh(authState.context, token);
+      this.scheduleAuthExpiry(connectionId);
+    } catch (error) {
+      logger.warn('Connection token refresh rejected', {
+        connectionId,
+        error: describeError(error)
+      });
+      this.connections.get(connectionId)?.close(
+        WEBSOCKET_AUTH.CLOSE_CODE_TOKEN_EXPIRED,
+        'Token refresh rejected'
+      );
+    }
+  }
+
+  private clearAuthTimers(authState: ConnectionAuthState): void {
+    clearTimeout(authState.warningTimer);
+    clearTimeout(authState.expiryTimer);
+  }
+
+  /**
+   * Builds the voice turn session from the connection request query
+   * Options the query leaves out come from the organization's voice defaults
+   */
+  private async createTurnSession(
+    connectionId: string,
+    request: AuthenticatedUpgradeRequest,
+    auth: WebSocketAuthContext,
+    sessionId: UUID | null
+  ): Promise<VoiceTurnSession> {
+    const { userId, organizationId } = auth;
+    const query = new URL(request.url ?? '/', 'http://localhost').searchParams;
+    const conversationId = query.get('conversationId');
+    if (!conversationId) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, { message: 'Missing conversationId' });
+    }
+
+    const resolved = await this.organizations.resolveVoiceOptions(organizationId, {
+      voiceId: query.get('voiceId') || undefined,
+      languageCode: query.get('language') || undefined
+    });
+    if (!resolved.success) {
+      throw resolved.error;
+    }
+
+    const languageCode = resolved.data.languageCode || VOICE_LANGUAGES.EN_US.code;
+
+    return {
+      connectionId,
+      conversationId: conversationId as UUID,
+      userId,
+      organizationId,
+      languageCode,
+      voiceOptions: {
+        voiceId: VOICE_IDS.FEMALE_1,
+        rate: 1,
+        pitch: 0,
+        volume: 100,
+        ssmlEnabled: false,
+        effectsProfile: [],
+        ...resolved.data,
+        languageCode
+      },
+      metadata: {
+        userId,
+        sessionId: sessionId ?? connectionId,
+        clientInfo: {
+          userAgent: request.headers['user-agent'] || 'unknown',
+          platform: 'web'
+        }
+      }
+    };
   }
 
   /**
    * Parses and validates WebSocket message
    */
-  private parseMessage(data: WebSocket.Data): WebSocketMessage | null {
+  private parseMessage(data: Buffer): WebSocketMessage | null {
     try {
       const message = JSON.parse(data.toString());
       if (!message.type || !Object.values(WebSocketMessageType).includes(message.type)) {
@@ -309,6 +535,37 @@ export class ConnectionHandler {
     }
   }
 
+  /**
+   * Parses a binary audio frame, accepted only over the binary audio subprotocol
+   */
+  private parseAudioFrame(
+    connectionId: string,
+    ws: WebSocket,
+    data: Buffer
+  ): WebSocketMessage | null {
+    if (ws.protocol !== WEBSOCKET_PROTOCOLS.AUDIO_BINARY) {
+      return null;
+    }
+
+    try {
+      return {
+        ...decodeAudioFrame(data),
+        messageId: crypto.randomUUID(),
+        version: `${AUDIO_FRAME.VERSION}`,
+        metadata: this.authStates.get(connectionId)?.metadata
+      } as WebSocketAudioMessage;
+    } catch {
+      return null;
+    }
+  }
+
+  private toBuffer(data: WebSocket.Data): Buffer {
+    if (Buffer.isBuffer(data)) {
+      return data;
+    }
+    return Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data);
+  }
+
   /**
    * Gets current connection metrics
    */
@@ -0,0 +1,106 @@
+/**
+ * WebSocket Connection Authentication
+ * Verifies the access token presented on a voice stream upgrade and on in-band
+ * refreshes. The token is read from the Authorization header, a `bearer.`
+ * subprotocol, or a one-time ticket query parameter.
+ * @version 1.0.0
+ */
+
+import { IncomingMessage } from 'http';
+import { JWTService, jwtService } from '../auth/jwt.service';
+import { WebSocketAuthContext } from '../../types/websocket.types';
+import { UUID } from '../../types/common.types';
+import { WEBSOCKET_AUTH, WEBSOCKET_PROTOCOLS } from '../../constants/websocket.constants';
+import { ERROR_CODES } from '../../constants/error.constants';
+import { createError } from '../../utils/error.utils';
+
+export class ConnectionAuthService {
+  constructor(private readonly tokens: JWTService = jwtService) {}
+
+  /**
+   * Authenticates a WebSocket upgrade request
+   * @param request - Upgrade request
+   * @returns Identity of the verified token
+   * @throws ErrorInfo with AUTH_ERROR when no valid, unrevoked token is presented
+   */
+  public async authenticate(request: IncomingMessage): Promise<WebSocketAuthContext> {
+    const token = this.extractToken(request);
+    if (!token) {
+      throw createError(ERROR_CODES.AUTH_ERROR, { message: 'Missing connection credentials' });
+    }
+
+    return this.verify(token);
+  }
+
+  /**
+   * Verifies a token sent in-band to extend an authenticated connection
+   * @param context - Identity the connection is currently bound to
+   * @param token - Replacement access token
+   * @returns Identity of the replacement token
+   * @throws ErrorInfo with AUTH_ERROR when the token is invalid or belongs to another user
+   */
+  public async refresh(
+    context: WebSocketAuthContext,
+    token: string
+  ): Promise<WebSocketAuthContext> {
+    const refreshed = await this.verify(token);
+    if (refreshed.userId !== context.userId) {
+      throw createError(ERROR_CODES.AUTH_ERROR, { message: 'Token belongs to another user' });
+    }
+
+    return refreshed;
+  }
+
+  /**
+   * Chooses the subprotocol to accept, never echoing the credential back
+   * Binary audio framing is preferred whenever the client offers it
+   * Clients sending the token as a subprotocol must also offer an application protocol
+   * @param protocols - Subprotocols offered by the client
+   * @returns Accepted subprotocol, or false to accept none
+   */
+  public selectProtocol(protocols: Set<string>): string | false {
+    if (protocols.has(WEBSOCKET_PROTOCOLS.AUDIO_BINARY)) {
+      return WEBSOCKET_PROTOCOLS.AUDIO_BINARY;
+    }
+    for (const protocol of protocols) {
+      if (!protocol.startsWith(WEBSOCKET_AUTH.PROTOCOL_PREFIX)) {
+        return protocol;
+      }
+    }
+    return false;
+  }
+
+  private async verify(token: string): Promise<WebSocketAuthContext> {
+    const payload = await this.tokens.verifyToken(token);
+
+    return {
+      userId: payload.userId,
+      sessionId: (payload.sessionId ?? null) as UUID | null,
+      role: payload.role,
+      organizationId: payload.organizationId ?? null,
+      expiresAt: payload.exp * 1000
+    };
+  }
+
+  /**
+   * Reads the access token from the header, the subprotocol list or a ticket
+   */
+  private extractToken(request: IncomingMessage): string | null {
+    const authHeader = request.headers.authorization;
+    if (authHeader?.startsWith('Bearer ')) {
+      return authHeader.substring(7);
+    }
+
+    const protocols = request.headers['sec-websocket-protocol']?.split(',') ?? [];
+    const credential = protocols
+      .map((protocol) => protocol.trim())
+      .find((protocol) => protocol.startsWith(WEBSOCKET_AUTH.PROTOCOL_PREFIX));
+    if (credential) {
+      return credential.substring(WEBSOCKET_AUTH.PROTOCOL_PREFIX.length);
+    }
+
+    const query = new URL(request.url ?? '/', 'http://localhost').searchParams;
+    const ticket = query.get(WEBSOCKET_AUTH.TICKET_PARAM);
+    return ticket ? this.tokens.redeemConnectionTicket(ticket) : null;
+  }
+}
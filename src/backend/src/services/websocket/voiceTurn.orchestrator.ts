@@ -0,0 +1,636 @@
+/**
+ * Voice Turn Orchestrator
+ * Drives a single connection through listening → thinking → speaking turns:
+ * reacts to end of speech from voice activity detection, collects the final
+ * transcript, generates the AI reply and streams synthesized audio back.
+ * Interim and final transcripts are pushed to the client as they arrive.
+ * User speech during the speaking state barges in and cancels playback.
+ * In push-to-talk the client ends each turn explicitly instead of silence.
+ * @version 1.0.0
+ */
+
+import { Subscription } from 'rxjs'; // ^7.8.1
+import {
+  WebSocketMessage,
+  WebSocketMessageType,
+  MessageMetadata,
+  VoiceTurnState,
+  TurnTakingMode,
+  ErrorCategory,
+  TranscriptPayload
+} from '../../types/websocket.types';
+import { AudioChunk, AudioFormat, VoiceActivityConfig } from '../../types/audio.types';
+import { UUID } from '../../types/common.types';
+import { SpeechMark, VoiceSynthesisOptions } from '../../interfaces/voice.interface';
+import { Message, MessageRole } from '../../interfaces/message.interface';
+import { RecognitionResult } from '../../interfaces/speechRecognition.interface';
+import { AudioProcessor } from '../audio/audioProcessor.service';
+import { SpeechRecognitionService } from '../audio/speechRecognition.service';
+import { VoiceActivityDetector } from '../audio/voiceActivity.service';
+import { SpeechSynthesisService } from '../audio/speechSynthesis.service';
+import { DialogService } from '../dialog/dialog.service';
+import { AUDIO_PROCESSING, VOICE_TURN } from '../../constants/voice.constants';
+import { ERROR_CODES, ERROR_MESSAGES } from '../../constants/error.constants';
+import { logger } from '../../utils/logger.utils';
+
+/**
+ * Identity and preferences of the call bound to a connection
+ */
+export interface VoiceTurnSession {
+  readonly connectionId: string;
+  readonly conversationId: UUID;
+  readonly userId: string;
+  readonly organizationId: string | null;
+  readonly languageCode: string;
+  readonly voiceOptions: VoiceSynthesisOptions;
+  readonly metadata: MessageMetadata;
+}
+
+/**
+ * Per-connection collaborators used by the orchestrator
+ */
+export interface VoiceTurnDependencies {
+  readonly recognizer: SpeechRecognitionService;
+  readonly voiceActivity: VoiceActivityDetector;
+  readonly dialogService: DialogService;
+  readonly speechSynthesis: SpeechSynthesisService;
+}
+
+/**
+ * Callback delivering outbound messages to the client socket
+ */
+export type FrameSender = (message: WebSocketMessage) => void;
+
+/**
+ * Factory creating an orchestrator for a newly bound connection
+ */
+export type VoiceTurnOrchestratorFactory = (
+  session: VoiceTurnSession,
+  send: FrameSender
+) => VoiceTurnOrchestrator;
+
+/**
+ * Services and settings shared by the orchestrators of every connection
+ */
+export interface VoicePipeline {
+  readonly audioProcessor: AudioProcessor;
+  readonly voiceActivity: VoiceActivityConfig;
+  readonly dialogService: DialogService;
+  readonly speechSynthesis: SpeechSynthesisService;
+}
+
+/**
+ * Bytes of 16-bit mono PCM per millisecond of synthesized audio
+ */
+const BYTES_PER_MS = (AUDIO_PROCESSING.SAMPLE_RATE * (AUDIO_PROCESSING.BIT_DEPTH / 8)) / 1000;
+
+/**
+ * Bytes of 16-bit mono PCM per outbound audio frame
+ */
+const OUTPUT_FRAME_BYTES = BYTES_PER_MS * VOICE_TURN.OUTPUT_FRAME_DURATION;
+
+/**
+ * Playback of a synthesized reply currently streamed to the client
+ */
+interface ActivePlayback {
+  readonly aiMessage: Message;
+  readonly controller: AbortController;
+  startedAt: number | null;
+  sentDuration: number;
+  totalDuration: number;
+  speechMarks: SpeechMark[];
+}
+
+/**
+ * Coordinates speech recognition, dialog and synthesis for one connection
+ */
+export class VoiceTurnOrchestrator {
+  private state: VoiceTurnState = VoiceTurnState.LISTENING;
+  private turnMode: TurnTakingMode = TurnTakingMode.HANDS_FREE;
+  private turnId: string = crypto.randomUUID();
+  private utteranceId: string = crypto.randomUUID();
+  private recognitionSubscription: Subscription | null = null;
+  private finalTranscripts: string[] = [];
+  private lastConfidence: number | null = null;
+  private speechStartTime: number | null = null;
+  private speechEndTime: number | null = null;
+  private isVoiceActive: boolean = false;
+  private awaitingFinal: boolean = false;
+  private finalResultTimer: NodeJS.Timeout | null = null;
+  private outboundSequence: number = 0;
+  private playback: ActivePlayback | null = null;
+
+  constructor(
+    private readonly session: VoiceTurnSession,
+    private readonly dependencies: VoiceTurnDependencies,
+    private readonly send: FrameSender
+  ) {}
+
+  /**
+   * Starts recognition for the connection and announces the listening state
+   */
+  public start(): void {
+    this.recognitionSubscription = this.dependencies.recognizer
+      .startRecognition(this.session.languageCode)
+      .subscribe({
+        next: (result) => this.handleRecognitionResult(result),
+        error: (error) => this.handleTurnError(error)
+      });
+
+    this.emitState(VoiceTurnState.LISTENING, null);
+  }
+
+  /**
+   * Feeds an inbound audio chunk to voice activity detection and recognition
+   * @param chunk Audio chunk received from the client
+   */
+  public async handleAudio(chunk: AudioChunk): Promise<void> {
+    if (this.state === VoiceTurnState.THINKING) {
+      return;
+    }
+
+    const vadResult = await this.dependencies.voiceActivity.processAudioChunk(chunk);
+
+    // Only user speech during playback reaches recognition, as a barge-in
+    if (this.state === VoiceTurnState.SPEAKING) {
+      if (!vadResult.success || !vadResult.data) {
+        return;
+      }
+      await this.interrupt(null);
+    }
+
+    const recognition = await this.dependencies.recognizer.processAudioChunk(chunk);
+    if (!recognition.success) {
+      logger.warn('Speech recognition rejected audio chunk', {
+        component: 'VoiceTurnOrchestrator',
+        connectionId: this.session.connectionId,
+        sequence: chunk.sequence
+      });
+    }
+
+    if (vadResult.success) {
+      this.handleVoiceActivity(vadResult.data, chunk.timestamp);
+    }
+  }
+
+  /**
+   * Cancels playback of the current reply because the user started talking
+   * @param playedDuration Milliseconds played as reported by the client, if known
+   * @param turnId Turn the client interrupted, ignored when stale
+   */
+  public async interrupt(playedDuration: number | null, turnId?: string): Promise<void> {
+    const playback = this.playback;
+    if (this.state !== VoiceTurnState.SPEAKING || !playback) {
+      return;
+    }
+    if (turnId && turnId !== this.turnId) {
+      return;
+    }
+
+    playback.controller.abort();
+    this.playback = null;
+
+    const elapsed = playback.startedAt !== null ? Date.now() - playback.startedAt : 0;
+    const played = Math.min(playedDuration ?? elapsed, playback.sentDuration);
+
+    this.turnId = crypto.randomUUID();
+    this.transition(VoiceTurnState.LISTENING);
+
+    logger.info('User barged in over AI speech', {
+      component: 'VoiceTurnOrchestrator',
+      connectionId: this.session.connectionId,
+      messageId: playback.aiMessage.id,
+      playedDuration: played,
+      totalDuration: playback.totalDuration
+    });
+
+    await this.dependencies.dialogService.recordInterruption(
+      playback.aiMessage,
+      played,
+      playback.totalDuration,
+      playback.speechMarks
+    );
+  }
+
+  /**
+   * Selects how the user's turns are delimited for the rest of the call
+   */
+  public setTurnMode(mode: TurnTakingMode): void {
+    if (mode === this.turnMode) {
+      return;
+    }
+
+    this.turnMode = mode;
+    logger.info('Turn-taking mode changed', {
+      component: 'VoiceTurnOrchestrator',
+      connectionId: this.session.connectionId,
+      mode
+    });
+  }
+
+  /**
+   * Ends the user's turn on the client's signal, e.g. release of the talk button
+   * The reply starts once recognition delivers the final transcript
+   */
+  public endTurn(): void {
+    if (this.state !== VoiceTurnState.LISTENING || this.awaitingFinal) {
+      return;
+    }
+
+    if (this.isVoiceActive) {
+      this.speechEndTime = Date.now();
+      this.isVoiceActive = false;
+    }
+    this.scheduleTurnCompletion();
+  }
+
+  /**
+   * Gets the current turn state
+   */
+  public getState(): VoiceTurnState {
+    return this.state;
+  }
+
+  /**
+   * Stops recognition and releases timers for the connection
+   */
+  public async stop(): Promise<void> {
+    this.clearFinalResultTimer();
+    this.playback?.controller.abort();
+    this.playback = null;
+    this.recognitionSubscription?.unsubscribe();
+    this.recognitionSubscription = null;
+    await this.dependencies.recognizer.stopRecognition();
+  }
+
+  /**
+   * Tracks speech boundaries and schedules end of turn when speech stops
+   */
+  private handleVoiceActivity(isActive: boolean, timestamp: number): void {
+    const pushToTalk = this.turnMode === TurnTakingMode.PUSH_TO_TALK;
+
+    if (isActive && !this.isVoiceActive) {
+      this.speechStartTime = this.speechStartTime ?? timestamp;
+      // A released push-to-talk turn ends even if trailing audio contains speech
+      if (!pushToTalk) {
+        this.awaitingFinal = false;
+        this.clearFinalResultTimer();
+      }
+    } else if (!isActive && this.isVoiceActive) {
+      this.speechEndTime = timestamp;
+      if (!pushToTalk) {
+        this.scheduleTurnCompletion();
+      }
+    }
+
+    this.isVoiceActive = isActive;
+  }
+
+  /**
+   * Completes the turn when the final transcript arrives, or after
+   * FINAL_RESULT_TIMEOUT with the finals collected so far
+   */
+  private scheduleTurnCompletion(): void {
+    this.awaitingFinal = true;
+    this.clearFinalResultTimer();
+    this.finalResultTimer = setTimeout(
+      () => void this.completeTurn(),
+      VOICE_TURN.FINAL_RESULT_TIMEOUT
+    );
+  }
+
+  /**
+   * Streams the live utterance to the client, collects final transcripts and
+   * completes the turn if speech already ended
+   */
+  private handleRecognitionResult(result: RecognitionResult): void {
+    const transcript = result.transcript.trim();
+    if (this.state !== VoiceTurnState.LISTENING || !transcript) {
+      return;
+    }
+
+    const liveTranscript = [...this.finalTranscripts, transcript].join(' ');
+    if (result.isFinal) {
+      this.finalTranscripts.push(transcript);
+      this.lastConfidence = result.confidence;
+    }
+
+    this.sendTranscript({
+      utteranceId: this.utteranceId,
+      messageId: null,
+      role: MessageRole.USER,
+      transcript: liveTranscript,
+      isFinal: false,
+      stability: result.isFinal ? 1 : result.stability ?? null,
+      confidence: result.confidence || null
+    });
+
+    if (result.isFinal && this.awaitingFinal) {
+      void this.completeTurn();
+    }
+  }
+
+  /**
+   * Generates and speaks the reply for the collected user utterance
+   */
+  private async completeTurn(): Promise<void> {
+    this.clearFinalResultTimer();
+    this.awaitingFinal = false;
+
+    const transcript = this.finalTranscripts.join(' ');
+    const confidence = this.lastConfidence;
+    const utteranceId = this.utteranceId;
+    const speechDuration = this.speechStartTime !== null && this.speechEndTime !== null
+      ? this.speechEndTime - this.speechStartTime
+      : 0;
+    this.resetUtterance();
+
+    if (!transcript || this.state !== VoiceTurnState.LISTENING) {
+      return;
+    }
+
+    this.transition(VoiceTurnState.THINKING);
+    const turnId = this.turnId;
+
+    try {
+      const turn = await this.dependencies.dialogService.handleUserTurn({
+        conversationId: this.session.conversationId,
+        userId: this.session.userId,
+        organizationId: this.session.organizationId,
+        transcript,
+        confidence,
+        speechDuration,
+        languageCode: this.session.languageCode
+      });
+
+      if (!turn.success) {
+        // Discard the live bubble of the utterance that could not be committed
+        this.sendTranscript({
+          utteranceId,
+          messageId: null,
+          role: MessageRole.USER,
+          transcript,
+          isFinal: true,
+          stability: null,
+          confidence
+        });
+        throw new Error(turn.error?.message ?? ERROR_MESSAGES[ERROR_CODES.DIALOG_ERROR]);
+      }
+
+      this.sendCommittedTranscript(utteranceId, turn.data.userMessage, confidence);
+      this.sendCommittedTranscript(turn.data.aiMessage.id, turn.data.aiMessage, null);
+      this.transition(VoiceTurnState.SPEAKING);
+      await this.speak(turn.data.aiMessage);
+    } catch (error) {
+      if (this.turnId === turnId) {
+        this.handleTurnError(error);
+      }
+    } finally {
+      // A barge-in has already moved on to the next turn
+      if (this.turnId === turnId) {
+        this.playback = null;
+        this.turnId = crypto.randomUUID();
+        this.transition(VoiceTurnState.LISTENING);
+      }
+    }
+  }
+
+  /**
+   * Streams the reply to the client as audio frames while it is synthesized,
+   * paced to real time, keeping the speaking state until playback ends
+   */
+  private async speak(aiMessage: Message): Promise<void> {
+    const playback: ActivePlayback = {
+      aiMessage,
+      controller: new AbortController(),
+      startedAt: null,
+      sentDuration: 0,
+      totalDuration: 0,
+      speechMarks: []
+    };
+    this.playback = playback;
+    const signal = playback.controller.signal;
+
+    let pending = Buffer.alloc(0);
+    const chunks = this.dependencies.speechSynthesis.synthesizeSpeechStream(
+      aiMessage.content,
+      this.session.voiceOptions,
+      signal
+    );
+
+    for await (const chunk of chunks) {
+      this.sendSpeechMarks(playback, chunk.marks);
+      playback.totalDuration += chunk.audio.length / BYTES_PER_MS;
+      playback.startedAt ??= Date.now();
+      pending = Buffer.concat([pending, chunk.audio]);
+
+      while (pending.length >= OUTPUT_FRAME_BYTES && !signal.aborted) {
+        await this.sendFrame(playback, pending.subarray(0, OUTPUT_FRAME_BYTES));
+        pending = pending.subarray(OUTPUT_FRAME_BYTES);
+      }
+      if (signal.aborted) {
+        return;
+      }
+    }
+
+    if (pending.length > 0) {
+      await this.sendFrame(playback, pending);
+    }
+    if (playback.startedAt === null) {
+      return;
+    }
+
+    // Remain in the speaking state while the client drains its buffer
+    await this.delay(playback.sentDuration - (Date.now() - playback.startedAt), signal);
+
+    if (!signal.aborted && playback.speechMarks.length > 0) {
+      await this.dependencies.dialogService.recordSpeechMarks(aiMessage, playback.speechMarks);
+    }
+  }
+
+  /**
+   * Forwards the speech marks of a synthesized chunk and keeps them for the
+   * stored message
+   */
+  private sendSpeechMarks(playback: ActivePlayback, marks: SpeechMark[]): void {
+    if (marks.length === 0) {
+      return;
+    }
+
+    playback.speechMarks.push(...marks);
+    this.send(this.createMessage(WebSocketMessageType.SPEECH_MARKS, {
+      messageId: playback.aiMessage.id,
+      turnId: this.turnId,
+      marks
+    }));
+  }
+
+  /**
+   * Sends one frame of synthesized audio, waiting while the client has more
+   * than PLAYBACK_LEAD of audio buffered
+   */
+  private async sendFrame(playback: ActivePlayback, frame: Buffer): Promise<void> {
+    const signal = playback.controller.signal;
+    const ahead = playback.sentDuration - (Date.now() - (playback.startedAt ?? Date.now()));
+    if (ahead > VOICE_TURN.PLAYBACK_LEAD) {
+      await this.delay(ahead - VOICE_TURN.PLAYBACK_LEAD, signal);
+      if (signal.aborted) {
+        return;
+      }
+    }
+
+    const chunk: AudioChunk = {
+      data: new Uint8Array(frame),
+      timestamp: Date.now(),
+      format: AudioFormat.PCM,
+      sequence: ++this.outboundSequence
+    };
+
+    this.send({
+      ...this.createMessage(WebSocketMessageType.AUDIO, chunk),
+      sequenceNumber: chunk.sequence,
+      audioMetadata: {
+        sampleRate: AUDIO_PROCESSING.SAMPLE_RATE,
+        channels: AUDIO_PROCESSING.CHANNELS,
+        encoding: 'LINEAR16',
+        frameSize: VOICE_TURN.OUTPUT_FRAME_DURATION
+      }
+    } as WebSocketMessage);
+    playback.sentDuration += chunk.data.length / BYTES_PER_MS;
+  }
+
+  /**
+   * Waits for the given time unless the signal aborts first
+   */
+  private delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      if (ms <= 0 || signal.aborted) {
+        resolve();
+        return;
+      }
+
+      const timer = setTimeout(resolve, ms);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+
+  /**
+   * Pushes a persisted message as the final transcript of its utterance
+   */
+  private sendCommittedTranscript(
+    utteranceId: string,
+    message: Message,
+    confidence: number | null
+  ): void {
+    this.sendTranscript({
+      utteranceId,
+      messageId: message.id,
+      role: message.role === MessageRole.AI ? MessageRole.AI : MessageRole.USER,
+      transcript: message.content,
+      isFinal: true,
+      stability: 1,
+      confidence
+    });
+  }
+
+  private sendTranscript(payload: TranscriptPayload): void {
+    this.send(this.createMessage(WebSocketMessageType.TRANSCRIPT, payload));
+  }
+
+  /**
+   * Moves to a new turn state and notifies the client
+   */
+  private transition(next: VoiceTurnState): void {
+    if (next === this.state) {
+      return;
+    }
+
+    const previous = this.state;
+    this.state = next;
+    this.emitState(next, previous);
+  }
+
+  private emitState(state: VoiceTurnState, previousState: VoiceTurnState | null): void {
+    this.send(this.createMessage(WebSocketMessageType.STATE, {
+      state,
+      previousState,
+      turnId: this.turnId
+    }));
+  }
+
+  /**
+   * Reports a failed turn to the client without closing the connection
+   */
+  private handleTurnError(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+
+    logger.error('Voice turn failed', {
+      component: 'VoiceTurnOrchestrator',
+      connectionId: this.session.connectionId,
+      conversationId: this.session.conversationId,
+      state: this.state,
+      error: message
+    });
+
+    this.send({
+      ...this.createMessage(WebSocketMessageType.ERROR, {
+        code: ERROR_CODES.DIALOG_ERROR,
+        message,
+        details: { turnId: this.turnId, state: this.state },
+        timestamp: Date.now(),
+        recoverable: true
+      }),
+      errorCategory: ErrorCategory.SYSTEM,
+      recoverySuggestion: 'Please repeat your last request'
+    } as WebSocketMessage);
+  }
+
+  private createMessage(type: WebSocketMessageType, payload: unknown): WebSocketMessage {
+    return {
+      type,
+      payload,
+      timestamp: Date.now(),
+      messageId: crypto.randomUUID(),
+      version: '1.0',
+      metadata: this.session.metadata
+    };
+  }
+
+  private resetUtterance(): void {
+    this.utteranceId = crypto.randomUUID();
+    this.finalTranscripts = [];
+    this.lastConfidence = null;
+    this.speechStartTime = null;
+    this.speechEndTime = null;
+  }
+
+  private clearFinalResultTimer(): void {
+    if (this.finalResultTimer) {
+      clearTimeout(this.finalResultTimer);
+      this.finalResultTimer = null;
+    }
+  }
+}
+
+/**
+ * Creates the orchestrator factory used by the audio stream handler
+ * Recognition streams and voice activity are tracked per call, so every
+ * connection gets its own recognizer and detector
+ * @param pipeline Shared audio processing, dialog and synthesis services
+ * @returns Factory binding an orchestrator to each new connection
+ */
+export const createVoiceTurnOrchestratorFactory = (
+  pipeline: VoicePipeline
+): VoiceTurnOrchestratorFactory => (session, send) => new VoiceTurnOrchestrator(
+  session,
+  {
+    recognizer: new SpeechRecognitionService(pipeline.audioProcessor),
+    voiceActivity: new VoiceActivityDetector(pipeline.voiceActivity),
+    dialogService: pipeline.dialogService,
+    speechSynthesis: pipeline.speechSynthesis
+  },
+  send
+);
@@ -1,16 +1,24 @@
 /**
  * WebSocket Service Implementation
  * Manages real-time voice communication with enhanced security, monitoring, and performance optimization
+ * Messages carry no encryption of their own; JSON and binary audio frames alike
+ * rely on TLS (wss) terminated in front of the server
  * @version 1.0.0
  */
 
 import { injectable } from 'inversify';
 import { WebSocket } from 'ws';
 import { Logger } from 'winston';
-import { WebSocketState } from '../../types/websocket.types';
+import {
+  AuthenticatedUpgradeRequest,
+  WebSocketMessage,
+  WebSocketState
+} from '../../types/websocket.types';
 import { ConnectionHandler } from './connection.handler';
 import { AudioStreamHandler } from './audioStream.handler';
+import { ConnectionAuthService } from './connectionAuth.service';
 import { logger } from '../../utils/logger.utils';
+import { describeError } from '../../utils/error.utils';
 
 /**
  * Interface for WebSocket performance metrics
@@ -28,10 +36,7 @@ interface PerformanceMetrics {
  * Interface for WebSocket security manager
  */
 interface SecurityManager {
-  validateConnection: (request: any) => Promise<boolean>;
-  encryptMessage: (data: any) => Promise<Buffer>;
-  decryptMessage: (data: Buffer) => Promise<any>;
-  validateToken: (token: string) => Promise<boolean>;
+  validateConnection: (request: AuthenticatedUpgradeRequest) => Promise<boolean>;
 }
 
 /**
@@ -54,7 +59,8 @@ export class WebSocketService {
 
   constructor(
     private readonly connectionHandler: ConnectionHandler,
-    private readonly audioStreamHandler: AudioStreamHandler
+    private readonly audioStreamHandler: AudioStreamHandler,
+    private readonly connectionAuth: ConnectionAuthService
   ) {
     this.connectionPool = new Map();
     this.metrics = {
@@ -81,13 +87,14 @@ export class WebSocketService {
         perMessageDeflate: true,
         maxPayload: 1024 * 1024, // 1MB max message size
         clientTracking: true,
+        handleProtocols: (protocols: Set<string>) => this.connectionAuth.selectProtocol(protocols),
         verifyClient: async (info, callback) => {
           try {
-            const isValid = await this.securityManager.validateConnection(info);
-            callback(isValid);
+            const isValid = await this.securityManager.validateConnection(info.req);
+            callback(isValid, 401, 'Unauthorized');
           } catch (error) {
             logger.error('Connection validation failed:', error);
-            callback(false);
+            callback(false, 401, 'Unauthorized');
           }
         }
       });
@@ -118,11 +125,15 @@ export class WebSocketService {
       // Validate connection and set up handlers
       await this.connectionHandler.handleConnection(ws, request);
       
-      // Set up message encryption
-      ws.on('message', async (data: WebSocket.Data) => {
+      // Text messages are plain JSON; wss protects them in transit
+      ws.on('message', async (data: WebSocket.Data, isBinary: boolean) => {
+        // Binary audio frames are routed by the connection handler
+        if (isBinary) {
+          return;
+        }
         try {
-          const decryptedData = await this.securityManager.decryptMessage(data as Buffer);
-          await this.audioStreamHandler.onMessage(decryptedData);
+          const message = JSON.parse(data.toString()) as WebSocketMessage;
+          await this.audioStreamHandler.onMessage(message);
         } catch (error) {
           logger.error('Message processing failed:', error);
           ws.close(1008, 'Message processing failed');
@@ -163,21 +174,18 @@ export class WebSocketService {
    */
   private initializeSecurityManager(): void {
     this.securityManager = {
-      validateConnection: async (request: any) => {
-        const token = request.headers.authorization?.split(' ')[1];
-        return token ? this.securityManager.validateToken(token) : false;
-      },
-      encryptMessage: async (data: any) => {
-        // Implement message encryption
-        return Buffer.from(JSON.stringify(data));
-      },
-      decryptMessage: async (data: Buffer) => {
-        // Implement message decryption
-        return JSON.parse(data.toString());
-      },
-      validateToken: async (token: string) => {
-        // Implement token validation
-        return true; // Replace with actual validation
+      validateConnection: async (request: AuthenticatedUpgradeRequest) => {
+        // The verified identity travels with the request to the connection handler
+        try {
+          request.auth = await this.connectionAuth.authenticate(request);
+          return true;
+        } catch (error) {
+          logger.warn('WebSocket handshake rejected', {
+            component: 'WebSocketService',
+            reason: describeError(error)
+          });
+          return false;
+        }
       }
     };
   }
@@ -6,7 +6,6 @@
  */
 
 import { Result } from '../types/common.types';
-import type { WebAssembly } from '@types/webassembly-js-api'; // v0.0.18
 
 /**
  * Audio processing configuration interface with technical specifications
@@ -37,7 +36,9 @@ export enum AudioFormat {
   /** G.711 codec - Legacy support */
   G711 = 'audio/g711',
   /** AAC codec - Alternative format */
-  AAC = 'audio/aac'
+  AAC = 'audio/aac',
+  /** PCM in a WAV container - Downloads and playback */
+  WAV = 'audio/wav'
 }
 
 /**
@@ -62,6 +62,8 @@ export interface Pagination {
   readonly hasNext: boolean;
   /** Indicates if there is a previous page available */
   readonly hasPrevious: boolean;
+  /** Opaque cursor of the next page for cursor-paginated lists, null on the last page */
+  readonly nextCursor?: string | null;
 }
 
 /**
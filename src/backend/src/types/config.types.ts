@@ -6,8 +6,13 @@
  * - Redis caching and session management  
  * - Speech processing parameters
  * - WebSocket server configuration
+ * - Data retention policies
+ * - PII redaction
  */
 
+import { RetentionPolicy } from '../interfaces/retention.interface';
+import { CustomPiiPattern } from '../interfaces/redaction.interface';
+
 /**
  * Authentication configuration interface for JWT settings
  * Defines security parameters for token generation and validation
@@ -88,6 +93,20 @@ export interface SpeechConfig {
   frameSize: number;
   /** Audio bit depth */
   bitDepth: number;
+  /** Speech recognition provider ('google', 'local' or 'fixture') */
+  recognitionProvider: string;
+  /** Command line of the local recognizer process */
+  localRecognizerCommand: string;
+  /** Path to the JSON file mapping audio hashes to transcripts */
+  recognitionFixturePath: string;
+  /** Enabled speech synthesis providers; the first one serves unknown voices */
+  synthesisProviders: string[];
+  /** Command line of the local synthesizer process */
+  localSynthesizerCommand: string;
+  /** Sample rate of raw PCM written by the local synthesizer in Hz */
+  localSynthesizerSampleRate: number;
+  /** Voice names offered by the local synthesizer */
+  localSynthesizerVoices: string[];
 }
 
 /**
@@ -113,4 +132,66 @@ export interface WebSocketConfig {
   compressionLevel: number;
   /** Maximum backoff delay for reconnection in milliseconds */
   maxBackoffDelay: number;
-}
\ No newline at end of file
+}
+/**
+ * Dialog engine configuration interface
+ * Defines reply generation provider and request settings
+ */
+export interface DialogConfig {
+  /** Dialog engine implementation ('openai' or 'rule') */
+  engine: string;
+  /** Base URL of the OpenAI-compatible API */
+  apiBaseUrl: string;
+  /** API key for the OpenAI-compatible API */
+  apiKey: string;
+  /** Model identifier used for chat completions */
+  model: string;
+  /** Sampling temperature (0-2) */
+  temperature: number;
+  /** Maximum number of tokens in a reply */
+  maxTokens: number;
+  /** System prompt prepended to every request */
+  systemPrompt: string;
+  /** Request timeout in milliseconds */
+  requestTimeout: number;
+  /** Number of most recent messages sent as history */
+  historyLimit: number;
+}
+
+/**
+ * Data retention configuration interface
+ * Defines the retention policies and how the cleanup job runs them
+ */
+export interface RetentionConfig {
+  /** Whether the scheduled cleanup job runs in this instance */
+  enabled: boolean;
+  /** Report what would be removed without removing anything */
+  dryRun: boolean;
+  /** Interval between cleanup runs in milliseconds */
+  interval: number;
+  /** Lifetime of the distributed job lock in milliseconds */
+  lockTtl: number;
+  /** Records removed per database statement */
+  batchSize: number;
+  /** Policies, including the default policy with an empty scope */
+  policies: RetentionPolicy[];
+}
+
+/**
+ * PII redaction configuration interface
+ * Defines which personal data is removed from transcripts and logs and how
+ */
+export interface RedactionConfig {
+  /** Whether message content is redacted before it is stored */
+  enabled: boolean;
+  /** Replacement mode for stored messages; logs are always masked */
+  mode: string;
+  /** Built-in entities to detect */
+  entities: string[];
+  /** Additional operator-defined entities */
+  customPatterns: CustomPiiPattern[];
+  /** Keep encrypted originals in the redaction spans so they can be revealed */
+  retainOriginals: boolean;
+  /** Hex-encoded 256-bit key for hashing and encrypting originals */
+  key: string;
+}
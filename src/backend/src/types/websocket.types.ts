@@ -5,9 +5,11 @@
  * @version 1.0.0
  */
 
+import { IncomingMessage } from 'http';
 import { WebSocket } from 'ws'; // ^8.13.0
 import { AudioChunk } from '../types/audio.types';
-import { Result } from '../types/common.types';
+import { UUID } from '../types/common.types';
+import { SpeechMark } from '../interfaces/voice.interface';
 
 /**
  * WebSocket connection states aligned with WebSocket protocol
@@ -20,12 +22,40 @@ export enum WebSocketState {
 
 /**
  * Supported WebSocket message types for voice communication
+ * Values are the wire format shared with the web client
  */
 export enum WebSocketMessageType {
-  AUDIO = 'AUDIO',
-  TRANSCRIPT = 'TRANSCRIPT',
-  ERROR = 'ERROR',
-  HEARTBEAT = 'HEARTBEAT'
+  AUDIO = 'audio',
+  TRANSCRIPT = 'transcript',
+  ERROR = 'error',
+  HEARTBEAT = 'heartbeat',
+  STATE = 'state',
+  INTERRUPT = 'interrupt',
+  SPEECH_MARKS = 'speech_marks',
+  AUTH_EXPIRING = 'auth_expiring',
+  AUTH_REFRESH = 'auth_refresh',
+  TURN_MODE = 'turn_mode',
+  TURN_END = 'turn_end'
+}
+
+/**
+ * Voice turn states reported to the client during a call
+ */
+export enum VoiceTurnState {
+  LISTENING = 'listening',
+  THINKING = 'thinking',
+  SPEAKING = 'speaking'
+}
+
+/**
+ * How the client delimits the user's turns
+ * In push-to-talk the user ends each turn by releasing the talk button, so the
+ * server does not end turns on silence
+ */
+export enum TurnTakingMode {
+  PUSH_TO_TALK = 'push_to_talk',
+  TAP_TO_TOGGLE = 'tap_to_toggle',
+  HANDS_FREE = 'hands_free'
 }
 
 /**
@@ -130,6 +160,127 @@ export interface WebSocketHeartbeatMessage extends WebSocketMessage {
   readonly connectionQuality: ConnectionQualityMetrics;
 }
 
+/**
+ * Live or committed transcript of a single utterance
+ */
+export interface TranscriptPayload {
+  /** Identifier shared by every update of the same utterance */
+  readonly utteranceId: string;
+  /** Persisted message identifier once the utterance is committed */
+  readonly messageId: string | null;
+  readonly role: 'user' | 'ai';
+  readonly transcript: string;
+  /** True once the utterance is committed or discarded */
+  readonly isFinal: boolean;
+  readonly stability: number | null;
+  readonly confidence: number | null;
+}
+
+/**
+ * Transcript update pushed to the client
+ */
+export interface WebSocketTranscriptMessage extends WebSocketMessage {
+  readonly type: WebSocketMessageType.TRANSCRIPT;
+  readonly payload: TranscriptPayload;
+}
+
+/**
+ * Speech marks of AI audio streamed in the same turn
+ * Marks are timed from the start of the reply audio and arrive before the audio they describe
+ */
+export interface WebSocketSpeechMarksMessage extends WebSocketMessage {
+  readonly type: WebSocketMessageType.SPEECH_MARKS;
+  readonly payload: {
+    readonly messageId: string;
+    readonly turnId: string;
+    readonly marks: SpeechMark[];
+  };
+}
+
+/**
+ * Voice turn state change notification
+ */
+export interface WebSocketStateMessage extends WebSocketMessage {
+  readonly type: WebSocketMessageType.STATE;
+  readonly payload: {
+    readonly state: VoiceTurnState;
+    readonly previousState: VoiceTurnState | null;
+    readonly turnId: string;
+  };
+}
+
+/**
+ * Client notification that the user barged in over AI speech
+ */
+export interface WebSocketInterruptMessage extends WebSocketMessage {
+  readonly type: WebSocketMessageType.INTERRUPT;
+  readonly payload: {
+    readonly turnId: string;
+    readonly playedDuration: number;
+  };
+}
+
+/**
+ * Client message selecting the turn-taking mode of the call
+ */
+export interface WebSocketTurnModeMessage extends WebSocketMessage {
+  readonly type: WebSocketMessageType.TURN_MODE;
+  readonly payload: {
+    readonly mode: TurnTakingMode;
+  };
+}
+
+/**
+ * Client message marking the end of the user's turn, e.g. on release of the talk button
+ */
+export interface WebSocketTurnEndMessage extends WebSocketMessage {
+  readonly type: WebSocketMessageType.TURN_END;
+  readonly payload: Record<string, never>;
+}
+
+/**
+ * Server notice that the connection's access token is about to expire
+ * The client keeps the call open by answering with an AUTH_REFRESH message
+ */
+export interface WebSocketAuthExpiringMessage extends WebSocketMessage {
+  readonly type: WebSocketMessageType.AUTH_EXPIRING;
+  readonly payload: {
+    /** Token expiry (Unix ms) */
+    readonly expiresAt: number;
+  };
+}
+
+/**
+ * Client message replacing the connection's access token
+ */
+export interface WebSocketAuthRefreshMessage extends WebSocketMessage {
+  readonly type: WebSocketMessageType.AUTH_REFRESH;
+  readonly payload: {
+    readonly token: string;
+  };
+}
+
+/**
+ * Identity a connection was authenticated with
+ */
+export interface WebSocketAuthContext {
+  readonly userId: UUID;
+  /** Session the access token was issued for */
+  readonly sessionId: UUID | null;
+  readonly role: string;
+  /** Organization of the user, null for users without one */
+  readonly organizationId: UUID | null;
+  /** Access token expiry (Unix ms) */
+  readonly expiresAt: number;
+}
+
+/**
+ * Upgrade request carrying the identity verified during the handshake
+ */
+export interface AuthenticatedUpgradeRequest extends IncomingMessage {
+  auth?: WebSocketAuthContext;
+}
+
 /**
  * Interface for WebSocket event handlers with async support
  */
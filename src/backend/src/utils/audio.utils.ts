@@ -4,7 +4,6 @@
  * @version 1.0.0
  */
 
-import { WebAssembly } from '@types/webassembly-js-api'; // v0.0.18
 import {
   AudioConfig,
   AudioFormat,
@@ -13,6 +12,7 @@ import {
   DEFAULT_AUDIO_CONFIG
 } from '../types/audio.types';
 import { Result } from '../types/common.types';
+import { transcodeAudio, TranscodeOptions } from './codec.utils';
 
 // WebAssembly module instance for optimized audio processing
 let wasmInstance: WebAssembly.Instance | null = null;
@@ -96,58 +96,44 @@ export async function calculateAudioLevel(
 }
 
 /**
- * Converts audio data between supported formats with WebAssembly optimization
+ * Converts audio data between supported formats through the PCM16 codec layer
  * @param chunk Audio chunk to convert
  * @param targetFormat Desired output format
  * @param options Conversion options
  * @returns Result containing converted audio chunk
  */
-export async function convertAudioFormat(
+export function convertAudioFormat(
   chunk: AudioChunk,
   targetFormat: AudioFormat,
-  options: Record<string, unknown> = {}
-): Promise<Result<AudioChunk>> {
-  try {
-    await initializeWasmModule();
-    
-    if (!wasmInstance) {
-      throw new Error('WebAssembly module not initialized');
-    }
+  options: TranscodeOptions = {}
+): Result<AudioChunk> {
+  const startTime = performance.now();
 
-    const { memory, convertFormat } = wasmInstance.exports as any;
-    const dataPtr = (memory as WebAssembly.Memory).buffer.byteLength;
-    
-    // Copy input data to WebAssembly memory
-    new Uint8Array(memory.buffer, dataPtr, chunk.data.length).set(chunk.data);
-    
-    // Perform format conversion using WebAssembly
-    const result = convertFormat(
-      dataPtr,
-      chunk.data.length,
+  try {
+    const convertedData = transcodeAudio(
+      Buffer.from(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength),
       chunk.format,
       targetFormat,
-      JSON.stringify(options)
-    );
-    
-    const convertedData = new Uint8Array(
-      memory.buffer,
-      result.dataPtr,
-      result.length
+      options
     );
-    
+
     return {
       success: true,
       data: {
-        data: convertedData,
+        data: new Uint8Array(
+          convertedData.buffer,
+          convertedData.byteOffset,
+          convertedData.byteLength
+        ),
         format: targetFormat,
         timestamp: chunk.timestamp,
         sequence: chunk.sequence
       },
       error: null,
       metadata: {
-        conversionTime: performance.now(),
+        conversionTime: performance.now() - startTime,
         originalFormat: chunk.format,
-        compressionRatio: result.length / chunk.data.length
+        compressionRatio: convertedData.length / chunk.data.length
       }
     };
   } catch (error) {
@@ -0,0 +1,121 @@
+/**
+ * Binary audio frame utilities
+ * Audio messages exchanged over the `v1.audio-binary` subprotocol are sent as
+ * binary WebSocket frames instead of JSON: a fixed header followed by the raw
+ * audio body. All header fields are big-endian.
+ *
+ *   offset  size  field
+ *   0       1     frame format version
+ *   1       1     message type (1 = audio)
+ *   2       1     codec (0 = 16-bit little-endian PCM, 1 = length-prefixed Opus packets)
+ *   3       1     channels
+ *   4       4     sequence number
+ *   8       8     timestamp, float64 milliseconds since the epoch
+ *   16      4     sample rate in Hz
+ *   20      2     frame duration in milliseconds
+ *   22      2     reserved, zero
+ *   24      ...   audio
+ * @version 1.0.0
+ */
+
+import { AudioFormat } from '../types/audio.types';
+import { WebSocketAudioMessage, WebSocketMessageType } from '../types/websocket.types';
+import { AUDIO_FRAME } from '../constants/websocket.constants';
+
+/**
+ * Message type identifier of audio in the frame header
+ */
+const AUDIO_FRAME_TYPE = 1;
+
+/**
+ * Codecs carried in the frame header, with the encoding named in AudioMetadata
+ */
+const FRAME_CODECS = [
+  { id: 0, format: AudioFormat.PCM, encoding: 'LINEAR16' },
+  { id: 1, format: AudioFormat.OPUS, encoding: 'OPUS' }
+] as const;
+
+/**
+ * Fields of an audio message carried by a binary frame
+ */
+export type AudioFrame = Pick<
+  WebSocketAudioMessage,
+  'type' | 'payload' | 'timestamp' | 'sequenceNumber' | 'audioMetadata'
+>;
+
+/**
+ * Encodes an audio message as a binary frame
+ * @param frame Audio message to encode
+ * @returns Header followed by the audio of the payload
+ * @throws Error if the payload format has no frame codec
+ */
+export function encodeAudioFrame(frame: AudioFrame): Buffer {
+  const codec = FRAME_CODECS.find(({ format }) => format === frame.payload.format);
+  if (!codec) {
+    throw new Error(`Unsupported audio frame format: ${frame.payload.format}`);
+  }
+
+  const { data } = frame.payload;
+  const buffer = Buffer.alloc(AUDIO_FRAME.HEADER_BYTES + data.length);
+  buffer.writeUInt8(AUDIO_FRAME.VERSION, 0);
+  buffer.writeUInt8(AUDIO_FRAME_TYPE, 1);
+  buffer.writeUInt8(codec.id, 2);
+  buffer.writeUInt8(frame.audioMetadata.channels, 3);
+  buffer.writeUInt32BE(frame.sequenceNumber, 4);
+  buffer.writeDoubleBE(frame.timestamp, 8);
+  buffer.writeUInt32BE(frame.audioMetadata.sampleRate, 16);
+  buffer.writeUInt16BE(frame.audioMetadata.frameSize, 20);
+  buffer.set(data, AUDIO_FRAME.HEADER_BYTES);
+
+  return buffer;
+}
+
+/**
+ * Decodes a binary frame into the fields of an audio message
+ * @param data Binary WebSocket frame
+ * @returns Audio message fields; the payload views the frame's memory
+ * @throws Error if the frame is truncated, of another version, or not audio
+ */
+export function decodeAudioFrame(data: Buffer): AudioFrame {
+  if (data.length < AUDIO_FRAME.HEADER_BYTES) {
+    throw new Error('Truncated audio frame header');
+  }
+
+  const version = data.readUInt8(0);
+  if (version !== AUDIO_FRAME.VERSION) {
+    throw new Error(`Unsupported audio frame version: ${version}`);
+  }
+  if (data.readUInt8(1) !== AUDIO_FRAME_TYPE) {
+    throw new Error('Binary frames may only carry audio');
+  }
+  const codecId = data.readUInt8(2);
+  const codec = FRAME_CODECS.find(({ id }) => id === codecId);
+  if (!codec) {
+    throw new Error(`Unsupported audio frame codec: ${codecId}`);
+  }
+
+  const sequenceNumber = data.readUInt32BE(4);
+  const timestamp = data.readDoubleBE(8);
+
+  return {
+    type: WebSocketMessageType.AUDIO,
+    payload: {
+      data: new Uint8Array(
+        data.buffer,
+        data.byteOffset + AUDIO_FRAME.HEADER_BYTES,
+        data.length - AUDIO_FRAME.HEADER_BYTES
+      ),
+      timestamp,
+      format: codec.format,
+      sequence: sequenceNumber
+    },
+    timestamp,
+    sequenceNumber,
+    audioMetadata: {
+      sampleRate: data.readUInt32BE(16),
+      channels: data.readUInt8(3),
+      encoding: codec.encoding,
+      frameSize: data.readUInt16BE(20)
+    }
+  };
+}
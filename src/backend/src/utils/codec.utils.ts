@@ -0,0 +1,216 @@
+/**
+ * Audio codec utilities
+ * Transcodes between 16-bit PCM and the supported wire formats: Opus (48kHz,
+ * length-prefixed packets), G.711 μ-law/A-law (8kHz) and WAV. PCM is the pivot
+ * format, so every conversion decodes to PCM and re-encodes to the target.
+ * @version 1.0.0
+ */
+
+import { OpusEncoder } from '@discordjs/opus'; // ^0.9.0
+import { AudioFormat } from '../types/audio.types';
+import { SYNTHESIS_FORMATS } from '../constants/voice.constants';
+import {
+  decodeALaw,
+  decodeMuLaw,
+  encodeALaw,
+  encodeMuLaw,
+  encodeWav,
+  isWav,
+  parseWav,
+  resamplePcm16
+} from './pcm.utils';
+
+/**
+ * Opus frame duration in milliseconds
+ */
+const OPUS_FRAME_DURATION = 20;
+
+/**
+ * Bytes of 48kHz PCM16 in one Opus frame
+ */
+const OPUS_FRAME_BYTES = (SYNTHESIS_FORMATS.OPUS.sampleRate / 1000) * OPUS_FRAME_DURATION * 2;
+
+/**
+ * Size of the big-endian length prefix preceding each Opus packet
+ */
+const OPUS_PACKET_HEADER = 2;
+
+/**
+ * G.711 companding law
+ */
+export type G711Law = 'mulaw' | 'alaw';
+
+/**
+ * Opus decoder keeping its state across the packets of one stream
+ */
+export type OpusStreamDecoder = Pick<OpusEncoder, 'decode'>;
+
+/**
+ * Transcoding options
+ */
+export interface TranscodeOptions {
+  /** Sample rate of PCM input and output in Hz */
+  sampleRate?: number;
+  /** Companding law used for G.711 */
+  g711Law?: G711Law;
+  /** Opus target bitrate in bps */
+  opusBitrate?: number;
+  /** Decoder to continue a stream with, so chunks join without artifacts */
+  opusDecoder?: OpusStreamDecoder;
+}
+
+/**
+ * Encodes 48kHz PCM16 as length-prefixed Opus packets of 20ms frames
+ * The final partial frame is padded with silence
+ * @param pcm 48kHz 16-bit mono PCM
+ * @param bitrate Target bitrate in bps
+ * @returns Concatenated `[uint16 length][packet]` records
+ */
+export function encodeOpus(pcm: Buffer, bitrate: number = SYNTHESIS_FORMATS.OPUS.bitrate): Buffer {
+  const encoder = new OpusEncoder(SYNTHESIS_FORMATS.OPUS.sampleRate, 1);
+  encoder.setBitrate(bitrate);
+
+  const records: Buffer[] = [];
+  for (let offset = 0; offset < pcm.length; offset += OPUS_FRAME_BYTES) {
+    const frame = Buffer.alloc(OPUS_FRAME_BYTES);
+    pcm.copy(frame, 0, offset, Math.min(offset + OPUS_FRAME_BYTES, pcm.length));
+
+    const packet = encoder.encode(frame);
+    const header = Buffer.alloc(OPUS_PACKET_HEADER);
+    header.writeUInt16BE(packet.length, 0);
+    records.push(header, packet);
+  }
+
+  return Buffer.concat(records);
+}
+
+/**
+ * Creates a decoder for a stream of Opus packets
+ * @returns Decoder producing 48kHz 16-bit mono PCM
+ */
+export function createOpusDecoder(): OpusStreamDecoder {
+  return new OpusEncoder(SYNTHESIS_FORMATS.OPUS.sampleRate, 1);
+}
+
+/**
+ * Decodes length-prefixed Opus packets to 48kHz PCM16
+ * @param data Concatenated `[uint16 length][packet]` records
+ * @param decoder Decoder of the stream the packets belong to
+ * @returns 48kHz 16-bit mono PCM
+ * @throws Error if a packet is truncated
+ */
+export function decodeOpus(
+  data: Buffer,
+  decoder: OpusStreamDecoder = createOpusDecoder()
+): Buffer {
+  const frames: Buffer[] = [];
+
+  let offset = 0;
+  while (offset < data.length) {
+    if (offset + OPUS_PACKET_HEADER > data.length) {
+      throw new Error('Truncated Opus packet header');
+    }
+    const length = data.readUInt16BE(offset);
+    const start = offset + OPUS_PACKET_HEADER;
+    if (start + length > data.length) {
+      throw new Error('Truncated Opus packet');
+    }
+
+    frames.push(decoder.decode(data.subarray(start, start + length)));
+    offset = start + length;
+  }
+
+  return Buffer.concat(frames);
+}
+
+/**
+ * Decodes audio in a supported format to PCM16
+ * @param data Encoded audio
+ * @param format Format of the input
+ * @param options Transcoding options
+ * @returns 16-bit mono PCM at `options.sampleRate`
+ */
+export function decodeToPcm16(
+  data: Buffer,
+  format: AudioFormat,
+  options: TranscodeOptions = {}
+): Buffer {
+  const sampleRate = options.sampleRate ?? SYNTHESIS_FORMATS.PCM.sampleRate;
+
+  switch (format) {
+    case AudioFormat.PCM:
+      return data;
+    case AudioFormat.WAV: {
+      const wav = parseWav(data);
+      return resamplePcm16(wav.pcm, wav.sampleRate, sampleRate);
+    }
+    case AudioFormat.G711: {
+      const pcm = options.g711Law === 'alaw' ? decodeALaw(data) : decodeMuLaw(data);
+      return resamplePcm16(pcm, SYNTHESIS_FORMATS.G711.sampleRate, sampleRate);
+    }
+    case AudioFormat.OPUS:
+      return resamplePcm16(
+        decodeOpus(data, options.opusDecoder),
+        SYNTHESIS_FORMATS.OPUS.sampleRate,
+        sampleRate
+      );
+    default:
+      throw new Error(`Decoding of ${format} not implemented`);
+  }
+}
+
+/**
+ * Encodes PCM16 to a supported format at the format's native sample rate
+ * @param pcm 16-bit mono PCM at `options.sampleRate`
+ * @param format Target format
+ * @param options Transcoding options
+ * @returns Encoded audio
+ */
+export function encodeFromPcm16(
+  pcm: Buffer,
+  format: AudioFormat,
+  options: TranscodeOptions = {}
+): Buffer {
+  const sampleRate = options.sampleRate ?? SYNTHESIS_FORMATS.PCM.sampleRate;
+
+  switch (format) {
+    case AudioFormat.PCM:
+      return pcm;
+    case AudioFormat.WAV:
+      return encodeWav(pcm, sampleRate);
+    case AudioFormat.G711: {
+      const narrowband = resamplePcm16(pcm, sampleRate, SYNTHESIS_FORMATS.G711.sampleRate);
+      return options.g711Law === 'alaw' ? encodeALaw(narrowband) : encodeMuLaw(narrowband);
+    }
+    case AudioFormat.OPUS:
+      return encodeOpus(
+        resamplePcm16(pcm, sampleRate, SYNTHESIS_FORMATS.OPUS.sampleRate),
+        options.opusBitrate
+      );
+    default:
+      throw new Error(`Conversion to ${format} not implemented`);
+  }
+}
+
+/**
+ * Converts audio between supported formats through PCM16
+ * PCM input carrying a WAV header is treated as WAV
+ * @param data Encoded audio
+ * @param from Format of the input
+ * @param to Target format
+ * @param options Transcoding options
+ * @returns Audio encoded in the target format
+ */
+export function transcodeAudio(
+  data: Buffer,
+  from: AudioFormat,
+  to: AudioFormat,
+  options: TranscodeOptions = {}
+): Buffer {
+  const source = from === AudioFormat.PCM && isWav(data) ? AudioFormat.WAV : from;
+  if (source === to) {
+    return data;
+  }
+
+  return encodeFromPcm16(decodeToPcm16(data, source, options), to, options);
+}
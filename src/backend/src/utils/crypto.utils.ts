@@ -4,7 +4,7 @@
  * @version 1.0.0
  */
 
-import { randomBytes, createCipheriv, createDecipheriv } from 'node:crypto';
+import { randomBytes, createCipheriv, createDecipheriv, createHash } from 'node:crypto';
 import { hash, verify } from 'argon2'; // ^0.31.0
 import { Result } from '../types/common.types';
 
@@ -291,4 +291,36 @@ export async function verifyPassword(
       metadata: {}
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Serializes a value as JSON with object keys in sorted order
+ * @param value - JSON-compatible value
+ * @returns Serialization that is identical for equal values
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Computes the SHA-256 link of a hash chain
+ * @param previousHash - Hash of the preceding entry
+ * @param payload - Content of the entry being appended
+ * @returns Hex-encoded hash binding the entry to its predecessor
+ */
+export function chainHash(previousHash: string, payload: Record<string, unknown>): string {
+  return createHash('sha256')
+    .update(previousHash)
+    .update(canonicalJson(payload))
+    .digest('hex');
+}
@@ -63,6 +63,19 @@ export const isErrorInfo = (error: unknown): error is ErrorInfo => {
   );
 };
 
+/**
+ * Readable message of a caught value
+ * Prefers the detail message of an ErrorInfo over its generic code message
+ * @param error - Caught value of unknown type
+ * @returns Message suitable for logs
+ */
+export const describeError = (error: unknown): string => {
+  if (isErrorInfo(error)) {
+    return typeof error.details.message === 'string' ? error.details.message : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
 /**
  * Enhanced error sanitization with security features
  * Removes sensitive data, stack traces, and internal information
@@ -1,6 +1,8 @@
 import winston from 'winston';  // v3.11.0
 import DailyRotateFile from 'winston-daily-rotate-file';  // v4.7.1
 import { loggerConfig } from '../config/logger.config';
+import { redactionConfig } from '../config/redaction.config';
+import { createDetectors, maskPii } from './redaction.utils';
 import { v4 as uuidv4 } from 'uuid';  // For correlation IDs
 
 // Sensitive data patterns for sanitization
@@ -12,6 +14,9 @@ const SENSITIVE_PATTERNS = [
   /authorization[^,}]* [:=] ["'].*["']/gi
 ];
 
+// Personal data masked in log messages, independently of the stored-message redaction mode
+const PII_DETECTORS = createDetectors(redactionConfig.entities, redactionConfig.customPatterns);
+
 // Interface for structured log metadata
 interface LogMetadata {
   correlationId?: string;
@@ -105,25 +110,56 @@ class Logger {
         return `${prefix}"[REDACTED]"`;
       });
     });
-    return message;
+    return maskPii(message, PII_DETECTORS);
   }
 
-  private formatError(error: Error): object {
+  private formatError(
+    error: Error,
+    seen: WeakSet<object> = new WeakSet()
+  ): { message: string; [key: string]: unknown } {
+    seen.add(error);
     return {
-      message: error.message,
-      stack: error.stack,
-      name: error.name,
-      ...(error as any),
+      ...(this.sanitizeValue({ ...error }, seen) as Record<string, unknown>),
+      message: this.sanitizeMessage(error.message),
+      stack: error.stack && this.sanitizeMessage(error.stack),
+      name: error.name
     };
   }
 
+  // Masks strings at any depth of log metadata, including the messages of logged errors
+  private sanitizeValue(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+    if (typeof value === 'string') {
+      return this.sanitizeMessage(value);
+    }
+    if (
+      typeof value !== 'object' || value === null ||
+      value instanceof Date || ArrayBuffer.isView(value)
+    ) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    if (value instanceof Error) {
+      return this.formatError(value, seen);
+    }
+
+    seen.add(value);
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sanitizeValue(item, seen));
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, this.sanitizeValue(item, seen)])
+    );
+  }
+
   private addMetadata(metadata: LogMetadata = {}): LogMetadata {
     return {
       correlationId: metadata.correlationId || uuidv4(),
       timestamp: new Date().toISOString(),
       hostname: require('os').hostname(),
       pid: process.pid,
-      ...metadata
+      ...(this.sanitizeValue(metadata) as LogMetadata)
     };
   }
 
@@ -151,7 +187,9 @@ class Logger {
 
   public error(error: Error | string, metadata: LogMetadata = {}): void {
     const enrichedMetadata = this.addMetadata(metadata);
-    const errorObject = error instanceof Error ? this.formatError(error) : { message: error };
+    const errorObject = error instanceof Error
+      ? this.formatError(error)
+      : { message: this.sanitizeMessage(error) };
     
     // Errors are logged immediately, bypassing the buffer
     this.winstonLogger.error(errorObject.message, {
@@ -0,0 +1,73 @@
+/**
+ * Pagination utilities
+ * Encodes keyset cursors for newest-first lists and builds the pagination
+ * details returned with each page
+ * @version 1.0.0
+ */
+
+import { Pagination } from '../types/common.types';
+
+/**
+ * Position of the last item of a page in a list ordered by creation time and ID
+ */
+export interface CursorPosition {
+  readonly createdAt: Date;
+  readonly id: string;
+}
+
+const CURSOR_SEPARATOR = '|';
+
+/**
+ * Encodes a list position as an opaque cursor
+ * @param position Creation time and ID of the last item returned
+ * @returns URL-safe cursor
+ */
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(
+    `${position.createdAt.toISOString()}${CURSOR_SEPARATOR}${position.id}`
+  ).toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by `encodeCursor`
+ * @param cursor Cursor received from a client
+ * @returns List position, or null when the cursor is malformed
+ */
+export function decodeCursor(cursor: string): CursorPosition | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  const separator = decoded.indexOf(CURSOR_SEPARATOR);
+  if (separator <= 0 || separator === decoded.length - 1) {
+    return null;
+  }
+
+  const createdAt = new Date(decoded.slice(0, separator));
+  if (Number.isNaN(createdAt.getTime())) {
+    return null;
+  }
+
+  return { createdAt, id: decoded.slice(separator + 1) };
+}
+
+/**
+ * Builds pagination details for a page
+ * @param offset Number of items before the page
+ * @param limit Page size
+ * @param totalItems Number of items across all pages
+ * @param nextCursor Cursor of the next page for cursor-paginated lists
+ */
+export function buildPagination(
+  offset: number,
+  limit: number,
+  totalItems: number,
+  nextCursor?: string | null
+): Pagination {
+  return {
+    page: Math.floor(offset / limit) + 1,
+    limit,
+    totalPages: Math.ceil(totalItems / limit),
+    totalItems,
+    hasNext: offset + limit < totalItems,
+    hasPrevious: offset > 0,
+    ...(nextCursor !== undefined && { nextCursor })
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * PCM audio helpers
+ * Pure functions for handling 16-bit little-endian mono PCM audio: WAV container
+ * wrapping and parsing, G.711 μ-law/A-law companding and sample rate conversion
+ * @version 1.0.0
+ */
+
+/**
+ * Decoded WAV payload
+ */
+export interface WavAudio {
+  /** 16-bit little-endian PCM samples */
+  pcm: Buffer;
+  sampleRate: number;
+  channels: number;
+}
+
+/**
+ * Size of the canonical 16-bit PCM WAV header in bytes
+ */
+const WAV_HEADER_SIZE = 44;
+
+/**
+ * G.711 segment end points (Sun Microsystems reference implementation)
+ */
+const ALAW_SEGMENT_END = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+const ULAW_SEGMENT_END = [0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff, 0x1fff];
+const ULAW_BIAS = 0x84;
+const ULAW_CLIP = 8159;
+
+/**
+ * Finds the G.711 segment of a magnitude
+ */
+const segmentOf = (value: number, segmentEnds: number[]): number => {
+  const index = segmentEnds.findIndex((end) => value <= end);
+  return index === -1 ? segmentEnds.length : index;
+};
+
+/**
+ * Wraps 16-bit mono PCM in a WAV container
+ * @param pcm 16-bit little-endian PCM samples
+ * @param sampleRate Sample rate in Hz
+ * @returns WAV file contents
+ */
+export function encodeWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(WAV_HEADER_SIZE - 8 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  header.writeUInt16LE(2, 32); // block align
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Checks whether a buffer starts with a RIFF/WAVE header
+ * @param buffer Audio buffer
+ */
+export function isWav(buffer: Buffer): boolean {
+  return buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WAVE';
+}
+
+/**
+ * Extracts 16-bit PCM samples from a WAV buffer
+ * Streamed WAV output (e.g. `espeak-ng --stdout`) often carries placeholder chunk
+ * sizes, so the data chunk is read to the end of the buffer when its size is invalid
+ * @param buffer WAV file contents
+ * @returns PCM samples with format information
+ * @throws Error if the buffer is not 16-bit PCM WAV
+ */
+export function parseWav(buffer: Buffer): WavAudio {
+  if (!isWav(buffer)) {
+    throw new Error('Invalid WAV data: missing RIFF/WAVE header');
+  }
+
+  let offset = 12;
+  let sampleRate = 0;
+  let channels = 0;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const bodyStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const audioFormat = buffer.readUInt16LE(bodyStart);
+      channels = buffer.readUInt16LE(bodyStart + 2);
+      sampleRate = buffer.readUInt32LE(bodyStart + 4);
+      const bitsPerSample = buffer.readUInt16LE(bodyStart + 14);
+
+      if (audioFormat !== 1 || bitsPerSample !== 16) {
+        throw new Error('Unsupported WAV data: only 16-bit PCM is supported');
+      }
+    } else if (chunkId === 'data') {
+      if (!sampleRate) {
+        throw new Error('Invalid WAV data: data chunk precedes fmt chunk');
+      }
+      const end = bodyStart + chunkSize <= buffer.length && chunkSize > 0
+        ? bodyStart + chunkSize
+        : buffer.length;
+      return { pcm: buffer.subarray(bodyStart, end), sampleRate, channels };
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = bodyStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('Invalid WAV data: missing data chunk');
+}
+
+/**
+ * Encodes 16-bit PCM samples as G.711 μ-law
+ * @param pcm 16-bit little-endian PCM samples
+ * @returns One μ-law byte per sample
+ */
+export function encodeMuLaw(pcm: Buffer): Buffer {
+  const output = Buffer.alloc(Math.floor(pcm.length / 2));
+
+  for (let i = 0; i < output.length; i++) {
+    let value = pcm.readInt16LE(i * 2) >> 2;
+    let mask = 0xff;
+    if (value < 0) {
+      value = -value;
+      mask = 0x7f;
+    }
+    value = Math.min(value, ULAW_CLIP) + (ULAW_BIAS >> 2);
+
+    const segment = segmentOf(value, ULAW_SEGMENT_END);
+    output[i] = segment >= 8
+      ? 0x7f ^ mask
+      : ((segment << 4) | ((value >> (segment + 1)) & 0x0f)) ^ mask;
+  }
+
+  return output;
+}
+
+/**
+ * Decodes G.711 μ-law to 16-bit PCM samples
+ * @param encoded μ-law bytes
+ * @returns 16-bit little-endian PCM samples
+ */
+export function decodeMuLaw(encoded: Uint8Array): Buffer {
+  const output = Buffer.alloc(encoded.length * 2);
+
+  for (let i = 0; i < encoded.length; i++) {
+    const value = ~encoded[i] & 0xff;
+    const magnitude = (((value & 0x0f) << 3) + ULAW_BIAS) << ((value & 0x70) >> 4);
+    output.writeInt16LE(value & 0x80 ? ULAW_BIAS - magnitude : magnitude - ULAW_BIAS, i * 2);
+  }
+
+  return output;
+}
+
+/**
+ * Encodes 16-bit PCM samples as G.711 A-law
+ * @param pcm 16-bit little-endian PCM samples
+ * @returns One A-law byte per sample
+ */
+export function encodeALaw(pcm: Buffer): Buffer {
+  const output = Buffer.alloc(Math.floor(pcm.length / 2));
+
+  for (let i = 0; i < output.length; i++) {
+    let value = pcm.readInt16LE(i * 2) >> 3;
+    let mask = 0xd5;
+    if (value < 0) {
+      value = -value - 1;
+      mask = 0x55;
+    }
+
+    const segment = segmentOf(value, ALAW_SEGMENT_END);
+    if (segment >= 8) {
+      output[i] = 0x7f ^ mask;
+      continue;
+    }
+
+    const quantized = segment < 2 ? (value >> 1) & 0x0f : (value >> segment) & 0x0f;
+    output[i] = ((segment << 4) | quantized) ^ mask;
+  }
+
+  return output;
+}
+
+/**
+ * Decodes G.711 A-law to 16-bit PCM samples
+ * @param encoded A-law bytes
+ * @returns 16-bit little-endian PCM samples
+ */
+export function decodeALaw(encoded: Uint8Array): Buffer {
+  const output = Buffer.alloc(encoded.length * 2);
+
+  for (let i = 0; i < encoded.length; i++) {
+    const value = encoded[i] ^ 0x55;
+    const segment = (value & 0x70) >> 4;
+    let magnitude = (value & 0x0f) << 4;
+
+    if (segment === 0) {
+      magnitude += 8;
+    } else {
+      magnitude = (magnitude + 0x108) << (segment - 1);
+    }
+
+    output.writeInt16LE(value & 0x80 ? magnitude : -magnitude, i * 2);
+  }
+
+  return output;
+}
+
+/**
+ * Converts the sample rate of 16-bit mono PCM using linear interpolation
+ * Downsampling applies a moving average over the rate ratio first to limit aliasing
+ * @param pcm 16-bit little-endian PCM samples
+ * @param fromRate Source sample rate in Hz
+ * @param toRate Target sample rate in Hz
+ * @returns Resampled PCM
+ */
+export function resamplePcm16(pcm: Buffer, fromRate: number, toRate: number): Buffer {
+  if (fromRate === toRate) {
+    return pcm;
+  }
+
+  const inputLength = Math.floor(pcm.length / 2);
+  const samples = new Float64Array(inputLength);
+  for (let i = 0; i < inputLength; i++) {
+    samples[i] = pcm.readInt16LE(i * 2);
+  }
+
+  const source = fromRate > toRate ? movingAverage(samples, Math.ceil(fromRate / toRate)) : samples;
+  const outputLength = Math.floor((inputLength * toRate) / fromRate);
+  const output = Buffer.alloc(outputLength * 2);
+  const step = fromRate / toRate;
+
+  for (let i = 0; i < outputLength; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const current = source[index];
+    const next = index + 1 < inputLength ? source[index + 1] : current;
+    output.writeInt16LE(Math.round(current + (next - current) * fraction), i * 2);
+  }
+
+  return output;
+}
+
+/**
+ * Centered moving average acting as a simple low-pass filter
+ */
+function movingAverage(samples: Float64Array, width: number): Float64Array {
+  if (width <= 1) {
+    return samples;
+  }
+
+  const output = new Float64Array(samples.length);
+  const half = Math.floor(width / 2);
+
+  for (let i = 0; i < samples.length; i++) {
+    const start = Math.max(0, i - half);
+    const end = Math.min(samples.length, i - half + width);
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += samples[j];
+    }
+    output[i] = sum / (end - start);
+  }
+
+  return output;
+}
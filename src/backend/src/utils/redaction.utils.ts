@@ -0,0 +1,173 @@
+/**
+ * Redaction utilities
+ * Detects personal data in free text and replaces it. Shared by the message
+ * pipeline and the logger, so nothing here may log or depend on services.
+ * @version 1.0.0
+ */
+
+import { CustomPiiPattern, PiiEntity, PiiMatch } from '../interfaces/redaction.interface';
+
+/**
+ * Finds one kind of personal data
+ */
+export interface PiiDetector {
+  readonly entity: string;
+  readonly pattern: RegExp;
+  /** Rejects pattern matches that are not the entity, e.g. digit runs failing Luhn */
+  readonly validate?: (value: string) => boolean;
+}
+
+/**
+ * Patterns for the built-in entities
+ * Lookarounds instead of \b so that separators and a leading + are part of the match
+ */
+const BUILT_IN_PATTERNS: Readonly<Record<PiiEntity, RegExp>> = {
+  [PiiEntity.EMAIL]: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  [PiiEntity.PHONE]:
+    /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-]?)\d{3}[\s.-]?\d{4}(?!\w)/g,
+  [PiiEntity.CREDIT_CARD]: /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g,
+  [PiiEntity.SSN]: /(?<!\d)(?!000|666|9\d\d)\d{3}[- ](?!00)\d{2}[- ](?!0000)\d{4}(?!\d)/g
+};
+
+/**
+ * Checks a card number with the Luhn algorithm
+ * @param value Card number, separators allowed
+ * @returns Whether the digits form a valid 13 to 19 digit card number
+ */
+export function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Builds the detectors for the enabled entities
+ * @param entities Built-in entities to detect
+ * @param customPatterns Operator-defined entities
+ * @returns Detectors in priority order, built-in entities first
+ */
+export function createDetectors(
+  entities: readonly string[],
+  customPatterns: readonly CustomPiiPattern[] = []
+): PiiDetector[] {
+  const builtIn = (Object.keys(BUILT_IN_PATTERNS) as PiiEntity[])
+    .filter((entity) => entities.includes(entity))
+    .map((entity) => ({
+      entity,
+      pattern: BUILT_IN_PATTERNS[entity],
+      validate: entity === PiiEntity.CREDIT_CARD ? isLuhnValid : undefined
+    }));
+
+  const custom = customPatterns.map((custom) => ({
+    entity: custom.name,
+    pattern: new RegExp(custom.pattern, `${(custom.flags || '').replace('g', '')}g`)
+  }));
+
+  return [...builtIn, ...custom];
+}
+
+/**
+ * Finds personal data in a text
+ * Overlapping matches are resolved in favour of the earliest, then the longest
+ * @param text Text to scan
+ * @param detectors Detectors from createDetectors
+ * @returns Non-overlapping matches in text order
+ */
+export function detectPii(text: string, detectors: readonly PiiDetector[]): PiiMatch[] {
+  const candidates: PiiMatch[] = [];
+  for (const detector of detectors) {
+    for (const match of text.matchAll(detector.pattern)) {
+      if (match[0] && (!detector.validate || detector.validate(match[0]))) {
+        candidates.push({
+          entity: detector.entity,
+          start: match.index ?? 0,
+          end: (match.index ?? 0) + match[0].length,
+          value: match[0]
+        });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const matches: PiiMatch[] = [];
+  for (const candidate of candidates) {
+    const previous = matches[matches.length - 1];
+    if (!previous || candidate.start >= previous.end) {
+      matches.push(candidate);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Masks letters and digits, keeping separators; card numbers keep their last four digits
+ * @param entity Entity of the value
+ * @param value Value to mask
+ */
+export function maskValue(entity: string, value: string): string {
+  let keep = entity === PiiEntity.CREDIT_CARD ? 4 : 0;
+  const masked = [...value].reverse().map((char) => {
+    if (!/[A-Za-z0-9]/.test(char)) {
+      return char;
+    }
+    if (keep > 0) {
+      keep--;
+      return char;
+    }
+    return '*';
+  });
+  return masked.reverse().join('');
+}
+
+/**
+ * Replaces matches in a text
+ * @param text Original text
+ * @param matches Non-overlapping matches in text order
+ * @param replace Produces the replacement of each match
+ * @returns Text with replacements and the offsets of each replacement in it
+ */
+export function replacePii(
+  text: string,
+  matches: readonly PiiMatch[],
+  replace: (match: PiiMatch) => string
+): { content: string; ranges: Array<{ start: number; end: number }> } {
+  let content = '';
+  let cursor = 0;
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  for (const match of matches) {
+    content += text.slice(cursor, match.start);
+    const replacement = replace(match);
+    ranges.push({ start: content.length, end: content.length + replacement.length });
+    content += replacement;
+    cursor = match.end;
+  }
+
+  return { content: content + text.slice(cursor), ranges };
+}
+
+/**
+ * Masks every detected value in a text
+ * @param text Text to mask
+ * @param detectors Detectors from createDetectors
+ */
+export function maskPii(text: string, detectors: readonly PiiDetector[]): string {
+  return replacePii(text, detectPii(text, detectors), (match) =>
+    maskValue(match.entity, match.value)
+  ).content;
+}
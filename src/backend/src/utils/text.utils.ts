@@ -0,0 +1,111 @@
+/**
+ * Text utilities
+ * Splits replies into sentence-sized chunks for incremental speech synthesis
+ * and locates the chunks in the reply text
+ * @version 1.0.0
+ */
+
+import { SYNTHESIS_CHUNKING } from '../constants/voice.constants';
+
+/**
+ * Sentence boundary: terminal punctuation, optional closing quotes or brackets, whitespace
+ */
+const SENTENCE_BOUNDARY = /(?<=[.!?…]["'”’)\]]*)\s+/;
+
+/**
+ * Splits text longer than `maxLength` at word boundaries
+ * Single words longer than `maxLength` are kept whole
+ */
+const splitLong = (sentence: string, maxLength: number): string[] => {
+  if (sentence.length <= maxLength) {
+    return [sentence];
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  for (const word of sentence.split(/\s+/)) {
+    if (current && current.length + word.length + 1 > maxLength) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts;
+};
+
+/**
+ * Splits text into sentence chunks for synthesis
+ * Sentences shorter than `minLength` are merged with the following one and
+ * sentences longer than `maxLength` are split at word boundaries
+ * @param text Plain text to split
+ * @param minLength Minimum chunk length in characters
+ * @param maxLength Maximum chunk length in characters
+ * @returns Non-empty chunks in reading order
+ */
+export function splitSentences(
+  text: string,
+  minLength: number = SYNTHESIS_CHUNKING.MIN_CHUNK_LENGTH,
+  maxLength: number = SYNTHESIS_CHUNKING.MAX_CHUNK_LENGTH
+): string[] {
+  const sentences = text
+    .trim()
+    .split(SENTENCE_BOUNDARY)
+    .filter(Boolean)
+    .flatMap((sentence) => splitLong(sentence, maxLength));
+
+  const chunks: string[] = [];
+  let pending = '';
+  for (const sentence of sentences) {
+    pending = pending ? `${pending} ${sentence}` : sentence;
+    if (pending.length >= minLength) {
+      chunks.push(pending);
+      pending = '';
+    }
+  }
+
+  if (pending) {
+    if (chunks.length > 0 && chunks[chunks.length - 1].length + pending.length < maxLength) {
+      chunks[chunks.length - 1] = `${chunks[chunks.length - 1]} ${pending}`;
+    } else {
+      chunks.push(pending);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Finds a chunk produced by `splitSentences` in the text it was split from
+ * Chunks may differ from the source in whitespace, so the chunk is located word
+ * by word; words that cannot be found are skipped
+ * @param text Source text
+ * @param chunk Chunk to locate
+ * @param from Offset to search from
+ * @returns Offsets of the first character and after the last character of the chunk
+ */
+export function locateText(
+  text: string,
+  chunk: string,
+  from: number = 0
+): { start: number; end: number } {
+  let start = -1;
+  let end = from;
+
+  for (const word of chunk.split(/\s+/).filter(Boolean)) {
+    const index = text.indexOf(word, end);
+    if (index < 0) {
+      continue;
+    }
+    if (start < 0) {
+      start = index;
+    }
+    end = index + word.length;
+  }
+
+  return { start: start < 0 ? from : start, end };
+}
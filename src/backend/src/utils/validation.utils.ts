@@ -6,7 +6,7 @@
 
 import { validate as jsonValidate, Schema, ValidatorResult } from 'jsonschema'; // v1.4.1
 import validator from 'validator'; // v13.9.0
-import { ValidationError, Result } from '../types/common.types';
+import { ValidationError, Result, Timestamp } from '../types/common.types';
 import { ERROR_CODES } from '../constants/error.constants';
 
 // Cache for compiled JSON schemas to improve performance
@@ -228,4 +228,41 @@ export const validateUUID = (uuid: string): Result<boolean> => {
       metadata: {}
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Builds a failed validation result for a query parameter
+ */
+export const invalidQuery = <T>(message: string, details: Record<string, unknown>): Result<T> => ({
+  success: false,
+  data: null as unknown as T,
+  error: {
+    code: ERROR_CODES.VALIDATION_ERROR,
+    message,
+    details,
+    timestamp: Date.now() as Timestamp
+  },
+  metadata: {}
+});
+
+/**
+ * Parses a positive integer query parameter, falling back when it is absent
+ */
+export const parsePositiveInteger = (value: unknown, fallback: number): number | null => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Parses an ISO 8601 date query parameter
+ */
+export const parseDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
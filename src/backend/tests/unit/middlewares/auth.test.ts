@@ -0,0 +1,80 @@
+/**
+ * Authorization Middleware Unit Tests
+ * Tests role and permission checks against the permission matrix
+ * @version 1.0.0
+ */
+
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.0.0
+import { Request, Response } from 'express';
+import { requirePermission, requireRole } from '../../../src/api/middlewares/auth.middleware';
+import { Permission, PREMIUM_VOICE_IDS } from '../../../src/constants/auth.constants';
+import { HTTP_STATUS } from '../../../src/constants/error.constants';
+
+jest.mock('../../../src/services/auth/jwt.service');
+
+const buildRequest = (role?: string, body: Record<string, unknown> = {}): Request => ({
+  path: '/test',
+  method: 'POST',
+  body,
+  ...(role && { user: { id: '123e4567-e89b-12d3-a456-426614174000', role } })
+} as unknown as Request);
+
+describe('authorization middleware', () => {
+  let res: Response;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    } as unknown as Response;
+    next = jest.fn();
+  });
+
+  describe('requireRole', () => {
+    test('allows listed roles', () => {
+      requireRole('admin')(buildRequest('admin'), res, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    test('rejects other roles and unauthenticated requests', () => {
+      requireRole('admin')(buildRequest('premium'), res, next);
+      requireRole('admin')(buildRequest(), res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledTimes(2);
+      expect(res.status).toHaveBeenCalledWith(HTTP_STATUS.FORBIDDEN);
+    });
+  });
+
+  describe('requirePermission', () => {
+    test('grants permissions from the role matrix', () => {
+      requirePermission(Permission.VOICE_SSML)(buildRequest('premium'), res, next);
+      requirePermission(Permission.METRICS_READ)(buildRequest('admin'), res, next);
+
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    test('rejects permissions the role lacks', () => {
+      requirePermission(Permission.METRICS_READ)(buildRequest('premium'), res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(HTTP_STATUS.FORBIDDEN);
+    });
+
+    test('only checks requests the condition applies to', () => {
+      const premiumVoice = requirePermission(
+        Permission.VOICE_PREMIUM,
+        (req) => PREMIUM_VOICE_IDS.includes(req.body.options.voiceId)
+      );
+
+      premiumVoice(buildRequest('user', { options: { voiceId: 'en-US-Standard-C' } }), res, next);
+      expect(next).toHaveBeenCalledTimes(1);
+
+      premiumVoice(buildRequest('user', { options: { voiceId: PREMIUM_VOICE_IDS[0] } }), res, next);
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.status).toHaveBeenCalledWith(HTTP_STATUS.FORBIDDEN);
+    });
+  });
+});
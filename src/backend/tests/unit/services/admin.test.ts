@@ -0,0 +1,221 @@
+import { jest } from '@jest/globals';
+import { AdminService } from '../../../src/services/admin/admin.service';
+import { UserRepository } from '../../../src/db/repositories/user.repository';
+import { ConversationRepository } from '../../../src/db/repositories/conversation.repository';
+import { SessionService } from '../../../src/services/session/session.service';
+import { AuditService } from '../../../src/services/audit/audit.service';
+import { JWTService } from '../../../src/services/auth/jwt.service';
+import { RedactionService } from '../../../src/services/privacy/redaction.service';
+import { IUserUpdateParams, UserStatus } from '../../../src/interfaces/user.interface';
+import { AuditEventType } from '../../../src/interfaces/audit.interface';
+import { ERROR_CODES } from '../../../src/constants/error.constants';
+import { Result, UUID } from '../../../src/types/common.types';
+
+jest.mock('../../../src/services/auth/jwt.service', () => ({
+  JWTService: class {},
+  jwtService: {}
+}));
+jest.mock('../../../src/services/audit/audit.service', () => ({
+  AuditService: class {},
+  auditService: {}
+}));
+
+const ADMIN_ID = '123e4567-e89b-42d3-a456-426614174000' as UUID;
+const USER_ID = '223e4567-e89b-42d3-a456-426614174000' as UUID;
+const SESSION_ID = '323e4567-e89b-42d3-a456-426614174000' as UUID;
+
+const ok = <T>(data: T): Result<T> => ({ success: true, data, error: null, metadata: {} });
+
+describe('AdminService', () => {
+  let service: AdminService;
+  let mockUsers: jest.Mocked<UserRepository>;
+  let mockSessions: jest.Mocked<SessionService>;
+  let mockConversations: jest.Mocked<ConversationRepository>;
+  let mockAudit: jest.Mocked<AuditService>;
+  let mockTokens: jest.Mocked<JWTService>;
+  let mockRedaction: jest.Mocked<RedactionService>;
+
+  beforeEach(() => {
+    mockUsers = {
+      searchUsers: jest.fn(async () => ok({ items: [{ id: USER_ID }], pagination: {} })),
+      getUserById: jest.fn(async () => ok({ id: USER_ID, status: UserStatus.ACTIVE })),
+      updateUser: jest.fn(async (_id: string, params: IUserUpdateParams) =>
+        ok({ id: USER_ID, status: params.status })
+      )
+    } as unknown as jest.Mocked<UserRepository>;
+    mockSessions = {
+      listActiveSessions: jest.fn(async () => [{ id: SESSION_ID, userId: USER_ID }]),
+      endSession: jest.fn(async () => undefined)
+    } as unknown as jest.Mocked<SessionService>;
+    mockConversations = {
+      findTranscript: jest.fn(async () => ({
+        success: false,
+        error: new Error('Conversation not found')
+      }))
+    } as unknown as jest.Mocked<ConversationRepository>;
+    mockAudit = {
+      record: jest.fn(async () => undefined),
+      tryRecord: jest.fn(async () => undefined),
+      queryEvents: jest.fn(async () => ok({ items: [], pagination: {} }))
+    } as unknown as jest.Mocked<AuditService>;
+    mockTokens = {
+      invalidateUserTokens: jest.fn(async () => 2)
+    } as unknown as jest.Mocked<JWTService>;
+    mockRedaction = {
+      reveal: jest.fn(async () => 'Call me at 555-123-4567')
+    } as unknown as jest.Mocked<RedactionService>;
+
+    service = new AdminService(
+      mockUsers,
+      mockSessions,
+      mockConversations,
+      mockAudit,
+      mockTokens,
+      mockRedaction
+    );
+  });
+
+  describe('searchUsers', () => {
+    it('should audit the search under the acting administrator', async () => {
+      const result = await service.searchUsers(ADMIN_ID, { email: 'example', limit: 20 });
+
+      expect(result.success).toBe(true);
+      expect(mockAudit.record).toHaveBeenCalledWith(expect.objectContaining({
+        type: AuditEventType.ADMIN_USER_SEARCH,
+        actorId: ADMIN_ID
+      }));
+    });
+
+    it('should withhold results when the audit log cannot be written', async () => {
+      mockAudit.record.mockRejectedValueOnce(new Error('database unavailable'));
+
+      const result = await service.searchUsers(ADMIN_ID, { limit: 20 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ERROR_CODES.SYSTEM_ERROR);
+    });
+  });
+
+  describe('setUserStatus', () => {
+    it('should suspend the account and sign the user out everywhere', async () => {
+      const result = await service.setUserStatus(
+        ADMIN_ID,
+        USER_ID,
+        UserStatus.SUSPENDED,
+        'Abuse report'
+      );
+
+      expect(result.data.status).toBe(UserStatus.SUSPENDED);
+      expect(mockSessions.endSession).toHaveBeenCalledWith(SESSION_ID, ADMIN_ID);
+      expect(mockTokens.invalidateUserTokens).toHaveBeenCalledWith(USER_ID);
+      expect(mockAudit.tryRecord).toHaveBeenCalledWith(expect.objectContaining({
+        type: AuditEventType.ADMIN_USER_STATUS_CHANGED,
+        subjectId: USER_ID,
+        details: expect.objectContaining({
+          from: UserStatus.ACTIVE,
+          to: UserStatus.SUSPENDED,
+          reason: 'Abuse report'
+        })
+      }));
+    });
+
+    it('should not sign out a user being reactivated', async () => {
+      await service.setUserStatus(ADMIN_ID, USER_ID, UserStatus.ACTIVE, 'Appeal accepted');
+
+      expect(mockSessions.endSession).not.toHaveBeenCalled();
+      expect(mockTokens.invalidateUserTokens).not.toHaveBeenCalled();
+    });
+
+    it('should reject changes to the administrator\'s own account', async () => {
+      const result = await service.setUserStatus(
+        ADMIN_ID,
+        ADMIN_ID,
+        UserStatus.INACTIVE,
+        'Leaving'
+      );
+
+      expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+      expect(mockUsers.updateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('terminateSession', () => {
+    it('should end a session that belongs to the user', async () => {
+      const result = await service.terminateSession(ADMIN_ID, USER_ID, SESSION_ID);
+
+      expect(result.success).toBe(true);
+      expect(mockSessions.endSession).toHaveBeenCalledWith(SESSION_ID, ADMIN_ID);
+      expect(mockAudit.tryRecord).toHaveBeenCalledWith(expect.objectContaining({
+        type: AuditEventType.ADMIN_SESSIONS_TERMINATED,
+        subjectId: SESSION_ID
+      }));
+    });
+
+    it('should report sessions the user does not have', async () => {
+      mockSessions.listActiveSessions.mockResolvedValueOnce([]);
+
+      const result = await service.terminateSession(ADMIN_ID, USER_ID, SESSION_ID);
+
+      expect(result.error?.code).toBe(ERROR_CODES.NOT_FOUND);
+      expect(mockSessions.endSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getConversationTranscript', () => {
+    it('should report unknown conversations as not found', async () => {
+      const result = await service.getConversationTranscript(ADMIN_ID, SESSION_ID);
+
+      expect(result.error?.code).toBe(ERROR_CODES.NOT_FOUND);
+      expect(mockAudit.record).not.toHaveBeenCalled();
+    });
+
+    it('should reveal retained personal data only when requested', async () => {
+      const redactions = [{ entity: 'phone', start: 11, end: 20, mode: 'tokenize', original: 'x' }];
+      mockConversations.findTranscript.mockResolvedValue({
+        success: true,
+        data: {
+          id: SESSION_ID,
+          messages: [
+            { id: 'message-1', content: 'Call me at [PHONE_1]', metadata: { redactions } },
+            { id: 'message-2', content: 'Sure', metadata: {} }
+          ]
+        }
+      });
+
+      const hidden = await service.getConversationTranscript(ADMIN_ID, SESSION_ID);
+      const revealed = await service.getConversationTranscript(ADMIN_ID, SESSION_ID, true);
+
+      expect(hidden.data.messages[0].content).toBe('Call me at [PHONE_1]');
+      expect(revealed.data.messages[0].content).toBe('Call me at 555-123-4567');
+      expect(mockRedaction.reveal).toHaveBeenCalledTimes(1);
+      expect(mockAudit.record).toHaveBeenLastCalledWith(expect.objectContaining({
+        type: AuditEventType.ADMIN_TRANSCRIPT_VIEWED,
+        details: { messages: 2, revealed: 1 }
+      }));
+    });
+  });
+
+  describe('queryAuditEvents', () => {
+    it('should record the query in the audit log before returning events', async () => {
+      const from = new Date('2024-01-01T00:00:00.000Z');
+
+      const result = await service.queryAuditEvents(ADMIN_ID, {
+        type: AuditEventType.LOGIN_FAILED,
+        from,
+        limit: 20
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockAudit.record).toHaveBeenCalledWith(expect.objectContaining({
+        type: AuditEventType.ADMIN_AUDIT_QUERIED,
+        actorId: ADMIN_ID,
+        details: {
+          filters: expect.objectContaining({
+            type: AuditEventType.LOGIN_FAILED,
+            from: from.toISOString()
+          })
+        }
+      }));
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { jest } from '@jest/globals';
+import { createHash } from 'crypto';
+import { ApiKeyService } from '../../../src/services/auth/apiKey.service';
+import { ApiKeyRepository } from '../../../src/db/repositories/apiKey.repository';
+import { AuditService } from '../../../src/services/audit/audit.service';
+import {
+  ApiKey,
+  ApiKeyCreateParams,
+  ApiKeyPrincipal
+} from '../../../src/interfaces/apiKey.interface';
+import { AuditEventType } from '../../../src/interfaces/audit.interface';
+import { UserStatus } from '../../../src/interfaces/user.interface';
+import { ERROR_CODES } from '../../../src/constants/error.constants';
+import { API_KEYS, Permission } from '../../../src/constants/auth.constants';
+import { UUID } from '../../../src/types/common.types';
+
+jest.mock('../../../src/services/audit/audit.service', () => ({
+  AuditService: class {},
+  auditService: {}
+}));
+jest.mock('../../../src/db/repositories/apiKey.repository', () => ({
+  ApiKeyRepository: class {}
+}));
+
+const USER_ID = '123e4567-e89b-42d3-a456-426614174000' as UUID;
+const KEY_ID = '223e4567-e89b-42d3-a456-426614174000' as UUID;
+
+const storedKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+  id: KEY_ID,
+  userId: USER_ID,
+  name: 'Batch synthesis',
+  prefix: 'vak_abcdefgh',
+  scopes: [Permission.VOICE_SYNTHESIZE],
+  rateLimit: null,
+  lastUsedAt: null,
+  expiresAt: null,
+  revokedAt: null,
+  createdAt: new Date(),
+  ...overrides
+});
+
+const principal = (
+  keyOverrides: Partial<ApiKey> = {},
+  status = UserStatus.ACTIVE
+): ApiKeyPrincipal => ({
+  apiKey: storedKey(keyOverrides),
+  owner: {
+    id: USER_ID,
+    email: 'owner@example.com',
+    role: 'user',
+    status,
+    organizationId: null,
+    organizationRole: null
+  }
+});
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let mockRepository: jest.Mocked<ApiKeyRepository>;
+  let mockAudit: jest.Mocked<AuditService>;
+
+  beforeEach(() => {
+    mockRepository = {
+      create: jest.fn(
+        async (_userId: string, prefix: string, _hash: string, params: ApiKeyCreateParams) =>
+          storedKey({ prefix, name: params.name, scopes: params.scopes })
+      ),
+      findByHash: jest.fn(async () => principal()),
+      findByUser: jest.fn(async () => [storedKey()]),
+      countActive: jest.fn(async () => 0),
+      revoke: jest.fn(async () => true),
+      recordUse: jest.fn(async () => undefined)
+    } as unknown as jest.Mocked<ApiKeyRepository>;
+    mockAudit = {
+      tryRecord: jest.fn(async () => undefined)
+    } as unknown as jest.Mocked<AuditService>;
+
+    service = new ApiKeyService(mockRepository, mockAudit);
+  });
+
+  describe('createKey', () => {
+    it('should return the key once and store only its hash', async () => {
+      const result = await service.createKey(USER_ID, {
+        name: 'Batch synthesis',
+        scopes: [Permission.VOICE_SYNTHESIZE]
+      });
+
+      expect(result.success).toBe(true);
+      const { key } = result.data;
+      expect(key.startsWith(API_KEYS.PREFIX)).toBe(true);
+
+      const [, prefix, hash] = mockRepository.create.mock.calls[0];
+      expect(prefix).toBe(key.slice(0, API_KEYS.DISPLAY_LENGTH));
+      expect(hash).toBe(createHash('sha256').update(key).digest('hex'));
+      expect(mockAudit.tryRecord).toHaveBeenCalledWith(expect.objectContaining({
+        type: AuditEventType.API_KEY_CREATED,
+        actorId: USER_ID,
+        subjectId: KEY_ID,
+        details: { name: 'Batch synthesis', scopes: [Permission.VOICE_SYNTHESIZE] }
+      }));
+    });
+
+    it('should enforce the per-user key limit', async () => {
+      mockRepository.countActive.mockResolvedValueOnce(API_KEYS.MAX_PER_USER);
+
+      const result = await service.createKey(USER_ID, {
+        name: 'One too many',
+        scopes: [Permission.CONVERSATION_READ]
+      });
+
+      expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeKey', () => {
+    it('should revoke the key and audit it', async () => {
+      const result = await service.revokeKey(USER_ID, KEY_ID);
+
+      expect(result.success).toBe(true);
+      expect(mockRepository.revoke).toHaveBeenCalledWith(KEY_ID, USER_ID);
+      expect(mockAudit.tryRecord).toHaveBeenCalledWith(expect.objectContaining({
+        type: AuditEventType.API_KEY_REVOKED,
+        subjectId: KEY_ID
+      }));
+    });
+
+    it('should return not found for keys of other users', async () => {
+      mockRepository.revoke.mockResolvedValueOnce(false);
+
+      const result = await service.revokeKey(USER_ID, KEY_ID);
+
+      expect(result.error?.code).toBe(ERROR_CODES.NOT_FOUND);
+      expect(mockAudit.tryRecord).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    const key = `${API_KEYS.PREFIX}secret`;
+
+    it('should resolve the key by its hash and record its use', async () => {
+      const result = await service.authenticate(key);
+
+      expect(result.success).toBe(true);
+      expect(result.data.owner.id).toBe(USER_ID);
+      expect(mockRepository.findByHash).toHaveBeenCalledWith(
+        createHash('sha256').update(key).digest('hex')
+      );
+      expect(mockRepository.recordUse).toHaveBeenCalledWith(KEY_ID, expect.any(Date));
+    });
+
+    it('should not record use again within the update interval', async () => {
+      mockRepository.findByHash.mockResolvedValueOnce(principal({ lastUsedAt: new Date() }));
+
+      await service.authenticate(key);
+
+      expect(mockRepository.recordUse).not.toHaveBeenCalled();
+    });
+
+    it('should reject values that are not API keys without a lookup', async () => {
+      const result = await service.authenticate('not-a-key');
+
+      expect(result.error?.code).toBe(ERROR_CODES.AUTH_ERROR);
+      expect(mockRepository.findByHash).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown, revoked and expired keys', async () => {
+      mockRepository.findByHash
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(principal({ revokedAt: new Date() }))
+        .mockResolvedValueOnce(principal({ expiresAt: new Date(Date.now() - 1000) }));
+
+      for (let i = 0; i < 3; i++) {
+        const result = await service.authenticate(key);
+        expect(result.error?.code).toBe(ERROR_CODES.AUTH_ERROR);
+      }
+      expect(mockRepository.recordUse).not.toHaveBeenCalled();
+    });
+
+    it('should reject keys of suspended owners', async () => {
+      mockRepository.findByHash.mockResolvedValueOnce(principal({}, UserStatus.SUSPENDED));
+
+      const result = await service.authenticate(key);
+
+      expect(result.error?.code).toBe(ERROR_CODES.AUTH_ERROR);
+    });
+  });
+});
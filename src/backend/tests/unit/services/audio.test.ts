@@ -2,9 +2,27 @@ import { jest } from '@jest/globals';
 import { AudioProcessor } from '../../../src/services/audio/audioProcessor.service';
 import { SpeechRecognitionService } from '../../../src/services/audio/speechRecognition.service';
 import { SpeechSynthesisService } from '../../../src/services/audio/speechSynthesis.service';
-import { AudioConfig } from '../../../src/types/audio.types';
+import {
+  FixtureRecognitionProvider,
+  hashAudio
+} from '../../../src/services/audio/fixtureRecognition.provider';
+import { LocalRecognitionProvider } from '../../../src/services/audio/localRecognition.provider';
+import { LocalSynthesisProvider } from '../../../src/services/audio/localSynthesis.provider';
+import { ToneSynthesisProvider } from '../../../src/services/audio/toneSynthesis.provider';
+import { AudioChunk, AudioConfig, AudioFormat } from '../../../src/types/audio.types';
 import { VoiceActivityDetector } from '../../../src/services/audio/voiceActivity.service';
 import { AUDIO_PROCESSING, VOICE_ACTIVITY } from '../../../src/constants/voice.constants';
+import { RecognitionResult } from '../../../src/interfaces/speechRecognition.interface';
+import {
+  SpeechSynthesisProvider,
+  SpeechSynthesisProviderType,
+  SynthesisChunk,
+  SynthesisRequest
+} from '../../../src/interfaces/speechSynthesis.interface';
+import { encodeFromPcm16 } from '../../../src/utils/codec.utils';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Mock WebAssembly for testing
 const mockWebAssembly = {
@@ -90,6 +108,48 @@ describe('AudioProcessor Tests', () => {
     
     expect(processingTime).toBeLessThan(testConfig.latencyBudget);
   });
+
+  test('should decode Opus chunks to PCM before processing', () => {
+    const pcm = Buffer.alloc(640).fill(64);
+    const opusChunk = {
+      data: new Uint8Array(encodeFromPcm16(pcm, AudioFormat.OPUS)),
+      timestamp: Date.now(),
+      format: AudioFormat.OPUS,
+      sequence: 1
+    };
+    const metadata = { sampleRate: 16000, channels: 1, encoding: 'OPUS', frameSize: 20 };
+
+    const result = audioProcessor.decodeChunk(opusChunk, metadata, 'stream-1');
+    expect(result.success).toBe(true);
+    expect(result.data.format).toBe(AudioFormat.PCM);
+    expect(result.data.data.length).toBe(pcm.length);
+    expect(result.data.sequence).toBe(1);
+    audioProcessor.releaseStream('stream-1');
+  });
+
+  test('should pass PCM chunks through the decoder unchanged', () => {
+    const pcmChunk = {
+      data: new Uint8Array(320),
+      timestamp: Date.now(),
+      format: AudioFormat.PCM,
+      sequence: 1
+    };
+
+    const result = audioProcessor.decodeChunk(pcmChunk);
+    expect(result.data).toBe(pcmChunk);
+  });
+
+  test('should reject undecodable Opus chunks', () => {
+    const result = audioProcessor.decodeChunk({
+      data: new Uint8Array([0, 9, 1]),
+      timestamp: Date.now(),
+      format: AudioFormat.OPUS,
+      sequence: 1
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('AUDIO_DECODING_ERROR');
+  });
 });
 
 describe('SpeechRecognitionService Tests', () => {
@@ -231,4 +291,271 @@ describe('SpeechSynthesisService Tests', () => {
       .rejects
       .toThrow('Invalid SSML: Missing speak tags');
   });
-});
\ No newline at end of file
+});
+
+describe('FixtureRecognitionProvider Tests', () => {
+  const utterance = new Uint8Array(640).fill(7);
+  const streamOptions = { languageCode: 'en-US', sampleRate: 16000 };
+
+  test('should emit the fixture transcript for a matching chunk', async () => {
+    const provider = new FixtureRecognitionProvider({ [hashAudio(utterance)]: 'book a table' });
+    const results: RecognitionResult[] = [];
+    const stream = provider.createStream(streamOptions, {
+      onResult: (result) => results.push(result),
+      onError: jest.fn(),
+      onEnd: jest.fn()
+    });
+
+    await stream.write(new Uint8Array(640));
+    await stream.write(utterance);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toEqual(expect.objectContaining({
+      transcript: 'book a table',
+      isFinal: true,
+      confidence: 1
+    }));
+  });
+
+  test('should match audio accumulated across chunks since the last result', async () => {
+    const provider = new FixtureRecognitionProvider({ [hashAudio(utterance)]: 'hello' });
+    const results: RecognitionResult[] = [];
+    const stream = provider.createStream(streamOptions, {
+      onResult: (result) => results.push(result),
+      onError: jest.fn(),
+      onEnd: jest.fn()
+    });
+
+    await stream.write(utterance.subarray(0, 320));
+    expect(results).toHaveLength(0);
+    await stream.write(utterance.subarray(320));
+
+    expect(results.map((result) => result.transcript)).toEqual(['hello']);
+  });
+
+  test('should drive the recognition service without cloud credentials', async () => {
+    const audioProcessor = {
+      processAudioChunk: jest.fn(async (chunk: AudioChunk) => ({
+        success: true,
+        data: chunk,
+        error: null,
+        metadata: {}
+      }))
+    } as unknown as jest.Mocked<AudioProcessor>;
+    const service = new SpeechRecognitionService(
+      audioProcessor,
+      new FixtureRecognitionProvider({ [hashAudio(utterance)]: 'hello' })
+    );
+    const results: RecognitionResult[] = [];
+    service.startRecognition('en-US').subscribe((result) => results.push(result));
+
+    const result = await service.processAudioChunk({
+      data: utterance,
+      timestamp: Date.now(),
+      format: AudioFormat.PCM,
+      sequence: 1
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata.provider).toBe('fixture');
+    expect(results.map((item) => item.transcript)).toEqual(['hello']);
+    await service.stopRecognition();
+  });
+});
+
+describe('LocalRecognitionProvider Tests', () => {
+  // Minimal recognizer speaking the Vosk line protocol
+  const scriptPath = join(mkdtempSync(join(tmpdir(), 'recognizer-')), 'recognizer.js');
+  writeFileSync(scriptPath, [
+    "process.stdin.on('data', () => console.log(JSON.stringify({ partial: 'hel' })));",
+    "process.stdin.on('end', () => console.log(JSON.stringify({",
+    "  text: 'hello ' + process.argv[2], result: [{ conf: 0.8 }, { conf: 1 }]",
+    '})));'
+  ].join('\n'));
+
+  test('should stream audio to the recognizer process and parse its results', async () => {
+    const provider = new LocalRecognitionProvider(`${process.execPath} ${scriptPath} {language}`);
+    const results: RecognitionResult[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const stream = provider.createStream(
+        { languageCode: 'de-DE', sampleRate: 16000 },
+        { onResult: (result) => results.push(result), onError: reject, onEnd: resolve }
+      );
+      void stream.write(new Uint8Array(640)).then(() => stream.end());
+    });
+
+    expect(results[0]).toEqual(expect.objectContaining({ transcript: 'hel', isFinal: false }));
+    expect(results[results.length - 1]).toEqual(expect.objectContaining({
+      transcript: 'hello de-DE',
+      isFinal: true,
+      confidence: 0.9
+    }));
+  });
+
+  test('should report a recognizer that exits with an error', async () => {
+    const provider = new LocalRecognitionProvider(`${process.execPath} -e process.exit(3)`);
+
+    const error = await new Promise<Error>((resolve) => {
+      provider.createStream(
+        { languageCode: 'en-US', sampleRate: 16000 },
+        { onResult: jest.fn(), onError: resolve, onEnd: jest.fn() }
+      );
+    });
+
+    expect(error.message).toContain('code 3');
+  });
+});
+
+describe('Speech synthesis provider Tests', () => {
+  const options = {
+    voiceId: 'tone-high',
+    rate: 1.0,
+    pitch: 0,
+    volume: 100,
+    languageCode: 'en-US',
+    ssmlEnabled: false,
+    effectsProfile: []
+  };
+
+  test('should generate a tone lasting 300ms per word', async () => {
+    const pcm = await new ToneSynthesisProvider().synthesize({
+      text: 'one two three',
+      textType: 'text',
+      options,
+      sampleRate: 16000
+    });
+
+    expect(pcm.length).toBe(0.9 * 16000 * 2);
+    expect(pcm.readInt16LE(0)).toBe(0);
+  });
+
+  test('should aggregate voices and route synthesis by voice', async () => {
+    const failingProvider: SpeechSynthesisProvider = {
+      type: SpeechSynthesisProviderType.POLLY,
+      listVoices: jest.fn(async () => {
+        throw new Error('no network');
+      }),
+      synthesize: jest.fn(async () => Buffer.from('polly'))
+    };
+    const service = new SpeechSynthesisService([
+      failingProvider,
+      new ToneSynthesisProvider()
+    ]);
+
+    const voices = await service.getAvailableVoices();
+    expect(voices.map((voice) => voice.voiceId)).toEqual(['tone-low', 'tone-high']);
+    expect(voices.every((voice) => voice.provider === 'tone')).toBe(true);
+
+    const tone = await service.synthesizeSpeech('hello', options);
+    expect(tone.length).toBe(0.3 * 16000 * 2);
+
+    const fallback = await service.synthesizeSpeech('hello', { ...options, voiceId: 'Joanna' });
+    expect(fallback.toString()).toBe('polly');
+  });
+
+  test('should stream the first sentence and prefetch the next one', async () => {
+    const requested: string[] = [];
+    const streamingProvider: SpeechSynthesisProvider = {
+      type: SpeechSynthesisProviderType.POLLY,
+      listVoices: jest.fn(async () => []),
+      synthesize: jest.fn(async (request: SynthesisRequest) => {
+        requested.push(request.text);
+        return Buffer.from(request.text);
+      }),
+      synthesizeStream: jest.fn(async function* (request: SynthesisRequest) {
+        requested.push(request.text);
+        // An odd-sized chunk must not split a sample
+        yield Buffer.alloc(3);
+        yield Buffer.alloc(5);
+      })
+    };
+    const service = new SpeechSynthesisService([streamingProvider]);
+    const text = 'This is the first sentence. Here comes the second one. And this is the third.';
+
+    const stream = service.synthesizeSpeechStream(text, options);
+    const first = await stream.next();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect((first.value as SynthesisChunk).audio).toHaveLength(2);
+    expect(requested).toHaveLength(2);
+    expect(requested).toEqual(expect.arrayContaining([
+      'This is the first sentence.',
+      'Here comes the second one.'
+    ]));
+
+    const rest: Buffer[] = [];
+    for await (const chunk of stream) {
+      rest.push(chunk.audio);
+    }
+
+    // Estimated marks of the streamed sentence follow its audio in an empty chunk
+    expect(rest.map((chunk) => chunk.length)).toEqual([6, 0, 26, 22]);
+    expect(streamingProvider.synthesize).toHaveBeenCalledTimes(2);
+  });
+
+  test('should place speech marks on the reply timeline', async () => {
+    const service = new SpeechSynthesisService([new ToneSynthesisProvider()]);
+    const text = 'Hello there, my friend. How are you doing today?';
+
+    const chunks: SynthesisChunk[] = [];
+    for await (const chunk of service.synthesizeSpeechStream(text, options)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].marks.slice(0, 3)).toEqual([
+      { type: 'sentence', time: 0, start: 0, end: 23, value: 'Hello there, my friend.' },
+      { type: 'word', time: 0, start: 0, end: 5, value: 'Hello' },
+      { type: 'word', time: 300, start: 6, end: 12, value: 'there,' }
+    ]);
+    expect(chunks[1].marks.slice(0, 2)).toEqual([
+      { type: 'sentence', time: 1200, start: 24, end: 48, value: 'How are you doing today?' },
+      { type: 'word', time: 1200, start: 24, end: 27, value: 'How' }
+    ]);
+  });
+
+  test('should end the stream once synthesis is cancelled', async () => {
+    const controller = new AbortController();
+    const service = new SpeechSynthesisService([new ToneSynthesisProvider()]);
+    const stream = service.synthesizeSpeechStream(
+      'One sentence that is long enough. Another sentence that is long enough.',
+      options,
+      controller.signal
+    );
+
+    const first = await stream.next();
+    controller.abort();
+
+    // Six words of 300ms at 16 samples per millisecond
+    expect((first.value as SynthesisChunk).audio.length).toBe(6 * 300 * 16 * 2);
+    expect(await stream.next()).toEqual({ value: undefined, done: true });
+  });
+
+  test('should resample raw output of a local synthesizer process', async () => {
+    // Writes 100 samples of silence per input character
+    const scriptPath = join(mkdtempSync(join(tmpdir(), 'synthesizer-')), 'synthesizer.js');
+    writeFileSync(scriptPath, [
+      "let text = '';",
+      "process.stdin.on('data', (data) => { text += data; });",
+      'process.stdin.on(\'end\', () => process.stdout.write(Buffer.alloc(text.length * 200)));'
+    ].join('\n'));
+
+    const provider = new LocalSynthesisProvider({
+      command: `${process.execPath} ${scriptPath} {voice}`,
+      sampleRate: 8000,
+      voices: ['en-us']
+    });
+
+    const pcm = await provider.synthesize({
+      text: 'hi',
+      textType: 'text',
+      options,
+      sampleRate: 16000
+    });
+    const voices = await provider.listVoices();
+
+    expect(pcm.length).toBe(800);
+    expect(voices[0]).toEqual(expect.objectContaining({ voiceId: 'en-us', language: 'en-US' }));
+  });
+});
@@ -0,0 +1,117 @@
+import { jest } from '@jest/globals';
+import { AuditService } from '../../../src/services/audit/audit.service';
+import {
+  AUDIT_GENESIS_HASH,
+  AuditRepository,
+  hashedContent
+} from '../../../src/db/repositories/audit.repository';
+import { AuditEvent, AuditEventType } from '../../../src/interfaces/audit.interface';
+import { chainHash } from '../../../src/utils/crypto.utils';
+import { ERROR_CODES } from '../../../src/constants/error.constants';
+import { UUID } from '../../../src/types/common.types';
+
+jest.mock('../../../src/config/database.config', () => ({ prisma: {} }));
+jest.mock('../../../src/utils/logger.utils');
+
+const ACTOR_ID = '123e4567-e89b-42d3-a456-426614174000' as UUID;
+
+/**
+ * Builds a chain of correctly linked login events
+ */
+const buildChain = (length: number): AuditEvent[] => {
+  const events: AuditEvent[] = [];
+  for (let sequence = 1; sequence <= length; sequence++) {
+    const previousHash = events[events.length - 1]?.hash ?? AUDIT_GENESIS_HASH;
+    const content = {
+      sequence,
+      type: AuditEventType.LOGIN_SUCCEEDED,
+      actorId: ACTOR_ID,
+      subjectType: 'user' as const,
+      subjectId: ACTOR_ID,
+      details: { role: 'user' },
+      createdAt: 1700000000000 + sequence
+    };
+    events.push({
+      ...content,
+      id: `event-${sequence}` as UUID,
+      previousHash,
+      hash: chainHash(previousHash, hashedContent(content))
+    });
+  }
+  return events;
+};
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let mockRepository: jest.Mocked<AuditRepository>;
+  let chain: AuditEvent[];
+
+  beforeEach(() => {
+    chain = buildChain(3);
+    mockRepository = {
+      append: jest.fn(async () => chain[0]),
+      findChain: jest.fn(async (from: number, limit: number) =>
+        chain.filter((event) => event.sequence >= from).slice(0, limit)
+      )
+    } as unknown as jest.Mocked<AuditRepository>;
+    service = new AuditService(mockRepository);
+  });
+
+  describe('record', () => {
+    it('should fail closed when the event cannot be written', async () => {
+      mockRepository.append.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(service.record({
+        type: AuditEventType.TOKEN_REFRESHED,
+        actorId: ACTOR_ID,
+        subjectType: 'user',
+        subjectId: ACTOR_ID,
+        details: {}
+      })).rejects.toMatchObject({ code: ERROR_CODES.SYSTEM_ERROR });
+    });
+  });
+
+  describe('tryRecord', () => {
+    it('should not throw when the event cannot be written', async () => {
+      mockRepository.append.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(service.tryRecord({
+        type: AuditEventType.LOGIN_FAILED,
+        actorId: null,
+        subjectType: 'user',
+        subjectId: 'user@example.com',
+        details: { reason: 'INVALID_PASSWORD' }
+      })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('verifyChain', () => {
+    it('should accept an untouched chain', async () => {
+      const result = await service.verifyChain();
+
+      expect(result.data).toEqual({ valid: true, checked: 3, brokenAt: null });
+    });
+
+    it('should detect an altered event', async () => {
+      chain[1] = { ...chain[1], details: { role: 'admin' } };
+
+      const result = await service.verifyChain();
+
+      expect(result.data).toEqual({ valid: false, checked: 1, brokenAt: 2 });
+    });
+
+    it('should detect a removed event', async () => {
+      chain.splice(1, 1);
+
+      const result = await service.verifyChain();
+
+      expect(result.data).toEqual({ valid: false, checked: 1, brokenAt: 2 });
+    });
+
+    it('should verify from a later event against its predecessor', async () => {
+      const result = await service.verifyChain(2);
+
+      expect(result.data).toEqual({ valid: true, checked: 2, brokenAt: null });
+    });
+  });
+});
@@ -10,11 +10,12 @@ import { UserRepository } from '../../../src/db/repositories/user.repository';
 import { jwtService } from '../../../src/services/auth/jwt.service';
 import { ERROR_CODES } from '../../../src/constants/error.constants';
 import { IAuthCredentials, IAuthResult, ITokenPayload } from '../../../src/interfaces/auth.interface';
-import { Result } from '../../../src/types/common.types';
+import { Result, UUID } from '../../../src/types/common.types';
 
 // Mock dependencies
 jest.mock('../../../src/services/auth/jwt.service');
 jest.mock('../../../src/db/repositories/user.repository');
+jest.mock('../../../src/services/audit/audit.service');
 
 // Test data
 const mockUser = {
@@ -53,6 +54,7 @@ describe('AuthService', () => {
 
     // Setup common mock implementations
     (jwtService.generateAuthTokens as jest.Mock).mockResolvedValue(mockTokens);
+    (jwtService.refreshTokens as jest.Mock).mockResolvedValue(mockTokens);
     (jwtService.verifyToken as jest.Mock).mockResolvedValue({
       userId: mockUser.id,
       email: mockUser.email,
@@ -186,7 +188,7 @@ describe('AuthService', () => {
         exp: Math.floor(Date.now() / 1000) + 900
       };
 
-      (jwtService.verifyToken as jest.Mock).mockResolvedValue(decodedToken);
+      (jwtService.verifyRefreshToken as jest.Mock).mockResolvedValue(decodedToken);
       userRepository.getUserById.mockResolvedValue({
         success: true,
         data: mockUser,
@@ -201,20 +203,35 @@ describe('AuthService', () => {
       expect(result.success).toBe(true);
       expect(result.data).toEqual(mockTokens);
 
-      // Verify token rotation
-      expect(authService['tokenBlacklist'].has(refreshToken)).toBe(true);
-      expect(jwtService.generateAuthTokens).toHaveBeenCalledWith(
+      // Verify rotation within the token family, not a new login
+      expect(jwtService.refreshTokens).toHaveBeenCalledWith(
+        refreshToken,
         expect.objectContaining({
           userId: mockUser.id,
           version: mockUser.tokenVersion
         })
       );
+      expect(jwtService.generateAuthTokens).not.toHaveBeenCalled();
     });
 
-    test('refresh failure - blacklisted token', async () => {
+    test('refresh failure - reused refresh token', async () => {
       // Setup
-      const refreshToken = 'blacklisted.token';
-      authService['tokenBlacklist'].add(refreshToken);
+      const refreshToken = 'rotated.refresh.token';
+      (jwtService.verifyRefreshToken as jest.Mock).mockResolvedValue({
+        userId: mockUser.id,
+        email: mockUser.email,
+        role: mockUser.role,
+        version: mockUser.tokenVersion
+      });
+      (jwtService.refreshTokens as jest.Mock).mockRejectedValue(
+        new Error('Refresh token has been revoked')
+      );
+      userRepository.getUserById.mockResolvedValue({
+        success: true,
+        data: mockUser,
+        error: null,
+        metadata: {}
+      });
 
       // Execute
       const result = await authService.refreshToken(refreshToken, mockContext);
@@ -222,7 +239,6 @@ describe('AuthService', () => {
       // Assert
       expect(result.success).toBe(false);
       expect(result.error?.code).toBe(ERROR_CODES.AUTH_ERROR);
-      expect(result.error?.message).toContain('Invalid refresh token');
     });
 
     test('refresh failure - token version mismatch', async () => {
@@ -235,7 +251,7 @@ describe('AuthService', () => {
         exp: Math.floor(Date.now() / 1000) + 900
       };
 
-      (jwtService.verifyToken as jest.Mock).mockResolvedValue(decodedToken);
+      (jwtService.verifyRefreshToken as jest.Mock).mockResolvedValue(decodedToken);
       userRepository.getUserById.mockResolvedValue({
         success: true,
         data: mockUser,
@@ -250,6 +266,46 @@ describe('AuthService', () => {
       expect(result.success).toBe(false);
       expect(result.error?.code).toBe(ERROR_CODES.AUTH_ERROR);
       expect(result.error?.message).toContain('Token is no longer valid');
+      expect(jwtService.refreshTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    test('revokes the access and refresh tokens of the device', async () => {
+      // Execute
+      const result = await authService.logout(
+        mockTokens.accessToken,
+        mockTokens.refreshToken,
+        mockContext
+      );
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(jwtService.invalidateToken).toHaveBeenCalledWith(mockTokens.accessToken);
+      expect(jwtService.invalidateToken).toHaveBeenCalledWith(mockTokens.refreshToken);
+    });
+
+    test('logout failure - no token to revoke', async () => {
+      // Execute
+      const result = await authService.logout(null, null, mockContext);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+      expect(jwtService.invalidateToken).not.toHaveBeenCalled();
+    });
+
+    test('revokes every login of the user', async () => {
+      // Setup
+      (jwtService.invalidateUserTokens as jest.Mock).mockResolvedValue(3);
+
+      // Execute
+      const result = await authService.logoutAllDevices(mockUser.id as UUID, mockContext);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ revokedSessions: 3 });
+      expect(jwtService.invalidateUserTokens).toHaveBeenCalledWith(mockUser.id);
     });
   });
 
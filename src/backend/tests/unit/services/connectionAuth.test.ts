@@ -0,0 +1,131 @@
+import { jest } from '@jest/globals';
+import { IncomingMessage } from 'http';
+import { ConnectionAuthService } from '../../../src/services/websocket/connectionAuth.service';
+import { JWTService } from '../../../src/services/auth/jwt.service';
+import { ITokenPayload } from '../../../src/interfaces/auth.interface';
+import { ERROR_CODES } from '../../../src/constants/error.constants';
+import { UUID } from '../../../src/types/common.types';
+
+jest.mock('../../../src/services/auth/jwt.service', () => ({
+  JWTService: class {},
+  jwtService: {}
+}));
+
+const buildRequest = (
+  headers: Record<string, string> = {},
+  url: string = '/voice?conversationId=conversation-123'
+): IncomingMessage => ({ headers, url } as unknown as IncomingMessage);
+
+const payloadFor = (token: string): ITokenPayload => ({
+  userId: (token === 'other-token' ? 'user-456' : 'user-123') as UUID,
+  email: 'user@example.com',
+  role: 'user',
+  sessionId: token === 'session-token' ? 'session-123' as UUID : undefined,
+  iat: 1_700_000_000,
+  exp: 1_700_000_900,
+  version: '1'
+});
+
+describe('ConnectionAuthService', () => {
+  let service: ConnectionAuthService;
+  let mockTokens: jest.Mocked<JWTService>;
+
+  beforeEach(() => {
+    mockTokens = {
+      verifyToken: jest.fn(async (token: string) => {
+        if (token === 'revoked-token') {
+          throw new Error('Token has been revoked');
+        }
+        return payloadFor(token);
+      }),
+      redeemConnectionTicket: jest.fn((ticket: string) =>
+        ticket === 'valid-ticket' ? 'ticket-token' : null
+      )
+    } as unknown as jest.Mocked<JWTService>;
+    service = new ConnectionAuthService(mockTokens);
+  });
+
+  describe('authenticate', () => {
+    it('should accept a bearer token from the Authorization header', async () => {
+      const context = await service.authenticate(
+        buildRequest({ authorization: 'Bearer session-token' })
+      );
+
+      expect(mockTokens.verifyToken).toHaveBeenCalledWith('session-token');
+      expect(context).toEqual({
+        userId: 'user-123',
+        sessionId: 'session-123',
+        role: 'user',
+        organizationId: null,
+        expiresAt: 1_700_000_900_000
+      });
+    });
+
+    it('should accept a token offered as a bearer subprotocol', async () => {
+      const context = await service.authenticate(
+        buildRequest({ 'sec-websocket-protocol': 'voice.v1, bearer.protocol-token' })
+      );
+
+      expect(mockTokens.verifyToken).toHaveBeenCalledWith('protocol-token');
+      expect(context.sessionId).toBeNull();
+    });
+
+    it('should redeem a ticket from the query string', async () => {
+      await service.authenticate(buildRequest({}, '/voice?ticket=valid-ticket'));
+
+      expect(mockTokens.redeemConnectionTicket).toHaveBeenCalledWith('valid-ticket');
+      expect(mockTokens.verifyToken).toHaveBeenCalledWith('ticket-token');
+    });
+
+    it('should reject requests without credentials or with an unknown ticket', async () => {
+      await expect(service.authenticate(buildRequest())).rejects.toMatchObject({
+        code: ERROR_CODES.AUTH_ERROR
+      });
+      await expect(
+        service.authenticate(buildRequest({}, '/voice?ticket=expired-ticket'))
+      ).rejects.toMatchObject({ code: ERROR_CODES.AUTH_ERROR });
+      expect(mockTokens.verifyToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject revoked tokens', async () => {
+      await expect(
+        service.authenticate(buildRequest({ authorization: 'Bearer revoked-token' }))
+      ).rejects.toThrow('Token has been revoked');
+    });
+  });
+
+  describe('refresh', () => {
+    it('should extend the connection with a token of the same user', async () => {
+      const context = await service.authenticate(
+        buildRequest({ authorization: 'Bearer session-token' })
+      );
+
+      await expect(service.refresh(context, 'fresh-token')).resolves.toMatchObject({
+        userId: 'user-123'
+      });
+    });
+
+    it('should reject a token of another user', async () => {
+      const context = await service.authenticate(
+        buildRequest({ authorization: 'Bearer session-token' })
+      );
+
+      await expect(service.refresh(context, 'other-token')).rejects.toMatchObject({
+        code: ERROR_CODES.AUTH_ERROR
+      });
+    });
+  });
+
+  describe('selectProtocol', () => {
+    it('should accept the application protocol and never echo the credential', () => {
+      expect(service.selectProtocol(new Set(['bearer.secret', 'voice.v1']))).toBe('voice.v1');
+      expect(service.selectProtocol(new Set(['bearer.secret']))).toBe(false);
+    });
+
+    it('should prefer binary audio framing when offered', () => {
+      const offered = new Set(['bearer.secret', 'v1.audio-stream', 'v1.audio-binary']);
+
+      expect(service.selectProtocol(offered)).toBe('v1.audio-binary');
+    });
+  });
+});
@@ -0,0 +1,304 @@
+import { jest } from '@jest/globals';
+import { DialogService } from '../../../src/services/dialog/dialog.service';
+import { RuleDialogEngine } from '../../../src/services/dialog/ruleDialog.engine';
+import { OpenAIDialogEngine } from '../../../src/services/dialog/openAIDialog.engine';
+import { MessageService } from '../../../src/services/conversation/message.service';
+import { MessageRepository } from '../../../src/db/repositories/message.repository';
+import { ConversationRepository } from '../../../src/db/repositories/conversation.repository';
+import { DialogEngineType } from '../../../src/interfaces/dialog.interface';
+import { Message, MessageRole } from '../../../src/interfaces/message.interface';
+import { SpeechMarkType } from '../../../src/interfaces/voice.interface';
+import { ERROR_CODES } from '../../../src/constants/error.constants';
+import { Timestamp, UUID } from '../../../src/types/common.types';
+
+const mockConversationId = 'test-conversation-123' as UUID;
+const mockUserId = 'test-user-123';
+const mockOrganizationId = 'test-org-123';
+
+const buildMessage = (id: string, role: MessageRole, content: string): Message => ({
+  id: id as UUID,
+  conversationId: mockConversationId,
+  role,
+  content,
+  audioRecordingId: null,
+  metadata: {
+    duration: 0,
+    wordCount: content.split(' ').length,
+    processingTime: 0,
+    audioFormat: null,
+    transcriptionConfidence: null
+  },
+  createdAt: Date.now() as Timestamp
+});
+
+describe('RuleDialogEngine', () => {
+  const engine = new RuleDialogEngine();
+
+  it('should answer greetings with the matching rule', async () => {
+    const result = await engine.generateReply({
+      conversationId: mockConversationId,
+      history: [buildMessage('m1', MessageRole.USER, 'Hello there')],
+      languageCode: 'en-US'
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.content).toBe('Hello! How can I help you today?');
+    expect(result.data.engine).toBe(DialogEngineType.RULE);
+  });
+
+  it('should echo the latest user message when no rule matches', async () => {
+    const result = await engine.generateReply({
+      conversationId: mockConversationId,
+      history: [
+        buildMessage('m1', MessageRole.USER, 'What is the weather'),
+        buildMessage('m2', MessageRole.AI, 'You said: What is the weather'),
+        buildMessage('m3', MessageRole.USER, 'Book a table for two')
+      ],
+      languageCode: 'en-US'
+    });
+
+    expect(result.data.content).toBe('You said: Book a table for two');
+  });
+
+  it('should fail without a user message in the history', async () => {
+    const result = await engine.generateReply({
+      conversationId: mockConversationId,
+      history: [],
+      languageCode: 'en-US'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ERROR_CODES.DIALOG_ERROR);
+  });
+});
+
+describe('OpenAIDialogEngine', () => {
+  const config = {
+    apiBaseUrl: 'https://llm.example.com/v1/',
+    apiKey: 'test-key',
+    model: 'test-model',
+    temperature: 0.2,
+    maxTokens: 64,
+    systemPrompt: 'Be brief.',
+    requestTimeout: 1000
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send the history in chat completions format', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(
+      JSON.stringify({
+        choices: [{ message: { content: ' Sure thing. ' }, finish_reason: 'stop' }]
+      }),
+      { status: 200 }
+    ));
+
+    const engine = new OpenAIDialogEngine(config);
+    const result = await engine.generateReply({
+      conversationId: mockConversationId,
+      history: [
+        buildMessage('m1', MessageRole.USER, 'Hi'),
+        buildMessage('m2', MessageRole.AI, 'Hello!'),
+        buildMessage('m3', MessageRole.USER, 'Help me')
+      ],
+      languageCode: 'en-GB'
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.content).toBe('Sure thing.');
+    expect(result.data.finishReason).toBe('stop');
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+    expect(url).toBe('https://llm.example.com/v1/chat/completions');
+    expect(body.model).toBe('test-model');
+    expect(body.messages.map((m: { role: string }) => m.role))
+      .toEqual(['system', 'user', 'assistant', 'user']);
+    expect(body.messages[0].content).toContain('en-GB');
+  });
+
+  it('should return a dialog error on non-2xx responses', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response('{}', { status: 429 }));
+
+    const engine = new OpenAIDialogEngine(config);
+    const result = await engine.generateReply({
+      conversationId: mockConversationId,
+      history: [buildMessage('m1', MessageRole.USER, 'Hi')],
+      languageCode: 'en-US'
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ERROR_CODES.DIALOG_ERROR);
+  });
+});
+
+describe('DialogService', () => {
+  let dialogService: DialogService;
+  let mockMessageService: jest.Mocked<MessageService>;
+  let mockMessageRepository: jest.Mocked<MessageRepository>;
+  let mockConversationRepository: jest.Mocked<ConversationRepository>;
+
+  beforeEach(() => {
+    mockMessageService = {
+      createMessage: jest.fn(),
+      updateMessage: jest.fn()
+    } as unknown as jest.Mocked<MessageService>;
+
+    mockMessageRepository = {
+      findByConversationId: jest.fn()
+    } as unknown as jest.Mocked<MessageRepository>;
+
+    mockConversationRepository = {
+      findContext: jest.fn(),
+      update: jest.fn()
+    } as unknown as jest.Mocked<ConversationRepository>;
+
+    mockConversationRepository.findContext.mockResolvedValue({
+      success: true,
+      data: { turnCount: 2, lastMessageId: 'm0', state: {} }
+    });
+    mockConversationRepository.update.mockResolvedValue({ success: true });
+
+    mockMessageService.createMessage.mockImplementation(async (params) => ({
+      success: true,
+      data: buildMessage(params.role === MessageRole.USER ? 'user-msg' : 'ai-msg',
+        params.role, params.content),
+      error: null,
+      metadata: {}
+    }));
+
+    mockMessageRepository.findByConversationId.mockResolvedValue({
+      success: true,
+      data: [
+        buildMessage('user-msg', MessageRole.USER, 'hello agent'),
+        buildMessage('m0', MessageRole.AI, 'Earlier reply')
+      ],
+      error: null,
+      metadata: {}
+    });
+
+    dialogService = new DialogService(
+      new RuleDialogEngine(),
+      mockMessageService,
+      mockMessageRepository,
+      mockConversationRepository,
+      10
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should persist the user and AI messages and advance the turn count', async () => {
+    const result = await dialogService.handleUserTurn({
+      conversationId: mockConversationId,
+      userId: mockUserId,
+      organizationId: mockOrganizationId,
+      transcript: 'hello agent',
+      confidence: 0.93,
+      speechDuration: 1200
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.aiMessage.content).toBe('Hello! How can I help you today?');
+    expect(result.data.context.turnCount).toBe(3);
+    expect(result.data.context.lastMessageId).toBe('ai-msg');
+    expect(result.data.context.lastUserSpeechDuration).toBe(1200);
+    expect(mockMessageRepository.findByConversationId).toHaveBeenCalledWith(
+      mockConversationId,
+      { limit: 10, sortDesc: true }
+    );
+    expect(mockConversationRepository.update).toHaveBeenCalledWith(
+      mockConversationId,
+      { context: expect.objectContaining({ turnCount: 3 }) },
+      mockUserId,
+      mockOrganizationId
+    );
+  });
+
+  it('should reject empty transcripts without calling the engine', async () => {
+    const result = await dialogService.handleUserTurn({
+      conversationId: mockConversationId,
+      userId: mockUserId,
+      organizationId: null,
+      transcript: '   ',
+      confidence: null,
+      speechDuration: 0
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+    expect(mockMessageService.createMessage).not.toHaveBeenCalled();
+  });
+
+  it('should return not found for conversations the user cannot access', async () => {
+    mockConversationRepository.findContext.mockResolvedValue({
+      success: false,
+      error: new Error('Conversation not found or access denied')
+    });
+
+    const result = await dialogService.handleUserTurn({
+      conversationId: mockConversationId,
+      userId: 'other-user',
+      organizationId: null,
+      transcript: 'hello',
+      confidence: 0.8,
+      speechDuration: 500
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ERROR_CODES.NOT_FOUND);
+  });
+
+  it('should record the heard portion of an interrupted AI message', async () => {
+    const aiMessage = buildMessage('ai-msg', MessageRole.AI, 'one two three four five six');
+    mockMessageService.updateMessage.mockImplementation(async (_id, updates) => ({
+      success: true,
+      data: { ...aiMessage, ...updates } as Message,
+      error: null,
+      metadata: {}
+    }));
+
+    const result = await dialogService.recordInterruption(aiMessage, 1000, 2000);
+
+    expect(result.success).toBe(true);
+    expect(mockMessageService.updateMessage).toHaveBeenCalledWith('ai-msg', {
+      metadata: expect.objectContaining({
+        wordCount: 6,
+        interruption: expect.objectContaining({
+          heardContent: 'one two three',
+          playedDuration: 1000,
+          totalDuration: 2000
+        })
+      })
+    });
+  });
+
+  it('should cut the heard portion at the last word mark reached by playback', async () => {
+    const aiMessage = buildMessage('ai-msg', MessageRole.AI, 'Sure, see you at noon.');
+    const speechMarks = [
+      { type: SpeechMarkType.WORD, time: 0, start: 0, end: 4, value: 'Sure' },
+      { type: SpeechMarkType.WORD, time: 400, start: 6, end: 9, value: 'see' },
+      { type: SpeechMarkType.WORD, time: 650, start: 10, end: 13, value: 'you' },
+      { type: SpeechMarkType.WORD, time: 900, start: 14, end: 16, value: 'at' }
+    ];
+    mockMessageService.updateMessage.mockImplementation(async (_id, updates) => ({
+      success: true,
+      data: { ...aiMessage, ...updates } as Message,
+      error: null,
+      metadata: {}
+    }));
+
+    await dialogService.recordInterruption(aiMessage, 700, 1500, speechMarks);
+
+    expect(mockMessageService.updateMessage).toHaveBeenCalledWith('ai-msg', {
+      metadata: expect.objectContaining({
+        speechMarks,
+        interruption: expect.objectContaining({ heardContent: 'Sure, see you' })
+      })
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { jest } from '@jest/globals';
+import Redis from 'ioredis';
+import { JobRunner } from '../../../src/services/jobs/jobRunner.service';
+import { JobOutcome } from '../../../src/interfaces/job.interface';
+
+describe('JobRunner', () => {
+  let runner: JobRunner;
+  let mockRedis: jest.Mocked<Redis>;
+  let run: jest.Mock<() => Promise<void>>;
+
+  beforeEach(() => {
+    mockRedis = {
+      set: jest.fn(async () => 'OK'),
+      eval: jest.fn(async () => 1)
+    } as unknown as jest.Mocked<Redis>;
+    run = jest.fn(async () => undefined);
+
+    runner = new JobRunner(mockRedis);
+    runner.register({ name: 'cleanup', interval: 60000, lockTtl: 30000, run });
+  });
+
+  it('should run the job while holding its lock', async () => {
+    const outcome = await runner.runOnce('cleanup');
+
+    expect(outcome).toBe(JobOutcome.SUCCEEDED);
+    expect(mockRedis.set).toHaveBeenCalledWith(
+      'lock:cleanup',
+      expect.any(String),
+      'PX',
+      30000,
+      'NX'
+    );
+    const token = mockRedis.set.mock.calls[0][1];
+    expect(mockRedis.eval).toHaveBeenCalledWith(expect.any(String), 1, 'lock:cleanup', token);
+  });
+
+  it('should extend its lock while a run outlasts the lock TTL', async () => {
+    jest.useFakeTimers();
+    let finish: () => void = () => undefined;
+    run.mockImplementationOnce(() => new Promise<void>((resolve) => { finish = resolve; }));
+
+    const pending = runner.runOnce('cleanup');
+    await jest.advanceTimersByTimeAsync(45000);
+    finish();
+    await pending;
+    jest.useRealTimers();
+
+    const token = mockRedis.set.mock.calls[0][1];
+    const extensions = mockRedis.eval.mock.calls.filter((call) => call.length === 5);
+    expect(extensions).toHaveLength(4);
+    expect(extensions[0]).toEqual([expect.any(String), 1, 'lock:cleanup', token, 30000]);
+    // Renewals stop with the run
+    expect(mockRedis.eval).toHaveBeenCalledTimes(5);
+  });
+
+  it('should skip the run when another instance holds the lock', async () => {
+    mockRedis.set.mockResolvedValueOnce(null);
+
+    const outcome = await runner.runOnce('cleanup');
+
+    expect(outcome).toBe(JobOutcome.SKIPPED);
+    expect(run).not.toHaveBeenCalled();
+    expect(mockRedis.eval).not.toHaveBeenCalled();
+  });
+
+  it('should release the lock when the job fails', async () => {
+    run.mockRejectedValueOnce(new Error('database unavailable'));
+
+    const outcome = await runner.runOnce('cleanup');
+
+    expect(outcome).toBe(JobOutcome.FAILED);
+    expect(mockRedis.eval).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not overlap runs of the same job', async () => {
+    const [first, second] = await Promise.all([
+      runner.runOnce('cleanup'),
+      runner.runOnce('cleanup')
+    ]);
+
+    expect(first).toBe(JobOutcome.SUCCEEDED);
+    expect(second).toBe(JobOutcome.SKIPPED);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject jobs registered twice', () => {
+    expect(() => runner.register({ name: 'cleanup', interval: 1, lockTtl: 1, run }))
+      .toThrow('already registered');
+  });
+});
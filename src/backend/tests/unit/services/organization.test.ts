@@ -0,0 +1,223 @@
+import { jest } from '@jest/globals';
+import { PrismaClientKnownRequestError } from '@prisma/client';
+import { OrganizationService } from '../../../src/services/organization/organization.service';
+import { OrganizationRepository } from '../../../src/db/repositories/organization.repository';
+import { AuditService } from '../../../src/services/audit/audit.service';
+import {
+  Organization,
+  OrganizationCreateParams,
+  OrganizationRole,
+  OrganizationSettings
+} from '../../../src/interfaces/organization.interface';
+import { AuditEventType } from '../../../src/interfaces/audit.interface';
+import { ERROR_CODES } from '../../../src/constants/error.constants';
+import { UUID } from '../../../src/types/common.types';
+
+jest.mock('../../../src/services/audit/audit.service', () => ({
+  AuditService: class {},
+  auditService: {}
+}));
+jest.mock('../../../src/db/repositories/organization.repository', () => ({
+  OrganizationRepository: class {},
+  DEFAULT_ORGANIZATION_SETTINGS: {
+    voiceDefaults: {},
+    allowedLanguages: [],
+    retention: null,
+    quotas: {}
+  }
+}));
+
+const ACTOR_ID = '123e4567-e89b-42d3-a456-426614174000' as UUID;
+const ORG_ID = '223e4567-e89b-42d3-a456-426614174000' as UUID;
+const USER_ID = '323e4567-e89b-42d3-a456-426614174000' as UUID;
+
+const settings: OrganizationSettings = {
+  voiceDefaults: { voiceId: 'neural-2', rate: 1.2 },
+  allowedLanguages: ['de-DE', 'en-GB'],
+  retention: null,
+  quotas: { rateLimitMultiplier: 2, maxMembers: 2 }
+};
+
+const organization: Organization = {
+  id: ORG_ID,
+  name: 'Acme',
+  slug: 'acme',
+  settings,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z')
+};
+
+describe('OrganizationService', () => {
+  let service: OrganizationService;
+  let mockRepository: jest.Mocked<OrganizationRepository>;
+  let mockAudit: jest.Mocked<AuditService>;
+
+  beforeEach(() => {
+    mockRepository = {
+      create: jest.fn(async (params: OrganizationCreateParams) => ({
+        ...organization,
+        name: params.name,
+        slug: params.slug
+      })),
+      findById: jest.fn(async () => organization),
+      updateSettings: jest.fn(async (_id: string, updated: OrganizationSettings) => ({
+        ...organization,
+        settings: updated
+      })),
+      countMembers: jest.fn(async () => 1),
+      addMember: jest.fn(async (_id: string, userId: UUID, role: OrganizationRole) => ({
+        userId,
+        email: 'member@example.com',
+        role
+      })),
+      removeMember: jest.fn(async () => true)
+    } as unknown as jest.Mocked<OrganizationRepository>;
+    mockAudit = {
+      tryRecord: jest.fn(async () => undefined)
+    } as unknown as jest.Mocked<AuditService>;
+
+    service = new OrganizationService(mockRepository, mockAudit);
+  });
+
+  describe('createOrganization', () => {
+    it('should create the organization and audit it under the actor', async () => {
+      const result = await service.createOrganization(ACTOR_ID, { name: 'Acme', slug: 'acme' });
+
+      expect(result.success).toBe(true);
+      expect(mockAudit.tryRecord).toHaveBeenCalledWith(expect.objectContaining({
+        type: AuditEventType.ORGANIZATION_CREATED,
+        actorId: ACTOR_ID,
+        subjectId: ORG_ID,
+        details: { slug: 'acme' }
+      }));
+    });
+
+    it('should reject a slug that is already taken', async () => {
+      mockRepository.create.mockRejectedValueOnce(new PrismaClientKnownRequestError(
+        'Unique constraint failed',
+        { code: 'P2002', clientVersion: '5.0.0' }
+      ));
+
+      const result = await service.createOrganization(ACTOR_ID, { name: 'Acme', slug: 'acme' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+    });
+  });
+
+  describe('updateSettings', () => {
+    it('should replace only the given fields and serve the update immediately', async () => {
+      await service.getSettings(ORG_ID);
+
+      const result = await service.updateSettings(ACTOR_ID, ORG_ID, { allowedLanguages: [] });
+
+      expect(result.success).toBe(true);
+      expect(mockRepository.updateSettings).toHaveBeenCalledWith(ORG_ID, {
+        ...settings,
+        allowedLanguages: []
+      });
+      expect(mockAudit.tryRecord).toHaveBeenCalledWith(expect.objectContaining({
+        type: AuditEventType.ORGANIZATION_SETTINGS_UPDATED,
+        details: { fields: ['allowedLanguages'] }
+      }));
+
+      mockRepository.findById.mockResolvedValueOnce({
+        ...organization,
+        settings: { ...settings, allowedLanguages: [] }
+      });
+      const cached = await service.getSettings(ORG_ID);
+      expect(cached.data.allowedLanguages).toEqual([]);
+    });
+
+    it('should return not found for unknown organizations', async () => {
+      mockRepository.findById.mockResolvedValueOnce(null);
+
+      const result = await service.updateSettings(ACTOR_ID, ORG_ID, { quotas: {} });
+
+      expect(result.error?.code).toBe(ERROR_CODES.NOT_FOUND);
+      expect(mockRepository.updateSettings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addMember', () => {
+    it('should add the user with the given role', async () => {
+      const result = await service.addMember(ACTOR_ID, ORG_ID, USER_ID, OrganizationRole.MEMBER);
+
+      expect(result.success).toBe(true);
+      expect(mockRepository.addMember).toHaveBeenCalledWith(
+        ORG_ID,
+        USER_ID,
+        OrganizationRole.MEMBER
+      );
+      expect(mockAudit.tryRecord).toHaveBeenCalledWith(expect.objectContaining({
+        type: AuditEventType.ORGANIZATION_MEMBER_ADDED,
+        details: { userId: USER_ID, role: OrganizationRole.MEMBER }
+      }));
+    });
+
+    it('should enforce the member quota', async () => {
+      mockRepository.countMembers.mockResolvedValueOnce(2);
+
+      const result = await service.addMember(ACTOR_ID, ORG_ID, USER_ID, OrganizationRole.MEMBER);
+
+      expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+      expect(mockRepository.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should reject users that already belong to an organization', async () => {
+      mockRepository.addMember.mockResolvedValueOnce(null);
+
+      const result = await service.addMember(ACTOR_ID, ORG_ID, USER_ID, OrganizationRole.ADMIN);
+
+      expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+      expect(mockAudit.tryRecord).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSettings', () => {
+    it('should return the defaults for users without an organization', async () => {
+      const result = await service.getSettings(null);
+
+      expect(result.data.allowedLanguages).toEqual([]);
+      expect(mockRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should cache settings per organization', async () => {
+      await service.getSettings(ORG_ID);
+      await service.getSettings(ORG_ID);
+
+      expect(mockRepository.findById).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('resolveVoiceOptions', () => {
+    it('should fill unset options from the organization defaults', async () => {
+      const result = await service.resolveVoiceOptions(ORG_ID, {
+        voiceId: undefined,
+        rate: 0.8,
+        languageCode: 'en-GB'
+      });
+
+      expect(result.data).toEqual({ voiceId: 'neural-2', rate: 0.8, languageCode: 'en-GB' });
+    });
+
+    it('should default to the first allowed language', async () => {
+      const result = await service.resolveVoiceOptions(ORG_ID, {});
+
+      expect(result.data.languageCode).toBe('de-DE');
+    });
+
+    it('should reject languages the organization does not allow', async () => {
+      const result = await service.resolveVoiceOptions(ORG_ID, { languageCode: 'fr-FR' });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+    });
+
+    it('should allow every language for users without an organization', async () => {
+      const result = await service.resolveVoiceOptions(null, { languageCode: 'fr-FR' });
+
+      expect(result.data).toEqual({ languageCode: 'fr-FR' });
+    });
+  });
+});
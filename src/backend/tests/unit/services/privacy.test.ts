@@ -0,0 +1,225 @@
+import { jest } from '@jest/globals';
+import Redis from 'ioredis';
+import { PrivacyService } from '../../../src/services/privacy/privacy.service';
+import { UserRepository } from '../../../src/db/repositories/user.repository';
+import { SessionRepository } from '../../../src/db/repositories/session.repository';
+import { ConversationRepository } from '../../../src/db/repositories/conversation.repository';
+import { MessageRepository } from '../../../src/db/repositories/message.repository';
+import { AudioStorageService } from '../../../src/services/storage/audioStorage.service';
+import { AuditService } from '../../../src/services/audit/audit.service';
+import { JWTService } from '../../../src/services/auth/jwt.service';
+import { AuditEventType } from '../../../src/interfaces/audit.interface';
+import { ExportRecord } from '../../../src/interfaces/privacy.interface';
+import { IUser, UserStatus } from '../../../src/interfaces/user.interface';
+import { OrganizationRole } from '../../../src/interfaces/organization.interface';
+import { ERROR_CODES } from '../../../src/constants/error.constants';
+import { Result, UUID } from '../../../src/types/common.types';
+import { createError } from '../../../src/utils/error.utils';
+
+jest.mock('../../../src/services/auth/jwt.service', () => ({
+  JWTService: class {},
+  jwtService: {}
+}));
+jest.mock('../../../src/services/audit/audit.service', () => ({
+  AuditService: class {},
+  auditService: {}
+}));
+
+const USER_ID = '123e4567-e89b-42d3-a456-426614174000' as UUID;
+const SESSION_ID = '223e4567-e89b-42d3-a456-426614174000' as UUID;
+const CONVERSATION_ID = '323e4567-e89b-42d3-a456-426614174000' as UUID;
+const ORGANIZATION_ID = '423e4567-e89b-42d3-a456-426614174000' as UUID;
+
+const MEMBER: IUser = {
+  id: USER_ID,
+  email: 'member@example.com',
+  status: UserStatus.ACTIVE,
+  preferences: { voiceId: 'neural-1', language: 'en-US', theme: 'system', notifications: true },
+  organizationId: ORGANIZATION_ID,
+  organizationRole: OrganizationRole.MEMBER,
+  createdAt: 1700000000000,
+  updatedAt: 1700000000000
+};
+
+const ok = <T>(data: T): Result<T> => ({ success: true, data, error: null, metadata: {} });
+const failed = <T>(code: ERROR_CODES): Result<T> => ({
+  success: false,
+  data: null as unknown as T,
+  error: createError(code),
+  metadata: {}
+});
+
+const collect = async (records: AsyncIterable<ExportRecord>): Promise<ExportRecord[]> => {
+  const collected: ExportRecord[] = [];
+  for await (const record of records) {
+    collected.push(record);
+  }
+  return collected;
+};
+
+describe('PrivacyService', () => {
+  let service: PrivacyService;
+  let mockUsers: jest.Mocked<UserRepository>;
+  let mockSessions: jest.Mocked<SessionRepository>;
+  let mockConversations: jest.Mocked<ConversationRepository>;
+  let mockMessages: jest.Mocked<MessageRepository>;
+  let mockStorage: jest.Mocked<AudioStorageService>;
+  let mockAudit: jest.Mocked<AuditService>;
+  let mockTokens: jest.Mocked<JWTService>;
+  let mockRedis: jest.Mocked<Redis>;
+
+  beforeEach(() => {
+    mockUsers = {
+      getUserById: jest.fn(async () => ok({
+        id: USER_ID,
+        email: 'user@example.com',
+        passwordHash: 'secret',
+        status: 'ACTIVE'
+      })),
+      deleteUser: jest.fn(async () => ok({
+        sessionIds: [SESSION_ID],
+        conversationIds: [CONVERSATION_ID],
+        messages: 4,
+        recordingPaths: ['audio/a.encrypted', 'audio/b.encrypted']
+      }))
+    } as unknown as jest.Mocked<UserRepository>;
+    mockSessions = {
+      findSessionsByUser: jest.fn(async () => [{ id: SESSION_ID, userId: USER_ID }])
+    } as unknown as jest.Mocked<SessionRepository>;
+    mockConversations = {
+      findByUser: jest.fn(async () => ok({
+        items: [{ id: CONVERSATION_ID }],
+        pagination: { nextCursor: null }
+      })),
+      findById: jest.fn(async () => ok({
+        id: CONVERSATION_ID,
+        messages: [{ id: 'message-1' }, { id: 'message-2' }]
+      }))
+    } as unknown as jest.Mocked<ConversationRepository>;
+    mockMessages = {
+      findAudioRecordings: jest.fn(async () => ok([{
+        messageId: 'message-1',
+        audioRecordingId: 'recording-1',
+        storagePath: 'audio/a.encrypted'
+      }]))
+    } as unknown as jest.Mocked<MessageRepository>;
+    mockStorage = {
+      readAudioFile: jest.fn(async () => ok({ data: Buffer.from('audio'), format: 'WAV' })),
+      deleteAudioFile: jest.fn(async () => ok(true))
+    } as unknown as jest.Mocked<AudioStorageService>;
+    mockAudit = {
+      record: jest.fn(async () => ({
+        id: 'event-1',
+        hash: 'f'.repeat(64),
+        createdAt: 1700000000000
+      }))
+    } as unknown as jest.Mocked<AuditService>;
+    mockTokens = {
+      invalidateUserTokens: jest.fn(async () => 1)
+    } as unknown as jest.Mocked<JWTService>;
+    mockRedis = { del: jest.fn(async () => 1) } as unknown as jest.Mocked<Redis>;
+
+    service = new PrivacyService(
+      mockUsers,
+      mockSessions,
+      mockConversations,
+      mockMessages,
+      mockStorage,
+      mockAudit,
+      mockTokens,
+      mockRedis
+    );
+  });
+
+  describe('exportUserData', () => {
+    it('should bundle the profile, sessions, conversations, messages and audio', async () => {
+      const result = await service.exportUserData(USER_ID, { ip: '127.0.0.1' });
+      const records = await collect(result.data);
+
+      expect(records.map((record) => record.type)).toEqual([
+        'manifest', 'profile', 'session', 'conversation', 'message', 'message', 'audio', 'summary'
+      ]);
+      expect(records[1]).toEqual({
+        type: 'profile',
+        data: expect.not.objectContaining({ passwordHash: expect.anything() })
+      });
+      expect(records[6]).toEqual({
+        type: 'audio',
+        data: expect.objectContaining({ data: Buffer.from('audio').toString('base64') })
+      });
+      expect(records[7]).toEqual({
+        type: 'summary',
+        counts: { sessions: 1, conversations: 1, messages: 2, recordings: 1 }
+      });
+    });
+
+    it('should export the conversations of an organization member', async () => {
+      mockUsers.getUserById.mockResolvedValueOnce(ok(MEMBER));
+
+      const result = await service.exportUserData(USER_ID, { ip: '127.0.0.1' });
+      const records = await collect(result.data);
+
+      expect(records[1]).toEqual({
+        type: 'profile',
+        data: expect.objectContaining({ organizationId: ORGANIZATION_ID, organizationRole: 'member' })
+      });
+      expect(mockConversations.findByUser)
+        .toHaveBeenCalledWith(USER_ID, ORGANIZATION_ID, expect.any(Object));
+      expect(mockConversations.findById)
+        .toHaveBeenCalledWith(CONVERSATION_ID, USER_ID, ORGANIZATION_ID);
+      expect(records.filter((record) => record.type === 'conversation')).toHaveLength(1);
+    });
+
+    it('should refuse to export when the export cannot be audited', async () => {
+      mockAudit.record.mockRejectedValueOnce(new Error('database unavailable'));
+
+      const result = await service.exportUserData(USER_ID, {});
+
+      expect(result.error?.code).toBe(ERROR_CODES.SYSTEM_ERROR);
+      expect(mockSessions.findSessionsByUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('eraseUser', () => {
+    it('should remove recordings and cached entries and issue a receipt', async () => {
+      const result = await service.eraseUser(USER_ID, { ip: '127.0.0.1' });
+
+      expect(mockTokens.invalidateUserTokens).toHaveBeenCalledWith(USER_ID);
+      expect(mockStorage.deleteAudioFile).toHaveBeenCalledTimes(2);
+      expect(mockRedis.del).toHaveBeenCalledWith(`conversation:${CONVERSATION_ID}:context`);
+      expect(mockRedis.del).toHaveBeenCalledWith(`session:${SESSION_ID}`);
+      expect(mockAudit.record).toHaveBeenCalledWith(expect.objectContaining({
+        type: AuditEventType.ACCOUNT_DELETED,
+        subjectId: USER_ID
+      }));
+      expect(result.data).toEqual(expect.objectContaining({
+        receiptId: 'event-1',
+        sessions: 1,
+        conversations: 1,
+        messages: 4,
+        recordings: 2,
+        recordingsPendingRemoval: 0,
+        cacheKeys: 3
+      }));
+    });
+
+    it('should count recordings that could not be removed', async () => {
+      mockStorage.deleteAudioFile.mockResolvedValueOnce(failed(ERROR_CODES.SYSTEM_ERROR));
+
+      const result = await service.eraseUser(USER_ID, {});
+
+      expect(result.success).toBe(true);
+      expect(result.data.recordingsPendingRemoval).toBe(1);
+    });
+
+    it('should leave storage untouched when the account cannot be deleted', async () => {
+      mockUsers.deleteUser.mockResolvedValueOnce(failed(ERROR_CODES.NOT_FOUND));
+
+      const result = await service.eraseUser(USER_ID, {});
+
+      expect(result.error?.code).toBe(ERROR_CODES.NOT_FOUND);
+      expect(mockStorage.deleteAudioFile).not.toHaveBeenCalled();
+      expect(mockAudit.record).not.toHaveBeenCalled();
+    });
+  });
+});
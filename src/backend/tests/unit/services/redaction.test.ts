@@ -0,0 +1,69 @@
+import { RedactionService } from '../../../src/services/privacy/redaction.service';
+import { PiiEntity, RedactionMode } from '../../../src/interfaces/redaction.interface';
+import { RedactionConfig } from '../../../src/types/config.types';
+
+const KEY = 'a'.repeat(64);
+
+const createService = (overrides: Partial<RedactionConfig> = {}): RedactionService =>
+  new RedactionService({
+    enabled: true,
+    mode: RedactionMode.TOKENIZE,
+    entities: Object.values(PiiEntity),
+    customPatterns: [],
+    retainOriginals: false,
+    key: KEY,
+    ...overrides
+  });
+
+describe('RedactionService', () => {
+  const text = 'Email a@example.com, then b@example.com, then a@example.com again';
+
+  it('should number tokens per entity and reuse them for repeated values', async () => {
+    const result = await createService().redact(text);
+
+    expect(result.content).toBe('Email [EMAIL_1], then [EMAIL_2], then [EMAIL_1] again');
+    expect(result.spans).toEqual([
+      { entity: PiiEntity.EMAIL, start: 6, end: 15, mode: RedactionMode.TOKENIZE },
+      { entity: PiiEntity.EMAIL, start: 22, end: 31, mode: RedactionMode.TOKENIZE },
+      { entity: PiiEntity.EMAIL, start: 38, end: 47, mode: RedactionMode.TOKENIZE }
+    ]);
+  });
+
+  it('should replace values with a keyed hash in hash mode', async () => {
+    const result = await createService({ mode: RedactionMode.HASH }).redact(text);
+    const hashes = result.content.match(/\[EMAIL:[0-9a-f]{12}\]/g);
+
+    expect(hashes).toHaveLength(3);
+    expect(hashes?.[0]).toBe(hashes?.[2]);
+    expect(hashes?.[0]).not.toBe(hashes?.[1]);
+  });
+
+  it('should mask values in mask mode', async () => {
+    const result = await createService({ mode: RedactionMode.MASK })
+      .redact('Card 4111 1111 1111 1111');
+
+    expect(result.content).toBe('Card **** **** **** 1111');
+  });
+
+  it('should reveal retained originals', async () => {
+    const service = createService({ retainOriginals: true });
+    const result = await service.redact(text);
+
+    expect(result.content).not.toContain('@example.com');
+    expect(result.spans.every((span) => typeof span.original === 'string')).toBe(true);
+    expect(await service.reveal(result.content, result.spans)).toBe(text);
+  });
+
+  it('should keep replacements when originals were not retained', async () => {
+    const service = createService();
+    const result = await service.redact(text);
+
+    expect(await service.reveal(result.content, result.spans)).toBe(result.content);
+  });
+
+  it('should leave content untouched when disabled', async () => {
+    const result = await createService({ enabled: false }).redact(text);
+
+    expect(result).toEqual({ content: text, spans: [] });
+  });
+});
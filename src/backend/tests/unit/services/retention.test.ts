@@ -0,0 +1,245 @@
+import { jest } from '@jest/globals';
+import {
+  RetentionService,
+  retentionTarget
+} from '../../../src/services/retention/retention.service';
+import { RetentionRepository } from '../../../src/db/repositories/retention.repository';
+import { OrganizationRepository } from '../../../src/db/repositories/organization.repository';
+import { AudioStorageService } from '../../../src/services/storage/audioStorage.service';
+import { AuditService } from '../../../src/services/audit/audit.service';
+import { AuditEventType } from '../../../src/interfaces/audit.interface';
+import { RetentionPolicy } from '../../../src/interfaces/retention.interface';
+import {
+  Organization,
+  OrganizationRetention
+} from '../../../src/interfaces/organization.interface';
+import { ERROR_CODES } from '../../../src/constants/error.constants';
+import { UUID } from '../../../src/types/common.types';
+import { createError } from '../../../src/utils/error.utils';
+
+jest.mock('../../../src/services/audit/audit.service', () => ({
+  AuditService: class {},
+  auditService: {}
+}));
+jest.mock('../../../src/db/repositories/retention.repository', () => ({
+  RetentionRepository: class {}
+}));
+jest.mock('../../../src/db/repositories/organization.repository', () => ({
+  OrganizationRepository: class {}
+}));
+
+const defaultPolicy: RetentionPolicy = {
+  id: 'default',
+  scope: {},
+  audioDays: 30,
+  transcriptDays: 365,
+  redactAfterDays: null
+};
+const adminPolicy: RetentionPolicy = {
+  id: 'admins',
+  scope: { role: 'admin' },
+  audioDays: 7,
+  transcriptDays: 90,
+  redactAfterDays: 30
+};
+const orgPolicy: RetentionPolicy = {
+  id: 'acme',
+  scope: { organizationId: 'acme' },
+  audioDays: 1,
+  transcriptDays: 30,
+  redactAfterDays: 7
+};
+const policies = [defaultPolicy, adminPolicy, orgPolicy];
+
+const NOW = Date.UTC(2024, 0, 31);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const organizationWith = (slug: string, retention: OrganizationRetention): Organization => ({
+  id: slug as UUID,
+  name: slug,
+  slug,
+  settings: { voiceDefaults: {}, allowedLanguages: [], retention, quotas: {} },
+  createdAt: new Date(NOW),
+  updatedAt: new Date(NOW)
+});
+
+describe('retentionTarget', () => {
+  it('should exclude users claimed by more specific policies', () => {
+    expect(retentionTarget(defaultPolicy, policies)).toEqual({
+      include: {},
+      exclude: [adminPolicy.scope, orgPolicy.scope]
+    });
+    expect(retentionTarget(adminPolicy, policies)).toEqual({
+      include: adminPolicy.scope,
+      exclude: [orgPolicy.scope]
+    });
+    expect(retentionTarget(orgPolicy, policies)).toEqual({
+      include: orgPolicy.scope,
+      exclude: []
+    });
+  });
+
+  it('should not exclude policies for a different role', () => {
+    const userPolicy = { ...adminPolicy, id: 'users', scope: { role: 'user' as const } };
+
+    expect(retentionTarget(adminPolicy, [adminPolicy, userPolicy]).exclude).toEqual([]);
+  });
+});
+
+describe('RetentionService', () => {
+  let service: RetentionService;
+  let mockRepository: jest.Mocked<RetentionRepository>;
+  let mockStorage: jest.Mocked<AudioStorageService>;
+  let mockAudit: jest.Mocked<AuditService>;
+  let mockOrganizations: jest.Mocked<OrganizationRepository>;
+
+  beforeEach(() => {
+    mockRepository = {
+      findExpiredRecordings: jest.fn(async () => []),
+      countExpiredRecordings: jest.fn(async () => 3),
+      detachRecordings: jest.fn(async () => 0),
+      deleteExpiredTranscripts: jest.fn(async () => ({ conversations: 0, messages: 0 })),
+      countExpiredTranscripts: jest.fn(async () => ({ conversations: 2, messages: 10 })),
+      redactMessages: jest.fn(async () => 0),
+      countUnredactedMessages: jest.fn(async () => 5)
+    } as unknown as jest.Mocked<RetentionRepository>;
+    mockStorage = {
+      deleteAudioFile: jest.fn(async () => ({ success: true, data: true, error: null, metadata: {} }))
+    } as unknown as jest.Mocked<AudioStorageService>;
+    mockAudit = {
+      tryRecord: jest.fn(async () => null)
+    } as unknown as jest.Mocked<AuditService>;
+    mockOrganizations = {
+      findWithRetention: jest.fn(async () => [])
+    } as unknown as jest.Mocked<OrganizationRepository>;
+
+    service = new RetentionService(mockRepository, mockStorage, mockAudit, {
+      enabled: true,
+      dryRun: false,
+      interval: 3600000,
+      lockTtl: 1800000,
+      batchSize: 2,
+      policies
+    }, mockOrganizations);
+  });
+
+  it('should replace configured organization policies with organization settings', async () => {
+    const retention = { audioDays: 3, transcriptDays: 60, redactAfterDays: null };
+    mockOrganizations.findWithRetention.mockResolvedValue([
+      organizationWith('acme', retention),
+      organizationWith('globex', retention)
+    ]);
+
+    const effective = await service.policies();
+
+    expect(effective.map((policy) => policy.id)).toEqual([
+      'default',
+      'admins',
+      'org:acme',
+      'org:globex'
+    ]);
+    expect(effective[3]).toEqual({
+      id: 'org:globex',
+      scope: { organizationId: 'globex' },
+      ...retention
+    });
+  });
+
+  it('should exclude organization users from broader policies during a run', async () => {
+    mockOrganizations.findWithRetention.mockResolvedValue([
+      organizationWith('globex', { audioDays: 3, transcriptDays: 60, redactAfterDays: null })
+    ]);
+
+    const reports = await service.run(true);
+
+    expect(reports.map((report) => report.policyId)).toEqual([
+      'default',
+      'admins',
+      'acme',
+      'org:globex'
+    ]);
+    expect(mockRepository.countExpiredRecordings).toHaveBeenCalledWith(
+      { include: {}, exclude: [adminPolicy.scope, orgPolicy.scope, { organizationId: 'globex' }] },
+      expect.any(Date)
+    );
+  });
+
+  it('should only count records in a dry run', async () => {
+    const report = await service.applyPolicy(adminPolicy, true, NOW);
+
+    expect(report).toEqual({
+      policyId: 'admins',
+      dryRun: true,
+      recordings: 3,
+      recordingFailures: 0,
+      conversations: 2,
+      messages: 10,
+      redactedMessages: 5
+    });
+    expect(mockRepository.countExpiredRecordings).toHaveBeenCalledWith(
+      { include: adminPolicy.scope, exclude: [orgPolicy.scope] },
+      new Date(NOW - 7 * DAY_MS)
+    );
+    expect(mockStorage.deleteAudioFile).not.toHaveBeenCalled();
+    expect(mockRepository.deleteExpiredTranscripts).not.toHaveBeenCalled();
+    expect(mockAudit.tryRecord).not.toHaveBeenCalled();
+  });
+
+  it('should remove records batch by batch and audit the run', async () => {
+    mockRepository.findExpiredRecordings
+      .mockResolvedValueOnce([
+        { id: 'r1', storagePath: 'audio/r1' },
+        { id: 'r2', storagePath: 'audio/r2' }
+      ])
+      .mockResolvedValueOnce([{ id: 'r3', storagePath: 'audio/r3' }]);
+    mockRepository.deleteExpiredTranscripts
+      .mockResolvedValueOnce({ conversations: 2, messages: 6 })
+      .mockResolvedValueOnce({ conversations: 1, messages: 2 });
+    mockRepository.redactMessages.mockResolvedValueOnce(1);
+
+    const report = await service.applyPolicy(adminPolicy, false, NOW);
+
+    expect(report).toEqual({
+      policyId: 'admins',
+      dryRun: false,
+      recordings: 3,
+      recordingFailures: 0,
+      conversations: 3,
+      messages: 8,
+      redactedMessages: 1
+    });
+    expect(mockRepository.detachRecordings).toHaveBeenCalledWith(['r1', 'r2']);
+    expect(mockStorage.deleteAudioFile).toHaveBeenCalledTimes(3);
+    expect(mockAudit.tryRecord).toHaveBeenCalledWith(expect.objectContaining({
+      type: AuditEventType.RETENTION_APPLIED,
+      subjectType: 'retention_policy',
+      subjectId: 'admins'
+    }));
+  });
+
+  it('should stop when recordings cannot be removed', async () => {
+    mockRepository.findExpiredRecordings.mockResolvedValue([
+      { id: 'r1', storagePath: 'audio/r1' },
+      { id: 'r2', storagePath: 'audio/r2' }
+    ]);
+    mockStorage.deleteAudioFile.mockResolvedValue({
+      success: false,
+      data: false,
+      error: createError(ERROR_CODES.SYSTEM_ERROR),
+      metadata: {}
+    });
+
+    const report = await service.applyPolicy(defaultPolicy, false, NOW);
+
+    expect(mockRepository.findExpiredRecordings).toHaveBeenCalledTimes(1);
+    expect(report.recordings).toBe(0);
+    expect(report.recordingFailures).toBe(2);
+  });
+
+  it('should not redact when the policy keeps message content', async () => {
+    await service.applyPolicy(defaultPolicy, false, NOW);
+
+    expect(mockRepository.redactMessages).not.toHaveBeenCalled();
+    expect(mockAudit.tryRecord).not.toHaveBeenCalled();
+  });
+});
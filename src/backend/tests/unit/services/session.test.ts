@@ -11,6 +11,7 @@ import { logger } from '../../../src/utils/logger.utils';
 jest.mock('../../../src/db/repositories/session.repository');
 jest.mock('../../../src/services/auth/jwt.service');
 jest.mock('../../../src/utils/logger.utils');
+jest.mock('../../../src/services/audit/audit.service');
 
 describe('SessionService', () => {
   let sessionService: SessionService;
@@ -0,0 +1,69 @@
+import { jest } from '@jest/globals';
+import Redis from 'ioredis';
+import {
+  RefreshRotation,
+  TokenRepository
+} from '../../../src/db/repositories/token.repository';
+import { UUID } from '../../../src/types/common.types';
+
+jest.mock('ioredis', () => jest.requireActual('ioredis-mock'));
+jest.mock('../../../src/config/redis.config', () => ({
+  redisConfig: {
+    connectionListener: (client: Redis) => {
+      mockRedisClient = client;
+    }
+  }
+}));
+
+let mockRedisClient: Redis;
+
+const USER_ID = '123e4567-e89b-42d3-a456-426614174000' as UUID;
+const FAMILY_ID = '223e4567-e89b-42d3-a456-426614174000' as UUID;
+const REVOKED_FAMILY_ID = '323e4567-e89b-42d3-a456-426614174000' as UUID;
+const REFRESH_TTL = 7 * 24 * 60 * 60;
+
+describe('TokenRepository', () => {
+  let repository: TokenRepository;
+  let redis: Redis;
+
+  beforeEach(async () => {
+    repository = new TokenRepository();
+    redis = mockRedisClient;
+    await redis.flushall();
+  });
+
+  it('should rotate only the current refresh token of a family', async () => {
+    await repository.createFamily(FAMILY_ID, USER_ID, 'token-1', REFRESH_TTL);
+
+    await expect(
+      repository.rotateFamily(FAMILY_ID, USER_ID, 'token-1', 'token-2', REFRESH_TTL)
+    ).resolves.toBe(RefreshRotation.ROTATED);
+    await expect(
+      repository.rotateFamily(FAMILY_ID, USER_ID, 'token-1', 'token-3', REFRESH_TTL)
+    ).resolves.toBe(RefreshRotation.REUSED);
+    await expect(
+      repository.rotateFamily(REVOKED_FAMILY_ID, USER_ID, 'token-1', 'token-3', REFRESH_TTL)
+    ).resolves.toBe(RefreshRotation.REVOKED);
+  });
+
+  it('should keep the user family set alive while a family keeps rotating', async () => {
+    await repository.createFamily(FAMILY_ID, USER_ID, 'token-1', REFRESH_TTL);
+    // The set is about to expire while the family is still in use
+    await redis.expire(`user:${USER_ID}:families`, 60);
+
+    await repository.rotateFamily(FAMILY_ID, USER_ID, 'token-1', 'token-2', REFRESH_TTL);
+
+    expect(await redis.ttl(`user:${USER_ID}:families`)).toBeGreaterThan(60);
+    await expect(repository.revokeUserFamilies(USER_ID)).resolves.toBe(1);
+    await expect(repository.isFamilyActive(FAMILY_ID)).resolves.toBe(false);
+  });
+
+  it('should list a rotating family again after its user set expired', async () => {
+    await repository.createFamily(FAMILY_ID, USER_ID, 'token-1', REFRESH_TTL);
+    await redis.del(`user:${USER_ID}:families`);
+
+    await repository.rotateFamily(FAMILY_ID, USER_ID, 'token-1', 'token-2', REFRESH_TTL);
+
+    await expect(repository.revokeUserFamilies(USER_ID)).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,567 @@
+import { jest } from '@jest/globals';
+import { Subject } from 'rxjs';
+import {
+  VoiceTurnOrchestrator,
+  VoiceTurnSession
+} from '../../../src/services/websocket/voiceTurn.orchestrator';
+import { SpeechRecognitionService } from '../../../src/services/audio/speechRecognition.service';
+import { SpeechSynthesisService } from '../../../src/services/audio/speechSynthesis.service';
+import { VoiceActivityDetector } from '../../../src/services/audio/voiceActivity.service';
+import { DialogService } from '../../../src/services/dialog/dialog.service';
+import { RecognitionResult } from '../../../src/interfaces/speechRecognition.interface';
+import { UserTurnResult } from '../../../src/interfaces/dialog.interface';
+import {
+  TranscriptPayload,
+  WebSocketMessage,
+  WebSocketMessageType,
+  VoiceTurnState,
+  TurnTakingMode
+} from '../../../src/types/websocket.types';
+import { AudioChunk, AudioFormat } from '../../../src/types/audio.types';
+import { SpeechMarkType } from '../../../src/interfaces/voice.interface';
+import { Result, UUID } from '../../../src/types/common.types';
+import { createError } from '../../../src/utils/error.utils';
+import { ERROR_CODES } from '../../../src/constants/error.constants';
+import {
+  WebSocketMessage as ClientMessage,
+  WebSocketMessageType as ClientMessageType,
+  VoiceTurnState as ClientTurnState,
+  isAudioMessage,
+  isSpeechMarksMessage,
+  isStateMessage,
+  isTranscriptMessage
+} from '../../../../web/src/types/websocket.types';
+
+const mockSession: VoiceTurnSession = {
+  connectionId: 'test-connection-123',
+  conversationId: 'test-conversation-123' as UUID,
+  userId: 'test-user-123',
+  organizationId: null,
+  languageCode: 'en-US',
+  voiceOptions: {
+    voiceId: 'en-US-Standard-C',
+    rate: 1,
+    pitch: 0,
+    volume: 100,
+    languageCode: 'en-US',
+    ssmlEnabled: false,
+    effectsProfile: []
+  },
+  metadata: {
+    userId: 'test-user-123',
+    sessionId: 'test-session-123',
+    clientInfo: { userAgent: 'jest', platform: 'web' }
+  }
+};
+
+const buildChunk = (sequence: number, timestamp: number): AudioChunk => ({
+  data: new Uint8Array(640),
+  timestamp,
+  format: AudioFormat.PCM,
+  sequence
+});
+
+const failedTurn: Result<UserTurnResult> = {
+  success: false,
+  data: null as unknown as UserTurnResult,
+  error: createError(ERROR_CODES.DIALOG_ERROR),
+  metadata: {}
+};
+
+const helloMark = { type: SpeechMarkType.WORD, time: 0, start: 0, end: 5, value: 'Hello' };
+
+const flushPromises = async (): Promise<void> => {
+  for (let i = 0; i < 50; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('VoiceTurnOrchestrator', () => {
+  let orchestrator: VoiceTurnOrchestrator;
+  let recognitionResults: Subject<RecognitionResult>;
+  let sentMessages: WebSocketMessage[];
+  let voiceActive: boolean;
+  let mockRecognizer: jest.Mocked<SpeechRecognitionService>;
+  let mockVoiceActivity: jest.Mocked<VoiceActivityDetector>;
+  let mockDialogService: jest.Mocked<DialogService>;
+  let mockSpeechSynthesis: jest.Mocked<SpeechSynthesisService>;
+
+  const states = (): VoiceTurnState[] => sentMessages
+    .filter((message) => message.type === WebSocketMessageType.STATE)
+    .map((message) => message.payload.state);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    recognitionResults = new Subject();
+    sentMessages = [];
+    voiceActive = false;
+
+    mockRecognizer = {
+      startRecognition: jest.fn(() => recognitionResults.asObservable()),
+      processAudioChunk: jest.fn(async () => ({
+        success: true,
+        data: undefined,
+        error: null,
+        metadata: {}
+      })),
+      stopRecognition: jest.fn(async () => undefined)
+    } as unknown as jest.Mocked<SpeechRecognitionService>;
+
+    mockVoiceActivity = {
+      processAudioChunk: jest.fn(async () => ({
+        success: true,
+        data: voiceActive,
+        error: null,
+        metadata: {}
+      }))
+    } as unknown as jest.Mocked<VoiceActivityDetector>;
+
+    mockDialogService = {
+      handleUserTurn: jest.fn(async () => ({
+        success: true,
+        data: {
+          userMessage: { id: 'user-msg', role: 'user', content: 'hello' },
+          aiMessage: { id: 'ai-msg', role: 'ai', content: 'Hello! How can I help you today?' },
+          context: { turnCount: 1 }
+        },
+        error: null,
+        metadata: {}
+      })),
+      recordInterruption: jest.fn(async () => ({
+        success: true,
+        data: {},
+        error: null,
+        metadata: {}
+      })),
+      recordSpeechMarks: jest.fn(async () => ({
+        success: true,
+        data: {},
+        error: null,
+        metadata: {}
+      }))
+    } as unknown as jest.Mocked<DialogService>;
+
+    // 250ms of 16kHz PCM16 in two sentences → three 100ms frames (the last one partial)
+    mockSpeechSynthesis = {
+      synthesizeSpeechStream: jest.fn(async function* () {
+        yield { audio: Buffer.alloc(5000, 1), marks: [helloMark] };
+        yield { audio: Buffer.alloc(3000, 1), marks: [] };
+      })
+    } as unknown as jest.Mocked<SpeechSynthesisService>;
+
+    orchestrator = new VoiceTurnOrchestrator(
+      mockSession,
+      {
+        recognizer: mockRecognizer,
+        voiceActivity: mockVoiceActivity,
+        dialogService: mockDialogService,
+        speechSynthesis: mockSpeechSynthesis
+      },
+      (message) => sentMessages.push(message)
+    );
+    orchestrator.start();
+  });
+
+  afterEach(async () => {
+    await orchestrator.stop();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should announce the listening state on start', () => {
+    expect(mockRecognizer.startRecognition).toHaveBeenCalledWith('en-US');
+    expect(states()).toEqual([VoiceTurnState.LISTENING]);
+  });
+
+  it('should reply and stream audio once speech ends and the final arrives', async () => {
+    voiceActive = true;
+    await orchestrator.handleAudio(buildChunk(1, 1000));
+    voiceActive = false;
+    await orchestrator.handleAudio(buildChunk(2, 2200));
+
+    recognitionResults.next({
+      transcript: 'hello',
+      confidence: 0.9,
+      isFinal: true,
+      timestamp: 2300
+    });
+    await flushPromises();
+
+    expect(mockDialogService.handleUserTurn).toHaveBeenCalledWith(expect.objectContaining({
+      conversationId: mockSession.conversationId,
+      userId: mockSession.userId,
+      transcript: 'hello',
+      confidence: 0.9,
+      speechDuration: 1200
+    }));
+    expect(mockSpeechSynthesis.synthesizeSpeechStream).toHaveBeenCalledWith(
+      'Hello! How can I help you today?',
+      mockSession.voiceOptions,
+      expect.any(AbortSignal)
+    );
+
+    const audioFrames = sentMessages.filter(
+      (message) => message.type === WebSocketMessageType.AUDIO
+    );
+    expect(audioFrames).toHaveLength(3);
+    expect(audioFrames.map((frame) => frame.payload.sequence)).toEqual([1, 2, 3]);
+    expect(orchestrator.getState()).toBe(VoiceTurnState.SPEAKING);
+
+    const marks = sentMessages.filter(
+      (message) => message.type === WebSocketMessageType.SPEECH_MARKS
+    );
+    expect(marks).toHaveLength(1);
+    expect(marks[0].payload).toEqual(expect.objectContaining({
+      messageId: 'ai-msg',
+      marks: [helloMark]
+    }));
+    expect(sentMessages.indexOf(marks[0])).toBeLessThan(sentMessages.indexOf(audioFrames[0]));
+
+    // Speaking lasts until the client has played the buffered audio
+    await jest.advanceTimersByTimeAsync(250);
+    await flushPromises();
+
+    expect(mockDialogService.recordSpeechMarks).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'ai-msg' }),
+      [helloMark]
+    );
+
+    expect(states()).toEqual([
+      VoiceTurnState.LISTENING,
+      VoiceTurnState.THINKING,
+      VoiceTurnState.SPEAKING,
+      VoiceTurnState.LISTENING
+    ]);
+  });
+
+  it('should complete the turn from earlier finals when no new final arrives', async () => {
+    voiceActive = true;
+    await orchestrator.handleAudio(buildChunk(1, 1000));
+    recognitionResults.next({
+      transcript: 'book a table',
+      confidence: 0.8,
+      isFinal: true,
+      timestamp: 1500
+    });
+    voiceActive = false;
+    await orchestrator.handleAudio(buildChunk(2, 2000));
+
+    expect(mockDialogService.handleUserTurn).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    await flushPromises();
+
+    expect(mockDialogService.handleUserTurn).toHaveBeenCalledWith(
+      expect.objectContaining({ transcript: 'book a table' })
+    );
+  });
+
+  it('should ignore interim results and silence without speech', async () => {
+    recognitionResults.next({
+      transcript: 'hel',
+      confidence: 0.4,
+      isFinal: false,
+      timestamp: 900
+    });
+    await orchestrator.handleAudio(buildChunk(1, 1000));
+
+    jest.advanceTimersByTime(1000);
+    await flushPromises();
+
+    expect(mockDialogService.handleUserTurn).not.toHaveBeenCalled();
+    expect(states()).toEqual([VoiceTurnState.LISTENING]);
+  });
+
+  it('should report a recoverable error and return to listening when the reply fails', async () => {
+    mockDialogService.handleUserTurn.mockResolvedValueOnce(failedTurn);
+
+    voiceActive = true;
+    await orchestrator.handleAudio(buildChunk(1, 1000));
+    voiceActive = false;
+    await orchestrator.handleAudio(buildChunk(2, 1800));
+    recognitionResults.next({
+      transcript: 'hello',
+      confidence: 0.9,
+      isFinal: true,
+      timestamp: 1900
+    });
+    await flushPromises();
+
+    const error = sentMessages.find((message) => message.type === WebSocketMessageType.ERROR);
+    expect(error?.payload.recoverable).toBe(true);
+    expect(mockSpeechSynthesis.synthesizeSpeechStream).not.toHaveBeenCalled();
+    expect(orchestrator.getState()).toBe(VoiceTurnState.LISTENING);
+  });
+
+  describe('transcripts', () => {
+    const transcripts = (): TranscriptPayload[] => sentMessages
+      .filter((message) => message.type === WebSocketMessageType.TRANSCRIPT)
+      .map((message) => message.payload);
+
+    it('should stream interim transcripts and commit them with the persisted ids', async () => {
+      voiceActive = true;
+      await orchestrator.handleAudio(buildChunk(1, 1000));
+      recognitionResults.next({
+        transcript: 'hel',
+        confidence: 0.4,
+        isFinal: false,
+        stability: 0.3,
+        timestamp: 1100
+      });
+      voiceActive = false;
+      await orchestrator.handleAudio(buildChunk(2, 1800));
+      recognitionResults.next({
+        transcript: 'hello',
+        confidence: 0.9,
+        isFinal: true,
+        timestamp: 1900
+      });
+      await flushPromises();
+
+      const [interim, segment, user, ai] = transcripts();
+      expect(interim).toEqual(expect.objectContaining({
+        messageId: null,
+        role: 'user',
+        transcript: 'hel',
+        isFinal: false,
+        stability: 0.3
+      }));
+      expect(segment).toEqual(expect.objectContaining({
+        utteranceId: interim.utteranceId,
+        transcript: 'hello',
+        isFinal: false,
+        stability: 1
+      }));
+      expect(user).toEqual(expect.objectContaining({
+        utteranceId: interim.utteranceId,
+        messageId: 'user-msg',
+        role: 'user',
+        isFinal: true,
+        confidence: 0.9
+      }));
+      expect(ai).toEqual(expect.objectContaining({
+        utteranceId: 'ai-msg',
+        messageId: 'ai-msg',
+        role: 'ai',
+        transcript: 'Hello! How can I help you today?',
+        isFinal: true
+      }));
+    });
+
+    it('should discard the live transcript when the turn fails', async () => {
+      mockDialogService.handleUserTurn.mockResolvedValueOnce(failedTurn);
+
+      voiceActive = true;
+      await orchestrator.handleAudio(buildChunk(1, 1000));
+      voiceActive = false;
+      await orchestrator.handleAudio(buildChunk(2, 1800));
+      recognitionResults.next({
+        transcript: 'hello',
+        confidence: 0.9,
+        isFinal: true,
+        timestamp: 1900
+      });
+      await flushPromises();
+
+      const final = transcripts().pop();
+      expect(final).toEqual(expect.objectContaining({ isFinal: true, messageId: null }));
+    });
+  });
+
+  describe('barge-in', () => {
+    const startSpeaking = async (): Promise<void> => {
+      voiceActive = true;
+      await orchestrator.handleAudio(buildChunk(1, 1000));
+      voiceActive = false;
+      await orchestrator.handleAudio(buildChunk(2, 1800));
+      recognitionResults.next({
+        transcript: 'hello',
+        confidence: 0.9,
+        isFinal: true,
+        timestamp: 1900
+      });
+      await flushPromises();
+      expect(orchestrator.getState()).toBe(VoiceTurnState.SPEAKING);
+    };
+
+    it('should cancel playback when user speech is detected while speaking', async () => {
+      await startSpeaking();
+      await jest.advanceTimersByTimeAsync(100);
+
+      voiceActive = true;
+      await orchestrator.handleAudio(buildChunk(3, Date.now()));
+
+      expect(orchestrator.getState()).toBe(VoiceTurnState.LISTENING);
+      expect(mockDialogService.recordInterruption).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'ai-msg' }),
+        100,
+        250,
+        [helloMark]
+      );
+      expect(mockRecognizer.processAudioChunk).toHaveBeenCalledWith(
+        expect.objectContaining({ sequence: 3 })
+      );
+
+      await jest.advanceTimersByTimeAsync(500);
+      expect(states()).toEqual([
+        VoiceTurnState.LISTENING,
+        VoiceTurnState.THINKING,
+        VoiceTurnState.SPEAKING,
+        VoiceTurnState.LISTENING
+      ]);
+    });
+
+    it('should not treat silence during playback as a barge-in', async () => {
+      await startSpeaking();
+
+      await orchestrator.handleAudio(buildChunk(3, Date.now()));
+
+      expect(orchestrator.getState()).toBe(VoiceTurnState.SPEAKING);
+      expect(mockRecognizer.processAudioChunk).toHaveBeenCalledTimes(2);
+      expect(mockDialogService.recordInterruption).not.toHaveBeenCalled();
+    });
+
+    it('should use the played duration reported by the client', async () => {
+      await startSpeaking();
+      const speakingState = sentMessages
+        .filter((message) => message.type === WebSocketMessageType.STATE)
+        .pop();
+
+      await orchestrator.interrupt(120, 'stale-turn');
+      expect(orchestrator.getState()).toBe(VoiceTurnState.SPEAKING);
+
+      await orchestrator.interrupt(120, speakingState?.payload.turnId);
+      expect(orchestrator.getState()).toBe(VoiceTurnState.LISTENING);
+      expect(mockDialogService.recordInterruption).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'ai-msg' }),
+        120,
+        250,
+        [helloMark]
+      );
+    });
+  });
+
+  describe('push-to-talk', () => {
+    beforeEach(() => {
+      orchestrator.setTurnMode(TurnTakingMode.PUSH_TO_TALK);
+    });
+
+    it('should keep the turn open through pauses until the client ends it', async () => {
+      voiceActive = true;
+      await orchestrator.handleAudio(buildChunk(1, 1000));
+      voiceActive = false;
+      await orchestrator.handleAudio(buildChunk(2, 1800));
+      recognitionResults.next({
+        transcript: 'book a table',
+        confidence: 0.8,
+        isFinal: true,
+        timestamp: 1900
+      });
+
+      jest.advanceTimersByTime(5000);
+      await flushPromises();
+      expect(mockDialogService.handleUserTurn).not.toHaveBeenCalled();
+
+      voiceActive = true;
+      await orchestrator.handleAudio(buildChunk(3, 7000));
+      recognitionResults.next({
+        transcript: 'for two',
+        confidence: 0.9,
+        isFinal: false,
+        timestamp: 7100
+      });
+
+      orchestrator.endTurn();
+      recognitionResults.next({
+        transcript: 'for two',
+        confidence: 0.9,
+        isFinal: true,
+        timestamp: 7200
+      });
+      await flushPromises();
+
+      expect(mockDialogService.handleUserTurn).toHaveBeenCalledWith(
+        expect.objectContaining({ transcript: 'book a table for two', confidence: 0.9 })
+      );
+    });
+
+    it('should end the turn with earlier finals when no new final arrives', async () => {
+      voiceActive = true;
+      await orchestrator.handleAudio(buildChunk(1, 1000));
+      recognitionResults.next({
+        transcript: 'hello',
+        confidence: 0.9,
+        isFinal: true,
+        timestamp: 1500
+      });
+
+      orchestrator.endTurn();
+      voiceActive = true;
+      await orchestrator.handleAudio(buildChunk(2, 1600));
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+
+      expect(mockDialogService.handleUserTurn).toHaveBeenCalledWith(
+        expect.objectContaining({ transcript: 'hello' })
+      );
+    });
+
+    it('should end turns on silence again after switching to hands-free', async () => {
+      orchestrator.setTurnMode(TurnTakingMode.HANDS_FREE);
+
+      voiceActive = true;
+      await orchestrator.handleAudio(buildChunk(1, 1000));
+      voiceActive = false;
+      await orchestrator.handleAudio(buildChunk(2, 1800));
+      recognitionResults.next({
+        transcript: 'hello',
+        confidence: 0.9,
+        isFinal: true,
+        timestamp: 1900
+      });
+      await flushPromises();
+
+      expect(mockDialogService.handleUserTurn).toHaveBeenCalledWith(
+        expect.objectContaining({ transcript: 'hello' })
+      );
+    });
+  });
+
+  describe('wire format', () => {
+    const received = (): ClientMessage[] => sentMessages.map(
+      (message) => JSON.parse(JSON.stringify(message)) as ClientMessage
+    );
+
+    it('should share message type and turn state values with the web client', () => {
+      expect(Object.values(WebSocketMessageType).sort())
+        .toEqual(Object.values(ClientMessageType).sort());
+      expect(Object.values(VoiceTurnState).sort())
+        .toEqual(Object.values(ClientTurnState).sort());
+    });
+
+    it('should send messages that the web client type guards recognize', async () => {
+      voiceActive = true;
+      await orchestrator.handleAudio(buildChunk(1, 1000));
+      voiceActive = false;
+      await orchestrator.handleAudio(buildChunk(2, 2200));
+      recognitionResults.next({
+        transcript: 'hello',
+        confidence: 0.9,
+        isFinal: true,
+        timestamp: 2300
+      });
+      await flushPromises();
+
+      const messages = received();
+      expect(messages.filter(isStateMessage).map((message) => message.payload.state)).toEqual([
+        ClientTurnState.LISTENING,
+        ClientTurnState.THINKING,
+        ClientTurnState.SPEAKING
+      ]);
+      expect(messages.filter(isTranscriptMessage).map((message) => message.payload.transcript))
+        .toContain('Hello! How can I help you today?');
+      expect(messages.filter(isSpeechMarksMessage)).toHaveLength(1);
+      expect(messages.filter(isAudioMessage)).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for binary audio frame utilities
+ * Tests header layout, round trips and rejection of malformed frames
+ * @version 1.0.0
+ */
+
+import {
+  AudioFrame,
+  decodeAudioFrame,
+  encodeAudioFrame
+} from '../../../src/utils/audioFrame.utils';
+import { AudioFormat } from '../../../src/types/audio.types';
+import { WebSocketMessageType } from '../../../src/types/websocket.types';
+import { AUDIO_FRAME } from '../../../src/constants/websocket.constants';
+
+const frame: AudioFrame = {
+  type: WebSocketMessageType.AUDIO,
+  payload: {
+    data: new Uint8Array([1, 2, 3, 4]),
+    timestamp: 1700000000123,
+    format: AudioFormat.OPUS,
+    sequence: 42
+  },
+  timestamp: 1700000000123,
+  sequenceNumber: 42,
+  audioMetadata: {
+    sampleRate: 16000,
+    channels: 1,
+    encoding: 'OPUS',
+    frameSize: 20
+  }
+};
+
+describe('Audio frame utilities', () => {
+  it('should write the header before the raw audio', () => {
+    const encoded = encodeAudioFrame(frame);
+
+    expect(encoded.length).toBe(AUDIO_FRAME.HEADER_BYTES + 4);
+    expect(encoded.readUInt8(0)).toBe(AUDIO_FRAME.VERSION);
+    expect(encoded.readUInt8(2)).toBe(1);
+    expect(encoded.readUInt32BE(4)).toBe(42);
+    expect(encoded.readDoubleBE(8)).toBe(1700000000123);
+    expect(Array.from(encoded.subarray(AUDIO_FRAME.HEADER_BYTES))).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should round-trip audio messages', () => {
+    expect(decodeAudioFrame(encodeAudioFrame(frame))).toEqual(frame);
+  });
+
+  it('should name PCM frames LINEAR16', () => {
+    const encoded = encodeAudioFrame({
+      ...frame,
+      payload: { ...frame.payload, format: AudioFormat.PCM }
+    });
+
+    expect(decodeAudioFrame(encoded).audioMetadata.encoding).toBe('LINEAR16');
+  });
+
+  it('should reject truncated, unknown and unsupported frames', () => {
+    const encoded = encodeAudioFrame(frame);
+    const withByte = (offset: number, value: number) => {
+      const copy = Buffer.from(encoded);
+      copy.writeUInt8(value, offset);
+      return copy;
+    };
+
+    expect(() => decodeAudioFrame(encoded.subarray(0, 10))).toThrow('Truncated');
+    expect(() => decodeAudioFrame(withByte(0, 2))).toThrow('version');
+    expect(() => decodeAudioFrame(withByte(1, 7))).toThrow('only carry audio');
+    expect(() => decodeAudioFrame(withByte(2, 9))).toThrow('codec');
+    expect(() => encodeAudioFrame({
+      ...frame,
+      payload: { ...frame.payload, format: AudioFormat.WAV }
+    })).toThrow('Unsupported audio frame format');
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for audio codec utilities
+ * Tests PCM16 round trips through Opus, G.711 and WAV transcoding
+ * @version 1.0.0
+ */
+
+import {
+  createOpusDecoder,
+  decodeOpus,
+  decodeToPcm16,
+  encodeFromPcm16,
+  encodeOpus,
+  transcodeAudio
+} from '../../../src/utils/codec.utils';
+import { encodeWav } from '../../../src/utils/pcm.utils';
+import { AudioFormat } from '../../../src/types/audio.types';
+
+/**
+ * Generates a 440Hz sine wave as PCM16
+ */
+const sine = (sampleRate: number, durationMs: number = 1000): Buffer => {
+  const samples = (sampleRate * durationMs) / 1000;
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 20000;
+    pcm.writeInt16LE(Math.round(value), i * 2);
+  }
+  return pcm;
+};
+
+/**
+ * Root mean square level of PCM16
+ */
+const rms = (pcm: Buffer): number => {
+  let sum = 0;
+  for (let i = 0; i < pcm.length / 2; i++) {
+    sum += pcm.readInt16LE(i * 2) ** 2;
+  }
+  return Math.sqrt(sum / (pcm.length / 2));
+};
+
+describe('Codec utilities', () => {
+  describe('Opus', () => {
+    it('should encode 20ms frames as length-prefixed packets', () => {
+      const encoded = encodeOpus(sine(48000, 100));
+
+      let offset = 0;
+      let packets = 0;
+      while (offset < encoded.length) {
+        offset += 2 + encoded.readUInt16BE(offset);
+        packets++;
+      }
+
+      expect(packets).toBe(5);
+      expect(offset).toBe(encoded.length);
+    });
+
+    it('should round-trip 16kHz PCM through 48kHz Opus', () => {
+      const pcm = sine(16000);
+
+      const encoded = encodeFromPcm16(pcm, AudioFormat.OPUS);
+      const decoded = decodeToPcm16(encoded, AudioFormat.OPUS);
+
+      expect(encoded.length).toBeLessThan(pcm.length / 4);
+      expect(decoded.length).toBe(pcm.length);
+      expect(rms(decoded) / rms(pcm)).toBeGreaterThan(0.8);
+      expect(rms(decoded) / rms(pcm)).toBeLessThan(1.2);
+    });
+
+    it('should continue a stream across chunks with one decoder', () => {
+      const encoded = encodeOpus(sine(48000, 200));
+      let split = 0;
+      for (let i = 0; i < 5; i++) {
+        split += 2 + encoded.readUInt16BE(split);
+      }
+
+      const decoder = createOpusDecoder();
+      const chunked = Buffer.concat([
+        decodeOpus(encoded.subarray(0, split), decoder),
+        decodeOpus(encoded.subarray(split), decoder)
+      ]);
+
+      expect(chunked.equals(decodeOpus(encoded))).toBe(true);
+    });
+
+    it('should reject truncated packets', () => {
+      const encoded = encodeOpus(sine(48000, 20));
+
+      expect(() => decodeOpus(encoded.subarray(0, encoded.length - 1)))
+        .toThrow('Truncated Opus packet');
+    });
+  });
+
+  describe('G.711', () => {
+    it('should encode at 8kHz and restore the original sample rate', () => {
+      const pcm = sine(16000);
+
+      const mulaw = encodeFromPcm16(pcm, AudioFormat.G711);
+      const alaw = encodeFromPcm16(pcm, AudioFormat.G711, { g711Law: 'alaw' });
+
+      expect(mulaw.length).toBe(8000);
+      expect(decodeToPcm16(mulaw, AudioFormat.G711).length).toBe(pcm.length);
+      expect(rms(decodeToPcm16(alaw, AudioFormat.G711, { g711Law: 'alaw' })) / rms(pcm))
+        .toBeCloseTo(1, 1);
+    });
+  });
+
+  describe('transcodeAudio', () => {
+    it('should wrap PCM in WAV and unwrap it again', () => {
+      const pcm = sine(16000, 100);
+
+      const wav = transcodeAudio(pcm, AudioFormat.PCM, AudioFormat.WAV);
+      const restored = transcodeAudio(wav, AudioFormat.WAV, AudioFormat.PCM);
+
+      expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+      expect(restored.equals(pcm)).toBe(true);
+    });
+
+    it('should resample WAV declared as PCM to the requested rate', () => {
+      const wav = encodeWav(sine(48000, 100), 48000);
+
+      const mulaw = transcodeAudio(wav, AudioFormat.PCM, AudioFormat.G711);
+
+      expect(mulaw.length).toBe(800);
+    });
+
+    it('should reject formats without a codec', () => {
+      expect(() => transcodeAudio(sine(16000, 20), AudioFormat.PCM, AudioFormat.AAC))
+        .toThrow('Conversion to audio/aac not implemented');
+    });
+  });
+});
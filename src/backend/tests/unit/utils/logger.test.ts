@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the logger
+ * Tests that personal data is masked in log messages and metadata
+ * @version 1.0.0
+ */
+
+import { jest } from '@jest/globals';
+
+const mockWinstonLogger = {
+  log: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+  transports: []
+};
+
+jest.mock('winston', () => ({
+  ...jest.requireActual<typeof import('winston')>('winston'),
+  createLogger: () => mockWinstonLogger
+}));
+
+import { logger } from '../../../src/utils/logger.utils';
+
+const EMAIL = 'jane.doe@example.com';
+
+describe('logger', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('masks personal data in nested metadata', () => {
+    logger.warn('Profile update rejected', {
+      userId: 'user-1',
+      profile: { email: EMAIL, aliases: [`Contact ${EMAIL}`] }
+    });
+
+    const [message, metadata] = mockWinstonLogger.warn.mock.calls[0] as [string, any];
+    expect(message).toBe('Profile update rejected');
+    expect(metadata.userId).toBe('user-1');
+    expect(JSON.stringify(metadata)).not.toContain(EMAIL);
+  });
+
+  test('masks personal data in the messages of logged errors', () => {
+    const cause = new Error(`No account for ${EMAIL}`);
+    logger.warn('Login failed', { error: cause });
+    logger.error(cause);
+
+    const [, metadata] = mockWinstonLogger.warn.mock.calls[0] as [string, any];
+    expect(metadata.error.message).not.toContain(EMAIL);
+    expect(metadata.error.stack).not.toContain(EMAIL);
+
+    const [message, errorMetadata] = mockWinstonLogger.error.mock.calls[0] as [string, any];
+    expect(message).not.toContain(EMAIL);
+    expect(JSON.stringify(errorMetadata)).not.toContain(EMAIL);
+  });
+
+  test('keeps circular metadata loggable', () => {
+    const request: Record<string, unknown> = { email: EMAIL };
+    request.self = request;
+
+    logger.warn('Request rejected', { request });
+
+    const [, metadata] = mockWinstonLogger.warn.mock.calls[0] as [string, any];
+    expect(metadata.request.self).toBe('[Circular]');
+    expect(metadata.request.email).not.toBe(EMAIL);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for pagination utilities
+ * Tests the keyset cursors and page details of list endpoints
+ * @version 1.0.0
+ */
+
+import { buildPagination, decodeCursor, encodeCursor } from '../../../src/utils/pagination.utils';
+
+describe('cursors', () => {
+  test('round-trips a list position', () => {
+    const position = {
+      createdAt: new Date('2024-03-01T12:30:00.000Z'),
+      id: '1b4e28ba-2fa1-11d2-883f-0016d3cca427'
+    };
+
+    const cursor = encodeCursor(position);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toEqual(position);
+  });
+
+  test('rejects malformed cursors', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('yesterday|abc').toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from('2024-03-01T12:30:00.000Z|').toString('base64url')))
+      .toBeNull();
+  });
+});
+
+describe('buildPagination', () => {
+  test('describes a middle page of a cursor-paginated list', () => {
+    expect(buildPagination(20, 10, 45, 'next')).toEqual({
+      page: 3,
+      limit: 10,
+      totalPages: 5,
+      totalItems: 45,
+      hasNext: true,
+      hasPrevious: true,
+      nextCursor: 'next'
+    });
+  });
+
+  test('describes the only page of an offset-paginated list', () => {
+    expect(buildPagination(0, 20, 3)).toEqual({
+      page: 1,
+      limit: 20,
+      totalPages: 1,
+      totalItems: 3,
+      hasNext: false,
+      hasPrevious: false
+    });
+  });
+});
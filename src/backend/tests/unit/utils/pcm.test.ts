@@ -0,0 +1,160 @@
+/**
+ * Unit tests for PCM audio helpers
+ * Tests WAV wrapping and parsing, G.711 companding and sample rate conversion
+ * @version 1.0.0
+ */
+
+import {
+  decodeALaw,
+  decodeMuLaw,
+  encodeALaw,
+  encodeMuLaw,
+  encodeWav,
+  isWav,
+  parseWav,
+  resamplePcm16
+} from '../../../src/utils/pcm.utils';
+
+/**
+ * Generates one second of a 440Hz sine wave as PCM16
+ */
+const sine = (sampleRate: number, amplitude: number = 20000): Buffer => {
+  const pcm = Buffer.alloc(sampleRate * 2);
+  for (let i = 0; i < sampleRate; i++) {
+    pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * amplitude), i * 2);
+  }
+  return pcm;
+};
+
+/**
+ * Signal-to-noise ratio of a decoded signal against the original in dB
+ */
+const snr = (original: Buffer, decoded: Buffer, skip: number = 0): number => {
+  let signal = 0;
+  let noise = 0;
+  for (let i = skip; i < original.length / 2 - skip; i++) {
+    const expected = original.readInt16LE(i * 2);
+    signal += expected ** 2;
+    noise += (expected - decoded.readInt16LE(i * 2)) ** 2;
+  }
+  return 10 * Math.log10(signal / noise);
+};
+
+/**
+ * Builds a 16-bit mono WAV file around the given samples
+ */
+const buildWav = (samples: number[], sampleRate: number, dataSize?: number): Buffer => {
+  const pcm = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, index) => pcm.writeInt16LE(sample, index * 2));
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataSize ?? pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+};
+
+describe('PCM utilities', () => {
+  describe('parseWav', () => {
+    it('should extract samples and format from a WAV file', () => {
+      const wav = parseWav(buildWav([1, -2, 3], 22050));
+
+      expect(wav.sampleRate).toBe(22050);
+      expect(wav.channels).toBe(1);
+      expect(wav.pcm.readInt16LE(2)).toBe(-2);
+      expect(wav.pcm.length).toBe(6);
+    });
+
+    it('should read streamed WAV output with a placeholder data size', () => {
+      const wav = parseWav(buildWav([5, 6], 22050, 0xffffffff));
+
+      expect(wav.pcm.length).toBe(4);
+    });
+
+    it('should round-trip PCM through encodeWav', () => {
+      const pcm = sine(16000);
+      const wav = parseWav(encodeWav(pcm, 16000));
+
+      expect(wav.sampleRate).toBe(16000);
+      expect(wav.pcm.equals(pcm)).toBe(true);
+    });
+
+    it('should reject buffers without a RIFF header', () => {
+      expect(isWav(Buffer.alloc(64))).toBe(false);
+      expect(() => parseWav(Buffer.alloc(64))).toThrow('missing RIFF/WAVE header');
+    });
+  });
+
+  describe('G.711', () => {
+    it('should round-trip μ-law within the companding error', () => {
+      const pcm = sine(8000);
+      const encoded = encodeMuLaw(pcm);
+
+      expect(encoded.length).toBe(8000);
+      expect(snr(pcm, decodeMuLaw(encoded))).toBeGreaterThan(30);
+    });
+
+    it('should round-trip A-law within the companding error', () => {
+      const pcm = sine(8000);
+      const encoded = encodeALaw(pcm);
+
+      expect(encoded.length).toBe(8000);
+      expect(snr(pcm, decodeALaw(encoded))).toBeGreaterThan(30);
+    });
+
+    it('should map the reference silence and clipping code words', () => {
+      const pcm = Buffer.alloc(4);
+      pcm.writeInt16LE(0, 0);
+      pcm.writeInt16LE(32767, 2);
+
+      expect([...encodeMuLaw(pcm)]).toEqual([0xff, 0x80]);
+      expect([...encodeALaw(pcm)]).toEqual([0xd5, 0xaa]);
+    });
+  });
+
+  describe('resamplePcm16', () => {
+    it('should round-trip between the recognition and Opus sample rates', () => {
+      const pcm = sine(16000);
+      const upsampled = resamplePcm16(pcm, 16000, 48000);
+      const restored = resamplePcm16(upsampled, 48000, 16000);
+
+      expect(upsampled.length).toBe(48000 * 2);
+      expect(restored.length).toBe(pcm.length);
+      expect(snr(pcm, restored, 10)).toBeGreaterThan(40);
+    });
+
+    it('should convert the number of samples to the target rate', () => {
+      const pcm = Buffer.alloc(22050 * 2);
+
+      expect(resamplePcm16(pcm, 22050, 16000).length).toBe(16000 * 2);
+    });
+
+    it('should interpolate between neighbouring samples when upsampling', () => {
+      const pcm = Buffer.alloc(4);
+      pcm.writeInt16LE(0, 0);
+      pcm.writeInt16LE(100, 2);
+
+      const output = resamplePcm16(pcm, 8000, 16000);
+
+      expect([0, 1, 2, 3].map((index) => output.readInt16LE(index * 2)))
+        .toEqual([0, 50, 100, 100]);
+    });
+
+    it('should return the input unchanged when the rates match', () => {
+      const pcm = Buffer.alloc(8);
+
+      expect(resamplePcm16(pcm, 16000, 16000)).toBe(pcm);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for redaction utilities
+ * Tests detection of built-in and custom entities and masking of log messages
+ * @version 1.0.0
+ */
+
+import {
+  createDetectors,
+  detectPii,
+  isLuhnValid,
+  maskPii,
+  maskValue
+} from '../../../src/utils/redaction.utils';
+import { PiiEntity } from '../../../src/interfaces/redaction.interface';
+
+const ALL_ENTITIES = Object.values(PiiEntity);
+
+describe('isLuhnValid', () => {
+  test('accepts valid card numbers with separators', () => {
+    expect(isLuhnValid('4111 1111 1111 1111')).toBe(true);
+    expect(isLuhnValid('5500-0000-0000-0004')).toBe(true);
+  });
+
+  test('rejects checksum failures and wrong lengths', () => {
+    expect(isLuhnValid('4111 1111 1111 1112')).toBe(false);
+    expect(isLuhnValid('4242424242')).toBe(false);
+  });
+});
+
+describe('detectPii', () => {
+  const detectors = createDetectors(ALL_ENTITIES);
+
+  test('finds every built-in entity in text order', () => {
+    const text = 'Mail jane.doe@example.com or call (555) 123-4567, ' +
+      'card 4111 1111 1111 1111, SSN 123-45-6789.';
+
+    expect(detectPii(text, detectors).map(({ entity, value }) => [entity, value])).toEqual([
+      [PiiEntity.EMAIL, 'jane.doe@example.com'],
+      [PiiEntity.PHONE, '(555) 123-4567'],
+      [PiiEntity.CREDIT_CARD, '4111 1111 1111 1111'],
+      [PiiEntity.SSN, '123-45-6789']
+    ]);
+  });
+
+  test('ignores digit runs that fail the Luhn check', () => {
+    expect(detectPii('order 4111 1111 1111 1112', detectors)).toEqual([]);
+  });
+
+  test('detects only the enabled entities', () => {
+    const emailOnly = createDetectors([PiiEntity.EMAIL]);
+
+    expect(detectPii('a@b.io 555-123-4567', emailOnly).map((match) => match.entity))
+      .toEqual([PiiEntity.EMAIL]);
+  });
+
+  test('detects custom entities', () => {
+    const custom = createDetectors([], [{ name: 'member_id', pattern: 'mbr-\\d{6}', flags: 'i' }]);
+
+    expect(detectPii('Member MBR-123456 here', custom)).toEqual([
+      { entity: 'member_id', start: 7, end: 17, value: 'MBR-123456' }
+    ]);
+  });
+});
+
+describe('maskValue', () => {
+  test('keeps separators and the last four card digits', () => {
+    expect(maskValue(PiiEntity.CREDIT_CARD, '4111 1111 1111 1111')).toBe('**** **** **** 1111');
+    expect(maskValue(PiiEntity.SSN, '123-45-6789')).toBe('***-**-****');
+  });
+});
+
+describe('maskPii', () => {
+  test('masks personal data and leaves the rest untouched', () => {
+    const detectors = createDetectors(ALL_ENTITIES);
+
+    expect(maskPii('Reach me at 555.123.4567 today', detectors))
+      .toBe('Reach me at ***.***.**** today');
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Unit tests for text utilities
+ * Tests sentence chunking and chunk location used by streaming speech synthesis
+ * @version 1.0.0
+ */
+
+import { locateText, splitSentences } from '../../../src/utils/text.utils';
+
+describe('splitSentences', () => {
+  test('splits at terminal punctuation including closing quotes', () => {
+    expect(splitSentences('She said "I am on my way." Then the line went quiet! Odd?', 3))
+      .toEqual(['She said "I am on my way."', 'Then the line went quiet!', 'Odd?']);
+  });
+
+  test('merges sentences shorter than the minimum length', () => {
+    expect(splitSentences('Hi. How are you doing today? Good.', 20))
+      .toEqual(['Hi. How are you doing today? Good.']);
+  });
+
+  test('splits long sentences at word boundaries', () => {
+    const chunks = splitSentences('word '.repeat(40), 5, 50);
+
+    expect(chunks.length).toBe(4);
+    expect(chunks.every((chunk) => chunk.length <= 50)).toBe(true);
+    expect(chunks.join(' ')).toBe('word '.repeat(40).trim());
+  });
+
+  test('returns no chunks for blank text', () => {
+    expect(splitSentences('   ')).toEqual([]);
+  });
+});
+
+describe('locateText', () => {
+  const text = 'Sure thing.  See you\nlater!';
+
+  test('locates chunks whose whitespace differs from the source', () => {
+    expect(locateText(text, 'Sure thing.')).toEqual({ start: 0, end: 11 });
+    expect(locateText(text, 'See you later!', 11)).toEqual({ start: 13, end: 27 });
+  });
+
+  test('skips words missing from the source', () => {
+    expect(locateText(text, 'See ya later!', 11)).toEqual({ start: 13, end: 27 });
+  });
+
+  test('returns an empty range at the search offset when nothing matches', () => {
+    expect(locateText(text, 'Goodbye', 5)).toEqual({ start: 5, end: 5 });
+  });
+});
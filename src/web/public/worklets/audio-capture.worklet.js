@@ -0,0 +1,193 @@
+/**
+ * Audio Capture Worklet
+ * Turns the microphone input into the frames sent to the server on the audio
+ * rendering thread, so React rendering on the main thread cannot delay or drop
+ * them. The input is resampled to the target rate (linear interpolation; it is
+ * a no-op when the context already runs at that rate, as requested by
+ * AudioService), cut into fixed-size frames, encoded to 16-bit PCM and tagged
+ * with a voice activity decision. Levels of the raw input are metered too.
+ *
+ * Captured frames are written to a SharedArrayBuffer ring buffer when one is
+ * passed in the processor options (cross-origin isolated pages only), and
+ * otherwise transferred over the port. Ring buffer layout:
+ *   Int32[0]  frames written      Int32[1]  frames read      Int32[2]  frames dropped
+ *   Uint8[16 .. 16 + slots)       voice flag of each slot
+ *   Int16[dataOffset / 2 ..]      slots * frameSamples samples
+ * where dataOffset is 16 + slots rounded up to a multiple of 4.
+ *
+ * Messages received on the port:
+ *   { type: 'start' }                              start capturing frames
+ *   { type: 'stop' }                               stop capturing, drop the partial frame
+ *
+ * Messages posted on the port:
+ *   { type: 'level', rms, peak, clipping, voice }  input level in dB, every level interval
+ *   { type: 'frame', samples, voice }              captured Int16Array frame, without a ring
+ * @version 1.0.0
+ */
+
+const HEADER_BYTES = 16;
+const WRITE_INDEX = 0;
+const READ_INDEX = 1;
+const DROPPED_INDEX = 2;
+/** Sample magnitude counted as clipping, about -0.1dB */
+const CLIP_THRESHOLD = 0.99;
+/** Lowest level reported, matching the noise floor used by the level meters */
+const NOISE_FLOOR_DB = -45;
+
+const toDb = (amplitude) => Math.max(20 * Math.log10(amplitude), NOISE_FLOOR_DB);
+
+class AudioCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const {
+      targetSampleRate = 16000,
+      frameSamples = 320,
+      vadThresholdDb = -26,
+      levelInterval = 50,
+      ring = null
+    } = options.processorOptions ?? {};
+
+    this.step = sampleRate / targetSampleRate;
+    this.position = 0;
+    this.previous = 0;
+    this.frameSamples = frameSamples;
+    this.frame = new Int16Array(frameSamples);
+    this.frameFill = 0;
+    this.frameEnergy = 0;
+    this.vadEnergy = Math.pow(10, vadThresholdDb / 10);
+    this.voice = false;
+    this.capturing = false;
+
+    this.levelFrames = Math.max(Math.round((levelInterval / 1000) * sampleRate), 128);
+    this.levelCount = 0;
+    this.levelSum = 0;
+    this.levelPeak = 0;
+    this.levelClipping = false;
+
+    this.ring = null;
+    if (ring) {
+      const slots = ring.slots;
+      const dataOffset = HEADER_BYTES + Math.ceil(slots / 4) * 4;
+      this.ring = {
+        slots,
+        header: new Int32Array(ring.buffer, 0, HEADER_BYTES / 4),
+        flags: new Uint8Array(ring.buffer, HEADER_BYTES, slots),
+        data: new Int16Array(ring.buffer, dataOffset, slots * frameSamples)
+      };
+    }
+
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(message) {
+    switch (message.type) {
+      case 'start':
+        this.capturing = true;
+        break;
+      case 'stop':
+        this.capturing = false;
+        this.frameFill = 0;
+        this.frameEnergy = 0;
+        break;
+      default:
+        break;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0]?.[0];
+    if (!channel) {
+      return true;
+    }
+
+    this.meter(channel);
+    this.resample(channel);
+    return true;
+  }
+
+  meter(channel) {
+    for (let i = 0; i < channel.length; i++) {
+      const magnitude = Math.abs(channel[i]);
+      this.levelSum += magnitude * magnitude;
+      if (magnitude > this.levelPeak) {
+        this.levelPeak = magnitude;
+      }
+      if (magnitude > CLIP_THRESHOLD) {
+        this.levelClipping = true;
+      }
+    }
+    this.levelCount += channel.length;
+
+    if (this.levelCount < this.levelFrames) {
+      return;
+    }
+    this.port.postMessage({
+      type: 'level',
+      rms: toDb(Math.sqrt(this.levelSum / this.levelCount)),
+      peak: toDb(this.levelPeak),
+      clipping: this.levelClipping,
+      voice: this.voice
+    });
+    this.levelCount = 0;
+    this.levelSum = 0;
+    this.levelPeak = 0;
+    this.levelClipping = false;
+  }
+
+  /**
+   * Reads the input at the target rate; positions are relative to the last
+   * sample of the previous render quantum, which sits at index 0
+   */
+  resample(channel) {
+    while (this.position < channel.length) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const before = index === 0 ? this.previous : channel[index - 1];
+      this.pushSample(before + (channel[index] - before) * fraction);
+      this.position += this.step;
+    }
+    this.position -= channel.length;
+    this.previous = channel[channel.length - 1];
+  }
+
+  pushSample(value) {
+    const sample = Math.max(-1, Math.min(1, value));
+    this.frameEnergy += sample * sample;
+    this.frame[this.frameFill++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+
+    if (this.frameFill < this.frameSamples) {
+      return;
+    }
+    this.voice = this.frameEnergy / this.frameSamples > this.vadEnergy;
+    if (this.capturing) {
+      this.emitFrame();
+    }
+    this.frameFill = 0;
+    this.frameEnergy = 0;
+  }
+
+  emitFrame() {
+    const ring = this.ring;
+    if (!ring) {
+      const samples = this.frame;
+      this.frame = new Int16Array(this.frameSamples);
+      this.port.postMessage({ type: 'frame', samples, voice: this.voice }, [samples.buffer]);
+      return;
+    }
+
+    const written = Atomics.load(ring.header, WRITE_INDEX);
+    const read = Atomics.load(ring.header, READ_INDEX);
+    if (written - read >= ring.slots) {
+      // The main thread has fallen behind; keep the frames it has yet to read
+      Atomics.add(ring.header, DROPPED_INDEX, 1);
+      return;
+    }
+
+    const slot = written % ring.slots;
+    ring.data.set(this.frame, slot * this.frameSamples);
+    ring.flags[slot] = this.voice ? 1 : 0;
+    Atomics.store(ring.header, WRITE_INDEX, written + 1);
+  }
+}
+
+registerProcessor('audio-capture', AudioCaptureProcessor);
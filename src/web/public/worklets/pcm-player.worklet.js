@@ -0,0 +1,92 @@
+/**
+ * PCM Player Worklet
+ * Renders streamed mono Float32 audio pushed from the main thread so playback
+ * can start before a reply has been fully received.
+ *
+ * Messages received on the port:
+ *   { type: 'push', samples: Float32Array }  queue samples for playback
+ *   { type: 'end' }                          no more samples for this stream
+ *   { type: 'clear' }                        drop queued samples immediately
+ *
+ * Messages posted on the port:
+ *   { type: 'progress', playedFrames }       frames rendered so far
+ *   { type: 'drained', playedFrames }        queue emptied after 'end'
+ * @version 1.0.0
+ */
+
+class PcmPlayerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const progressInterval = options.processorOptions?.progressInterval ?? 50;
+
+    this.queue = [];
+    this.readOffset = 0;
+    this.playedFrames = 0;
+    this.ended = false;
+    this.progressFrames = Math.max(Math.round((progressInterval / 1000) * sampleRate), 128);
+    this.framesSinceProgress = 0;
+
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(message) {
+    switch (message.type) {
+      case 'push':
+        this.queue.push(message.samples);
+        this.ended = false;
+        break;
+      case 'end':
+        this.ended = true;
+        break;
+      case 'clear':
+        this.queue = [];
+        this.readOffset = 0;
+        this.playedFrames = 0;
+        this.ended = false;
+        break;
+      default:
+        break;
+    }
+  }
+
+  process(_inputs, outputs) {
+    const output = outputs[0];
+    const channel = output[0];
+    let written = 0;
+
+    while (written < channel.length && this.queue.length > 0) {
+      const current = this.queue[0];
+      const count = Math.min(channel.length - written, current.length - this.readOffset);
+      channel.set(current.subarray(this.readOffset, this.readOffset + count), written);
+      written += count;
+      this.readOffset += count;
+
+      if (this.readOffset >= current.length) {
+        this.queue.shift();
+        this.readOffset = 0;
+      }
+    }
+
+    // Underruns render silence; copy the mono signal to any extra channels
+    channel.fill(0, written);
+    for (let i = 1; i < output.length; i++) {
+      output[i].set(channel);
+    }
+
+    this.playedFrames += written;
+    this.framesSinceProgress += written;
+
+    if (this.ended && this.queue.length === 0) {
+      this.ended = false;
+      this.framesSinceProgress = 0;
+      this.port.postMessage({ type: 'drained', playedFrames: this.playedFrames });
+    } else if (this.framesSinceProgress >= this.progressFrames) {
+      this.framesSinceProgress = 0;
+      this.port.postMessage({ type: 'progress', playedFrames: this.playedFrames });
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('pcm-player', PcmPlayerProcessor);
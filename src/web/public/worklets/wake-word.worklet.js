@@ -0,0 +1,372 @@
+/**
+ * Wake Word Worklet
+ * Spots a spoken wake phrase in the microphone input entirely inside the
+ * browser. Each 10ms frame is reduced to mel-cepstral coefficients, and the
+ * most recent frames are compared with the phrase samples recorded by the user
+ * (subsequence dynamic time warping). Audio never leaves this processor: it
+ * only reports detections and, while enrolling, the cepstra of a sample.
+ *
+ * Messages received on the port:
+ *   { type: 'configure', templates, threshold }  phrase samples and match threshold
+ *   { type: 'enroll' }                           capture the next utterance as a sample
+ *   { type: 'cancel' }                           abandon a pending enrollment
+ *   { type: 'reset' }                            forget the audio heard so far
+ *
+ * Messages posted on the port:
+ *   { type: 'detected', distance }               phrase heard
+ *   { type: 'enrolled', features }               sample captured, frames of cepstra
+ * @version 1.0.0
+ */
+
+const FRAME_MS = 25;
+const HOP_MS = 10;
+const MEL_BANDS = 26;
+const CEPSTRA = 12;
+const MAX_MEL_HZ = 8000;
+const PRE_EMPHASIS = 0.97;
+/** Frames between two matching passes */
+const MATCH_INTERVAL = 5;
+/** Log-energy margin over the noise floor that counts as speech */
+const SPEECH_MARGIN = 2.5;
+/** Frames of silence that end an utterance */
+const SILENCE_FRAMES = 30;
+/** Adaptation rate of the running cepstral mean */
+const MEAN_RATE = 0.01;
+/** Frames ignored after a detection so one utterance triggers once */
+const REFRACTORY_FRAMES = 100;
+/** Frames kept when there is no sample yet to size the history by */
+const DEFAULT_HISTORY = 200;
+const MAX_ENROLLMENT_FRAMES = 300;
+const MIN_ENROLLMENT_FRAMES = 20;
+
+const melScale = (hz) => 2595 * Math.log10(1 + hz / 700);
+const hzScale = (mel) => 700 * (10 ** (mel / 2595) - 1);
+
+/**
+ * In-place radix-2 FFT of a real signal held in re, with im zeroed
+ */
+const fft = (re, im) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+};
+
+const distance = (a, b) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum);
+};
+
+/**
+ * Subtracts the mean of each coefficient so channel and level differences cancel out
+ */
+const normalize = (frames) => {
+  if (frames.length === 0) return frames;
+  const mean = new Array(CEPSTRA).fill(0);
+  frames.forEach((frame) => frame.forEach((value, i) => { mean[i] += value / frames.length; }));
+  return frames.map((frame) => frame.map((value, i) => value - mean[i]));
+};
+
+/**
+ * Average per-step cost of the best alignment of the whole template with a
+ * stretch of frames that ends at the last frame
+ */
+const matchTemplate = (template, frames) => {
+  const m = frames.length;
+  let previous = new Float64Array(m);
+  let previousSteps = new Float64Array(m);
+  let current = new Float64Array(m);
+  let currentSteps = new Float64Array(m);
+
+  // The alignment may start at any frame
+  for (let j = 0; j < m; j++) {
+    previous[j] = distance(template[0], frames[j]);
+    previousSteps[j] = 1;
+  }
+
+  for (let i = 1; i < template.length; i++) {
+    current[0] = previous[0] + distance(template[i], frames[0]);
+    currentSteps[0] = previousSteps[0] + 1;
+    for (let j = 1; j < m; j++) {
+      let cost = previous[j - 1];
+      let steps = previousSteps[j - 1];
+      if (previous[j] < cost) {
+        cost = previous[j];
+        steps = previousSteps[j];
+      }
+      if (current[j - 1] < cost) {
+        cost = current[j - 1];
+        steps = currentSteps[j - 1];
+      }
+      current[j] = cost + distance(template[i], frames[j]);
+      currentSteps[j] = steps + 1;
+    }
+    [previous, current] = [current, previous];
+    [previousSteps, currentSteps] = [currentSteps, previousSteps];
+  }
+
+  // Alignments ending within the last matching interval
+  let best = Infinity;
+  for (let j = Math.max(0, m - MATCH_INTERVAL); j < m; j++) {
+    best = Math.min(best, previous[j] / previousSteps[j]);
+  }
+  return best;
+};
+
+class WakeWordProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.frameLength = Math.round((FRAME_MS / 1000) * sampleRate);
+    this.hopLength = Math.round((HOP_MS / 1000) * sampleRate);
+    this.fftSize = 2 ** Math.ceil(Math.log2(this.frameLength));
+    this.window = Float32Array.from({ length: this.frameLength }, (_, i) =>
+      0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (this.frameLength - 1)));
+    this.filters = this.createMelFilters();
+    this.re = new Float32Array(this.fftSize);
+    this.im = new Float32Array(this.fftSize);
+
+    this.samples = new Float32Array(this.frameLength);
+    this.sampleCount = 0;
+    this.lastSample = 0;
+
+    this.templates = [];
+    this.threshold = 0;
+    this.historyLength = DEFAULT_HISTORY;
+    this.history = [];
+    this.noiseFloor = null;
+    this.cepstralMean = null;
+    this.speechFrames = 0;
+    this.silentFrames = SILENCE_FRAMES;
+    this.framesUntilMatch = MATCH_INTERVAL;
+    this.refractory = 0;
+    this.enrollment = null;
+
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(message) {
+    switch (message.type) {
+      case 'configure':
+        this.templates = message.templates.filter((template) => template.length > 0);
+        this.threshold = message.threshold;
+        this.historyLength = this.templates.length > 0
+          ? Math.round(Math.max(...this.templates.map((template) => template.length)) * 1.5)
+          : DEFAULT_HISTORY;
+        this.reset();
+        break;
+      case 'enroll':
+        this.enrollment = { frames: [], silentFrames: 0 };
+        break;
+      case 'cancel':
+        this.enrollment = null;
+        break;
+      case 'reset':
+        this.reset();
+        break;
+      default:
+        break;
+    }
+  }
+
+  reset() {
+    this.history = [];
+    this.speechFrames = 0;
+    this.silentFrames = SILENCE_FRAMES;
+    this.framesUntilMatch = MATCH_INTERVAL;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) {
+      return true;
+    }
+
+    for (let i = 0; i < channel.length; i++) {
+      // Pre-emphasis boosts the high frequencies that distinguish speech sounds
+      const sample = channel[i] - PRE_EMPHASIS * this.lastSample;
+      this.lastSample = channel[i];
+      this.samples[this.sampleCount++] = sample;
+
+      if (this.sampleCount === this.frameLength) {
+        this.handleFrame(this.extractFeatures());
+        this.samples.copyWithin(0, this.hopLength);
+        this.sampleCount -= this.hopLength;
+      }
+    }
+
+    return true;
+  }
+
+  extractFeatures() {
+    this.re.fill(0);
+    this.im.fill(0);
+    for (let i = 0; i < this.frameLength; i++) {
+      this.re[i] = this.samples[i] * this.window[i];
+    }
+    fft(this.re, this.im);
+
+    const power = new Float32Array(this.fftSize / 2 + 1);
+    let energy = 1e-10;
+    for (let k = 0; k < power.length; k++) {
+      power[k] = this.re[k] * this.re[k] + this.im[k] * this.im[k];
+      energy += power[k];
+    }
+
+    const logMel = this.filters.map((filter) => {
+      let sum = 1e-10;
+      for (let k = filter.start; k < filter.weights.length + filter.start; k++) {
+        sum += power[k] * filter.weights[k - filter.start];
+      }
+      return Math.log(sum);
+    });
+
+    // DCT-II of the log mel energies; the first coefficient (loudness) is dropped
+    const cepstra = new Array(CEPSTRA);
+    for (let c = 1; c <= CEPSTRA; c++) {
+      let sum = 0;
+      for (let b = 0; b < MEL_BANDS; b++) {
+        sum += logMel[b] * Math.cos((Math.PI * c * (b + 0.5)) / MEL_BANDS);
+      }
+      cepstra[c - 1] = sum * Math.sqrt(2 / MEL_BANDS);
+    }
+
+    return { cepstra, energy: Math.log(energy) };
+  }
+
+  handleFrame({ cepstra, energy }) {
+    // The noise floor follows quiet frames quickly and loud ones slowly
+    if (this.noiseFloor === null) {
+      this.noiseFloor = energy;
+    } else {
+      const rate = energy < this.noiseFloor ? 0.1 : 0.001;
+      this.noiseFloor += rate * (energy - this.noiseFloor);
+    }
+    const isSpeech = energy > this.noiseFloor + SPEECH_MARGIN;
+
+    if (this.enrollment) {
+      this.handleEnrollmentFrame(cepstra, isSpeech);
+      return;
+    }
+
+    if (this.refractory > 0) {
+      this.refractory--;
+      return;
+    }
+
+    // Live frames are normalized by the running mean of speech, samples by their own mean
+    if (this.cepstralMean === null) {
+      this.cepstralMean = cepstra.slice();
+    } else if (isSpeech) {
+      cepstra.forEach((value, i) => {
+        this.cepstralMean[i] += MEAN_RATE * (value - this.cepstralMean[i]);
+      });
+    }
+    this.history.push(cepstra.map((value, i) => value - this.cepstralMean[i]));
+    if (this.history.length > this.historyLength) {
+      this.history.shift();
+    }
+
+    this.speechFrames = isSpeech ? this.speechFrames + 1 : this.speechFrames;
+    this.silentFrames = isSpeech ? 0 : this.silentFrames + 1;
+    if (this.silentFrames >= SILENCE_FRAMES) {
+      this.speechFrames = 0;
+    }
+
+    if (--this.framesUntilMatch > 0) {
+      return;
+    }
+    this.framesUntilMatch = MATCH_INTERVAL;
+    this.match();
+  }
+
+  match() {
+    if (this.templates.length === 0) {
+      return;
+    }
+    const shortest = Math.min(...this.templates.map((template) => template.length));
+    if (this.speechFrames < shortest / 3) {
+      return;
+    }
+
+    const best = Math.min(
+      ...this.templates.map((template) => matchTemplate(template, this.history))
+    );
+    if (best <= this.threshold) {
+      this.port.postMessage({ type: 'detected', distance: best });
+      this.refractory = REFRACTORY_FRAMES;
+      this.reset();
+    }
+  }
+
+  handleEnrollmentFrame(cepstra, isSpeech) {
+    const enrollment = this.enrollment;
+    if (enrollment.frames.length === 0 && !isSpeech) {
+      return;
+    }
+
+    enrollment.frames.push(cepstra);
+    enrollment.silentFrames = isSpeech ? 0 : enrollment.silentFrames + 1;
+
+    const finished = enrollment.silentFrames >= SILENCE_FRAMES ||
+      enrollment.frames.length >= MAX_ENROLLMENT_FRAMES;
+    if (!finished) {
+      return;
+    }
+
+    // Trailing silence is not part of the phrase
+    const frames = enrollment.frames.slice(0, enrollment.frames.length - enrollment.silentFrames);
+    if (frames.length < MIN_ENROLLMENT_FRAMES) {
+      this.enrollment = { frames: [], silentFrames: 0 };
+      return;
+    }
+
+    this.enrollment = null;
+    this.port.postMessage({ type: 'enrolled', features: normalize(frames) });
+  }
+
+  createMelFilters() {
+    const maxMel = melScale(Math.min(MAX_MEL_HZ, sampleRate / 2));
+    const bins = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+      Math.floor(((this.fftSize + 1) * hzScale((maxMel * i) / (MEL_BANDS + 1))) / sampleRate));
+
+    return Array.from({ length: MEL_BANDS }, (_, b) => {
+      const [left, center, right] = [bins[b], bins[b + 1], bins[b + 2]];
+      const weights = [];
+      for (let k = left; k <= right; k++) {
+        weights.push(k <= center
+          ? (k - left) / Math.max(1, center - left)
+          : (right - k) / Math.max(1, right - center));
+      }
+      return { start: left, weights };
+    });
+  }
+}
+
+registerProcessor('wake-word', WakeWordProcessor);
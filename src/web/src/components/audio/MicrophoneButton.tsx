@@ -1,10 +1,11 @@
-import React, { useCallback, useEffect, useState, useContext } from 'react';
+import React, { useCallback, useEffect, useRef, useState, useContext } from 'react';
 import styled from '@emotion/styled';
 import MicIcon from '@mui/icons-material/Mic';
 import { useAudio } from '../../hooks/useAudio';
 import { Button } from '../shared/Button';
 import { VoiceActivityDisplay } from './VoiceActivityDisplay';
 import { ThemeContext } from '../../theme/themeProvider';
+import { TurnTakingMode, WakeWordConfig } from '../../types/audio.types';
 
 // Constants for button states and animations
 const DEBOUNCE_DELAY = 300;
@@ -16,6 +17,12 @@ interface MicrophoneButtonProps {
   disabled?: boolean;
   className?: string;
   onError?: (error: Error) => void;
+  /** Wake word that must be heard before each turn, null to record directly */
+  wakeWord?: WakeWordConfig | null;
+  /** How the start and end of each turn are decided */
+  turnTakingMode?: TurnTakingMode;
+  /** Called each time a turn ends */
+  onTurnEnd?: () => void;
 }
 
 // Styled components for enhanced visual feedback
@@ -77,6 +84,12 @@ const ErrorMessage = styled.div`
   }
 `;
 
+const ModeHint = styled.div`
+  color: var(--text-secondary);
+  font-size: 0.875rem;
+  text-align: center;
+`;
+
 const VoiceActivityWrapper = styled.div<{ size: string }>`
   position: absolute;
   bottom: ${({ size }) => size === 'large' ? '-48px' : '-36px'};
@@ -89,21 +102,27 @@ export const MicrophoneButton: React.FC<MicrophoneButtonProps> = React.memo(({
   size = 'medium',
   disabled = false,
   className = '',
-  onError
+  onError,
+  wakeWord = null,
+  turnTakingMode = TurnTakingMode.TAP_TO_TOGGLE,
+  onTurnEnd
 }) => {
   const {
     isRecording,
+    isWaitingForWakeWord,
     audioLevel,
     isVoiceDetected,
     startRecording,
     stopRecording,
     error,
     retryRecording
-  } = useAudio();
+  } = useAudio(undefined, { wakeWord, turnTakingMode, onTurnEnd });
 
   const { currentTheme } = useContext(ThemeContext);
   const [isProcessing, setIsProcessing] = useState(false);
   const [displayError, setDisplayError] = useState<Error | null>(null);
+  const holdRef = useRef<Promise<void> | null>(null);
+  const pushToTalk = turnTakingMode === TurnTakingMode.PUSH_TO_TALK;
 
   // Handle errors with automatic retry
   useEffect(() => {
@@ -128,11 +147,66 @@ export const MicrophoneButton: React.FC<MicrophoneButtonProps> = React.memo(({
     };
   }, [isRecording, stopRecording]);
 
+  // Push-to-talk: record while the button or space bar is held
+  const handleHoldStart = useCallback(() => {
+    if (!pushToTalk || disabled || holdRef.current) return;
+
+    const hold = startRecording();
+    hold.catch(() => undefined); // Reported by the hook and on release
+    holdRef.current = hold;
+  }, [pushToTalk, disabled, startRecording]);
+
+  const handleHoldEnd = useCallback(async () => {
+    const hold = holdRef.current;
+    if (!hold) return;
+    holdRef.current = null;
+
+    try {
+      // A release before recording has started still ends the turn
+      await hold;
+      await stopRecording();
+    } catch (err) {
+      console.error('Push-to-talk failed:', err);
+    }
+  }, [stopRecording]);
+
+  // Space bar acts as the talk button unless the user is typing
+  useEffect(() => {
+    if (!pushToTalk) return;
+
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || event.repeat || isTyping(event.target)) return;
+      event.preventDefault();
+      handleHoldStart();
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || !holdRef.current) return;
+      event.preventDefault();
+      void handleHoldEnd();
+    };
+    const handleBlur = () => {
+      void handleHoldEnd();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [pushToTalk, handleHoldStart, handleHoldEnd]);
+
   // Handle microphone button click with debouncing
   const handleMicrophoneClick = useCallback(async (event: React.MouseEvent<HTMLButtonElement>) => {
     event.preventDefault();
     
-    if (isProcessing || disabled) return;
+    if (pushToTalk || isProcessing || disabled) return;
     
     setIsProcessing(true);
     
@@ -156,7 +230,16 @@ export const MicrophoneButton: React.FC<MicrophoneButtonProps> = React.memo(({
     } finally {
       setTimeout(() => setIsProcessing(false), DEBOUNCE_DELAY);
     }
-  }, [isRecording, isProcessing, disabled, startRecording, stopRecording, retryRecording, onError]);
+  }, [
+    pushToTalk,
+    isRecording,
+    isProcessing,
+    disabled,
+    startRecording,
+    stopRecording,
+    retryRecording,
+    onError
+  ]);
 
   // Calculate button dimensions based on size
   const buttonSize = {
@@ -165,6 +248,12 @@ export const MicrophoneButton: React.FC<MicrophoneButtonProps> = React.memo(({
     large: { button: 72, icon: 32 }
   }[size];
 
+  const ariaLabel = pushToTalk
+    ? (isRecording ? 'Release to send' : 'Hold to talk')
+    : isWaitingForWakeWord || (isRecording && turnTakingMode === TurnTakingMode.HANDS_FREE)
+      ? 'Stop listening'
+      : isRecording ? 'Stop recording' : 'Start recording';
+
   return (
     <Container size={size} className={className}>
       <StyledButton
@@ -172,10 +261,14 @@ export const MicrophoneButton: React.FC<MicrophoneButtonProps> = React.memo(({
         size={size}
         disabled={disabled || isProcessing}
         onClick={handleMicrophoneClick}
+        onPointerDown={pushToTalk ? handleHoldStart : undefined}
+        onPointerUp={pushToTalk ? handleHoldEnd : undefined}
+        onPointerLeave={pushToTalk ? handleHoldEnd : undefined}
+        onPointerCancel={pushToTalk ? handleHoldEnd : undefined}
         $isRecording={isRecording}
         $hasError={!!error}
         $isVoiceDetected={isVoiceDetected}
-        aria-label={isRecording ? 'Stop recording' : 'Start recording'}
+        aria-label={ariaLabel}
         aria-pressed={isRecording}
         aria-disabled={disabled || isProcessing}
         style={{
@@ -193,7 +286,17 @@ export const MicrophoneButton: React.FC<MicrophoneButtonProps> = React.memo(({
         />
       </StyledButton>
 
-      {isRecording && (
+      {isWaitingForWakeWord && wakeWord && (
+        <ModeHint role="status" aria-live="polite">
+          Say &ldquo;{wakeWord.phrase}&rdquo; to start
+        </ModeHint>
+      )}
+
+      {pushToTalk && !isRecording && !displayError && (
+        <ModeHint>Hold the button or the space bar to talk</ModeHint>
+      )}
+
+      {isRecording && !isWaitingForWakeWord && (
         <VoiceActivityWrapper size={size}>
           <VoiceActivityDisplay
             width={buttonSize.button * 2}
@@ -11,6 +11,7 @@ import { useVirtualizer } from '@tanstack/react-virtual';
 import { MessageList } from './MessageList';
 import { Conversation, ConversationStatus } from '../../types/conversation.types';
 import { useConversation } from '../../hooks/useConversation';
+import { useSpeechPlayback } from '../../hooks/useSpeechPlayback';
 import { THEME_COLORS, SPACING_UNIT } from '../../constants/theme.constants';
 
 // Styled components for conversation layout
@@ -82,7 +83,14 @@ export const ConversationHistory: React.FC<ConversationHistoryProps> = ({
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [isScrolledToBottom, setIsScrolledToBottom] = useState(true);
-  const { conversation, isProcessing, error, resetErrorState } = useConversation();
+  const {
+    conversation,
+    liveTranscript,
+    isProcessing,
+    error,
+    resetErrorState
+  } = useConversation();
+  const playbackPosition = useSpeechPlayback();
 
   // Set up virtualizer for efficient message rendering
   const rowVirtualizer = useVirtualizer({
@@ -151,6 +159,8 @@ export const ConversationHistory: React.FC<ConversationHistoryProps> = ({
       {conversation ? (
         <MessageList
           messages={conversation.messages}
+          liveTranscript={liveTranscript}
+          playbackPosition={playbackPosition}
           className="conversation-messages"
           onScroll={handleScroll}
           virtualized
@@ -7,6 +7,7 @@
 import React from 'react'; // ^18.2.0
 import styled from '@emotion/styled'; // ^11.11.0
 import { Message, MessageRole } from '../../types/conversation.types';
+import { SpeechMark, SpeechMarkType } from '../../types/voice.types';
 import { THEME_COLORS } from '../../constants/theme.constants';
 import { getRelativeTime } from '../../utils/date.utils';
 
@@ -14,6 +15,7 @@ import { getRelativeTime } from '../../utils/date.utils';
 interface MessageBubbleProps {
   message: Message;
   isTyping?: boolean;
+  playbackPosition?: number | null;
 }
 
 // Styled components for message bubble layout and styling
@@ -51,6 +53,12 @@ const MessageText = styled.p`
   word-break: break-word;
 `;
 
+const SpokenWord = styled.mark`
+  background-color: ${THEME_COLORS.primary.light};
+  color: inherit;
+  border-radius: 2px;
+`;
+
 const Timestamp = styled.span`
   display: block;
   font-size: 0.75rem;
@@ -101,16 +109,39 @@ const getMessageTextColor = (role: MessageRole): string => {
   }
 };
 
+// Helper function to find the word being spoken at a playback position
+const findSpokenWord = (
+  marks: SpeechMark[] | undefined,
+  position: number | null
+): SpeechMark | null => {
+  if (!marks || position === null) {
+    return null;
+  }
+
+  let spoken: SpeechMark | null = null;
+  for (const mark of marks) {
+    if (mark.time > position) {
+      break;
+    }
+    if (mark.type === SpeechMarkType.WORD && mark.start !== undefined && mark.end !== undefined) {
+      spoken = mark;
+    }
+  }
+  return spoken;
+};
+
 /**
  * MessageBubble component for rendering individual conversation messages
  * Implements WCAG 2.1 Level AA compliance and supports animations
  */
 export const MessageBubble: React.FC<MessageBubbleProps> = React.memo(({ 
   message, 
-  isTyping = false 
+  isTyping = false,
+  playbackPosition = null
 }) => {
   const alignment = getMessageAlignment(message.role);
   const relativeTime = getRelativeTime(message.timestamp);
+  const spokenWord = findSpokenWord(message.speechMarks, playbackPosition);
 
   return (
     <BubbleContainer
@@ -124,7 +155,15 @@ export const MessageBubble: React.FC<MessageBubbleProps> = React.memo(({
         aria-live={message.role === MessageRole.AI ? "polite" : "off"}
       >
         <MessageText>
-          {message.content}
+          {spokenWord ? (
+            <>
+              {message.content.slice(0, spokenWord.start)}
+              <SpokenWord>{message.content.slice(spokenWord.start, spokenWord.end)}</SpokenWord>
+              {message.content.slice(spokenWord.end)}
+            </>
+          ) : (
+            message.content
+          )}
         </MessageText>
         <Timestamp
           aria-label={`Sent ${relativeTime}`}
@@ -8,7 +8,7 @@ import React, { useRef, useCallback, useState, useEffect } from 'react'; // ^18.
 import styled from '@emotion/styled'; // ^11.11.0
 import { useVirtualizer } from '@tanstack/react-virtual'; // ^3.0.0
 import { useIntersectionObserver } from '@react-hooks/intersection-observer'; // ^1.0.0
-import { Message, MessageRole } from '../../types/conversation.types';
+import { LiveTranscript, Message, MessageRole } from '../../types/conversation.types';
 import { MessageBubble } from './MessageBubble';
 import { THEME_COLORS, SPACING_UNIT } from '../../constants/theme.constants';
 
@@ -74,6 +74,8 @@ const ErrorMessage = styled.div`
 // Props interface for MessageList component
 interface MessageListProps {
   messages: Message[];
+  liveTranscript?: LiveTranscript | null;
+  playbackPosition?: number | null;
   className?: string;
   ariaLabel?: string;
   maxHeight: string | number;
@@ -120,12 +122,25 @@ const useMessageListHandlers = (
   };
 };
 
+/**
+ * Builds the in-progress user bubble for a live transcript
+ */
+const toLiveMessage = (liveTranscript: LiveTranscript): Message => ({
+  id: `live-${liveTranscript.utteranceId}`,
+  content: liveTranscript.content,
+  role: MessageRole.USER,
+  timestamp: liveTranscript.timestamp,
+  hasAudio: true
+});
+
 /**
  * MessageList component for rendering virtualized conversation messages
  * Implements WCAG 2.1 Level AA compliance with virtual scrolling
  */
 export const MessageList: React.FC<MessageListProps> = ({
   messages,
+  liveTranscript = null,
+  playbackPosition = null,
   className,
   ariaLabel = 'Conversation messages',
   maxHeight,
@@ -144,9 +159,15 @@ export const MessageList: React.FC<MessageListProps> = ({
     scrollToBottom
   } = useMessageListHandlers(messages, onScrollEnd);
 
+  // The live transcript renders as a trailing bubble until the utterance is committed
+  const items = liveTranscript ? [...messages, toLiveMessage(liveTranscript)] : messages;
+
+  // Only the latest reply can be playing
+  const lastReplyIndex = items.findLastIndex((message) => message.role === MessageRole.AI);
+
   // Set up virtualizer for efficient message rendering
   const rowVirtualizer = useVirtualizer({
-    count: messages.length,
+    count: items.length,
     getScrollElement: () => containerRef.current,
     estimateSize: () => 80,
     overscan: 5
@@ -163,7 +184,7 @@ export const MessageList: React.FC<MessageListProps> = ({
     if (isAtBottom && containerRef.current) {
       containerRef.current.scrollTop = containerRef.current.scrollHeight;
     }
-  }, [messages, isAtBottom]);
+  }, [messages, liveTranscript, isAtBottom]);
 
   // Error boundary effect
   useEffect(() => {
@@ -193,8 +214,10 @@ export const MessageList: React.FC<MessageListProps> = ({
         }}
       >
         {rowVirtualizer.getVirtualItems().map((virtualRow) => {
-          const message = messages[virtualRow.index];
-          const isLastMessage = virtualRow.index === messages.length - 1;
+          const message = items[virtualRow.index];
+          const isLastMessage = virtualRow.index === items.length - 1;
+          const isLive = liveTranscript !== null && isLastMessage;
+          const isLastReply = virtualRow.index === lastReplyIndex;
           
           return (
             <div
@@ -210,7 +233,8 @@ export const MessageList: React.FC<MessageListProps> = ({
             >
               <MessageBubble
                 message={message}
-                isTyping={message.role === MessageRole.AI && isLastMessage}
+                isTyping={isLive || (message.role === MessageRole.AI && isLastMessage)}
+                playbackPosition={isLastReply ? playbackPosition : null}
               />
             </div>
           );
@@ -7,6 +7,7 @@ import { useAudio } from '../../hooks/useAudio';
 import { Button } from '../shared/Button';
 import { Tooltip } from '../shared/Tooltip';
 import { AUDIO_PROCESSING_CONSTANTS } from '../../constants/audio.constants';
+import { TurnTakingMode } from '../../types/audio.types';
 
 // Styled components for the audio settings panel
 const SettingsContainer = styled.div`
@@ -54,6 +55,23 @@ const Slider = styled.input`
   }
 `;
 
+const ModeSelect = styled.select`
+  flex: 2;
+  padding: 6px 8px;
+  color: var(--text-primary);
+  background: var(--background-paper);
+  border: 1px solid var(--color-secondary-light);
+  border-radius: 4px;
+  font-size: 0.875rem;
+`;
+
+// Turn-taking modes offered to the user
+const TURN_TAKING_OPTIONS: Array<{ value: TurnTakingMode; label: string }> = [
+  { value: TurnTakingMode.PUSH_TO_TALK, label: 'Push to talk (hold button or space bar)' },
+  { value: TurnTakingMode.TAP_TO_TOGGLE, label: 'Tap to start and stop' },
+  { value: TurnTakingMode.HANDS_FREE, label: 'Hands-free (ends turns on silence)' }
+];
+
 const VolumeIndicator = styled.div<{ level: number }>`
   width: 60px;
   height: 8px;
@@ -157,6 +175,20 @@ export const AudioSettings: React.FC<AudioSettingsProps> = ({
     }
   }, [localSettings, updateAudioSettings]);
 
+  // Handle turn-taking mode changes
+  const handleTurnTakingModeChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    try {
+      const newSettings = {
+        ...localSettings,
+        turnTakingMode: event.target.value as TurnTakingMode
+      };
+      setLocalSettings(newSettings);
+      updateAudioSettings(newSettings);
+    } catch (error) {
+      onError?.(error as Error);
+    }
+  }, [localSettings, updateAudioSettings]);
+
   // Handle audio processing errors
   useEffect(() => {
     if (audioError) {
@@ -223,6 +255,24 @@ export const AudioSettings: React.FC<AudioSettingsProps> = ({
         </Switch>
       </SettingRow>
 
+      <SettingRow>
+        <Label htmlFor="turn-taking-mode">
+          Turn Taking
+          <Tooltip content="Choose how your turn starts and ends when talking to the assistant">
+            <span aria-hidden="true"> ⓘ</span>
+          </Tooltip>
+        </Label>
+        <ModeSelect
+          id="turn-taking-mode"
+          value={localSettings.turnTakingMode ?? TurnTakingMode.TAP_TO_TOGGLE}
+          onChange={handleTurnTakingModeChange}
+        >
+          {TURN_TAKING_OPTIONS.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </ModeSelect>
+      </SettingRow>
+
       <SettingRow>
         <Button
           variant="outlined"
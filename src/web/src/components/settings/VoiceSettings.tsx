@@ -1,7 +1,7 @@
 /**
  * VoiceSettings Component
  * Provides a comprehensive interface for managing voice synthesis settings
- * with real-time preview capabilities and enhanced accessibility
+ * with real-time preview capabilities, wake word setup and enhanced accessibility
  * @version 1.0.0
  */
 
@@ -16,15 +16,21 @@ import {
   Box,
   IconButton,
   Alert,
-  CircularProgress
+  CircularProgress,
+  Switch,
+  FormControlLabel,
+  TextField,
+  Button
 } from '@mui/material';
-import { PlayArrow, Stop } from '@mui/icons-material';
+import { PlayArrow, Stop, Mic } from '@mui/icons-material';
 import debounce from 'lodash/debounce'; // v4.17.21
 
 import { VoiceId, VoiceMetadata, VoiceSynthesisOptions } from '../../types/voice.types';
 import { useSettings } from '../../hooks/useSettings';
+import { useAudio } from '../../hooks/useAudio';
 import { voiceService } from '../../services/voice.service';
 import { VOICE_SYNTHESIS_CONFIG } from '../../constants/voice.constants';
+import { WAKE_WORD_CONSTANTS } from '../../constants/audio.constants';
 
 const VoiceSettings: React.FC = () => {
   // State management
@@ -32,7 +38,10 @@ const VoiceSettings: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [previewPlaying, setPreviewPlaying] = useState(false);
+  const [isRecordingSample, setIsRecordingSample] = useState(false);
   const { settings, updateVoiceSettings } = useSettings();
+  const { recordWakeWordSample } = useAudio();
+  const [wakeWordPhrase, setWakeWordPhrase] = useState(settings.voice.wakeWordPhrase);
 
   // Local state for voice parameters
   const [voiceParams, setVoiceParams] = useState<VoiceSynthesisOptions>({
@@ -136,6 +145,50 @@ const VoiceSettings: React.FC = () => {
     debouncedUpdateSettings({ ...voiceParams, volume });
   };
 
+  // Handle wake word toggle
+  const handleWakeWordToggle = (event: React.ChangeEvent<HTMLInputElement>) => {
+    updateVoiceSettings({ ...settings.voice, wakeWordDetection: event.target.checked });
+  };
+
+  // Handle wake word sensitivity change
+  const handleSensitivityChange = (event: Event, newValue: number | number[]) => {
+    updateVoiceSettings({ ...settings.voice, wakeWordSensitivity: newValue as number });
+  };
+
+  // Changing the phrase discards samples of the previous one
+  const handlePhraseCommit = () => {
+    const phrase = wakeWordPhrase.trim();
+    if (!phrase || phrase === settings.voice.wakeWordPhrase) {
+      setWakeWordPhrase(settings.voice.wakeWordPhrase);
+      return;
+    }
+    updateVoiceSettings({ ...settings.voice, wakeWordPhrase: phrase, wakeWordSamples: [] });
+  };
+
+  // Record one more sample of the phrase; it never leaves the browser
+  const handleRecordSample = async () => {
+    try {
+      setIsRecordingSample(true);
+      const sample = await recordWakeWordSample();
+      await updateVoiceSettings({
+        ...settings.voice,
+        wakeWordSamples: [...settings.voice.wakeWordSamples, sample]
+      });
+      setError(null);
+    } catch (err) {
+      setError('No wake phrase heard. Please try again.');
+      console.error('Wake word sample error:', err);
+    } finally {
+      setIsRecordingSample(false);
+    }
+  };
+
+  const handleClearSamples = () => {
+    updateVoiceSettings({ ...settings.voice, wakeWordSamples: [] });
+  };
+
+  const sampleCount = settings.voice.wakeWordSamples?.length ?? 0;
+
   // Handle voice preview
   const handlePreview = async () => {
     if (previewPlaying) {
@@ -252,6 +305,75 @@ const VoiceSettings: React.FC = () => {
           {previewPlaying ? 'Playing preview...' : 'Click to preview voice'}
         </Typography>
       </Box>
+
+      <Box sx={{ mt: 4 }}>
+        <Typography variant="subtitle1" gutterBottom>
+          Wake Word
+        </Typography>
+
+        <FormControlLabel
+          control={
+            <Switch
+              checked={settings.voice.wakeWordDetection}
+              onChange={handleWakeWordToggle}
+            />
+          }
+          label="Start listening only after the wake phrase"
+        />
+
+        <TextField
+          fullWidth
+          label="Wake phrase"
+          value={wakeWordPhrase}
+          onChange={(event) => setWakeWordPhrase(event.target.value)}
+          onBlur={handlePhraseCommit}
+          inputProps={{ maxLength: 50 }}
+          sx={{ my: 2 }}
+          disabled={!settings.voice.wakeWordDetection || isRecordingSample}
+        />
+
+        <Typography gutterBottom>
+          Sensitivity ({settings.voice.wakeWordSensitivity})
+        </Typography>
+        <Slider
+          value={settings.voice.wakeWordSensitivity}
+          onChange={handleSensitivityChange}
+          min={0}
+          max={100}
+          step={5}
+          valueLabelDisplay="auto"
+          disabled={!settings.voice.wakeWordDetection}
+          aria-label="Wake word sensitivity"
+        />
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={isRecordingSample ? <CircularProgress size={16} /> : <Mic />}
+            onClick={handleRecordSample}
+            disabled={
+              !settings.voice.wakeWordDetection ||
+              isRecordingSample ||
+              sampleCount >= WAKE_WORD_CONSTANTS.MAX_SAMPLES
+            }
+          >
+            {isRecordingSample ? `Say "${settings.voice.wakeWordPhrase}"` : 'Record sample'}
+          </Button>
+          <Button
+            onClick={handleClearSamples}
+            disabled={sampleCount === 0 || isRecordingSample}
+          >
+            Clear samples
+          </Button>
+        </Box>
+
+        <Typography variant="body2" color="textSecondary" sx={{ mt: 1 }} aria-live="polite">
+          {sampleCount} of {WAKE_WORD_CONSTANTS.MAX_SAMPLES} samples recorded.
+          {sampleCount === 0 && settings.voice.wakeWordDetection &&
+            ' Record at least one sample to activate the wake word.'}
+          {' '}Samples are analysed in this browser and never uploaded.
+        </Typography>
+      </Box>
     </Box>
   );
 };
@@ -27,24 +27,6 @@ interface MessageLimitsConfig {
     queueSize: number;
 }
 
-/**
- * Interface for compression configuration
- */
-interface CompressionConfig {
-    enabled: boolean;
-    threshold: number;
-    algorithm: string;
-}
-
-/**
- * Interface for encryption configuration
- */
-interface EncryptionConfig {
-    algorithm: string;
-    keySize: number;
-    ivSize: number;
-}
-
 /**
  * Interface for telemetry configuration
  */
@@ -80,8 +62,6 @@ export interface WebSocketConfig {
     protocols: string[];
     heartbeatInterval: number;
     reconnection: ReconnectionConfig;
-    encryption: EncryptionConfig;
-    compression: CompressionConfig;
     messageLimits: MessageLimitsConfig;
     telemetry: TelemetryConfig;
 }
@@ -101,18 +81,22 @@ export interface ReconnectionConfig {
 
 /**
  * Returns WebSocket configuration with secure connection parameters
+ * Messages are sent without encryption of their own, so production connections
+ * must use TLS (wss)
  * @param sessionId - Active session identifier
  * @param region - Geographic region for connection
- * @param encryptionConfig - Custom encryption settings
  * @returns Complete WebSocket configuration
+ * @throws Error if a production URL does not use wss
  */
 export function getWebSocketConfig(
     sessionId: string,
-    region: string,
-    encryptionConfig: EncryptionConfig
+    region: string
 ): WebSocketConfig {
     // Construct secure WebSocket URL
     const wsUrl = new URL(`${WEBSOCKET_BASE_URL}/${WEBSOCKET_VERSION}`);
+    if (wsUrl.protocol !== 'wss:' && process.env.NODE_ENV === 'production') {
+        throw new Error('WebSocket URL must use wss:// in production');
+    }
     wsUrl.searchParams.append('session', sessionId);
     wsUrl.searchParams.append('region', region);
 
@@ -123,13 +107,6 @@ export function getWebSocketConfig(
         queueSize: WEBSOCKET_PERFORMANCE.MAX_QUEUE_SIZE
     };
 
-    // Configure compression settings
-    const compression: CompressionConfig = {
-        enabled: true,
-        threshold: 1024, // Compress messages larger than 1KB
-        algorithm: 'deflate'
-    };
-
     // Configure telemetry settings
     const telemetry: TelemetryConfig = {
         latencyThreshold: WEBSOCKET_PERFORMANCE.MAX_LATENCY,
@@ -139,7 +116,9 @@ export function getWebSocketConfig(
 
     return {
         url: wsUrl.toString(),
+        // Offered in order of preference; the server picks binary audio when it can
         protocols: [
+            WEBSOCKET_PROTOCOLS.AUDIO_BINARY,
             WEBSOCKET_PROTOCOLS.AUDIO_STREAM,
             WEBSOCKET_PROTOCOLS.SECURE_MESSAGE
         ],
@@ -149,8 +128,6 @@ export function getWebSocketConfig(
             resetTimeout: 30000,
             halfOpenRequests: 1
         }),
-        encryption: encryptionConfig,
-        compression,
         messageLimits,
         telemetry
     };
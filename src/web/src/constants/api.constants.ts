@@ -13,8 +13,10 @@ export const API_ENDPOINTS = {
   AUTH: {
     LOGIN: '/auth/login',
     LOGOUT: '/auth/logout',
+    LOGOUT_ALL: '/auth/logout-all',
     REFRESH: '/auth/refresh',
-    VERIFY: '/auth/verify'
+    VERIFY: '/auth/verify',
+    WS_TICKET: '/auth/ws-ticket'
   },
   SESSIONS: {
     CREATE: '/sessions',
@@ -60,6 +60,64 @@ export const SUPPORTED_CODECS = [
   AudioFormat.AAC   // Chrome, Safari
 ] as const;
 
+/**
+ * Microphone capture off the main thread
+ */
+export const CAPTURE_CONSTANTS = {
+  /** AudioWorklet module capturing the microphone, served from the public directory */
+  WORKLET_URL: '/worklets/audio-capture.worklet.js',
+  /** Processor name registered by the worklet module */
+  PROCESSOR: 'audio-capture',
+  /** Interval between input level reports, which also drain the ring buffer (ms) */
+  LEVEL_INTERVAL_MS: 50,
+  /** Frames held by the shared ring buffer before new frames are dropped */
+  RING_BUFFER_FRAMES: 50,
+} as const;
+
+/**
+ * Opus encoding of captured frames before they are sent
+ */
+export const OPUS_ENCODING_CONSTANTS = {
+  /** Target bitrate in bps, ample for 16kHz speech */
+  BITRATE: 24000,
+  /** Encoding announced in the frame metadata sent with each chunk */
+  ENCODING: 'OPUS',
+  /** Size of the big-endian length prefix preceding each packet */
+  PACKET_HEADER_BYTES: 2,
+} as const;
+
+/**
+ * Progressive playback of streamed AI speech
+ */
+export const PLAYBACK_CONSTANTS = {
+  /** AudioWorklet module rendering streamed PCM, served from the public directory */
+  PCM_PLAYER_WORKLET_URL: '/worklets/pcm-player.worklet.js',
+  /** Processor name registered by the worklet module */
+  PCM_PLAYER_PROCESSOR: 'pcm-player',
+  /** Interval between playback progress reports (ms) */
+  PROGRESS_INTERVAL_MS: 50,
+} as const;
+
+/**
+ * In-browser wake word spotting
+ */
+export const WAKE_WORD_CONSTANTS = {
+  /** AudioWorklet module spotting the wake phrase, served from the public directory */
+  WORKLET_URL: '/worklets/wake-word.worklet.js',
+  /** Processor name registered by the worklet module */
+  PROCESSOR: 'wake-word',
+  /** Phrase suggested until the user chooses their own */
+  DEFAULT_PHRASE: 'Hey assistant',
+  /** Recorded samples of the phrase used for matching */
+  MAX_SAMPLES: 3,
+  /** Time allowed to start and finish saying a sample (ms) */
+  ENROLLMENT_TIMEOUT_MS: 8000,
+  /** Match distance accepted at sensitivity 0 */
+  STRICT_THRESHOLD: 4,
+  /** Match distance accepted at sensitivity 100 */
+  LENIENT_THRESHOLD: 10,
+} as const;
+
 /**
  * Audio visualization parameters for real-time waveform display
  */
@@ -27,6 +27,10 @@ export {
   VOICE_ACTIVITY_CONSTANTS,
   WEBRTC_CONSTRAINTS,
   SUPPORTED_CODECS,
+  CAPTURE_CONSTANTS,
+  OPUS_ENCODING_CONSTANTS,
+  PLAYBACK_CONSTANTS,
+  WAKE_WORD_CONSTANTS,
   VISUALIZER_CONSTANTS,
   CODEC_BROWSER_SUPPORT
 } from './audio.constants';
@@ -60,6 +64,7 @@ export {
   WEBSOCKET_VERSION,
   WEBSOCKET_DEFAULTS,
   WEBSOCKET_PROTOCOLS,
+  AUDIO_FRAME,
   WEBSOCKET_EVENTS,
   WEBSOCKET_ERROR_CODES,
   WEBSOCKET_STATUS,
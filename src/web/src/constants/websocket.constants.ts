@@ -36,6 +36,8 @@ export const WEBSOCKET_DEFAULTS = {
  * Ensures proper message routing and handling
  */
 export const WEBSOCKET_PROTOCOLS = {
+    /** Protocol sending audio as binary frames and control messages as JSON */
+    AUDIO_BINARY: `${WEBSOCKET_VERSION}.audio-binary`,
     /** Protocol for real-time audio streaming */
     AUDIO_STREAM: `${WEBSOCKET_VERSION}.audio-stream`,
     /** Protocol for voice control commands */
@@ -44,6 +46,18 @@ export const WEBSOCKET_PROTOCOLS = {
     SECURE_MESSAGE: `${WEBSOCKET_VERSION}.secure-msg`
 } as const;
 
+/**
+ * Binary audio frame format shared with the server
+ * A fixed header (version, type, codec, channels, sequence number, timestamp,
+ * sample rate, frame duration) precedes the raw audio
+ */
+export const AUDIO_FRAME = {
+    /** Header version, bumped on any incompatible change */
+    VERSION: 1,
+    /** Header size in bytes */
+    HEADER_BYTES: 24
+} as const;
+
 /**
  * Event type constants for WebSocket event handling
  * Standardizes event names across the application
@@ -124,12 +138,14 @@ export const WEBSOCKET_STATUS = {
 export const WEBSOCKET_SECURITY = {
     /** Required TLS version */
     MIN_TLS_VERSION: 'TLSv1.3',
-    /** Encryption algorithm for messages */
-    ENCRYPTION_ALGORITHM: 'AES-256-GCM',
     /** Maximum token lifetime */
     TOKEN_EXPIRY: 900, // 15 minutes in seconds
     /** Required security headers */
-    REQUIRED_HEADERS: ['Sec-WebSocket-Protocol', 'Sec-WebSocket-Key']
+    REQUIRED_HEADERS: ['Sec-WebSocket-Protocol', 'Sec-WebSocket-Key'],
+    /** Subprotocol prefix carrying the access token on the upgrade request */
+    TOKEN_PROTOCOL_PREFIX: 'bearer.',
+    /** Close code sent when the connection's access token expires */
+    TOKEN_EXPIRED_CLOSE_CODE: 4001
 } as const;
 
 /**
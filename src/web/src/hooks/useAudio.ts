@@ -1,16 +1,23 @@
 /**
- * React hook for managing audio recording, voice activity detection,
- * and real-time audio processing in the web client.
+ * React hook for managing audio recording, voice activity detection, turn taking,
+ * wake word activation, and real-time audio processing in the web client.
  * @packageDocumentation
  * @version 1.0.0
  */
 
 // External imports - React v18.2.0
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 
 // Internal imports
 import { AudioService } from '../services/audio.service';
-import { AudioConfig } from '../types/audio.types';
+import {
+  AudioConfig,
+  AudioChunk,
+  AudioLevel,
+  TurnTakingMode,
+  WakeWordConfig,
+  WakeWordSample
+} from '../types/audio.types';
 import { defaultAudioConfig } from '../config/audio.config';
 
 /**
@@ -20,6 +27,8 @@ interface UseAudioReturn {
   isInitialized: boolean;
   isRecording: boolean;
   isPaused: boolean;
+  /** Recording is on but waits for the wake word before capturing a turn */
+  isWaitingForWakeWord: boolean;
   audioLevel: {
     rms: number;
     peak: number;
@@ -36,14 +45,38 @@ interface UseAudioReturn {
   stopRecording: () => Promise<void>;
   pauseRecording: () => Promise<void>;
   resumeRecording: () => Promise<void>;
+  recordWakeWordSample: () => Promise<WakeWordSample>;
+}
+
+/**
+ * Options controlling how turns are captured
+ */
+interface UseAudioOptions {
+  /** Wake word that must be heard before each turn, null to record directly */
+  wakeWord?: WakeWordConfig | null;
+  /** How the start and end of each turn are decided */
+  turnTakingMode?: TurnTakingMode;
+  /** Called each time a turn ends */
+  onTurnEnd?: () => void;
+  /** Called with each chunk of 16-bit PCM captured during a turn */
+  onAudioChunk?: (chunk: AudioChunk) => void;
 }
 
 /**
  * Custom hook for managing audio recording and processing
  * @param config - Optional audio configuration parameters
+ * @param options - Wake word, turn-taking mode, end of turn and audio callbacks
  * @returns Audio control interface and state
  */
-export function useAudio(config?: Partial<AudioConfig>): UseAudioReturn {
+export function useAudio(
+  config?: Partial<AudioConfig>,
+  {
+    wakeWord = null,
+    turnTakingMode = TurnTakingMode.TAP_TO_TOGGLE,
+    onTurnEnd,
+    onAudioChunk
+  }: UseAudioOptions = {}
+): UseAudioReturn {
   // Initialize state
   const [audioService] = useState(() => new AudioService({
     ...defaultAudioConfig,
@@ -52,6 +85,7 @@ export function useAudio(config?: Partial<AudioConfig>): UseAudioReturn {
   const [isInitialized, setIsInitialized] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
+  const [isWaitingForWakeWord, setIsWaitingForWakeWord] = useState(false);
   const [audioLevel, setAudioLevel] = useState({ rms: -Infinity, peak: -Infinity, clipping: false });
   const [isVoiceDetected, setIsVoiceDetected] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -60,6 +94,10 @@ export function useAudio(config?: Partial<AudioConfig>): UseAudioReturn {
     peakLatency: 0,
     dropouts: 0
   });
+  const onTurnEndRef = useRef(onTurnEnd);
+  onTurnEndRef.current = onTurnEnd;
+  const onAudioChunkRef = useRef(onAudioChunk);
+  onAudioChunkRef.current = onAudioChunk;
 
   /**
    * Initialize audio service on mount
@@ -93,6 +131,36 @@ export function useAudio(config?: Partial<AudioConfig>): UseAudioReturn {
       if (mounted) setError(err);
     });
 
+    audioService.on('wakeWordListening', () => {
+      if (mounted) setIsWaitingForWakeWord(true);
+    });
+
+    audioService.on('wakeWordDetected', () => {
+      if (mounted) setIsWaitingForWakeWord(false);
+    });
+
+    audioService.on('turnEnded', () => {
+      if (mounted) onTurnEndRef.current?.();
+    });
+
+    audioService.on('audioChunk', (chunk: AudioChunk) => {
+      if (mounted) onAudioChunkRef.current?.(chunk);
+    });
+
+    // Levels are metered by the capture worklet and pushed at its reporting rate
+    audioService.on('audioLevel', (level: AudioLevel) => {
+      if (!mounted) return;
+      setAudioLevel(level);
+      setIsVoiceDetected(audioService.isVoiceDetected());
+
+      const metrics = audioService.getMetrics();
+      setPerformance({
+        averageLatency: metrics.averageLatency,
+        peakLatency: metrics.peakLatency,
+        dropouts: metrics.dropouts
+      });
+    });
+
     // Cleanup on unmount
     return () => {
       mounted = false;
@@ -100,6 +168,25 @@ export function useAudio(config?: Partial<AudioConfig>): UseAudioReturn {
     };
   }, [audioService]);
 
+  /**
+   * Apply turn-taking mode changes from the audio settings
+   */
+  useEffect(() => {
+    audioService.setTurnTakingMode(turnTakingMode);
+  }, [audioService, turnTakingMode]);
+
+  /**
+   * Apply wake word changes from the voice settings
+   */
+  useEffect(() => {
+    audioService.setWakeWord(wakeWord).catch((err) => {
+      setError(err instanceof Error ? err : new Error('Failed to configure wake word'));
+    });
+    if (!wakeWord) {
+      setIsWaitingForWakeWord(false);
+    }
+  }, [audioService, isInitialized, wakeWord]);
+
   /**
    * Start recording with error handling
    */
@@ -112,23 +199,6 @@ export function useAudio(config?: Partial<AudioConfig>): UseAudioReturn {
       setIsRecording(true);
       setIsPaused(false);
       setError(null);
-
-      // Start monitoring audio levels
-      const levelMonitorId = setInterval(() => {
-        const level = audioService.getAudioLevel();
-        setAudioLevel(level);
-        setIsVoiceDetected(audioService.isVoiceDetected());
-        
-        // Update performance metrics
-        const metrics = audioService.getMetrics();
-        setPerformance({
-          averageLatency: metrics.averageLatency,
-          peakLatency: metrics.peakLatency,
-          dropouts: metrics.dropouts
-        });
-      }, 50); // 20Hz update rate
-
-      return () => clearInterval(levelMonitorId);
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to start recording'));
       setIsRecording(false);
@@ -144,6 +214,7 @@ export function useAudio(config?: Partial<AudioConfig>): UseAudioReturn {
       await audioService.stopRecording();
       setIsRecording(false);
       setIsPaused(false);
+      setIsWaitingForWakeWord(false);
       setIsVoiceDetected(false);
       setAudioLevel({ rms: -Infinity, peak: -Infinity, clipping: false });
       setError(null);
@@ -183,10 +254,23 @@ export function useAudio(config?: Partial<AudioConfig>): UseAudioReturn {
     }
   }, [audioService, isRecording, isPaused]);
 
+  /**
+   * Record a sample of the wake phrase
+   */
+  const recordWakeWordSample = useCallback(async () => {
+    try {
+      return await audioService.recordWakeWordSample();
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to record wake word sample'));
+      throw err;
+    }
+  }, [audioService]);
+
   return {
     isInitialized,
     isRecording,
     isPaused,
+    isWaitingForWakeWord,
     audioLevel,
     isVoiceDetected,
     error,
@@ -194,6 +278,7 @@ export function useAudio(config?: Partial<AudioConfig>): UseAudioReturn {
     startRecording,
     stopRecording,
     pauseRecording,
-    resumeRecording
+    resumeRecording,
+    recordWakeWordSample
   };
 }
\ No newline at end of file
@@ -14,25 +14,36 @@ import {
     Conversation,
     Message,
     MessageRole,
-    ConversationStatus
+    ConversationStatus,
+    LiveTranscript
 } from '../types/conversation.types';
 import { 
     WebSocketState,
     WebSocketMessage,
-    WebSocketConfig
+    WebSocketConfig,
+    WebSocketMessageType,
+    isSpeechMarksMessage,
+    isTranscriptMessage
 } from '../types/websocket.types';
-import { AudioChunk, AudioFormat } from '../types/audio.types';
+import {
+    appendSpeechMarks,
+    applyTranscriptUpdate,
+    selectLiveTranscript
+} from '../store/slices/conversationSlice';
+import { AudioChunk, AudioFormat, TurnTakingMode } from '../types/audio.types';
 import { WEBSOCKET_DEFAULTS, WEBSOCKET_PERFORMANCE } from '../constants/websocket.constants';
 
 // Interface for hook return value
 interface UseConversationReturn {
     conversation: Conversation | null;
+    liveTranscript: LiveTranscript | null;
     isProcessing: boolean;
     error: Error | null;
     latencyMetrics: LatencyMetrics;
     startNewConversation: (sessionId: string) => Promise<void>;
     sendMessage: (content: string) => Promise<void>;
     sendAudioMessage: (audioChunk: AudioChunk) => Promise<void>;
+    endTurn: () => void;
     endCurrentConversation: () => Promise<void>;
     resetErrorState: () => void;
 }
@@ -48,8 +59,12 @@ interface LatencyMetrics {
 /**
  * Enhanced conversation management hook with voice processing capabilities
  * Implements comprehensive error recovery and performance monitoring
+ * @param turnTakingMode - How turns are delimited, sent to the server so it
+ * only ends turns on silence when the user is not holding a talk button
  */
-export function useConversation(): UseConversationReturn {
+export function useConversation(
+    turnTakingMode: TurnTakingMode = TurnTakingMode.TAP_TO_TOGGLE
+): UseConversationReturn {
     const dispatch = useDispatch();
     const conversationService = useRef<ConversationService>(new ConversationService());
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
@@ -152,6 +167,7 @@ export function useConversation(): UseConversationReturn {
                 const message = {
                     type: 'audio',
                     payload: audioChunk,
+                    audioMetadata: audioChunk.metadata,
                     timestamp: Date.now()
                 };
 
@@ -166,6 +182,23 @@ export function useConversation(): UseConversationReturn {
         }
     }, [wsSendMessage]);
 
+    /**
+     * Tells the server that the user's turn is over so it can reply
+     * without waiting for silence
+     */
+    const endTurn = useCallback((): void => {
+        if (readyState !== WebSocket.OPEN) {
+            return;
+        }
+
+        wsSendMessage(JSON.stringify({
+            type: WebSocketMessageType.TURN_END,
+            payload: {},
+            timestamp: Date.now(),
+            messageId: crypto.randomUUID()
+        }));
+    }, [readyState, wsSendMessage]);
+
     /**
      * Ends the current conversation
      */
@@ -241,6 +274,14 @@ export function useConversation(): UseConversationReturn {
             try {
                 const message = JSON.parse(lastMessage.data) as WebSocketMessage;
                 updateLatencyMetrics(Date.now() - message.timestamp);
+                if (isTranscriptMessage(message)) {
+                    dispatch(applyTranscriptUpdate(message.payload));
+                    return;
+                }
+                if (isSpeechMarksMessage(message)) {
+                    dispatch(appendSpeechMarks(message.payload));
+                    return;
+                }
                 dispatch({ type: 'conversation/messageReceived', payload: message });
             } catch (err) {
                 setError(new Error('Failed to process WebSocket message'));
@@ -248,6 +289,20 @@ export function useConversation(): UseConversationReturn {
         }
     }, [lastMessage, dispatch]);
 
+    // Send the turn-taking mode on every (re)connection and whenever it changes
+    useEffect(() => {
+        if (readyState !== WebSocket.OPEN) {
+            return;
+        }
+
+        wsSendMessage(JSON.stringify({
+            type: WebSocketMessageType.TURN_MODE,
+            payload: { mode: turnTakingMode },
+            timestamp: Date.now(),
+            messageId: crypto.randomUUID()
+        }));
+    }, [readyState, turnTakingMode, wsSendMessage]);
+
     // Monitor connection state
     useEffect(() => {
         if (readyState === WebSocket.CLOSED) {
@@ -257,12 +312,14 @@ export function useConversation(): UseConversationReturn {
 
     return {
         conversation: useSelector((state: any) => state.conversation.current),
+        liveTranscript: useSelector(selectLiveTranscript),
         isProcessing,
         error,
         latencyMetrics,
         startNewConversation,
         sendMessage,
         sendAudioMessage,
+        endTurn,
         endCurrentConversation,
         resetErrorState
     };
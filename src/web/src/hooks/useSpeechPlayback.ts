@@ -0,0 +1,55 @@
+/**
+ * React hook tracking the playback position of AI speech
+ * Drives the spoken-word highlight of the reply being played
+ * @packageDocumentation
+ * @version 1.0.0
+ */
+
+import { useEffect, useState } from 'react';
+import { voiceService } from '../services/voice.service';
+
+/**
+ * Follows AI speech playback once per animation frame
+ * @returns Milliseconds of the current reply played so far, or null when no reply is playing
+ */
+export function useSpeechPlayback(): number | null {
+  const [position, setPosition] = useState<number | null>(null);
+
+  useEffect(() => {
+    let frame: number | null = null;
+
+    const track = (): void => {
+      setPosition(voiceService.getPlaybackPosition());
+      frame = requestAnimationFrame(track);
+    };
+
+    const handleStarted = (): void => {
+      if (frame === null) {
+        frame = requestAnimationFrame(track);
+      }
+    };
+
+    const handleStopped = (): void => {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+        frame = null;
+      }
+      setPosition(null);
+    };
+
+    voiceService.on('playbackStarted', handleStarted);
+    voiceService.on('playbackEnded', handleStopped);
+    voiceService.on('bargeIn', handleStopped);
+
+    return () => {
+      voiceService.off('playbackStarted', handleStarted);
+      voiceService.off('playbackEnded', handleStopped);
+      voiceService.off('bargeIn', handleStopped);
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+    };
+  }, []);
+
+  return position;
+}
@@ -8,6 +8,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { VoiceActivityConfig, AudioLevel } from '../types/audio.types';
 import type { AudioService } from '../services/audio.service';
+import { voiceService } from '../services/voice.service';
 
 // Polling interval for voice activity detection (ms)
 const POLLING_INTERVAL = 50;
@@ -128,6 +129,11 @@ export function useVoiceActivity(
     }
   }, [audioService, pollVoiceActivity]);
 
+  // Barge in on AI playback as soon as user speech is detected
+  useEffect(() => {
+    voiceService.handleVoiceActivity(state.isVoiceDetected);
+  }, [state.isVoiceDetected]);
+
   // Handle browser visibility changes
   useEffect(() => {
     const handleVisibilityChange = () => {
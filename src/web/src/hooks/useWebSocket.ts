@@ -11,6 +11,8 @@ import {
     WebSocketMessage,
     getWebSocketConfig
 } from '../services/websocket.service';
+import { voiceService } from '../services/voice.service';
+import type { BargeInEvent } from '../types/voice.types';
 
 /**
  * Interface for hook configuration options
@@ -56,15 +58,7 @@ export function useWebSocket(
 
     // Initialize WebSocket service with configuration
     const wsService = useCallback(() => {
-        const config = getWebSocketConfig(
-            sessionId,
-            options.region || 'us-east-1',
-            {
-                algorithm: WEBSOCKET_SECURITY.ENCRYPTION_ALGORITHM,
-                keySize: 256,
-                ivSize: 96
-            }
-        );
+        const config = getWebSocketConfig(sessionId, options.region || 'us-east-1');
         return new WebSocketService(config);
     }, [sessionId, options.region]);
 
@@ -142,7 +136,7 @@ export function useWebSocket(
         handleStateChange(WebSocketState.DISCONNECTED);
     }, [wsService, handleStateChange]);
 
-    // Send message with compression and metrics
+    // Send message with metrics
     const sendMessage = useCallback(async (message: WebSocketMessage) => {
         try {
             await wsService().sendMessage(message);
@@ -177,6 +171,20 @@ export function useWebSocket(
         wsService().enableCompression(enabled);
     }, [wsService]);
 
+    // Forward barge-in on AI playback to the server turn pipeline
+    useEffect(() => {
+        const handleBargeIn = ({ turnId, playedDuration }: BargeInEvent) => {
+            wsService().sendInterrupt(playedDuration, turnId).catch(error => {
+                handleError(error as Error);
+            });
+        };
+
+        voiceService.on('bargeIn', handleBargeIn);
+        return () => {
+            voiceService.off('bargeIn', handleBargeIn);
+        };
+    }, [wsService, handleError]);
+
     // Initialize WebSocket connection
     useEffect(() => {
         if (sessionId) {
@@ -7,6 +7,8 @@ import { MicrophoneButton } from '../components/audio/MicrophoneButton';
 import { useConversation } from '../hooks/useConversation';
 import { useAudio } from '../hooks/useAudio';
 import { ThemeContext } from '../theme/themeProvider';
+import { selectSettings } from '../store/slices/settingsSlice';
+import { TurnTakingMode, WakeWordConfig } from '../types/audio.types';
 
 // Styled components for layout
 const PageContainer = styled.div`
@@ -57,6 +59,24 @@ const ErrorMessage = styled.div`
 const ConversationPage: React.FC = React.memo(() => {
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const isAuthenticated = useSelector((state: any) => state.user.isAuthenticated);
+  const { voice: voiceSettings, audio: audioSettings } = useSelector(selectSettings);
+  const turnTakingMode = audioSettings.turnTakingMode ?? TurnTakingMode.TAP_TO_TOGGLE;
+
+  // Turns open only after the wake phrase once samples of it have been recorded
+  const wakeWord = useMemo<WakeWordConfig | null>(() => (
+    voiceSettings.wakeWordDetection && voiceSettings.wakeWordSamples?.length
+      ? {
+        phrase: voiceSettings.wakeWordPhrase,
+        samples: voiceSettings.wakeWordSamples,
+        sensitivity: voiceSettings.wakeWordSensitivity
+      }
+      : null
+  ), [
+    voiceSettings.wakeWordDetection,
+    voiceSettings.wakeWordPhrase,
+    voiceSettings.wakeWordSamples,
+    voiceSettings.wakeWordSensitivity
+  ]);
 
   // Initialize conversation hook
   const {
@@ -65,9 +85,10 @@ const ConversationPage: React.FC = React.memo(() => {
     error: conversationError,
     startNewConversation,
     sendAudioMessage,
+    endTurn,
     endCurrentConversation,
     resetErrorState
-  } = useConversation();
+  } = useConversation(turnTakingMode);
 
   // Initialize audio hook with error handling
   const {
@@ -146,6 +167,9 @@ const ConversationPage: React.FC = React.memo(() => {
             size="large"
             disabled={!isAuthenticated || isProcessing}
             onError={(error) => setErrorMessage(error.message)}
+            wakeWord={wakeWord}
+            turnTakingMode={turnTakingMode}
+            onTurnEnd={endTurn}
           />
         </ControlsContainer>
       </PageContainer>
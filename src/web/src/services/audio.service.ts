@@ -1,6 +1,6 @@
 /**
  * Core service for managing client-side audio processing, WebRTC streams,
- * voice activity detection, and audio visualization.
+ * voice activity detection, turn taking, wake word activation, and audio visualization.
  * @packageDocumentation
  * @version 1.0.0
  */
@@ -9,10 +9,21 @@
 import adapter from 'webrtc-adapter'; // v8.2.3
 
 // Internal imports
-import { AudioConfig, AudioChunk, AudioLevel, AudioFormat } from '../types/audio.types';
+import {
+  AudioConfig,
+  AudioChunk,
+  AudioLevel,
+  AudioFormat,
+  TurnTakingMode,
+  WakeWordConfig,
+  WakeWordSample
+} from '../types/audio.types';
 import { defaultAudioConfig } from '../config/audio.config';
 import { initializeAudioStream } from '../utils/audio.utils';
 import { requestUserMedia } from '../utils/webrtc.utils';
+import { AudioCapture, CapturedFrame } from './audioCapture.service';
+import { OpusFrameEncoder } from './opusEncoder.service';
+import { WakeWordDetector } from './wakeWord.service';
 import { 
   AUDIO_PROCESSING_CONSTANTS,
   VOICE_ACTIVITY_CONSTANTS,
@@ -27,9 +38,17 @@ enum AudioServiceEvent {
   RECORDING_STARTED = 'recordingStarted',
   RECORDING_STOPPED = 'recordingStopped',
   VOICE_DETECTED = 'voiceDetected',
+  AUDIO_LEVEL = 'audioLevel',
+  AUDIO_CHUNK = 'audioChunk',
+  TURN_ENDED = 'turnEnded',
+  WAKE_WORD_LISTENING = 'wakeWordListening',
+  WAKE_WORD_DETECTED = 'wakeWordDetected',
   ERROR = 'error'
 }
 
+/** Level reported before the capture worklet has metered any input */
+const SILENT_LEVEL: AudioLevel = { rms: -Infinity, peak: -Infinity, clipping: false };
+
 /**
  * Enhanced service class for managing audio processing with robust error handling
  * and resource management
@@ -37,11 +56,22 @@ enum AudioServiceEvent {
 export class AudioService {
   private audioContext: AudioContext | null = null;
   private mediaStream: MediaStream | null = null;
-  private processorNode: AudioWorkletNode | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private capture: AudioCapture | null = null;
+  private encoder: OpusFrameEncoder | null = null;
   private analyserNode: AnalyserNode | null = null;
   private config: AudioConfig;
   private isInitialized: boolean = false;
   private isRecording: boolean = false;
+  private audioLevel: AudioLevel = { ...SILENT_LEVEL };
+  private voiceDetected: boolean = false;
+  private turnTakingMode: TurnTakingMode = TurnTakingMode.TAP_TO_TOGGLE;
+  private turnHasSpeech: boolean = false;
+  private wakeWordDetector: WakeWordDetector | null = null;
+  private wakeWordConfig: WakeWordConfig | null = null;
+  private isListeningForWakeWord: boolean = false;
+  private turnStartedAt: number = 0;
+  private lastVoiceAt: number = 0;
   private eventListeners: Map<string, Set<Function>> = new Map();
   private performanceMetrics: {
     startTime: number;
@@ -85,6 +115,9 @@ export class AudioService {
 
       // Initialize audio processing pipeline
       await this.setupAudioProcessing();
+      if (this.wakeWordConfig) {
+        await this.attachWakeWordDetector();
+      }
 
       this.isInitialized = true;
       this.emit(AudioServiceEvent.INITIALIZED);
@@ -102,16 +135,20 @@ export class AudioService {
         throw new Error('AudioService not initialized');
       }
 
-      if (this.isRecording) {
+      if (this.isRecording || this.isListeningForWakeWord) {
         return;
       }
 
       await this.audioContext?.resume();
-      this.setupAnalyser();
-      this.startPerformanceMonitoring();
 
-      this.isRecording = true;
-      this.emit(AudioServiceEvent.RECORDING_STARTED);
+      // With a wake word, recording only begins once the phrase is heard
+      if (this.usesWakeWord() && this.wakeWordDetector?.isReady()) {
+        this.isListeningForWakeWord = true;
+        this.emit(AudioServiceEvent.WAKE_WORD_LISTENING);
+        return;
+      }
+
+      this.beginRecording();
     } catch (error) {
       this.handleError('Failed to start recording', error);
     }
@@ -122,13 +159,23 @@ export class AudioService {
    */
   public async stopRecording(): Promise<void> {
     try {
-      if (!this.isRecording) {
+      if (!this.isRecording && !this.isListeningForWakeWord) {
         return;
       }
 
       await this.audioContext?.suspend();
+      this.isListeningForWakeWord = false;
+      this.wakeWordDetector?.reset();
+      if (!this.isRecording) {
+        return;
+      }
+
+      // Frames still in the ring buffer or the encoder belong to this turn
+      this.capture?.stop();
+      await this.encoder?.flush();
       this.isRecording = false;
       this.stopPerformanceMonitoring();
+      this.emit(AudioServiceEvent.TURN_ENDED);
       this.emit(AudioServiceEvent.RECORDING_STOPPED);
     } catch (error) {
       this.handleError('Failed to stop recording', error);
@@ -137,20 +184,20 @@ export class AudioService {
 
   /**
    * Processes audio data with enhanced error handling and monitoring
+   * Microphone input does not go through here: it is captured and analysed by
+   * the capture worklet, encoded to Opus and emitted as `audioChunk` events
+   * @returns Chunk to send, or null outside of a turn
    */
-  public async processAudioChunk(audioData: Float32Array): Promise<AudioChunk> {
+  public async processAudioChunk(audioData: Float32Array): Promise<AudioChunk | null> {
     try {
       const startTime = performance.now();
-      
+
       // Perform voice activity detection
       const isVoiceDetected = this.detectVoiceActivity(audioData);
-      if (isVoiceDetected) {
-        this.emit(AudioServiceEvent.VOICE_DETECTED);
+      if (!this.acceptFrame(isVoiceDetected)) {
+        return null;
       }
 
-      // Calculate audio levels
-      const levels = this.calculateAudioLevels(audioData);
-      
       // Create formatted audio chunk
       const chunk = this.createAudioChunk(audioData);
       
@@ -164,6 +211,89 @@ export class AudioService {
     }
   }
 
+  /**
+   * Latest input level reported by the capture worklet, in dB
+   */
+  public getAudioLevel(): AudioLevel {
+    return { ...this.audioLevel };
+  }
+
+  /**
+   * Whether the capture worklet heard speech in the latest frame
+   */
+  public isVoiceDetected(): boolean {
+    return this.voiceDetected;
+  }
+
+  /**
+   * Selects how turns start and end
+   * Takes effect at the next call to startRecording; push-to-talk ignores the wake word
+   * @param mode - Turn-taking mode from the audio settings
+   */
+  public setTurnTakingMode(mode: TurnTakingMode): void {
+    this.turnTakingMode = mode;
+  }
+
+  /**
+   * Enables activation by wake word, or disables it when null
+   * Takes effect at the next call to startRecording
+   * @param config - Phrase samples and sensitivity from the voice settings
+   */
+  public async setWakeWord(config: WakeWordConfig | null): Promise<void> {
+    try {
+      this.wakeWordConfig = config && config.samples.length > 0 ? config : null;
+
+      if (!this.wakeWordConfig) {
+        this.wakeWordDetector?.configure({ phrase: '', samples: [], sensitivity: 0 });
+        if (this.isListeningForWakeWord) {
+          // Listening without a phrase would never activate
+          this.isListeningForWakeWord = false;
+          this.beginRecording();
+        }
+        return;
+      }
+
+      if (this.isInitialized) {
+        await this.attachWakeWordDetector();
+      }
+      this.wakeWordDetector?.configure(this.wakeWordConfig);
+    } catch (error) {
+      this.handleError('Failed to configure wake word', error);
+    }
+  }
+
+  /**
+   * Records a sample of the wake phrase for the voice settings
+   * The sample stays in the browser; it is not a recording of the audio
+   */
+  public async recordWakeWordSample(): Promise<WakeWordSample> {
+    try {
+      if (!this.isInitialized) {
+        throw new Error('AudioService not initialized');
+      }
+
+      const detector = await this.attachWakeWordDetector();
+      await this.audioContext?.resume();
+      try {
+        return await detector.recordSample();
+      } finally {
+        if (!this.isRecording && !this.isListeningForWakeWord) {
+          await this.audioContext?.suspend();
+        }
+      }
+    } catch (error) {
+      this.handleError('Failed to record wake word sample', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether recording is waiting for the wake word
+   */
+  public isWaitingForWakeWord(): boolean {
+    return this.isListeningForWakeWord;
+  }
+
   /**
    * Comprehensive resource cleanup and state reset
    */
@@ -172,7 +302,9 @@ export class AudioService {
       await this.stopRecording();
       
       this.mediaStream?.getTracks().forEach(track => track.stop());
-      this.processorNode?.disconnect();
+      this.wakeWordDetector?.detach();
+      this.capture?.detach();
+      this.encoder?.close();
       this.analyserNode?.disconnect();
       await this.audioContext?.close();
       
@@ -221,18 +353,174 @@ export class AudioService {
     }
 
     const source = this.audioContext.createMediaStreamSource(this.mediaStream);
-    
-    // Load and initialize audio worklet
-    await this.audioContext.audioWorklet.addModule('audio-processor.js');
-    this.processorNode = new AudioWorkletNode(this.audioContext, 'audio-processor');
-    
-    // Connect nodes
-    source.connect(this.processorNode);
-    this.processorNode.connect(this.audioContext.destination);
+    this.sourceNode = source;
+
+    // Frames are sent as Opus when the browser can encode it
+    this.encoder = new OpusFrameEncoder((chunk) => this.emit(AudioServiceEvent.AUDIO_CHUNK, chunk));
+    await this.encoder.initialize();
+
+    // Capture, metering and voice activity detection run in the worklet
+    this.capture = new AudioCapture({
+      onFrame: (frame) => this.handleCapturedFrame(frame),
+      onLevel: (level, isVoiceDetected) => this.handleLevel(level, isVoiceDetected)
+    });
+    await this.capture.attach(this.audioContext, source);
+  }
+
+  /**
+   * Passes a frame from the capture worklet on to be encoded and sent
+   */
+  private handleCapturedFrame({ samples, isVoiceDetected }: CapturedFrame): void {
+    try {
+      const startTime = performance.now();
+      // Frames still in flight over the port when recording stopped are late
+      if (!this.isRecording || !this.acceptFrame(isVoiceDetected)) {
+        return;
+      }
+
+      this.encoder?.encode(samples, Date.now());
+      this.updateProcessingMetrics(performance.now() - startTime);
+    } catch (error) {
+      console.error('Audio processing failed', error);
+      this.emit(AudioServiceEvent.ERROR, { message: 'Audio processing failed', error });
+    }
+  }
+
+  private handleLevel(level: AudioLevel, isVoiceDetected: boolean): void {
+    this.audioLevel = level;
+    this.voiceDetected = isVoiceDetected;
+    this.performanceMetrics.dropouts = this.capture?.getDroppedFrames() ?? 0;
+    this.emit(AudioServiceEvent.AUDIO_LEVEL, level);
+  }
+
+  /**
+   * Applies voice activity and turn taking to a frame
+   * While a wake word is configured, no frame is accepted before the phrase is
+   * heard, so no audio can be sent before activation; in push-to-talk no frame
+   * is accepted while the button is released
+   * @returns Whether the frame belongs to a turn and should be sent
+   */
+  private acceptFrame(isVoiceDetected: boolean): boolean {
+    const pushToTalk = this.turnTakingMode === TurnTakingMode.PUSH_TO_TALK;
+    if (!this.isRecording && (this.wakeWordConfig || pushToTalk)) {
+      return false;
+    }
+
+    if (isVoiceDetected) {
+      this.emit(AudioServiceEvent.VOICE_DETECTED);
+    }
+    if (this.isRecording && this.endsTurnsOnSilence()) {
+      this.trackTurn(isVoiceDetected);
+    }
+    return true;
+  }
+
+  /**
+   * Starts analysing the microphone for the wake word
+   */
+  private async attachWakeWordDetector(): Promise<WakeWordDetector> {
+    if (!this.audioContext || !this.sourceNode) {
+      throw new Error('Audio processing chain not initialized');
+    }
+
+    if (!this.wakeWordDetector) {
+      this.wakeWordDetector = new WakeWordDetector(() => this.handleWakeWord());
+    }
+    await this.wakeWordDetector.attach(this.audioContext, this.sourceNode);
+    if (this.wakeWordConfig) {
+      this.wakeWordDetector.configure(this.wakeWordConfig);
+    }
+    return this.wakeWordDetector;
+  }
+
+  /**
+   * Opens a turn once the wake phrase is heard
+   */
+  private handleWakeWord(): void {
+    if (!this.isListeningForWakeWord) {
+      return;
+    }
+
+    this.isListeningForWakeWord = false;
+    this.emit(AudioServiceEvent.WAKE_WORD_DETECTED);
+    this.beginRecording();
+  }
+
+  /**
+   * Whether turns are opened by the wake word
+   */
+  private usesWakeWord(): boolean {
+    return this.wakeWordConfig !== null && this.turnTakingMode !== TurnTakingMode.PUSH_TO_TALK;
+  }
+
+  /**
+   * Whether turns end on silence rather than on the user's request
+   */
+  private endsTurnsOnSilence(): boolean {
+    return this.usesWakeWord() || this.turnTakingMode === TurnTakingMode.HANDS_FREE;
+  }
+
+  /**
+   * Ends the turn once the user has stopped speaking or the turn has reached
+   * its maximum length, then waits for the wake word or, in hands-free mode,
+   * keeps listening for the next turn
+   */
+  private trackTurn(isVoiceDetected: boolean): void {
+    const now = Date.now();
+    const usesWakeWord = this.usesWakeWord();
+    if (isVoiceDetected) {
+      // Without a wake word a turn starts when the user starts speaking
+      if (!this.turnHasSpeech && !usesWakeWord) {
+        this.turnStartedAt = now;
+      }
+      this.lastVoiceAt = now;
+      this.turnHasSpeech = true;
+    }
+    if (!this.turnHasSpeech && !usesWakeWord) {
+      return;
+    }
+
+    const silent = now - this.lastVoiceAt > VOICE_ACTIVITY_CONSTANTS.SILENCE_TIMEOUT_MS;
+    const tooLong = now - this.turnStartedAt > VOICE_ACTIVITY_CONSTANTS.MAX_RECORDING_DURATION_MS;
+    if (!silent && !tooLong) {
+      return;
+    }
+
+    this.emit(AudioServiceEvent.TURN_ENDED);
+    if (!usesWakeWord) {
+      this.startTurn();
+      return;
+    }
+
+    this.capture?.stop();
+    void this.encoder?.flush();
+    this.isRecording = false;
+    this.stopPerformanceMonitoring();
+    this.emit(AudioServiceEvent.RECORDING_STOPPED);
+
+    this.wakeWordDetector?.reset();
+    this.isListeningForWakeWord = true;
+    this.emit(AudioServiceEvent.WAKE_WORD_LISTENING);
+  }
+
+  private startTurn(): void {
+    this.turnStartedAt = Date.now();
+    this.lastVoiceAt = this.turnStartedAt;
+    this.turnHasSpeech = false;
+  }
+
+  private beginRecording(): void {
+    this.setupAnalyser();
+    this.startPerformanceMonitoring();
+
+    this.startTurn();
+    this.isRecording = true;
+    this.capture?.start();
+    this.emit(AudioServiceEvent.RECORDING_STARTED);
   }
 
   private setupAnalyser(): void {
-    if (!this.audioContext || !this.processorNode) {
+    if (!this.audioContext || !this.sourceNode) {
       throw new Error('Audio processing chain not initialized');
     }
 
@@ -240,7 +528,7 @@ export class AudioService {
     this.analyserNode.fftSize = VISUALIZER_CONSTANTS.FFT_SIZE;
     this.analyserNode.smoothingTimeConstant = VISUALIZER_CONSTANTS.SMOOTHING_TIME_CONSTANT;
     
-    this.processorNode.connect(this.analyserNode);
+    this.sourceNode.connect(this.analyserNode);
   }
 
   private detectVoiceActivity(audioData: Float32Array): boolean {
@@ -254,25 +542,6 @@ export class AudioService {
     return db > VOICE_ACTIVITY_CONSTANTS.VAD_THRESHOLD_DB;
   }
 
-  private calculateAudioLevels(audioData: Float32Array): AudioLevel {
-    let sum = 0;
-    let peak = 0;
-    let isClipping = false;
-
-    for (let i = 0; i < audioData.length; i++) {
-      const sample = Math.abs(audioData[i]);
-      sum += sample * sample;
-      peak = Math.max(peak, sample);
-      if (sample >= 1.0) isClipping = true;
-    }
-
-    return {
-      rms: Math.sqrt(sum / audioData.length),
-      peak,
-      clipping: isClipping
-    };
-  }
-
   private createAudioChunk(audioData: Float32Array): AudioChunk {
     return {
       data: new Uint8Array(audioData.buffer),
@@ -325,10 +594,16 @@ export class AudioService {
   private resetState(): void {
     this.audioContext = null;
     this.mediaStream = null;
-    this.processorNode = null;
+    this.sourceNode = null;
+    this.capture = null;
+    this.encoder = null;
     this.analyserNode = null;
+    this.audioLevel = { ...SILENT_LEVEL };
+    this.voiceDetected = false;
     this.isInitialized = false;
     this.isRecording = false;
+    this.wakeWordDetector = null;
+    this.isListeningForWakeWord = false;
     this.eventListeners.clear();
   }
 }
\ No newline at end of file
@@ -0,0 +1,196 @@
+/**
+ * Audio Capture Service
+ * Receives microphone frames from the capture AudioWorklet, which resamples,
+ * encodes to 16-bit PCM, meters levels and detects voice activity off the main
+ * thread. Frames are read from a SharedArrayBuffer ring buffer when the page is
+ * cross-origin isolated and arrive over the worklet port otherwise; either way
+ * the main thread only hands finished frames on.
+ * @version 1.0.0
+ */
+
+import {
+  AUDIO_PROCESSING_CONSTANTS,
+  CAPTURE_CONSTANTS,
+  VOICE_ACTIVITY_CONSTANTS
+} from '../constants/audio.constants';
+import { AudioLevel } from '../types/audio.types';
+
+/**
+ * Frame of 16-bit PCM at the capture sample rate
+ */
+export interface CapturedFrame {
+  samples: Int16Array;
+  /** Whether voice activity detection heard speech in the frame */
+  isVoiceDetected: boolean;
+}
+
+/**
+ * Callbacks receiving the output of the capture worklet
+ */
+export interface AudioCaptureHandlers {
+  /** Called with each frame captured between `start()` and `stop()` */
+  onFrame: (frame: CapturedFrame) => void;
+  /** Called with the input level every level interval */
+  onLevel: (level: AudioLevel, isVoiceDetected: boolean) => void;
+}
+
+/**
+ * Messages posted by the capture worklet
+ */
+type CaptureWorkletMessage =
+  | { type: 'level'; rms: number; peak: number; clipping: boolean; voice: boolean }
+  | { type: 'frame'; samples: Int16Array; voice: boolean };
+
+/**
+ * Main-thread views of the ring buffer shared with the worklet
+ * The layout is documented in the worklet module
+ */
+interface RingBuffer {
+  buffer: SharedArrayBuffer;
+  slots: number;
+  header: Int32Array;
+  flags: Uint8Array;
+  data: Int16Array;
+}
+
+const HEADER_BYTES = 16;
+const WRITE_INDEX = 0;
+const READ_INDEX = 1;
+const DROPPED_INDEX = 2;
+
+const FRAME_SAMPLES =
+  (AUDIO_PROCESSING_CONSTANTS.SAMPLE_RATE * AUDIO_PROCESSING_CONSTANTS.FRAME_SIZE_MS) / 1000;
+
+/**
+ * Whether the page may share memory with the worklet
+ */
+const canShareMemory = (): boolean =>
+  typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+
+const createRingBuffer = (slots: number): RingBuffer => {
+  const dataOffset = HEADER_BYTES + Math.ceil(slots / 4) * 4;
+  const buffer = new SharedArrayBuffer(dataOffset + slots * FRAME_SAMPLES * 2);
+  return {
+    buffer,
+    slots,
+    header: new Int32Array(buffer, 0, HEADER_BYTES / 4),
+    flags: new Uint8Array(buffer, HEADER_BYTES, slots),
+    data: new Int16Array(buffer, dataOffset, slots * FRAME_SAMPLES)
+  };
+};
+
+export class AudioCapture {
+  private workletNode: AudioWorkletNode | null = null;
+  private ring: RingBuffer | null = null;
+
+  constructor(private readonly handlers: AudioCaptureHandlers) {}
+
+  /**
+   * Starts metering the input of a source node
+   * Frames are only captured between `start()` and `stop()`
+   * @param audioContext - Context the source belongs to
+   * @param source - Microphone source node
+   * @throws When the browser does not support AudioWorklet
+   */
+  public async attach(audioContext: AudioContext, source: AudioNode): Promise<void> {
+    if (this.workletNode) {
+      return;
+    }
+    if (!audioContext.audioWorklet) {
+      throw new Error('Audio capture requires AudioWorklet support');
+    }
+
+    await audioContext.audioWorklet.addModule(CAPTURE_CONSTANTS.WORKLET_URL);
+    this.ring = canShareMemory() ? createRingBuffer(CAPTURE_CONSTANTS.RING_BUFFER_FRAMES) : null;
+    // Without outputs the node only analyses its input and cannot pass audio on
+    const node = new AudioWorkletNode(audioContext, CAPTURE_CONSTANTS.PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions: {
+        targetSampleRate: AUDIO_PROCESSING_CONSTANTS.SAMPLE_RATE,
+        frameSamples: FRAME_SAMPLES,
+        vadThresholdDb: VOICE_ACTIVITY_CONSTANTS.VAD_THRESHOLD_DB,
+        levelInterval: CAPTURE_CONSTANTS.LEVEL_INTERVAL_MS,
+        ring: this.ring && { buffer: this.ring.buffer, slots: this.ring.slots }
+      }
+    });
+    node.port.onmessage = (event: MessageEvent<CaptureWorkletMessage>) => {
+      this.handleWorkletMessage(event.data);
+    };
+    source.connect(node);
+
+    this.workletNode = node;
+  }
+
+  /**
+   * Starts capturing frames
+   */
+  public start(): void {
+    this.workletNode?.port.postMessage({ type: 'start' });
+  }
+
+  /**
+   * Stops capturing frames, handing on those still in the ring buffer
+   */
+  public stop(): void {
+    this.workletNode?.port.postMessage({ type: 'stop' });
+    this.drain();
+  }
+
+  /**
+   * Whether frames are read from shared memory rather than the worklet port
+   */
+  public usesSharedMemory(): boolean {
+    return this.ring !== null;
+  }
+
+  /**
+   * Frames the worklet dropped because the ring buffer was full
+   */
+  public getDroppedFrames(): number {
+    return this.ring ? Atomics.load(this.ring.header, DROPPED_INDEX) : 0;
+  }
+
+  /**
+   * Stops metering and releases the worklet node
+   */
+  public detach(): void {
+    this.workletNode?.disconnect();
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+    }
+    this.workletNode = null;
+    this.ring = null;
+  }
+
+  private handleWorkletMessage(message: CaptureWorkletMessage): void {
+    if (message.type === 'frame') {
+      this.handlers.onFrame({ samples: message.samples, isVoiceDetected: message.voice });
+    } else if (message.type === 'level') {
+      // Level reports double as the signal to read the ring buffer
+      this.drain();
+      const { rms, peak, clipping, voice } = message;
+      this.handlers.onLevel({ rms, peak, clipping }, voice);
+    }
+  }
+
+  private drain(): void {
+    const ring = this.ring;
+    if (!ring) {
+      return;
+    }
+
+    const written = Atomics.load(ring.header, WRITE_INDEX);
+    let read = Atomics.load(ring.header, READ_INDEX);
+    while (read < written) {
+      const slot = read % ring.slots;
+      const offset = slot * FRAME_SAMPLES;
+      const samples = ring.data.slice(offset, offset + FRAME_SAMPLES);
+      const isVoiceDetected = ring.flags[slot] === 1;
+      read++;
+      Atomics.store(ring.header, READ_INDEX, read);
+      this.handlers.onFrame({ samples, isVoiceDetected });
+    }
+  }
+}
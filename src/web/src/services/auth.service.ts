@@ -157,6 +157,19 @@ export class AuthService {
     }
   }
 
+  /**
+   * Terminates the sessions of every device of the user, including this one
+   */
+  public async logoutAllDevices(): Promise<void> {
+    try {
+      await this.apiService.post(API_ENDPOINTS.AUTH.LOGOUT_ALL, {});
+    } finally {
+      this.clearTokens();
+      this.apiService.setAuthToken(null);
+      window.dispatchEvent(new CustomEvent('auth:logout'));
+    }
+  }
+
   /**
    * Verifies current authentication state with token validation
    */
@@ -0,0 +1,185 @@
+/**
+ * Opus Encoder Service
+ * Encodes captured 16-bit PCM frames to Opus before they are sent, cutting the
+ * upstream bitrate from 256kbps to about 24kbps. WebCodecs `AudioEncoder` is
+ * used where the browser can encode Opus, and a WebAssembly build of libopus
+ * otherwise; raw PCM is only sent when neither is available.
+ *
+ * Each chunk carries the packet of one 20ms frame, prefixed with its length as
+ * a big-endian uint16, which is the framing the server decodes.
+ * @version 1.0.0
+ */
+
+import type { Encoder as WasmEncoder } from '@evan/wasm/target/opus/deno.js';
+import {
+  AUDIO_PROCESSING_CONSTANTS,
+  OPUS_ENCODING_CONSTANTS
+} from '../constants/audio.constants';
+import { AudioChunk, AudioFormat } from '../types/audio.types';
+import type { AudioStreamMetadata } from '../types/websocket.types';
+
+const ENCODER_CONFIG = {
+  codec: 'opus',
+  sampleRate: AUDIO_PROCESSING_CONSTANTS.SAMPLE_RATE,
+  numberOfChannels: AUDIO_PROCESSING_CONSTANTS.CHANNELS,
+  bitrate: OPUS_ENCODING_CONSTANTS.BITRATE,
+  opus: {
+    format: 'opus',
+    frameDuration: AUDIO_PROCESSING_CONSTANTS.FRAME_SIZE_MS * 1000
+  }
+} as const;
+
+const OPUS_METADATA: AudioStreamMetadata = {
+  sampleRate: AUDIO_PROCESSING_CONSTANTS.SAMPLE_RATE,
+  channels: AUDIO_PROCESSING_CONSTANTS.CHANNELS,
+  encoding: OPUS_ENCODING_CONSTANTS.ENCODING,
+  frameSize: AUDIO_PROCESSING_CONSTANTS.FRAME_SIZE_MS
+};
+
+const PCM_METADATA: AudioStreamMetadata = { ...OPUS_METADATA, encoding: 'LINEAR16' };
+
+/**
+ * Whether WebCodecs can encode Opus frames at the capture format
+ */
+const supportsWebCodecsOpus = async (): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') {
+    return false;
+  }
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(ENCODER_CONFIG);
+    return supported === true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Prefixes a packet with its length
+ */
+const frameRecord = (packet: Uint8Array): Uint8Array => {
+  const record = new Uint8Array(OPUS_ENCODING_CONSTANTS.PACKET_HEADER_BYTES + packet.byteLength);
+  new DataView(record.buffer).setUint16(0, packet.byteLength);
+  record.set(packet, OPUS_ENCODING_CONSTANTS.PACKET_HEADER_BYTES);
+  return record;
+};
+
+export class OpusFrameEncoder {
+  private webCodecsEncoder: AudioEncoder | null = null;
+  private wasmEncoder: WasmEncoder | null = null;
+  private format: AudioFormat = AudioFormat.PCM;
+
+  constructor(private readonly onChunk: (chunk: AudioChunk) => void) {}
+
+  /**
+   * Sets up the best encoder the browser supports
+   * @returns Format of the chunks that will be produced
+   */
+  public async initialize(): Promise<AudioFormat> {
+    if (this.format === AudioFormat.OPUS) {
+      return this.format;
+    }
+
+    if (await supportsWebCodecsOpus()) {
+      const encoder = new AudioEncoder({
+        output: (packet) => this.handleWebCodecsPacket(packet),
+        error: (error) => console.error('Opus encoding failed', error)
+      });
+      encoder.configure(ENCODER_CONFIG);
+      this.webCodecsEncoder = encoder;
+      this.format = AudioFormat.OPUS;
+      return this.format;
+    }
+
+    try {
+      const { Encoder } = await import('@evan/wasm/target/opus/deno.js');
+      const encoder = new Encoder({
+        channels: AUDIO_PROCESSING_CONSTANTS.CHANNELS,
+        sample_rate: AUDIO_PROCESSING_CONSTANTS.SAMPLE_RATE,
+        application: 'voip'
+      });
+      encoder.bitrate = OPUS_ENCODING_CONSTANTS.BITRATE;
+      this.wasmEncoder = encoder;
+      this.format = AudioFormat.OPUS;
+    } catch (error) {
+      console.warn('Opus encoding unavailable, sending PCM', error);
+    }
+    return this.format;
+  }
+
+  /**
+   * Format of the chunks produced
+   */
+  public getFormat(): AudioFormat {
+    return this.format;
+  }
+
+  /**
+   * Encodes one captured frame; WebCodecs delivers its chunk asynchronously
+   * @param samples - 20ms of 16-bit PCM at the capture sample rate
+   * @param timestamp - Capture time in milliseconds
+   */
+  public encode(samples: Int16Array, timestamp: number): void {
+    if (this.webCodecsEncoder) {
+      const frame = new AudioData({
+        format: 's16',
+        sampleRate: AUDIO_PROCESSING_CONSTANTS.SAMPLE_RATE,
+        numberOfFrames: samples.length,
+        numberOfChannels: AUDIO_PROCESSING_CONSTANTS.CHANNELS,
+        timestamp: timestamp * 1000,
+        data: samples as BufferSource
+      });
+      this.webCodecsEncoder.encode(frame);
+      frame.close();
+      return;
+    }
+
+    if (this.wasmEncoder) {
+      this.emitPacket(this.wasmEncoder.encode(samples), timestamp);
+      return;
+    }
+
+    this.onChunk({
+      data: new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength),
+      timestamp,
+      format: AudioFormat.PCM,
+      metadata: { ...PCM_METADATA }
+    });
+  }
+
+  /**
+   * Delivers the chunks of frames WebCodecs still holds, e.g. at the end of a turn
+   */
+  public async flush(): Promise<void> {
+    if (this.webCodecsEncoder?.state === 'configured') {
+      await this.webCodecsEncoder.flush();
+    }
+  }
+
+  /**
+   * Releases the encoder; frames encoded afterwards are sent as PCM
+   */
+  public close(): void {
+    if (this.webCodecsEncoder?.state === 'configured') {
+      this.webCodecsEncoder.close();
+    }
+    this.wasmEncoder?.drop();
+    this.webCodecsEncoder = null;
+    this.wasmEncoder = null;
+    this.format = AudioFormat.PCM;
+  }
+
+  private handleWebCodecsPacket(packet: EncodedAudioChunk): void {
+    const data = new Uint8Array(packet.byteLength);
+    packet.copyTo(data);
+    this.emitPacket(data, packet.timestamp / 1000);
+  }
+
+  private emitPacket(packet: Uint8Array, timestamp: number): void {
+    this.onChunk({
+      data: frameRecord(packet),
+      timestamp,
+      format: AudioFormat.OPUS,
+      metadata: { ...OPUS_METADATA }
+    });
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Playback Service
+ * Plays streamed 16-bit PCM progressively as chunks arrive so AI speech starts
+ * before the whole reply has been received. Rendering goes through the PCM
+ * player AudioWorklet, falling back to scheduled AudioBufferSourceNodes on
+ * browsers without AudioWorklet support.
+ * @version 1.0.0
+ */
+
+import { PLAYBACK_CONSTANTS } from '../constants/audio.constants';
+import { convertFromPCM } from '../utils/audio.utils';
+
+/**
+ * Messages posted by the PCM player worklet
+ */
+interface PlayerWorkletMessage {
+  type: 'progress' | 'drained';
+  playedFrames: number;
+}
+
+export class PcmStreamPlayer {
+  private audioContext: AudioContext | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private readonly scheduledSources: Set<AudioBufferSourceNode> = new Set();
+  private pending: Promise<void> = Promise.resolve();
+  private generation = 0;
+  private nextStartTime = 0;
+  private queuedFrames = 0;
+  private playedFrames = 0;
+  private ended = false;
+
+  /**
+   * @param onEnded - Called once a stream has been fully played after `end()`
+   */
+  constructor(private readonly onEnded: () => void) {}
+
+  /**
+   * Queues a chunk of the current stream for playback
+   * Chunks are played in call order even while the output is being set up
+   * @param pcm - 16-bit little-endian mono PCM
+   * @param sampleRate - Sample rate of the PCM in Hz
+   */
+  public enqueue(pcm: Uint8Array, sampleRate: number): Promise<void> {
+    const generation = this.generation;
+    const samples = convertFromPCM(pcm);
+
+    return this.schedule(async () => {
+      const audioContext = await this.ensureOutput(sampleRate);
+      if (generation !== this.generation || samples.length === 0) {
+        return;
+      }
+
+      this.queuedFrames += samples.length;
+      if (this.workletNode) {
+        this.workletNode.port.postMessage({ type: 'push', samples }, [samples.buffer]);
+      } else {
+        this.scheduleBuffer(audioContext, samples, sampleRate);
+      }
+    });
+  }
+
+  /**
+   * Marks the current stream as complete; `onEnded` fires once it has drained
+   */
+  public end(): Promise<void> {
+    const generation = this.generation;
+
+    return this.schedule(async () => {
+      if (generation !== this.generation) {
+        return;
+      }
+
+      this.ended = true;
+      if (this.workletNode && this.queuedFrames > 0) {
+        this.workletNode.port.postMessage({ type: 'end' });
+      } else if (this.scheduledSources.size === 0) {
+        this.finish();
+      }
+    });
+  }
+
+  /**
+   * Stops the current stream immediately, discarding queued audio
+   * @returns Milliseconds of audio played before stopping
+   */
+  public stop(): number {
+    const playedDuration = this.getPlayedDuration();
+
+    this.generation++;
+    if (this.workletNode) {
+      this.workletNode.port.postMessage({ type: 'clear' });
+    }
+    this.scheduledSources.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    this.reset();
+
+    return playedDuration;
+  }
+
+  /**
+   * Milliseconds of the current stream played so far
+   */
+  public getPlayedDuration(): number {
+    const audioContext = this.audioContext;
+    if (!audioContext || this.queuedFrames === 0) {
+      return 0;
+    }
+
+    if (this.workletNode) {
+      return Math.round((this.playedFrames / audioContext.sampleRate) * 1000);
+    }
+
+    // Scheduled buffers: everything queued minus what is still ahead of the clock
+    const remaining = Math.max(0, this.nextStartTime - audioContext.currentTime);
+    return Math.round((this.queuedFrames / audioContext.sampleRate - remaining) * 1000);
+  }
+
+  /**
+   * Whether a stream has audio queued or playing
+   */
+  public isActive(): boolean {
+    return this.queuedFrames > 0;
+  }
+
+  /**
+   * Stops playback and releases the audio context
+   */
+  public async close(): Promise<void> {
+    this.stop();
+    await this.releaseOutput();
+  }
+
+  /**
+   * Disconnects the player node and closes the audio context
+   */
+  private async releaseOutput(): Promise<void> {
+    this.workletNode?.disconnect();
+    this.workletNode = null;
+
+    const audioContext = this.audioContext;
+    this.audioContext = null;
+    await audioContext?.close();
+  }
+
+  /**
+   * Runs playback operations sequentially so chunk order is preserved
+   */
+  private schedule(operation: () => Promise<void>): Promise<void> {
+    const result = this.pending.then(operation);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Creates the audio context and player node for the sample rate
+   */
+  private async ensureOutput(sampleRate: number): Promise<AudioContext> {
+    if (this.audioContext && this.audioContext.sampleRate !== sampleRate) {
+      await this.releaseOutput();
+    }
+
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext({ sampleRate });
+      this.workletNode = await this.createWorkletNode(this.audioContext);
+    }
+
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+
+    return this.audioContext;
+  }
+
+  /**
+   * Loads the PCM player worklet, returning null when it is unavailable
+   */
+  private async createWorkletNode(audioContext: AudioContext): Promise<AudioWorkletNode | null> {
+    if (!audioContext.audioWorklet) {
+      return null;
+    }
+
+    try {
+      await audioContext.audioWorklet.addModule(PLAYBACK_CONSTANTS.PCM_PLAYER_WORKLET_URL);
+      const node = new AudioWorkletNode(audioContext, PLAYBACK_CONSTANTS.PCM_PLAYER_PROCESSOR, {
+        outputChannelCount: [1],
+        processorOptions: { progressInterval: PLAYBACK_CONSTANTS.PROGRESS_INTERVAL_MS }
+      });
+      node.port.onmessage = (event: MessageEvent<PlayerWorkletMessage>) => {
+        this.handleWorkletMessage(event.data);
+      };
+      node.connect(audioContext.destination);
+      return node;
+    } catch (error) {
+      console.warn('PCM player worklet unavailable, scheduling buffers instead:', error);
+      return null;
+    }
+  }
+
+  private handleWorkletMessage(message: PlayerWorkletMessage): void {
+    if (this.queuedFrames === 0) {
+      return;
+    }
+
+    this.playedFrames = message.playedFrames;
+    if (message.type === 'drained' && this.ended) {
+      this.workletNode?.port.postMessage({ type: 'clear' });
+      this.finish();
+    }
+  }
+
+  /**
+   * Schedules samples right after the previously scheduled buffer
+   */
+  private scheduleBuffer(
+    audioContext: AudioContext,
+    samples: Float32Array,
+    sampleRate: number
+  ): void {
+    const buffer = audioContext.createBuffer(1, samples.length, sampleRate);
+    buffer.getChannelData(0).set(samples);
+
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(audioContext.destination);
+    source.onended = () => {
+      this.scheduledSources.delete(source);
+      if (this.ended && this.scheduledSources.size === 0) {
+        this.finish();
+      }
+    };
+
+    const startTime = Math.max(this.nextStartTime, audioContext.currentTime);
+    source.start(startTime);
+    this.nextStartTime = startTime + buffer.duration;
+    this.scheduledSources.add(source);
+  }
+
+  private finish(): void {
+    this.reset();
+    this.onEnded();
+  }
+
+  private reset(): void {
+    this.scheduledSources.clear();
+    this.nextStartTime = 0;
+    this.queuedFrames = 0;
+    this.playedFrames = 0;
+    this.ended = false;
+  }
+}
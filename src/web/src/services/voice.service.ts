@@ -13,7 +13,8 @@ import {
   VoiceMetadata,
   VoiceError,
   VoiceState,
-  SSMLOptions
+  SSMLOptions,
+  BargeInEvent
 } from '../types/voice.types';
 import { AudioFormat, AudioConfig } from '../types/audio.types';
 import { 
@@ -25,6 +26,7 @@ import {
 } from '../constants/voice.constants';
 import { apiService } from './api.service';
 import { API_ENDPOINTS, CONTENT_TYPES } from '../constants/api.constants';
+import { PcmStreamPlayer } from './playback.service';
 
 export class VoiceService {
   private readonly eventEmitter: EventEmitter;
@@ -33,10 +35,20 @@ export class VoiceService {
   private readonly voiceCache: Map<string, ArrayBuffer>;
   private voiceState: VoiceState;
   private readonly ssmlOptions: SSMLOptions;
+  private audioElement: HTMLAudioElement | null = null;
+  private playbackUrl: string | null = null;
+  private playbackTurnId: string | null = null;
+  private readonly streamPlayer: PcmStreamPlayer;
+  private isStreaming = false;
 
   constructor() {
     this.eventEmitter = new EventEmitter();
     this.voiceCache = new Map();
+    this.streamPlayer = new PcmStreamPlayer(() => {
+      const turnId = this.playbackTurnId;
+      this.releasePlayback();
+      this.eventEmitter.emit('playbackEnded', { turnId });
+    });
     
     // Initialize default configuration
     this.currentConfig = {
@@ -61,6 +73,7 @@ export class VoiceService {
       isSpeaking: false,
       currentVoiceId: this.currentVoiceId,
       isProcessing: false,
+      isPlaying: false,
       error: null
     };
 
@@ -180,6 +193,120 @@ export class VoiceService {
     }
   }
 
+  /**
+   * Plays synthesized AI speech through an audio element
+   * @param audio - Encoded audio to play
+   * @param turnId - Server turn identifier the audio belongs to
+   */
+  public async playAudio(audio: Blob, turnId: string | null = null): Promise<void> {
+    this.stopPlayback();
+
+    this.playbackUrl = URL.createObjectURL(audio);
+    this.playbackTurnId = turnId;
+    this.audioElement = new Audio(this.playbackUrl);
+    this.audioElement.onended = () => {
+      this.releasePlayback();
+      this.eventEmitter.emit('playbackEnded', { turnId });
+    };
+
+    try {
+      this.voiceState.isPlaying = true;
+      await this.audioElement.play();
+      this.eventEmitter.emit('playbackStarted', { turnId });
+    } catch (error) {
+      this.releasePlayback();
+      this.handleError('PLAYBACK_ERROR', 'Audio playback failed', error);
+    }
+  }
+
+  /**
+   * Plays a chunk of streamed AI speech as soon as it arrives
+   * Audio of a different turn replaces whatever is currently playing
+   * @param pcm - 16-bit little-endian mono PCM
+   * @param turnId - Server turn identifier the audio belongs to
+   * @param sampleRate - Sample rate of the PCM in Hz
+   */
+  public async enqueueAudio(
+    pcm: Uint8Array,
+    turnId: string | null = null,
+    sampleRate: number = VOICE_PROCESSING_CONFIG.SAMPLE_RATE
+  ): Promise<void> {
+    if (!this.isStreaming || turnId !== this.playbackTurnId) {
+      this.stopPlayback();
+      this.isStreaming = true;
+      this.playbackTurnId = turnId;
+      this.voiceState.isPlaying = true;
+      this.eventEmitter.emit('playbackStarted', { turnId });
+    }
+
+    try {
+      await this.streamPlayer.enqueue(pcm, sampleRate);
+    } catch (error) {
+      this.stopPlayback();
+      this.handleError('PLAYBACK_ERROR', 'Audio playback failed', error);
+    }
+  }
+
+  /**
+   * Signals that no more audio follows for the streamed turn;
+   * 'playbackEnded' is emitted once the queued audio has played
+   */
+  public async endAudioStream(): Promise<void> {
+    if (this.isStreaming) {
+      await this.streamPlayer.end();
+    }
+  }
+
+  /**
+   * Stops AI speech playback
+   * @returns Milliseconds of audio played before stopping
+   */
+  public stopPlayback(): number {
+    if (this.isStreaming) {
+      const streamedDuration = this.streamPlayer.stop();
+      this.releasePlayback();
+      return streamedDuration;
+    }
+
+    if (!this.audioElement) {
+      return 0;
+    }
+
+    const playedDuration = Math.round(this.audioElement.currentTime * 1000);
+    this.audioElement.pause();
+    this.releasePlayback();
+    return playedDuration;
+  }
+
+  /**
+   * Position of the AI speech currently playing
+   * @returns Milliseconds played so far, or null when nothing is playing
+   */
+  public getPlaybackPosition(): number | null {
+    if (this.isStreaming) {
+      return this.streamPlayer.getPlayedDuration();
+    }
+
+    return this.audioElement ? Math.round(this.audioElement.currentTime * 1000) : null;
+  }
+
+  /**
+   * Interrupts AI playback when user speech is detected while it is playing
+   * @param isVoiceDetected - Whether voice activity detection reports user speech
+   */
+  public handleVoiceActivity(isVoiceDetected: boolean): void {
+    if (!isVoiceDetected || !this.voiceState.isPlaying) {
+      return;
+    }
+
+    const turnId = this.playbackTurnId;
+    const bargeIn: BargeInEvent = {
+      turnId,
+      playedDuration: this.stopPlayback()
+    };
+    this.eventEmitter.emit('bargeIn', bargeIn);
+  }
+
   /**
    * Updates voice processing configuration
    */
@@ -259,6 +386,20 @@ export class VoiceService {
     return VOICE_SYNTHESIS_CONFIG.SUPPORTED_SSML_TAGS;
   }
 
+  private releasePlayback(): void {
+    if (this.audioElement) {
+      this.audioElement.onended = null;
+      this.audioElement = null;
+    }
+    if (this.playbackUrl) {
+      URL.revokeObjectURL(this.playbackUrl);
+      this.playbackUrl = null;
+    }
+    this.isStreaming = false;
+    this.playbackTurnId = null;
+    this.voiceState.isPlaying = false;
+  }
+
   private setupErrorHandling(): void {
     this.eventEmitter.on('error', (error: VoiceError) => {
       this.voiceState.error = error;
@@ -0,0 +1,161 @@
+/**
+ * Wake Word Service
+ * Listens for the user's wake phrase with the wake word AudioWorklet. The
+ * worklet compares the microphone input with samples of the phrase recorded by
+ * the user; neither the input nor the samples leave the browser, and only
+ * detections are reported back to the main thread.
+ * @version 1.0.0
+ */
+
+import { WAKE_WORD_CONSTANTS } from '../constants/audio.constants';
+import { WakeWordConfig, WakeWordSample } from '../types/audio.types';
+
+/**
+ * Messages posted by the wake word worklet
+ */
+type WakeWordWorkletMessage =
+  | { type: 'detected'; distance: number }
+  | { type: 'enrolled'; features: WakeWordSample };
+
+/**
+ * Maps the 0-100 sensitivity setting to the largest match distance accepted
+ * @param sensitivity - Sensitivity from the voice settings
+ */
+export const sensitivityToThreshold = (sensitivity: number): number => {
+  const clamped = Math.max(0, Math.min(100, sensitivity));
+  const { STRICT_THRESHOLD, LENIENT_THRESHOLD } = WAKE_WORD_CONSTANTS;
+  return STRICT_THRESHOLD + ((LENIENT_THRESHOLD - STRICT_THRESHOLD) * clamped) / 100;
+};
+
+export class WakeWordDetector {
+  private workletNode: AudioWorkletNode | null = null;
+  private config: WakeWordConfig = { phrase: '', samples: [], sensitivity: 0 };
+  private pendingSample: {
+    resolve: (sample: WakeWordSample) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+  } | null = null;
+
+  /**
+   * @param onDetected - Called each time the phrase is heard
+   */
+  constructor(private readonly onDetected: (distance: number) => void) {}
+
+  /**
+   * Starts analysing the input of a source node
+   * @param audioContext - Context the source belongs to
+   * @param source - Microphone source node
+   * @throws When the browser does not support AudioWorklet
+   */
+  public async attach(audioContext: AudioContext, source: AudioNode): Promise<void> {
+    if (this.workletNode) {
+      return;
+    }
+    if (!audioContext.audioWorklet) {
+      throw new Error('Wake word detection requires AudioWorklet support');
+    }
+
+    await audioContext.audioWorklet.addModule(WAKE_WORD_CONSTANTS.WORKLET_URL);
+    // Without outputs the node only analyses its input and cannot pass audio on
+    const node = new AudioWorkletNode(audioContext, WAKE_WORD_CONSTANTS.PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1
+    });
+    node.port.onmessage = (event: MessageEvent<WakeWordWorkletMessage>) => {
+      this.handleWorkletMessage(event.data);
+    };
+    source.connect(node);
+
+    this.workletNode = node;
+    this.postConfig();
+  }
+
+  /**
+   * Replaces the phrase samples and sensitivity
+   */
+  public configure(config: WakeWordConfig): void {
+    this.config = config;
+    this.postConfig();
+  }
+
+  /**
+   * Whether samples of the phrase are available to match against
+   */
+  public isReady(): boolean {
+    return this.workletNode !== null && this.config.samples.length > 0;
+  }
+
+  /**
+   * Forgets the input heard so far, e.g. after a turn ends
+   */
+  public reset(): void {
+    this.workletNode?.port.postMessage({ type: 'reset' });
+  }
+
+  /**
+   * Records the next utterance as a sample of the phrase
+   * Detection is paused until the sample is recorded
+   * @returns Sample to store in the voice settings
+   */
+  public recordSample(): Promise<WakeWordSample> {
+    const node = this.workletNode;
+    if (!node) {
+      return Promise.reject(new Error('Wake word detector not attached'));
+    }
+    this.cancelSample(new Error('Sample recording restarted'));
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        node.port.postMessage({ type: 'cancel' });
+        this.cancelSample(new Error('No phrase heard'));
+      }, WAKE_WORD_CONSTANTS.ENROLLMENT_TIMEOUT_MS);
+
+      this.pendingSample = { resolve, reject, timer };
+      node.port.postMessage({ type: 'enroll' });
+    });
+  }
+
+  /**
+   * Stops listening and releases the worklet node
+   */
+  public detach(): void {
+    this.cancelSample(new Error('Wake word detector detached'));
+    this.workletNode?.disconnect();
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+    }
+    this.workletNode = null;
+  }
+
+  private postConfig(): void {
+    this.workletNode?.port.postMessage({
+      type: 'configure',
+      templates: this.config.samples,
+      threshold: sensitivityToThreshold(this.config.sensitivity)
+    });
+  }
+
+  private handleWorkletMessage(message: WakeWordWorkletMessage): void {
+    if (message.type === 'enrolled') {
+      const pending = this.pendingSample;
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pendingSample = null;
+        pending.resolve(message.features);
+      }
+    } else if (message.type === 'detected') {
+      this.onDetected(message.distance);
+    }
+  }
+
+  private cancelSample(error: Error): void {
+    const pending = this.pendingSample;
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.pendingSample = null;
+    pending.reject(error);
+  }
+}
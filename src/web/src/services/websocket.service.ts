@@ -1,12 +1,12 @@
 /**
  * @fileoverview Advanced WebSocket service for secure real-time voice communication
- * Implements secure WSS protocol with comprehensive error handling and monitoring
+ * Implements secure WSS protocol with comprehensive error handling and monitoring.
+ * Messages carry no encryption of their own: JSON and binary audio frames alike
+ * rely on TLS (wss) for confidentiality and integrity.
  * @version 1.0.0
  */
 
 import { WebSocket } from 'typescript'; // v5.0.0
-import * as CryptoJS from 'crypto-js'; // v4.1.1
-import * as pako from 'pako'; // v2.1.0
 
 import { 
     WebSocketState,
@@ -14,16 +14,25 @@ import {
     WebSocketAudioMessage,
     WebSocketErrorMessage,
     WebSocketHeartbeatMessage,
+    WebSocketInterruptMessage,
+    WebSocketAuthRefreshMessage,
+    WebSocketMessageType,
+    VoiceTurnState,
     isAudioMessage,
-    isErrorMessage
+    isAuthExpiringMessage,
+    isErrorMessage,
+    isStateMessage
 } from '../types/websocket.types';
 
 import { WebSocketConfig, ReconnectionConfig } from '../config/websocket.config';
+import { voiceService } from './voice.service';
 import { AudioChunk, AudioFormat } from '../types/audio.types';
+import { AudioFrame, decodeAudioFrame, encodeAudioFrame } from '../utils/audioFrame.utils';
 import { 
     WEBSOCKET_DEFAULTS,
     WEBSOCKET_EVENTS,
     WEBSOCKET_ERROR_CODES,
+    WEBSOCKET_PROTOCOLS,
     WEBSOCKET_STATUS,
     WEBSOCKET_SECURITY,
     WEBSOCKET_PERFORMANCE
@@ -31,7 +40,7 @@ import {
 
 /**
  * Advanced WebSocket service class for secure real-time communication
- * Implements WSS protocol with encryption, compression, and monitoring
+ * Implements WSS protocol with reconnection, turn tracking, and monitoring
  */
 export class WebSocketService {
     private connection: WebSocket | null = null;
@@ -40,6 +49,10 @@ export class WebSocketService {
     private heartbeatInterval: NodeJS.Timer | null = null;
     private messageQueue: Map<string, WebSocketMessage> = new Map();
     private pendingMessages: Set<string> = new Set();
+    private turnState: VoiceTurnState = VoiceTurnState.LISTENING;
+    private turnId: string | null = null;
+    private turnStateListeners: Set<(state: VoiceTurnState) => void> = new Set();
+    private tokenProvider: (() => Promise<string>) | null = null;
     private metrics: {
         latency: number[];
         messagesSent: number;
@@ -48,7 +61,6 @@ export class WebSocketService {
         startTime: number;
     };
     private readonly config: WebSocketConfig;
-    private encryptionKey: CryptoJS.lib.WordArray;
 
     /**
      * Initializes WebSocket service with enhanced configuration
@@ -56,7 +68,6 @@ export class WebSocketService {
      */
     constructor(config: WebSocketConfig) {
         this.config = config;
-        this.encryptionKey = CryptoJS.lib.WordArray.random(32); // 256-bit key
         this.metrics = {
             latency: [],
             messagesSent: 0,
@@ -69,9 +80,11 @@ export class WebSocketService {
     /**
      * Establishes secure WebSocket connection with retry logic
      * @param sessionId - Active session identifier
+     * @param accessToken - Access token, sent as a `bearer.` subprotocol since browsers
+     * cannot set headers on the upgrade request
      * @returns Promise resolving when connection is established
      */
-    public async connect(sessionId: string): Promise<void> {
+    public async connect(sessionId: string, accessToken?: string): Promise<void> {
         if (this.connection) {
             return;
         }
@@ -79,7 +92,14 @@ export class WebSocketService {
         this.connectionState = WebSocketState.CONNECTING;
         
         try {
-            this.connection = new WebSocket(this.config.url, this.config.protocols);
+            const protocols = accessToken
+                ? [
+                    ...this.config.protocols,
+                    `${WEBSOCKET_SECURITY.TOKEN_PROTOCOL_PREFIX}${accessToken}`
+                ]
+                : this.config.protocols;
+            this.connection = new WebSocket(this.config.url, protocols);
+            this.connection.binaryType = 'arraybuffer';
             
             this.connection.onopen = this.handleOpen.bind(this);
             this.connection.onmessage = this.handleMessage.bind(this);
@@ -94,7 +114,8 @@ export class WebSocketService {
     }
 
     /**
-     * Sends encrypted audio chunk with delivery guarantees
+     * Sends audio chunk with delivery guarantees, as a binary frame when the
+     * server accepted binary audio and as a JSON message otherwise
      * @param audioChunk - Audio data chunk to send
      * @returns Promise resolving when chunk is delivered
      */
@@ -108,14 +129,16 @@ export class WebSocketService {
             payload: audioChunk,
             timestamp: Date.now(),
             messageId: crypto.randomUUID(),
-            sequenceNumber: this.metrics.messagesSent + 1
+            sequenceNumber: this.metrics.messagesSent + 1,
+            audioMetadata: audioChunk.metadata
         };
 
         try {
-            const compressedData = this.compressMessage(message);
-            const encryptedData = this.encryptMessage(compressedData);
+            const data = this.usesBinaryAudio()
+                ? encodeAudioFrame(message)
+                : JSON.stringify(message);
             
-            await this.sendWithRetry(encryptedData, message.messageId);
+            await this.sendWithRetry(data, message.messageId);
             this.metrics.messagesSent++;
         } catch (error) {
             this.metrics.errors++;
@@ -123,6 +146,43 @@ export class WebSocketService {
         }
     }
 
+    /**
+     * Notifies the server that the user barged in over AI speech
+     * @param playedDuration - Milliseconds of AI audio played before the interruption
+     * @param turnId - Interrupted turn, defaults to the current server turn
+     */
+    public async sendInterrupt(playedDuration: number, turnId: string | null = null): Promise<void> {
+        const interruptedTurn = turnId ?? this.turnId;
+        if (!this.connection || !interruptedTurn) {
+            return;
+        }
+
+        const message: WebSocketInterruptMessage = {
+            type: WebSocketMessageType.INTERRUPT,
+            payload: {
+                turnId: interruptedTurn,
+                playedDuration
+            },
+            timestamp: Date.now(),
+            messageId: crypto.randomUUID()
+        };
+
+        await this.sendWithRetry(
+            JSON.stringify(message),
+            message.messageId
+        );
+        this.metrics.messagesSent++;
+    }
+
+    /**
+     * Sets the source of refreshed access tokens sent when the server warns that
+     * the connection's token is about to expire
+     * @param provider - Resolves to a valid access token
+     */
+    public setTokenProvider(provider: (() => Promise<string>) | null): void {
+        this.tokenProvider = provider;
+    }
+
     /**
      * Gracefully closes WebSocket connection
      */
@@ -135,6 +195,32 @@ export class WebSocketService {
         }
     }
 
+    /**
+     * Returns the voice turn state last reported by the server
+     */
+    public getTurnState(): VoiceTurnState {
+        return this.turnState;
+    }
+
+    /**
+     * Subscribes to voice turn state changes reported by the server
+     * @param listener - Callback invoked with each new state
+     * @returns Function removing the listener
+     */
+    public onTurnStateChange(listener: (state: VoiceTurnState) => void): () => void {
+        this.turnStateListeners.add(listener);
+        return () => {
+            this.turnStateListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Whether the server accepted binary framing for audio messages
+     */
+    public usesBinaryAudio(): boolean {
+        return this.connection?.protocol === WEBSOCKET_PROTOCOLS.AUDIO_BINARY;
+    }
+
     /**
      * Returns current connection metrics
      */
@@ -153,18 +239,34 @@ export class WebSocketService {
     }
 
     /**
-     * Handles incoming WebSocket messages with decryption
+     * Handles incoming JSON messages and binary audio frames
      */
     private handleMessage(event: MessageEvent): void {
         try {
-            const decryptedData = this.decryptMessage(event.data);
-            const decompressedData = this.decompressMessage(decryptedData);
-            const message: WebSocketMessage = JSON.parse(decompressedData);
+            // Binary frames only ever carry audio
+            if (event.data instanceof ArrayBuffer) {
+                const frame = decodeAudioFrame(event.data);
+                this.handleAudioMessage(frame);
+                this.metrics.messagesReceived++;
+                this.updateLatency(frame.timestamp);
+                return;
+            }
+
+            const message: WebSocketMessage = JSON.parse(event.data);
 
             if (isAudioMessage(message)) {
                 this.handleAudioMessage(message);
             } else if (isErrorMessage(message)) {
                 this.handleErrorMessage(message);
+            } else if (isAuthExpiringMessage(message)) {
+                void this.refreshConnectionToken();
+            } else if (isStateMessage(message)) {
+                if (message.payload.state !== VoiceTurnState.SPEAKING) {
+                    voiceService.endAudioStream();
+                }
+                this.turnState = message.payload.state;
+                this.turnId = message.payload.turnId;
+                this.turnStateListeners.forEach(listener => listener(message.payload.state));
             }
 
             this.metrics.messagesReceived++;
@@ -175,10 +277,51 @@ export class WebSocketService {
         }
     }
 
+    /**
+     * Sends a refreshed access token so the server keeps the connection open
+     */
+    private async refreshConnectionToken(): Promise<void> {
+        if (!this.connection || !this.tokenProvider) {
+            return;
+        }
+
+        try {
+            const message: WebSocketAuthRefreshMessage = {
+                type: WebSocketMessageType.AUTH_REFRESH,
+                payload: { token: await this.tokenProvider() },
+                timestamp: Date.now(),
+                messageId: crypto.randomUUID()
+            };
+
+            await this.sendWithRetry(
+                JSON.stringify(message),
+                message.messageId
+            );
+            this.metrics.messagesSent++;
+        } catch {
+            // Without a fresh token the server closes the connection at expiry,
+            // which handleClose treats as final
+            this.metrics.errors++;
+        }
+    }
+
+    /**
+     * Plays AI speech progressively as its audio frames arrive
+     */
+    private handleAudioMessage(message: AudioFrame): void {
+        // JSON carries the PCM bytes as a plain number array, binary frames as bytes
+        const data = Uint8Array.from(message.payload.data);
+        voiceService.enqueueAudio(data, this.turnId, message.audioMetadata?.sampleRate);
+    }
+
     /**
      * Implements reliable message delivery with retries
      */
-    private async sendWithRetry(data: string, messageId: string, attempts: number = 0): Promise<void> {
+    private async sendWithRetry(
+        data: string | ArrayBuffer,
+        messageId: string,
+        attempts: number = 0
+    ): Promise<void> {
         const maxAttempts = this.config.reconnection.maxAttempts;
         
         try {
@@ -202,59 +345,6 @@ export class WebSocketService {
         }
     }
 
-    /**
-     * Encrypts message using AES-256-GCM
-     */
-    private encryptMessage(data: string): string {
-        const iv = CryptoJS.lib.WordArray.random(12);
-        const encrypted = CryptoJS.AES.encrypt(data, this.encryptionKey, {
-            iv,
-            mode: CryptoJS.mode.GCM,
-            padding: CryptoJS.pad.NoPadding
-        });
-        
-        return JSON.stringify({
-            ciphertext: encrypted.ciphertext.toString(),
-            iv: iv.toString()
-        });
-    }
-
-    /**
-     * Decrypts message using AES-256-GCM
-     */
-    private decryptMessage(encryptedData: string): string {
-        const { ciphertext, iv } = JSON.parse(encryptedData);
-        const decrypted = CryptoJS.AES.decrypt(
-            { ciphertext: CryptoJS.enc.Hex.parse(ciphertext) },
-            this.encryptionKey,
-            { iv: CryptoJS.enc.Hex.parse(iv) }
-        );
-        
-        return decrypted.toString(CryptoJS.enc.Utf8);
-    }
-
-    /**
-     * Compresses message using deflate algorithm
-     */
-    private compressMessage(data: any): string {
-        const jsonString = JSON.stringify(data);
-        if (jsonString.length < this.config.compression.threshold) {
-            return jsonString;
-        }
-        return pako.deflate(jsonString, { to: 'string' });
-    }
-
-    /**
-     * Decompresses message using deflate algorithm
-     */
-    private decompressMessage(data: string): string {
-        try {
-            return pako.inflate(data, { to: 'string' });
-        } catch {
-            return data; // Return as-is if not compressed
-        }
-    }
-
     /**
      * Maintains connection health with heartbeat mechanism
      */
@@ -272,7 +362,7 @@ export class WebSocketService {
                 };
                 
                 this.sendWithRetry(
-                    this.encryptMessage(this.compressMessage(heartbeat)),
+                    JSON.stringify(heartbeat),
                     heartbeat.messageId
                 ).catch(this.handleError.bind(this));
             }
@@ -338,7 +428,9 @@ export class WebSocketService {
         this.stopHeartbeat();
         this.connectionState = WebSocketState.DISCONNECTED;
         
-        if (event.code !== WEBSOCKET_STATUS.NORMAL_CLOSURE) {
+        // Reconnecting with an expired token would be rejected at the handshake
+        if (event.code !== WEBSOCKET_STATUS.NORMAL_CLOSURE &&
+            event.code !== WEBSOCKET_SECURITY.TOKEN_EXPIRED_CLOSE_CODE) {
             this.handleReconnection();
         }
     }
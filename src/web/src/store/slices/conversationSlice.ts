@@ -8,9 +8,12 @@ import { createSlice, PayloadAction, createSelector } from '@reduxjs/toolkit'; /
 import { 
     Conversation, 
     Message, 
+    MessageRole,
     ConversationStatus,
-    ConversationEvent
+    ConversationEvent,
+    LiveTranscript
 } from '../../types/conversation.types';
+import { SpeechMarksUpdate, TranscriptUpdate } from '../../types/websocket.types';
 
 // Voice processing status states
 export enum VoiceProcessingStatus {
@@ -30,6 +33,7 @@ interface ConversationState {
     audioLevel: number;
     voiceError: string | null;
     messageQueue: Message[];
+    liveTranscript: LiveTranscript | null;
 }
 
 // Initial state definition
@@ -40,7 +44,8 @@ const initialState: ConversationState = {
     voiceProcessingStatus: VoiceProcessingStatus.IDLE,
     audioLevel: -60, // Initial audio level in dB
     voiceError: null,
-    messageQueue: []
+    messageQueue: [],
+    liveTranscript: null
 };
 
 // Create the conversation slice
@@ -60,6 +65,50 @@ export const conversationSlice = createSlice({
             }
         },
         
+        applyTranscriptUpdate: (state, action: PayloadAction<TranscriptUpdate>) => {
+            const update = action.payload;
+
+            if (!update.isFinal) {
+                if (update.role === MessageRole.USER) {
+                    state.liveTranscript = {
+                        utteranceId: update.utteranceId,
+                        content: update.transcript,
+                        stability: update.stability,
+                        confidence: update.confidence,
+                        timestamp: Date.now()
+                    };
+                }
+                return;
+            }
+
+            // Final updates replace the in-progress bubble with the persisted message
+            if (state.liveTranscript?.utteranceId === update.utteranceId) {
+                state.liveTranscript = null;
+            }
+
+            const messages = state.currentConversation?.messages;
+            if (!update.messageId || !messages || messages.some(m => m.id === update.messageId)) {
+                return;
+            }
+
+            messages.push({
+                id: update.messageId,
+                content: update.transcript,
+                role: update.role,
+                timestamp: Date.now(),
+                hasAudio: update.role === MessageRole.USER
+            });
+            state.currentConversation!.metadata.updatedAt = Date.now();
+        },
+
+        appendSpeechMarks: (state, action: PayloadAction<SpeechMarksUpdate>) => {
+            const { messageId, marks } = action.payload;
+            const message = state.currentConversation?.messages.find(m => m.id === messageId);
+            if (message) {
+                message.speechMarks = [...(message.speechMarks ?? []), ...marks];
+            }
+        },
+        
         updateStatus: (state, action: PayloadAction<ConversationStatus>) => {
             if (state.currentConversation) {
                 state.currentConversation.status = action.payload;
@@ -108,6 +157,7 @@ export const conversationSlice = createSlice({
         clearConversation: (state) => {
             state.currentConversation = null;
             state.messageQueue = [];
+            state.liveTranscript = null;
             state.voiceProcessingStatus = VoiceProcessingStatus.IDLE;
             state.voiceError = null;
             state.error = null;
@@ -136,6 +186,11 @@ export const selectMessageQueue = createSelector(
     (conversationState) => conversationState.messageQueue
 );
 
+export const selectLiveTranscript = createSelector(
+    [(state: { conversation: ConversationState }) => state.conversation],
+    (conversationState) => conversationState.liveTranscript
+);
+
 export const selectVoiceError = createSelector(
     [(state: { conversation: ConversationState }) => state.conversation],
     (conversationState) => conversationState.voiceError
@@ -145,6 +200,8 @@ export const selectVoiceError = createSelector(
 export const { 
     setConversation,
     addMessage,
+    applyTranscriptUpdate,
+    appendSpeechMarks,
     updateStatus,
     setVoiceProcessingStatus,
     setAudioLevel,
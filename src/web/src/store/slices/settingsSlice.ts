@@ -8,6 +8,8 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import { AppSettings, ThemeSettings, AudioSettings, VoiceSettings, LanguageSettings } from '../../types/settings.types';
 import { ThemeMode } from '../../constants/theme.constants';
+import { WAKE_WORD_CONSTANTS } from '../../constants/audio.constants';
+import { TurnTakingMode } from '../../types/audio.types';
 
 /**
  * Default audio configuration based on technical specifications
@@ -35,7 +37,8 @@ const initialState: AppSettings = {
     outputVolume: 75,
     noiseReduction: true,
     config: DEFAULT_AUDIO_CONFIG,
-    latencyBudget: 500
+    latencyBudget: 500,
+    turnTakingMode: TurnTakingMode.TAP_TO_TOGGLE
   },
   voice: {
     config: {
@@ -47,7 +50,9 @@ const initialState: AppSettings = {
     },
     autoMuteAfterResponse: true,
     wakeWordDetection: false,
-    wakeWordSensitivity: 75
+    wakeWordSensitivity: 75,
+    wakeWordPhrase: WAKE_WORD_CONSTANTS.DEFAULT_PHRASE,
+    wakeWordSamples: []
   },
   language: {
     primaryLanguage: 'en-US',
@@ -111,7 +116,14 @@ const settingsSlice = createSlice({
     },
 
     setAudioSettings: (state, action: PayloadAction<AudioSettings>) => {
-      const { inputVolume, outputVolume, noiseReduction, config, latencyBudget } = action.payload;
+      const {
+        inputVolume,
+        outputVolume,
+        noiseReduction,
+        config,
+        latencyBudget,
+        turnTakingMode
+      } = action.payload;
       
       // Validate audio configuration
       if (config.sampleRate !== DEFAULT_AUDIO_CONFIG.sampleRate ||
@@ -128,7 +140,10 @@ const settingsSlice = createSlice({
           ...DEFAULT_AUDIO_CONFIG,
           ...config
         },
-        latencyBudget: Math.max(0, Math.min(1000, latencyBudget))
+        latencyBudget: Math.max(0, Math.min(1000, latencyBudget)),
+        turnTakingMode: Object.values(TurnTakingMode).includes(turnTakingMode)
+          ? turnTakingMode
+          : initialState.audio.turnTakingMode
       };
 
       // Persist audio settings
@@ -136,7 +151,15 @@ const settingsSlice = createSlice({
     },
 
     setVoicePreferences: (state, action: PayloadAction<VoiceSettings>) => {
-      const { config, autoMuteAfterResponse, wakeWordDetection, wakeWordSensitivity } = action.payload;
+      const {
+        config,
+        autoMuteAfterResponse,
+        wakeWordDetection,
+        wakeWordSensitivity,
+        wakeWordPhrase,
+        wakeWordSamples
+      } = action.payload;
+      const phrase = wakeWordPhrase?.trim() || WAKE_WORD_CONSTANTS.DEFAULT_PHRASE;
       
       state.voice = {
         config: {
@@ -148,7 +171,12 @@ const settingsSlice = createSlice({
         },
         autoMuteAfterResponse,
         wakeWordDetection,
-        wakeWordSensitivity: Math.max(0, Math.min(100, wakeWordSensitivity))
+        wakeWordSensitivity: Math.max(0, Math.min(100, wakeWordSensitivity)),
+        wakeWordPhrase: phrase,
+        // Samples of a different phrase would never match
+        wakeWordSamples: phrase === state.voice.wakeWordPhrase
+          ? (wakeWordSamples ?? []).slice(-WAKE_WORD_CONSTANTS.MAX_SAMPLES)
+          : []
       };
 
       // Persist voice settings
@@ -164,8 +192,8 @@ const settingsSlice = createSlice({
 
       if (themeSettings) state.theme = JSON.parse(themeSettings);
       if (languageSettings) state.language = JSON.parse(languageSettings);
-      if (audioSettings) state.audio = JSON.parse(audioSettings);
-      if (voiceSettings) state.voice = JSON.parse(voiceSettings);
+      if (audioSettings) state.audio = { ...initialState.audio, ...JSON.parse(audioSettings) };
+      if (voiceSettings) state.voice = { ...initialState.voice, ...JSON.parse(voiceSettings) };
     }
   }
 });
@@ -64,6 +64,17 @@ export const logoutUser = createAsyncThunk(
   }
 );
 
+export const logoutAllDevices = createAsyncThunk(
+  'user/logoutAllDevices',
+  async (_, { rejectWithValue }) => {
+    try {
+      await authService.logoutAllDevices();
+    } catch (error) {
+      return rejectWithValue((error as Error).message);
+    }
+  }
+);
+
 export const updateUserPreferences = createAsyncThunk(
   'user/updatePreferences',
   async (preferences: Partial<AppSettings>, { getState, rejectWithValue }) => {
@@ -134,6 +145,17 @@ const userSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       })
+      // Local tokens are cleared even when the request fails
+      .addCase(logoutAllDevices.fulfilled, (state) => {
+        state.isAuthenticated = false;
+        state.user = null;
+        state.error = null;
+      })
+      .addCase(logoutAllDevices.rejected, (state, action) => {
+        state.isAuthenticated = false;
+        state.user = null;
+        state.error = action.payload as string;
+      })
       
       // Update preferences cases
       .addCase(updateUserPreferences.pending, (state) => {
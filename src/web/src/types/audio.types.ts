@@ -8,6 +8,9 @@
 import type { MediaStream } from 'typescript';
 import type { AudioWorkletNode } from 'typescript';
 
+// Internal imports
+import type { AudioStreamMetadata } from './websocket.types';
+
 /**
  * Core audio processing configuration parameters
  */
@@ -36,6 +39,18 @@ export enum AudioFormat {
   AAC = 'audio/aac'
 }
 
+/**
+ * How the start and end of the user's turns are decided
+ */
+export enum TurnTakingMode {
+  /** Talk while holding the microphone button or the space bar */
+  PUSH_TO_TALK = 'push_to_talk',
+  /** Tap once to start a turn and again to end it */
+  TAP_TO_TOGGLE = 'tap_to_toggle',
+  /** Listen continuously; turns end when voice activity detection hears silence */
+  HANDS_FREE = 'hands_free'
+}
+
 /**
  * Interface representing a chunk of audio data in the stream
  */
@@ -46,6 +61,8 @@ export interface AudioChunk {
   timestamp: number;
   /** Audio format of the chunk */
   format: AudioFormat;
+  /** Frame metadata of encoded microphone audio, sent along with the chunk */
+  metadata?: AudioStreamMetadata;
 }
 
 /**
@@ -96,4 +113,21 @@ export interface AudioVisualizerConfig {
   minDecibels: number;
   /** Maximum decibel value for visualization */
   maxDecibels: number;
-}
\ No newline at end of file
+}
+/**
+ * Recorded sample of the wake phrase as frames of mel-cepstral coefficients
+ * Samples are derived locally and never contain audio
+ */
+export type WakeWordSample = number[][];
+
+/**
+ * Wake word spotting configuration
+ */
+export interface WakeWordConfig {
+  /** Phrase the samples were recorded for, shown to the user */
+  phrase: string;
+  /** Recorded samples of the phrase */
+  samples: WakeWordSample[];
+  /** Detection sensitivity (0-100); higher values accept looser matches */
+  sensitivity: number;
+}
@@ -4,6 +4,8 @@
  * @version 1.0.0
  */
 
+import type { SpeechMark } from './voice.types';
+
 /**
  * Enum defining possible states of a conversation
  */
@@ -36,6 +38,24 @@ export interface Message {
     timestamp: number;
     /** Indicates if message has associated audio recording */
     hasAudio: boolean;
+    /** Timing of the spoken words for synthesized replies */
+    speechMarks?: SpeechMark[];
+}
+
+/**
+ * Interface for the in-progress user utterance shown while speech is recognized
+ */
+export interface LiveTranscript {
+    /** Identifier shared by every update of the utterance */
+    utteranceId: string;
+    /** Recognized text so far */
+    content: string;
+    /** Recognition stability of the latest result (0-1) */
+    stability: number | null;
+    /** Recognition confidence of the latest result (0-1) */
+    confidence: number | null;
+    /** Unix timestamp of the latest update */
+    timestamp: number;
 }
 
 /**
@@ -6,7 +6,7 @@
 
 import { ThemeMode } from '../constants/theme.constants';
 import { VoiceConfig } from './voice.types';
-import { AudioConfig } from './audio.types';
+import { AudioConfig, TurnTakingMode, WakeWordSample } from './audio.types';
 
 /**
  * Theme-related settings interface for appearance configuration
@@ -32,6 +32,8 @@ export interface AudioSettings {
   config: AudioConfig;
   /** Maximum acceptable processing delay in milliseconds */
   latencyBudget: number;
+  /** How the start and end of each turn are decided */
+  turnTakingMode: TurnTakingMode;
 }
 
 /**
@@ -46,6 +48,10 @@ export interface VoiceSettings {
   wakeWordDetection: boolean;
   /** Wake word detection sensitivity (0-100) */
   wakeWordSensitivity: number;
+  /** Phrase that activates listening */
+  wakeWordPhrase: string;
+  /** Recorded samples of the phrase, cleared when the phrase changes */
+  wakeWordSamples: WakeWordSample[];
 }
 
 /**
@@ -88,10 +88,47 @@ export interface VoiceState {
   currentVoiceId: VoiceId;
   /** Indicates if audio is being processed */
   isProcessing: boolean;
+  /** Indicates if AI speech is currently playing */
+  isPlaying: boolean;
   /** Current error state, if any */
   error: VoiceError | null;
 }
 
+/**
+ * Barge-in event emitted when user speech interrupts AI playback
+ */
+export interface BargeInEvent {
+  /** Server turn identifier of the interrupted reply */
+  turnId: string | null;
+  /** Milliseconds of audio played before the interruption */
+  playedDuration: number;
+}
+
+/**
+ * Kinds of speech marks returned with synthesized speech
+ */
+export enum SpeechMarkType {
+  SENTENCE = 'sentence',
+  WORD = 'word',
+  VISEME = 'viseme'
+}
+
+/**
+ * Timing of a sentence, word or viseme within synthesized speech
+ */
+export interface SpeechMark {
+  /** Kind of mark */
+  readonly type: SpeechMarkType;
+  /** Milliseconds from the start of the reply audio */
+  readonly time: number;
+  /** Offset of the first character in the message content */
+  readonly start?: number;
+  /** Offset after the last character in the message content */
+  readonly end?: number;
+  /** Spoken text, or the viseme symbol */
+  readonly value: string;
+}
+
 /**
  * Voice quality metrics for monitoring
  */
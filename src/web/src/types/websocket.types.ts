@@ -5,8 +5,9 @@
  */
 
 // Internal imports
-import type { AudioChunk, AudioFormat } from '../types/audio.types';
+import type { AudioChunk, AudioFormat, TurnTakingMode } from '../types/audio.types';
 import type { Message, MessageRole } from '../types/conversation.types';
+import type { SpeechMark } from '../types/voice.types';
 
 /**
  * Enum representing possible WebSocket connection states
@@ -19,16 +20,34 @@ export enum WebSocketState {
 
 /**
  * Enum defining supported WebSocket message types for voice interaction
+ * Values are the wire format shared with the server
  */
 export enum WebSocketMessageType {
     AUDIO = 'audio',
     TRANSCRIPT = 'transcript',
+    SPEECH_MARKS = 'speech_marks',
     ERROR = 'error',
-    HEARTBEAT = 'heartbeat'
+    HEARTBEAT = 'heartbeat',
+    STATE = 'state',
+    INTERRUPT = 'interrupt',
+    AUTH_EXPIRING = 'auth_expiring',
+    AUTH_REFRESH = 'auth_refresh',
+    TURN_MODE = 'turn_mode',
+    TURN_END = 'turn_end'
 }
 
 /**
- * Base interface for all WebSocket messages with security features
+ * Enum representing the voice turn state reported by the server
+ */
+export enum VoiceTurnState {
+    LISTENING = 'listening',
+    THINKING = 'thinking',
+    SPEAKING = 'speaking'
+}
+
+/**
+ * Base interface for all WebSocket messages
+ * Integrity is provided by the TLS transport (wss)
  */
 export interface WebSocketMessage {
     /** Message type identifier */
@@ -39,8 +58,6 @@ export interface WebSocketMessage {
     timestamp: number;
     /** Unique message identifier for tracking */
     messageId: string;
-    /** SHA-256 checksum for message integrity */
-    checksum: string;
 }
 
 /**
@@ -52,6 +69,44 @@ export interface WebSocketAudioMessage extends WebSocketMessage {
     payload: AudioChunk;
     /** Sequence number for ordering audio chunks */
     sequenceNumber: number;
+    /** Encoding of the audio in the payload */
+    audioMetadata?: AudioStreamMetadata;
+}
+
+/**
+ * Encoding of streamed audio, matching AudioMetadata on the server
+ */
+export interface AudioStreamMetadata {
+    /** Sample rate in Hz */
+    sampleRate: number;
+    /** Number of channels */
+    channels: number;
+    /** Sample encoding, e.g. LINEAR16 or OPUS */
+    encoding: string;
+    /** Frame duration in milliseconds */
+    frameSize: number;
+    /** Voice activity level of the frames, if measured */
+    vadLevel?: number;
+}
+
+/**
+ * Interim or committed transcript of a single utterance
+ */
+export interface TranscriptUpdate {
+    /** Identifier shared by every update of the same utterance */
+    utteranceId: string;
+    /** Persisted message identifier once the utterance is committed */
+    messageId: string | null;
+    /** Role of the speaker */
+    role: MessageRole;
+    /** Recognized or generated text */
+    transcript: string;
+    /** True once the utterance is committed or discarded */
+    isFinal: boolean;
+    /** Recognition stability (0-1) */
+    stability: number | null;
+    /** Recognition confidence (0-1) */
+    confidence: number | null;
 }
 
 /**
@@ -60,9 +115,27 @@ export interface WebSocketAudioMessage extends WebSocketMessage {
  */
 export interface WebSocketTranscriptMessage extends WebSocketMessage {
     type: WebSocketMessageType.TRANSCRIPT;
-    payload: Message;
-    /** Associated conversation identifier */
-    conversationId: string;
+    payload: TranscriptUpdate;
+}
+
+/**
+ * Speech marks for the part of a reply about to be played
+ */
+export interface SpeechMarksUpdate {
+    /** Identifier of the AI message being spoken */
+    messageId: string;
+    /** Identifier of the turn the reply belongs to */
+    turnId: string;
+    /** Marks timed from the start of the reply audio */
+    marks: SpeechMark[];
+}
+
+/**
+ * Interface for speech mark messages sent ahead of the audio they describe
+ */
+export interface WebSocketSpeechMarksMessage extends WebSocketMessage {
+    type: WebSocketMessageType.SPEECH_MARKS;
+    payload: SpeechMarksUpdate;
 }
 
 /**
@@ -95,6 +168,75 @@ export interface WebSocketHeartbeatMessage extends WebSocketMessage {
     };
 }
 
+/**
+ * Interface for voice turn state change notifications
+ */
+export interface WebSocketStateMessage extends WebSocketMessage {
+    type: WebSocketMessageType.STATE;
+    payload: {
+        /** Current turn state */
+        state: VoiceTurnState;
+        /** State before the transition, null on session start */
+        previousState: VoiceTurnState | null;
+        /** Identifier of the turn the state belongs to */
+        turnId: string;
+    };
+}
+
+/**
+ * Interface for barge-in notifications sent when the user interrupts AI speech
+ */
+export interface WebSocketInterruptMessage extends WebSocketMessage {
+    type: WebSocketMessageType.INTERRUPT;
+    payload: {
+        /** Identifier of the interrupted turn */
+        turnId: string;
+        /** Milliseconds of AI audio played before the interruption */
+        playedDuration: number;
+    };
+}
+
+/**
+ * Interface for selecting how the server decides the end of the user's turns
+ */
+export interface WebSocketTurnModeMessage extends WebSocketMessage {
+    type: WebSocketMessageType.TURN_MODE;
+    payload: {
+        /** Turn-taking mode; push-to-talk disables server-side endpointing */
+        mode: TurnTakingMode;
+    };
+}
+
+/**
+ * Interface for marking the end of the user's turn, e.g. on release of the talk button
+ */
+export interface WebSocketTurnEndMessage extends WebSocketMessage {
+    type: WebSocketMessageType.TURN_END;
+    payload: Record<string, never>;
+}
+
+/**
+ * Interface for the server's notice that the connection's access token is about to expire
+ */
+export interface WebSocketAuthExpiringMessage extends WebSocketMessage {
+    type: WebSocketMessageType.AUTH_EXPIRING;
+    payload: {
+        /** Token expiry (Unix ms); the server closes the connection at this time */
+        expiresAt: number;
+    };
+}
+
+/**
+ * Interface for in-band access token refreshes that keep the connection open
+ */
+export interface WebSocketAuthRefreshMessage extends WebSocketMessage {
+    type: WebSocketMessageType.AUTH_REFRESH;
+    payload: {
+        /** Refreshed access token */
+        token: string;
+    };
+}
+
 /**
  * Type guard to check if a message is an audio message
  */
@@ -109,6 +251,15 @@ export function isTranscriptMessage(message: WebSocketMessage): message is WebSo
     return message.type === WebSocketMessageType.TRANSCRIPT;
 }
 
+/**
+ * Type guard to check if a message is a speech marks message
+ */
+export function isSpeechMarksMessage(
+    message: WebSocketMessage
+): message is WebSocketSpeechMarksMessage {
+    return message.type === WebSocketMessageType.SPEECH_MARKS;
+}
+
 /**
  * Type guard to check if a message is an error message
  */
@@ -116,6 +267,22 @@ export function isErrorMessage(message: WebSocketMessage): message is WebSocketE
     return message.type === WebSocketMessageType.ERROR;
 }
 
+/**
+ * Type guard to check if a message is a token expiry notice
+ */
+export function isAuthExpiringMessage(
+    message: WebSocketMessage
+): message is WebSocketAuthExpiringMessage {
+    return message.type === WebSocketMessageType.AUTH_EXPIRING;
+}
+
+/**
+ * Type guard to check if a message is a turn state message
+ */
+export function isStateMessage(message: WebSocketMessage): message is WebSocketStateMessage {
+    return message.type === WebSocketMessageType.STATE;
+}
+
 /**
  * Comprehensive interface for WebSocket event handling with enhanced error handling
  */
@@ -199,6 +199,23 @@ function convertToPCM(audioData: Float32Array): Uint8Array {
   return new Uint8Array(buffer);
 }
 
+/**
+ * Converts 16-bit little-endian PCM to Float32 samples for Web Audio playback
+ * A trailing odd byte is ignored
+ * @param pcmData - Raw PCM bytes
+ * @returns Samples in the range [-1, 1)
+ */
+export function convertFromPCM(pcmData: Uint8Array): Float32Array {
+  const view = new DataView(pcmData.buffer, pcmData.byteOffset, pcmData.byteLength);
+  const samples = new Float32Array(Math.floor(pcmData.byteLength / 2));
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 0x8000;
+  }
+
+  return samples;
+}
+
 /**
  * Helper function to convert Float32Array to Opus format
  * @param audioData - Raw audio data
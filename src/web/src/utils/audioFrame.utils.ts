@@ -0,0 +1,118 @@
+/**
+ * Binary audio frame encoding shared with the server
+ * Over the binary audio subprotocol, audio messages travel as binary WebSocket
+ * frames rather than JSON. Header fields are big-endian:
+ *
+ *   offset  size  field
+ *   0       1     frame format version
+ *   1       1     message type (1 = audio)
+ *   2       1     codec (0 = 16-bit little-endian PCM, 1 = length-prefixed Opus packets)
+ *   3       1     channels
+ *   4       4     sequence number
+ *   8       8     timestamp, float64 milliseconds since the epoch
+ *   16      4     sample rate in Hz
+ *   20      2     frame duration in milliseconds
+ *   22      2     reserved, zero
+ *   24      ...   audio
+ * @packageDocumentation
+ * @version 1.0.0
+ */
+
+// Internal imports
+import { AudioFormat } from '../types/audio.types';
+import { WebSocketAudioMessage, WebSocketMessageType } from '../types/websocket.types';
+import { AUDIO_FRAME } from '../constants/websocket.constants';
+
+/** Message type identifier of audio in the frame header */
+const AUDIO_FRAME_TYPE = 1;
+
+/** Codecs carried in the frame header, with the encoding named in the stream metadata */
+const FRAME_CODECS = [
+  { id: 0, format: AudioFormat.PCM, encoding: 'LINEAR16' },
+  { id: 1, format: AudioFormat.OPUS, encoding: 'OPUS' }
+] as const;
+
+/**
+ * Fields of an audio message carried by a binary frame
+ */
+export type AudioFrame = Pick<
+  WebSocketAudioMessage,
+  'type' | 'payload' | 'timestamp' | 'sequenceNumber' | 'audioMetadata'
+>;
+
+/**
+ * Encodes an audio message as a binary frame
+ * @param frame - Audio message with the metadata of its payload
+ * @returns Header followed by the audio of the payload
+ * @throws Error if the payload format has no frame codec or metadata is missing
+ */
+export function encodeAudioFrame(frame: AudioFrame): ArrayBuffer {
+  const codec = FRAME_CODECS.find(({ format }) => format === frame.payload.format);
+  if (!codec) {
+    throw new Error(`Unsupported audio frame format: ${frame.payload.format}`);
+  }
+  const metadata = frame.audioMetadata;
+  if (!metadata) {
+    throw new Error('Audio frames require stream metadata');
+  }
+
+  const { data } = frame.payload;
+  const buffer = new ArrayBuffer(AUDIO_FRAME.HEADER_BYTES + data.byteLength);
+  const header = new DataView(buffer);
+  header.setUint8(0, AUDIO_FRAME.VERSION);
+  header.setUint8(1, AUDIO_FRAME_TYPE);
+  header.setUint8(2, codec.id);
+  header.setUint8(3, metadata.channels);
+  header.setUint32(4, frame.sequenceNumber);
+  header.setFloat64(8, frame.timestamp);
+  header.setUint32(16, metadata.sampleRate);
+  header.setUint16(20, metadata.frameSize);
+  new Uint8Array(buffer).set(data, AUDIO_FRAME.HEADER_BYTES);
+
+  return buffer;
+}
+
+/**
+ * Decodes a binary frame into the fields of an audio message
+ * @param buffer - Binary WebSocket frame
+ * @returns Audio message fields; the payload views the frame's memory
+ * @throws Error if the frame is truncated, of another version, or not audio
+ */
+export function decodeAudioFrame(buffer: ArrayBuffer): AudioFrame {
+  if (buffer.byteLength < AUDIO_FRAME.HEADER_BYTES) {
+    throw new Error('Truncated audio frame header');
+  }
+
+  const header = new DataView(buffer);
+  const version = header.getUint8(0);
+  if (version !== AUDIO_FRAME.VERSION) {
+    throw new Error(`Unsupported audio frame version: ${version}`);
+  }
+  if (header.getUint8(1) !== AUDIO_FRAME_TYPE) {
+    throw new Error('Binary frames may only carry audio');
+  }
+  const codecId = header.getUint8(2);
+  const codec = FRAME_CODECS.find(({ id }) => id === codecId);
+  if (!codec) {
+    throw new Error(`Unsupported audio frame codec: ${codecId}`);
+  }
+
+  const timestamp = header.getFloat64(8);
+
+  return {
+    type: WebSocketMessageType.AUDIO,
+    payload: {
+      data: new Uint8Array(buffer, AUDIO_FRAME.HEADER_BYTES),
+      timestamp,
+      format: codec.format
+    },
+    timestamp,
+    sequenceNumber: header.getUint32(4),
+    audioMetadata: {
+      sampleRate: header.getUint32(16),
+      channels: header.getUint8(3),
+      encoding: codec.encoding,
+      frameSize: header.getUint16(20)
+    }
+  };
+}
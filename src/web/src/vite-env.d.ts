@@ -31,4 +31,18 @@ declare module '*.jpg' {
 declare module '*.css' {
   const content: string;
   export default content;
+}
+
+// Opus encoder compiled to WebAssembly, used where WebCodecs cannot encode Opus
+declare module '@evan/wasm/target/opus/deno.js' {
+  export class Encoder {
+    constructor(options: {
+      channels: number;
+      sample_rate: number;
+      application: 'voip' | 'audio' | 'restricted_lowdelay';
+    });
+    bitrate: number;
+    encode(samples: Int16Array): Uint8Array;
+    drop(): void;
+  }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { STORAGE_KEYS } from '../../src/utils/storage.utils';
 import type { AppSettings } from '../../src/types/settings.types';
+import { TurnTakingMode } from '../../src/types/audio.types';
 
 // Test data constants
 const DEFAULT_SETTINGS: AppSettings = {
@@ -17,7 +18,8 @@ const DEFAULT_SETTINGS: AppSettings = {
       bitDepth: 16,
       channels: 1
     },
-    latencyBudget: 500
+    latencyBudget: 500,
+    turnTakingMode: TurnTakingMode.TAP_TO_TOGGLE
   },
   voice: {
     config: {
@@ -34,7 +36,9 @@ const DEFAULT_SETTINGS: AppSettings = {
     },
     autoMuteAfterResponse: true,
     wakeWordDetection: false,
-    wakeWordSensitivity: 75
+    wakeWordSensitivity: 75,
+    wakeWordPhrase: 'Hey assistant',
+    wakeWordSamples: []
   },
   language: {
     primaryLanguage: 'en-US',
@@ -14,6 +14,7 @@ import { MessageBubble } from '../../src/components/conversation/MessageBubble';
 import { MessageList } from '../../src/components/conversation/MessageList';
 import { ConversationHistory } from '../../src/components/conversation/ConversationHistory';
 import { Message, MessageRole, ConversationStatus } from '../../src/types/conversation.types';
+import { SpeechMarkType } from '../../src/types/voice.types';
 import { THEME_COLORS } from '../../src/constants/theme.constants';
 
 // Extend Jest matchers
@@ -83,6 +84,29 @@ describe('MessageBubble Component', () => {
     expect(content.parentElement).toHaveStyle('animation: typing 1s infinite');
   });
 
+  it('highlights the word being spoken during playback', () => {
+    const message = createMockMessage({
+      role: MessageRole.AI,
+      content: 'Sure, see you soon.',
+      speechMarks: [
+        { type: SpeechMarkType.SENTENCE, time: 0, start: 0, end: 19, value: 'Sure, see you soon.' },
+        { type: SpeechMarkType.WORD, time: 0, start: 0, end: 4, value: 'Sure' },
+        { type: SpeechMarkType.VISEME, time: 120, value: 's' },
+        { type: SpeechMarkType.WORD, time: 400, start: 6, end: 9, value: 'see' },
+        { type: SpeechMarkType.WORD, time: 700, start: 10, end: 13, value: 'you' }
+      ]
+    });
+    const { container, rerender } = renderWithTheme(
+      <MessageBubble message={message} playbackPosition={500} />
+    );
+
+    expect(container.querySelector('mark')).toHaveTextContent('see');
+    expect(container).toHaveTextContent('Sure, see you soon.');
+
+    rerender(<MessageBubble message={message} playbackPosition={null} />);
+    expect(container.querySelector('mark')).toBeNull();
+  });
+
   it('meets accessibility requirements', async () => {
     const message = createMockMessage();
     const { container } = renderWithTheme(<MessageBubble message={message} />);
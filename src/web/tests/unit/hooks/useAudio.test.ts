@@ -11,6 +11,7 @@ import { useAudio } from '../../src/hooks/useAudio';
 import { AudioService } from '../../src/services/audio.service';
 import { defaultAudioConfig } from '../../src/config/audio.config';
 import { AUDIO_PROCESSING_CONSTANTS, VOICE_ACTIVITY_CONSTANTS } from '../../src/constants/audio.constants';
+import { AudioFormat, TurnTakingMode } from '../../src/types/audio.types';
 
 // Mock AudioService
 jest.mock('../../src/services/audio.service');
@@ -63,7 +64,9 @@ describe('useAudio Hook', () => {
         peakLatency: 30,
         dropouts: 0
       }),
-      on: jest.fn()
+      on: jest.fn(),
+      setWakeWord: jest.fn().mockResolvedValue(undefined),
+      setTurnTakingMode: jest.fn()
     } as unknown as jest.Mocked<AudioService>;
 
     // Mock AudioService constructor
@@ -74,6 +77,13 @@ describe('useAudio Hook', () => {
     jest.resetAllMocks();
   });
 
+  // Delivers a level report as the capture worklet would
+  const emitLevel = () => {
+    const [, levelReported] = mockAudioService.on.mock.calls
+      .find(([event]) => event === 'audioLevel') as [string, (level: unknown) => void];
+    act(() => levelReported(mockAudioService.getAudioLevel()));
+  };
+
   it('should initialize with correct audio parameters', async () => {
     const customConfig = {
       sampleRate: 16000,
@@ -151,10 +161,7 @@ describe('useAudio Hook', () => {
       clipping: false
     });
 
-    // Wait for next update cycle
-    await act(async () => {
-      await new Promise(resolve => setTimeout(resolve, 50));
-    });
+    emitLevel();
 
     expect(result.current.isVoiceDetected).toBe(false);
 
@@ -166,10 +173,7 @@ describe('useAudio Hook', () => {
       clipping: false
     });
 
-    // Wait for next update cycle
-    await act(async () => {
-      await new Promise(resolve => setTimeout(resolve, 50));
-    });
+    emitLevel();
 
     expect(result.current.isVoiceDetected).toBe(true);
   });
@@ -189,10 +193,7 @@ describe('useAudio Hook', () => {
       dropouts: 0
     });
 
-    // Wait for metrics update
-    await act(async () => {
-      await new Promise(resolve => setTimeout(resolve, 50));
-    });
+    emitLevel();
 
     expect(result.current.performance).toEqual({
       averageLatency: 15,
@@ -260,10 +261,7 @@ describe('useAudio Hook', () => {
       clipping: true
     });
 
-    // Wait for level update
-    await act(async () => {
-      await new Promise(resolve => setTimeout(resolve, 50));
-    });
+    emitLevel();
 
     expect(result.current.audioLevel).toEqual({
       rms: -20,
@@ -271,4 +269,34 @@ describe('useAudio Hook', () => {
       clipping: true
     });
   });
-});
\ No newline at end of file
+
+  it('should apply the turn-taking mode and report ended turns', async () => {
+    const onTurnEnd = jest.fn();
+    const { waitForNextUpdate } = renderHook(() => useAudio(undefined, {
+      turnTakingMode: TurnTakingMode.PUSH_TO_TALK,
+      onTurnEnd
+    }));
+    await waitForNextUpdate();
+
+    expect(mockAudioService.setTurnTakingMode).toHaveBeenCalledWith(TurnTakingMode.PUSH_TO_TALK);
+
+    const [, turnEnded] = mockAudioService.on.mock.calls
+      .find(([event]) => event === 'turnEnded') as [string, () => void];
+    act(() => turnEnded());
+
+    expect(onTurnEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass captured chunks on', async () => {
+    const onAudioChunk = jest.fn();
+    const { waitForNextUpdate } = renderHook(() => useAudio(undefined, { onAudioChunk }));
+    await waitForNextUpdate();
+
+    const chunk = { data: new Uint8Array(640), timestamp: Date.now(), format: AudioFormat.PCM };
+    const [, chunkCaptured] = mockAudioService.on.mock.calls
+      .find(([event]) => event === 'audioChunk') as [string, (chunk: unknown) => void];
+    act(() => chunkCaptured(chunk));
+
+    expect(onAudioChunk).toHaveBeenCalledWith(chunk);
+  });
+});
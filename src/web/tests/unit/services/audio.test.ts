@@ -9,13 +9,19 @@ import { jest } from '@jest/globals'; // v29.0.0
 
 // Internal imports
 import { AudioService } from '../../src/services/audio.service';
-import { AudioConfig, AudioFormat } from '../../src/types/audio.types';
+import { AudioConfig, AudioFormat, TurnTakingMode } from '../../src/types/audio.types';
 import { 
   AUDIO_PROCESSING_CONSTANTS,
+  CAPTURE_CONSTANTS,
   VOICE_ACTIVITY_CONSTANTS,
   VISUALIZER_CONSTANTS 
 } from '../../src/constants/audio.constants';
 
+// Without an Opus encoder captured frames are sent as PCM
+jest.mock('@evan/wasm/target/opus/deno.js', () => {
+  throw new Error('WebAssembly unavailable');
+}, { virtual: true });
+
 // Mock implementations
 class MockAudioContext {
   sampleRate: number;
@@ -45,6 +51,21 @@ class MockAudioContext {
   close = jest.fn().mockResolvedValue(undefined);
 }
 
+class MockAudioWorkletNode {
+  static instances: MockAudioWorkletNode[] = [];
+
+  port = {
+    postMessage: jest.fn(),
+    onmessage: null as ((event: { data: unknown }) => void) | null
+  };
+  connect = jest.fn();
+  disconnect = jest.fn();
+
+  constructor(public context: unknown, public name: string, public options: any) {
+    MockAudioWorkletNode.instances.push(this);
+  }
+}
+
 class MockMediaStream {
   private tracks: MediaStreamTrack[] = [];
 
@@ -84,6 +105,8 @@ describe('AudioService', () => {
     // Mock global objects
     global.AudioContext = jest.fn().mockImplementation(() => mockAudioContext);
     global.MediaStream = jest.fn().mockImplementation(() => mockMediaStream);
+    MockAudioWorkletNode.instances = [];
+    (global as any).AudioWorkletNode = MockAudioWorkletNode;
     
     // Mock navigator.mediaDevices
     Object.defineProperty(global.navigator, 'mediaDevices', {
@@ -195,6 +218,88 @@ describe('AudioService', () => {
     });
   });
 
+  describe('turn taking', () => {
+    const voice = (): Float32Array => new Float32Array(320).fill(0.5);
+    const silence = (): Float32Array => new Float32Array(320);
+
+    it('should only produce chunks while push-to-talk is held', async () => {
+      const onTurnEnded = jest.fn();
+      audioService.on('turnEnded' as any, onTurnEnded);
+      audioService.setTurnTakingMode(TurnTakingMode.PUSH_TO_TALK);
+      await audioService.initialize();
+
+      expect(await audioService.processAudioChunk(voice())).toBeNull();
+
+      await audioService.startRecording();
+      expect(await audioService.processAudioChunk(voice())).not.toBeNull();
+
+      await audioService.stopRecording();
+      expect(onTurnEnded).toHaveBeenCalledTimes(1);
+      expect(await audioService.processAudioChunk(voice())).toBeNull();
+    });
+
+    it('should end hands-free turns on silence and keep listening', async () => {
+      const onTurnEnded = jest.fn();
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      audioService.on('turnEnded' as any, onTurnEnded);
+      audioService.setTurnTakingMode(TurnTakingMode.HANDS_FREE);
+      await audioService.initialize();
+      await audioService.startRecording();
+
+      // Silence before the user speaks does not end a turn
+      now.mockReturnValue(1000 + VOICE_ACTIVITY_CONSTANTS.SILENCE_TIMEOUT_MS * 2);
+      await audioService.processAudioChunk(silence());
+      expect(onTurnEnded).not.toHaveBeenCalled();
+
+      now.mockReturnValue(5000);
+      await audioService.processAudioChunk(voice());
+      now.mockReturnValue(5000 + VOICE_ACTIVITY_CONSTANTS.SILENCE_TIMEOUT_MS + 1);
+      await audioService.processAudioChunk(silence());
+
+      expect(onTurnEnded).toHaveBeenCalledTimes(1);
+      expect(await audioService.processAudioChunk(voice())).not.toBeNull();
+      now.mockRestore();
+    });
+  });
+
+  describe('capture worklet', () => {
+    const captureNode = () => MockAudioWorkletNode.instances
+      .find(node => node.name === CAPTURE_CONSTANTS.PROCESSOR) as MockAudioWorkletNode;
+    const deliver = (data: unknown) => captureNode().port.onmessage?.({ data });
+
+    it('should send frames captured during a turn as PCM chunks', async () => {
+      const onChunk = jest.fn();
+      audioService.on('audioChunk' as any, onChunk);
+      audioService.setTurnTakingMode(TurnTakingMode.PUSH_TO_TALK);
+      await audioService.initialize();
+
+      await audioService.startRecording();
+      expect(captureNode().port.postMessage).toHaveBeenLastCalledWith({ type: 'start' });
+      deliver({ type: 'frame', samples: new Int16Array(320), voice: true });
+
+      await audioService.stopRecording();
+      expect(captureNode().port.postMessage).toHaveBeenLastCalledWith({ type: 'stop' });
+      deliver({ type: 'frame', samples: new Int16Array(320), voice: true });
+
+      expect(onChunk).toHaveBeenCalledTimes(1);
+      const [chunk] = onChunk.mock.calls[0] as [{ data: Uint8Array; format: AudioFormat }];
+      expect(chunk.data.byteLength).toBe(640);
+      expect(chunk.format).toBe(AudioFormat.PCM);
+    });
+
+    it('should report levels metered by the worklet', async () => {
+      const onLevel = jest.fn();
+      audioService.on('audioLevel' as any, onLevel);
+      await audioService.initialize();
+
+      deliver({ type: 'level', rms: -20, peak: -6, clipping: false, voice: true });
+
+      expect(audioService.getAudioLevel()).toEqual({ rms: -20, peak: -6, clipping: false });
+      expect(audioService.isVoiceDetected()).toBe(true);
+      expect(onLevel).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle device access errors gracefully', async () => {
       const error = new Error('NotAllowedError');
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for microphone capture through the capture worklet
+ * @packageDocumentation
+ * @version 1.0.0
+ */
+
+// External imports
+import { jest } from '@jest/globals'; // v29.0.0
+
+// Internal imports
+import { AudioCapture, AudioCaptureHandlers } from '../../../src/services/audioCapture.service';
+import { CAPTURE_CONSTANTS } from '../../../src/constants/audio.constants';
+
+// Mock implementations
+class MockAudioWorkletNode {
+  static instances: MockAudioWorkletNode[] = [];
+
+  port = {
+    postMessage: jest.fn(),
+    onmessage: null as ((event: { data: unknown }) => void) | null
+  };
+  connect = jest.fn();
+  disconnect = jest.fn();
+
+  constructor(public context: unknown, public name: string, public options: any) {
+    MockAudioWorkletNode.instances.push(this);
+  }
+}
+
+const createContext = () => ({
+  audioWorklet: { addModule: jest.fn(async () => undefined) }
+});
+
+const level = { type: 'level', rms: -20, peak: -12, clipping: false, voice: true };
+
+/**
+ * Writes a frame into the shared ring buffer the way the worklet does
+ */
+const writeFrame = (ring: { buffer: SharedArrayBuffer; slots: number }, fill: number) => {
+  const { slots } = ring;
+  const frameSamples = (ring.buffer.byteLength - 16 - Math.ceil(slots / 4) * 4) / 2 / slots;
+  const header = new Int32Array(ring.buffer, 0, 4);
+  const written = header[0];
+  const slot = written % slots;
+
+  new Int16Array(ring.buffer, 16 + Math.ceil(slots / 4) * 4, slots * frameSamples)
+    .fill(fill, slot * frameSamples, (slot + 1) * frameSamples);
+  new Uint8Array(ring.buffer, 16, slots)[slot] = 1;
+  header[0] = written + 1;
+};
+
+describe('AudioCapture', () => {
+  let onFrame: jest.Mock;
+  let onLevel: jest.Mock;
+  let capture: AudioCapture;
+  let source: { connect: jest.Mock };
+
+  beforeEach(() => {
+    MockAudioWorkletNode.instances = [];
+    (global as any).AudioWorkletNode = MockAudioWorkletNode;
+    (globalThis as any).crossOriginIsolated = false;
+
+    onFrame = jest.fn();
+    onLevel = jest.fn();
+    source = { connect: jest.fn() };
+    capture = new AudioCapture({ onFrame, onLevel } as unknown as AudioCaptureHandlers);
+  });
+
+  it('analyses the source without passing its audio on', async () => {
+    const context = createContext();
+    await capture.attach(context as unknown as AudioContext, source as unknown as AudioNode);
+
+    const node = MockAudioWorkletNode.instances[0];
+    expect(context.audioWorklet.addModule).toHaveBeenCalledWith(CAPTURE_CONSTANTS.WORKLET_URL);
+    expect(node.name).toBe(CAPTURE_CONSTANTS.PROCESSOR);
+    expect(node.options.numberOfOutputs).toBe(0);
+    expect(node.options.processorOptions.frameSamples).toBe(320);
+    expect(source.connect).toHaveBeenCalledWith(node);
+  });
+
+  it('receives frames and levels over the port without shared memory', async () => {
+    await capture.attach(
+      createContext() as unknown as AudioContext,
+      source as unknown as AudioNode
+    );
+    const node = MockAudioWorkletNode.instances[0];
+    expect(capture.usesSharedMemory()).toBe(false);
+    expect(node.options.processorOptions.ring).toBeNull();
+
+    capture.start();
+    expect(node.port.postMessage).toHaveBeenLastCalledWith({ type: 'start' });
+
+    const samples = new Int16Array(320);
+    node.port.onmessage?.({ data: { type: 'frame', samples, voice: false } });
+    node.port.onmessage?.({ data: level });
+
+    expect(onFrame).toHaveBeenCalledWith({ samples, isVoiceDetected: false });
+    expect(onLevel).toHaveBeenCalledWith({ rms: -20, peak: -12, clipping: false }, true);
+
+    capture.stop();
+    expect(node.port.postMessage).toHaveBeenLastCalledWith({ type: 'stop' });
+  });
+
+  it('reads frames from the ring buffer when cross-origin isolated', async () => {
+    (globalThis as any).crossOriginIsolated = true;
+    await capture.attach(
+      createContext() as unknown as AudioContext,
+      source as unknown as AudioNode
+    );
+    const node = MockAudioWorkletNode.instances[0];
+    const { ring } = node.options.processorOptions;
+    expect(capture.usesSharedMemory()).toBe(true);
+    expect(ring.slots).toBe(CAPTURE_CONSTANTS.RING_BUFFER_FRAMES);
+
+    writeFrame(ring, 1);
+    writeFrame(ring, 2);
+    node.port.onmessage?.({ data: level });
+
+    expect(onFrame).toHaveBeenCalledTimes(2);
+    expect(onFrame.mock.calls.map(([frame]) => (frame as any).samples[0])).toEqual([1, 2]);
+    expect((onFrame.mock.calls[0][0] as any).isVoiceDetected).toBe(true);
+    expect(new Int32Array(ring.buffer, 0, 4)[1]).toBe(2);
+
+    // Frames left when capture stops still belong to the turn
+    writeFrame(ring, 3);
+    capture.stop();
+    expect(onFrame).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports frames dropped by the worklet', async () => {
+    (globalThis as any).crossOriginIsolated = true;
+    await capture.attach(
+      createContext() as unknown as AudioContext,
+      source as unknown as AudioNode
+    );
+    const { ring } = MockAudioWorkletNode.instances[0].options.processorOptions;
+
+    new Int32Array(ring.buffer, 0, 4)[2] = 3;
+
+    expect(capture.getDroppedFrames()).toBe(3);
+  });
+
+  it('fails to attach without AudioWorklet support', async () => {
+    await expect(
+      capture.attach({} as AudioContext, source as unknown as AudioNode)
+    ).rejects.toThrow('AudioWorklet');
+  });
+});
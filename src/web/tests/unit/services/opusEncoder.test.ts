@@ -0,0 +1,161 @@
+/**
+ * Unit tests for Opus encoding of captured frames
+ * @packageDocumentation
+ * @version 1.0.0
+ */
+
+// External imports
+import { jest } from '@jest/globals'; // v29.0.0
+
+// Internal imports
+import { OpusFrameEncoder } from '../../../src/services/opusEncoder.service';
+import { OPUS_ENCODING_CONSTANTS } from '../../../src/constants/audio.constants';
+import { AudioChunk, AudioFormat } from '../../../src/types/audio.types';
+
+const mockWasmEncoder = {
+  available: true,
+  encode: jest.fn((samples: Int16Array) => new Uint8Array([samples.length % 256, 1, 2])),
+  drop: jest.fn()
+};
+
+jest.mock('@evan/wasm/target/opus/deno.js', () => ({
+  Encoder: class {
+    bitrate = 0;
+    encode = mockWasmEncoder.encode;
+    drop = mockWasmEncoder.drop;
+
+    constructor() {
+      if (!mockWasmEncoder.available) {
+        throw new Error('WebAssembly unavailable');
+      }
+    }
+  }
+}), { virtual: true });
+
+// Mock implementations
+class MockAudioEncoder {
+  static instances: MockAudioEncoder[] = [];
+  static supported = true;
+  static isConfigSupported = jest.fn(async () => ({ supported: MockAudioEncoder.supported }));
+
+  state = 'unconfigured';
+  configure = jest.fn(() => {
+    this.state = 'configured';
+  });
+  encode = jest.fn();
+  flush = jest.fn(async () => undefined);
+  close = jest.fn(() => {
+    this.state = 'closed';
+  });
+
+  constructor(public init: { output: (chunk: unknown) => void }) {
+    MockAudioEncoder.instances.push(this);
+  }
+}
+
+class MockAudioData {
+  close = jest.fn();
+
+  constructor(public init: any) {}
+}
+
+const packetOf = (chunk: AudioChunk): number[] => {
+  const length = new DataView(chunk.data.buffer).getUint16(0);
+  expect(chunk.data.byteLength).toBe(OPUS_ENCODING_CONSTANTS.PACKET_HEADER_BYTES + length);
+  return Array.from(chunk.data.subarray(OPUS_ENCODING_CONSTANTS.PACKET_HEADER_BYTES));
+};
+
+describe('OpusFrameEncoder', () => {
+  let onChunk: jest.Mock;
+  let encoder: OpusFrameEncoder;
+
+  beforeEach(() => {
+    MockAudioEncoder.instances = [];
+    MockAudioEncoder.supported = true;
+    mockWasmEncoder.available = true;
+    mockWasmEncoder.encode.mockClear();
+    (global as any).AudioEncoder = MockAudioEncoder;
+    (global as any).AudioData = MockAudioData;
+
+    onChunk = jest.fn();
+    encoder = new OpusFrameEncoder(onChunk as unknown as (chunk: AudioChunk) => void);
+  });
+
+  afterEach(() => {
+    delete (global as any).AudioEncoder;
+    delete (global as any).AudioData;
+  });
+
+  it('encodes with WebCodecs when the browser supports Opus', async () => {
+    await expect(encoder.initialize()).resolves.toBe(AudioFormat.OPUS);
+    const webCodecs = MockAudioEncoder.instances[0];
+    expect(webCodecs.configure).toHaveBeenCalledWith(expect.objectContaining({
+      codec: 'opus',
+      sampleRate: 16000,
+      numberOfChannels: 1
+    }));
+
+    encoder.encode(new Int16Array(320), 1000);
+    const [frame] = webCodecs.encode.mock.calls[0] as [MockAudioData];
+    expect(frame.init).toMatchObject({ format: 's16', numberOfFrames: 320, timestamp: 1000000 });
+    expect(frame.close).toHaveBeenCalled();
+
+    webCodecs.init.output({
+      byteLength: 3,
+      timestamp: 1000000,
+      copyTo: (target: Uint8Array) => target.set([7, 8, 9])
+    });
+
+    const [chunk] = onChunk.mock.calls[0] as [AudioChunk];
+    expect(packetOf(chunk)).toEqual([7, 8, 9]);
+    expect(chunk.format).toBe(AudioFormat.OPUS);
+    expect(chunk.timestamp).toBe(1000);
+    expect(chunk.metadata).toEqual({
+      sampleRate: 16000,
+      channels: 1,
+      encoding: OPUS_ENCODING_CONSTANTS.ENCODING,
+      frameSize: 20
+    });
+  });
+
+  it('flushes frames held by WebCodecs', async () => {
+    await encoder.initialize();
+
+    await encoder.flush();
+    expect(MockAudioEncoder.instances[0].flush).toHaveBeenCalled();
+
+    encoder.close();
+    expect(MockAudioEncoder.instances[0].close).toHaveBeenCalled();
+    expect(encoder.getFormat()).toBe(AudioFormat.PCM);
+  });
+
+  it('falls back to WebAssembly when WebCodecs cannot encode Opus', async () => {
+    MockAudioEncoder.supported = false;
+
+    await expect(encoder.initialize()).resolves.toBe(AudioFormat.OPUS);
+    expect(MockAudioEncoder.instances).toHaveLength(0);
+
+    encoder.encode(new Int16Array(320), 40);
+
+    const [chunk] = onChunk.mock.calls[0] as [AudioChunk];
+    expect(packetOf(chunk)).toEqual([320 % 256, 1, 2]);
+    expect(chunk.format).toBe(AudioFormat.OPUS);
+    expect(chunk.timestamp).toBe(40);
+  });
+
+  it('sends PCM when no Opus encoder is available', async () => {
+    delete (global as any).AudioEncoder;
+    mockWasmEncoder.available = false;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    await expect(encoder.initialize()).resolves.toBe(AudioFormat.PCM);
+
+    const samples = new Int16Array(320);
+    encoder.encode(samples, 40);
+
+    const [chunk] = onChunk.mock.calls[0] as [AudioChunk];
+    expect(chunk.format).toBe(AudioFormat.PCM);
+    expect(chunk.data.byteLength).toBe(640);
+    expect(chunk.metadata?.encoding).toBe('LINEAR16');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for progressive playback of streamed AI speech
+ * @packageDocumentation
+ * @version 1.0.0
+ */
+
+// External imports
+import { jest } from '@jest/globals'; // v29.0.0
+
+// Internal imports
+import { PcmStreamPlayer } from '../../../src/services/playback.service';
+import { PLAYBACK_CONSTANTS } from '../../../src/constants/audio.constants';
+
+// Mock implementations
+class MockBufferSource {
+  buffer: { duration: number } | null = null;
+  onended: (() => void) | null = null;
+  connect = jest.fn();
+  start = jest.fn();
+  stop = jest.fn();
+}
+
+class MockAudioContext {
+  static instances: MockAudioContext[] = [];
+  static withWorklet = false;
+
+  sampleRate: number;
+  state = 'running';
+  currentTime = 0;
+  destination = {};
+  audioWorklet?: { addModule: jest.Mock };
+  sources: MockBufferSource[] = [];
+
+  constructor(options: { sampleRate: number }) {
+    this.sampleRate = options.sampleRate;
+    if (MockAudioContext.withWorklet) {
+      this.audioWorklet = { addModule: jest.fn(async () => undefined) };
+    }
+    MockAudioContext.instances.push(this);
+  }
+
+  createBuffer = jest.fn((_channels: number, length: number, sampleRate: number) => ({
+    duration: length / sampleRate,
+    getChannelData: () => new Float32Array(length)
+  }));
+
+  createBufferSource = jest.fn(() => {
+    const source = new MockBufferSource();
+    this.sources.push(source);
+    return source;
+  });
+
+  resume = jest.fn(async () => undefined);
+  close = jest.fn(async () => undefined);
+}
+
+class MockAudioWorkletNode {
+  static instances: MockAudioWorkletNode[] = [];
+
+  port = {
+    postMessage: jest.fn(),
+    onmessage: null as ((event: { data: unknown }) => void) | null
+  };
+  connect = jest.fn();
+  disconnect = jest.fn();
+
+  constructor(public context: unknown, public name: string) {
+    MockAudioWorkletNode.instances.push(this);
+  }
+}
+
+/**
+ * 100ms of 16kHz PCM16 silence
+ */
+const frame = (): Uint8Array => new Uint8Array(3200);
+
+describe('PcmStreamPlayer', () => {
+  let onEnded: jest.Mock;
+  let player: PcmStreamPlayer;
+
+  beforeEach(() => {
+    MockAudioContext.instances = [];
+    MockAudioContext.withWorklet = false;
+    MockAudioWorkletNode.instances = [];
+    (global as any).AudioContext = MockAudioContext;
+    (global as any).AudioWorkletNode = MockAudioWorkletNode;
+
+    onEnded = jest.fn();
+    player = new PcmStreamPlayer(onEnded as unknown as () => void);
+  });
+
+  it('schedules chunks back to back and reports played time', async () => {
+    await player.enqueue(frame(), 16000);
+    await player.enqueue(frame(), 16000);
+
+    const context = MockAudioContext.instances[0];
+    expect(context.sampleRate).toBe(16000);
+    expect(context.sources.map((source) => source.start.mock.calls[0][0])).toEqual([0, 0.1]);
+
+    context.currentTime = 0.15;
+    expect(player.getPlayedDuration()).toBe(150);
+
+    expect(player.stop()).toBe(150);
+    expect(context.sources.every((source) => source.stop.mock.calls.length === 1)).toBe(true);
+    expect(player.isActive()).toBe(false);
+  });
+
+  it('signals the end once every scheduled chunk has played', async () => {
+    await player.enqueue(frame(), 16000);
+    await player.end();
+
+    expect(onEnded).not.toHaveBeenCalled();
+
+    MockAudioContext.instances[0].sources[0].onended?.();
+    expect(onEnded).toHaveBeenCalledTimes(1);
+  });
+
+  it('streams samples to the player worklet when supported', async () => {
+    MockAudioContext.withWorklet = true;
+
+    await player.enqueue(frame(), 16000);
+    await player.end();
+
+    const context = MockAudioContext.instances[0];
+    const node = MockAudioWorkletNode.instances[0];
+    expect(context.audioWorklet?.addModule).toHaveBeenCalledWith(
+      PLAYBACK_CONSTANTS.PCM_PLAYER_WORKLET_URL
+    );
+    expect(node.name).toBe(PLAYBACK_CONSTANTS.PCM_PLAYER_PROCESSOR);
+    expect(node.port.postMessage.mock.calls.map(([message]) => (message as any).type))
+      .toEqual(['push', 'end']);
+
+    node.port.onmessage?.({ data: { type: 'progress', playedFrames: 800 } });
+    expect(player.getPlayedDuration()).toBe(50);
+
+    node.port.onmessage?.({ data: { type: 'drained', playedFrames: 1600 } });
+    expect(onEnded).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops chunks queued before playback was stopped', async () => {
+    const pending = player.enqueue(frame(), 16000);
+    player.stop();
+    await pending;
+
+    expect(MockAudioContext.instances[0].sources).toHaveLength(0);
+    expect(player.isActive()).toBe(false);
+  });
+});
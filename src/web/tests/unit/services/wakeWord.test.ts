@@ -0,0 +1,145 @@
+/**
+ * Unit tests for in-browser wake word detection
+ * @packageDocumentation
+ * @version 1.0.0
+ */
+
+// External imports
+import { jest } from '@jest/globals'; // v29.0.0
+
+// Internal imports
+import { WakeWordDetector, sensitivityToThreshold } from '../../../src/services/wakeWord.service';
+import { WAKE_WORD_CONSTANTS } from '../../../src/constants/audio.constants';
+
+// Mock implementations
+class MockAudioWorkletNode {
+  static instances: MockAudioWorkletNode[] = [];
+
+  port = {
+    postMessage: jest.fn(),
+    onmessage: null as ((event: { data: unknown }) => void) | null
+  };
+  connect = jest.fn();
+  disconnect = jest.fn();
+
+  constructor(public context: unknown, public name: string, public options: any) {
+    MockAudioWorkletNode.instances.push(this);
+  }
+}
+
+const createContext = () => ({
+  audioWorklet: { addModule: jest.fn(async () => undefined) }
+});
+
+const sample = [[0.1, 0.2], [0.3, 0.4]];
+
+const postedTypes = (node: MockAudioWorkletNode) =>
+  node.port.postMessage.mock.calls.map(([message]) => (message as any).type);
+
+describe('WakeWordDetector', () => {
+  let onDetected: jest.Mock;
+  let detector: WakeWordDetector;
+  let source: { connect: jest.Mock };
+
+  beforeEach(() => {
+    MockAudioWorkletNode.instances = [];
+    (global as any).AudioWorkletNode = MockAudioWorkletNode;
+
+    onDetected = jest.fn();
+    source = { connect: jest.fn() };
+    detector = new WakeWordDetector(onDetected as unknown as (distance: number) => void);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('maps sensitivity onto the accepted match distance', () => {
+    expect(sensitivityToThreshold(0)).toBe(WAKE_WORD_CONSTANTS.STRICT_THRESHOLD);
+    expect(sensitivityToThreshold(100)).toBe(WAKE_WORD_CONSTANTS.LENIENT_THRESHOLD);
+    expect(sensitivityToThreshold(150)).toBe(WAKE_WORD_CONSTANTS.LENIENT_THRESHOLD);
+    expect(sensitivityToThreshold(50)).toBeGreaterThan(sensitivityToThreshold(25));
+  });
+
+  it('analyses the source without passing its audio on', async () => {
+    const context = createContext();
+    await detector.attach(context as unknown as AudioContext, source as unknown as AudioNode);
+
+    const node = MockAudioWorkletNode.instances[0];
+    expect(context.audioWorklet.addModule).toHaveBeenCalledWith(WAKE_WORD_CONSTANTS.WORKLET_URL);
+    expect(node.name).toBe(WAKE_WORD_CONSTANTS.PROCESSOR);
+    expect(node.options.numberOfOutputs).toBe(0);
+    expect(node.connect).not.toHaveBeenCalled();
+    expect(source.connect).toHaveBeenCalledWith(node);
+  });
+
+  it('sends samples and threshold to the worklet and reports detections', async () => {
+    await detector.attach(
+      createContext() as unknown as AudioContext,
+      source as unknown as AudioNode
+    );
+    expect(detector.isReady()).toBe(false);
+
+    detector.configure({ phrase: 'Hey assistant', samples: [sample], sensitivity: 100 });
+
+    const node = MockAudioWorkletNode.instances[0];
+    expect(node.port.postMessage).toHaveBeenLastCalledWith({
+      type: 'configure',
+      templates: [sample],
+      threshold: WAKE_WORD_CONSTANTS.LENIENT_THRESHOLD
+    });
+    expect(detector.isReady()).toBe(true);
+
+    node.port.onmessage?.({ data: { type: 'detected', distance: 6 } });
+    expect(onDetected).toHaveBeenCalledWith(6);
+  });
+
+  it('resolves a recorded sample with the enrolled features', async () => {
+    await detector.attach(
+      createContext() as unknown as AudioContext,
+      source as unknown as AudioNode
+    );
+    const node = MockAudioWorkletNode.instances[0];
+
+    const recording = detector.recordSample();
+    expect(postedTypes(node)).toContain('enroll');
+
+    node.port.onmessage?.({ data: { type: 'enrolled', features: sample } });
+    await expect(recording).resolves.toEqual(sample);
+  });
+
+  it('gives up on a sample when no phrase is heard', async () => {
+    jest.useFakeTimers();
+    await detector.attach(
+      createContext() as unknown as AudioContext,
+      source as unknown as AudioNode
+    );
+    const node = MockAudioWorkletNode.instances[0];
+
+    const recording = detector.recordSample();
+    jest.advanceTimersByTime(WAKE_WORD_CONSTANTS.ENROLLMENT_TIMEOUT_MS);
+
+    await expect(recording).rejects.toThrow('No phrase heard');
+    expect(postedTypes(node)).toContain('cancel');
+  });
+
+  it('rejects a pending sample when detached', async () => {
+    await detector.attach(
+      createContext() as unknown as AudioContext,
+      source as unknown as AudioNode
+    );
+    const recording = detector.recordSample();
+
+    detector.detach();
+
+    await expect(recording).rejects.toThrow('detached');
+    expect(MockAudioWorkletNode.instances[0].disconnect).toHaveBeenCalled();
+    expect(detector.isReady()).toBe(false);
+  });
+
+  it('fails to attach without AudioWorklet support', async () => {
+    await expect(
+      detector.attach({} as AudioContext, source as unknown as AudioNode)
+    ).rejects.toThrow('AudioWorklet');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for binary audio frame encoding
+ * @packageDocumentation
+ * @version 1.0.0
+ */
+
+// Internal imports
+import {
+  AudioFrame,
+  decodeAudioFrame,
+  encodeAudioFrame
+} from '../../../src/utils/audioFrame.utils';
+import { AUDIO_FRAME } from '../../../src/constants/websocket.constants';
+import { AudioFormat } from '../../../src/types/audio.types';
+import { WebSocketMessageType } from '../../../src/types/websocket.types';
+
+const frame: AudioFrame = {
+  type: WebSocketMessageType.AUDIO,
+  payload: {
+    data: new Uint8Array([0, 3, 9, 8, 7]),
+    timestamp: 1700000000123,
+    format: AudioFormat.OPUS
+  },
+  timestamp: 1700000000123,
+  sequenceNumber: 7,
+  audioMetadata: { sampleRate: 16000, channels: 1, encoding: 'OPUS', frameSize: 20 }
+};
+
+describe('audio frames', () => {
+  it('writes a big-endian header before the raw audio', () => {
+    const encoded = encodeAudioFrame(frame);
+    const header = new DataView(encoded);
+
+    expect(encoded.byteLength).toBe(AUDIO_FRAME.HEADER_BYTES + 5);
+    expect(header.getUint8(0)).toBe(AUDIO_FRAME.VERSION);
+    expect(header.getUint8(2)).toBe(1);
+    expect(header.getUint32(4)).toBe(7);
+    expect(header.getFloat64(8)).toBe(1700000000123);
+    expect(header.getUint32(16)).toBe(16000);
+    expect(Array.from(new Uint8Array(encoded, AUDIO_FRAME.HEADER_BYTES))).toEqual([0, 3, 9, 8, 7]);
+  });
+
+  it('round-trips audio messages', () => {
+    expect(decodeAudioFrame(encodeAudioFrame(frame))).toEqual(frame);
+  });
+
+  it('decodes server PCM as LINEAR16', () => {
+    const encoded = encodeAudioFrame({
+      ...frame,
+      payload: { ...frame.payload, format: AudioFormat.PCM },
+      audioMetadata: { ...frame.audioMetadata!, encoding: 'LINEAR16', sampleRate: 24000 }
+    });
+
+    const decoded = decodeAudioFrame(encoded);
+    expect(decoded.payload.format).toBe(AudioFormat.PCM);
+    expect(decoded.audioMetadata).toMatchObject({ encoding: 'LINEAR16', sampleRate: 24000 });
+  });
+
+  it('rejects frames it cannot read', () => {
+    const encoded = encodeAudioFrame(frame);
+    const withVersion = encoded.slice(0);
+    new DataView(withVersion).setUint8(0, AUDIO_FRAME.VERSION + 1);
+
+    expect(() => decodeAudioFrame(encoded.slice(0, 8))).toThrow('Truncated');
+    expect(() => decodeAudioFrame(withVersion)).toThrow('version');
+    expect(() => encodeAudioFrame({ ...frame, audioMetadata: undefined })).toThrow('metadata');
+    expect(() => encodeAudioFrame({
+      ...frame,
+      payload: { ...frame.payload, format: AudioFormat.AAC }
+    })).toThrow('Unsupported audio frame format');
+  });
+});
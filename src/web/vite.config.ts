@@ -25,6 +25,11 @@ export default defineConfig(({ mode }) => ({
     port: 3000,
     // Enable host for network access
     host: true,
+    // Cross-origin isolation lets the capture worklet share memory with the page
+    headers: {
+      'Cross-Origin-Opener-Policy': 'same-origin',
+      'Cross-Origin-Embedder-Policy': 'credentialless'
+    },
     // Proxy configuration for API and WebSocket endpoints
     proxy: {
       // REST API proxy configuration